@@ -0,0 +1,346 @@
+/**
+ * @file actions/address.ts
+ * @description 배송지 주소록 Server Actions
+ *
+ * 로그인 사용자가 자주 쓰는 배송지를 저장하고 관리하는 Server Actions입니다.
+ * 주문 페이지에서 저장한 배송지를 선택하면 배송 정보 폼이 채워집니다.
+ *
+ * 주요 기능:
+ * 1. getUserAddresses: 저장한 배송지 목록 조회 (기본 배송지 먼저)
+ * 2. createUserAddress: 배송지 추가 (첫 배송지는 기본 배송지로 지정)
+ * 3. updateUserAddress: 배송지 수정
+ * 4. deleteUserAddress: 배송지 삭제 (기본 배송지를 삭제하면 최근 배송지를 기본으로 지정)
+ * 5. setDefaultUserAddress: 기본 배송지 지정
+ *
+ * @dependencies
+ * - @clerk/nextjs/server: Clerk 인증 (auth)
+ * - lib/supabase/server.ts: Supabase 클라이언트
+ * - lib/addresses.ts: 배송지 Zod 스키마, 배송지 수 제한
+ * - types/address.ts: UserAddress 타입 정의
+ */
+
+"use server";
+
+import { auth } from "@clerk/nextjs/server";
+import { revalidatePath } from "next/cache";
+import { createClerkSupabaseClient } from "@/lib/supabase/server";
+import { USER_ADDRESS_LIMIT, userAddressSchema } from "@/lib/addresses";
+import type { UserAddress, UserAddressInput } from "@/types/address";
+
+/**
+ * 배송지 입력값을 검증하고 DB 컬럼 형식으로 변환합니다.
+ *
+ * @throws 입력값이 올바르지 않은 경우 첫 번째 검증 에러 메시지
+ */
+function toAddressRow(input: UserAddressInput) {
+  const parsed = userAddressSchema.safeParse(input);
+  if (!parsed.success) {
+    throw new Error(parsed.error.issues[0]?.message ?? "배송지 정보가 올바르지 않습니다.");
+  }
+
+  const data = parsed.data;
+  return {
+    label: data.label,
+    recipient_name: data.recipientName,
+    phone: data.phone.replace(/-/g, ""), // 하이픈 제거하여 저장
+    postal_code: data.postalCode,
+    address: data.address,
+    detail_address: data.detailAddress,
+    delivery_request: data.deliveryRequest?.trim() || null,
+  };
+}
+
+/**
+ * 배송지 관련 페이지 캐시를 무효화합니다.
+ */
+function revalidateAddressPaths() {
+  revalidatePath("/my/addresses");
+  revalidatePath("/checkout");
+}
+
+/**
+ * 현재 사용자가 저장한 배송지 목록을 조회합니다 (기본 배송지 먼저, 최근 추가 순).
+ * 로그인하지 않은 경우 빈 배열을 반환합니다.
+ *
+ * @returns 저장한 배송지 목록
+ */
+export async function getUserAddresses(): Promise<UserAddress[]> {
+  // 로그인 확인 (로그인하지 않은 경우 저장한 배송지 없음)
+  const { userId } = await auth();
+  if (!userId) {
+    return [];
+  }
+
+  const supabase = createClerkSupabaseClient();
+
+  const { data, error } = await supabase
+    .from("user_addresses")
+    .select("*")
+    .eq("clerk_id", userId)
+    .order("is_default", { ascending: false })
+    .order("created_at", { ascending: false });
+
+  if (error) {
+    console.error("❌ 배송지 목록 조회 실패:", error);
+    return [];
+  }
+
+  return (data ?? []) as UserAddress[];
+}
+
+/**
+ * 배송지를 추가합니다.
+ * 첫 배송지이거나 기본 배송지로 지정한 경우 기본 배송지가 됩니다.
+ *
+ * @param input - 배송지 정보
+ * @returns 추가한 배송지
+ * @throws 로그인하지 않은 경우, 입력값이 올바르지 않은 경우, 배송지 수 제한을 넘은 경우 에러
+ */
+export async function createUserAddress(input: UserAddressInput): Promise<UserAddress> {
+  console.group("📍 [createUserAddress] 배송지 추가 시작");
+
+  // 1. 로그인 확인
+  const { userId } = await auth();
+  if (!userId) {
+    console.error("❌ 로그인하지 않은 사용자");
+    console.groupEnd();
+    throw new Error("로그인이 필요합니다.");
+  }
+
+  // 2. 입력값 검증
+  let row;
+  try {
+    row = toAddressRow(input);
+  } catch (error) {
+    console.error("❌ 입력값 검증 실패:", error);
+    console.groupEnd();
+    throw error;
+  }
+
+  const supabase = createClerkSupabaseClient();
+
+  // 3. 배송지 수 제한 확인
+  const { count, error: countError } = await supabase
+    .from("user_addresses")
+    .select("id", { count: "exact", head: true })
+    .eq("clerk_id", userId);
+
+  if (countError) {
+    console.error("❌ 배송지 수 조회 실패:", countError);
+    console.groupEnd();
+    throw new Error(`배송지 추가에 실패했습니다: ${countError.message}`);
+  }
+
+  if ((count ?? 0) >= USER_ADDRESS_LIMIT) {
+    console.error("❌ 배송지 수 제한 초과:", count);
+    console.groupEnd();
+    throw new Error(`배송지는 최대 ${USER_ADDRESS_LIMIT}개까지 저장할 수 있습니다.`);
+  }
+
+  // 4. 배송지 추가
+  const { data: address, error } = await supabase
+    .from("user_addresses")
+    .insert({ ...row, clerk_id: userId })
+    .select()
+    .single();
+
+  if (error || !address) {
+    console.error("❌ 배송지 추가 실패:", error);
+    console.groupEnd();
+    throw new Error(`배송지 추가에 실패했습니다: ${error?.message ?? "알 수 없는 에러"}`);
+  }
+
+  // 5. 기본 배송지 지정 (첫 배송지는 자동으로 기본 배송지)
+  if (input.isDefault || (count ?? 0) === 0) {
+    const { error: defaultError } = await supabase.rpc("set_default_user_address", {
+      p_address_id: address.id,
+    });
+
+    if (defaultError) {
+      console.error("⚠️ 기본 배송지 지정 실패 (배송지는 추가됨):", defaultError);
+    } else {
+      address.is_default = true;
+    }
+  }
+
+  revalidateAddressPaths();
+
+  console.log("✅ 배송지 추가 완료:", address.id);
+  console.groupEnd();
+  return address as UserAddress;
+}
+
+/**
+ * 배송지를 수정합니다.
+ *
+ * @param addressId - 배송지 ID
+ * @param input - 배송지 정보 (isDefault가 true이면 기본 배송지로 지정)
+ * @returns 수정한 배송지
+ * @throws 로그인하지 않은 경우, 입력값이 올바르지 않은 경우, 배송지를 찾을 수 없는 경우 에러
+ */
+export async function updateUserAddress(
+  addressId: string,
+  input: UserAddressInput
+): Promise<UserAddress> {
+  console.group("📍 [updateUserAddress] 배송지 수정 시작");
+  console.log("배송지 ID:", addressId);
+
+  // 1. 로그인 확인
+  const { userId } = await auth();
+  if (!userId) {
+    console.error("❌ 로그인하지 않은 사용자");
+    console.groupEnd();
+    throw new Error("로그인이 필요합니다.");
+  }
+
+  // 2. 입력값 검증
+  let row;
+  try {
+    row = toAddressRow(input);
+  } catch (error) {
+    console.error("❌ 입력값 검증 실패:", error);
+    console.groupEnd();
+    throw error;
+  }
+
+  const supabase = createClerkSupabaseClient();
+
+  // 3. 본인 배송지 수정
+  const { data: address, error } = await supabase
+    .from("user_addresses")
+    .update(row)
+    .eq("id", addressId)
+    .eq("clerk_id", userId)
+    .select()
+    .maybeSingle();
+
+  if (error) {
+    console.error("❌ 배송지 수정 실패:", error);
+    console.groupEnd();
+    throw new Error(`배송지 수정에 실패했습니다: ${error.message}`);
+  }
+
+  if (!address) {
+    console.error("❌ 배송지를 찾을 수 없음");
+    console.groupEnd();
+    throw new Error("배송지를 찾을 수 없습니다.");
+  }
+
+  // 4. 기본 배송지 지정 (기본 배송지 해제는 다른 배송지를 기본으로 지정해서 처리)
+  if (input.isDefault && !address.is_default) {
+    const { error: defaultError } = await supabase.rpc("set_default_user_address", {
+      p_address_id: addressId,
+    });
+
+    if (defaultError) {
+      console.error("❌ 기본 배송지 지정 실패:", defaultError);
+      console.groupEnd();
+      throw new Error(`기본 배송지 지정에 실패했습니다: ${defaultError.message}`);
+    }
+    address.is_default = true;
+  }
+
+  revalidateAddressPaths();
+
+  console.log("✅ 배송지 수정 완료");
+  console.groupEnd();
+  return address as UserAddress;
+}
+
+/**
+ * 배송지를 삭제합니다.
+ * 기본 배송지를 삭제하면 가장 최근에 추가한 배송지를 기본 배송지로 지정합니다.
+ *
+ * @param addressId - 배송지 ID
+ * @throws 로그인하지 않은 경우, 삭제 실패 시 에러
+ */
+export async function deleteUserAddress(addressId: string): Promise<void> {
+  console.group("📍 [deleteUserAddress] 배송지 삭제 시작");
+  console.log("배송지 ID:", addressId);
+
+  // 1. 로그인 확인
+  const { userId } = await auth();
+  if (!userId) {
+    console.error("❌ 로그인하지 않은 사용자");
+    console.groupEnd();
+    throw new Error("로그인이 필요합니다.");
+  }
+
+  const supabase = createClerkSupabaseClient();
+
+  // 2. 본인 배송지 삭제
+  const { data: deleted, error } = await supabase
+    .from("user_addresses")
+    .delete()
+    .eq("id", addressId)
+    .eq("clerk_id", userId)
+    .select("is_default");
+
+  if (error) {
+    console.error("❌ 배송지 삭제 실패:", error);
+    console.groupEnd();
+    throw new Error(`배송지 삭제에 실패했습니다: ${error.message}`);
+  }
+
+  // 3. 기본 배송지를 삭제한 경우 최근 배송지를 기본으로 지정
+  if (deleted?.[0]?.is_default) {
+    const { data: latest } = await supabase
+      .from("user_addresses")
+      .select("id")
+      .eq("clerk_id", userId)
+      .order("created_at", { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (latest) {
+      const { error: defaultError } = await supabase.rpc("set_default_user_address", {
+        p_address_id: latest.id,
+      });
+
+      if (defaultError) {
+        console.error("⚠️ 기본 배송지 재지정 실패 (배송지는 삭제됨):", defaultError);
+      }
+    }
+  }
+
+  revalidateAddressPaths();
+
+  console.log("✅ 배송지 삭제 완료");
+  console.groupEnd();
+}
+
+/**
+ * 기본 배송지를 지정합니다. 기존 기본 배송지는 해제됩니다.
+ *
+ * @param addressId - 배송지 ID
+ * @throws 로그인하지 않은 경우, 배송지를 찾을 수 없는 경우 에러
+ */
+export async function setDefaultUserAddress(addressId: string): Promise<void> {
+  console.group("📍 [setDefaultUserAddress] 기본 배송지 지정 시작");
+  console.log("배송지 ID:", addressId);
+
+  // 1. 로그인 확인
+  const { userId } = await auth();
+  if (!userId) {
+    console.error("❌ 로그인하지 않은 사용자");
+    console.groupEnd();
+    throw new Error("로그인이 필요합니다.");
+  }
+
+  // 2. 기본 배송지 지정 (본인 배송지 확인, 기존 기본 배송지 해제는 DB 함수에서 처리)
+  const supabase = createClerkSupabaseClient();
+  const { error } = await supabase.rpc("set_default_user_address", {
+    p_address_id: addressId,
+  });
+
+  if (error) {
+    console.error("❌ 기본 배송지 지정 실패:", error);
+    console.groupEnd();
+    throw new Error(error.message);
+  }
+
+  revalidateAddressPaths();
+
+  console.log("✅ 기본 배송지 지정 완료");
+  console.groupEnd();
+}
@@ -0,0 +1,329 @@
+/**
+ * @file actions/admin/banners.ts
+ * @description 홈 배너 관리 Server Actions
+ *
+ * 관리자가 홈 브랜드 배너를 생성, 수정, 삭제, 조회하고 노출 순서를 바꾸는 Server Actions입니다.
+ * 모든 액션에서 관리자 권한을 체크합니다.
+ *
+ * 주요 기능:
+ * 1. createBanner: 새 배너 생성 (노출 순서 맨 뒤)
+ * 2. updateBanner: 배너 수정
+ * 3. deleteBanner: 배너 삭제
+ * 4. getAdminBanners: 관리자용 배너 목록 조회 (노출 순서)
+ * 5. getBannerById: 배너 상세 조회
+ * 6. getBannerProducts: 배너 연결 상품 조회 (연결 순서)
+ * 7. reorderBanners: 배너 노출 순서 변경
+ *
+ * @dependencies
+ * - lib/admin/is-admin.ts: 관리자 권한 체크
+ * - lib/supabase/server.ts: Supabase 클라이언트
+ * - lib/supabase/service-role.ts: 노출 순서 변경 함수 호출 (관리자 전용 함수)
+ * - lib/banners.ts: 배너 링크 규칙
+ * - types/banner.ts: Banner 타입 정의
+ */
+
+"use server";
+
+import { revalidatePath } from "next/cache";
+import { isAdmin } from "@/lib/admin/is-admin";
+import { createClerkSupabaseClient } from "@/lib/supabase/server";
+import { getServiceRoleClient } from "@/lib/supabase/service-role";
+import { isAllowedBannerLink, MAX_BANNER_PRODUCTS } from "@/lib/banners";
+import type { Banner } from "@/types/banner";
+import type { Product } from "@/types/product";
+
+/**
+ * 배너 생성에 필요한 데이터 타입
+ */
+export interface CreateBannerData {
+  title: string;
+  description?: string | null;
+  image_url: string;
+  link_url?: string | null;
+  product_ids?: string[];
+  is_active?: boolean;
+  starts_at?: string | null;
+  ends_at?: string | null;
+}
+
+/**
+ * 배너 수정에 필요한 데이터 타입
+ */
+export interface UpdateBannerData extends Partial<CreateBannerData> {
+  id: string;
+}
+
+/**
+ * 배너 링크를 검사합니다.
+ *
+ * @throws 사이트 내부 경로 또는 http(s) URL이 아닌 경우 에러
+ */
+function assertBannerLink(linkUrl: string | null | undefined) {
+  if (linkUrl && !isAllowedBannerLink(linkUrl)) {
+    throw new Error("링크는 /로 시작하는 사이트 내부 경로 또는 http(s) URL만 사용할 수 있습니다.");
+  }
+}
+
+/**
+ * 배너 연결 상품 수를 검사합니다.
+ *
+ * @throws 연결 상품이 최대 개수를 넘는 경우 에러
+ */
+function assertBannerProducts(productIds: string[] | undefined) {
+  if (productIds && productIds.length > MAX_BANNER_PRODUCTS) {
+    throw new Error(`연결 상품은 최대 ${MAX_BANNER_PRODUCTS}개까지 선택할 수 있습니다.`);
+  }
+}
+
+/**
+ * 배너 변경 후 관련 페이지 캐시를 무효화합니다.
+ */
+function revalidateBannerPaths() {
+  revalidatePath("/admin/banners");
+  revalidatePath("/");
+}
+
+/**
+ * 새 배너를 생성합니다. 노출 순서는 맨 뒤로 지정됩니다.
+ *
+ * @param data - 배너 생성 데이터
+ * @returns 생성된 배너 정보
+ * @throws 관리자가 아닌 경우, 링크가 올바르지 않은 경우, 연결 상품이 최대 개수를 넘는 경우, 생성에 실패한 경우 에러
+ */
+export async function createBanner(data: CreateBannerData): Promise<Banner> {
+  // 관리자 권한 체크
+  if (!(await isAdmin())) {
+    throw new Error("관리자 권한이 필요합니다.");
+  }
+
+  assertBannerLink(data.link_url);
+  assertBannerProducts(data.product_ids);
+
+  const supabase = createClerkSupabaseClient();
+
+  // 마지막 노출 순서 조회
+  const { data: lastBanner, error: orderError } = await supabase
+    .from("banners")
+    .select("sort_order")
+    .order("sort_order", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (orderError) {
+    console.error("배너 노출 순서 조회 에러:", orderError);
+    throw new Error(`배너 생성에 실패했습니다: ${orderError.message}`);
+  }
+
+  // 배너 생성
+  const { data: banner, error } = await supabase
+    .from("banners")
+    .insert({
+      ...data,
+      description: data.description ?? null,
+      link_url: data.link_url ?? null,
+      product_ids: data.product_ids ?? [],
+      is_active: data.is_active ?? true,
+      starts_at: data.starts_at ?? null,
+      ends_at: data.ends_at ?? null,
+      sort_order: (lastBanner?.sort_order ?? 0) + 1,
+    })
+    .select()
+    .single();
+
+  if (error) {
+    console.error("배너 생성 에러:", error);
+    throw new Error(`배너 생성에 실패했습니다: ${error.message}`);
+  }
+
+  // 캐시 무효화
+  revalidateBannerPaths();
+
+  return banner as Banner;
+}
+
+/**
+ * 배너를 수정합니다.
+ *
+ * @param data - 배너 수정 데이터 (id 필수)
+ * @returns 수정된 배너 정보
+ * @throws 관리자가 아닌 경우, 링크가 올바르지 않은 경우, 연결 상품이 최대 개수를 넘는 경우, 수정에 실패한 경우 에러
+ */
+export async function updateBanner(data: UpdateBannerData): Promise<Banner> {
+  // 관리자 권한 체크
+  if (!(await isAdmin())) {
+    throw new Error("관리자 권한이 필요합니다.");
+  }
+
+  assertBannerLink(data.link_url);
+  assertBannerProducts(data.product_ids);
+
+  const supabase = createClerkSupabaseClient();
+
+  // 수정할 필드만 추출 (id 제외)
+  const { id, ...updateData } = data;
+
+  const { data: banner, error } = await supabase
+    .from("banners")
+    .update(updateData)
+    .eq("id", id)
+    .select()
+    .single();
+
+  if (error) {
+    console.error("배너 수정 에러:", error);
+    throw new Error(`배너 수정에 실패했습니다: ${error.message}`);
+  }
+
+  if (!banner) {
+    throw new Error("배너를 찾을 수 없습니다.");
+  }
+
+  // 캐시 무효화
+  revalidateBannerPaths();
+
+  return banner as Banner;
+}
+
+/**
+ * 배너를 삭제합니다.
+ *
+ * @param id - 삭제할 배너 ID
+ * @throws 관리자가 아닌 경우, 삭제에 실패한 경우 에러
+ */
+export async function deleteBanner(id: string): Promise<void> {
+  // 관리자 권한 체크
+  if (!(await isAdmin())) {
+    throw new Error("관리자 권한이 필요합니다.");
+  }
+
+  const supabase = createClerkSupabaseClient();
+
+  const { error } = await supabase.from("banners").delete().eq("id", id);
+
+  if (error) {
+    console.error("배너 삭제 에러:", error);
+    throw new Error(`배너 삭제에 실패했습니다: ${error.message}`);
+  }
+
+  // 캐시 무효화
+  revalidateBannerPaths();
+}
+
+/**
+ * 관리자용 배너 목록을 조회합니다.
+ *
+ * @returns 배너 목록 (노출 순서)
+ * @throws 관리자가 아닌 경우 에러
+ */
+export async function getAdminBanners(): Promise<Banner[]> {
+  // 관리자 권한 체크
+  if (!(await isAdmin())) {
+    throw new Error("관리자 권한이 필요합니다.");
+  }
+
+  const supabase = createClerkSupabaseClient();
+
+  const { data: banners, error } = await supabase
+    .from("banners")
+    .select("*")
+    .order("sort_order", { ascending: true })
+    .order("created_at", { ascending: true });
+
+  if (error) {
+    console.error("배너 목록 조회 에러:", error);
+    throw new Error(`배너 목록 조회에 실패했습니다: ${error.message}`);
+  }
+
+  return (banners ?? []) as Banner[];
+}
+
+/**
+ * 배너 ID로 배너를 조회합니다.
+ *
+ * @param id - 배너 ID
+ * @returns 배너 정보 또는 null
+ * @throws 관리자가 아닌 경우 에러
+ */
+export async function getBannerById(id: string): Promise<Banner | null> {
+  // 관리자 권한 체크
+  if (!(await isAdmin())) {
+    throw new Error("관리자 권한이 필요합니다.");
+  }
+
+  const supabase = createClerkSupabaseClient();
+
+  const { data: banner, error } = await supabase
+    .from("banners")
+    .select("*")
+    .eq("id", id)
+    .single();
+
+  if (error) {
+    if (error.code === "PGRST116") {
+      // 배너를 찾을 수 없음
+      return null;
+    }
+    console.error("배너 조회 에러:", error);
+    throw new Error(`배너 조회에 실패했습니다: ${error.message}`);
+  }
+
+  return banner as Banner;
+}
+
+/**
+ * 배너에 연결된 상품을 연결 순서대로 조회합니다. (삭제된 상품은 제외)
+ *
+ * @param productIds - 배너의 연결 상품 ID 목록
+ * @returns 연결 상품 목록
+ * @throws 관리자가 아닌 경우 에러
+ */
+export async function getBannerProducts(productIds: string[]): Promise<Product[]> {
+  // 관리자 권한 체크
+  if (!(await isAdmin())) {
+    throw new Error("관리자 권한이 필요합니다.");
+  }
+
+  if (productIds.length === 0) {
+    return [];
+  }
+
+  const supabase = createClerkSupabaseClient();
+
+  const { data: products, error } = await supabase
+    .from("products")
+    .select("*")
+    .in("id", productIds);
+
+  if (error) {
+    console.error("배너 연결 상품 조회 에러:", error);
+    throw new Error(`배너 연결 상품 조회에 실패했습니다: ${error.message}`);
+  }
+
+  const productMap = new Map(((products ?? []) as Product[]).map((product) => [product.id, product]));
+  return productIds.map((id) => productMap.get(id)).filter((product): product is Product => !!product);
+}
+
+/**
+ * 배너 노출 순서를 변경합니다.
+ *
+ * @param bannerIds - 노출 순서대로 정렬한 배너 ID 목록
+ * @throws 관리자가 아닌 경우, 변경에 실패한 경우 에러
+ */
+export async function reorderBanners(bannerIds: string[]): Promise<void> {
+  // 관리자 권한 체크
+  if (!(await isAdmin())) {
+    throw new Error("관리자 권한이 필요합니다.");
+  }
+
+  const { error } = await getServiceRoleClient().rpc("admin_reorder_banners", {
+    p_banner_ids: bannerIds,
+  });
+
+  if (error) {
+    console.error("배너 순서 변경 에러:", error);
+    throw new Error(`배너 순서 변경에 실패했습니다: ${error.message}`);
+  }
+
+  // 캐시 무효화
+  revalidateBannerPaths();
+}
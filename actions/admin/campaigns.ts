@@ -0,0 +1,371 @@
+/**
+ * @file actions/admin/campaigns.ts
+ * @description 프로모션 캠페인 관리 Server Actions
+ *
+ * 관리자가 캠페인을 생성, 수정, 삭제, 조회하고 상품에 일괄 적용하는 Server Actions입니다.
+ * 모든 액션에서 관리자 권한을 체크합니다.
+ *
+ * 주요 기능:
+ * 1. createCampaign: 새 캠페인 생성 (대상 카테고리 상품에 적용)
+ * 2. updateCampaign: 캠페인 수정 (기간 / 할인 규칙을 적용 상품에 다시 반영)
+ * 3. deleteCampaign: 캠페인 삭제 (적용 상품을 캠페인 적용 전 가격으로 복원)
+ * 4. getAdminCampaigns: 관리자용 캠페인 목록 조회 (적용 상품 수 포함)
+ * 5. getCampaignById: 캠페인 상세 조회
+ * 6. getCampaignProducts: 캠페인 적용 상품 조회
+ * 7. attachCampaignProducts: 선택한 상품에 캠페인 일괄 적용
+ * 8. detachCampaignProducts: 선택한 상품의 캠페인 적용 해제 (캠페인 적용 전 가격으로 복원)
+ *
+ * 캠페인 할인은 admin_apply_campaign 함수가 상품의 프로모션 필드에 반영하므로
+ * 판매 가격, 기획 상품 섹션, 주문 금액 계산은 캠페인 기간을 그대로 따릅니다.
+ *
+ * @dependencies
+ * - lib/admin/is-admin.ts: 관리자 권한 체크
+ * - lib/supabase/server.ts: Supabase 클라이언트
+ * - lib/supabase/service-role.ts: 캠페인 적용 / 해제 / 삭제 함수 호출 (관리자 전용 함수)
+ * - types/campaign.ts: Campaign 타입 정의
+ */
+
+"use server";
+
+import { revalidatePath } from "next/cache";
+import { isAdmin } from "@/lib/admin/is-admin";
+import { createClerkSupabaseClient } from "@/lib/supabase/server";
+import { getServiceRoleClient } from "@/lib/supabase/service-role";
+import type { Campaign, CampaignDiscountType } from "@/types/campaign";
+import type { Product } from "@/types/product";
+
+/**
+ * 캠페인 생성에 필요한 데이터 타입
+ */
+export interface CreateCampaignData {
+  name: string;
+  description?: string | null;
+  discount_type: CampaignDiscountType;
+  discount_value: number;
+  starts_at: string;
+  ends_at: string;
+  target_categories?: string[];
+  banner_image_url?: string | null;
+}
+
+/**
+ * 캠페인 수정에 필요한 데이터 타입
+ */
+export interface UpdateCampaignData extends Partial<CreateCampaignData> {
+  id: string;
+}
+
+/**
+ * 관리자 캠페인 목록 항목 (적용 상품 수 포함)
+ */
+export interface AdminCampaign extends Campaign {
+  product_count: number; // 적용 상품 수
+}
+
+/**
+ * 캠페인 할인을 적용 상품(+ 추가 상품, 대상 카테고리 상품)에 반영합니다.
+ * 대상 카테고리 상품 중 다른 캠페인이 적용된 상품은 제외합니다.
+ *
+ * @returns 적용 상품 수
+ * @throws 할인 금액이 상품 가격 이상인 상품, 다른 캠페인에 적용된 선택 상품이 있는 경우 에러 (전체 롤백)
+ */
+async function applyCampaign(campaignId: string, productIds: string[] = []): Promise<number> {
+  const { data, error } = await getServiceRoleClient().rpc("admin_apply_campaign", {
+    p_campaign_id: campaignId,
+    p_product_ids: productIds,
+  });
+
+  if (error) {
+    console.error("캠페인 적용 에러:", error);
+    throw new Error(`캠페인 적용에 실패했습니다: ${error.message}`);
+  }
+
+  return (data as number) ?? 0;
+}
+
+/**
+ * 캠페인 변경 후 관련 페이지 캐시를 무효화합니다.
+ */
+function revalidateCampaignPaths(campaignId?: string) {
+  revalidatePath("/admin/campaigns");
+  if (campaignId) {
+    revalidatePath(`/admin/campaigns/${campaignId}/edit`);
+  }
+  revalidatePath("/admin");
+  revalidatePath("/products");
+  revalidatePath("/");
+}
+
+/**
+ * 새 캠페인을 생성하고 대상 카테고리 상품에 적용합니다.
+ *
+ * @param data - 캠페인 생성 데이터
+ * @returns 생성된 캠페인 정보
+ * @throws 관리자가 아닌 경우, 생성 또는 상품 적용에 실패한 경우 에러
+ */
+export async function createCampaign(data: CreateCampaignData): Promise<Campaign> {
+  // 관리자 권한 체크
+  if (!(await isAdmin())) {
+    throw new Error("관리자 권한이 필요합니다.");
+  }
+
+  const supabase = createClerkSupabaseClient();
+
+  // 캠페인 생성
+  const { data: campaign, error } = await supabase
+    .from("campaigns")
+    .insert({
+      ...data,
+      description: data.description ?? null,
+      target_categories: data.target_categories ?? [],
+      banner_image_url: data.banner_image_url ?? null,
+    })
+    .select()
+    .single();
+
+  if (error) {
+    console.error("캠페인 생성 에러:", error);
+    throw new Error(`캠페인 생성에 실패했습니다: ${error.message}`);
+  }
+
+  // 대상 카테고리 상품에 적용
+  if ((campaign as Campaign).target_categories.length > 0) {
+    await applyCampaign(campaign.id);
+  }
+
+  // 캐시 무효화
+  revalidateCampaignPaths(campaign.id);
+
+  return campaign as Campaign;
+}
+
+/**
+ * 캠페인을 수정하고 변경된 기간 / 할인 규칙을 적용 상품에 다시 반영합니다.
+ *
+ * @param data - 캠페인 수정 데이터 (id 필수)
+ * @returns 수정된 캠페인 정보
+ * @throws 관리자가 아닌 경우, 수정 또는 상품 재적용에 실패한 경우 에러
+ */
+export async function updateCampaign(data: UpdateCampaignData): Promise<Campaign> {
+  // 관리자 권한 체크
+  if (!(await isAdmin())) {
+    throw new Error("관리자 권한이 필요합니다.");
+  }
+
+  const supabase = createClerkSupabaseClient();
+
+  // 수정할 필드만 추출 (id 제외)
+  const { id, ...updateData } = data;
+
+  // 캠페인 수정
+  const { data: campaign, error } = await supabase
+    .from("campaigns")
+    .update(updateData)
+    .eq("id", id)
+    .select()
+    .single();
+
+  if (error) {
+    console.error("캠페인 수정 에러:", error);
+    throw new Error(`캠페인 수정에 실패했습니다: ${error.message}`);
+  }
+
+  if (!campaign) {
+    throw new Error("캠페인을 찾을 수 없습니다.");
+  }
+
+  // 적용 상품에 다시 반영 (대상 카테고리 상품 포함)
+  await applyCampaign(id);
+
+  // 캐시 무효화
+  revalidateCampaignPaths(id);
+
+  return campaign as Campaign;
+}
+
+/**
+ * 캠페인을 삭제합니다. 적용 상품은 캠페인 적용 전 가격(상품별 프로모션 포함)으로 복원됩니다.
+ *
+ * @param id - 삭제할 캠페인 ID
+ * @throws 관리자가 아닌 경우, 삭제에 실패한 경우 에러
+ */
+export async function deleteCampaign(id: string): Promise<void> {
+  // 관리자 권한 체크
+  if (!(await isAdmin())) {
+    throw new Error("관리자 권한이 필요합니다.");
+  }
+
+  const { error } = await getServiceRoleClient().rpc("admin_delete_campaign", {
+    p_campaign_id: id,
+  });
+
+  if (error) {
+    console.error("캠페인 삭제 에러:", error);
+    throw new Error(`캠페인 삭제에 실패했습니다: ${error.message}`);
+  }
+
+  // 캐시 무효화
+  revalidateCampaignPaths();
+}
+
+/**
+ * 관리자용 캠페인 목록을 조회합니다.
+ *
+ * @param search - 캠페인 이름 검색어
+ * @returns 캠페인 목록 (시작일시 최신순, 적용 상품 수 포함)
+ * @throws 관리자가 아닌 경우 에러
+ */
+export async function getAdminCampaigns(search?: string): Promise<AdminCampaign[]> {
+  // 관리자 권한 체크
+  if (!(await isAdmin())) {
+    throw new Error("관리자 권한이 필요합니다.");
+  }
+
+  const supabase = createClerkSupabaseClient();
+
+  let query = supabase
+    .from("campaigns")
+    .select("*, products(count)")
+    .order("starts_at", { ascending: false });
+
+  // 검색어가 있으면 이름으로 검색
+  if (search) {
+    query = query.ilike("name", `%${search}%`);
+  }
+
+  const { data: campaigns, error } = await query;
+
+  if (error) {
+    console.error("캠페인 목록 조회 에러:", error);
+    throw new Error(`캠페인 목록 조회에 실패했습니다: ${error.message}`);
+  }
+
+  return (campaigns ?? []).map((campaign: any) => {
+    const { products, ...rest } = campaign;
+    return {
+      ...rest,
+      product_count: products?.[0]?.count ?? 0,
+    } as AdminCampaign;
+  });
+}
+
+/**
+ * 캠페인 ID로 캠페인을 조회합니다.
+ *
+ * @param id - 캠페인 ID
+ * @returns 캠페인 정보 또는 null
+ * @throws 관리자가 아닌 경우 에러
+ */
+export async function getCampaignById(id: string): Promise<Campaign | null> {
+  // 관리자 권한 체크
+  if (!(await isAdmin())) {
+    throw new Error("관리자 권한이 필요합니다.");
+  }
+
+  const supabase = createClerkSupabaseClient();
+
+  const { data: campaign, error } = await supabase
+    .from("campaigns")
+    .select("*")
+    .eq("id", id)
+    .single();
+
+  if (error) {
+    if (error.code === "PGRST116") {
+      // 캠페인을 찾을 수 없음
+      return null;
+    }
+    console.error("캠페인 조회 에러:", error);
+    throw new Error(`캠페인 조회에 실패했습니다: ${error.message}`);
+  }
+
+  return campaign as Campaign;
+}
+
+/**
+ * 캠페인이 적용된 상품 목록을 조회합니다.
+ *
+ * @param campaignId - 캠페인 ID
+ * @returns 적용 상품 목록 (이름순)
+ * @throws 관리자가 아닌 경우 에러
+ */
+export async function getCampaignProducts(campaignId: string): Promise<Product[]> {
+  // 관리자 권한 체크
+  if (!(await isAdmin())) {
+    throw new Error("관리자 권한이 필요합니다.");
+  }
+
+  const supabase = createClerkSupabaseClient();
+
+  const { data: products, error } = await supabase
+    .from("products")
+    .select("*")
+    .eq("campaign_id", campaignId)
+    .order("name", { ascending: true });
+
+  if (error) {
+    console.error("캠페인 적용 상품 조회 에러:", error);
+    throw new Error(`캠페인 적용 상품 조회에 실패했습니다: ${error.message}`);
+  }
+
+  return (products ?? []) as Product[];
+}
+
+/**
+ * 선택한 상품에 캠페인을 일괄 적용합니다.
+ * 다른 캠페인이 적용된 상품은 이 캠페인으로 옮겨집니다.
+ *
+ * @param campaignId - 캠페인 ID
+ * @param productIds - 적용할 상품 ID 목록 (비우면 기존 적용 상품과 대상 카테고리 상품에 다시 적용)
+ * @returns 적용 상품 수
+ * @throws 관리자가 아닌 경우, 할인 금액이 상품 가격 이상인 상품이 있는 경우 에러
+ */
+export async function attachCampaignProducts(
+  campaignId: string,
+  productIds: string[]
+): Promise<number> {
+  // 관리자 권한 체크
+  if (!(await isAdmin())) {
+    throw new Error("관리자 권한이 필요합니다.");
+  }
+
+  const count = await applyCampaign(campaignId, productIds);
+
+  // 캐시 무효화
+  revalidateCampaignPaths(campaignId);
+
+  return count;
+}
+
+/**
+ * 선택한 상품의 캠페인 적용을 해제합니다. (캠페인 적용 전 가격, 상품별 프로모션 포함으로 복원)
+ *
+ * @param campaignId - 캠페인 ID
+ * @param productIds - 해제할 상품 ID 목록
+ * @returns 해제된 상품 수
+ * @throws 관리자가 아닌 경우 에러
+ */
+export async function detachCampaignProducts(
+  campaignId: string,
+  productIds: string[]
+): Promise<number> {
+  // 관리자 권한 체크
+  if (!(await isAdmin())) {
+    throw new Error("관리자 권한이 필요합니다.");
+  }
+
+  const { data, error } = await getServiceRoleClient().rpc("admin_detach_campaign_products", {
+    p_campaign_id: campaignId,
+    p_product_ids: productIds,
+  });
+
+  if (error) {
+    console.error("캠페인 적용 해제 에러:", error);
+    throw new Error(`캠페인 적용 해제에 실패했습니다: ${error.message}`);
+  }
+
+  // 캐시 무효화
+  revalidateCampaignPaths(campaignId);
+
+  return (data as number) ?? 0;
+}
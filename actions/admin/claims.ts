@@ -0,0 +1,177 @@
+/**
+ * @file actions/admin/claims.ts
+ * @description 반품 / 교환 관리 Server Actions
+ *
+ * 관리자가 주문의 반품/교환 신청을 조회하고 승인 / 거절하는 Server Actions입니다.
+ * 모든 액션에서 관리자 권한을 체크합니다.
+ *
+ * 주요 기능:
+ * 1. getAdminOrderClaims: 주문의 반품/교환 신청 조회 (첨부 사진 포함)
+ * 2. processOrderClaim: 반품/교환 승인 / 거절 (반품 승인 시 재고 복구, 부분 환불, 재입고 알림)
+ *
+ * @dependencies
+ * - lib/admin/is-admin.ts: 관리자 권한 체크
+ * - lib/supabase/server.ts: Supabase 클라이언트
+ * - lib/supabase/service-role.ts: 관리자 반품/교환 처리 RPC 호출
+ * - lib/claim-photos.ts: 첨부 사진 signed URL 생성
+ * - lib/notifications/restock.ts: 반품 승인으로 재입고된 상품 알림
+ * - lib/payments/refunds.ts: 반품 환불 (결제 부분 취소)
+ * - types/claim.ts: OrderClaim 타입 정의
+ */
+
+"use server";
+
+import { revalidatePath } from "next/cache";
+import { getCurrentUserId, isAdmin } from "@/lib/admin/is-admin";
+import { createClerkSupabaseClient } from "@/lib/supabase/server";
+import { getServiceRoleClient } from "@/lib/supabase/service-role";
+import { signClaimPhotos } from "@/lib/claim-photos";
+import { isRestocked, sendRestockNotifications } from "@/lib/notifications/restock";
+import { refundReturnClaim } from "@/lib/payments/refunds";
+import type {
+  OrderClaim,
+  OrderClaimWithPhotos,
+  ProcessOrderClaimData,
+} from "@/types/claim";
+import type { Product } from "@/types/product";
+import type { RefundRequestResult } from "@/types/refund";
+
+/**
+ * 관리자용 주문의 반품/교환 신청을 조회합니다.
+ *
+ * @param orderId - 주문 ID
+ * @returns 반품/교환 신청 목록 (오래된 순 정렬)
+ * @throws 관리자가 아닌 경우 에러
+ */
+export async function getAdminOrderClaims(orderId: string): Promise<OrderClaimWithPhotos[]> {
+  // 관리자 권한 체크
+  if (!(await isAdmin())) {
+    throw new Error("관리자 권한이 필요합니다.");
+  }
+
+  const supabase = createClerkSupabaseClient();
+
+  const { data, error } = await supabase
+    .from("order_claims")
+    .select("*")
+    .eq("order_id", orderId)
+    .order("created_at", { ascending: true });
+
+  if (error) {
+    console.error("반품/교환 신청 조회 에러:", error);
+    throw new Error(`반품/교환 신청 조회에 실패했습니다: ${error.message}`);
+  }
+
+  return signClaimPhotos((data ?? []) as OrderClaim[]);
+}
+
+/**
+ * 반품/교환 신청을 승인하거나 거절합니다.
+ *
+ * admin_process_order_claim RPC가 주문과 신청 행을 잠근 뒤 처리 대기 중인 신청만 처리하고,
+ * 반품 승인 시 재고 복구와 환불 금액 기록, 처리 대기 중인 신청이 없을 때의 주문 상태 변경
+ * (일부 반품 / 교환 → 배송 완료, 전체 반품 → 반품 완료)을 하나의 트랜잭션으로 처리합니다.
+ * 반품 승인 후에는 반품 상품 금액에서 쿠폰 할인 안분과 반품 배송비를 반영한 금액을 환불(결제 부분 취소)합니다.
+ * 반품 승인은 이미 처리되었으므로 환불에 실패해도 에러를 던지지 않고 결과로 전달합니다.
+ *
+ * @param claimId - 반품/교환 신청 ID
+ * @param data - 처리 데이터 (approve, refundAmount, note)
+ * @returns 반품 환불 결과 (반품 승인이 아니거나 환불할 금액이 없으면 refund: null, 결제 취소 실패 시 status: failed,
+ *          환불 내역을 기록하지 못하면 refundError)
+ * @throws 관리자가 아닌 경우, 거절 사유가 없는 경우, 환불 금액이 잘못된 경우, 이미 처리된 신청인 경우 에러
+ */
+export async function processOrderClaim(
+  claimId: string,
+  data: ProcessOrderClaimData
+): Promise<RefundRequestResult> {
+  // 관리자 권한 체크
+  if (!(await isAdmin())) {
+    throw new Error("관리자 권한이 필요합니다.");
+  }
+
+  const note = data.note?.trim() || null;
+  if (!data.approve && !note) {
+    throw new Error("거절 사유를 입력해주세요.");
+  }
+
+  const refundAmount = data.refundAmount ?? null;
+  if (refundAmount !== null && (!Number.isFinite(refundAmount) || refundAmount < 0)) {
+    throw new Error("환불 금액은 0원 이상이어야 합니다.");
+  }
+
+  const supabase = getServiceRoleClient();
+
+  // 신청 조회 (재입고 알림을 위해 처리 전 상품 재고 상태 포함)
+  const { data: claim, error: claimError } = await supabase
+    .from("order_claims")
+    .select("order_id, type, item:order_items(product:products(id, name, stock_quantity, status))")
+    .eq("id", claimId)
+    .maybeSingle();
+
+  if (claimError || !claim) {
+    console.error("반품/교환 신청 조회 에러:", claimError);
+    throw new Error("반품/교환 신청을 찾을 수 없습니다.");
+  }
+
+  // 반품/교환 처리 (재고 복구, 환불 금액 기록, 주문 상태 변경 포함)
+  const actorId = await getCurrentUserId();
+  const { error } = await supabase.rpc("admin_process_order_claim", {
+    p_claim_id: claimId,
+    p_approve: data.approve,
+    p_refund_amount: refundAmount,
+    p_actor_id: actorId,
+    p_note: note,
+  });
+
+  if (error) {
+    console.error("반품/교환 처리 에러:", error);
+    throw new Error(`반품/교환 처리에 실패했습니다: ${error.message}`);
+  }
+
+  // 재입고 알림 발송 (반품 승인으로 품절 상품 재고가 복구된 경우)
+  const product = (claim.item as any)?.product as
+    | Pick<Product, "id" | "name" | "stock_quantity" | "status">
+    | null;
+  if (data.approve && claim.type === "return" && product) {
+    const { data: updatedProduct } = await supabase
+      .from("products")
+      .select("stock_quantity, status")
+      .eq("id", product.id)
+      .maybeSingle();
+
+    if (updatedProduct && isRestocked(product, updatedProduct)) {
+      try {
+        await sendRestockNotifications(product);
+      } catch (notifyError) {
+        console.error("재입고 알림 발송 에러:", notifyError);
+      }
+    }
+  }
+
+  // 캐시 무효화 (반품 승인 시 재고가 바뀌므로 상품 포함)
+  revalidatePath("/admin/orders");
+  revalidatePath(`/admin/orders/${claim.order_id}`);
+  revalidatePath("/my/orders");
+  revalidatePath(`/my/orders/${claim.order_id}`);
+  if (product) {
+    revalidatePath(`/products/${product.id}`);
+  }
+  revalidatePath("/products");
+
+  // 반품 환불 (결제 취소 실패는 환불 내역에 기록되어 재시도 가능)
+  if (!data.approve || claim.type !== "return") {
+    return { refund: null, refundError: null };
+  }
+
+  try {
+    const refund = await refundReturnClaim(claimId, { type: "admin", id: actorId });
+    return { refund, refundError: null };
+  } catch (refundError) {
+    // 반품 승인은 완료되었으므로 에러를 던지지 않음
+    console.error("반품 환불 에러:", refundError);
+    return {
+      refund: null,
+      refundError: refundError instanceof Error ? refundError.message : "알 수 없는 에러",
+    };
+  }
+}
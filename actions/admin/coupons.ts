@@ -0,0 +1,303 @@
+/**
+ * @file actions/admin/coupons.ts
+ * @description 쿠폰 관리 Server Actions
+ *
+ * 관리자가 쿠폰을 생성, 수정, 삭제, 조회하는 Server Actions입니다.
+ * 모든 액션에서 관리자 권한을 체크합니다.
+ *
+ * 주요 기능:
+ * 1. createCoupon: 새 쿠폰 생성
+ * 2. updateCoupon: 기존 쿠폰 수정
+ * 3. deleteCoupon: 쿠폰 삭제 (비활성화 또는 완전 삭제)
+ * 4. getAdminCoupons: 관리자용 쿠폰 목록 조회 (사용 횟수 포함)
+ * 5. getCouponById: 쿠폰 상세 조회
+ *
+ * @dependencies
+ * - lib/admin/is-admin.ts: 관리자 권한 체크
+ * - lib/supabase/server.ts: Supabase 클라이언트
+ * - lib/coupons.ts: 쿠폰 코드 정규화
+ * - types/coupon.ts: Coupon 타입 정의
+ */
+
+"use server";
+
+import { revalidatePath } from "next/cache";
+import { isAdmin } from "@/lib/admin/is-admin";
+import { createClerkSupabaseClient } from "@/lib/supabase/server";
+import { normalizeCouponCode } from "@/lib/coupons";
+import type { Coupon, CouponDiscountType } from "@/types/coupon";
+
+/**
+ * 쿠폰 생성에 필요한 데이터 타입
+ */
+export interface CreateCouponData {
+  code: string;
+  name: string;
+  description?: string | null;
+  discount_type: CouponDiscountType;
+  discount_value: number;
+  max_discount_amount?: number | null;
+  min_order_amount?: number;
+  starts_at?: string | null;
+  expires_at?: string | null;
+  usage_limit_per_user?: number | null;
+  categories?: string[] | null;
+  is_active?: boolean;
+}
+
+/**
+ * 쿠폰 수정에 필요한 데이터 타입
+ */
+export interface UpdateCouponData extends Partial<CreateCouponData> {
+  id: string;
+}
+
+/**
+ * 관리자 쿠폰 목록 항목 (사용 횟수 포함)
+ */
+export interface AdminCoupon extends Coupon {
+  redemption_count: number; // 전체 사용 횟수
+}
+
+/**
+ * 쿠폰 데이터를 저장 형식으로 정리합니다.
+ * (코드 대문자 변환, 정액 할인은 최대 할인 금액 제거, 빈 카테고리 목록은 전체 상품으로 처리)
+ */
+function toCouponPayload(data: Partial<CreateCouponData>): Record<string, unknown> {
+  const payload: Record<string, unknown> = { ...data };
+
+  if (data.code !== undefined) {
+    payload.code = normalizeCouponCode(data.code);
+  }
+
+  if (data.discount_type === "fixed") {
+    payload.max_discount_amount = null;
+  }
+
+  if (data.categories !== undefined) {
+    payload.categories =
+      data.categories && data.categories.length > 0 ? data.categories : null;
+  }
+
+  return payload;
+}
+
+/**
+ * 새 쿠폰을 생성합니다.
+ *
+ * @param data - 쿠폰 생성 데이터
+ * @returns 생성된 쿠폰 정보
+ * @throws 관리자가 아닌 경우, 쿠폰 코드가 중복된 경우 에러
+ */
+export async function createCoupon(data: CreateCouponData): Promise<Coupon> {
+  // 관리자 권한 체크
+  if (!(await isAdmin())) {
+    throw new Error("관리자 권한이 필요합니다.");
+  }
+
+  const supabase = createClerkSupabaseClient();
+
+  // 쿠폰 생성
+  const { data: coupon, error } = await supabase
+    .from("coupons")
+    .insert({
+      ...toCouponPayload(data),
+      description: data.description ?? null,
+      min_order_amount: data.min_order_amount ?? 0,
+      is_active: data.is_active ?? true,
+    })
+    .select()
+    .single();
+
+  if (error) {
+    console.error("쿠폰 생성 에러:", error);
+    if (error.code === "23505") {
+      throw new Error("이미 사용 중인 쿠폰 코드입니다.");
+    }
+    throw new Error(`쿠폰 생성에 실패했습니다: ${error.message}`);
+  }
+
+  // 캐시 무효화
+  revalidatePath("/admin/coupons");
+
+  return coupon as Coupon;
+}
+
+/**
+ * 기존 쿠폰을 수정합니다.
+ *
+ * @param data - 쿠폰 수정 데이터 (id 필수)
+ * @returns 수정된 쿠폰 정보
+ * @throws 관리자가 아닌 경우, 쿠폰 코드가 중복된 경우 에러
+ */
+export async function updateCoupon(data: UpdateCouponData): Promise<Coupon> {
+  // 관리자 권한 체크
+  if (!(await isAdmin())) {
+    throw new Error("관리자 권한이 필요합니다.");
+  }
+
+  const supabase = createClerkSupabaseClient();
+
+  // 수정할 필드만 추출 (id 제외)
+  const { id, ...updateData } = data;
+
+  // 쿠폰 수정
+  const { data: coupon, error } = await supabase
+    .from("coupons")
+    .update(toCouponPayload(updateData))
+    .eq("id", id)
+    .select()
+    .single();
+
+  if (error) {
+    console.error("쿠폰 수정 에러:", error);
+    if (error.code === "23505") {
+      throw new Error("이미 사용 중인 쿠폰 코드입니다.");
+    }
+    throw new Error(`쿠폰 수정에 실패했습니다: ${error.message}`);
+  }
+
+  if (!coupon) {
+    throw new Error("쿠폰을 찾을 수 없습니다.");
+  }
+
+  // 캐시 무효화
+  revalidatePath("/admin/coupons");
+  revalidatePath(`/admin/coupons/${id}/edit`);
+
+  return coupon as Coupon;
+}
+
+/**
+ * 쿠폰을 삭제합니다.
+ * 사용 내역이 있는 쿠폰은 주문 기록을 유지하기 위해 완전 삭제할 수 없습니다.
+ *
+ * @param id - 삭제할 쿠폰 ID
+ * @param hardDelete - 완전 삭제 여부 (true: 완전 삭제, false: 비활성화)
+ * @throws 관리자가 아닌 경우, 사용 내역이 있는 쿠폰을 완전 삭제하려는 경우 에러
+ */
+export async function deleteCoupon(
+  id: string,
+  hardDelete: boolean = false
+): Promise<void> {
+  // 관리자 권한 체크
+  if (!(await isAdmin())) {
+    throw new Error("관리자 권한이 필요합니다.");
+  }
+
+  const supabase = createClerkSupabaseClient();
+
+  if (hardDelete) {
+    // 사용 내역 확인
+    const { count, error: countError } = await supabase
+      .from("coupon_redemptions")
+      .select("id", { count: "exact", head: true })
+      .eq("coupon_id", id);
+
+    if (countError) {
+      console.error("쿠폰 사용 내역 조회 에러:", countError);
+      throw new Error(`쿠폰 삭제에 실패했습니다: ${countError.message}`);
+    }
+
+    if ((count ?? 0) > 0) {
+      throw new Error("사용 내역이 있는 쿠폰은 삭제할 수 없습니다. 비활성화해주세요.");
+    }
+
+    // 완전 삭제
+    const { error } = await supabase.from("coupons").delete().eq("id", id);
+
+    if (error) {
+      console.error("쿠폰 완전 삭제 에러:", error);
+      throw new Error(`쿠폰 삭제에 실패했습니다: ${error.message}`);
+    }
+  } else {
+    // 비활성화
+    const { error } = await supabase
+      .from("coupons")
+      .update({ is_active: false })
+      .eq("id", id);
+
+    if (error) {
+      console.error("쿠폰 비활성화 에러:", error);
+      throw new Error(`쿠폰 삭제에 실패했습니다: ${error.message}`);
+    }
+  }
+
+  // 캐시 무효화
+  revalidatePath("/admin/coupons");
+}
+
+/**
+ * 관리자용 쿠폰 목록을 조회합니다.
+ *
+ * @param search - 쿠폰 코드 또는 이름 검색어
+ * @returns 쿠폰 목록 (최신순, 사용 횟수 포함)
+ * @throws 관리자가 아닌 경우 에러
+ */
+export async function getAdminCoupons(search?: string): Promise<AdminCoupon[]> {
+  // 관리자 권한 체크
+  if (!(await isAdmin())) {
+    throw new Error("관리자 권한이 필요합니다.");
+  }
+
+  const supabase = createClerkSupabaseClient();
+
+  let query = supabase
+    .from("coupons")
+    .select("*, coupon_redemptions(count)")
+    .order("created_at", { ascending: false });
+
+  // 검색 (코드 또는 이름에 포함)
+  if (search) {
+    const searchPattern = `%${search}%`;
+    query = query.or(`code.ilike.${searchPattern},name.ilike.${searchPattern}`);
+  }
+
+  const { data: coupons, error } = await query;
+
+  if (error) {
+    console.error("쿠폰 목록 조회 에러:", error);
+    throw new Error(`쿠폰 목록 조회에 실패했습니다: ${error.message}`);
+  }
+
+  return (coupons ?? []).map((coupon: any) => {
+    const { coupon_redemptions, ...rest } = coupon;
+    return {
+      ...rest,
+      redemption_count: coupon_redemptions?.[0]?.count ?? 0,
+    } as AdminCoupon;
+  });
+}
+
+/**
+ * 쿠폰 ID로 쿠폰을 조회합니다.
+ *
+ * @param id - 쿠폰 ID
+ * @returns 쿠폰 정보 또는 null
+ * @throws 관리자가 아닌 경우 에러
+ */
+export async function getCouponById(id: string): Promise<Coupon | null> {
+  // 관리자 권한 체크
+  if (!(await isAdmin())) {
+    throw new Error("관리자 권한이 필요합니다.");
+  }
+
+  const supabase = createClerkSupabaseClient();
+
+  const { data: coupon, error } = await supabase
+    .from("coupons")
+    .select("*")
+    .eq("id", id)
+    .single();
+
+  if (error) {
+    if (error.code === "PGRST116") {
+      // 쿠폰을 찾을 수 없음
+      return null;
+    }
+    console.error("쿠폰 조회 에러:", error);
+    throw new Error(`쿠폰 조회에 실패했습니다: ${error.message}`);
+  }
+
+  return coupon as Coupon;
+}
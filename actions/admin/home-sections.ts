@@ -0,0 +1,319 @@
+/**
+ * @file actions/admin/home-sections.ts
+ * @description 홈 섹션 구성 관리 Server Actions
+ *
+ * 관리자가 홈 상품 섹션을 생성, 수정, 삭제, 조회하고 표시 순서를 바꾸는 Server Actions입니다.
+ * 모든 액션에서 관리자 권한을 체크합니다.
+ *
+ * 주요 기능:
+ * 1. createHomeSection: 새 섹션 생성 (표시 순서 맨 뒤)
+ * 2. updateHomeSection: 섹션 수정 (표시 여부 전환 포함)
+ * 3. deleteHomeSection: 섹션 삭제
+ * 4. getAdminHomeSections: 관리자용 섹션 목록 조회 (표시 순서)
+ * 5. getHomeSectionById: 섹션 상세 조회
+ * 6. getHomeSectionProducts: 직접 선택 섹션의 상품 조회
+ * 7. reorderHomeSections: 섹션 표시 순서 변경
+ *
+ * @dependencies
+ * - lib/admin/is-admin.ts: 관리자 권한 체크
+ * - lib/supabase/server.ts: Supabase 클라이언트
+ * - lib/supabase/service-role.ts: 표시 순서 변경 함수 호출 (관리자 전용 함수)
+ * - types/home-section.ts: HomeSection 타입 정의
+ * - types/product.ts: Product 타입 정의
+ */
+
+"use server";
+
+import { revalidatePath } from "next/cache";
+import { isAdmin } from "@/lib/admin/is-admin";
+import { createClerkSupabaseClient } from "@/lib/supabase/server";
+import { getServiceRoleClient } from "@/lib/supabase/service-role";
+import type { HomeSection, HomeSectionSource, PopularWindowDays } from "@/types/home-section";
+import type { Product } from "@/types/product";
+
+/**
+ * 섹션 생성에 필요한 데이터 타입
+ */
+export interface CreateHomeSectionData {
+  title: string;
+  source_type: HomeSectionSource;
+  category?: string | null;
+  product_ids?: string[];
+  campaign_id?: string | null;
+  popular_days?: PopularWindowDays;
+  item_count: number;
+  is_visible?: boolean;
+}
+
+/**
+ * 섹션 수정에 필요한 데이터 타입
+ */
+export interface UpdateHomeSectionData extends Partial<CreateHomeSectionData> {
+  id: string;
+}
+
+/**
+ * 데이터 소스별 필수 값을 검사합니다.
+ *
+ * @throws 필수 값이 없는 경우 에러
+ */
+function assertSectionSource(data: Partial<CreateHomeSectionData>) {
+  if (data.source_type === "category" && !data.category) {
+    throw new Error("카테고리를 선택해주세요.");
+  }
+  if (data.source_type === "products" && (!data.product_ids || data.product_ids.length === 0)) {
+    throw new Error("표시할 상품을 1개 이상 선택해주세요.");
+  }
+  if (data.source_type === "campaign" && !data.campaign_id) {
+    throw new Error("캠페인을 선택해주세요.");
+  }
+}
+
+/**
+ * 섹션 변경 후 관련 페이지 캐시를 무효화합니다.
+ */
+function revalidateHomeSectionPaths() {
+  revalidatePath("/admin/home-sections");
+  revalidatePath("/");
+}
+
+/**
+ * 새 섹션을 생성합니다. 표시 순서는 맨 뒤로 지정됩니다.
+ *
+ * @param data - 섹션 생성 데이터
+ * @returns 생성된 섹션 정보
+ * @throws 관리자가 아닌 경우, 필수 값이 없는 경우, 생성에 실패한 경우 에러
+ */
+export async function createHomeSection(data: CreateHomeSectionData): Promise<HomeSection> {
+  // 관리자 권한 체크
+  if (!(await isAdmin())) {
+    throw new Error("관리자 권한이 필요합니다.");
+  }
+
+  assertSectionSource(data);
+
+  const supabase = createClerkSupabaseClient();
+
+  // 마지막 표시 순서 조회
+  const { data: lastSection, error: orderError } = await supabase
+    .from("home_sections")
+    .select("sort_order")
+    .order("sort_order", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (orderError) {
+    console.error("홈 섹션 표시 순서 조회 에러:", orderError);
+    throw new Error(`홈 섹션 생성에 실패했습니다: ${orderError.message}`);
+  }
+
+  // 섹션 생성
+  const { data: section, error } = await supabase
+    .from("home_sections")
+    .insert({
+      ...data,
+      category: data.category ?? null,
+      product_ids: data.product_ids ?? [],
+      campaign_id: data.campaign_id ?? null,
+      is_visible: data.is_visible ?? true,
+      sort_order: (lastSection?.sort_order ?? 0) + 1,
+    })
+    .select()
+    .single();
+
+  if (error) {
+    console.error("홈 섹션 생성 에러:", error);
+    throw new Error(`홈 섹션 생성에 실패했습니다: ${error.message}`);
+  }
+
+  // 캐시 무효화
+  revalidateHomeSectionPaths();
+
+  return section as HomeSection;
+}
+
+/**
+ * 섹션을 수정합니다.
+ *
+ * @param data - 섹션 수정 데이터 (id 필수)
+ * @returns 수정된 섹션 정보
+ * @throws 관리자가 아닌 경우, 필수 값이 없는 경우, 수정에 실패한 경우 에러
+ */
+export async function updateHomeSection(data: UpdateHomeSectionData): Promise<HomeSection> {
+  // 관리자 권한 체크
+  if (!(await isAdmin())) {
+    throw new Error("관리자 권한이 필요합니다.");
+  }
+
+  assertSectionSource(data);
+
+  const supabase = createClerkSupabaseClient();
+
+  // 수정할 필드만 추출 (id 제외)
+  const { id, ...updateData } = data;
+
+  const { data: section, error } = await supabase
+    .from("home_sections")
+    .update(updateData)
+    .eq("id", id)
+    .select()
+    .single();
+
+  if (error) {
+    console.error("홈 섹션 수정 에러:", error);
+    throw new Error(`홈 섹션 수정에 실패했습니다: ${error.message}`);
+  }
+
+  if (!section) {
+    throw new Error("홈 섹션을 찾을 수 없습니다.");
+  }
+
+  // 캐시 무효화
+  revalidateHomeSectionPaths();
+
+  return section as HomeSection;
+}
+
+/**
+ * 섹션을 삭제합니다.
+ *
+ * @param id - 삭제할 섹션 ID
+ * @throws 관리자가 아닌 경우, 삭제에 실패한 경우 에러
+ */
+export async function deleteHomeSection(id: string): Promise<void> {
+  // 관리자 권한 체크
+  if (!(await isAdmin())) {
+    throw new Error("관리자 권한이 필요합니다.");
+  }
+
+  const supabase = createClerkSupabaseClient();
+
+  const { error } = await supabase.from("home_sections").delete().eq("id", id);
+
+  if (error) {
+    console.error("홈 섹션 삭제 에러:", error);
+    throw new Error(`홈 섹션 삭제에 실패했습니다: ${error.message}`);
+  }
+
+  // 캐시 무효화
+  revalidateHomeSectionPaths();
+}
+
+/**
+ * 관리자용 섹션 목록을 조회합니다.
+ *
+ * @returns 섹션 목록 (표시 순서)
+ * @throws 관리자가 아닌 경우 에러
+ */
+export async function getAdminHomeSections(): Promise<HomeSection[]> {
+  // 관리자 권한 체크
+  if (!(await isAdmin())) {
+    throw new Error("관리자 권한이 필요합니다.");
+  }
+
+  const supabase = createClerkSupabaseClient();
+
+  const { data: sections, error } = await supabase
+    .from("home_sections")
+    .select("*")
+    .order("sort_order", { ascending: true })
+    .order("created_at", { ascending: true });
+
+  if (error) {
+    console.error("홈 섹션 목록 조회 에러:", error);
+    throw new Error(`홈 섹션 목록 조회에 실패했습니다: ${error.message}`);
+  }
+
+  return (sections ?? []) as HomeSection[];
+}
+
+/**
+ * 섹션 ID로 섹션을 조회합니다.
+ *
+ * @param id - 섹션 ID
+ * @returns 섹션 정보 또는 null
+ * @throws 관리자가 아닌 경우 에러
+ */
+export async function getHomeSectionById(id: string): Promise<HomeSection | null> {
+  // 관리자 권한 체크
+  if (!(await isAdmin())) {
+    throw new Error("관리자 권한이 필요합니다.");
+  }
+
+  const supabase = createClerkSupabaseClient();
+
+  const { data: section, error } = await supabase
+    .from("home_sections")
+    .select("*")
+    .eq("id", id)
+    .single();
+
+  if (error) {
+    if (error.code === "PGRST116") {
+      // 섹션을 찾을 수 없음
+      return null;
+    }
+    console.error("홈 섹션 조회 에러:", error);
+    throw new Error(`홈 섹션 조회에 실패했습니다: ${error.message}`);
+  }
+
+  return section as HomeSection;
+}
+
+/**
+ * 직접 선택 섹션의 상품을 선택 순서대로 조회합니다. (삭제된 상품은 제외)
+ *
+ * @param productIds - 섹션의 상품 ID 목록
+ * @returns 선택 상품 목록
+ * @throws 관리자가 아닌 경우 에러
+ */
+export async function getHomeSectionProducts(productIds: string[]): Promise<Product[]> {
+  // 관리자 권한 체크
+  if (!(await isAdmin())) {
+    throw new Error("관리자 권한이 필요합니다.");
+  }
+
+  if (productIds.length === 0) {
+    return [];
+  }
+
+  const supabase = createClerkSupabaseClient();
+
+  const { data: products, error } = await supabase
+    .from("products")
+    .select("*")
+    .in("id", productIds);
+
+  if (error) {
+    console.error("홈 섹션 상품 조회 에러:", error);
+    throw new Error(`홈 섹션 상품 조회에 실패했습니다: ${error.message}`);
+  }
+
+  const productMap = new Map(((products ?? []) as Product[]).map((product) => [product.id, product]));
+  return productIds.map((id) => productMap.get(id)).filter((product): product is Product => !!product);
+}
+
+/**
+ * 섹션 표시 순서를 변경합니다.
+ *
+ * @param sectionIds - 표시 순서대로 정렬한 섹션 ID 목록
+ * @throws 관리자가 아닌 경우, 변경에 실패한 경우 에러
+ */
+export async function reorderHomeSections(sectionIds: string[]): Promise<void> {
+  // 관리자 권한 체크
+  if (!(await isAdmin())) {
+    throw new Error("관리자 권한이 필요합니다.");
+  }
+
+  const { error } = await getServiceRoleClient().rpc("admin_reorder_home_sections", {
+    p_section_ids: sectionIds,
+  });
+
+  if (error) {
+    console.error("홈 섹션 순서 변경 에러:", error);
+    throw new Error(`홈 섹션 순서 변경에 실패했습니다: ${error.message}`);
+  }
+
+  // 캐시 무효화
+  revalidateHomeSectionPaths();
+}
@@ -0,0 +1,410 @@
+/**
+ * @file actions/admin/orders.ts
+ * @description 주문 관리 Server Actions
+ *
+ * 관리자가 전체 주문을 조회하고 주문 상태를 변경하는 Server Actions입니다.
+ * 모든 액션에서 관리자 권한을 체크합니다.
+ *
+ * 주요 기능:
+ * 1. getAdminOrders: 관리자용 주문 목록 조회 (검색, 상태/기간 필터, 페이지네이션)
+ * 2. getAdminOrder: 주문 상세 조회 (order_items 포함)
+ * 3. updateOrderStatus: 주문 상태 변경 (pending → confirmed → shipped → delivered, 배송 전 취소 및 환불, 주문자 알림 발송)
+ * 4. getAdminOrderStatusHistory: 주문 상태 변경 이력 조회
+ * 5. updateOrderShipment: 택배사 / 송장 번호 등록 (주문 확인, 배송중 상태)
+ *
+ * @dependencies
+ * - lib/admin/is-admin.ts: 관리자 권한 체크
+ * - lib/supabase/server.ts: Supabase 클라이언트
+ * - lib/supabase/service-role.ts: 관리자 주문 상태 변경 RPC 호출
+ * - lib/couriers/carriers.ts: 택배사 코드, 송장 번호 형식
+ * - lib/notifications/order.ts: 주문 상태 변경 알림 (주문 확인, 배송 시작, 배송 완료, 취소)
+ * - lib/payments/refunds.ts: 주문 취소 환불 (결제 취소)
+ * - utils/order.ts: 주문 상태 변경 규칙
+ * - types/order.ts: Order 타입 정의
+ */
+
+"use server";
+
+import { revalidatePath } from "next/cache";
+import { getCurrentUserId, isAdmin } from "@/lib/admin/is-admin";
+import { createClerkSupabaseClient } from "@/lib/supabase/server";
+import { getServiceRoleClient } from "@/lib/supabase/service-role";
+import {
+  ORDER_STATUS_NOTIFICATIONS,
+  scheduleOrderNotification,
+} from "@/lib/notifications/order";
+import { refundCancelledOrder } from "@/lib/payments/refunds";
+import {
+  getCourierName,
+  isCourierCode,
+  isValidTrackingNumber,
+  normalizeTrackingNumber,
+} from "@/lib/couriers/carriers";
+import { getAdminNextOrderStatuses } from "@/utils/order";
+import type {
+  Order,
+  OrderStatus,
+  OrderStatusHistory,
+  OrderWithItems,
+  ShippingAddress,
+} from "@/types/order";
+import type { CourierCode } from "@/types/shipment";
+import type { RefundRequestResult } from "@/types/refund";
+
+/**
+ * 관리자용 주문 목록 조회 파라미터
+ */
+export interface GetAdminOrdersParams {
+  search?: string; // 주문 번호, 수령인 이름, 연락처
+  status?: OrderStatus | null;
+  dateFrom?: string | null; // 주문일 시작 (YYYY-MM-DD, 한국 시간 기준)
+  dateTo?: string | null; // 주문일 끝 (YYYY-MM-DD, 한국 시간 기준, 해당 일 포함)
+  page?: number; // 1부터 시작
+  pageSize?: number;
+}
+
+/**
+ * 관리자용 주문 목록 조회 결과
+ */
+export interface AdminOrderListResult {
+  orders: Order[];
+  total: number; // 조건에 맞는 전체 주문 수
+  page: number;
+  pageSize: number;
+}
+
+const UUID_PATTERN =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * YYYY-MM-DD 날짜를 한국 시간 자정 기준 ISO 8601 timestamp로 변환합니다.
+ *
+ * @param date - YYYY-MM-DD 형식 날짜
+ * @param addDays - 더할 일수 (기간 끝 날짜를 포함하기 위해 사용)
+ * @returns ISO 8601 timestamp (잘못된 날짜면 null)
+ */
+function toKstStartOfDay(date: string, addDays: number = 0): string | null {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+    return null;
+  }
+
+  const time = new Date(`${date}T00:00:00+09:00`).getTime();
+  if (Number.isNaN(time)) {
+    return null;
+  }
+
+  return new Date(time + addDays * 24 * 60 * 60 * 1000).toISOString();
+}
+
+/**
+ * 관리자용 주문 목록을 조회합니다.
+ *
+ * @param params - 조회 파라미터 (검색, 상태, 기간, 페이지)
+ * @returns 주문 목록과 전체 주문 수
+ * @throws 관리자가 아닌 경우 에러
+ */
+export async function getAdminOrders(
+  params: GetAdminOrdersParams = {}
+): Promise<AdminOrderListResult> {
+  // 관리자 권한 체크
+  if (!(await isAdmin())) {
+    throw new Error("관리자 권한이 필요합니다.");
+  }
+
+  const supabase = createClerkSupabaseClient();
+
+  let query = supabase.from("orders").select("*", { count: "exact" });
+
+  // 검색 (주문 번호는 정확히 일치, 수령인 이름 / 연락처는 부분 일치)
+  const search = params.search?.trim();
+  if (search) {
+    if (UUID_PATTERN.test(search)) {
+      query = query.eq("id", search);
+    } else {
+      // PostgREST or 필터 구분자(쉼표, 괄호)는 검색어에서 제외
+      const searchPattern = `%${search.replace(/[,()]/g, "")}%`;
+      query = query.or(
+        `shipping_address->>recipientName.ilike.${searchPattern},shipping_address->>phone.ilike.${searchPattern}`
+      );
+    }
+  }
+
+  // 상태 필터링
+  if (params.status) {
+    query = query.eq("status", params.status);
+  }
+
+  // 기간 필터링 (한국 시간 기준)
+  const from = params.dateFrom ? toKstStartOfDay(params.dateFrom) : null;
+  if (from) {
+    query = query.gte("created_at", from);
+  }
+
+  const to = params.dateTo ? toKstStartOfDay(params.dateTo, 1) : null;
+  if (to) {
+    query = query.lt("created_at", to);
+  }
+
+  // 정렬 및 페이지네이션
+  const pageSize = params.pageSize ?? 20;
+  const page = Math.max(1, params.page ?? 1);
+  const offset = (page - 1) * pageSize;
+  query = query
+    .order("created_at", { ascending: false })
+    .range(offset, offset + pageSize - 1);
+
+  const { data: orders, error, count } = await query;
+
+  if (error) {
+    console.error("주문 목록 조회 에러:", error);
+    throw new Error(`주문 목록 조회에 실패했습니다: ${error.message}`);
+  }
+
+  return {
+    orders: (orders ?? []).map((order: any) => ({
+      ...order,
+      shipping_address: order.shipping_address as ShippingAddress | null,
+      payment_data: order.payment_data as Record<string, unknown> | null,
+    })),
+    total: count ?? 0,
+    page,
+    pageSize,
+  };
+}
+
+/**
+ * 관리자용 주문 상세 정보를 조회합니다 (주문 항목 포함).
+ *
+ * @param orderId - 주문 ID
+ * @returns 주문 상세 정보 또는 null
+ * @throws 관리자가 아닌 경우 에러
+ */
+export async function getAdminOrder(
+  orderId: string
+): Promise<OrderWithItems | null> {
+  // 관리자 권한 체크
+  if (!(await isAdmin())) {
+    throw new Error("관리자 권한이 필요합니다.");
+  }
+
+  const supabase = createClerkSupabaseClient();
+
+  const { data: order, error } = await supabase
+    .from("orders")
+    .select("*, items:order_items(*)")
+    .eq("id", orderId)
+    .order("created_at", { referencedTable: "order_items", ascending: true })
+    .single();
+
+  if (error) {
+    if (error.code === "PGRST116") {
+      // 주문을 찾을 수 없음
+      return null;
+    }
+    console.error("주문 조회 에러:", error);
+    throw new Error(`주문 조회에 실패했습니다: ${error.message}`);
+  }
+
+  return {
+    ...order,
+    shipping_address: order.shipping_address as ShippingAddress | null,
+    payment_data: order.payment_data as Record<string, unknown> | null,
+    items: (order.items ?? []).map((item: any) => ({
+      ...item,
+      options: item.options as Record<string, unknown> | null,
+    })),
+  } as OrderWithItems;
+}
+
+/**
+ * 주문 상태를 변경합니다.
+ *
+ * 현재 상태에서 허용된 다음 상태로만 변경할 수 있습니다 (utils/order.ts, 반품/교환 상태 제외).
+ * admin_update_order_status RPC가 주문 행을 잠근 뒤 조회한 상태와 같을 때만 변경하고,
+ * 취소 시 재고 복구와 상태 이력(관리자 ID, 사유) 기록을 하나의 트랜잭션으로 처리합니다.
+ * 취소한 경우 결제 금액 전액을 환불(결제 취소)합니다. 취소는 이미 처리되었으므로 환불에 실패해도
+ * 에러를 던지지 않고 결과로 전달합니다.
+ * 상태를 변경한 뒤 주문자에게 알림(주문 확인, 배송 시작, 배송 완료, 주문 취소)을 보냅니다.
+ *
+ * @param orderId - 주문 ID
+ * @param nextStatus - 변경할 주문 상태
+ * @param reason - 변경 사유 (없으면 상태별 기본 사유 기록)
+ * @returns 주문 취소 환불 결과 (취소가 아니거나 결제 승인되지 않은 주문이면 refund: null, 결제 취소 실패 시 status: failed,
+ *          환불 내역을 기록하지 못하면 refundError)
+ * @throws 관리자가 아닌 경우, 주문을 찾을 수 없는 경우, 허용되지 않은 상태 변경인 경우 에러
+ */
+export async function updateOrderStatus(
+  orderId: string,
+  nextStatus: OrderStatus,
+  reason?: string | null
+): Promise<RefundRequestResult> {
+  // 관리자 권한 체크
+  if (!(await isAdmin())) {
+    throw new Error("관리자 권한이 필요합니다.");
+  }
+
+  const supabase = createClerkSupabaseClient();
+
+  // 현재 주문 상태 조회
+  const { data: order, error: orderError } = await supabase
+    .from("orders")
+    .select("id, status, tracking_number")
+    .eq("id", orderId)
+    .single();
+
+  if (orderError || !order) {
+    console.error("주문 조회 에러:", orderError);
+    throw new Error("주문을 찾을 수 없습니다.");
+  }
+
+  // 상태 변경 규칙 확인 (반품/교환 상태는 신청 처리로만 변경)
+  if (!getAdminNextOrderStatuses(order.status).includes(nextStatus)) {
+    throw new Error(
+      `허용되지 않은 주문 상태 변경입니다: ${order.status} → ${nextStatus}`
+    );
+  }
+
+  // 배송 시작은 송장 등록 후에만 가능
+  if (nextStatus === "shipped" && !order.tracking_number) {
+    throw new Error("택배사와 송장 번호를 먼저 등록해주세요.");
+  }
+
+  // 주문 상태 변경 (취소 시 재고 복구, 상태 이력 기록 포함)
+  const actorId = await getCurrentUserId();
+  const { error } = await getServiceRoleClient().rpc("admin_update_order_status", {
+    p_order_id: orderId,
+    p_expected_status: order.status,
+    p_next_status: nextStatus,
+    p_actor_id: actorId,
+    p_reason: reason?.trim() || null,
+  });
+
+  if (error) {
+    console.error("주문 상태 변경 에러:", error);
+    throw new Error(`주문 상태 변경에 실패했습니다: ${error.message}`);
+  }
+
+  // 캐시 무효화
+  revalidatePath("/admin/orders");
+  revalidatePath(`/admin/orders/${orderId}`);
+  revalidatePath("/my/orders");
+  revalidatePath(`/my/orders/${orderId}`);
+  revalidatePath("/products");
+
+  // 주문자 알림 (응답 이후 발송, 발송 실패는 상태 변경 결과에 영향 없음)
+  const notificationType = ORDER_STATUS_NOTIFICATIONS[nextStatus];
+  if (notificationType) {
+    scheduleOrderNotification(orderId, notificationType, {
+      reason: reason?.trim() || null,
+    });
+  }
+
+  // 주문 취소 시 결제 금액 전액 환불 (결제 취소 실패는 환불 내역에 기록되어 재시도 가능)
+  if (nextStatus !== "cancelled") {
+    return { refund: null, refundError: null };
+  }
+
+  try {
+    const refund = await refundCancelledOrder(orderId, { type: "admin", id: actorId });
+    return { refund, refundError: null };
+  } catch (refundError) {
+    // 취소는 완료되었으므로 에러를 던지지 않음 (주문 상세에 환불 필요로 표시)
+    console.error("주문 취소 환불 에러:", refundError);
+    return {
+      refund: null,
+      refundError: refundError instanceof Error ? refundError.message : "알 수 없는 에러",
+    };
+  }
+}
+
+/**
+ * 관리자용 주문 상태 변경 이력을 조회합니다.
+ *
+ * @param orderId - 주문 ID
+ * @returns 상태 변경 이력 (오래된 순 정렬)
+ * @throws 관리자가 아닌 경우 에러
+ */
+export async function getAdminOrderStatusHistory(
+  orderId: string
+): Promise<OrderStatusHistory[]> {
+  // 관리자 권한 체크
+  if (!(await isAdmin())) {
+    throw new Error("관리자 권한이 필요합니다.");
+  }
+
+  const supabase = createClerkSupabaseClient();
+
+  const { data: history, error } = await supabase
+    .from("order_status_history")
+    .select("*")
+    .eq("order_id", orderId)
+    .order("created_at", { ascending: true });
+
+  if (error) {
+    console.error("주문 상태 이력 조회 에러:", error);
+    throw new Error(`주문 상태 이력 조회에 실패했습니다: ${error.message}`);
+  }
+
+  return (history ?? []) as OrderStatusHistory[];
+}
+
+/**
+ * 주문의 택배사와 송장 번호를 등록(수정)합니다.
+ *
+ * 배송 시작 전(confirmed)에 송장을 등록한 뒤 배송 시작 처리하며,
+ * 배송중(shipped)에는 잘못 입력한 송장을 수정할 수 있습니다.
+ *
+ * @param orderId - 주문 ID
+ * @param carrier - 택배사 코드
+ * @param trackingNumber - 송장 번호 (하이픈, 공백은 제거 후 저장)
+ * @throws 관리자가 아닌 경우, 송장 번호 형식이 맞지 않는 경우, 송장을 등록할 수 없는 상태인 경우 에러
+ */
+export async function updateOrderShipment(
+  orderId: string,
+  carrier: CourierCode,
+  trackingNumber: string
+): Promise<void> {
+  // 관리자 권한 체크
+  if (!(await isAdmin())) {
+    throw new Error("관리자 권한이 필요합니다.");
+  }
+
+  // 택배사 / 송장 번호 형식 확인
+  if (!isCourierCode(carrier)) {
+    throw new Error("지원하지 않는 택배사입니다.");
+  }
+
+  const normalizedTrackingNumber = normalizeTrackingNumber(trackingNumber);
+  if (!isValidTrackingNumber(carrier, normalizedTrackingNumber)) {
+    throw new Error(
+      `${getCourierName(carrier)} 송장 번호 형식이 올바르지 않습니다.`
+    );
+  }
+
+  const supabase = createClerkSupabaseClient();
+
+  // 주문 확인, 배송중 상태에서만 송장 등록 (조회한 상태 그대로일 때만 반영)
+  const { data: order, error } = await supabase
+    .from("orders")
+    .update({
+      carrier,
+      tracking_number: normalizedTrackingNumber,
+    })
+    .eq("id", orderId)
+    .in("status", ["confirmed", "shipped"])
+    .select("id")
+    .maybeSingle();
+
+  if (error) {
+    console.error("송장 등록 에러:", error);
+    throw new Error(`송장 등록에 실패했습니다: ${error.message}`);
+  }
+
+  if (!order) {
+    throw new Error("주문 확인 또는 배송중 상태의 주문만 송장을 등록할 수 있습니다.");
+  }
+
+  // 캐시 무효화
+  revalidatePath(`/admin/orders/${orderId}`);
+  revalidatePath(`/my/orders/${orderId}`);
+}
@@ -0,0 +1,219 @@
+/**
+ * @file actions/admin/product-variants.ts
+ * @description 상품 옵션 조합 관리 Server Actions
+ *
+ * 관리자가 상품의 옵션 조합(사이즈 × 색상)별 SKU, 재고, 추가 금액을 관리하는 Server Actions입니다.
+ * 모든 액션에서 관리자 권한을 체크합니다.
+ *
+ * 주요 기능:
+ * 1. getAdminProductVariants: 상품의 옵션 조합 목록 조회
+ * 2. saveProductVariants: 옵션 조합 매트릭스 저장 (추가/수정, 목록에 없는 조합 삭제, 재입고 시 재입고 알림 발송)
+ *
+ * @dependencies
+ * - lib/admin/is-admin.ts: 관리자 권한 체크
+ * - lib/supabase/server.ts: Supabase 클라이언트
+ * - lib/product-variants.ts: 옵션 축 / 옵션 조합 규칙
+ * - lib/notifications/restock.ts: 재입고 알림 발송
+ * - types/product.ts: ProductVariant 타입 정의
+ */
+
+"use server";
+
+import { revalidatePath } from "next/cache";
+import { isAdmin } from "@/lib/admin/is-admin";
+import { createClerkSupabaseClient } from "@/lib/supabase/server";
+import {
+  buildVariantCombinations,
+  getVariantKey,
+  getVariantOptionAxes,
+} from "@/lib/product-variants";
+import { isRestocked, sendRestockNotifications } from "@/lib/notifications/restock";
+import type { ProductVariant } from "@/types/product";
+
+/**
+ * 옵션 조합 저장에 필요한 데이터 타입
+ */
+export interface SaveProductVariantData {
+  options: Record<string, string>; // 옵션 조합 (예: { 사이즈: "M", 색상: "검정" })
+  sku?: string | null;
+  stock_quantity: number;
+  price_delta: number;
+  is_active: boolean;
+}
+
+/**
+ * 상품의 옵션 조합 목록을 조회합니다.
+ *
+ * @param productId - 상품 ID
+ * @returns 옵션 조합 목록 (생성순 정렬)
+ * @throws 관리자가 아닌 경우 에러
+ */
+export async function getAdminProductVariants(
+  productId: string
+): Promise<ProductVariant[]> {
+  // 관리자 권한 체크
+  if (!(await isAdmin())) {
+    throw new Error("관리자 권한이 필요합니다.");
+  }
+
+  const supabase = createClerkSupabaseClient();
+
+  const { data: variants, error } = await supabase
+    .from("product_variants")
+    .select("*")
+    .eq("product_id", productId)
+    .order("created_at", { ascending: true });
+
+  if (error) {
+    console.error("옵션 조합 조회 에러:", error);
+    throw new Error(`옵션 조합 조회에 실패했습니다: ${error.message}`);
+  }
+
+  return (variants ?? []) as ProductVariant[];
+}
+
+/**
+ * 상품의 옵션 조합 매트릭스를 저장합니다.
+ *
+ * 전달한 옵션 조합은 추가하거나 수정하고, 목록에 없는 기존 옵션 조합은 삭제합니다.
+ * 옵션 조합은 상품 옵션(사이즈, 색상)으로 만들 수 있는 조합이어야 합니다.
+ * 옵션 조합 재고 합계는 DB 트리거가 상품 재고에 반영하며, 품절 상품의 재고가 채워지면 재입고 알림을 발송합니다.
+ *
+ * @param productId - 상품 ID
+ * @param variants - 저장할 옵션 조합 목록
+ * @returns 저장된 옵션 조합 목록
+ * @throws 관리자가 아닌 경우, 옵션 조합 / SKU / 재고 / 추가 금액이 올바르지 않은 경우 에러
+ */
+export async function saveProductVariants(
+  productId: string,
+  variants: SaveProductVariantData[]
+): Promise<ProductVariant[]> {
+  // 관리자 권한 체크
+  if (!(await isAdmin())) {
+    throw new Error("관리자 권한이 필요합니다.");
+  }
+
+  const supabase = createClerkSupabaseClient();
+
+  // 상품 옵션 조회 (옵션 조합 검증용)
+  const { data: product, error: productError } = await supabase
+    .from("products")
+    .select("id, name, price, options, stock_quantity, status")
+    .eq("id", productId)
+    .single();
+
+  if (productError || !product) {
+    console.error("상품 조회 에러:", productError);
+    throw new Error("상품을 찾을 수 없습니다.");
+  }
+
+  // 옵션 조합 검증
+  const allowedKeys = new Set(
+    buildVariantCombinations(getVariantOptionAxes(product.options)).map(getVariantKey)
+  );
+  const seenKeys = new Set<string>();
+  const seenSkus = new Set<string>();
+
+  const rows = variants.map((variant) => {
+    const key = getVariantKey(variant.options);
+    if (!allowedKeys.has(key)) {
+      throw new Error(`상품 옵션에 없는 옵션 조합입니다: ${key}`);
+    }
+    if (seenKeys.has(key)) {
+      throw new Error(`중복된 옵션 조합입니다: ${key}`);
+    }
+    seenKeys.add(key);
+
+    const sku = variant.sku?.trim() || null;
+    if (sku) {
+      if (seenSkus.has(sku)) {
+        throw new Error(`중복된 SKU입니다: ${sku}`);
+      }
+      seenSkus.add(sku);
+    }
+
+    if (!Number.isInteger(variant.stock_quantity) || variant.stock_quantity < 0) {
+      throw new Error(`재고 수량은 0개 이상의 정수여야 합니다: ${key}`);
+    }
+
+    if (!Number.isInteger(variant.price_delta)) {
+      throw new Error(`추가 금액은 원 단위 정수여야 합니다: ${key}`);
+    }
+
+    if (Number(product.price) + variant.price_delta < 0) {
+      throw new Error(`추가 금액을 반영한 가격이 0원보다 작습니다: ${key}`);
+    }
+
+    return {
+      product_id: productId,
+      options: variant.options,
+      sku,
+      stock_quantity: variant.stock_quantity,
+      price_delta: variant.price_delta,
+      is_active: variant.is_active,
+    };
+  });
+
+  // 옵션 조합 추가/수정 (상품 + 옵션 조합 기준)
+  let saved: ProductVariant[] = [];
+  if (rows.length > 0) {
+    const { data, error } = await supabase
+      .from("product_variants")
+      .upsert(rows, { onConflict: "product_id,options" })
+      .select();
+
+    if (error) {
+      console.error("옵션 조합 저장 에러:", error);
+      if (error.code === "23505") {
+        throw new Error("이미 다른 상품에서 사용 중인 SKU입니다.");
+      }
+      throw new Error(`옵션 조합 저장에 실패했습니다: ${error.message}`);
+    }
+
+    saved = (data ?? []) as ProductVariant[];
+  }
+
+  // 목록에 없는 옵션 조합 삭제 (장바구니 항목도 함께 삭제, 주문 항목은 스냅샷 유지)
+  let deleteQuery = supabase
+    .from("product_variants")
+    .delete()
+    .eq("product_id", productId);
+
+  if (saved.length > 0) {
+    deleteQuery = deleteQuery.not(
+      "id",
+      "in",
+      `(${saved.map((variant) => variant.id).join(",")})`
+    );
+  }
+
+  const { error: deleteError } = await deleteQuery;
+
+  if (deleteError) {
+    console.error("옵션 조합 삭제 에러:", deleteError);
+    throw new Error(`옵션 조합 삭제에 실패했습니다: ${deleteError.message}`);
+  }
+
+  // 재입고 알림 발송 (옵션 조합 재고 합계가 트리거로 상품 재고에 반영된 뒤 확인)
+  const { data: updatedProduct } = await supabase
+    .from("products")
+    .select("stock_quantity, status")
+    .eq("id", productId)
+    .maybeSingle();
+
+  if (updatedProduct && isRestocked(product, updatedProduct)) {
+    try {
+      await sendRestockNotifications(product);
+    } catch (notifyError) {
+      console.error("재입고 알림 발송 에러:", notifyError);
+    }
+  }
+
+  // 캐시 무효화
+  revalidatePath("/admin");
+  revalidatePath(`/admin/products/${productId}/edit`);
+  revalidatePath(`/products/${productId}`);
+  revalidatePath("/cart");
+
+  return saved;
+}
@@ -7,13 +7,14 @@
  *
  * 주요 기능:
  * 1. createProduct: 새 상품 생성
- * 2. updateProduct: 기존 상품 수정
+ * 2. updateProduct: 기존 상품 수정 (재입고 시 재입고 알림 발송)
  * 3. deleteProduct: 상품 삭제 (소프트 삭제 또는 완전 삭제)
- * 4. getAdminProducts: 관리자용 상품 목록 조회 (검색, 필터링 지원)
+ * 4. getAdminProducts: 관리자용 상품 목록 조회 (검색, 필터링 지원, 상품별 찜 수 포함)
  *
  * @dependencies
  * - lib/admin/is-admin.ts: 관리자 권한 체크
  * - lib/supabase/server.ts: Supabase 클라이언트
+ * - lib/notifications/restock.ts: 재입고 알림 발송
  * - types/product.ts: Product 타입 정의
  */
 
@@ -23,7 +24,8 @@ import { revalidatePath } from "next/cache";
 import { redirect } from "next/navigation";
 import { isAdmin } from "@/lib/admin/is-admin";
 import { createClerkSupabaseClient } from "@/lib/supabase/server";
-import type { Product } from "@/types/product";
+import { isRestocked, sendRestockNotifications } from "@/lib/notifications/restock";
+import type { Product, ShippingClass } from "@/types/product";
 
 /**
  * 상품 생성에 필요한 데이터 타입
@@ -40,6 +42,7 @@ export interface CreateProductData {
   options?: Record<string, unknown> | null;
   status?: "active" | "out_of_stock" | "hidden";
   is_active?: boolean;
+  shipping_class?: ShippingClass;
 }
 
 /**
@@ -49,6 +52,13 @@ export interface UpdateProductData extends Partial<CreateProductData> {
   id: string;
 }
 
+/**
+ * 관리자용 상품 목록 항목 타입 (수요 지표로 찜 수 포함)
+ */
+export interface AdminProduct extends Product {
+  wishlist_count: number; // 찜한 사용자 수
+}
+
 /**
  * 관리자용 상품 목록 조회 파라미터
  */
@@ -99,6 +109,7 @@ export async function createProduct(
       options: data.options ?? null,
       status: data.status ?? "active",
       is_active: data.status !== "hidden",
+      shipping_class: data.shipping_class ?? "standard",
     })
     .select()
     .single();
@@ -117,10 +128,13 @@ export async function createProduct(
 
 /**
  * 기존 상품을 수정합니다.
+ * 품절 상품의 재고를 채우거나 상태를 품절 → 판매중으로 바꾸면 재입고 알림을 발송합니다.
+ * 캠페인이 적용된 상품의 가격 / 프로모션 여부는 캠페인이 관리하므로 수정할 수 없습니다.
+ * (캠페인 해제 시 적용 전 프로모션 필드로 복원)
  *
  * @param data - 상품 수정 데이터 (id 필수)
  * @returns 수정된 상품 정보
- * @throws 관리자가 아닌 경우 에러
+ * @throws 관리자가 아닌 경우, 캠페인이 적용된 상품의 가격 / 프로모션 여부를 바꾸는 경우 에러
  */
 export async function updateProduct(
   data: UpdateProductData
@@ -154,6 +168,50 @@ export async function updateProduct(
     updatePayload.is_active = updateData.status !== "hidden";
   }
 
+  // 옵션 조합이 있는 상품의 재고는 옵션 조합 재고 합계이므로 직접 수정하지 않음
+  if (updateData.stock_quantity !== undefined) {
+    const { count, error: variantsError } = await supabase
+      .from("product_variants")
+      .select("id", { count: "exact", head: true })
+      .eq("product_id", id);
+
+    if (variantsError) {
+      console.error("옵션 조합 조회 에러:", variantsError);
+      throw new Error(`상품 수정에 실패했습니다: ${variantsError.message}`);
+    }
+
+    if ((count ?? 0) > 0) {
+      delete updatePayload.stock_quantity;
+    }
+  }
+
+  // 수정 전 재고 / 상태 / 캠페인 적용 여부 조회 (재입고 여부, 가격 수정 가능 여부 판단)
+  const { data: previous, error: previousError } = await supabase
+    .from("products")
+    .select("stock_quantity, status, campaign_id, price, is_promotional")
+    .eq("id", id)
+    .maybeSingle();
+
+  if (previousError) {
+    console.error("상품 조회 에러:", previousError);
+    throw new Error(`상품 수정에 실패했습니다: ${previousError.message}`);
+  }
+
+  // 캠페인 적용 중인 상품은 가격 / 프로모션 여부 변경 불가
+  if (previous?.campaign_id) {
+    const priceChanged =
+      updateData.price !== undefined && Number(updateData.price) !== Number(previous.price);
+    const promotionChanged =
+      updateData.is_promotional !== undefined &&
+      updateData.is_promotional !== previous.is_promotional;
+
+    if (priceChanged || promotionChanged) {
+      throw new Error(
+        "캠페인이 적용된 상품은 가격과 프로모션 여부를 수정할 수 없습니다. 캠페인에서 해제한 뒤 수정해주세요."
+      );
+    }
+  }
+
   // 상품 수정
   const { data: product, error } = await supabase
     .from("products")
@@ -171,6 +229,15 @@ export async function updateProduct(
     throw new Error("상품을 찾을 수 없습니다.");
   }
 
+  // 재입고 알림 발송 (발송 실패는 상품 수정 결과에 영향을 주지 않음)
+  if (previous && isRestocked(previous, product)) {
+    try {
+      await sendRestockNotifications(product);
+    } catch (notifyError) {
+      console.error("재입고 알림 발송 에러:", notifyError);
+    }
+  }
+
   // 캐시 무효화
   revalidatePath("/admin");
   revalidatePath(`/admin/products/${id}/edit`);
@@ -235,12 +302,12 @@ export async function deleteProduct(
  * 관리자용 상품 목록을 조회합니다.
  *
  * @param params - 조회 파라미터 (검색, 필터링, 정렬 등)
- * @returns 상품 목록
+ * @returns 상품 목록 (상품별 찜 수 포함)
  * @throws 관리자가 아닌 경우 에러
  */
 export async function getAdminProducts(
   params: GetAdminProductsParams = {}
-): Promise<Product[]> {
+): Promise<AdminProduct[]> {
   // 관리자 권한 체크
   if (!(await isAdmin())) {
     throw new Error("관리자 권한이 필요합니다.");
@@ -248,7 +315,8 @@ export async function getAdminProducts(
 
   const supabase = createClerkSupabaseClient();
 
-  let query = supabase.from("products").select("*");
+  // 상품별 찜 수는 wishlists 집계로 함께 조회
+  let query = supabase.from("products").select("*, wishlists(count)");
 
   // 검색 (이름 또는 설명에 포함)
   if (params.search) {
@@ -285,7 +353,13 @@ export async function getAdminProducts(
     throw new Error(`상품 목록 조회에 실패했습니다: ${error.message}`);
   }
 
-  return (products ?? []) as Product[];
+  return (products ?? []).map((product: any) => {
+    const { wishlists, ...rest } = product;
+    return {
+      ...(rest as Product),
+      wishlist_count: wishlists?.[0]?.count ?? 0,
+    };
+  });
 }
 
 /**
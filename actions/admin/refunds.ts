@@ -0,0 +1,151 @@
+/**
+ * @file actions/admin/refunds.ts
+ * @description 환불 관리 Server Actions
+ *
+ * 관리자가 주문의 환불 내역을 조회하고 결제 취소에 실패했거나 요청 중으로 멈춘 환불을 다시 시도하는 Server Actions입니다.
+ * 주문 취소 / 반품 승인 후 환불 내역을 기록하지 못한 경우 환불을 다시 요청할 수 있습니다.
+ * 모든 액션에서 관리자 권한을 체크합니다.
+ *
+ * 주요 기능:
+ * 1. getAdminOrderRefunds: 주문의 환불 내역 조회 (금액 내역, 취소 거래 키, 처리 상태)
+ * 2. retryOrderRefund: 결제 취소에 실패했거나 요청 중으로 멈춘 환불 재시도
+ * 3. requestCancelledOrderRefund: 환불 내역이 없는 취소 주문의 환불 요청
+ * 4. requestReturnClaimRefund: 환불 내역이 없는 승인된 반품의 환불 요청
+ *
+ * @dependencies
+ * - lib/admin/is-admin.ts: 관리자 권한 체크
+ * - lib/supabase/server.ts: Supabase 클라이언트
+ * - lib/payments/refunds.ts: 환불 요청 / 재시도 (결제 취소)
+ * - types/refund.ts: OrderRefund 타입 정의
+ */
+
+"use server";
+
+import { revalidatePath } from "next/cache";
+import { getCurrentUserId, isAdmin } from "@/lib/admin/is-admin";
+import { createClerkSupabaseClient } from "@/lib/supabase/server";
+import {
+  refundCancelledOrder,
+  refundReturnClaim,
+  retryRefund,
+  toOrderRefund,
+} from "@/lib/payments/refunds";
+import type { OrderRefund } from "@/types/refund";
+
+/**
+ * 관리자용 주문의 환불 내역을 조회합니다.
+ *
+ * @param orderId - 주문 ID
+ * @returns 환불 내역 (오래된 순 정렬)
+ * @throws 관리자가 아닌 경우 에러
+ */
+export async function getAdminOrderRefunds(orderId: string): Promise<OrderRefund[]> {
+  // 관리자 권한 체크
+  if (!(await isAdmin())) {
+    throw new Error("관리자 권한이 필요합니다.");
+  }
+
+  const supabase = createClerkSupabaseClient();
+
+  const { data, error } = await supabase
+    .from("order_refunds")
+    .select("*")
+    .eq("order_id", orderId)
+    .order("created_at", { ascending: true });
+
+  if (error) {
+    console.error("환불 내역 조회 에러:", error);
+    throw new Error(`환불 내역 조회에 실패했습니다: ${error.message}`);
+  }
+
+  return (data ?? []).map(toOrderRefund);
+}
+
+/**
+ * 결제 취소에 실패했거나 요청 중으로 멈춘 환불을 다시 시도합니다.
+ *
+ * @param refundId - 실패 / 멈춘 환불 ID
+ * @returns 재시도 결과 환불 내역 (다시 실패하면 status: failed)
+ * @throws 관리자가 아닌 경우, 재시도할 수 없는 환불인 경우, 남은 결제 금액을 초과하는 경우 에러
+ */
+export async function retryOrderRefund(refundId: string): Promise<OrderRefund> {
+  // 관리자 권한 체크
+  if (!(await isAdmin())) {
+    throw new Error("관리자 권한이 필요합니다.");
+  }
+
+  const refund = await retryRefund(refundId);
+
+  // 캐시 무효화
+  revalidatePath(`/admin/orders/${refund.order_id}`);
+  revalidatePath(`/my/orders/${refund.order_id}`);
+
+  return refund;
+}
+
+/**
+ * 환불 내역이 없는 취소 주문의 결제 금액 전액 환불을 요청합니다.
+ * (주문 취소 후 환불 요청을 기록하지 못한 경우)
+ *
+ * @param orderId - 취소된 주문 ID
+ * @returns 환불 내역 (결제 승인되지 않았거나 남은 결제 금액이 없으면 null, 결제 취소 실패 시 status: failed)
+ * @throws 관리자가 아닌 경우, 취소된 주문이 아닌 경우, 환불 요청 기록에 실패한 경우 에러
+ */
+export async function requestCancelledOrderRefund(orderId: string): Promise<OrderRefund | null> {
+  // 관리자 권한 체크
+  if (!(await isAdmin())) {
+    throw new Error("관리자 권한이 필요합니다.");
+  }
+
+  const supabase = createClerkSupabaseClient();
+
+  const { data: order, error } = await supabase
+    .from("orders")
+    .select("status")
+    .eq("id", orderId)
+    .maybeSingle();
+
+  if (error || !order) {
+    console.error("주문 조회 에러:", error);
+    throw new Error("주문을 찾을 수 없습니다.");
+  }
+
+  if (order.status !== "cancelled") {
+    throw new Error("취소된 주문만 환불을 요청할 수 있습니다.");
+  }
+
+  const actorId = await getCurrentUserId();
+  const refund = await refundCancelledOrder(orderId, { type: "admin", id: actorId });
+
+  // 캐시 무효화
+  revalidatePath(`/admin/orders/${orderId}`);
+  revalidatePath(`/my/orders/${orderId}`);
+
+  return refund;
+}
+
+/**
+ * 환불 내역이 없는 승인된 반품의 환불을 요청합니다.
+ * (반품 승인 후 환불 요청을 기록하지 못한 경우, 이미 환불 내역이 있으면 기존 내역 반환)
+ *
+ * @param claimId - 승인된 반품 신청 ID
+ * @returns 환불 내역 (결제 승인되지 않았거나 환불 금액이 0원이면 null, 결제 취소 실패 시 status: failed)
+ * @throws 관리자가 아닌 경우, 승인된 반품이 아닌 경우, 환불 요청 기록에 실패한 경우 에러
+ */
+export async function requestReturnClaimRefund(claimId: string): Promise<OrderRefund | null> {
+  // 관리자 권한 체크
+  if (!(await isAdmin())) {
+    throw new Error("관리자 권한이 필요합니다.");
+  }
+
+  const actorId = await getCurrentUserId();
+  const refund = await refundReturnClaim(claimId, { type: "admin", id: actorId });
+
+  // 캐시 무효화
+  if (refund) {
+    revalidatePath(`/admin/orders/${refund.order_id}`);
+    revalidatePath(`/my/orders/${refund.order_id}`);
+  }
+
+  return refund;
+}
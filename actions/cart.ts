@@ -3,19 +3,23 @@
  * @description 장바구니 관리 Server Actions
  *
  * 사용자가 장바구니에 상품을 추가, 조회, 수정, 삭제하는 Server Actions입니다.
+ * 로그인하지 않은 사용자는 쿠키에 저장하는 비회원 장바구니를 사용하며,
+ * 로그인하면 mergeGuestCart로 cart_items에 병합합니다.
  *
  * 주요 기능:
- * 1. addToCart: 장바구니에 상품 추가 (동일 항목 시 수량 합산)
+ * 1. addToCart: 장바구니에 상품 추가 (동일 항목 시 수량 합산, 옵션 조합별 재고 확인)
  * 2. getCartItems: 현재 사용자 장바구니 목록 조회
  * 3. updateCartItemQuantity: 장바구니 항목 수량 변경
  * 4. removeCartItem: 개별 항목 삭제
  * 5. removeCartItems: 일괄 삭제
  * 6. clearCart: 장바구니 전체 비우기
  * 7. getCartCount: 장바구니 개수 조회
+ * 8. mergeGuestCart: 비회원 장바구니를 로그인 사용자 장바구니로 병합
  *
  * @dependencies
  * - @clerk/nextjs/server: Clerk 인증 (auth)
  * - lib/supabase/server.ts: Supabase 클라이언트
+ * - lib/guest-cart.ts: 비회원 장바구니 쿠키
  * - types/cart.ts: Cart 타입 정의
  * - types/product.ts: Product 타입 정의
  */
@@ -25,20 +29,45 @@
 import { auth } from "@clerk/nextjs/server";
 import { revalidatePath } from "next/cache";
 import { createClerkSupabaseClient } from "@/lib/supabase/server";
+import { clearGuestCart, readGuestCart, writeGuestCart } from "@/lib/guest-cart";
+import { getCartItemStock } from "@/lib/product-variants";
 import type {
   CartItem,
   CartItemWithProduct,
   AddToCartData,
   UpdateCartQuantityData,
+  GuestCartItem,
+  MergeGuestCartResult,
 } from "@/types/cart";
+import type { Product, ProductVariant } from "@/types/product";
+
+/**
+ * 비회원 장바구니 항목을 장바구니 항목 형식으로 변환합니다.
+ * 비회원 항목은 사용자가 없으므로 clerk_id가 빈 문자열입니다.
+ */
+function guestItemToCartItem(item: GuestCartItem): CartItem {
+  return {
+    id: item.id,
+    clerk_id: "",
+    product_id: item.productId,
+    variant_id: item.variantId,
+    quantity: item.quantity,
+    options: item.options,
+    created_at: item.addedAt,
+    updated_at: item.addedAt,
+  };
+}
 
 /**
  * 장바구니에 상품을 추가합니다.
  * 동일한 상품과 옵션 조합이 이미 있으면 수량을 합산합니다.
+ * 옵션 조합이 있는 상품은 옵션 조합(variantId)을 선택해야 하며, 옵션 조합 재고로 확인합니다.
+ *
+ * 로그인하지 않은 경우 비회원 장바구니(쿠키)에 추가합니다.
  *
- * @param data - 장바구니 추가 데이터 (productId, quantity, options)
+ * @param data - 장바구니 추가 데이터 (productId, quantity, variantId, options)
  * @returns 생성 또는 업데이트된 장바구니 항목
- * @throws 로그인하지 않은 경우, 상품을 찾을 수 없는 경우, 재고 부족 시 에러
+ * @throws 상품을 찾을 수 없는 경우, 옵션을 선택하지 않은 경우, 재고 부족 시, 비회원 장바구니가 가득 찬 경우 에러
  */
 export async function addToCart(
   data: AddToCartData
@@ -46,12 +75,8 @@ export async function addToCart(
   console.group("🛒 [addToCart] 장바구니 추가 시작");
   console.log("입력 데이터:", data);
 
-  // 1. 로그인 확인
+  // 1. 로그인 확인 (로그인하지 않은 경우 비회원 장바구니 사용)
   const { userId } = await auth();
-  if (!userId) {
-    console.error("❌ 로그인하지 않은 사용자");
-    throw new Error("로그인이 필요합니다.");
-  }
 
   const supabase = createClerkSupabaseClient();
 
@@ -72,22 +97,112 @@ export async function addToCart(
     throw new Error("현재 판매 중이 아닌 상품입니다.");
   }
 
-  if (product.stock_quantity === 0) {
+  // 3. 옵션 조합 확인 (옵션 조합이 있는 상품은 옵션 조합 재고 기준)
+  const { data: variants, error: variantsError } = await supabase
+    .from("product_variants")
+    .select("id, options, stock_quantity, is_active")
+    .eq("product_id", data.productId);
+
+  if (variantsError) {
+    console.error("❌ 옵션 조합 조회 실패:", variantsError);
+    throw new Error(`상품 옵션 조회에 실패했습니다: ${variantsError.message}`);
+  }
+
+  let stockQuantity = product.stock_quantity;
+  let variantId: string | null = null;
+  let options = data.options ?? null;
+
+  if (variants && variants.length > 0) {
+    const variant = variants.find((item) => item.id === data.variantId);
+
+    if (!variant) {
+      console.error("❌ 옵션 조합 미선택 또는 없는 옵션 조합:", data.variantId);
+      throw new Error("옵션을 선택해주세요.");
+    }
+
+    if (!variant.is_active) {
+      console.error("❌ 판매 중지된 옵션 조합");
+      throw new Error("현재 판매 중이 아닌 옵션입니다.");
+    }
+
+    stockQuantity = variant.stock_quantity;
+    variantId = variant.id;
+    options = variant.options as Record<string, unknown>;
+  } else if (data.variantId) {
+    console.error("❌ 옵션 조합이 없는 상품:", data.variantId);
+    throw new Error("상품 옵션을 찾을 수 없습니다.");
+  }
+
+  if (stockQuantity === 0) {
     console.error("❌ 품절 상품");
     throw new Error("품절된 상품입니다.");
   }
 
-  // 3. 기존 장바구니 항목 확인 (동일 상품 + 동일 옵션)
-  // options를 JSONB로 비교하기 위해 JSON 문자열로 변환
-  const optionsJson = data.options ? JSON.stringify(data.options) : null;
+  // 4. 비회원 장바구니 추가 (동일 상품 + 동일 옵션 조합이면 수량 합산)
+  if (!userId) {
+    const guestItems = await readGuestCart();
+    const optionsJson = JSON.stringify(options ?? null);
+    const existingGuestItem = guestItems.find(
+      (item) =>
+        item.productId === data.productId &&
+        (variantId
+          ? item.variantId === variantId
+          : item.variantId === null && JSON.stringify(item.options ?? null) === optionsJson)
+    );
+
+    const newQuantity = (existingGuestItem?.quantity ?? 0) + data.quantity;
+    if (newQuantity > stockQuantity) {
+      console.error("❌ 재고 부족:", {
+        요청수량: newQuantity,
+        재고: stockQuantity,
+      });
+      throw new Error(
+        `재고가 부족합니다. (최대 ${stockQuantity}개까지 가능)`
+      );
+    }
+
+    const guestItem: GuestCartItem = existingGuestItem
+      ? { ...existingGuestItem, quantity: newQuantity }
+      : {
+          id: crypto.randomUUID(),
+          productId: data.productId,
+          variantId,
+          quantity: data.quantity,
+          options,
+          addedAt: new Date().toISOString(),
+        };
+
+    await writeGuestCart(
+      existingGuestItem
+        ? guestItems.map((item) => (item.id === guestItem.id ? guestItem : item))
+        : [...guestItems, guestItem]
+    );
+
+    revalidatePath("/cart");
 
-  const { data: existingItem, error: findError } = await supabase
+    console.log("✅ 비회원 장바구니 추가:", guestItem);
+    console.groupEnd();
+    return guestItemToCartItem(guestItem);
+  }
+
+  // 5. 기존 장바구니 항목 확인 (동일 상품 + 동일 옵션 조합)
+  let existingQuery = supabase
     .from("cart_items")
     .select("id, quantity")
     .eq("clerk_id", userId)
-    .eq("product_id", data.productId)
-    .eq("options", optionsJson ?? null)
-    .single();
+    .eq("product_id", data.productId);
+
+  if (variantId) {
+    existingQuery = existingQuery.eq("variant_id", variantId);
+  } else {
+    // options를 JSONB로 비교하기 위해 JSON 문자열로 변환
+    const optionsJson = options ? JSON.stringify(options) : null;
+    existingQuery = existingQuery
+      .is("variant_id", null)
+      .eq("options", optionsJson ?? null);
+  }
+
+  const { data: existingItem, error: findError } = await existingQuery.single();
 
   // 에러가 있고 "PGRST116" (단일 행을 찾을 수 없음)이 아니면 실제 에러
   if (findError && findError.code !== "PGRST116") {
@@ -95,7 +210,7 @@ export async function addToCart(
     throw new Error(`장바구니 조회에 실패했습니다: ${findError.message}`);
   }
 
-  // 4. 기존 항목이 있으면 수량 합산, 없으면 새로 추가
+  // 6. 기존 항목이 있으면 수량 합산, 없으면 새로 추가
   let cartItem: CartItem;
 
   if (existingItem) {
@@ -103,13 +218,13 @@ export async function addToCart(
     const newQuantity = existingItem.quantity + data.quantity;
 
     // 재고 확인
-    if (newQuantity > product.stock_quantity) {
+    if (newQuantity > stockQuantity) {
       console.error("❌ 재고 부족:", {
         요청수량: newQuantity,
-        재고: product.stock_quantity,
+        재고: stockQuantity,
       });
       throw new Error(
-        `재고가 부족합니다. (최대 ${product.stock_quantity}개까지 가능)`
+        `재고가 부족합니다. (최대 ${stockQuantity}개까지 가능)`
       );
     }
 
@@ -131,13 +246,13 @@ export async function addToCart(
   } else {
     // 새 항목 추가
     // 재고 확인
-    if (data.quantity > product.stock_quantity) {
+    if (data.quantity > stockQuantity) {
       console.error("❌ 재고 부족:", {
         요청수량: data.quantity,
-        재고: product.stock_quantity,
+        재고: stockQuantity,
       });
       throw new Error(
-        `재고가 부족합니다. (최대 ${product.stock_quantity}개까지 가능)`
+        `재고가 부족합니다. (최대 ${stockQuantity}개까지 가능)`
       );
     }
 
@@ -146,8 +261,9 @@ export async function addToCart(
       .insert({
         clerk_id: userId,
         product_id: data.productId,
+        variant_id: variantId,
         quantity: data.quantity,
-        options: data.options ?? null,
+        options,
       })
       .select()
       .single();
@@ -161,7 +277,7 @@ export async function addToCart(
     console.log("✅ 새 항목 추가:", cartItem);
   }
 
-  // 5. 캐시 무효화
+  // 7. 캐시 무효화
   revalidatePath("/cart");
   revalidatePath("/");
   revalidatePath(`/products/${data.productId}`);
@@ -170,22 +286,86 @@ export async function addToCart(
   return cartItem;
 }
 
+/**
+ * 비회원 장바구니 항목에 상품 / 옵션 조합 정보를 붙여 반환합니다.
+ * 삭제된 상품이나 옵션 조합의 항목은 제외합니다. (cart_items의 ON DELETE CASCADE와 동일)
+ *
+ * @param guestItems - 비회원 장바구니 항목 목록
+ * @returns 장바구니 항목 목록 (상품 정보 포함, 최근 추가순)
+ */
+async function getGuestCartItemsWithProduct(
+  guestItems: GuestCartItem[]
+): Promise<CartItemWithProduct[]> {
+  if (guestItems.length === 0) {
+    return [];
+  }
+
+  const supabase = createClerkSupabaseClient();
+
+  const productIds = Array.from(new Set(guestItems.map((item) => item.productId)));
+  const variantIds = guestItems
+    .map((item) => item.variantId)
+    .filter((variantId): variantId is string => !!variantId);
+
+  const { data: products, error: productsError } = await supabase
+    .from("products")
+    .select("*")
+    .in("id", productIds);
+
+  if (productsError) {
+    console.error("❌ 상품 조회 실패:", productsError);
+    throw new Error(`장바구니 조회에 실패했습니다: ${productsError.message}`);
+  }
+
+  let variants: ProductVariant[] = [];
+  if (variantIds.length > 0) {
+    const { data, error: variantsError } = await supabase
+      .from("product_variants")
+      .select("*")
+      .in("id", variantIds);
+
+    if (variantsError) {
+      console.error("❌ 옵션 조합 조회 실패:", variantsError);
+      throw new Error(`장바구니 조회에 실패했습니다: ${variantsError.message}`);
+    }
+
+    variants = (data ?? []) as ProductVariant[];
+  }
+
+  const productsById = new Map((products ?? []).map((product) => [product.id, product as Product]));
+  const variantsById = new Map(variants.map((variant) => [variant.id, variant]));
+
+  return guestItems
+    .filter(
+      (item) =>
+        productsById.has(item.productId) &&
+        (!item.variantId || variantsById.has(item.variantId))
+    )
+    .sort((a, b) => b.addedAt.localeCompare(a.addedAt))
+    .map((item) => ({
+      ...guestItemToCartItem(item),
+      product: productsById.get(item.productId)!,
+      variant: item.variantId ? variantsById.get(item.variantId)! : null,
+    }));
+}
+
 /**
  * 현재 사용자의 장바구니 목록을 조회합니다.
  * 상품 정보를 JOIN하여 함께 반환합니다.
+ * 로그인하지 않은 경우 비회원 장바구니(쿠키)를 조회합니다.
  *
  * @returns 장바구니 항목 목록 (상품 정보 포함)
- * @throws 로그인하지 않은 경우 에러
  */
 export async function getCartItems(): Promise<CartItemWithProduct[]> {
   console.group("🛒 [getCartItems] 장바구니 조회 시작");
 
-  // 1. 로그인 확인
+  // 1. 로그인 확인 (로그인하지 않은 경우 비회원 장바구니 조회)
   const { userId } = await auth();
   if (!userId) {
-    console.error("❌ 로그인하지 않은 사용자");
+    const items = await getGuestCartItemsWithProduct(await readGuestCart());
+    console.log(`✅ 비회원 장바구니 조회 완료: ${items.length}개 항목`);
     console.groupEnd();
-    return [];
+    return items;
   }
 
   const supabase = createClerkSupabaseClient();
@@ -196,7 +376,8 @@ export async function getCartItems(): Promise<CartItemWithProduct[]> {
     .select(
       `
       *,
-      product:products(*)
+      product:products(*),
+      variant:product_variants(*)
     `
     )
     .eq("clerk_id", userId)
@@ -219,11 +400,13 @@ export async function getCartItems(): Promise<CartItemWithProduct[]> {
     id: item.id,
     clerk_id: item.clerk_id,
     product_id: item.product_id,
+    variant_id: item.variant_id ?? null,
     quantity: item.quantity,
     options: item.options,
     created_at: item.created_at,
     updated_at: item.updated_at,
     product: item.product,
+    variant: item.variant ?? null,
   }));
 
   console.log(`✅ 장바구니 조회 완료: ${items.length}개 항목`);
@@ -233,15 +416,15 @@ export async function getCartItems(): Promise<CartItemWithProduct[]> {
 
 /**
  * 현재 사용자의 장바구니 개수를 조회합니다.
- * Navbar 배지 표시용입니다.
+ * Navbar 배지 표시용입니다. 로그인하지 않은 경우 비회원 장바구니 개수를 반환합니다.
  *
  * @returns 장바구니 개수
  */
 export async function getCartCount(): Promise<number> {
-  // 로그인 확인
+  // 로그인 확인 (로그인하지 않은 경우 비회원 장바구니 개수)
   const { userId } = await auth();
   if (!userId) {
-    return 0;
+    return (await readGuestCart()).length;
   }
 
   const supabase = createClerkSupabaseClient();
@@ -265,7 +448,7 @@ export async function getCartCount(): Promise<number> {
  *
  * @param data - 수량 변경 데이터 (cartItemId, quantity)
  * @returns 업데이트된 장바구니 항목
- * @throws 로그인하지 않은 경우, 항목을 찾을 수 없는 경우, 재고 부족 시 에러
+ * @throws 항목을 찾을 수 없는 경우, 재고 부족 시 에러
  */
 export async function updateCartItemQuantity(
   data: UpdateCartQuantityData
@@ -273,12 +456,8 @@ export async function updateCartItemQuantity(
   console.group("🛒 [updateCartItemQuantity] 수량 변경 시작");
   console.log("입력 데이터:", data);
 
-  // 1. 로그인 확인
+  // 1. 로그인 확인 (로그인하지 않은 경우 비회원 장바구니)
   const { userId } = await auth();
-  if (!userId) {
-    console.error("❌ 로그인하지 않은 사용자");
-    throw new Error("로그인이 필요합니다.");
-  }
 
   // 2. 수량 검증
   if (data.quantity < 1) {
@@ -286,12 +465,60 @@ export async function updateCartItemQuantity(
     throw new Error("수량은 최소 1개 이상이어야 합니다.");
   }
 
+  // 3. 비회원 장바구니 수량 변경
+  if (!userId) {
+    const guestItems = await readGuestCart();
+    const guestItem = guestItems.find((item) => item.id === data.cartItemId);
+    const [guestCartItem] = guestItem
+      ? await getGuestCartItemsWithProduct([guestItem])
+      : [];
+
+    if (!guestItem || !guestCartItem) {
+      console.error("❌ 비회원 장바구니 항목 없음:", data.cartItemId);
+      throw new Error("장바구니 항목을 찾을 수 없습니다.");
+    }
+
+    if (!guestCartItem.product.is_active || guestCartItem.product.status === "hidden") {
+      console.error("❌ 비활성 상품");
+      throw new Error("현재 판매 중이 아닌 상품입니다.");
+    }
+
+    if (guestCartItem.variant && !guestCartItem.variant.is_active) {
+      console.error("❌ 판매 중지된 옵션 조합");
+      throw new Error("현재 판매 중이 아닌 옵션입니다.");
+    }
+
+    const guestStockQuantity = getCartItemStock(guestCartItem);
+    if (data.quantity > guestStockQuantity) {
+      console.error("❌ 재고 부족:", {
+        요청수량: data.quantity,
+        재고: guestStockQuantity,
+      });
+      throw new Error(
+        `재고가 부족합니다. (최대 ${guestStockQuantity}개까지 가능)`
+      );
+    }
+
+    const updatedGuestItem: GuestCartItem = { ...guestItem, quantity: data.quantity };
+    await writeGuestCart(
+      guestItems.map((item) => (item.id === updatedGuestItem.id ? updatedGuestItem : item))
+    );
+
+    revalidatePath("/cart");
+
+    console.log("✅ 비회원 장바구니 수량 변경 완료:", updatedGuestItem);
+    console.groupEnd();
+    return guestItemToCartItem(updatedGuestItem);
+  }
+
   const supabase = createClerkSupabaseClient();
 
-  // 3. 장바구니 항목 조회
+  // 4. 장바구니 항목 조회
   const { data: cartItem, error: findError } = await supabase
     .from("cart_items")
-    .select("*, product:products(id, stock_quantity, is_active, status)")
+    .select(
+      "*, product:products(id, stock_quantity, is_active, status), variant:product_variants(id, stock_quantity, is_active)"
+    )
     .eq("id", data.cartItemId)
     .eq("clerk_id", userId)
     .single();
@@ -301,25 +528,32 @@ export async function updateCartItemQuantity(
     throw new Error("장바구니 항목을 찾을 수 없습니다.");
   }
 
-  // 4. 상품 정보 확인
+  // 5. 상품 정보 확인
   const product = cartItem.product as any;
   if (!product.is_active || product.status === "hidden") {
     console.error("❌ 비활성 상품");
     throw new Error("현재 판매 중이 아닌 상품입니다.");
   }
 
-  // 5. 재고 확인
-  if (data.quantity > product.stock_quantity) {
+  // 6. 재고 확인 (옵션 조합을 선택한 항목은 옵션 조합 재고 기준)
+  const variant = cartItem.variant as any;
+  if (variant && !variant.is_active) {
+    console.error("❌ 판매 중지된 옵션 조합");
+    throw new Error("현재 판매 중이 아닌 옵션입니다.");
+  }
+
+  const stockQuantity = variant ? variant.stock_quantity : product.stock_quantity;
+  if (data.quantity > stockQuantity) {
     console.error("❌ 재고 부족:", {
       요청수량: data.quantity,
-      재고: product.stock_quantity,
+      재고: stockQuantity,
     });
     throw new Error(
-      `재고가 부족합니다. (최대 ${product.stock_quantity}개까지 가능)`
+      `재고가 부족합니다. (최대 ${stockQuantity}개까지 가능)`
     );
   }
 
-  // 6. 수량 업데이트
+  // 7. 수량 업데이트
   const { data: updatedItem, error: updateError } = await supabase
     .from("cart_items")
     .update({ quantity: data.quantity })
@@ -332,7 +566,7 @@ export async function updateCartItemQuantity(
     throw new Error(`수량 변경에 실패했습니다: ${updateError?.message}`);
   }
 
-  // 7. 캐시 무효화
+  // 8. 캐시 무효화
   revalidatePath("/cart");
 
   console.log("✅ 수량 변경 완료:", updatedItem);
@@ -344,17 +578,23 @@ export async function updateCartItemQuantity(
  * 장바구니에서 개별 항목을 삭제합니다.
  *
  * @param cartItemId - 삭제할 장바구니 항목 ID
- * @throws 로그인하지 않은 경우, 항목을 찾을 수 없는 경우 에러
+ * @throws 항목 삭제에 실패한 경우 에러
  */
 export async function removeCartItem(cartItemId: string): Promise<void> {
   console.group("🛒 [removeCartItem] 항목 삭제 시작");
   console.log("장바구니 항목 ID:", cartItemId);
 
-  // 1. 로그인 확인
+  // 1. 로그인 확인 (로그인하지 않은 경우 비회원 장바구니에서 삭제)
   const { userId } = await auth();
   if (!userId) {
-    console.error("❌ 로그인하지 않은 사용자");
-    throw new Error("로그인이 필요합니다.");
+    const guestItems = await readGuestCart();
+    await writeGuestCart(guestItems.filter((item) => item.id !== cartItemId));
+
+    revalidatePath("/cart");
+
+    console.log("✅ 비회원 장바구니 항목 삭제 완료");
+    console.groupEnd();
+    return;
   }
 
   const supabase = createClerkSupabaseClient();
@@ -383,7 +623,7 @@ export async function removeCartItem(cartItemId: string): Promise<void> {
  * 장바구니에서 여러 항목을 일괄 삭제합니다.
  *
  * @param cartItemIds - 삭제할 장바구니 항목 ID 배열
- * @throws 로그인하지 않은 경우 에러
+ * @throws 항목 삭제에 실패한 경우 에러
  */
 export async function removeCartItems(
   cartItemIds: string[]
@@ -391,15 +631,21 @@ export async function removeCartItems(
   console.group("🛒 [removeCartItems] 일괄 삭제 시작");
   console.log("삭제할 항목 개수:", cartItemIds.length);
 
-  // 1. 로그인 확인
+  if (cartItemIds.length === 0) {
+    console.log("⚠️ 삭제할 항목이 없음");
+    console.groupEnd();
+    return;
+  }
+
+  // 1. 로그인 확인 (로그인하지 않은 경우 비회원 장바구니에서 삭제)
   const { userId } = await auth();
   if (!userId) {
-    console.error("❌ 로그인하지 않은 사용자");
-    throw new Error("로그인이 필요합니다.");
-  }
+    const guestItems = await readGuestCart();
+    await writeGuestCart(guestItems.filter((item) => !cartItemIds.includes(item.id)));
 
-  if (cartItemIds.length === 0) {
-    console.log("⚠️ 삭제할 항목이 없음");
+    revalidatePath("/cart");
+
+    console.log("✅ 비회원 장바구니 일괄 삭제 완료");
     console.groupEnd();
     return;
   }
@@ -428,17 +674,23 @@ export async function removeCartItems(
 
 /**
  * 현재 사용자의 장바구니를 전체 비웁니다.
+ * 로그인하지 않은 경우 비회원 장바구니를 비웁니다.
  *
- * @throws 로그인하지 않은 경우 에러
+ * @throws 장바구니 비우기에 실패한 경우 에러
  */
 export async function clearCart(): Promise<void> {
   console.group("🛒 [clearCart] 장바구니 전체 비우기 시작");
 
-  // 1. 로그인 확인
+  // 1. 로그인 확인 (로그인하지 않은 경우 비회원 장바구니 삭제)
   const { userId } = await auth();
   if (!userId) {
-    console.error("❌ 로그인하지 않은 사용자");
-    throw new Error("로그인이 필요합니다.");
+    await clearGuestCart();
+
+    revalidatePath("/cart");
+
+    console.log("✅ 비회원 장바구니 비우기 완료");
+    console.groupEnd();
+    return;
   }
 
   const supabase = createClerkSupabaseClient();
@@ -462,3 +714,69 @@ export async function clearCart(): Promise<void> {
   console.groupEnd();
 }
 
+
+/**
+ * 비회원 장바구니(쿠키)를 로그인 사용자의 장바구니로 병합합니다.
+ * 로그인 직후 useSyncUser에서 사용자 동기화가 끝난 뒤 호출합니다.
+ *
+ * 병합 규칙 (merge_guest_cart 함수에서 한 트랜잭션으로 처리):
+ * 1. 동일 상품 + 동일 옵션 조합이 이미 있으면 수량을 합산합니다.
+ *    (cart_items_unique_user_product_options 인덱스 기준)
+ * 2. 합산 수량은 상품 / 옵션 조합 재고를 넘지 않도록 줄입니다.
+ * 3. 판매 중이 아니거나 품절된 상품 / 옵션 조합은 건너뜁니다.
+ *
+ * 병합이 끝나면 비회원 장바구니를 삭제합니다.
+ *
+ * @returns 병합 결과 (비회원 장바구니가 비어 있으면 null)
+ * @throws 로그인하지 않은 경우, 병합에 실패한 경우 에러
+ */
+export async function mergeGuestCart(): Promise<MergeGuestCartResult | null> {
+  console.group("🛒 [mergeGuestCart] 비회원 장바구니 병합 시작");
+
+  // 1. 로그인 확인
+  const { userId } = await auth();
+  if (!userId) {
+    console.error("❌ 로그인하지 않은 사용자");
+    console.groupEnd();
+    throw new Error("로그인이 필요합니다.");
+  }
+
+  // 2. 비회원 장바구니 확인
+  const guestItems = await readGuestCart();
+  if (guestItems.length === 0) {
+    console.log("⚠️ 병합할 비회원 장바구니 항목이 없음");
+    console.groupEnd();
+    return null;
+  }
+
+  console.log("병합할 항목 개수:", guestItems.length);
+
+  const supabase = createClerkSupabaseClient();
+
+  // 3. 병합 (재고 한도 / 중복 항목 처리는 merge_guest_cart 함수에서)
+  const { data: result, error } = await supabase.rpc("merge_guest_cart", {
+    p_items: guestItems.map((item) => ({
+      product_id: item.productId,
+      variant_id: item.variantId,
+      quantity: item.quantity,
+      options: item.options,
+    })),
+  });
+
+  if (error) {
+    console.error("❌ 비회원 장바구니 병합 실패:", error);
+    console.groupEnd();
+    throw new Error(`장바구니 병합에 실패했습니다: ${error.message}`);
+  }
+
+  // 4. 비회원 장바구니 삭제
+  await clearGuestCart();
+
+  // 5. 캐시 무효화
+  revalidatePath("/cart");
+  revalidatePath("/");
+
+  console.log("✅ 비회원 장바구니 병합 완료:", result);
+  console.groupEnd();
+  return result as MergeGuestCartResult;
+}
@@ -0,0 +1,152 @@
+/**
+ * @file actions/claim.ts
+ * @description 반품 / 교환 Server Actions
+ *
+ * 배송 완료된 주문의 상품별로 반품 / 교환을 신청하고 신청 내역을 조회하는 Server Actions입니다.
+ *
+ * 주요 기능:
+ * 1. getOrderClaims: 주문의 반품/교환 신청 내역 조회 (주문 상세 페이지용)
+ * 2. createOrderClaim: 반품/교환 신청 (request_order_claim RPC로 신청 기간, 수량 확인 및 주문 상태 변경)
+ *
+ * @dependencies
+ * - @clerk/nextjs/server: Clerk 인증 (auth)
+ * - lib/supabase/server.ts: Supabase 클라이언트
+ * - lib/claim-photos.ts: 첨부 사진 signed URL 생성
+ * - lib/claims.ts: 반품/교환 규칙
+ * - types/claim.ts: OrderClaim 타입 정의
+ */
+
+"use server";
+
+import { auth } from "@clerk/nextjs/server";
+import { revalidatePath } from "next/cache";
+import { createClerkSupabaseClient } from "@/lib/supabase/server";
+import { signClaimPhotos } from "@/lib/claim-photos";
+import {
+  CLAIM_MAX_PHOTOS,
+  CLAIM_REASON_MAX_LENGTH,
+  CLAIM_REASON_MIN_LENGTH,
+  CLAIM_REASON_TYPE_LABELS,
+  CLAIM_TYPE_LABELS,
+  isClaimPhotoPath,
+} from "@/lib/claims";
+import type {
+  CreateOrderClaimData,
+  OrderClaim,
+  OrderClaimWithPhotos,
+} from "@/types/claim";
+
+/**
+ * 주문의 반품/교환 신청 내역을 조회합니다.
+ *
+ * @param orderId - 주문 ID
+ * @returns 반품/교환 신청 목록 (오래된 순 정렬)
+ * @throws 로그인하지 않은 경우 에러
+ */
+export async function getOrderClaims(orderId: string): Promise<OrderClaimWithPhotos[]> {
+  console.group("↩️ [getOrderClaims] 반품/교환 신청 내역 조회 시작");
+  console.log("주문 ID:", orderId);
+
+  // 1. 로그인 확인
+  const { userId } = await auth();
+  if (!userId) {
+    console.error("❌ 로그인하지 않은 사용자");
+    console.groupEnd();
+    throw new Error("로그인이 필요합니다.");
+  }
+
+  // 2. 본인이 신청한 내역 조회
+  const supabase = createClerkSupabaseClient();
+  const { data, error } = await supabase
+    .from("order_claims")
+    .select("*")
+    .eq("order_id", orderId)
+    .eq("clerk_id", userId)
+    .order("created_at", { ascending: true });
+
+  if (error) {
+    console.error("❌ 반품/교환 신청 내역 조회 실패:", error);
+    console.groupEnd();
+    throw new Error(`반품/교환 신청 내역 조회에 실패했습니다: ${error.message}`);
+  }
+
+  console.log(`✅ 반품/교환 신청 내역 조회 완료: ${data?.length ?? 0}건`);
+  console.groupEnd();
+
+  return signClaimPhotos((data ?? []) as OrderClaim[]);
+}
+
+/**
+ * 주문 상품의 반품/교환을 신청합니다.
+ * 배송 완료 후 신청 기간 안에, 신청 가능 수량(주문 수량 - 신청 중 / 승인된 수량) 이하로 신청할 수 있습니다.
+ * 신청하면 주문 상태가 반품/교환 접수(return_requested)로 바뀝니다.
+ *
+ * @param data - 신청 데이터 (orderId, orderItemId, type, reasonType, reason, quantity, photoPaths)
+ * @throws 로그인하지 않은 경우, 입력값이 잘못된 경우, 신청 기간이 지난 경우, 수량을 초과한 경우 에러
+ */
+export async function createOrderClaim(data: CreateOrderClaimData): Promise<void> {
+  console.group("↩️ [createOrderClaim] 반품/교환 신청 시작");
+  console.log("주문 ID:", data.orderId, "주문 상품 ID:", data.orderItemId, "유형:", data.type, "수량:", data.quantity);
+
+  // 1. 로그인 확인
+  const { userId } = await auth();
+  if (!userId) {
+    console.error("❌ 로그인하지 않은 사용자");
+    console.groupEnd();
+    throw new Error("로그인이 필요합니다.");
+  }
+
+  // 2. 입력값 검증
+  const reason = data.reason.trim();
+  if (!(data.type in CLAIM_TYPE_LABELS) || !(data.reasonType in CLAIM_REASON_TYPE_LABELS)) {
+    console.error("❌ 잘못된 유형 / 사유:", data.type, data.reasonType);
+    console.groupEnd();
+    throw new Error("반품/교환 유형과 사유를 선택해주세요.");
+  }
+  if (reason.length < CLAIM_REASON_MIN_LENGTH || reason.length > CLAIM_REASON_MAX_LENGTH) {
+    console.error("❌ 잘못된 상세 사유 길이:", reason.length);
+    console.groupEnd();
+    throw new Error(
+      `상세 사유는 ${CLAIM_REASON_MIN_LENGTH}자 이상 ${CLAIM_REASON_MAX_LENGTH}자 이하로 입력해주세요.`
+    );
+  }
+  if (!Number.isInteger(data.quantity) || data.quantity < 1) {
+    console.error("❌ 잘못된 수량:", data.quantity);
+    console.groupEnd();
+    throw new Error("신청 수량은 1개 이상이어야 합니다.");
+  }
+  if (
+    data.photoPaths.length > CLAIM_MAX_PHOTOS ||
+    data.photoPaths.some((path) => !isClaimPhotoPath(userId, path))
+  ) {
+    console.error("❌ 잘못된 첨부 사진:", data.photoPaths);
+    console.groupEnd();
+    throw new Error(`사진은 최대 ${CLAIM_MAX_PHOTOS}장까지 첨부할 수 있습니다.`);
+  }
+
+  // 3. 반품/교환 신청 (본인 주문, 신청 기간, 수량 확인 및 주문 상태 변경을 하나의 트랜잭션으로 처리)
+  const supabase = createClerkSupabaseClient();
+  const { data: claimId, error } = await supabase.rpc("request_order_claim", {
+    p_order_item_id: data.orderItemId,
+    p_type: data.type,
+    p_reason_type: data.reasonType,
+    p_reason: reason,
+    p_quantity: data.quantity,
+    p_photo_paths: data.photoPaths,
+  });
+
+  if (error || !claimId) {
+    console.error("❌ 반품/교환 신청 실패:", error);
+    console.groupEnd();
+    throw new Error(error?.message ?? "반품/교환 신청에 실패했습니다.");
+  }
+
+  // 4. 캐시 무효화 (주문 상태가 바뀌므로 주문 목록 포함)
+  revalidatePath(`/my/orders/${data.orderId}`);
+  revalidatePath("/my/orders");
+  revalidatePath(`/admin/orders/${data.orderId}`);
+  revalidatePath("/admin/orders");
+
+  console.log("✅ 반품/교환 신청 완료:", claimId);
+  console.groupEnd();
+}
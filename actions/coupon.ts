@@ -0,0 +1,152 @@
+/**
+ * @file actions/coupon.ts
+ * @description 쿠폰 적용 Server Actions
+ *
+ * 주문 페이지에서 입력한 쿠폰 코드를 확인하고 할인 금액을 계산하는 Server Actions입니다.
+ *
+ * 주요 기능:
+ * 1. applyCoupon: 쿠폰 코드 확인 및 선택한 장바구니 항목 기준 할인 금액 계산
+ *    (주문 페이지 미리보기와 주문 생성 시 같은 함수를 사용)
+ *
+ * @dependencies
+ * - @clerk/nextjs/server: Clerk 인증 (auth)
+ * - lib/supabase/server.ts: Supabase 클라이언트
+ * - lib/coupons.ts: 쿠폰 할인 계산 규칙
+ * - lib/product-variants.ts: 옵션 추가 금액을 반영한 단가 계산
+ * - lib/pricing.ts: 프로모션 기간을 반영한 판매 가격
+ * - types/coupon.ts: Coupon 타입 정의
+ */
+
+"use server";
+
+import { auth } from "@clerk/nextjs/server";
+import { createClerkSupabaseClient } from "@/lib/supabase/server";
+import { calculateCouponDiscount, normalizeCouponCode } from "@/lib/coupons";
+import { getVariantUnitPrice } from "@/lib/product-variants";
+import { getEffectivePrice } from "@/lib/pricing";
+import type { AppliedCoupon, Coupon } from "@/types/coupon";
+
+/**
+ * 쿠폰 코드를 확인하고 선택한 장바구니 항목에 적용할 할인 금액을 계산합니다.
+ *
+ * 1인당 사용 횟수는 취소되지 않은 주문의 사용 내역만 셉니다.
+ * 주문 생성 시에는 place_order 함수가 쿠폰 행을 잠근 뒤 사용 기간과 사용 횟수를 다시 확인하고
+ * 할인 금액을 다시 계산합니다.
+ *
+ * @param code - 쿠폰 코드 (대소문자, 공백 무시)
+ * @param cartItemIds - 주문할 장바구니 항목 ID 배열
+ * @returns 적용된 쿠폰 정보 (할인 금액 포함)
+ * @throws 로그인하지 않은 경우, 쿠폰을 찾을 수 없는 경우, 사용 조건을 만족하지 않는 경우 에러
+ */
+export async function applyCoupon(
+  code: string,
+  cartItemIds: string[]
+): Promise<AppliedCoupon> {
+  console.group("🎟️ [applyCoupon] 쿠폰 적용 시작");
+  console.log("입력 데이터:", { code, cartItemIds });
+
+  // 1. 로그인 확인
+  const { userId } = await auth();
+  if (!userId) {
+    console.error("❌ 로그인하지 않은 사용자");
+    console.groupEnd();
+    throw new Error("로그인이 필요합니다.");
+  }
+
+  // 2. 입력 검증
+  const normalizedCode = normalizeCouponCode(code ?? "");
+  if (!normalizedCode) {
+    console.error("❌ 쿠폰 코드 없음");
+    console.groupEnd();
+    throw new Error("쿠폰 코드를 입력해주세요.");
+  }
+
+  if (!cartItemIds || cartItemIds.length === 0) {
+    console.error("❌ 선택한 장바구니 항목 없음");
+    console.groupEnd();
+    throw new Error("주문할 장바구니 항목을 선택해주세요.");
+  }
+
+  const supabase = createClerkSupabaseClient();
+
+  // 3. 쿠폰 조회
+  const { data: coupon, error: couponError } = await supabase
+    .from("coupons")
+    .select("*")
+    .eq("code", normalizedCode)
+    .maybeSingle();
+
+  if (couponError) {
+    console.error("❌ 쿠폰 조회 실패:", couponError);
+    console.groupEnd();
+    throw new Error(`쿠폰 조회에 실패했습니다: ${couponError.message}`);
+  }
+
+  if (!coupon) {
+    console.error("❌ 존재하지 않는 쿠폰 코드:", normalizedCode);
+    console.groupEnd();
+    throw new Error("존재하지 않는 쿠폰 코드입니다.");
+  }
+
+  // 4. 1인당 사용 횟수 확인 (취소된 주문 제외)
+  if (coupon.usage_limit_per_user !== null) {
+    const { count, error: usageError } = await supabase
+      .from("coupon_redemptions")
+      .select("id, order:orders!inner(status)", { count: "exact", head: true })
+      .eq("coupon_id", coupon.id)
+      .eq("clerk_id", userId)
+      .neq("order.status", "cancelled");
+
+    if (usageError) {
+      console.error("❌ 쿠폰 사용 내역 조회 실패:", usageError);
+      console.groupEnd();
+      throw new Error(`쿠폰 사용 내역 조회에 실패했습니다: ${usageError.message}`);
+    }
+
+    if ((count ?? 0) >= coupon.usage_limit_per_user) {
+      console.error("❌ 쿠폰 사용 횟수 초과:", count);
+      console.groupEnd();
+      throw new Error("쿠폰 사용 가능 횟수를 초과했습니다.");
+    }
+  }
+
+  // 5. 장바구니 항목 조회 (현재 판매 가격 + 옵션 추가 금액 / 카테고리 기준)
+  const { data: cartItems, error: cartError } = await supabase
+    .from("cart_items")
+    .select("quantity, product:products(price, original_price, is_promotional, promotion_start_date, promotion_end_date, category), variant:product_variants(price_delta)")
+    .eq("clerk_id", userId)
+    .in("id", cartItemIds);
+
+  if (cartError || !cartItems || cartItems.length === 0) {
+    console.error("❌ 장바구니 항목 조회 실패:", cartError);
+    console.groupEnd();
+    throw new Error("장바구니 항목을 찾을 수 없습니다.");
+  }
+
+  // 6. 할인 금액 계산
+  let discountAmount: number;
+  try {
+    discountAmount = calculateCouponDiscount(
+      coupon as Coupon,
+      cartItems.map((item: any) => ({
+        price: getVariantUnitPrice(item.product ? getEffectivePrice(item.product) : 0, item.variant),
+        quantity: item.quantity,
+        category: item.product?.category ?? null,
+      }))
+    );
+  } catch (error) {
+    console.error("❌ 쿠폰 적용 불가:", error);
+    console.groupEnd();
+    throw error;
+  }
+
+  console.log("✅ 쿠폰 적용 완료:", { code: coupon.code, 할인금액: discountAmount });
+  console.groupEnd();
+
+  return {
+    couponId: coupon.id,
+    code: coupon.code,
+    name: coupon.name,
+    discountAmount,
+  };
+}
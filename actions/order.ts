@@ -5,16 +5,28 @@
  * 사용자가 주문을 생성하고 조회하는 Server Actions입니다.
  *
  * 주요 기능:
- * 1. createOrder: 주문 생성 (재고 차감, 장바구니 항목 제거 포함)
+ * 1. createOrder: 주문 생성 (place_order RPC로 재고 차감, 쿠폰 사용, 장바구니 항목 제거를 원자적으로 처리)
  * 2. getOrders: 사용자별 주문 목록 조회
  * 3. getOrder: 주문 상세 조회 (order_items 포함)
- * 4. calculateShippingFee: 배송비 계산 유틸리티
+ * 4. cancelOrder: 주문 취소 (재고 복구, 결제 금액 전액 환불 포함)
+ * 5. getOrderStatusHistory: 주문 상태 변경 이력 조회
+ * 6. getOrderRefunds: 주문 환불 내역 조회
  *
  * @dependencies
  * - @clerk/nextjs/server: Clerk 인증 (auth)
  * - lib/supabase/server.ts: Supabase 클라이언트
+ * - lib/supabase/service-role.ts: 주문 생성 함수 호출 (서버에서 계산한 배송비 전달, service role 전용 함수)
+ * - lib/shipping.ts: 배송비 계산 규칙
+ * - lib/addresses.ts: 배송 정보 Zod 스키마 (5자리 우편번호 검증)
+ * - lib/product-variants.ts: 옵션 추가 금액을 반영한 단가 계산
+ * - lib/pricing.ts: 프로모션 기간을 반영한 판매 가격 (place_order의 product_effective_price와 같은 규칙)
+ * - actions/coupon.ts: 쿠폰 할인 금액 계산
+ * - lib/notifications/order.ts: 주문 접수 / 주문 취소 알림
+ * - lib/payments/refunds.ts: 주문 취소 환불 (결제 취소)
+ * - utils/order.ts: 주문 상태 변경 규칙
  * - types/order.ts: Order 타입 정의
  * - types/cart.ts: Cart 타입 정의
+ * - types/refund.ts: OrderRefund 타입 정의
  */
 
 "use server";
@@ -23,46 +35,39 @@ import { auth } from "@clerk/nextjs/server";
 import { revalidatePath } from "next/cache";
 import { redirect } from "next/navigation";
 import { createClerkSupabaseClient } from "@/lib/supabase/server";
+import { getServiceRoleClient } from "@/lib/supabase/service-role";
+import { calculateShipping } from "@/lib/shipping";
+import { shippingAddressSchema } from "@/lib/addresses";
+import { getVariantUnitPrice } from "@/lib/product-variants";
+import { getEffectivePrice } from "@/lib/pricing";
+import { applyCoupon } from "@/actions/coupon";
+import { scheduleOrderNotification } from "@/lib/notifications/order";
+import { refundCancelledOrder, toOrderRefund } from "@/lib/payments/refunds";
+import { canTransitionOrderStatus } from "@/utils/order";
 import type {
   Order,
   OrderItem,
   OrderWithItems,
+  OrderStatusHistory,
   CreateOrderData,
   ShippingAddress,
 } from "@/types/order";
 import type { CartItemWithProduct } from "@/types/cart";
-
-/**
- * 배송비 계산 유틸리티
- * 5만원 이상 무료 배송, 미만 3천원
- *
- * @param totalAmount - 상품 금액 합계
- * @returns 배송비
- */
-export async function calculateShippingFee(totalAmount: number): Promise<number> {
-  console.group("🚚 [calculateShippingFee] 배송비 계산 시작");
-  console.log("상품 금액 합계:", totalAmount);
-  
-  const shippingFee = totalAmount >= 50000 ? 0 : 3000;
-  const isFreeShipping = totalAmount >= 50000;
-  
-  console.log("배송비 계산 결과:", {
-    상품금액합계: totalAmount,
-    배송비: shippingFee,
-    무료배송여부: isFreeShipping ? "무료배송" : "배송비 3,000원",
-  });
-  console.groupEnd();
-  
-  return shippingFee;
-}
+import type { OrderRefund } from "@/types/refund";
 
 /**
  * 주문을 생성합니다.
- * 재고를 즉시 차감하고, 주문 완료 후 장바구니에서 해당 항목을 제거합니다.
+ * 상품 금액은 프로모션 기간을 반영한 판매 가격(lib/pricing.ts)으로,
+ * 배송비는 lib/shipping.ts 규칙으로 계산하고 (쿠폰은 applyCoupon으로 미리 확인),
+ * 장바구니 검증, 가격 스냅샷, 쿠폰 사용 기록, 재고 차감, 장바구니 항목 제거는
+ * place_order RPC 하나로 처리하므로 중간에 실패하면 전체가 롤백됩니다.
+ * 쿠폰 할인 금액은 place_order가 잠근 쿠폰 행과 장바구니 항목으로 다시 계산합니다.
+ * place_order는 전달받은 배송비를 그대로 저장하므로 service role로만 호출하고,
+ * 주문자는 Clerk 인증으로 확인한 User ID로 전달합니다.
  *
- * @param data - 주문 생성 데이터 (cartItemIds, shippingAddress, orderNote)
+ * @param data - 주문 생성 데이터 (cartItemIds, shippingAddress, orderNote, couponCode)
  * @returns 생성된 주문 ID
- * @throws 로그인하지 않은 경우, 장바구니 항목을 찾을 수 없는 경우, 재고 부족 시 에러
+ * @throws 로그인하지 않은 경우, 배송 정보가 올바르지 않은 경우, 장바구니 항목을 찾을 수 없는 경우, 재고 부족, 쿠폰 사용 불가 시 에러
  */
 export async function createOrder(
   data: CreateOrderData
@@ -72,236 +77,110 @@ export async function createOrder(
     cartItemIds: data.cartItemIds,
     shippingAddress: data.shippingAddress,
     orderNote: data.orderNote,
+    couponCode: data.couponCode,
   });
 
   // 1. 로그인 확인
   const { userId } = await auth();
   if (!userId) {
     console.error("❌ 로그인하지 않은 사용자");
+    console.groupEnd();
     throw new Error("로그인이 필요합니다.");
   }
 
+  // 2. 입력 검증
+  if (!data.cartItemIds || data.cartItemIds.length === 0) {
+    console.error("❌ 선택한 장바구니 항목 없음");
+    console.groupEnd();
+    throw new Error("주문할 장바구니 항목을 선택해주세요.");
+  }
+
+  // 배송 정보 검증 (5자리 우편번호 등 배송 정보 폼과 같은 규칙)
+  const shippingAddress = shippingAddressSchema.safeParse(data.shippingAddress);
+  if (!shippingAddress.success) {
+    console.error("❌ 배송 정보 검증 실패:", shippingAddress.error.issues);
+    console.groupEnd();
+    throw new Error(
+      shippingAddress.error.issues[0]?.message ?? "배송 정보가 올바르지 않습니다."
+    );
+  }
+
   const supabase = createClerkSupabaseClient();
 
-  // 2. 선택한 장바구니 항목 조회 및 검증
+  // 3. 배송비 계산 (주문 요약 화면과 같은 규칙 사용)
   const { data: cartItems, error: cartError } = await supabase
     .from("cart_items")
     .select(
-      `
-      *,
-      product:products(*)
-    `
+      "quantity, product:products(price, original_price, is_promotional, promotion_start_date, promotion_end_date, shipping_class), variant:product_variants(price_delta)"
     )
     .eq("clerk_id", userId)
     .in("id", data.cartItemIds);
 
   if (cartError || !cartItems || cartItems.length === 0) {
     console.error("❌ 장바구니 항목 조회 실패:", cartError);
+    console.groupEnd();
     throw new Error("장바구니 항목을 찾을 수 없습니다.");
   }
 
-  // 요청한 항목 수와 조회된 항목 수가 일치하는지 확인
-  if (cartItems.length !== data.cartItemIds.length) {
-    console.error("❌ 일부 장바구니 항목을 찾을 수 없음");
-    throw new Error("일부 장바구니 항목을 찾을 수 없습니다.");
-  }
-
-  console.log(`✅ 장바구니 항목 ${cartItems.length}개 조회 완료`);
-
-  // 3. 각 장바구니 항목 검증 (재고, 활성 상태 등)
-  const orderItems: Array<{
-    productId: string;
-    productName: string;
-    quantity: number;
-    price: number;
-    options: Record<string, unknown> | null;
-  }> = [];
-
-  let totalAmount = 0;
-
-  for (const cartItem of cartItems) {
-    const product = cartItem.product as any;
-
-    // 상품 존재 확인
-    if (!product) {
-      console.error("❌ 상품 정보 없음:", cartItem.product_id);
-      throw new Error(`상품 정보를 찾을 수 없습니다. (ID: ${cartItem.product_id})`);
-    }
-
-    // 활성 상태 확인
-    if (!product.is_active || product.status === "hidden") {
-      console.error("❌ 비활성 상품:", product.name);
-      throw new Error(`현재 판매 중이 아닌 상품입니다: ${product.name}`);
-    }
-
-    // 재고 확인
-    if (cartItem.quantity > product.stock_quantity) {
-      console.error("❌ 재고 부족:", {
-        상품명: product.name,
-        요청수량: cartItem.quantity,
-        재고: product.stock_quantity,
-      });
-      throw new Error(
-        `재고가 부족합니다: ${product.name} (최대 ${product.stock_quantity}개까지 가능)`
-      );
+  const shippingQuote = calculateShipping(
+    cartItems.map((item: any) => ({
+      price: getVariantUnitPrice(item.product ? getEffectivePrice(item.product) : 0, item.variant),
+      quantity: item.quantity,
+      shippingClass: item.product?.shipping_class ?? null,
+    })),
+    data.shippingAddress.postalCode
+  );
+
+  // 4. 쿠폰 사용 가능 여부 확인 (쿠폰 코드를 입력한 경우, 실제 할인 금액은 place_order에서 계산)
+  let coupon = null;
+  if (data.couponCode) {
+    try {
+      coupon = await applyCoupon(data.couponCode, data.cartItemIds);
+    } catch (error) {
+      console.error("❌ 쿠폰 적용 실패:", error);
+      console.groupEnd();
+      throw error;
     }
-
-    // 주문 항목 데이터 준비
-    const itemPrice = product.price;
-    const itemTotal = itemPrice * cartItem.quantity;
-    totalAmount += itemTotal;
-
-    orderItems.push({
-      productId: product.id,
-      productName: product.name,
-      quantity: cartItem.quantity,
-      price: itemPrice,
-      options: cartItem.options,
-    });
   }
 
-  // 4. 배송비 계산
-  const shippingFee = await calculateShippingFee(totalAmount);
-  const finalTotalAmount = totalAmount + shippingFee;
-
   console.log("💰 금액 계산:", {
-    상품금액합계: totalAmount,
-    배송비: shippingFee,
-    최종금액: finalTotalAmount,
+    상품금액합계: shippingQuote.subtotal,
+    배송비: shippingQuote.shippingFee,
+    추가배송비지역: shippingQuote.remoteArea,
+    쿠폰: coupon?.code ?? null,
+    예상할인금액: coupon?.discountAmount ?? 0,
   });
 
-  // 5. 주문 금액 검증
-  if (finalTotalAmount <= 0) {
-    console.error("❌ 주문 금액이 0원 이하");
-    throw new Error("주문 금액이 올바르지 않습니다.");
-  }
-
-  // 6. 주문 생성 및 재고 차감 (트랜잭션 처리)
-  try {
-    // 6-1. orders 테이블에 주문 정보 저장
-    const { data: order, error: orderError } = await supabase
-      .from("orders")
-      .insert({
-        clerk_id: userId,
-        total_amount: finalTotalAmount,
-        status: "pending",
-        shipping_address: data.shippingAddress as any,
-        order_note: data.orderNote ?? null,
-      })
-      .select()
-      .single();
-
-    if (orderError || !order) {
-      console.error("❌ 주문 생성 실패:", orderError);
-      throw new Error(`주문 생성에 실패했습니다: ${orderError?.message}`);
-    }
-
-    console.log("✅ 주문 생성 완료:", order.id);
-
-    // 6-2. order_items 테이블에 주문 상세 항목 저장
-    const orderItemsToInsert = orderItems.map((item) => ({
-      order_id: order.id,
-      product_id: item.productId,
-      product_name: item.productName,
-      quantity: item.quantity,
-      price: item.price,
-      options: item.options,
-    }));
-
-    const { error: itemsError } = await supabase
-      .from("order_items")
-      .insert(orderItemsToInsert);
-
-    if (itemsError) {
-      console.error("❌ 주문 항목 저장 실패:", itemsError);
-      // 주문 삭제 (롤백)
-      await supabase.from("orders").delete().eq("id", order.id);
-      throw new Error(`주문 항목 저장에 실패했습니다: ${itemsError.message}`);
-    }
+  // 5. 주문 생성 (검증, 쿠폰 사용, 재고 차감, 장바구니 제거를 하나의 트랜잭션으로 처리)
+  const { data: orderId, error } = await getServiceRoleClient().rpc("place_order", {
+    p_clerk_id: userId,
+    p_cart_item_ids: data.cartItemIds,
+    p_shipping_address: shippingAddress.data,
+    p_shipping_fee: shippingQuote.shippingFee,
+    p_expected_subtotal: shippingQuote.subtotal,
+    p_order_note: data.orderNote ?? null,
+    p_coupon_id: coupon?.couponId ?? null,
+  });
 
-    console.log("✅ 주문 항목 저장 완료:", orderItemsToInsert.length, "개");
-
-    // 6-3. 재고 차감
-    for (const item of orderItems) {
-      const { error: stockError } = await supabase.rpc("decrement_stock", {
-        product_id: item.productId,
-        quantity: item.quantity,
-      });
-
-      // RPC 함수가 없을 수 있으므로 직접 UPDATE
-      if (stockError) {
-        console.log("⚠️ RPC 함수 없음, 직접 UPDATE 시도");
-        const { data: product, error: fetchError } = await supabase
-          .from("products")
-          .select("stock_quantity")
-          .eq("id", item.productId)
-          .single();
-
-        if (fetchError || !product) {
-          console.error("❌ 상품 조회 실패:", fetchError);
-          // 주문 및 항목 삭제 (롤백)
-          await supabase.from("order_items").delete().eq("order_id", order.id);
-          await supabase.from("orders").delete().eq("id", order.id);
-          throw new Error(`상품 조회에 실패했습니다: ${fetchError?.message}`);
-        }
-
-        const newStock = product.stock_quantity - item.quantity;
-        if (newStock < 0) {
-          console.error("❌ 재고 부족 (재확인):", {
-            상품ID: item.productId,
-            재고: product.stock_quantity,
-            요청수량: item.quantity,
-          });
-          // 주문 및 항목 삭제 (롤백)
-          await supabase.from("order_items").delete().eq("order_id", order.id);
-          await supabase.from("orders").delete().eq("id", order.id);
-          throw new Error(`재고가 부족합니다: ${item.productName}`);
-        }
-
-        const { error: updateError } = await supabase
-          .from("products")
-          .update({ stock_quantity: newStock })
-          .eq("id", item.productId);
-
-        if (updateError) {
-          console.error("❌ 재고 차감 실패:", updateError);
-          // 주문 및 항목 삭제 (롤백)
-          await supabase.from("order_items").delete().eq("order_id", order.id);
-          await supabase.from("orders").delete().eq("id", order.id);
-          throw new Error(`재고 차감에 실패했습니다: ${updateError.message}`);
-        }
-      }
-
-      console.log(`✅ 재고 차감 완료: ${item.productName} -${item.quantity}개`);
-    }
+  if (error || !orderId) {
+    console.error("❌ 주문 생성 실패:", error);
+    console.groupEnd();
+    // place_order에서 발생시킨 예외 메시지(재고 부족 등)를 그대로 전달
+    throw new Error(error?.message ?? "주문 생성에 실패했습니다.");
+  }
 
-    // 6-4. 장바구니에서 해당 항목 제거
-    const { error: deleteError } = await supabase
-      .from("cart_items")
-      .delete()
-      .eq("clerk_id", userId)
-      .in("id", data.cartItemIds);
-
-    if (deleteError) {
-      console.error("⚠️ 장바구니 항목 삭제 실패:", deleteError);
-      // 주문은 성공했으므로 경고만 출력 (장바구니는 나중에 수동 삭제 가능)
-    } else {
-      console.log("✅ 장바구니 항목 삭제 완료");
-    }
+  // 6. 캐시 무효화
+  revalidatePath("/cart");
+  revalidatePath("/checkout");
+  revalidatePath("/products");
 
-    // 7. 캐시 무효화
-    revalidatePath("/cart");
-    revalidatePath("/checkout");
+  // 7. 주문 접수 알림 (응답 이후 발송, 발송 실패는 주문 결과에 영향 없음)
+  scheduleOrderNotification(orderId as string, "order_placed");
 
-    console.log("✅ 주문 생성 완료:", order.id);
-    console.groupEnd();
+  console.log("✅ 주문 생성 완료:", orderId);
+  console.groupEnd();
 
-    return { orderId: order.id };
-  } catch (error) {
-    console.error("❌ 주문 생성 중 에러 발생:", error);
-    console.groupEnd();
-    throw error;
-  }
+  return { orderId: orderId as string };
 }
 
 /**
@@ -411,3 +290,194 @@ export async function getOrder(orderId: string): Promise<OrderWithItems> {
   return typedOrder;
 }
 
+/**
+ * 주문을 취소합니다.
+ * 주문 상태와 결제 상태를 cancelled로 변경하고, 주문 수량만큼 재고를 복구합니다.
+ * 상태 변경과 재고 복구는 DB 함수(cancel_order)에서 하나의 트랜잭션으로 처리됩니다.
+ * 결제 승인된 주문이면 취소 후 결제 금액 전액을 환불합니다.
+ * 환불(결제 취소)에 실패해도 주문 취소는 유지되며, 실패한 환불은 관리자가 다시 시도합니다.
+ *
+ * @param orderId - 취소할 주문 ID
+ * @throws 로그인하지 않은 경우, 주문을 찾을 수 없는 경우, 취소할 수 없는 상태인 경우 에러
+ */
+export async function cancelOrder(orderId: string): Promise<void> {
+  console.group("📦 [cancelOrder] 주문 취소 시작");
+  console.log("주문 ID:", orderId);
+
+  // 1. 로그인 확인
+  const { userId } = await auth();
+  if (!userId) {
+    console.error("❌ 로그인하지 않은 사용자");
+    console.groupEnd();
+    throw new Error("로그인이 필요합니다.");
+  }
+
+  const supabase = createClerkSupabaseClient();
+
+  // 2. 주문 조회 (본인의 주문인지 확인)
+  const { data: order, error: orderError } = await supabase
+    .from("orders")
+    .select("id, status")
+    .eq("id", orderId)
+    .eq("clerk_id", userId)
+    .single();
+
+  if (orderError || !order) {
+    console.error("❌ 주문 조회 실패:", orderError);
+    console.groupEnd();
+    throw new Error("주문을 찾을 수 없습니다.");
+  }
+
+  // 3. 취소 가능 상태 확인 (주문 상태 변경 규칙 기준, 배송 전만 취소 가능)
+  if (!canTransitionOrderStatus(order.status, "cancelled")) {
+    console.error("❌ 취소할 수 없는 주문 상태:", order.status);
+    console.groupEnd();
+    throw new Error("이미 배송이 시작되었거나 취소된 주문은 취소할 수 없습니다.");
+  }
+
+  // 4. 주문 취소 및 재고 복구 (트랜잭션 처리)
+  const { error: cancelError } = await supabase.rpc("cancel_order", {
+    p_order_id: orderId,
+  });
+
+  if (cancelError) {
+    console.error("❌ 주문 취소 실패:", cancelError);
+    console.groupEnd();
+    throw new Error(`주문 취소에 실패했습니다: ${cancelError.message}`);
+  }
+
+  // 5. 결제 금액 전액 환불 (결제 취소 실패는 failed 환불 내역으로 기록되어 관리자가 재시도,
+  //    환불 내역조차 기록하지 못하면 관리자 주문 상세에 환불 필요로 표시되어 관리자가 환불 요청)
+  try {
+    const refund = await refundCancelledOrder(orderId, { type: "customer", id: userId });
+    if (refund?.status === "failed") {
+      console.error("⚠️ 주문 취소 환불 실패 (관리자 재시도 필요):", refund.failure_message);
+    }
+  } catch (error) {
+    console.error("⚠️ 주문 취소 환불 처리 에러 (관리자 확인 필요):", error);
+  }
+
+  // 6. 캐시 무효화
+  revalidatePath("/my/orders");
+  revalidatePath(`/my/orders/${orderId}`);
+  revalidatePath(`/admin/orders/${orderId}`);
+  revalidatePath("/products");
+
+  // 7. 주문 취소 알림 (응답 이후 발송, 발송 실패는 취소 결과에 영향 없음)
+  scheduleOrderNotification(orderId, "order_cancelled", {
+    reason: "고객 요청",
+  });
+
+  console.log("✅ 주문 취소 완료:", orderId);
+  console.groupEnd();
+}
+
+/**
+ * 주문 상태 변경 이력을 조회합니다.
+ *
+ * @param orderId - 주문 ID
+ * @returns 상태 변경 이력 (오래된 순 정렬)
+ * @throws 로그인하지 않은 경우, 주문을 찾을 수 없는 경우 에러
+ */
+export async function getOrderStatusHistory(
+  orderId: string
+): Promise<OrderStatusHistory[]> {
+  console.group("📦 [getOrderStatusHistory] 주문 상태 이력 조회 시작");
+  console.log("주문 ID:", orderId);
+
+  // 1. 로그인 확인
+  const { userId } = await auth();
+  if (!userId) {
+    console.error("❌ 로그인하지 않은 사용자");
+    console.groupEnd();
+    throw new Error("로그인이 필요합니다.");
+  }
+
+  const supabase = createClerkSupabaseClient();
+
+  // 2. 주문 확인 (본인의 주문인지 확인)
+  const { data: order, error: orderError } = await supabase
+    .from("orders")
+    .select("id")
+    .eq("id", orderId)
+    .eq("clerk_id", userId)
+    .single();
+
+  if (orderError || !order) {
+    console.error("❌ 주문 조회 실패:", orderError);
+    console.groupEnd();
+    throw new Error("주문을 찾을 수 없습니다.");
+  }
+
+  // 3. 상태 이력 조회
+  const { data: history, error } = await supabase
+    .from("order_status_history")
+    .select("*")
+    .eq("order_id", orderId)
+    .order("created_at", { ascending: true });
+
+  if (error) {
+    console.error("❌ 주문 상태 이력 조회 실패:", error);
+    console.groupEnd();
+    throw new Error(`주문 상태 이력 조회에 실패했습니다: ${error.message}`);
+  }
+
+  console.log(`✅ 주문 상태 이력 조회 완료: ${history?.length ?? 0}개`);
+  console.groupEnd();
+
+  return (history ?? []) as OrderStatusHistory[];
+}
+
+/**
+ * 주문 환불 내역을 조회합니다.
+ *
+ * @param orderId - 주문 ID
+ * @returns 환불 내역 (오래된 순 정렬)
+ * @throws 로그인하지 않은 경우, 주문을 찾을 수 없는 경우 에러
+ */
+export async function getOrderRefunds(orderId: string): Promise<OrderRefund[]> {
+  console.group("📦 [getOrderRefunds] 주문 환불 내역 조회 시작");
+  console.log("주문 ID:", orderId);
+
+  // 1. 로그인 확인
+  const { userId } = await auth();
+  if (!userId) {
+    console.error("❌ 로그인하지 않은 사용자");
+    console.groupEnd();
+    throw new Error("로그인이 필요합니다.");
+  }
+
+  const supabase = createClerkSupabaseClient();
+
+  // 2. 주문 확인 (본인의 주문인지 확인)
+  const { data: order, error: orderError } = await supabase
+    .from("orders")
+    .select("id")
+    .eq("id", orderId)
+    .eq("clerk_id", userId)
+    .single();
+
+  if (orderError || !order) {
+    console.error("❌ 주문 조회 실패:", orderError);
+    console.groupEnd();
+    throw new Error("주문을 찾을 수 없습니다.");
+  }
+
+  // 3. 환불 내역 조회
+  const { data: refunds, error } = await supabase
+    .from("order_refunds")
+    .select("*")
+    .eq("order_id", orderId)
+    .order("created_at", { ascending: true });
+
+  if (error) {
+    console.error("❌ 주문 환불 내역 조회 실패:", error);
+    console.groupEnd();
+    throw new Error(`주문 환불 내역 조회에 실패했습니다: ${error.message}`);
+  }
+
+  console.log(`✅ 주문 환불 내역 조회 완료: ${refunds?.length ?? 0}건`);
+  console.groupEnd();
+
+  return (refunds ?? []).map(toOrderRefund);
+}
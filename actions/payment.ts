@@ -0,0 +1,305 @@
+/**
+ * @file actions/payment.ts
+ * @description 결제 관리 Server Actions
+ *
+ * 결제창에서 돌아온 결제를 승인하고 주문에 결제 정보를 기록하는 Server Actions입니다.
+ *
+ * 주요 기능:
+ * 1. confirmPayment: 결제 금액 검증 후 결제 승인, 주문 상태 pending → confirmed 변경
+ *    (승인 후 주문에 반영하지 못하면 승인된 결제를 취소)
+ * 2. recordPaymentFailure: 결제 실패 정보 기록 (주문은 pending 유지, 재결제 가능)
+ *
+ * @dependencies
+ * - @clerk/nextjs/server: Clerk 인증 (auth)
+ * - lib/supabase/server.ts: Supabase 클라이언트
+ * - lib/payments: 결제 제공자 (Toss Payments / 로컬 가짜 게이트웨이)
+ * - lib/notifications/order.ts: 결제 완료 알림
+ * - types/payment.ts: 결제 타입 정의
+ */
+
+"use server";
+
+import { auth } from "@clerk/nextjs/server";
+import { revalidatePath } from "next/cache";
+import { createClerkSupabaseClient } from "@/lib/supabase/server";
+import { getPaymentProvider } from "@/lib/payments";
+import { scheduleOrderNotification } from "@/lib/notifications/order";
+import type {
+  PaymentConfirmRequest,
+  PaymentConfirmResult,
+  PaymentProvider,
+} from "@/types/payment";
+
+/**
+ * 승인은 되었지만 주문에 반영할 수 없는 결제를 전액 취소하고 실패를 기록합니다.
+ * 고객에게 결제 금액이 청구된 채 주문이 pending으로 남지 않도록 합니다.
+ *
+ * @param provider - 결제를 승인한 결제 제공자
+ * @param result - 결제 승인 결과
+ * @param orderId - 주문 ID
+ * @param failure - 실패 코드 및 메시지 (취소 사유)
+ */
+async function voidApprovedPayment(
+  provider: PaymentProvider,
+  result: PaymentConfirmResult,
+  orderId: string,
+  failure: { code: string; message: string }
+): Promise<void> {
+  try {
+    await provider.cancelPayment({
+      paymentKey: result.paymentKey,
+      cancelAmount: result.totalAmount,
+      cancelReason: failure.message,
+      // 같은 결제는 한 번만 취소되도록 결제 키 기준 멱등 키 사용
+      idempotencyKey: `void-${result.paymentKey}`,
+    });
+    console.log("✅ 승인된 결제 취소 완료:", result.paymentKey);
+  } catch (error) {
+    // 취소까지 실패하면 수동 환불이 필요하므로 결제 키를 함께 남김
+    console.error("❌ 승인된 결제 취소 실패 (수동 환불 필요):", {
+      paymentKey: result.paymentKey,
+      orderId,
+      error: error instanceof Error ? error.message : error,
+    });
+    await recordPaymentFailure(orderId, {
+      code: failure.code,
+      message: `${failure.message} (결제 취소 실패, 결제 키: ${result.paymentKey})`,
+    });
+    return;
+  }
+
+  await recordPaymentFailure(orderId, failure);
+}
+
+/**
+ * 결제를 승인하고 주문에 결제 정보를 기록합니다.
+ *
+ * 결제창에서 전달받은 금액은 조작될 수 있으므로 orders.total_amount와 비교한 뒤
+ * 일치하는 경우에만 결제 제공자에 승인을 요청합니다.
+ * 같은 paymentKey로 이미 승인된 주문이면 다시 승인하지 않고 그대로 반환합니다 (새로고침 대비).
+ *
+ * @param request - 결제 승인 요청 (paymentKey, orderId, amount)
+ * @returns 승인된 주문 ID
+ * @throws 로그인하지 않은 경우, 주문을 찾을 수 없는 경우, 금액 불일치, 결제 승인 실패 시 에러
+ */
+export async function confirmPayment(
+  request: PaymentConfirmRequest
+): Promise<{ orderId: string }> {
+  console.group("💳 [confirmPayment] 결제 승인 시작");
+  console.log("입력 데이터:", request);
+
+  // 1. 로그인 확인
+  const { userId } = await auth();
+  if (!userId) {
+    console.error("❌ 로그인하지 않은 사용자");
+    console.groupEnd();
+    throw new Error("로그인이 필요합니다.");
+  }
+
+  // 2. 입력 검증
+  if (!request.paymentKey || !request.orderId || !Number.isFinite(request.amount)) {
+    console.error("❌ 결제 승인 파라미터 누락");
+    console.groupEnd();
+    throw new Error("결제 정보가 올바르지 않습니다.");
+  }
+
+  const supabase = createClerkSupabaseClient();
+
+  // 3. 주문 조회 (본인 주문만)
+  const { data: order, error: orderError } = await supabase
+    .from("orders")
+    .select("id, status, total_amount, payment_id, payment_status")
+    .eq("id", request.orderId)
+    .eq("clerk_id", userId)
+    .single();
+
+  if (orderError || !order) {
+    console.error("❌ 주문 조회 실패:", orderError);
+    console.groupEnd();
+    throw new Error("주문을 찾을 수 없습니다.");
+  }
+
+  // 4. 이미 같은 결제로 승인된 주문이면 그대로 반환
+  if (order.payment_status === "completed" && order.payment_id === request.paymentKey) {
+    console.log("⚠️ 이미 승인된 결제:", request.paymentKey);
+    console.groupEnd();
+    return { orderId: order.id };
+  }
+
+  // 5. 결제 가능 상태 확인
+  if (order.status !== "pending") {
+    console.error("❌ 결제할 수 없는 주문 상태:", order.status);
+    console.groupEnd();
+    throw new Error("결제할 수 없는 주문 상태입니다.");
+  }
+
+  // 6. 결제 금액 검증 (서버에 저장된 주문 금액 기준)
+  const expectedAmount = Number(order.total_amount);
+  if (expectedAmount !== request.amount) {
+    console.error("❌ 결제 금액 불일치:", {
+      주문금액: expectedAmount,
+      요청금액: request.amount,
+    });
+    await recordPaymentFailure(request.orderId, {
+      code: "AMOUNT_MISMATCH",
+      message: `결제 금액이 주문 금액과 일치하지 않습니다. (요청: ${request.amount}, 주문: ${expectedAmount})`,
+    });
+    console.groupEnd();
+    throw new Error("결제 금액이 주문 금액과 일치하지 않습니다.");
+  }
+
+  // 7. 결제 제공자에 승인 요청
+  const provider = getPaymentProvider();
+  console.log("결제 제공자:", provider.name);
+
+  let result;
+  try {
+    result = await provider.confirmPayment({
+      paymentKey: request.paymentKey,
+      orderId: request.orderId,
+      amount: expectedAmount,
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "알 수 없는 에러";
+    console.error("❌ 결제 승인 실패:", message);
+    await recordPaymentFailure(request.orderId, {
+      code: "CONFIRM_FAILED",
+      message,
+    });
+    console.groupEnd();
+    throw new Error(`결제 승인에 실패했습니다: ${message}`);
+  }
+
+  // 승인된 금액도 주문 금액과 일치해야 함 (불일치 시 승인된 결제 취소)
+  if (result.totalAmount !== expectedAmount) {
+    console.error("❌ 승인 금액 불일치:", {
+      주문금액: expectedAmount,
+      승인금액: result.totalAmount,
+    });
+    await voidApprovedPayment(provider, result, request.orderId, {
+      code: "APPROVED_AMOUNT_MISMATCH",
+      message: `승인된 결제 금액이 주문 금액과 일치하지 않습니다. (승인: ${result.totalAmount}, 주문: ${expectedAmount})`,
+    });
+    console.groupEnd();
+    throw new Error("승인된 결제 금액이 주문 금액과 일치하지 않아 결제를 취소했습니다.");
+  }
+
+  console.log("✅ 결제 승인 완료:", result.paymentKey);
+
+  // 8. 주문 상태 및 결제 정보 업데이트 (pending 상태인 경우에만)
+  const { data: updated, error: updateError } = await supabase
+    .from("orders")
+    .update({
+      status: "confirmed",
+      payment_id: result.paymentKey,
+      payment_method: result.method,
+      payment_status: "completed",
+      payment_data: {
+        provider: provider.name,
+        approvedAt: result.approvedAt,
+        response: result.raw,
+      },
+    })
+    .eq("id", request.orderId)
+    .eq("clerk_id", userId)
+    .eq("status", "pending")
+    .select("id");
+
+  if (updateError || !updated || updated.length === 0) {
+    // 같은 결제로 동시에 들어온 요청이 먼저 반영한 경우는 정상 처리
+    const { data: current } = await supabase
+      .from("orders")
+      .select("payment_id, payment_status")
+      .eq("id", request.orderId)
+      .eq("clerk_id", userId)
+      .single();
+
+    if (current?.payment_status === "completed" && current.payment_id === result.paymentKey) {
+      console.log("⚠️ 다른 요청에서 이미 반영된 결제:", result.paymentKey);
+      console.groupEnd();
+      return { orderId: request.orderId };
+    }
+
+    // 승인된 결제를 주문에 반영할 수 없으므로 결제 취소
+    if (updateError) {
+      console.error("❌ 주문 결제 정보 저장 실패:", updateError);
+    } else {
+      console.error("❌ 결제 승인 중 주문 상태가 변경됨");
+    }
+    await voidApprovedPayment(provider, result, request.orderId, {
+      code: updateError ? "ORDER_UPDATE_FAILED" : "ORDER_STATE_CHANGED",
+      message: updateError
+        ? `결제 정보 저장에 실패했습니다: ${updateError.message}`
+        : "결제 승인 중 주문 상태가 변경되었습니다.",
+    });
+    console.groupEnd();
+    throw new Error(
+      updateError
+        ? `결제 정보 저장에 실패하여 결제를 취소했습니다: ${updateError.message}`
+        : "결제 승인 중 주문 상태가 변경되어 결제를 취소했습니다."
+    );
+  }
+
+  // 9. 캐시 무효화
+  revalidatePath("/my/orders");
+  revalidatePath(`/my/orders/${request.orderId}`);
+
+  // 10. 결제 완료 알림 (응답 이후 발송, 발송 실패는 결제 결과에 영향 없음)
+  scheduleOrderNotification(request.orderId, "payment_confirmed");
+
+  console.log("✅ 주문 확인 완료:", request.orderId);
+  console.groupEnd();
+
+  return { orderId: request.orderId };
+}
+
+/**
+ * 결제 실패 정보를 주문에 기록합니다.
+ * 주문 상태는 pending으로 유지하므로 다시 결제할 수 있습니다.
+ *
+ * @param orderId - 주문 ID
+ * @param failure - 실패 코드 및 메시지
+ */
+export async function recordPaymentFailure(
+  orderId: string,
+  failure: { code: string; message: string }
+): Promise<void> {
+  console.group("💳 [recordPaymentFailure] 결제 실패 기록 시작");
+  console.log("주문 ID:", orderId, "실패 정보:", failure);
+
+  // 1. 로그인 확인
+  const { userId } = await auth();
+  if (!userId) {
+    console.error("❌ 로그인하지 않은 사용자");
+    console.groupEnd();
+    return;
+  }
+
+  const supabase = createClerkSupabaseClient();
+
+  // 2. 결제 대기 중인 본인 주문에만 기록
+  const { error } = await supabase
+    .from("orders")
+    .update({
+      payment_status: "failed",
+      payment_data: {
+        failure: {
+          code: failure.code,
+          message: failure.message,
+          failedAt: new Date().toISOString(),
+        },
+      },
+    })
+    .eq("id", orderId)
+    .eq("clerk_id", userId)
+    .eq("status", "pending");
+
+  if (error) {
+    // 실패 기록은 부가 정보이므로 경고만 출력
+    console.error("⚠️ 결제 실패 기록 실패:", error);
+  } else {
+    console.log("✅ 결제 실패 기록 완료");
+  }
+
+  console.groupEnd();
+}
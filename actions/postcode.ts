@@ -0,0 +1,69 @@
+/**
+ * @file actions/postcode.ts
+ * @description 우편번호 검색 Server Actions
+ *
+ * 배송 정보 폼의 우편번호 검색 다이얼로그에서 주소를 검색하는 Server Action입니다.
+ * 카카오 REST API 키가 브라우저에 노출되지 않도록 서버에서 검색 어댑터를 호출합니다.
+ *
+ * 주요 기능:
+ * 1. searchPostcode: 도로명, 지번, 건물 이름으로 주소 검색 (5자리 우편번호가 있는 결과만)
+ *
+ * @dependencies
+ * - lib/postcode/index.ts: 우편번호 검색 어댑터 선택
+ * - lib/addresses.ts: 우편번호 형식 확인
+ * - types/postcode.ts: PostcodeAddress 타입 정의
+ */
+
+"use server";
+
+import { getPostcodeAdapter } from "@/lib/postcode";
+import { isValidPostalCode } from "@/lib/addresses";
+import type { PostcodeAddress } from "@/types/postcode";
+
+/**
+ * 한 번에 보여줄 최대 검색 결과 수
+ */
+const POSTCODE_SEARCH_LIMIT = 10;
+
+/**
+ * 주소를 검색합니다.
+ *
+ * @param query - 검색어 (도로명 + 건물번호, 지번, 건물 이름 등, 2자 이상)
+ * @returns 검색 결과 (최대 10개)
+ * @throws 검색어가 너무 짧은 경우, 검색 실패 시 에러
+ */
+export async function searchPostcode(query: string): Promise<PostcodeAddress[]> {
+  console.group("📮 [searchPostcode] 주소 검색 시작");
+  console.log("검색어:", query);
+
+  // 1. 검색어 확인
+  const keyword = query.trim();
+  if (keyword.length < 2) {
+    console.error("❌ 검색어가 너무 짧음");
+    console.groupEnd();
+    throw new Error("검색어를 2자 이상 입력해주세요.");
+  }
+
+  // 2. 주소 검색
+  const adapter = getPostcodeAdapter();
+  let addresses: PostcodeAddress[];
+  try {
+    addresses = await adapter.search(keyword, POSTCODE_SEARCH_LIMIT);
+  } catch (error) {
+    console.error("❌ 주소 검색 실패:", error);
+    console.groupEnd();
+    throw new Error(
+      `주소 검색에 실패했습니다: ${error instanceof Error ? error.message : "알 수 없는 에러"}`
+    );
+  }
+
+  // 3. 5자리 우편번호가 아닌 결과 제외 (배송비 계산과 주문 검증에 사용할 수 없음)
+  const results = addresses.filter((address) => isValidPostalCode(address.postalCode));
+  if (results.length < addresses.length) {
+    console.log(`⚠️ 우편번호 형식이 올바르지 않은 결과 ${addresses.length - results.length}건 제외`);
+  }
+
+  console.log(`✅ 주소 검색 완료 (${adapter.name}): ${results.length}건`);
+  console.groupEnd();
+  return results;
+}
@@ -0,0 +1,151 @@
+/**
+ * @file actions/restock.ts
+ * @description 재입고 알림 신청 Server Actions
+ *
+ * 로그인 사용자가 품절 상품의 재입고 알림을 신청하거나 취소하는 Server Actions입니다.
+ * 알림 발송은 관리자 상품 수정 시 lib/notifications/restock.ts에서 처리합니다.
+ *
+ * 주요 기능:
+ * 1. getRestockSubscriptionStatus: 재입고 알림 신청 여부 조회
+ * 2. subscribeRestock: 재입고 알림 신청 (품절 상품만)
+ * 3. unsubscribeRestock: 재입고 알림 신청 취소
+ *
+ * @dependencies
+ * - @clerk/nextjs/server: Clerk 인증 (auth)
+ * - lib/supabase/server.ts: Supabase 클라이언트
+ */
+
+"use server";
+
+import { auth } from "@clerk/nextjs/server";
+import { revalidatePath } from "next/cache";
+import { createClerkSupabaseClient } from "@/lib/supabase/server";
+
+/**
+ * 현재 사용자가 상품의 재입고 알림을 신청했는지 조회합니다.
+ * 로그인하지 않은 경우 false를 반환합니다.
+ *
+ * @param productId - 상품 ID
+ * @returns 알림 대기 중인 신청 여부
+ */
+export async function getRestockSubscriptionStatus(productId: string): Promise<boolean> {
+  // 로그인 확인 (로그인하지 않은 경우 신청 없음)
+  const { userId } = await auth();
+  if (!userId) {
+    return false;
+  }
+
+  const supabase = createClerkSupabaseClient();
+
+  const { data, error } = await supabase
+    .from("restock_subscriptions")
+    .select("id")
+    .eq("clerk_id", userId)
+    .eq("product_id", productId)
+    .is("notified_at", null)
+    .maybeSingle();
+
+  if (error) {
+    console.error("❌ 재입고 알림 신청 조회 실패:", error);
+    return false;
+  }
+
+  return !!data;
+}
+
+/**
+ * 품절 상품의 재입고 알림을 신청합니다.
+ * 이미 신청한 상품이면 그대로 둡니다.
+ *
+ * @param productId - 상품 ID
+ * @throws 로그인하지 않은 경우, 상품을 찾을 수 없는 경우, 품절 상품이 아닌 경우 에러
+ */
+export async function subscribeRestock(productId: string): Promise<void> {
+  console.group("🔔 [subscribeRestock] 재입고 알림 신청 시작");
+  console.log("상품 ID:", productId);
+
+  // 1. 로그인 확인
+  const { userId } = await auth();
+  if (!userId) {
+    console.error("❌ 로그인하지 않은 사용자");
+    console.groupEnd();
+    throw new Error("로그인이 필요합니다.");
+  }
+
+  const supabase = createClerkSupabaseClient();
+
+  // 2. 상품 확인 (판매 중인 품절 상품만 신청 가능)
+  const { data: product, error: productError } = await supabase
+    .from("products")
+    .select("id, stock_quantity, status, is_active")
+    .eq("id", productId)
+    .maybeSingle();
+
+  if (productError || !product || !product.is_active || product.status === "hidden") {
+    console.error("❌ 상품을 찾을 수 없음:", productError);
+    console.groupEnd();
+    throw new Error("상품을 찾을 수 없습니다.");
+  }
+
+  if (product.stock_quantity > 0 && product.status !== "out_of_stock") {
+    console.error("❌ 품절 상품이 아님");
+    console.groupEnd();
+    throw new Error("품절 상품만 재입고 알림을 신청할 수 있습니다.");
+  }
+
+  // 3. 재입고 알림 신청 (이미 신청한 경우 유지)
+  const { error } = await supabase
+    .from("restock_subscriptions")
+    .insert({ clerk_id: userId, product_id: productId });
+
+  if (error && error.code !== "23505") {
+    console.error("❌ 재입고 알림 신청 실패:", error);
+    console.groupEnd();
+    throw new Error(`재입고 알림 신청에 실패했습니다: ${error.message}`);
+  }
+
+  revalidatePath(`/products/${productId}`);
+
+  console.log(error ? "✅ 이미 신청한 상품" : "✅ 재입고 알림 신청 완료");
+  console.groupEnd();
+}
+
+/**
+ * 재입고 알림 신청을 취소합니다.
+ *
+ * @param productId - 상품 ID
+ * @throws 로그인하지 않은 경우, 취소 실패 시 에러
+ */
+export async function unsubscribeRestock(productId: string): Promise<void> {
+  console.group("🔔 [unsubscribeRestock] 재입고 알림 신청 취소 시작");
+  console.log("상품 ID:", productId);
+
+  // 1. 로그인 확인
+  const { userId } = await auth();
+  if (!userId) {
+    console.error("❌ 로그인하지 않은 사용자");
+    console.groupEnd();
+    throw new Error("로그인이 필요합니다.");
+  }
+
+  const supabase = createClerkSupabaseClient();
+
+  // 2. 알림 대기 중인 본인 신청 삭제 (발송 기록은 유지)
+  const { error } = await supabase
+    .from("restock_subscriptions")
+    .delete()
+    .eq("clerk_id", userId)
+    .eq("product_id", productId)
+    .is("notified_at", null);
+
+  if (error) {
+    console.error("❌ 재입고 알림 신청 취소 실패:", error);
+    console.groupEnd();
+    throw new Error(`재입고 알림 신청 취소에 실패했습니다: ${error.message}`);
+  }
+
+  revalidatePath(`/products/${productId}`);
+
+  console.log("✅ 재입고 알림 신청 취소 완료");
+  console.groupEnd();
+}
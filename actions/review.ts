@@ -0,0 +1,305 @@
+/**
+ * @file actions/review.ts
+ * @description 상품 리뷰 Server Actions
+ *
+ * 배송 완료된 주문의 상품에 리뷰를 작성하고, 상품별 리뷰를 조회하는 Server Actions입니다.
+ *
+ * 주요 기능:
+ * 1. getProductReviews: 상품 리뷰 목록 + 요약(평균 별점, 별점 분포) 조회
+ * 2. getOrderReviews: 주문에 작성한 내 리뷰 조회 (주문 상세 페이지용)
+ * 3. createReview: 리뷰 작성 (배송 완료된 본인 주문의 상품만, RLS로 한 번 더 검증)
+ *
+ * @dependencies
+ * - @clerk/nextjs/server: Clerk 인증 (auth)
+ * - lib/supabase/server.ts: Supabase 클라이언트
+ * - lib/supabase/service-role.ts: 리뷰 사진 signed URL 생성 (private 버킷)
+ * - lib/reviews.ts: 리뷰 규칙
+ * - types/review.ts: Review 타입 정의
+ */
+
+"use server";
+
+import { auth } from "@clerk/nextjs/server";
+import { revalidatePath } from "next/cache";
+import { createClerkSupabaseClient } from "@/lib/supabase/server";
+import { getServiceRoleClient } from "@/lib/supabase/service-role";
+import {
+  isReviewPhotoPath,
+  maskAuthorName,
+  REVIEW_CONTENT_MAX_LENGTH,
+  REVIEW_CONTENT_MIN_LENGTH,
+  REVIEW_MAX_PHOTOS,
+  REVIEWS_PAGE_SIZE,
+} from "@/lib/reviews";
+import type {
+  CreateReviewData,
+  ProductReviewsResult,
+  Review,
+  ReviewSummary,
+  ReviewWithPhotos,
+} from "@/types/review";
+
+const STORAGE_BUCKET = process.env.NEXT_PUBLIC_STORAGE_BUCKET || "uploads";
+
+/**
+ * 리뷰 사진 signed URL 유효 시간 (초)
+ */
+const REVIEW_PHOTO_URL_EXPIRES_IN = 60 * 60;
+
+/**
+ * 리뷰 사진 Storage 경로를 signed URL로 변환합니다.
+ * 버킷이 private이고 Storage RLS는 본인 파일만 조회할 수 있으므로 service role로 생성합니다.
+ */
+async function signReviewPhotos(reviews: Review[]): Promise<ReviewWithPhotos[]> {
+  const paths = reviews.flatMap((review) => review.photo_paths);
+  const urlsByPath = new Map<string, string>();
+
+  if (paths.length > 0) {
+    const { data, error } = await getServiceRoleClient()
+      .storage.from(STORAGE_BUCKET)
+      .createSignedUrls(paths, REVIEW_PHOTO_URL_EXPIRES_IN);
+
+    if (error) {
+      console.error("⚠️ 리뷰 사진 URL 생성 실패 (사진 없이 표시):", error);
+    }
+
+    (data ?? []).forEach((item) => {
+      if (item.path && item.signedUrl) {
+        urlsByPath.set(item.path, item.signedUrl);
+      }
+    });
+  }
+
+  // 작성자 ID / Storage 경로는 화면에 전달하지 않음
+  return reviews.map((review) => ({
+    id: review.id,
+    product_id: review.product_id,
+    order_id: review.order_id,
+    author_name: maskAuthorName(review.author_name),
+    rating: review.rating,
+    content: review.content,
+    photo_urls: review.photo_paths
+      .map((path) => urlsByPath.get(path))
+      .filter((url): url is string => !!url),
+    created_at: review.created_at,
+    updated_at: review.updated_at,
+  }));
+}
+
+/**
+ * 상품 리뷰 목록과 요약(평균 별점, 별점 분포)을 조회합니다.
+ * 로그인하지 않은 사용자도 조회할 수 있습니다.
+ *
+ * @param productId - 상품 ID
+ * @param page - 페이지 번호 (1부터)
+ * @returns 리뷰 요약, 리뷰 목록(최신순), 전체 리뷰 수
+ */
+export async function getProductReviews(
+  productId: string,
+  page: number = 1
+): Promise<ProductReviewsResult> {
+  console.group("⭐ [getProductReviews] 상품 리뷰 조회 시작");
+  console.log("상품 ID:", productId, "페이지:", page);
+
+  const supabase = createClerkSupabaseClient();
+
+  // 1. 리뷰 요약 조회
+  const { data: summaryData, error: summaryError } = await supabase.rpc(
+    "get_product_review_summary",
+    { p_product_id: productId }
+  );
+
+  if (summaryError) {
+    console.error("❌ 리뷰 요약 조회 실패:", summaryError);
+    console.groupEnd();
+    throw new Error(`리뷰 조회에 실패했습니다: ${summaryError.message}`);
+  }
+
+  const summary: ReviewSummary = {
+    count: Number(summaryData?.count ?? 0),
+    average: Number(summaryData?.average ?? 0),
+    histogram: {
+      1: Number(summaryData?.histogram?.["1"] ?? 0),
+      2: Number(summaryData?.histogram?.["2"] ?? 0),
+      3: Number(summaryData?.histogram?.["3"] ?? 0),
+      4: Number(summaryData?.histogram?.["4"] ?? 0),
+      5: Number(summaryData?.histogram?.["5"] ?? 0),
+    },
+  };
+
+  // 2. 리뷰 목록 조회 (최신순)
+  const from = (Math.max(1, page) - 1) * REVIEWS_PAGE_SIZE;
+  const { data, error, count } = await supabase
+    .from("reviews")
+    .select("*", { count: "exact" })
+    .eq("product_id", productId)
+    .order("created_at", { ascending: false })
+    .range(from, from + REVIEWS_PAGE_SIZE - 1);
+
+  if (error) {
+    console.error("❌ 리뷰 목록 조회 실패:", error);
+    console.groupEnd();
+    throw new Error(`리뷰 조회에 실패했습니다: ${error.message}`);
+  }
+
+  // 3. 리뷰 사진 URL 생성
+  const reviews = await signReviewPhotos((data ?? []) as Review[]);
+
+  console.log(`✅ 리뷰 조회 완료: ${reviews.length}개 (전체 ${count ?? 0}개, 평균 ${summary.average})`);
+  console.groupEnd();
+
+  return { summary, reviews, totalCount: count ?? 0 };
+}
+
+/**
+ * 주문에 작성한 내 리뷰를 조회합니다.
+ *
+ * @param orderId - 주문 ID
+ * @returns 상품 ID → 리뷰 (작성하지 않은 상품은 없음)
+ * @throws 로그인하지 않은 경우 에러
+ */
+export async function getOrderReviews(orderId: string): Promise<Record<string, Review>> {
+  console.group("⭐ [getOrderReviews] 주문 리뷰 조회 시작");
+  console.log("주문 ID:", orderId);
+
+  // 1. 로그인 확인
+  const { userId } = await auth();
+  if (!userId) {
+    console.error("❌ 로그인하지 않은 사용자");
+    console.groupEnd();
+    throw new Error("로그인이 필요합니다.");
+  }
+
+  // 2. 본인이 작성한 리뷰 조회
+  const supabase = createClerkSupabaseClient();
+  const { data, error } = await supabase
+    .from("reviews")
+    .select("*")
+    .eq("order_id", orderId)
+    .eq("clerk_id", userId);
+
+  if (error) {
+    console.error("❌ 주문 리뷰 조회 실패:", error);
+    console.groupEnd();
+    throw new Error(`리뷰 조회에 실패했습니다: ${error.message}`);
+  }
+
+  console.log(`✅ 주문 리뷰 조회 완료: ${data?.length ?? 0}개`);
+  console.groupEnd();
+
+  return Object.fromEntries(
+    ((data ?? []) as Review[]).map((review) => [review.product_id, review])
+  );
+}
+
+/**
+ * 리뷰를 작성합니다.
+ * 배송 완료된 본인 주문에 포함된 상품만 작성할 수 있고, 주문 1건의 상품 1개당 리뷰 1개입니다.
+ * (reviews 테이블 RLS 정책에서도 같은 조건을 검증)
+ *
+ * @param data - 리뷰 작성 데이터 (orderId, productId, rating, content, photoPaths)
+ * @throws 로그인하지 않은 경우, 입력값이 잘못된 경우, 배송 완료 전 주문인 경우, 이미 작성한 경우 에러
+ */
+export async function createReview(data: CreateReviewData): Promise<void> {
+  console.group("⭐ [createReview] 리뷰 작성 시작");
+  console.log("주문 ID:", data.orderId, "상품 ID:", data.productId);
+
+  // 1. 로그인 확인
+  const { userId } = await auth();
+  if (!userId) {
+    console.error("❌ 로그인하지 않은 사용자");
+    console.groupEnd();
+    throw new Error("로그인이 필요합니다.");
+  }
+
+  // 2. 입력값 검증
+  const content = data.content.trim();
+  if (!Number.isInteger(data.rating) || data.rating < 1 || data.rating > 5) {
+    console.error("❌ 잘못된 별점:", data.rating);
+    console.groupEnd();
+    throw new Error("별점을 선택해주세요.");
+  }
+  if (
+    content.length < REVIEW_CONTENT_MIN_LENGTH ||
+    content.length > REVIEW_CONTENT_MAX_LENGTH
+  ) {
+    console.error("❌ 잘못된 리뷰 길이:", content.length);
+    console.groupEnd();
+    throw new Error(
+      `리뷰는 ${REVIEW_CONTENT_MIN_LENGTH}자 이상 ${REVIEW_CONTENT_MAX_LENGTH}자 이하로 작성해주세요.`
+    );
+  }
+  if (
+    data.photoPaths.length > REVIEW_MAX_PHOTOS ||
+    data.photoPaths.some((path) => !isReviewPhotoPath(userId, path))
+  ) {
+    console.error("❌ 잘못된 리뷰 사진:", data.photoPaths);
+    console.groupEnd();
+    throw new Error(`사진은 최대 ${REVIEW_MAX_PHOTOS}장까지 첨부할 수 있습니다.`);
+  }
+
+  const supabase = createClerkSupabaseClient();
+
+  // 3. 주문 확인 (본인 주문, 배송 완료, 상품 포함)
+  const { data: order, error: orderError } = await supabase
+    .from("orders")
+    .select("id, status, order_items(product_id)")
+    .eq("id", data.orderId)
+    .eq("clerk_id", userId)
+    .single();
+
+  if (orderError || !order) {
+    console.error("❌ 주문 조회 실패:", orderError);
+    console.groupEnd();
+    throw new Error("주문을 찾을 수 없습니다.");
+  }
+
+  if (order.status !== "delivered") {
+    console.error("❌ 배송 완료 전 주문:", order.status);
+    console.groupEnd();
+    throw new Error("배송이 완료된 주문만 리뷰를 작성할 수 있습니다.");
+  }
+
+  const orderItems = (order.order_items ?? []) as { product_id: string }[];
+  if (!orderItems.some((item) => item.product_id === data.productId)) {
+    console.error("❌ 주문에 없는 상품:", data.productId);
+    console.groupEnd();
+    throw new Error("주문한 상품만 리뷰를 작성할 수 있습니다.");
+  }
+
+  // 4. 작성자 이름 조회 (작성 시점 스냅샷)
+  const { data: user } = await supabase
+    .from("users")
+    .select("name")
+    .eq("clerk_id", userId)
+    .maybeSingle();
+
+  // 5. 리뷰 저장 (RLS: 배송 완료된 본인 주문의 상품만)
+  const { error: insertError } = await supabase.from("reviews").insert({
+    product_id: data.productId,
+    order_id: data.orderId,
+    clerk_id: userId,
+    author_name: user?.name ?? "",
+    rating: data.rating,
+    content,
+    photo_paths: data.photoPaths,
+  });
+
+  if (insertError) {
+    console.error("❌ 리뷰 저장 실패:", insertError);
+    console.groupEnd();
+    if (insertError.code === "23505") {
+      throw new Error("이미 리뷰를 작성한 상품입니다.");
+    }
+    throw new Error(`리뷰 작성에 실패했습니다: ${insertError.message}`);
+  }
+
+  // 6. 캐시 무효화 (상품 평균 별점이 바뀌므로 상품 목록 포함)
+  revalidatePath(`/my/orders/${data.orderId}`);
+  revalidatePath(`/products/${data.productId}`);
+  revalidatePath("/products");
+  revalidatePath("/");
+
+  console.log("✅ 리뷰 작성 완료");
+  console.groupEnd();
+}
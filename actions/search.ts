@@ -0,0 +1,183 @@
+/**
+ * @file actions/search.ts
+ * @description 상품 검색 Server Actions
+ *
+ * 고객용 상품 검색과 Navbar 자동완성 제안을 조회하는 Server Actions입니다.
+ * 검색과 순위 계산은 search_products 함수(한글 n-gram 인덱스)에서 처리합니다.
+ *
+ * 주요 기능:
+ * 1. searchProducts: 상품 검색 (상품명 / 설명 / 카테고리, 순위순, 페이지네이션)
+ * 2. getSearchSuggestions: 검색 자동완성 제안 (카테고리 + 상위 상품)
+ *
+ * @dependencies
+ * - lib/supabase/server.ts: Supabase 클라이언트
+ * - lib/search.ts: 검색어 정규화
+ * - lib/categories.ts: 카테고리 이름 검색
+ * - types/search.ts: 검색 결과 / 자동완성 타입
+ */
+
+"use server";
+
+import { createClerkSupabaseClient } from "@/lib/supabase/server";
+import { normalizeSearchQuery } from "@/lib/search";
+import { findCategoriesByKeyword, getCategoryLabel } from "@/lib/categories";
+import type { Product } from "@/types/product";
+import type { ProductSearchResult, SearchSuggestion } from "@/types/search";
+
+/**
+ * 자동완성 상품 제안 개수
+ */
+const SUGGESTION_PRODUCT_LIMIT = 6;
+
+/**
+ * 자동완성 카테고리 제안 개수
+ */
+const SUGGESTION_CATEGORY_LIMIT = 2;
+
+/**
+ * search_products 함수 결과 행
+ */
+interface SearchProductsRow {
+  product_id: string;
+  search_rank: number;
+  total_count: number;
+}
+
+/**
+ * search_products 함수를 호출하고 검색 순위순 상품 목록을 반환합니다.
+ *
+ * @param query - 정규화된 검색어
+ * @param limit - 가져올 개수
+ * @param offset - 건너뛸 개수
+ * @returns 검색 순위순 상품 목록과 전체 검색 결과 수
+ */
+async function runProductSearch(
+  query: string,
+  limit: number,
+  offset: number
+): Promise<{ products: Product[]; totalCount: number }> {
+  const supabase = createClerkSupabaseClient();
+
+  // 1. 검색 (순위순 상품 ID)
+  const { data: rows, error } = await supabase.rpc("search_products", {
+    p_query: query,
+    p_limit: limit,
+    p_offset: offset,
+  });
+
+  if (error) {
+    console.error("❌ 상품 검색 실패:", error);
+    throw new Error(`상품 검색에 실패했습니다: ${error.message}`);
+  }
+
+  const searchRows = (rows ?? []) as SearchProductsRow[];
+  if (searchRows.length === 0) {
+    return { products: [], totalCount: 0 };
+  }
+
+  // 2. 상품 정보 조회 후 검색 순위순으로 정렬
+  const { data: products, error: productsError } = await supabase
+    .from("products")
+    .select("*")
+    .in(
+      "id",
+      searchRows.map((row) => row.product_id)
+    );
+
+  if (productsError) {
+    console.error("❌ 검색 상품 조회 실패:", productsError);
+    throw new Error(`상품 검색에 실패했습니다: ${productsError.message}`);
+  }
+
+  const productsById = new Map(
+    ((products ?? []) as Product[]).map((product) => [product.id, product])
+  );
+
+  return {
+    products: searchRows
+      .map((row) => productsById.get(row.product_id))
+      .filter((product): product is Product => !!product),
+    totalCount: Number(searchRows[0].total_count),
+  };
+}
+
+/**
+ * 상품을 검색합니다.
+ * 상품명 / 설명 / 카테고리(한글 이름 포함)에서 검색하며, 띄어쓰기가 달라도 검색됩니다.
+ *
+ * @param query - 검색어
+ * @param page - 페이지 번호 (1부터)
+ * @param pageSize - 페이지당 상품 수
+ * @returns 검색 결과 (검색어가 비어 있으면 빈 결과)
+ * @throws 검색에 실패한 경우 에러
+ */
+export async function searchProducts(
+  query: string,
+  page: number = 1,
+  pageSize: number = 12
+): Promise<ProductSearchResult> {
+  console.group("🔍 [searchProducts] 상품 검색 시작");
+
+  // 1. 검색어 정규화
+  const normalizedQuery = normalizeSearchQuery(query);
+  console.log("검색어:", normalizedQuery, "페이지:", page);
+
+  if (!normalizedQuery) {
+    console.log("⚠️ 검색어가 비어있음");
+    console.groupEnd();
+    return { query: normalizedQuery, products: [], totalCount: 0 };
+  }
+
+  // 2. 검색
+  const { products, totalCount } = await runProductSearch(
+    normalizedQuery,
+    pageSize,
+    (Math.max(1, page) - 1) * pageSize
+  );
+
+  console.log(`✅ 상품 검색 완료: ${products.length}개 (전체 ${totalCount}개)`);
+  console.groupEnd();
+  return { query: normalizedQuery, products, totalCount };
+}
+
+/**
+ * 검색 자동완성 제안을 조회합니다.
+ * 검색어가 이름에 포함된 카테고리와 검색 순위 상위 상품을 반환합니다.
+ *
+ * @param query - 입력 중인 검색어
+ * @returns 자동완성 제안 목록 (카테고리 → 상품 순)
+ */
+export async function getSearchSuggestions(
+  query: string
+): Promise<SearchSuggestion[]> {
+  const normalizedQuery = normalizeSearchQuery(query);
+  if (!normalizedQuery) {
+    return [];
+  }
+
+  // 1. 카테고리 제안
+  const categorySuggestions: SearchSuggestion[] = findCategoriesByKeyword(normalizedQuery)
+    .slice(0, SUGGESTION_CATEGORY_LIMIT)
+    .map((category) => ({
+      type: "category",
+      label: getCategoryLabel(category),
+      href: `/products?category=${encodeURIComponent(category)}`,
+    }));
+
+  // 2. 상품 제안 (검색 순위 상위)
+  try {
+    const { products } = await runProductSearch(normalizedQuery, SUGGESTION_PRODUCT_LIMIT, 0);
+
+    return [
+      ...categorySuggestions,
+      ...products.map<SearchSuggestion>((product) => ({
+        type: "product",
+        label: product.name,
+        href: `/products/${product.id}`,
+      })),
+    ];
+  } catch (error) {
+    console.error("❌ 검색 자동완성 조회 실패:", error);
+    return categorySuggestions;
+  }
+}
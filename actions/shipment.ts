@@ -0,0 +1,98 @@
+/**
+ * @file actions/shipment.ts
+ * @description 배송 조회 Server Actions
+ *
+ * 사용자가 본인 주문의 배송 현황을 조회하는 Server Actions입니다.
+ *
+ * 주요 기능:
+ * 1. getOrderShipmentTracking: 주문에 등록된 송장으로 택배사 배송 조회
+ *
+ * @dependencies
+ * - @clerk/nextjs/server: Clerk 인증 (auth)
+ * - lib/supabase/server.ts: Supabase 클라이언트
+ * - lib/couriers: 택배사 조회 어댑터, 택배사 정보
+ * - types/shipment.ts: 배송 조회 타입 정의
+ */
+
+"use server";
+
+import { auth } from "@clerk/nextjs/server";
+import { createClerkSupabaseClient } from "@/lib/supabase/server";
+import { getCourierAdapter } from "@/lib/couriers";
+import {
+  getCourierName,
+  getCourierTrackingUrl,
+  isCourierCode,
+} from "@/lib/couriers/carriers";
+import type { ShipmentTracking } from "@/types/shipment";
+
+/**
+ * 주문의 배송 현황을 조회합니다.
+ *
+ * @param orderId - 주문 ID
+ * @returns 배송 조회 결과 (송장이 등록되지 않은 경우 null)
+ * @throws 로그인하지 않은 경우, 본인의 주문이 아닌 경우, 택배사 조회에 실패한 경우 에러
+ */
+export async function getOrderShipmentTracking(
+  orderId: string
+): Promise<ShipmentTracking | null> {
+  console.group("📦 [getOrderShipmentTracking] 배송 조회 시작");
+  console.log("주문 ID:", orderId);
+
+  // 1. 로그인 확인
+  const { userId } = await auth();
+  if (!userId) {
+    console.error("❌ 로그인하지 않은 사용자");
+    console.groupEnd();
+    throw new Error("로그인이 필요합니다.");
+  }
+
+  const supabase = createClerkSupabaseClient();
+
+  // 2. 주문 조회 (본인의 주문인지 확인)
+  const { data: order, error: orderError } = await supabase
+    .from("orders")
+    .select("id, carrier, tracking_number, shipped_at")
+    .eq("id", orderId)
+    .eq("clerk_id", userId)
+    .single();
+
+  if (orderError || !order) {
+    console.error("❌ 주문 조회 실패:", orderError);
+    console.groupEnd();
+    throw new Error("주문을 찾을 수 없습니다.");
+  }
+
+  // 3. 송장 등록 여부 확인
+  if (!order.carrier || !order.tracking_number || !isCourierCode(order.carrier)) {
+    console.log("⚠️ 송장이 등록되지 않은 주문");
+    console.groupEnd();
+    return null;
+  }
+
+  // 4. 택배사 배송 조회
+  let events;
+  try {
+    events = await getCourierAdapter().trackShipment({
+      carrier: order.carrier,
+      trackingNumber: order.tracking_number,
+      shippedAt: order.shipped_at,
+    });
+  } catch (error) {
+    console.error("❌ 택배사 배송 조회 실패:", error);
+    console.groupEnd();
+    throw error;
+  }
+
+  console.log(`✅ 배송 조회 완료: ${events.length}건`);
+  console.groupEnd();
+
+  return {
+    carrier: order.carrier,
+    carrierName: getCourierName(order.carrier),
+    trackingNumber: order.tracking_number,
+    trackingUrl: getCourierTrackingUrl(order.carrier, order.tracking_number),
+    events,
+    isDelivered: events.some((event) => event.status === "delivered"),
+  };
+}
@@ -0,0 +1,266 @@
+/**
+ * @file actions/wishlist.ts
+ * @description 찜하기(위시리스트) Server Actions
+ *
+ * 로그인 사용자가 장바구니에 담지 않고 상품을 저장(찜)하는 Server Actions입니다.
+ *
+ * 주요 기능:
+ * 1. getWishlistProductIds: 찜한 상품 ID 목록 조회 (찜하기 버튼 상태 표시용)
+ * 2. getWishlistItems: 찜한 상품 목록 조회 (상품 정보 포함)
+ * 3. toggleWishlist: 찜하기 / 찜 해제
+ * 4. removeWishlistItem: 찜 해제
+ * 5. moveWishlistItemToCart: 찜한 상품을 장바구니로 이동
+ *
+ * @dependencies
+ * - @clerk/nextjs/server: Clerk 인증 (auth)
+ * - lib/supabase/server.ts: Supabase 클라이언트
+ * - actions/cart.ts: addToCart (장바구니로 이동)
+ * - types/wishlist.ts: Wishlist 타입 정의
+ */
+
+"use server";
+
+import { auth } from "@clerk/nextjs/server";
+import { revalidatePath } from "next/cache";
+import { createClerkSupabaseClient } from "@/lib/supabase/server";
+import { addToCart } from "@/actions/cart";
+import type { WishlistItemWithProduct } from "@/types/wishlist";
+
+/**
+ * 현재 사용자가 찜한 상품 ID 목록을 조회합니다.
+ * 찜하기 버튼 상태 표시용입니다. 로그인하지 않은 경우 빈 배열을 반환합니다.
+ *
+ * @returns 찜한 상품 ID 목록
+ */
+export async function getWishlistProductIds(): Promise<string[]> {
+  // 로그인 확인 (로그인하지 않은 경우 찜한 상품 없음)
+  const { userId } = await auth();
+  if (!userId) {
+    return [];
+  }
+
+  const supabase = createClerkSupabaseClient();
+
+  const { data, error } = await supabase
+    .from("wishlists")
+    .select("product_id")
+    .eq("clerk_id", userId);
+
+  if (error) {
+    console.error("❌ 찜한 상품 ID 조회 실패:", error);
+    return [];
+  }
+
+  return (data ?? []).map((item) => item.product_id);
+}
+
+/**
+ * 현재 사용자가 찜한 상품 목록을 조회합니다 (최근 찜한 순).
+ *
+ * @returns 찜한 상품 목록 (상품 정보 포함)
+ * @throws 로그인하지 않은 경우 에러
+ */
+export async function getWishlistItems(): Promise<WishlistItemWithProduct[]> {
+  console.group("💝 [getWishlistItems] 찜한 상품 조회 시작");
+
+  // 1. 로그인 확인
+  const { userId } = await auth();
+  if (!userId) {
+    console.error("❌ 로그인하지 않은 사용자");
+    console.groupEnd();
+    throw new Error("로그인이 필요합니다.");
+  }
+
+  const supabase = createClerkSupabaseClient();
+
+  // 2. 찜한 상품 조회 (상품 정보, 옵션 조합 수 JOIN)
+  const { data: wishlistItems, error } = await supabase
+    .from("wishlists")
+    .select(
+      `
+      *,
+      product:products(*, product_variants(count))
+    `
+    )
+    .eq("clerk_id", userId)
+    .order("created_at", { ascending: false });
+
+  if (error) {
+    console.error("❌ 찜한 상품 조회 실패:", error);
+    console.groupEnd();
+    throw new Error(`찜한 상품 조회에 실패했습니다: ${error.message}`);
+  }
+
+  // 3. 타입 변환
+  const items: WishlistItemWithProduct[] = (wishlistItems ?? [])
+    .filter((item: any) => item.product)
+    .map((item: any) => {
+      const { product_variants: variantCount, ...product } = item.product;
+      return {
+        id: item.id,
+        clerk_id: item.clerk_id,
+        product_id: item.product_id,
+        created_at: item.created_at,
+        product,
+        has_variants: (variantCount?.[0]?.count ?? 0) > 0,
+      };
+    });
+
+  console.log(`✅ 찜한 상품 조회 완료: ${items.length}개`);
+  console.groupEnd();
+  return items;
+}
+
+/**
+ * 상품을 찜하거나 찜을 해제합니다.
+ *
+ * @param productId - 상품 ID
+ * @returns 찜 여부 (true: 찜함, false: 찜 해제)
+ * @throws 로그인하지 않은 경우, 상품을 찾을 수 없는 경우 에러
+ */
+export async function toggleWishlist(productId: string): Promise<boolean> {
+  console.group("💝 [toggleWishlist] 찜하기 시작");
+  console.log("상품 ID:", productId);
+
+  // 1. 로그인 확인
+  const { userId } = await auth();
+  if (!userId) {
+    console.error("❌ 로그인하지 않은 사용자");
+    console.groupEnd();
+    throw new Error("로그인이 필요합니다.");
+  }
+
+  const supabase = createClerkSupabaseClient();
+
+  // 2. 이미 찜한 상품이면 찜 해제
+  const { data: deleted, error: deleteError } = await supabase
+    .from("wishlists")
+    .delete()
+    .eq("clerk_id", userId)
+    .eq("product_id", productId)
+    .select("id");
+
+  if (deleteError) {
+    console.error("❌ 찜 해제 실패:", deleteError);
+    console.groupEnd();
+    throw new Error(`찜 해제에 실패했습니다: ${deleteError.message}`);
+  }
+
+  if (deleted && deleted.length > 0) {
+    revalidatePath("/my/wishlist");
+    console.log("✅ 찜 해제 완료");
+    console.groupEnd();
+    return false;
+  }
+
+  // 3. 찜하기 (동시에 두 번 눌러도 중복 없음)
+  const { error: insertError } = await supabase
+    .from("wishlists")
+    .upsert(
+      { clerk_id: userId, product_id: productId },
+      { onConflict: "clerk_id,product_id", ignoreDuplicates: true }
+    );
+
+  if (insertError) {
+    console.error("❌ 찜하기 실패:", insertError);
+    console.groupEnd();
+    if (insertError.code === "23503") {
+      throw new Error("상품을 찾을 수 없습니다.");
+    }
+    throw new Error(`찜하기에 실패했습니다: ${insertError.message}`);
+  }
+
+  revalidatePath("/my/wishlist");
+
+  console.log("✅ 찜하기 완료");
+  console.groupEnd();
+  return true;
+}
+
+/**
+ * 찜한 상품을 찜 목록에서 삭제합니다.
+ *
+ * @param productId - 상품 ID
+ * @throws 로그인하지 않은 경우, 삭제 실패 시 에러
+ */
+export async function removeWishlistItem(productId: string): Promise<void> {
+  console.group("💝 [removeWishlistItem] 찜 해제 시작");
+  console.log("상품 ID:", productId);
+
+  // 1. 로그인 확인
+  const { userId } = await auth();
+  if (!userId) {
+    console.error("❌ 로그인하지 않은 사용자");
+    console.groupEnd();
+    throw new Error("로그인이 필요합니다.");
+  }
+
+  const supabase = createClerkSupabaseClient();
+
+  // 2. 본인의 찜한 상품 삭제
+  const { error } = await supabase
+    .from("wishlists")
+    .delete()
+    .eq("clerk_id", userId)
+    .eq("product_id", productId);
+
+  if (error) {
+    console.error("❌ 찜 해제 실패:", error);
+    console.groupEnd();
+    throw new Error(`찜 해제에 실패했습니다: ${error.message}`);
+  }
+
+  revalidatePath("/my/wishlist");
+
+  console.log("✅ 찜 해제 완료");
+  console.groupEnd();
+}
+
+/**
+ * 찜한 상품을 장바구니로 이동합니다 (수량 1개).
+ * 장바구니에 추가한 뒤 찜 목록에서 삭제합니다.
+ * 옵션 조합이 있는 상품은 상품 상세 페이지에서 옵션을 선택해야 하므로 이동할 수 없습니다.
+ *
+ * @param productId - 상품 ID
+ * @throws 로그인하지 않은 경우, 옵션 선택이 필요한 경우, 품절 / 판매 중지 상품인 경우 에러
+ */
+export async function moveWishlistItemToCart(productId: string): Promise<void> {
+  console.group("💝 [moveWishlistItemToCart] 장바구니로 이동 시작");
+  console.log("상품 ID:", productId);
+
+  // 1. 로그인 확인
+  const { userId } = await auth();
+  if (!userId) {
+    console.error("❌ 로그인하지 않은 사용자");
+    console.groupEnd();
+    throw new Error("로그인이 필요합니다.");
+  }
+
+  // 2. 장바구니 추가 (재고 / 판매 상태 / 옵션 조합 확인은 addToCart에서 처리)
+  try {
+    await addToCart({ productId, quantity: 1 });
+  } catch (error) {
+    console.error("❌ 장바구니 추가 실패:", error);
+    console.groupEnd();
+    throw error;
+  }
+
+  // 3. 찜 목록에서 삭제
+  const supabase = createClerkSupabaseClient();
+  const { error } = await supabase
+    .from("wishlists")
+    .delete()
+    .eq("clerk_id", userId)
+    .eq("product_id", productId);
+
+  if (error) {
+    // 장바구니에는 추가되었으므로 찜 목록 삭제 실패는 경고만 남김
+    console.warn("⚠️ 찜 목록 삭제 실패 (장바구니에는 추가됨):", error);
+  }
+
+  revalidatePath("/my/wishlist");
+  revalidatePath("/cart");
+
+  console.log("✅ 장바구니로 이동 완료");
+  console.groupEnd();
+}
@@ -0,0 +1,47 @@
+/**
+ * @file app/admin/banners/[id]/edit/page.tsx
+ * @description 배너 수정 페이지
+ *
+ * 관리자가 기존 홈 배너 정보를 수정하는 페이지입니다.
+ *
+ * @dependencies
+ * - components/admin/banner-form.tsx: 배너 수정 폼
+ * - actions/admin/banners.ts: 배너 / 연결 상품 조회
+ */
+
+import { redirect } from "next/navigation";
+import { BannerForm } from "@/components/admin/banner-form";
+import { getBannerById, getBannerProducts } from "@/actions/admin/banners";
+
+interface EditBannerPageProps {
+  params: Promise<{
+    id: string;
+  }>;
+}
+
+export default async function EditBannerPage({ params }: EditBannerPageProps) {
+  const { id } = await params;
+
+  // 배너 정보 불러오기
+  const banner = await getBannerById(id);
+
+  // 배너가 없으면 목록으로 리다이렉트
+  if (!banner) {
+    redirect("/admin/banners");
+  }
+
+  const products = await getBannerProducts(banner.product_ids);
+
+  return (
+    <div>
+      <div className="mb-6">
+        <h1 className="text-3xl font-bold">배너 수정</h1>
+        <p className="mt-2 text-muted-foreground">
+          배너 정보를 수정합니다. 저장하면 홈 화면에 바로 반영됩니다.
+        </p>
+      </div>
+
+      <BannerForm banner={banner} products={products} />
+    </div>
+  );
+}
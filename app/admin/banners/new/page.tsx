@@ -0,0 +1,26 @@
+/**
+ * @file app/admin/banners/new/page.tsx
+ * @description 배너 등록 페이지
+ *
+ * 관리자가 새 홈 배너를 등록하는 페이지입니다.
+ *
+ * @dependencies
+ * - components/admin/banner-form.tsx: 배너 등록 폼
+ */
+
+import { BannerForm } from "@/components/admin/banner-form";
+
+export default function NewBannerPage() {
+  return (
+    <div>
+      <div className="mb-6">
+        <h1 className="text-3xl font-bold">새 배너 등록</h1>
+        <p className="mt-2 text-muted-foreground">
+          배너 이미지와 설명을 입력하고 등록합니다. 새 배너는 목록 맨 뒤에 추가됩니다.
+        </p>
+      </div>
+
+      <BannerForm />
+    </div>
+  );
+}
@@ -0,0 +1,41 @@
+/**
+ * @file app/admin/banners/page.tsx
+ * @description 배너 관리 페이지
+ *
+ * 관리자용 홈 배너 목록을 표시합니다.
+ *
+ * 주요 기능:
+ * 1. 배너 목록 표시 (이미지, 연결 상품 수, 노출 기간, 상태)
+ * 2. 노출 순서 변경
+ * 3. 배너 수정/삭제 링크
+ *
+ * @dependencies
+ * - components/admin/banner-list.tsx: 배너 목록 컴포넌트
+ */
+
+import { Suspense } from "react";
+import Link from "next/link";
+import { Button } from "@/components/ui/button";
+import { BannerList } from "@/components/admin/banner-list";
+
+export default function AdminBannersPage() {
+  return (
+    <div>
+      <div className="mb-6 flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold">배너 관리</h1>
+          <p className="mt-2 text-muted-foreground">
+            홈 화면의 브랜드 배너를 등록하고 노출 순서와 기간을 관리할 수 있습니다.
+          </p>
+        </div>
+        <Link href="/admin/banners/new">
+          <Button>새 배너 등록</Button>
+        </Link>
+      </div>
+
+      <Suspense fallback={<div>배너 목록을 불러오는 중...</div>}>
+        <BannerList />
+      </Suspense>
+    </div>
+  );
+}
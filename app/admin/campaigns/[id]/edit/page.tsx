@@ -0,0 +1,53 @@
+/**
+ * @file app/admin/campaigns/[id]/edit/page.tsx
+ * @description 캠페인 수정 페이지
+ *
+ * 관리자가 캠페인 정보를 수정하고 적용 상품을 관리하는 페이지입니다.
+ *
+ * @dependencies
+ * - components/admin/campaign-form.tsx: 캠페인 수정 폼
+ * - components/admin/campaign-products-manager.tsx: 적용 상품 관리
+ * - actions/admin/campaigns.ts: 캠페인 / 적용 상품 조회
+ */
+
+import { redirect } from "next/navigation";
+import { CampaignForm } from "@/components/admin/campaign-form";
+import { CampaignProductsManager } from "@/components/admin/campaign-products-manager";
+import { getCampaignById, getCampaignProducts } from "@/actions/admin/campaigns";
+
+interface EditCampaignPageProps {
+  params: Promise<{
+    id: string;
+  }>;
+}
+
+export default async function EditCampaignPage({ params }: EditCampaignPageProps) {
+  const { id } = await params;
+
+  // 캠페인 정보 불러오기
+  const campaign = await getCampaignById(id);
+
+  // 캠페인이 없으면 목록으로 리다이렉트
+  if (!campaign) {
+    redirect("/admin/campaigns");
+  }
+
+  const products = await getCampaignProducts(id);
+
+  return (
+    <div className="space-y-12">
+      <div>
+        <div className="mb-6">
+          <h1 className="text-3xl font-bold">캠페인 수정</h1>
+          <p className="mt-2 text-muted-foreground">
+            기간이나 할인 규칙을 수정하면 적용 상품의 할인가와 특가 기간에 바로 반영됩니다.
+          </p>
+        </div>
+
+        <CampaignForm campaign={campaign} />
+      </div>
+
+      <CampaignProductsManager campaign={campaign} products={products} />
+    </div>
+  );
+}
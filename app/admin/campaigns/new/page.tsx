@@ -0,0 +1,26 @@
+/**
+ * @file app/admin/campaigns/new/page.tsx
+ * @description 캠페인 등록 페이지
+ *
+ * 관리자가 새 프로모션 캠페인을 등록하는 페이지입니다.
+ *
+ * @dependencies
+ * - components/admin/campaign-form.tsx: 캠페인 등록 폼
+ */
+
+import { CampaignForm } from "@/components/admin/campaign-form";
+
+export default function NewCampaignPage() {
+  return (
+    <div>
+      <div className="mb-6">
+        <h1 className="text-3xl font-bold">새 캠페인 등록</h1>
+        <p className="mt-2 text-muted-foreground">
+          캠페인 기간과 할인 규칙을 입력하고 등록합니다. 등록 후 적용할 상품을 추가할 수 있습니다.
+        </p>
+      </div>
+
+      <CampaignForm />
+    </div>
+  );
+}
@@ -0,0 +1,41 @@
+/**
+ * @file app/admin/campaigns/page.tsx
+ * @description 캠페인 관리 페이지
+ *
+ * 관리자용 프로모션 캠페인 목록을 표시합니다.
+ *
+ * 주요 기능:
+ * 1. 캠페인 목록 표시 (할인 규칙, 대상 카테고리, 기간, 적용 상품 수, 상태)
+ * 2. 검색 기능
+ * 3. 캠페인 수정/삭제 링크
+ *
+ * @dependencies
+ * - components/admin/campaign-list.tsx: 캠페인 목록 컴포넌트
+ */
+
+import { Suspense } from "react";
+import Link from "next/link";
+import { Button } from "@/components/ui/button";
+import { CampaignList } from "@/components/admin/campaign-list";
+
+export default function AdminCampaignsPage() {
+  return (
+    <div>
+      <div className="mb-6 flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold">캠페인 관리</h1>
+          <p className="mt-2 text-muted-foreground">
+            기간과 할인 규칙을 정해 여러 상품에 특가를 일괄 적용하고 홈 배너를 노출할 수 있습니다.
+          </p>
+        </div>
+        <Link href="/admin/campaigns/new">
+          <Button>새 캠페인 등록</Button>
+        </Link>
+      </div>
+
+      <Suspense fallback={<div>캠페인 목록을 불러오는 중...</div>}>
+        <CampaignList />
+      </Suspense>
+    </div>
+  );
+}
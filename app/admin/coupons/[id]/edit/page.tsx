@@ -0,0 +1,45 @@
+/**
+ * @file app/admin/coupons/[id]/edit/page.tsx
+ * @description 쿠폰 수정 페이지
+ *
+ * 관리자가 기존 쿠폰 정보를 수정하는 페이지입니다.
+ *
+ * @dependencies
+ * - components/admin/coupon-form.tsx: 쿠폰 수정 폼
+ * - actions/admin/coupons.ts: 쿠폰 데이터 조회
+ */
+
+import { redirect } from "next/navigation";
+import { CouponForm } from "@/components/admin/coupon-form";
+import { getCouponById } from "@/actions/admin/coupons";
+
+interface EditCouponPageProps {
+  params: Promise<{
+    id: string;
+  }>;
+}
+
+export default async function EditCouponPage({ params }: EditCouponPageProps) {
+  const { id } = await params;
+
+  // 쿠폰 정보 불러오기
+  const coupon = await getCouponById(id);
+
+  // 쿠폰이 없으면 목록으로 리다이렉트
+  if (!coupon) {
+    redirect("/admin/coupons");
+  }
+
+  return (
+    <div>
+      <div className="mb-6">
+        <h1 className="text-3xl font-bold">쿠폰 수정</h1>
+        <p className="mt-2 text-muted-foreground">
+          쿠폰 정보를 수정합니다. 이미 사용된 쿠폰의 주문 할인 금액은 변경되지 않습니다.
+        </p>
+      </div>
+
+      <CouponForm coupon={coupon} />
+    </div>
+  );
+}
@@ -0,0 +1,26 @@
+/**
+ * @file app/admin/coupons/new/page.tsx
+ * @description 쿠폰 등록 페이지
+ *
+ * 관리자가 새 쿠폰을 등록하는 페이지입니다.
+ *
+ * @dependencies
+ * - components/admin/coupon-form.tsx: 쿠폰 등록 폼
+ */
+
+import { CouponForm } from "@/components/admin/coupon-form";
+
+export default function NewCouponPage() {
+  return (
+    <div>
+      <div className="mb-6">
+        <h1 className="text-3xl font-bold">새 쿠폰 등록</h1>
+        <p className="mt-2 text-muted-foreground">
+          쿠폰 코드와 할인 조건을 입력하고 등록합니다.
+        </p>
+      </div>
+
+      <CouponForm />
+    </div>
+  );
+}
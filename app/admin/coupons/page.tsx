@@ -0,0 +1,41 @@
+/**
+ * @file app/admin/coupons/page.tsx
+ * @description 쿠폰 관리 페이지
+ *
+ * 관리자용 쿠폰 목록을 표시합니다.
+ *
+ * 주요 기능:
+ * 1. 쿠폰 목록 표시 (혜택, 사용 조건, 사용 기간, 사용 횟수)
+ * 2. 검색 기능
+ * 3. 쿠폰 수정/삭제 링크
+ *
+ * @dependencies
+ * - components/admin/coupon-list.tsx: 쿠폰 목록 컴포넌트
+ */
+
+import { Suspense } from "react";
+import Link from "next/link";
+import { Button } from "@/components/ui/button";
+import { CouponList } from "@/components/admin/coupon-list";
+
+export default function AdminCouponsPage() {
+  return (
+    <div>
+      <div className="mb-6 flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold">쿠폰 관리</h1>
+          <p className="mt-2 text-muted-foreground">
+            주문 시 사용할 수 있는 쿠폰을 등록, 수정, 삭제할 수 있습니다.
+          </p>
+        </div>
+        <Link href="/admin/coupons/new">
+          <Button>새 쿠폰 등록</Button>
+        </Link>
+      </div>
+
+      <Suspense fallback={<div>쿠폰 목록을 불러오는 중...</div>}>
+        <CouponList />
+      </Suspense>
+    </div>
+  );
+}
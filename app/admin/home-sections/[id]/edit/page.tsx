@@ -0,0 +1,52 @@
+/**
+ * @file app/admin/home-sections/[id]/edit/page.tsx
+ * @description 홈 섹션 수정 페이지
+ *
+ * 관리자가 기존 홈 상품 섹션을 수정하는 페이지입니다.
+ *
+ * @dependencies
+ * - components/admin/home-section-form.tsx: 섹션 수정 폼
+ * - actions/admin/home-sections.ts: 섹션 / 직접 선택 상품 조회
+ * - actions/admin/campaigns.ts: 캠페인 선택 옵션 조회
+ */
+
+import { redirect } from "next/navigation";
+import { HomeSectionForm } from "@/components/admin/home-section-form";
+import { getHomeSectionById, getHomeSectionProducts } from "@/actions/admin/home-sections";
+import { getAdminCampaigns } from "@/actions/admin/campaigns";
+
+interface EditHomeSectionPageProps {
+  params: Promise<{
+    id: string;
+  }>;
+}
+
+export default async function EditHomeSectionPage({ params }: EditHomeSectionPageProps) {
+  const { id } = await params;
+
+  // 섹션 정보 불러오기
+  const section = await getHomeSectionById(id);
+
+  // 섹션이 없으면 목록으로 리다이렉트
+  if (!section) {
+    redirect("/admin/home-sections");
+  }
+
+  const [products, campaigns] = await Promise.all([
+    getHomeSectionProducts(section.product_ids),
+    getAdminCampaigns(),
+  ]);
+
+  return (
+    <div>
+      <div className="mb-6">
+        <h1 className="text-3xl font-bold">섹션 수정</h1>
+        <p className="mt-2 text-muted-foreground">
+          섹션 구성을 수정합니다. 저장하면 홈 화면에 바로 반영됩니다.
+        </p>
+      </div>
+
+      <HomeSectionForm section={section} products={products} campaigns={campaigns} />
+    </div>
+  );
+}
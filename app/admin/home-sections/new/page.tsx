@@ -0,0 +1,30 @@
+/**
+ * @file app/admin/home-sections/new/page.tsx
+ * @description 홈 섹션 등록 페이지
+ *
+ * 관리자가 새 홈 상품 섹션을 등록하는 페이지입니다.
+ *
+ * @dependencies
+ * - components/admin/home-section-form.tsx: 섹션 등록 폼
+ * - actions/admin/campaigns.ts: 캠페인 선택 옵션 조회
+ */
+
+import { HomeSectionForm } from "@/components/admin/home-section-form";
+import { getAdminCampaigns } from "@/actions/admin/campaigns";
+
+export default async function NewHomeSectionPage() {
+  const campaigns = await getAdminCampaigns();
+
+  return (
+    <div>
+      <div className="mb-6">
+        <h1 className="text-3xl font-bold">새 섹션 등록</h1>
+        <p className="mt-2 text-muted-foreground">
+          섹션 제목과 표시할 상품을 선택하고 등록합니다. 새 섹션은 홈 맨 아래에 추가됩니다.
+        </p>
+      </div>
+
+      <HomeSectionForm campaigns={campaigns} />
+    </div>
+  );
+}
@@ -0,0 +1,41 @@
+/**
+ * @file app/admin/home-sections/page.tsx
+ * @description 홈 섹션 관리 페이지
+ *
+ * 관리자용 홈 상품 섹션 목록을 표시합니다.
+ *
+ * 주요 기능:
+ * 1. 섹션 목록 표시 (제목, 데이터 소스, 상품 수, 표시 여부)
+ * 2. 표시 순서 변경, 표시 / 숨김 전환
+ * 3. 섹션 수정/삭제 링크
+ *
+ * @dependencies
+ * - components/admin/home-section-list.tsx: 섹션 목록 컴포넌트
+ */
+
+import { Suspense } from "react";
+import Link from "next/link";
+import { Button } from "@/components/ui/button";
+import { HomeSectionList } from "@/components/admin/home-section-list";
+
+export default function AdminHomeSectionsPage() {
+  return (
+    <div>
+      <div className="mb-6 flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold">홈 섹션 관리</h1>
+          <p className="mt-2 text-muted-foreground">
+            홈 화면에 표시할 상품 섹션과 순서, 섹션별 상품 구성을 관리할 수 있습니다.
+          </p>
+        </div>
+        <Link href="/admin/home-sections/new">
+          <Button>새 섹션 등록</Button>
+        </Link>
+      </div>
+
+      <Suspense fallback={<div>섹션 목록을 불러오는 중...</div>}>
+        <HomeSectionList />
+      </Suspense>
+    </div>
+  );
+}
@@ -50,6 +50,21 @@ export default async function AdminLayout({
                 <Link href="/admin/products/new">
                   <Button variant="ghost">상품 등록</Button>
                 </Link>
+                <Link href="/admin/orders">
+                  <Button variant="ghost">주문 관리</Button>
+                </Link>
+                <Link href="/admin/coupons">
+                  <Button variant="ghost">쿠폰 관리</Button>
+                </Link>
+                <Link href="/admin/campaigns">
+                  <Button variant="ghost">캠페인 관리</Button>
+                </Link>
+                <Link href="/admin/banners">
+                  <Button variant="ghost">배너 관리</Button>
+                </Link>
+                <Link href="/admin/home-sections">
+                  <Button variant="ghost">홈 섹션 관리</Button>
+                </Link>
               </div>
             </div>
             <div className="flex items-center gap-4">
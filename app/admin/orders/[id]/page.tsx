@@ -0,0 +1,359 @@
+/**
+ * @file app/admin/orders/[id]/page.tsx
+ * @description 관리자 주문 상세 페이지
+ *
+ * 주문 정보와 주문 상품을 확인하고 주문 상태를 변경하는 페이지입니다.
+ *
+ * 주요 기능:
+ * 1. 주문 기본 정보 (주문 번호, 상태, 주문자, 결제 정보)
+ * 2. 주문 상품 목록
+ * 3. 배송 정보
+ * 4. 주문 상태 변경 (허용된 다음 상태만 표시)
+ * 5. 주문 상태 변경 이력 (변경 주체, 사유)
+ * 6. 택배사 / 송장 번호 등록 (주문 확인, 배송중 상태)
+ * 7. 반품/교환 신청 승인 / 거절 (반품 승인 시 환불 금액 기록, 재고 복구)
+ * 8. 환불 내역 (결제 취소 거래 키, 실패 사유) 및 실패한 환불 재시도
+ * 9. 환불 필요 (취소 / 반품 승인 후 환불 내역을 기록하지 못한 경우) 및 환불 요청
+ *
+ * @dependencies
+ * - actions/admin/orders.ts: 주문 상세 / 상태 이력 조회
+ * - actions/admin/claims.ts: 반품/교환 신청 조회
+ * - actions/admin/refunds.ts: 환불 내역 조회
+ * - components/admin/order-status-actions.tsx: 주문 상태 변경 버튼
+ * - components/admin/order-shipment-form.tsx: 송장 등록 폼
+ * - components/admin/order-claim-actions.tsx: 반품/교환 처리 버튼
+ * - components/admin/order-refund-retry-button.tsx: 환불 재시도 버튼
+ * - components/admin/order-refund-request-button.tsx: 환불 요청 버튼
+ * - components/my/order-claim-list.tsx: 반품/교환 신청 내역
+ * - components/my/order-refund-list.tsx: 환불 내역
+ * - components/my/order-status-badge.tsx: 주문 상태 배지
+ * - components/my/order-status-timeline.tsx: 주문 상태 이력 타임라인
+ */
+
+import Link from "next/link";
+import { redirect } from "next/navigation";
+import { Button } from "@/components/ui/button";
+import { getAdminOrder, getAdminOrderStatusHistory } from "@/actions/admin/orders";
+import { getAdminOrderClaims } from "@/actions/admin/claims";
+import { getAdminOrderRefunds } from "@/actions/admin/refunds";
+import { OrderStatusActions } from "@/components/admin/order-status-actions";
+import { OrderShipmentForm } from "@/components/admin/order-shipment-form";
+import { OrderClaimActions } from "@/components/admin/order-claim-actions";
+import { OrderRefundRetryButton } from "@/components/admin/order-refund-retry-button";
+import { OrderRefundRequestButton } from "@/components/admin/order-refund-request-button";
+import { OrderClaimList } from "@/components/my/order-claim-list";
+import { OrderRefundList } from "@/components/my/order-refund-list";
+import { OrderStatusBadge } from "@/components/my/order-status-badge";
+import { OrderStatusTimeline } from "@/components/my/order-status-timeline";
+import { getCourierName, getCourierTrackingUrl } from "@/lib/couriers/carriers";
+import { formatOrderDate, formatPrice } from "@/utils/order";
+
+interface AdminOrderDetailPageProps {
+  params: Promise<{
+    id: string;
+  }>;
+}
+
+export default async function AdminOrderDetailPage({
+  params,
+}: AdminOrderDetailPageProps) {
+  const { id } = await params;
+
+  // 주문 정보 불러오기
+  const order = await getAdminOrder(id);
+
+  // 주문이 없으면 목록으로 리다이렉트
+  if (!order) {
+    redirect("/admin/orders");
+  }
+
+  const statusHistory = await getAdminOrderStatusHistory(order.id);
+  const claims = await getAdminOrderClaims(order.id);
+  const refunds = await getAdminOrderRefunds(order.id);
+  const itemPrices = new Map(order.items.map((item) => [item.id, item.price]));
+  const discountAmount = Number(order.discount_amount ?? 0);
+  const canEditShipment = order.status === "confirmed" || order.status === "shipped";
+
+  // 환불 내역이 없는 취소 주문 / 승인된 반품 (환불 요청 기록 실패)
+  const needsCancelRefund =
+    order.status === "cancelled" &&
+    !!order.payment_id &&
+    !refunds.some((refund) => refund.type === "cancel");
+  const returnClaimsWithoutRefund = order.payment_id
+    ? claims.filter(
+        (claim) =>
+          claim.type === "return" &&
+          claim.status === "approved" &&
+          (claim.refund_amount === null || Number(claim.refund_amount) > 0) &&
+          !refunds.some((refund) => refund.claim_id === claim.id)
+      )
+    : [];
+
+  return (
+    <div className="max-w-4xl">
+      <div className="mb-6">
+        <Link href="/admin/orders">
+          <Button variant="ghost" className="mb-4">
+            ← 주문 목록으로 돌아가기
+          </Button>
+        </Link>
+        <h1 className="text-3xl font-bold">주문 상세</h1>
+        <p className="mt-2 font-mono text-muted-foreground">{order.id}</p>
+      </div>
+
+      {/* 주문 상태 */}
+      <div className="bg-card border border-border rounded-lg p-6 mb-6 space-y-4">
+        <div className="flex items-center justify-between">
+          <h2 className="text-xl font-semibold">주문 상태</h2>
+          <OrderStatusBadge status={order.status} />
+        </div>
+        <OrderStatusActions
+          orderId={order.id}
+          status={order.status}
+          hasTrackingNumber={!!order.tracking_number}
+        />
+        <div className="pt-4 border-t border-border">
+          <h3 className="font-semibold mb-4">상태 변경 이력</h3>
+          <OrderStatusTimeline history={statusHistory} showActorId />
+        </div>
+      </div>
+
+      {/* 반품/교환 신청 */}
+      {claims.length > 0 && (
+        <div className="bg-card border border-border rounded-lg p-6 mb-6">
+          <h2 className="text-xl font-semibold mb-4">반품/교환 신청</h2>
+          <OrderClaimList
+            claims={claims}
+            items={order.items}
+            renderActions={(claim) => (
+              <OrderClaimActions
+                claimId={claim.id}
+                type={claim.type}
+                maxRefundAmount={(itemPrices.get(claim.order_item_id) ?? 0) * claim.quantity}
+              />
+            )}
+          />
+        </div>
+      )}
+
+      {/* 환불 필요 */}
+      {(needsCancelRefund || returnClaimsWithoutRefund.length > 0) && (
+        <div className="bg-card border border-destructive rounded-lg p-6 mb-6 space-y-3">
+          <h2 className="text-xl font-semibold text-destructive">환불 필요</h2>
+          <p className="text-sm text-muted-foreground">
+            환불 요청을 기록하지 못했습니다. 결제 취소 내역을 확인한 뒤 환불을 요청해주세요.
+          </p>
+          {needsCancelRefund && (
+            <div className="flex items-center justify-between gap-4 p-4 border border-border rounded-lg">
+              <span>주문 취소 환불</span>
+              <OrderRefundRequestButton type="cancel" targetId={order.id} />
+            </div>
+          )}
+          {returnClaimsWithoutRefund.map((claim) => (
+            <div
+              key={claim.id}
+              className="flex items-center justify-between gap-4 p-4 border border-border rounded-lg"
+            >
+              <span>
+                반품 환불 ({order.items.find((item) => item.id === claim.order_item_id)?.product_name}{" "}
+                × {claim.quantity}개)
+              </span>
+              <OrderRefundRequestButton type="return" targetId={claim.id} />
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* 환불 내역 */}
+      {refunds.length > 0 && (
+        <div className="bg-card border border-border rounded-lg p-6 mb-6">
+          <h2 className="text-xl font-semibold mb-4">환불 내역</h2>
+          <OrderRefundList
+            refunds={refunds}
+            showAdminDetails
+            renderActions={(refund) => (
+              <OrderRefundRetryButton
+                refundId={refund.id}
+                amount={refund.amount}
+                status={refund.status}
+              />
+            )}
+          />
+        </div>
+      )}
+
+      {/* 송장 정보 */}
+      {(canEditShipment || order.tracking_number) && (
+        <div className="bg-card border border-border rounded-lg p-6 mb-6 space-y-4">
+          <h2 className="text-xl font-semibold">송장 정보</h2>
+          {order.carrier && order.tracking_number && (
+            <div className="space-y-2 text-base">
+              <div className="flex justify-between">
+                <span>택배사</span>
+                <span className="text-muted-foreground">{getCourierName(order.carrier)}</span>
+              </div>
+              <div className="flex justify-between">
+                <span>송장 번호</span>
+                <a
+                  href={getCourierTrackingUrl(order.carrier, order.tracking_number)}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="font-mono text-sm text-primary hover:underline"
+                >
+                  {order.tracking_number}
+                </a>
+              </div>
+              {order.shipped_at && (
+                <div className="flex justify-between">
+                  <span>배송 시작</span>
+                  <span className="text-muted-foreground">{formatOrderDate(order.shipped_at)}</span>
+                </div>
+              )}
+              {order.delivered_at && (
+                <div className="flex justify-between">
+                  <span>배송 완료</span>
+                  <span className="text-muted-foreground">{formatOrderDate(order.delivered_at)}</span>
+                </div>
+              )}
+            </div>
+          )}
+          {canEditShipment && (
+            <OrderShipmentForm
+              orderId={order.id}
+              carrier={order.carrier}
+              trackingNumber={order.tracking_number}
+            />
+          )}
+        </div>
+      )}
+
+      {/* 주문 기본 정보 */}
+      <div className="bg-card border border-border rounded-lg p-6 mb-6">
+        <h2 className="text-xl font-semibold mb-4">주문 정보</h2>
+        <div className="space-y-2 text-base">
+          <div className="flex justify-between">
+            <span>주문 일시</span>
+            <span className="text-muted-foreground">{formatOrderDate(order.created_at)}</span>
+          </div>
+          <div className="flex justify-between">
+            <span>주문자 ID</span>
+            <span className="font-mono text-sm text-muted-foreground">{order.clerk_id}</span>
+          </div>
+          <div className="flex justify-between">
+            <span>결제 상태</span>
+            <span className="text-muted-foreground">{order.payment_status ?? "-"}</span>
+          </div>
+          <div className="flex justify-between">
+            <span>결제 수단</span>
+            <span className="text-muted-foreground">{order.payment_method ?? "-"}</span>
+          </div>
+          {order.payment_id && (
+            <div className="flex justify-between">
+              <span>결제 키</span>
+              <span className="font-mono text-sm text-muted-foreground">{order.payment_id}</span>
+            </div>
+          )}
+        </div>
+      </div>
+
+      {/* 주문 상품 목록 */}
+      <div className="bg-card border border-border rounded-lg p-6 mb-6">
+        <h2 className="text-xl font-semibold mb-4">주문 상품</h2>
+        <div className="space-y-3">
+          {order.items.map((item) => (
+            <div
+              key={item.id}
+              className="flex justify-between gap-4 p-4 border border-border rounded-lg"
+            >
+              <div className="min-w-0">
+                <Link
+                  href={`/admin/products/${item.product_id}/edit`}
+                  className="font-semibold hover:text-primary"
+                >
+                  {item.product_name}
+                </Link>
+                {item.options && Object.keys(item.options).length > 0 && (
+                  <div className="text-sm text-muted-foreground">
+                    {Object.entries(item.options).map(([key, value]) => (
+                      <span key={key} className="mr-2">
+                        {key}: {String(value)}
+                      </span>
+                    ))}
+                  </div>
+                )}
+                {item.sku && (
+                  <div className="text-sm text-muted-foreground font-mono">SKU: {item.sku}</div>
+                )}
+                <div className="text-sm text-muted-foreground">
+                  {formatPrice(item.price)}원 × {item.quantity}개
+                </div>
+              </div>
+              <div className="font-bold whitespace-nowrap">
+                {formatPrice(item.price * item.quantity)}원
+              </div>
+            </div>
+          ))}
+        </div>
+
+        {/* 금액 요약 */}
+        <div className="mt-4 pt-4 border-t border-border space-y-2">
+          <div className="flex justify-between">
+            <span>상품 금액</span>
+            <span>{formatPrice(Number(order.subtotal))}원</span>
+          </div>
+          <div className="flex justify-between">
+            <span>배송비</span>
+            <span>{formatPrice(Number(order.shipping_fee))}원</span>
+          </div>
+          {discountAmount > 0 && (
+            <div className="flex justify-between">
+              <span>쿠폰 할인{order.coupon_code && ` (${order.coupon_code})`}</span>
+              <span className="text-primary">-{formatPrice(discountAmount)}원</span>
+            </div>
+          )}
+          <div className="flex justify-between text-lg font-semibold pt-2 border-t border-border">
+            <span>최종 결제 금액</span>
+            <span>{formatPrice(Number(order.total_amount))}원</span>
+          </div>
+        </div>
+      </div>
+
+      {/* 배송 정보 */}
+      {order.shipping_address && (
+        <div className="bg-card border border-border rounded-lg p-6 mb-6">
+          <h2 className="text-xl font-semibold mb-4">배송 정보</h2>
+          <div className="space-y-2 text-base">
+            <div>
+              <span className="font-medium">수령인:</span>{" "}
+              {order.shipping_address.recipientName}
+            </div>
+            <div>
+              <span className="font-medium">연락처:</span>{" "}
+              {order.shipping_address.phone}
+            </div>
+            <div>
+              <span className="font-medium">주소:</span> [
+              {order.shipping_address.postalCode}]{" "}
+              {order.shipping_address.address}{" "}
+              {order.shipping_address.detailAddress}
+            </div>
+            {order.shipping_address.deliveryRequest && (
+              <div>
+                <span className="font-medium">배송 요청사항:</span>{" "}
+                {order.shipping_address.deliveryRequest}
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+
+      {/* 주문 메모 */}
+      {order.order_note && (
+        <div className="bg-card border border-border rounded-lg p-6 mb-6">
+          <h2 className="text-xl font-semibold mb-4">주문 메모</h2>
+          <p className="text-base text-muted-foreground">{order.order_note}</p>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,183 @@
+/**
+ * @file app/admin/orders/page.tsx
+ * @description 관리자 주문 관리 페이지
+ *
+ * 전체 주문 목록을 조회하고 주문 상세 페이지로 이동합니다.
+ *
+ * 주요 기능:
+ * 1. 주문 목록 표시 (최신순)
+ * 2. 검색 (주문 번호, 수령인 이름, 연락처)
+ * 3. 주문 상태 / 주문 기간 필터링
+ * 4. 페이지네이션
+ *
+ * 핵심 구현 로직:
+ * - 필터와 페이지는 URL 쿼리 파라미터로 관리 (search, status, from, to, page)
+ *
+ * @dependencies
+ * - actions/admin/orders.ts: 주문 데이터 조회
+ * - components/admin/order-list-filters.tsx: 검색 및 필터
+ * - components/my/order-status-badge.tsx: 주문 상태 배지
+ */
+
+import Link from "next/link";
+import { Button } from "@/components/ui/button";
+import { getAdminOrders } from "@/actions/admin/orders";
+import { OrderListFilters } from "@/components/admin/order-list-filters";
+import { OrderStatusBadge } from "@/components/my/order-status-badge";
+import { formatOrderDate, formatPrice } from "@/utils/order";
+import type { OrderStatus } from "@/types/order";
+
+const ORDER_STATUSES: OrderStatus[] = [
+  "pending",
+  "confirmed",
+  "shipped",
+  "delivered",
+  "cancelled",
+];
+
+interface AdminOrdersPageProps {
+  searchParams: Promise<{
+    search?: string;
+    status?: string;
+    from?: string;
+    to?: string;
+    page?: string;
+  }>;
+}
+
+export default async function AdminOrdersPage({
+  searchParams,
+}: AdminOrdersPageProps) {
+  const params = await searchParams;
+
+  const status = ORDER_STATUSES.includes(params.status as OrderStatus)
+    ? (params.status as OrderStatus)
+    : null;
+  const page = Math.max(1, Number(params.page) || 1);
+
+  // 주문 목록 조회
+  const { orders, total, pageSize } = await getAdminOrders({
+    search: params.search,
+    status,
+    dateFrom: params.from,
+    dateTo: params.to,
+    page,
+  });
+
+  const totalPages = Math.max(1, Math.ceil(total / pageSize));
+  const hasFilter = !!(params.search || status || params.from || params.to);
+
+  // 현재 필터를 유지한 페이지 링크
+  const getPageHref = (targetPage: number): string => {
+    const query = new URLSearchParams();
+    if (params.search) query.set("search", params.search);
+    if (status) query.set("status", status);
+    if (params.from) query.set("from", params.from);
+    if (params.to) query.set("to", params.to);
+    query.set("page", String(targetPage));
+    return `/admin/orders?${query.toString()}`;
+  };
+
+  return (
+    <div>
+      <div className="mb-6">
+        <h1 className="text-3xl font-bold">주문 관리</h1>
+        <p className="mt-2 text-muted-foreground">
+          주문을 조회하고 주문 상태를 변경할 수 있습니다.
+        </p>
+      </div>
+
+      <div className="space-y-4">
+        {/* 검색 및 필터 */}
+        <OrderListFilters
+          search={params.search}
+          status={status ?? undefined}
+          dateFrom={params.from}
+          dateTo={params.to}
+        />
+
+        <p className="text-sm text-muted-foreground">총 {total}건</p>
+
+        {/* 주문 목록 */}
+        {orders.length === 0 ? (
+          <div className="text-center py-12 text-muted-foreground">
+            {hasFilter ? "조건에 맞는 주문이 없습니다." : "주문이 없습니다."}
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full border-collapse">
+              <thead>
+                <tr className="border-b">
+                  <th className="px-4 py-3 text-left text-sm font-semibold">주문 번호</th>
+                  <th className="px-4 py-3 text-left text-sm font-semibold">주문 일시</th>
+                  <th className="px-4 py-3 text-left text-sm font-semibold">수령인</th>
+                  <th className="px-4 py-3 text-left text-sm font-semibold">결제 금액</th>
+                  <th className="px-4 py-3 text-left text-sm font-semibold">상태</th>
+                  <th className="px-4 py-3 text-left text-sm font-semibold">작업</th>
+                </tr>
+              </thead>
+              <tbody>
+                {orders.map((order) => (
+                  <tr key={order.id} className="border-b hover:bg-muted/50">
+                    <td className="px-4 py-3 font-mono text-sm">{order.id.slice(0, 8)}</td>
+                    <td className="px-4 py-3 text-sm">{formatOrderDate(order.created_at)}</td>
+                    <td className="px-4 py-3 text-sm">
+                      <div>{order.shipping_address?.recipientName ?? "-"}</div>
+                      <div className="text-muted-foreground">
+                        {order.shipping_address?.phone}
+                      </div>
+                    </td>
+                    <td className="px-4 py-3 text-sm">
+                      {formatPrice(Number(order.total_amount))}원
+                    </td>
+                    <td className="px-4 py-3">
+                      <OrderStatusBadge status={order.status} />
+                    </td>
+                    <td className="px-4 py-3">
+                      <Link href={`/admin/orders/${order.id}`}>
+                        <Button variant="outline" size="sm">
+                          상세
+                        </Button>
+                      </Link>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        {/* 페이지네이션 */}
+        {totalPages > 1 && (
+          <div className="flex items-center justify-center gap-4">
+            {page > 1 ? (
+              <Link href={getPageHref(page - 1)}>
+                <Button variant="outline" size="sm">
+                  이전
+                </Button>
+              </Link>
+            ) : (
+              <Button variant="outline" size="sm" disabled>
+                이전
+              </Button>
+            )}
+            <span className="text-sm text-muted-foreground">
+              {page} / {totalPages}
+            </span>
+            {page < totalPages ? (
+              <Link href={getPageHref(page + 1)}>
+                <Button variant="outline" size="sm">
+                  다음
+                </Button>
+              </Link>
+            ) : (
+              <Button variant="outline" size="sm" disabled>
+                다음
+              </Button>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
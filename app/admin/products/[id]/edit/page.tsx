@@ -10,14 +10,19 @@
  * 3. 이미지 추가/삭제
  * 4. 상품 옵션 수정
  * 5. 상품 상태 변경
+ * 6. 옵션 조합(사이즈 × 색상)별 SKU / 재고 / 추가 금액 설정
  *
  * @dependencies
  * - components/admin/product-form.tsx: 상품 수정 폼
+ * - components/admin/product-variant-matrix.tsx: 옵션 조합 매트릭스
  * - actions/admin/products.ts: 상품 데이터 조회
+ * - actions/admin/product-variants.ts: 옵션 조합 조회
  */
 
 import { redirect } from "next/navigation";
 import { ProductForm } from "@/components/admin/product-form";
+import { ProductVariantMatrix } from "@/components/admin/product-variant-matrix";
+import { getAdminProductVariants } from "@/actions/admin/product-variants";
 import { createClerkSupabaseClient } from "@/lib/supabase/server";
 
 interface EditProductPageProps {
@@ -44,6 +49,8 @@ export default async function EditProductPage({
     redirect("/admin");
   }
 
+  const variants = await getAdminProductVariants(id);
+
   return (
     <div>
       <div className="mb-6">
@@ -53,7 +60,18 @@ export default async function EditProductPage({
         </p>
       </div>
 
-      <ProductForm product={product} />
+      <ProductForm product={product} hasVariants={variants.length > 0} />
+
+      {/* 옵션 조합 */}
+      <div className="mt-10 space-y-4 border-t pt-8">
+        <div>
+          <h2 className="text-xl font-semibold">옵션 조합</h2>
+          <p className="mt-1 text-sm text-muted-foreground">
+            옵션 조합별 재고를 관리하면 상품 재고는 판매 중인 옵션 조합 재고의 합계로 자동 계산됩니다.
+          </p>
+        </div>
+        <ProductVariantMatrix product={product} variants={variants} />
+      </div>
     </div>
   );
 }
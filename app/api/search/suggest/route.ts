@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSearchSuggestions } from "@/actions/search";
+
+/**
+ * 상품 검색 자동완성 API
+ *
+ * Navbar 검색창에서 입력 중인 검색어(q)로 호출하여
+ * 카테고리와 검색 순위 상위 상품 제안을 반환합니다.
+ *
+ * @example
+ * GET /api/search/suggest?q=니트
+ * → { suggestions: [{ type: "product", label: "오버핏 니트 가디건", href: "/products/..." }] }
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const query = request.nextUrl.searchParams.get("q") ?? "";
+    const suggestions = await getSearchSuggestions(query);
+
+    return NextResponse.json({ suggestions });
+  } catch (error) {
+    console.error("Search suggest error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
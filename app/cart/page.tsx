@@ -10,6 +10,7 @@
  * 3. 장바구니 총 금액 계산 및 표시
  * 4. 빈 상태 메시지 표시
  * 5. 재고 부족/비활성 상품 경고 표시
+ * 6. 비로그인 사용자는 비회원 장바구니 표시 (주문은 로그인 후 가능)
  *
  * 핵심 구현 로직:
  * - Server Component로 구현 (Next.js 15 App Router 패턴)
@@ -23,7 +24,7 @@
  */
 
 import { getCartItems } from "@/actions/cart";
-import { redirect } from "next/navigation";
+import { getCartItemUnitPrice } from "@/lib/product-variants";
 import { auth } from "@clerk/nextjs/server";
 import { CartPageClient } from "@/components/cart/cart-page-client";
 import Link from "next/link";
@@ -38,12 +39,11 @@ function formatPrice(price: number): string {
 export default async function CartPage() {
   console.group("🛒 [CartPage] 장바구니 페이지 렌더링 시작");
 
-  // 로그인 확인
+  // 로그인 확인 (비로그인 사용자는 비회원 장바구니 표시)
   const { userId } = await auth();
-  if (!userId) {
-    console.log("⚠️ 비로그인 사용자 - 로그인 페이지로 리다이렉트");
-    console.groupEnd();
-    redirect("/sign-in");
+  const isGuest = !userId;
+  if (isGuest) {
+    console.log("⚠️ 비로그인 사용자 - 비회원 장바구니 표시");
   }
 
   // 장바구니 목록 조회
@@ -58,7 +58,7 @@ export default async function CartPage() {
 
   // 총 금액 계산
   const totalAmount = cartItems.reduce((sum, item) => {
-    return sum + item.product.price * item.quantity;
+    return sum + getCartItemUnitPrice(item) * item.quantity;
   }, 0);
 
   console.groupEnd();
@@ -102,6 +102,7 @@ export default async function CartPage() {
           items={cartItems}
           totalAmount={totalAmount}
           formatPrice={formatPrice}
+          isGuest={isGuest}
         />
       )}
     </div>
@@ -132,6 +132,16 @@ export default async function CheckoutCompletePage({
             </span>
           </div>
 
+          {/* 결제 수단 */}
+          {order.payment_method && (
+            <div className="flex justify-between items-center">
+              <span className="text-base">결제 수단</span>
+              <span className="text-base font-medium">
+                {order.payment_method}
+              </span>
+            </div>
+          )}
+
           {/* 주문 일시 */}
           <div className="flex justify-between items-center">
             <span className="text-base">주문 일시</span>
@@ -250,22 +260,19 @@ export default async function CheckoutCompletePage({
           <div className="flex justify-between text-base">
             <span>배송비</span>
             <span>
-              {order.total_amount -
-                order.items.reduce(
-                  (sum, item) => sum + item.price * item.quantity,
-                  0
-                ) ===
-              0
+              {Number(order.shipping_fee) === 0
                 ? "무료"
-                : `${formatPrice(
-                    order.total_amount -
-                      order.items.reduce(
-                        (sum, item) => sum + item.price * item.quantity,
-                        0
-                      )
-                  )}원`}
+                : `${formatPrice(Number(order.shipping_fee))}원`}
             </span>
           </div>
+          {Number(order.discount_amount ?? 0) > 0 && (
+            <div className="flex justify-between text-base">
+              <span>쿠폰 할인{order.coupon_code && ` (${order.coupon_code})`}</span>
+              <span className="text-primary">
+                -{formatPrice(Number(order.discount_amount))}원
+              </span>
+            </div>
+          )}
           <div className="flex justify-between items-center pt-3 border-t border-border">
             <span className="text-lg font-semibold">최종 결제 금액</span>
             <span className="text-2xl font-bold text-primary">
@@ -0,0 +1,59 @@
+/**
+ * @file app/checkout/fail/page.tsx
+ * @description 결제 실패 페이지
+ *
+ * 결제창에서 결제가 취소/실패했거나 결제 승인(/checkout/success)에 실패했을 때
+ * failUrl로 이동하는 페이지입니다. 주문은 결제 대기(pending) 상태로 남아 다시 결제할 수 있습니다.
+ *
+ * 주요 기능:
+ * 1. 실패 코드 및 메시지 표시
+ * 2. "다시 결제하기" 버튼 (주문 ID가 있는 경우)
+ * 3. "장바구니로 돌아가기" 버튼
+ */
+
+import Link from "next/link";
+import { Button } from "@/components/ui/button";
+
+interface CheckoutFailPageProps {
+  searchParams: Promise<{
+    code?: string;
+    message?: string;
+    orderId?: string;
+  }>;
+}
+
+export default async function CheckoutFailPage({
+  searchParams,
+}: CheckoutFailPageProps) {
+  const params = await searchParams;
+  const { code, message, orderId } = params;
+
+  console.group("💳 [CheckoutFailPage] 결제 실패 페이지 렌더링");
+  console.log("실패 정보:", { code, message, orderId });
+  console.groupEnd();
+
+  return (
+    <div className="container mx-auto px-4 py-16 max-w-xl text-center">
+      <h1 className="text-3xl font-bold mb-4">결제에 실패했습니다</h1>
+      <p className="text-muted-foreground mb-2">
+        {message || "결제 처리 중 문제가 발생했습니다."}
+      </p>
+      {code && (
+        <p className="text-sm text-muted-foreground mb-8">에러 코드: {code}</p>
+      )}
+
+      <div className="flex gap-3">
+        <Link href="/cart" className="flex-1">
+          <Button variant="outline" className="w-full">
+            장바구니로 돌아가기
+          </Button>
+        </Link>
+        {orderId && (
+          <Link href={`/checkout/payment?orderId=${orderId}`} className="flex-1">
+            <Button className="w-full">다시 결제하기</Button>
+          </Link>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -6,23 +6,23 @@
  *
  * 주요 기능:
  * 1. 선택한 장바구니 항목 조회
- * 2. 배송 정보 입력
- * 3. 주문할 상품 목록 및 금액 표시
- * 4. 주문 생성 처리
+ * 2. 배송 정보 입력 (주소록에 저장한 배송지 선택 가능)
+ * 3. 주문할 상품 목록 및 금액 표시 (쿠폰 할인 포함)
+ * 4. 주문 생성 처리 후 결제 페이지로 이동
  *
  * @dependencies
  * - actions/cart.ts: getCartItems
  * - actions/order.ts: createOrder
- * - components/checkout/shipping-form.tsx: 배송 정보 입력 폼
- * - components/checkout/order-summary.tsx: 주문 상품 목록
+ * - actions/address.ts: getUserAddresses (배송지 선택)
+ * - components/checkout/checkout-client.tsx: 배송 정보 입력 폼 + 주문 상품 목록
  */
 
 import { redirect } from "next/navigation";
 import { auth } from "@clerk/nextjs/server";
 import { getCartItems } from "@/actions/cart";
 import { createOrder } from "@/actions/order";
+import { getUserAddresses } from "@/actions/address";
 import { CheckoutClient } from "@/components/checkout/checkout-client";
-import { OrderSummary } from "@/components/checkout/order-summary";
 import type { ShippingFormData } from "@/types/order";
 
 interface CheckoutPageProps {
@@ -93,10 +93,14 @@ export default async function CheckoutPage({
   }
 
   console.log(`✅ 주문할 상품 ${selectedCartItems.length}개 확인 완료`);
+
+  // 4. 저장한 배송지 조회 (실패해도 직접 입력 가능)
+  const addresses = await getUserAddresses();
+  console.log(`✅ 저장한 배송지: ${addresses.length}개`);
   console.groupEnd();
 
-  // 4. 주문 생성 핸들러 (Client Component에서 호출)
-  async function handleOrderSubmit(data: ShippingFormData) {
+  // 5. 주문 생성 핸들러 (Client Component에서 호출)
+  async function handleOrderSubmit(data: ShippingFormData, couponCode: string | null) {
     "use server";
 
     try {
@@ -111,10 +115,11 @@ export default async function CheckoutPage({
           deliveryRequest: data.deliveryRequest,
         },
         orderNote: data.orderNote,
+        couponCode,
       });
 
-      // 주문 완료 페이지로 리다이렉트
-      redirect(`/checkout/complete?orderId=${orderId}`);
+      // 결제 페이지로 리다이렉트 (결제 승인 후 주문 완료 페이지로 이동)
+      redirect(`/checkout/payment?orderId=${orderId}`);
     } catch (error) {
       console.error("❌ 주문 생성 실패:", error);
       throw error;
@@ -125,19 +130,12 @@ export default async function CheckoutPage({
     <div className="container mx-auto px-4 py-8 max-w-7xl">
       <h1 className="text-3xl font-bold mb-8">주문하기</h1>
 
-      <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
-        {/* 배송 정보 입력 폼 */}
-        <div className="space-y-6">
-          <h2 className="text-xl font-semibold">배송 정보</h2>
-          <CheckoutClient onSubmit={handleOrderSubmit} />
-        </div>
-
-        {/* 주문 상품 목록 및 금액 요약 */}
-        <div className="space-y-6">
-          <h2 className="text-xl font-semibold">주문 요약</h2>
-          <OrderSummary items={selectedCartItems} />
-        </div>
-      </div>
+      {/* 배송 정보 입력 폼 및 주문 요약 (배송지에 따라 배송비가 달라지므로 함께 렌더링) */}
+      <CheckoutClient
+        items={selectedCartItems}
+        addresses={addresses}
+        onSubmit={handleOrderSubmit}
+      />
     </div>
   );
 }
@@ -0,0 +1,127 @@
+/**
+ * @file app/checkout/payment/page.tsx
+ * @description 결제 페이지
+ *
+ * 주문 생성 후 결제 대기(pending) 상태의 주문을 결제하는 페이지입니다.
+ *
+ * 주요 기능:
+ * 1. 결제할 주문 조회 (본인 주문만)
+ * 2. 이미 결제된 주문은 주문 완료 페이지로 이동
+ * 3. 결제 금액 요약 및 결제창 호출 (PaymentClient)
+ *
+ * @dependencies
+ * - actions/order.ts: getOrder
+ * - lib/payments: getPaymentClientConfig
+ * - components/checkout/payment-client.tsx: 결제 요청 클라이언트 컴포넌트
+ */
+
+import { redirect } from "next/navigation";
+import { auth } from "@clerk/nextjs/server";
+import { getOrder } from "@/actions/order";
+import { getPaymentClientConfig } from "@/lib/payments";
+import { PaymentClient } from "@/components/checkout/payment-client";
+import type { OrderWithItems } from "@/types/order";
+
+interface CheckoutPaymentPageProps {
+  searchParams: Promise<{
+    orderId?: string;
+  }>;
+}
+
+/**
+ * 가격을 천단위 콤마로 포맷팅
+ */
+function formatPrice(price: number): string {
+  return new Intl.NumberFormat("ko-KR").format(price);
+}
+
+export default async function CheckoutPaymentPage({
+  searchParams,
+}: CheckoutPaymentPageProps) {
+  console.group("💳 [CheckoutPaymentPage] 결제 페이지 렌더링 시작");
+
+  // 1. 로그인 확인
+  const { userId } = await auth();
+  if (!userId) {
+    console.log("⚠️ 비로그인 사용자 - 로그인 페이지로 리다이렉트");
+    console.groupEnd();
+    redirect("/sign-in");
+  }
+
+  // 2. 쿼리 파라미터에서 주문 ID 추출
+  const params = await searchParams;
+  const orderId = params.orderId;
+
+  if (!orderId) {
+    console.log("⚠️ 주문 ID 없음 - 장바구니 페이지로 리다이렉트");
+    console.groupEnd();
+    redirect("/cart");
+  }
+
+  // 3. 주문 정보 조회
+  let order: OrderWithItems;
+  try {
+    order = await getOrder(orderId);
+  } catch (error) {
+    console.error("❌ 주문 조회 실패:", error);
+    console.groupEnd();
+    redirect("/cart");
+  }
+
+  // 4. 결제 대기 상태가 아니면 주문 완료 페이지로 이동
+  if (order.status !== "pending") {
+    console.log("⚠️ 결제 대기 상태가 아님 - 주문 완료 페이지로 리다이렉트");
+    console.groupEnd();
+    redirect(`/checkout/complete?orderId=${order.id}`);
+  }
+
+  const amount = Number(order.total_amount);
+  const orderName =
+    order.items.length > 1
+      ? `${order.items[0].product_name} 외 ${order.items.length - 1}건`
+      : order.items[0]?.product_name ?? "주문 상품";
+
+  console.log("✅ 결제 대기 주문 확인:", { orderId: order.id, amount, orderName });
+  console.groupEnd();
+
+  return (
+    <div className="container mx-auto px-4 py-8 max-w-2xl">
+      <h1 className="text-3xl font-bold mb-8">결제하기</h1>
+
+      {/* 결제 실패 후 다시 시도하는 경우 안내 */}
+      {order.payment_status === "failed" && (
+        <div className="bg-destructive/10 text-destructive border border-destructive/20 rounded-md p-4 mb-6">
+          <p className="font-medium">이전 결제가 완료되지 않았습니다.</p>
+          <p className="text-sm mt-1">다시 결제를 진행해주세요.</p>
+        </div>
+      )}
+
+      <div className="bg-card border border-border rounded-lg p-6 mb-6">
+        <div className="space-y-3">
+          <div className="flex justify-between text-base">
+            <span>주문 번호</span>
+            <span className="text-muted-foreground">{order.id}</span>
+          </div>
+          <div className="flex justify-between text-base">
+            <span>주문 상품</span>
+            <span>{orderName}</span>
+          </div>
+          <div className="flex justify-between items-center pt-3 border-t border-border">
+            <span className="text-lg font-semibold">최종 결제 금액</span>
+            <span className="text-2xl font-bold text-primary">
+              {formatPrice(amount)}원
+            </span>
+          </div>
+        </div>
+      </div>
+
+      <PaymentClient
+        config={getPaymentClientConfig()}
+        orderId={order.id}
+        orderName={orderName}
+        amount={amount}
+        customerName={order.shipping_address?.recipientName}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,54 @@
+/**
+ * @file app/checkout/success/route.ts
+ * @description 결제 성공 콜백
+ *
+ * 결제창(Toss Payments 또는 로컬 가짜 게이트웨이)에서 결제 인증이 끝나면
+ * successUrl로 paymentKey, orderId, amount가 전달됩니다.
+ * 서버에서 금액을 검증하고 결제를 승인한 뒤 주문 완료 페이지로 이동합니다.
+ *
+ * 주요 기능:
+ * 1. 쿼리 파라미터 검증
+ * 2. confirmPayment로 금액 검증 및 결제 승인
+ * 3. 성공 시 /checkout/complete, 실패 시 /checkout/fail로 리다이렉트
+ *
+ * @dependencies
+ * - actions/payment.ts: confirmPayment
+ */
+
+import { NextResponse, type NextRequest } from "next/server";
+import { confirmPayment } from "@/actions/payment";
+
+export async function GET(request: NextRequest) {
+  const { searchParams } = request.nextUrl;
+  const paymentKey = searchParams.get("paymentKey");
+  const orderId = searchParams.get("orderId");
+  const amount = Number(searchParams.get("amount"));
+
+  // 실패 페이지 URL 생성 (Toss Payments failUrl과 같은 형식)
+  const buildFailUrl = (code: string, message: string) => {
+    const failUrl = new URL("/checkout/fail", request.url);
+    failUrl.searchParams.set("code", code);
+    failUrl.searchParams.set("message", message);
+    if (orderId) {
+      failUrl.searchParams.set("orderId", orderId);
+    }
+    return failUrl;
+  };
+
+  if (!paymentKey || !orderId || !Number.isFinite(amount)) {
+    return NextResponse.redirect(
+      buildFailUrl("INVALID_REQUEST", "결제 정보가 올바르지 않습니다.")
+    );
+  }
+
+  try {
+    await confirmPayment({ paymentKey, orderId, amount });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "알 수 없는 에러";
+    return NextResponse.redirect(buildFailUrl("CONFIRM_FAILED", message));
+  }
+
+  return NextResponse.redirect(
+    new URL(`/checkout/complete?orderId=${orderId}`, request.url)
+  );
+}
@@ -6,6 +6,7 @@ import { Geist, Geist_Mono } from "next/font/google";
 import Navbar from "@/components/Navbar";
 import { Footer } from "@/components/Footer";
 import { SyncUserProvider } from "@/components/providers/sync-user-provider";
+import { WishlistProvider } from "@/components/providers/wishlist-provider";
 import "./globals.css";
 
 const geistSans = Geist({
@@ -62,9 +63,11 @@ export default function RootLayout({
           className={`${geistSans.variable} ${geistMono.variable} antialiased`}
         >
           <SyncUserProvider>
-            <Navbar />
-            {children}
-            <Footer />
+            <WishlistProvider>
+              <Navbar />
+              {children}
+              <Footer />
+            </WishlistProvider>
           </SyncUserProvider>
         </body>
       </html>
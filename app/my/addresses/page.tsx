@@ -0,0 +1,114 @@
+/**
+ * @file app/my/addresses/page.tsx
+ * @description 배송지 관리 페이지
+ *
+ * 사용자가 저장한 배송지 목록을 관리하는 페이지입니다.
+ *
+ * 주요 기능:
+ * 1. 저장한 배송지 목록 표시 (기본 배송지 먼저)
+ * 2. 배송지 추가 / 수정 / 삭제
+ * 3. 기본 배송지 지정 (주문 페이지에서 자동 선택)
+ * 4. 빈 상태 메시지 표시
+ *
+ * 핵심 구현 로직:
+ * - Server Component로 구현 (Next.js 15 App Router 패턴)
+ * - Server Action으로 배송지 조회
+ *
+ * @dependencies
+ * - actions/address.ts: getUserAddresses Server Action
+ * - components/my/address-form-dialog.tsx: 배송지 추가 다이얼로그
+ * - components/my/address-item-actions.tsx: 배송지 수정 / 삭제 / 기본 배송지 지정 버튼
+ * - lib/addresses.ts: 연락처 형식 변환, 배송지 수 제한
+ */
+
+import { redirect } from "next/navigation";
+import { auth } from "@clerk/nextjs/server";
+import { MapPin, Plus } from "lucide-react";
+import { getUserAddresses } from "@/actions/address";
+import { Button } from "@/components/ui/button";
+import { AddressFormDialog } from "@/components/my/address-form-dialog";
+import { AddressItemActions } from "@/components/my/address-item-actions";
+import { formatPhoneNumber, USER_ADDRESS_LIMIT } from "@/lib/addresses";
+
+export default async function AddressesPage() {
+  console.group("📍 [AddressesPage] 배송지 관리 페이지 렌더링 시작");
+
+  // 1. 로그인 확인
+  const { userId } = await auth();
+  if (!userId) {
+    console.log("⚠️ 비로그인 사용자 - 로그인 페이지로 리다이렉트");
+    console.groupEnd();
+    redirect("/sign-in");
+  }
+
+  // 2. 저장한 배송지 조회
+  const addresses = await getUserAddresses();
+  console.log(`✅ 배송지 조회 완료: ${addresses.length}개`);
+  console.groupEnd();
+
+  const canAdd = addresses.length < USER_ADDRESS_LIMIT;
+  const addButton = (
+    <Button disabled={!canAdd}>
+      <Plus className="w-4 h-4 mr-1" />
+      배송지 추가
+    </Button>
+  );
+
+  return (
+    <div className="container mx-auto px-4 py-8 max-w-3xl">
+      {/* 페이지 헤더 */}
+      <div className="mb-8 flex flex-wrap items-end justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold mb-2">배송지 관리</h1>
+          <p className="text-muted-foreground">
+            자주 쓰는 배송지를 저장하면 주문할 때 다시 입력하지 않아도 됩니다. (최대{" "}
+            {USER_ADDRESS_LIMIT}개)
+          </p>
+        </div>
+        {addresses.length > 0 && <AddressFormDialog trigger={addButton} />}
+      </div>
+
+      {addresses.length === 0 ? (
+        // 빈 상태
+        <div className="flex flex-col items-center justify-center py-16 text-center">
+          <div className="text-muted-foreground mb-4">
+            <MapPin className="w-24 h-24 mx-auto" strokeWidth={1} />
+          </div>
+          <h2 className="text-2xl font-semibold mb-2">저장한 배송지가 없습니다</h2>
+          <p className="text-muted-foreground mb-6">
+            배송지를 추가하고 주문할 때 바로 선택해보세요.
+          </p>
+          <AddressFormDialog trigger={addButton} />
+        </div>
+      ) : (
+        // 배송지 목록
+        <ul className="space-y-4">
+          {addresses.map((address) => (
+            <li key={address.id} className="rounded-lg border p-5 space-y-3">
+              <div className="flex items-center gap-2">
+                <span className="font-semibold">{address.label}</span>
+                {address.is_default && (
+                  <span className="rounded-md bg-primary px-2 py-0.5 text-xs text-primary-foreground">
+                    기본 배송지
+                  </span>
+                )}
+              </div>
+              <div className="text-sm space-y-1">
+                <p>
+                  {address.recipient_name} · {formatPhoneNumber(address.phone)}
+                </p>
+                <p className="text-muted-foreground">
+                  ({address.postal_code}) {address.address} {address.detail_address}
+                </p>
+                {address.delivery_request && (
+                  <p className="text-muted-foreground">요청사항: {address.delivery_request}</p>
+                )}
+              </div>
+              <AddressItemActions address={address} />
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
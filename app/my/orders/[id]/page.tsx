@@ -11,6 +11,11 @@
  * 4. 결제 정보 표시
  * 5. 주문 메모 표시
  * 6. 주문 취소 UI (pending, confirmed 상태만)
+ * 7. 주문 상태 변경 이력 타임라인
+ * 8. 배송 조회 타임라인 및 택배사 조회 링크 (송장 등록 후)
+ * 9. 주문 상품 리뷰 작성 (배송 완료 주문, 주문 상품당 1개)
+ * 10. 주문 상품별 반품/교환 신청 (배송 완료 후 7일 이내) 및 신청 내역
+ * 11. 환불 내역 (주문 취소, 반품 승인 시 환불 금액과 처리 상태)
  *
  * 핵심 구현 로직:
  * - Server Component로 구현 (Next.js 15 App Router 패턴)
@@ -18,19 +23,43 @@
  * - 본인의 주문인지 검증 (Server Action에서 처리)
  *
  * @dependencies
- * - actions/order.ts: getOrder Server Action
+ * - actions/order.ts: getOrder, getOrderStatusHistory, getOrderRefunds Server Action
+ * - actions/shipment.ts: getOrderShipmentTracking Server Action
+ * - actions/review.ts: getOrderReviews Server Action
+ * - actions/claim.ts: getOrderClaims Server Action
  * - components/my/order-status-badge.tsx: 주문 상태 배지
+ * - components/my/order-status-timeline.tsx: 주문 상태 이력 타임라인
+ * - components/my/shipment-tracking-timeline.tsx: 배송 조회 타임라인
+ * - components/my/review-form-dialog.tsx: 리뷰 작성 다이얼로그
+ * - components/my/order-claim-dialog.tsx: 반품/교환 신청 다이얼로그
+ * - components/my/order-claim-list.tsx: 반품/교환 신청 내역
+ * - components/my/order-refund-list.tsx: 환불 내역
  * - types/order.ts: OrderWithItems 타입 정의
  */
 
-import { getOrder } from "@/actions/order";
+import { getOrder, getOrderRefunds, getOrderStatusHistory } from "@/actions/order";
+import { getOrderShipmentTracking } from "@/actions/shipment";
+import { getOrderReviews } from "@/actions/review";
+import { getOrderClaims } from "@/actions/claim";
 import { redirect } from "next/navigation";
 import { auth } from "@clerk/nextjs/server";
 import { OrderStatusBadge } from "@/components/my/order-status-badge";
-import { formatOrderDate, formatPrice } from "@/utils/order";
+import { OrderStatusTimeline } from "@/components/my/order-status-timeline";
+import { ShipmentTrackingTimeline } from "@/components/my/shipment-tracking-timeline";
+import { ReviewFormDialog } from "@/components/my/review-form-dialog";
+import { OrderClaimDialog } from "@/components/my/order-claim-dialog";
+import { OrderClaimList } from "@/components/my/order-claim-list";
+import { OrderRefundList } from "@/components/my/order-refund-list";
+import { StarRating } from "@/components/review/star-rating";
+import { CLAIM_PERIOD_DAYS, getClaimableQuantity, isClaimableOrder } from "@/lib/claims";
+import { canTransitionOrderStatus, formatOrderDate, formatPrice } from "@/utils/order";
 import Link from "next/link";
 import { Button } from "@/components/ui/button";
-import type { OrderWithItems } from "@/types/order";
+import type { OrderStatusHistory, OrderWithItems } from "@/types/order";
+import type { Review } from "@/types/review";
+import type { OrderClaimWithPhotos } from "@/types/claim";
+import type { OrderRefund } from "@/types/refund";
+import type { TrackingEvent } from "@/types/shipment";
 import { OrderCancelButton } from "@/components/my/order-cancel-button";
 
 interface OrderDetailPageProps {
@@ -66,6 +95,56 @@ export default async function OrderDetailPage({
     redirect("/my/orders");
   }
 
+  // 상태 이력 조회 (실패해도 주문 상세는 표시)
+  let statusHistory: OrderStatusHistory[] = [];
+  try {
+    statusHistory = await getOrderStatusHistory(orderId);
+  } catch (error) {
+    console.error("❌ 주문 상태 이력 조회 실패:", error);
+  }
+
+  // 배송 조회 (송장 등록 후, 실패해도 주문 상세는 표시)
+  let trackingEvents: TrackingEvent[] | null = null;
+  if (order.carrier && order.tracking_number) {
+    try {
+      trackingEvents = (await getOrderShipmentTracking(orderId))?.events ?? [];
+    } catch (error) {
+      console.error("❌ 배송 조회 실패:", error);
+    }
+  }
+
+  // 작성한 리뷰 조회 (배송 완료 주문만 리뷰 작성 가능, 실패해도 주문 상세는 표시)
+  const canReview = order.status === "delivered";
+  let reviewsByProductId: Record<string, Review> = {};
+  if (canReview) {
+    try {
+      reviewsByProductId = await getOrderReviews(orderId);
+    } catch (error) {
+      console.error("❌ 주문 리뷰 조회 실패:", error);
+    }
+  }
+
+  // 반품/교환 신청 내역 조회 (배송 완료 이후 주문만, 실패해도 주문 상세는 표시)
+  const canClaim = isClaimableOrder(order.status, order.delivered_at);
+  let claims: OrderClaimWithPhotos[] = [];
+  if (order.delivered_at) {
+    try {
+      claims = await getOrderClaims(orderId);
+    } catch (error) {
+      console.error("❌ 반품/교환 신청 내역 조회 실패:", error);
+    }
+  }
+
+  // 환불 내역 조회 (결제 완료 주문만, 실패해도 주문 상세는 표시)
+  let refunds: OrderRefund[] = [];
+  if (order.payment_id) {
+    try {
+      refunds = await getOrderRefunds(orderId);
+    } catch (error) {
+      console.error("❌ 환불 내역 조회 실패:", error);
+    }
+  }
+
   console.groupEnd();
 
   // 4. 금액 계산
@@ -73,10 +152,11 @@ export default async function OrderDetailPage({
     (sum, item) => sum + item.price * item.quantity,
     0
   );
-  const shippingFee = order.total_amount - productAmount;
+  const shippingFee = Number(order.shipping_fee);
+  const discountAmount = Number(order.discount_amount ?? 0);
 
   // 5. 취소 가능 여부 확인
-  const canCancel = order.status === "pending" || order.status === "confirmed";
+  const canCancel = canTransitionOrderStatus(order.status, "cancelled");
 
   // 6. 결제 상태 한글 변환
   const getPaymentStatusLabel = (status: string | null): string => {
@@ -87,6 +167,8 @@ export default async function OrderDetailPage({
       completed: "결제 완료",
       failed: "결제 실패",
       cancelled: "결제 취소",
+      partially_refunded: "부분 환불",
+      refunded: "환불 완료",
     };
     return statusMap[status] || status;
   };
@@ -158,12 +240,35 @@ export default async function OrderDetailPage({
         </div>
       </div>
 
+      {/* 주문 상태 이력 */}
+      <div className="bg-card border border-border rounded-lg p-6 mb-6">
+        <h2 className="text-xl font-semibold mb-4">주문 진행 상황</h2>
+        <OrderStatusTimeline history={statusHistory} />
+      </div>
+
+      {/* 배송 조회 */}
+      {order.carrier && order.tracking_number && (
+        <div className="bg-card border border-border rounded-lg p-6 mb-6">
+          <h2 className="text-xl font-semibold mb-4">배송 조회</h2>
+          <ShipmentTrackingTimeline
+            carrier={order.carrier}
+            trackingNumber={order.tracking_number}
+            events={trackingEvents}
+          />
+        </div>
+      )}
+
       {/* 주문 상품 목록 */}
       <div className="bg-card border border-border rounded-lg p-6 mb-6">
         <h2 className="text-xl font-semibold mb-4">주문 상품</h2>
         <div className="space-y-4">
-          {order.items.map((item) => {
+          {order.items.map((item, index) => {
             const itemTotal = item.price * item.quantity;
+            const review = reviewsByProductId[item.product_id];
+            // 같은 상품의 옵션이 여러 개인 경우 리뷰는 첫 번째 항목에만 표시 (주문 상품당 리뷰 1개)
+            const isFirstOfProduct =
+              order.items.findIndex((other) => other.product_id === item.product_id) === index;
+            const claimableQuantity = canClaim ? getClaimableQuantity(item, claims) : 0;
             return (
               <div
                 key={item.id}
@@ -199,11 +304,36 @@ export default async function OrderDetailPage({
                   </div>
                 </div>
 
-                {/* 소계 */}
-                <div className="text-center sm:text-right">
+                {/* 소계, 리뷰 및 반품/교환 */}
+                <div className="flex flex-col items-center gap-2 sm:items-end">
                   <div className="text-base font-bold">
                     {formatPrice(itemTotal)}원
                   </div>
+                  {canReview && isFirstOfProduct && (
+                    review ? (
+                      <Link
+                        href={`/products/${item.product_id}#reviews`}
+                        className="flex items-center gap-1 text-xs text-muted-foreground hover:underline"
+                      >
+                        <StarRating rating={review.rating} starClassName="h-3 w-3" />
+                        리뷰 작성 완료
+                      </Link>
+                    ) : (
+                      <ReviewFormDialog
+                        orderId={order.id}
+                        productId={item.product_id}
+                        productName={item.product_name}
+                      />
+                    )
+                  )}
+                  {claimableQuantity > 0 && (
+                    <OrderClaimDialog
+                      orderId={order.id}
+                      orderItemId={item.id}
+                      productName={item.product_name}
+                      maxQuantity={claimableQuantity}
+                    />
+                  )}
                 </div>
               </div>
             );
@@ -211,6 +341,17 @@ export default async function OrderDetailPage({
         </div>
       </div>
 
+      {/* 반품/교환 신청 내역 */}
+      {(canClaim || claims.length > 0) && (
+        <div className="bg-card border border-border rounded-lg p-6 mb-6">
+          <h2 className="text-xl font-semibold mb-2">반품/교환 신청 내역</h2>
+          <p className="text-sm text-muted-foreground mb-4">
+            배송 완료 후 {CLAIM_PERIOD_DAYS}일 이내에 주문 상품별로 반품/교환을 신청할 수 있습니다.
+          </p>
+          <OrderClaimList claims={claims} items={order.items} />
+        </div>
+      )}
+
       {/* 배송 정보 */}
       {order.shipping_address && (
         <div className="bg-card border border-border rounded-lg p-6 mb-6">
@@ -260,6 +401,12 @@ export default async function OrderDetailPage({
             <span>배송비</span>
             <span>{shippingFee === 0 ? "무료" : `${formatPrice(shippingFee)}원`}</span>
           </div>
+          {discountAmount > 0 && (
+            <div className="flex justify-between text-base">
+              <span>쿠폰 할인{order.coupon_code && ` (${order.coupon_code})`}</span>
+              <span className="text-primary">-{formatPrice(discountAmount)}원</span>
+            </div>
+          )}
           <div className="flex justify-between items-center pt-3 border-t border-border">
             <span className="text-lg font-semibold">최종 결제 금액</span>
             <span className="text-2xl font-bold text-primary">
@@ -269,6 +416,14 @@ export default async function OrderDetailPage({
         </div>
       </div>
 
+      {/* 환불 내역 */}
+      {refunds.length > 0 && (
+        <div className="bg-card border border-border rounded-lg p-6 mb-6">
+          <h2 className="text-xl font-semibold mb-4">환불 내역</h2>
+          <OrderRefundList refunds={refunds} />
+        </div>
+      )}
+
       {/* 주문 메모 */}
       {order.order_note && (
         <div className="bg-card border border-border rounded-lg p-6 mb-6">
@@ -0,0 +1,139 @@
+/**
+ * @file app/my/wishlist/page.tsx
+ * @description 찜한 상품 페이지
+ *
+ * 사용자가 찜한 상품 목록을 표시하는 페이지입니다.
+ *
+ * 주요 기능:
+ * 1. 찜한 상품 목록 표시 (최근 찜한 순)
+ * 2. 장바구니로 이동 (옵션 조합이 있는 상품은 상품 상세에서 옵션 선택)
+ * 3. 찜 해제
+ * 4. 품절 / 판매 중지 상품 표시
+ * 5. 빈 상태 메시지 표시
+ *
+ * 핵심 구현 로직:
+ * - Server Component로 구현 (Next.js 15 App Router 패턴)
+ * - Server Action으로 찜한 상품 조회
+ *
+ * @dependencies
+ * - actions/wishlist.ts: getWishlistItems Server Action
+ * - components/my/wishlist-item-actions.tsx: 장바구니 이동 / 찜 해제 버튼
+ * - lib/pricing.ts: 프로모션 기간을 반영한 판매 가격
+ * - types/wishlist.ts: WishlistItemWithProduct 타입 정의
+ */
+
+import { getWishlistItems } from "@/actions/wishlist";
+import { redirect } from "next/navigation";
+import { auth } from "@clerk/nextjs/server";
+import Image from "next/image";
+import Link from "next/link";
+import { Heart } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { WishlistItemActions } from "@/components/my/wishlist-item-actions";
+import { getEffectivePrice } from "@/lib/pricing";
+import type { WishlistItemWithProduct } from "@/types/wishlist";
+
+/**
+ * 가격을 천단위 콤마로 포맷팅
+ */
+function formatPrice(price: number): string {
+  return new Intl.NumberFormat("ko-KR").format(price);
+}
+
+export default async function WishlistPage() {
+  console.group("💝 [WishlistPage] 찜한 상품 페이지 렌더링 시작");
+
+  // 1. 로그인 확인
+  const { userId } = await auth();
+  if (!userId) {
+    console.log("⚠️ 비로그인 사용자 - 로그인 페이지로 리다이렉트");
+    console.groupEnd();
+    redirect("/sign-in");
+  }
+
+  // 2. 찜한 상품 조회
+  let items: WishlistItemWithProduct[];
+  try {
+    items = await getWishlistItems();
+    console.log(`✅ 찜한 상품 조회 완료: ${items.length}개`);
+  } catch (error) {
+    console.error("❌ 찜한 상품 조회 실패:", error);
+    items = [];
+  }
+
+  console.groupEnd();
+
+  return (
+    <div className="container mx-auto px-4 py-8 max-w-7xl">
+      {/* 페이지 헤더 */}
+      <div className="mb-8">
+        <h1 className="text-3xl font-bold mb-2">찜한 상품</h1>
+        <p className="text-muted-foreground">
+          찜한 상품을 확인하고 장바구니로 옮길 수 있습니다.
+        </p>
+      </div>
+
+      {items.length === 0 ? (
+        // 빈 상태
+        <div className="flex flex-col items-center justify-center py-16 text-center">
+          <div className="text-muted-foreground mb-4">
+            <Heart className="w-24 h-24 mx-auto" strokeWidth={1} />
+          </div>
+          <h2 className="text-2xl font-semibold mb-2">찜한 상품이 없습니다</h2>
+          <p className="text-muted-foreground mb-6">
+            마음에 드는 상품의 하트를 눌러 저장해보세요!
+          </p>
+          <Link href="/products">
+            <Button>쇼핑 계속하기</Button>
+          </Link>
+        </div>
+      ) : (
+        // 찜한 상품 그리드
+        <div className="grid gap-6 grid-cols-2 sm:grid-cols-3 lg:grid-cols-4">
+          {items.map((item) => {
+            const { product } = item;
+            const isOnSale = product.is_active && product.status !== "hidden";
+            const isOutOfStock = product.stock_quantity === 0;
+            const imageUrl =
+              product.image_urls?.[0] ||
+              product.image_url ||
+              "https://via.placeholder.com/400x533?text=No+Image";
+
+            return (
+              <div key={item.id} className="space-y-3">
+                <Link
+                  href={`/products/${product.id}`}
+                  className="relative block aspect-[3/4] w-full overflow-hidden bg-muted"
+                >
+                  <Image
+                    src={imageUrl}
+                    alt={product.name}
+                    fill
+                    className="object-cover"
+                    sizes="(max-width: 640px) 50vw, (max-width: 1024px) 33vw, 25vw"
+                  />
+                  {(!isOnSale || isOutOfStock) && (
+                    <span className="absolute left-3 top-3 bg-black/70 text-white px-2 py-1 text-xs font-light">
+                      {!isOnSale ? "판매 중지" : "품절"}
+                    </span>
+                  )}
+                </Link>
+                <div className="space-y-1">
+                  <Link href={`/products/${product.id}`} className="hover:underline">
+                    <h3 className="text-sm font-semibold line-clamp-2">{product.name}</h3>
+                  </Link>
+                  <p className="text-sm">{formatPrice(getEffectivePrice(product))}원</p>
+                </div>
+                <WishlistItemActions
+                  productId={product.id}
+                  hasVariants={item.has_variants}
+                  isPurchasable={isOnSale && !isOutOfStock}
+                />
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
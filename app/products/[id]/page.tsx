@@ -7,9 +7,11 @@
  * 주요 기능:
  * 1. 상품 ID로 상품 정보 조회
  * 2. 조회수 자동 증가
- * 3. 상품 이미지, 기본 정보, 상세 정보 표시
- * 4. 수량 선택 및 구매 버튼 (Phase 3에서 기능 연결)
+ * 3. 상품 이미지, 기본 정보, 상세 정보 표시 (특가 판매 중이면 할인율, 정가, 종료 카운트다운)
+ * 4. 옵션 선택, 수량 선택 및 구매 버튼 (품절 옵션 조합 선택 불가)
  * 5. 배송/반품 안내 표시
+ * 6. 리뷰 요약(평균 별점, 별점 분포) 및 리뷰 목록 (review_page 쿼리 파라미터로 페이지 이동)
+ * 7. 재입고 알림 신청 (품절 상품)
  *
  * 핵심 구현 로직:
  * - Server Component로 구현 (Next.js 15 App Router 패턴)
@@ -21,14 +23,30 @@
  * - @/lib/supabase/server: Supabase 클라이언트
  * - @/types/product: Product 타입 정의
  * - @/lib/categories: 카테고리 유틸리티
+ * - @/lib/shipping: 배송비 안내 문구
+ * - @/actions/review: 상품 리뷰 조회
+ * - @/actions/restock: 재입고 알림 신청 여부 조회
+ * - @/components/review: 별점, 리뷰 요약, 리뷰 목록
+ * - @/components/product-price: 프로모션 기간을 반영한 판매 가격 표시
  * - @/components/ui: shadcn/ui 컴포넌트
  */
 
 import { createClerkSupabaseClient } from "@/lib/supabase/server";
-import { Product } from "@/types/product";
+import { Product, ProductVariant } from "@/types/product";
 import { getCategoryLabel } from "@/lib/categories";
+import { DEFAULT_SHIPPING_POLICY, describeShippingFee } from "@/lib/shipping";
 import { ProductPurchaseActions } from "@/components/product-purchase-actions";
+import { ProductPrice } from "@/components/product-price";
+import { getProductReviews } from "@/actions/review";
+import { getRestockSubscriptionStatus } from "@/actions/restock";
+import { StarRating } from "@/components/review/star-rating";
+import { ReviewSummary } from "@/components/review/review-summary";
+import { ReviewList } from "@/components/review/review-list";
+import { Button } from "@/components/ui/button";
+import { REVIEWS_PAGE_SIZE } from "@/lib/reviews";
+import type { ProductReviewsResult } from "@/types/review";
 import Image from "next/image";
+import Link from "next/link";
 import { notFound } from "next/navigation";
 import { Package, Truck, RotateCcw } from "lucide-react";
 
@@ -39,13 +57,9 @@ interface ProductDetailPageProps {
   params: Promise<{
     id: string;
   }>;
-}
-
-/**
- * 가격을 천단위 콤마로 포맷팅
- */
-function formatPrice(price: number): string {
-  return new Intl.NumberFormat("ko-KR").format(price);
+  searchParams: Promise<{
+    review_page?: string;
+  }>;
 }
 
 /**
@@ -88,6 +102,27 @@ async function getProduct(productId: string): Promise<Product | null> {
   }
 }
 
+/**
+ * 판매 중인 옵션 조합 조회 함수
+ * 조회에 실패하면 빈 배열을 반환합니다 (옵션 조합이 있는 상품은 장바구니 추가 시 다시 확인).
+ */
+async function getProductVariants(productId: string): Promise<ProductVariant[]> {
+  const supabase = createClerkSupabaseClient();
+  const { data, error } = await supabase
+    .from("product_variants")
+    .select("*")
+    .eq("product_id", productId)
+    .eq("is_active", true)
+    .order("created_at", { ascending: true });
+
+  if (error) {
+    console.error("❌ [getProductVariants] 옵션 조합 조회 실패:", error.message);
+    return [];
+  }
+
+  return (data ?? []) as ProductVariant[];
+}
+
 /**
  * 조회수 증가 함수
  */
@@ -104,7 +139,7 @@ async function incrementViewCount(productId: string): Promise<void> {
   }
 }
 
-export default async function ProductDetailPage({ params }: ProductDetailPageProps) {
+export default async function ProductDetailPage({ params, searchParams }: ProductDetailPageProps) {
   console.log("🛍️ [ProductDetailPage] 상품 상세 페이지 렌더링 시작");
 
   const { id: productId } = await params;
@@ -122,13 +157,28 @@ export default async function ProductDetailPage({ params }: ProductDetailPagePro
     notFound();
   }
 
+  const variants = await getProductVariants(productId);
+
+  // 리뷰 조회 (실패해도 상품 상세는 표시)
+  const { review_page } = await searchParams;
+  const reviewPage = Math.max(1, parseInt(review_page || "1", 10) || 1);
+  let reviewsResult: ProductReviewsResult | null = null;
+  try {
+    reviewsResult = await getProductReviews(productId, reviewPage);
+  } catch (error) {
+    console.error("❌ 리뷰 조회 실패:", error);
+  }
+  const reviewTotalPages = Math.ceil((reviewsResult?.totalCount ?? 0) / REVIEWS_PAGE_SIZE);
+
   // 조회수 증가 (비동기로 실행, 결과를 기다리지 않음)
   incrementViewCount(productId).catch((error) => {
     console.error("조회수 증가 오류 (무시됨):", error);
   });
 
   const isOutOfStock = product.stock_quantity === 0;
-  const priceFormatted = formatPrice(product.price);
+  const isRestockSubscribed = isOutOfStock
+    ? await getRestockSubscriptionStatus(productId)
+    : false;
   const categoryLabel = getCategoryLabel(product.category);
 
   console.log(`✅ [ProductDetailPage] 렌더링 완료: ${product.name}`);
@@ -167,11 +217,19 @@ export default async function ProductDetailPage({ params }: ProductDetailPagePro
           {/* 상품명 */}
           <h1 className="text-3xl font-bold text-foreground">{product.name}</h1>
 
+          {/* 평균 별점 */}
+          {product.review_count > 0 && (
+            <a href="#reviews" className="flex items-center gap-2 text-sm text-muted-foreground hover:underline">
+              <StarRating rating={Number(product.rating_average)} />
+              <span>
+                {Number(product.rating_average).toFixed(1)} (리뷰 {product.review_count}개)
+              </span>
+            </a>
+          )}
+
           {/* 가격 */}
           <div className="space-y-1">
-            <p className="text-4xl font-bold text-foreground">
-              {priceFormatted}원
-            </p>
+            <ProductPrice product={product} size="lg" />
             {!isOutOfStock && (
               <p className="text-sm text-muted-foreground">
                 재고 {product.stock_quantity}개
@@ -190,7 +248,11 @@ export default async function ProductDetailPage({ params }: ProductDetailPagePro
           <div className="border-t border-border" />
 
           {/* 구매 액션 (수량 선택 및 장바구니 추가) */}
-          <ProductPurchaseActions product={product} />
+          <ProductPurchaseActions
+            product={product}
+            variants={variants}
+            isRestockSubscribed={isRestockSubscribed}
+          />
 
           {/* 배송 정보 (간단 버전) */}
           <div className="pt-4 border-t border-border">
@@ -221,6 +283,49 @@ export default async function ProductDetailPage({ params }: ProductDetailPagePro
         </div>
       </div>
 
+      {/* 리뷰 섹션 */}
+      <div id="reviews" className="border-t border-border pt-8 mt-12 scroll-mt-24">
+        <h2 className="text-2xl font-bold text-foreground mb-6">
+          리뷰 {reviewsResult ? `(${reviewsResult.summary.count})` : ""}
+        </h2>
+        {reviewsResult ? (
+          <div className="space-y-6">
+            {reviewsResult.summary.count > 0 && <ReviewSummary summary={reviewsResult.summary} />}
+            <ReviewList reviews={reviewsResult.reviews} />
+
+            {/* 리뷰 페이지네이션 */}
+            {reviewTotalPages > 1 && (
+              <div className="flex items-center justify-center gap-2">
+                <Link
+                  href={`/products/${productId}${reviewPage - 1 > 1 ? `?review_page=${reviewPage - 1}` : ""}#reviews`}
+                  scroll={false}
+                >
+                  <Button variant="outline" disabled={reviewPage <= 1} size="sm">
+                    이전
+                  </Button>
+                </Link>
+                <span className="px-3 py-1 text-sm text-muted-foreground">
+                  {reviewPage} / {reviewTotalPages}
+                </span>
+                <Link
+                  href={`/products/${productId}?review_page=${Math.min(reviewPage + 1, reviewTotalPages)}#reviews`}
+                  scroll={false}
+                >
+                  <Button variant="outline" disabled={reviewPage >= reviewTotalPages} size="sm">
+                    다음
+                  </Button>
+                </Link>
+              </div>
+            )}
+          </div>
+        ) : (
+          <p className="text-muted-foreground">리뷰를 불러오지 못했습니다.</p>
+        )}
+        <p className="mt-4 text-xs text-muted-foreground">
+          리뷰는 배송이 완료된 주문의 구매자만 작성할 수 있습니다. (마이페이지 &gt; 주문 상세)
+        </p>
+      </div>
+
       {/* 배송/반품 안내 섹션 */}
       <div className="border-t border-border pt-8 mt-12">
         <h2 className="text-2xl font-bold text-foreground mb-6">배송 및 반품 안내</h2>
@@ -231,9 +336,18 @@ export default async function ProductDetailPage({ params }: ProductDetailPagePro
               <div>
                 <h3 className="font-semibold text-foreground mb-2">배송 정보</h3>
                 <ul className="text-sm text-muted-foreground space-y-1">
-                  <li>• 배송비: 무료 (5만원 이상 구매 시)</li>
+                  <li>• 배송비: {describeShippingFee(product.shipping_class)}</li>
                   <li>• 배송 기간: 평일 기준 2-3일 소요</li>
-                  <li>• 제주/도서산간 지역: 추가 배송비 및 4-5일 소요</li>
+                  <li>
+                    • 제주/도서산간 지역: 추가 배송비 (
+                    {DEFAULT_SHIPPING_POLICY.remoteAreas
+                      .map(
+                        (area) =>
+                          `${area.name} ${new Intl.NumberFormat("ko-KR").format(area.surcharge)}원`
+                      )
+                      .join(", ")}
+                    ) 및 4-5일 소요
+                  </li>
                   <li>• 배송 조회: 주문 완료 후 마이페이지에서 확인 가능</li>
                 </ul>
               </div>
@@ -2,30 +2,46 @@
  * @file app/products/page.tsx
  * @description 상품 목록 페이지
  *
- * 상품 목록을 표시하고, 카테고리 필터링, 정렬, 페이지네이션 기능을 제공합니다.
+ * 상품 목록을 표시하고, 카테고리 / 패싯 필터링, 정렬, 페이지네이션 기능을 제공합니다.
  *
  * 주요 기능:
  * 1. URL 쿼리 파라미터 기반 필터링/정렬/페이지네이션
  * 2. 카테고리별 상품 필터링
- * 3. 정렬 기능 (최신순, 가격순, 이름순)
- * 4. 페이지네이션 (12개씩)
+ * 3. 패싯 필터 (가격대, 재고 있음, 특가, 사이즈, 색상) 및 필터별 상품 수
+ * 4. 정렬 기능 (최신순, 가격순, 이름순)
+ * 5. 페이지네이션 (12개씩)
  *
  * 핵심 구현 로직:
  * - Server Component로 구현 (Next.js 15 App Router 패턴)
- * - Supabase에서 상품 데이터 조회 및 필터링
- * - URL 쿼리 파라미터로 상태 관리
+ * - filter_products / get_product_facets 함수로 필터링 및 필터별 상품 수 조회
+ * - URL 쿼리 파라미터로 상태 관리 (필터된 목록 공유 / 검색 엔진 수집 가능)
  *
  * @dependencies
  * - @/lib/supabase/server: Supabase 클라이언트
  * - @/components/product-card: 상품 카드 컴포넌트
+ * - @/components/product-filter-panel: 패싯 필터 패널
  * - @/lib/categories: 카테고리 유틸리티
+ * - @/lib/product-filters: 필터 상태 / URL 변환 규칙
  * - @/types/product: Product 타입 정의
  */
 
 import { createClerkSupabaseClient } from "@/lib/supabase/server";
 import { Product } from "@/types/product";
 import { ProductCard } from "@/components/product-card";
+import { ProductFilterPanel } from "@/components/product-filter-panel";
 import { getCategoryLabel, type CategoryInfo } from "@/lib/categories";
+import {
+  buildProductListHref,
+  compareSizes,
+  EMPTY_PRODUCT_FILTERS,
+  hasActiveFilters,
+  parseProductFilters,
+  PRICE_RANGES,
+  productFiltersToRpcParams,
+  type FacetValue,
+  type ProductFacets,
+  type ProductFilters,
+} from "@/lib/product-filters";
 import Link from "next/link";
 import { Button } from "@/components/ui/button";
 
@@ -70,10 +86,10 @@ interface GetProductsResult {
 
 /**
  * 상품 조회 함수
- * 카테고리 필터링, 정렬, 페이지네이션 지원
+ * 카테고리 / 패싯 필터링, 정렬, 페이지네이션 지원
  */
 async function getProducts(
-  category: string | null,
+  filters: ProductFilters,
   sort: SortOption,
   page: number,
   pageSize: number = 12
@@ -99,18 +115,14 @@ async function getProducts(
     }
     console.log("✅ products 테이블 존재 확인 완료");
 
-    // 쿼리 빌더 생성
+    // 쿼리 빌더 생성 (카테고리 / 패싯 필터는 filter_products 함수에서 적용)
     console.log("3. 상품 쿼리 빌더 생성 중...");
-    let query = supabase
-      .from("products")
-      .select("*", { count: "exact" })
-      .eq("is_active", true);
-
-    // 카테고리 필터 적용
-    if (category) {
-      console.log(`4. 카테고리 필터 적용: ${category}`);
-      query = query.eq("category", category);
-    }
+    console.log("4. 필터 적용:", filters);
+    let query = supabase.rpc(
+      "filter_products",
+      productFiltersToRpcParams(filters),
+      { count: "exact" }
+    );
 
     // 정렬 적용
     console.log(`5. 정렬 적용: ${sort}`);
@@ -183,56 +195,74 @@ async function getProducts(
 }
 
 /**
- * 카테고리 목록 조회 함수 (필터 UI용)
+ * 빈 필터별 상품 수 (조회 실패 시)
+ */
+const EMPTY_FACETS: ProductFacets = {
+  total: 0,
+  categories: [],
+  priceRanges: PRICE_RANGES.map((range) => ({ ...range, count: 0 })),
+  inStock: 0,
+  onSale: 0,
+  sizes: [],
+  colors: [],
+};
+
+/**
+ * 선택한 옵션 값이 필터 목록에 없으면 상품 수 0으로 추가 (선택 해제할 수 있도록)
+ */
+function withSelectedValues(values: FacetValue[], selected: string[]): FacetValue[] {
+  const missing = selected
+    .filter((value) => !values.some((facet) => facet.value === value))
+    .map((value) => ({ value, count: 0 }));
+  return [...values, ...missing];
+}
+
+/**
+ * 필터별 상품 수 조회 함수 (필터 UI용)
+ * 각 필터의 상품 수는 해당 필터를 제외한 나머지 필터를 적용해 계산합니다.
  */
-async function getCategories(): Promise<CategoryInfo[]> {
-  console.group("[getCategories] 시작");
+async function getProductFacets(filters: ProductFilters): Promise<ProductFacets> {
+  console.group("[getProductFacets] 시작");
   try {
     const supabase = createClerkSupabaseClient();
 
-    const tableExists = await checkTableExists(supabase, "products");
-    if (!tableExists) {
-      console.error("❌ [getCategories] products 테이블이 존재하지 않습니다!");
-      console.groupEnd();
-      return [];
-    }
-
-    const { data, error } = await supabase
-      .from("products")
-      .select("category")
-      .eq("is_active", true)
-      .not("category", "is", null);
+    const { data, error } = await supabase.rpc("get_product_facets", {
+      ...productFiltersToRpcParams(filters),
+      p_price_range_mins: PRICE_RANGES.map((range) => range.min),
+      p_price_range_maxs: PRICE_RANGES.map((range) => range.max),
+    });
 
-    if (error) {
-      console.error("❌ [getCategories] Supabase 쿼리 에러 발생:", error.message);
+    if (error || !data) {
+      console.error("❌ [getProductFacets] Supabase 쿼리 에러 발생:", error?.message);
       console.groupEnd();
-      return [];
+      return EMPTY_FACETS;
     }
 
-    // 카테고리별 개수 계산
-    const categoryCounts: Record<string, number> = {};
-    data?.forEach((item) => {
-      if (item.category) {
-        categoryCounts[item.category] = (categoryCounts[item.category] || 0) + 1;
-      }
-    });
-
-    // CategoryInfo 배열로 변환
-    const categories: CategoryInfo[] = Object.entries(categoryCounts)
-      .map(([category, count]) => ({
-        category,
-        label: getCategoryLabel(category),
-        count,
-      }))
-      .sort((a, b) => b.count - a.count);
-
-    console.log(`✅ [getCategories] 성공: ${categories.length}개 카테고리`);
+    const toFacetValues = (values: Array<{ value: string; count: number }> | null) =>
+      (values ?? []).map((facet) => ({ value: facet.value, count: Number(facet.count) }));
+
+    const facets: ProductFacets = {
+      total: Number(data.total),
+      categories: toFacetValues(data.categories),
+      priceRanges: PRICE_RANGES.map((range, index) => ({
+        ...range,
+        count: Number(data.price_ranges?.[index]?.count ?? 0),
+      })),
+      inStock: Number(data.in_stock),
+      onSale: Number(data.on_sale),
+      sizes: withSelectedValues(toFacetValues(data.sizes), filters.sizes).sort((a, b) =>
+        compareSizes(a.value, b.value)
+      ),
+      colors: withSelectedValues(toFacetValues(data.colors), filters.colors),
+    };
+
+    console.log(`✅ [getProductFacets] 성공: 카테고리 ${facets.categories.length}개, 사이즈 ${facets.sizes.length}개, 색상 ${facets.colors.length}개`);
     console.groupEnd();
-    return categories;
+    return facets;
   } catch (error) {
-    console.error("❌ [getCategories] 예외 발생:", error);
+    console.error("❌ [getProductFacets] 예외 발생:", error);
     console.groupEnd();
-    return [];
+    return EMPTY_FACETS;
   }
 }
 
@@ -261,25 +291,17 @@ function getSortLabel(sort: SortOption): string {
   return labels[sort];
 }
 
-/**
- * URL 쿼리 파라미터 생성 헬퍼
- */
-function buildQueryString(params: Record<string, string | null | undefined>): string {
-  const searchParams = new URLSearchParams();
-  Object.entries(params).forEach(([key, value]) => {
-    if (value) {
-      searchParams.set(key, value);
-    }
-  });
-  const queryString = searchParams.toString();
-  return queryString ? `?${queryString}` : "";
-}
-
 interface ProductsPageProps {
   searchParams: Promise<{
     category?: string;
     sort?: string;
     page?: string;
+    min_price?: string;
+    max_price?: string;
+    in_stock?: string;
+    on_sale?: string;
+    size?: string;
+    color?: string;
   }>;
 }
 
@@ -288,22 +310,33 @@ export default async function ProductsPage({ searchParams }: ProductsPageProps)
 
   // URL 쿼리 파라미터 추출
   const params = await searchParams;
-  const category = params.category || null;
+  const filters = parseProductFilters(params);
+  const category = filters.category;
   const sort = getSortOption(params.sort);
-  const page = Math.max(1, parseInt(params.page || "1", 10));
+  const sortParam = sort !== "newest" ? sort : undefined;
+  const page = Math.max(1, parseInt(params.page || "1", 10) || 1);
 
   console.log("📋 쿼리 파라미터:");
   console.log(`- category: ${category || "없음"}`);
+  console.log("- filters:", filters);
   console.log(`- sort: ${sort}`);
   console.log(`- page: ${page}`);
 
   // 데이터 조회
   const pageSize = 12;
-  const [{ products, totalCount }, categories] = await Promise.all([
-    getProducts(category, sort, page, pageSize),
-    getCategories(),
+  const [{ products, totalCount }, facets] = await Promise.all([
+    getProducts(filters, sort, page, pageSize),
+    getProductFacets(filters),
   ]);
 
+  // 카테고리 필터 (다른 필터를 적용한 카테고리별 상품 수)
+  const categories: CategoryInfo[] = facets.categories.map((facet) => ({
+    category: facet.value,
+    label: getCategoryLabel(facet.value),
+    count: facet.count,
+  }));
+  const isFiltered = hasActiveFilters(filters);
+
   // 페이지네이션 계산
   const totalPages = Math.ceil(totalCount / pageSize);
   const hasNextPage = page < totalPages;
@@ -327,11 +360,11 @@ export default async function ProductsPage({ searchParams }: ProductsPageProps)
           )}
         </section>
 
-        {/* 필터/정렬 섹션 */}
+        {/* 카테고리/정렬 섹션 */}
         <section className="mb-6 flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between">
-          {/* 카테고리 필터 */}
+          {/* 카테고리 필터 (다른 필터는 유지) */}
           <div className="flex flex-wrap gap-2">
-            <Link href="/products">
+            <Link href={buildProductListHref({ ...filters, category: null }, { sort: sortParam })}>
               <Button
                 variant={!category ? "default" : "outline"}
                 size="sm"
@@ -342,11 +375,10 @@ export default async function ProductsPage({ searchParams }: ProductsPageProps)
             {categories.map((categoryInfo) => (
               <Link
                 key={categoryInfo.category}
-                href={`/products${buildQueryString({
-                  category: categoryInfo.category,
-                  sort: sort !== "newest" ? sort : undefined,
-                  page: page > 1 ? "1" : undefined,
-                })}`}
+                href={buildProductListHref(
+                  { ...filters, category: categoryInfo.category },
+                  { sort: sortParam }
+                )}
               >
                 <Button
                   variant={category === categoryInfo.category ? "default" : "outline"}
@@ -372,11 +404,9 @@ export default async function ProductsPage({ searchParams }: ProductsPageProps)
               ).map((option) => (
                 <Link
                   key={option.value}
-                  href={`/products${buildQueryString({
-                    category: category || undefined,
+                  href={buildProductListHref(filters, {
                     sort: option.value !== "newest" ? option.value : undefined,
-                    page: page > 1 ? "1" : undefined,
-                  })}`}
+                  })}
                 >
                   <Button
                     variant={sort === option.value ? "default" : "ghost"}
@@ -391,65 +421,85 @@ export default async function ProductsPage({ searchParams }: ProductsPageProps)
           </div>
         </section>
 
-        {/* 상품 그리드 */}
-        {products.length === 0 ? (
-          <div className="rounded-lg border border-dashed p-12 text-center">
-            <p className="text-lg text-muted-foreground">
-              {category ? `${getCategoryLabel(category)} 카테고리에 상품이 없습니다.` : "등록된 상품이 없습니다."}
-            </p>
-            {category && (
-              <Link href="/products" className="mt-4 inline-block">
-                <Button variant="outline">전체 상품 보기</Button>
-              </Link>
-            )}
-          </div>
-        ) : (
-          <>
-            <div className="grid grid-cols-1 gap-4 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 mb-8">
-              {products.map((product) => (
-                <ProductCard key={product.id} product={product} />
-              ))}
-            </div>
-
-            {/* 페이지네이션 */}
-            {totalPages > 1 && (
-              <div className="flex items-center justify-center gap-2">
-                <Link
-                  href={`/products${buildQueryString({
-                    category: category || undefined,
-                    sort: sort !== "newest" ? sort : undefined,
-                    page: hasPrevPage ? String(page - 1) : undefined,
-                  })}`}
-                >
-                  <Button variant="outline" disabled={!hasPrevPage} size="sm">
-                    이전
-                  </Button>
-                </Link>
-
-                <div className="flex items-center gap-1">
-                  <span className="px-3 py-1 text-sm text-muted-foreground">
-                    {page} / {totalPages}
-                  </span>
-                  <span className="text-sm text-muted-foreground">
-                    (총 {totalCount}개)
-                  </span>
+        <div className="grid grid-cols-1 gap-8 lg:grid-cols-[220px_1fr]">
+          {/* 패싯 필터 */}
+          <aside aria-label="상품 필터">
+            <ProductFilterPanel filters={filters} facets={facets} sort={sortParam} />
+          </aside>
+
+          {/* 상품 그리드 */}
+          <div>
+            {products.length === 0 ? (
+              <div className="rounded-lg border border-dashed p-12 text-center">
+                <p className="text-lg text-muted-foreground">
+                  {isFiltered
+                    ? "조건에 맞는 상품이 없습니다."
+                    : category
+                      ? `${getCategoryLabel(category)} 카테고리에 상품이 없습니다.`
+                      : "등록된 상품이 없습니다."}
+                </p>
+                {isFiltered ? (
+                  <Link
+                    href={buildProductListHref({ ...EMPTY_PRODUCT_FILTERS, category }, { sort: sortParam })}
+                    className="mt-4 inline-block"
+                  >
+                    <Button variant="outline">필터 초기화</Button>
+                  </Link>
+                ) : (
+                  category && (
+                    <Link href="/products" className="mt-4 inline-block">
+                      <Button variant="outline">전체 상품 보기</Button>
+                    </Link>
+                  )
+                )}
+              </div>
+            ) : (
+              <>
+                <div className="grid grid-cols-1 gap-4 sm:grid-cols-2 xl:grid-cols-3 mb-8">
+                  {products.map((product) => (
+                    <ProductCard key={product.id} product={product} />
+                  ))}
                 </div>
 
-                <Link
-                  href={`/products${buildQueryString({
-                    category: category || undefined,
-                    sort: sort !== "newest" ? sort : undefined,
-                    page: hasNextPage ? String(page + 1) : undefined,
-                  })}`}
-                >
-                  <Button variant="outline" disabled={!hasNextPage} size="sm">
-                    다음
-                  </Button>
-                </Link>
-              </div>
+                {/* 페이지네이션 */}
+                {totalPages > 1 && (
+                  <div className="flex items-center justify-center gap-2">
+                    <Link
+                      href={buildProductListHref(filters, {
+                        sort: sortParam,
+                        page: hasPrevPage ? page - 1 : undefined,
+                      })}
+                    >
+                      <Button variant="outline" disabled={!hasPrevPage} size="sm">
+                        이전
+                      </Button>
+                    </Link>
+
+                    <div className="flex items-center gap-1">
+                      <span className="px-3 py-1 text-sm text-muted-foreground">
+                        {page} / {totalPages}
+                      </span>
+                      <span className="text-sm text-muted-foreground">
+                        (총 {totalCount}개)
+                      </span>
+                    </div>
+
+                    <Link
+                      href={buildProductListHref(filters, {
+                        sort: sortParam,
+                        page: hasNextPage ? page + 1 : undefined,
+                      })}
+                    >
+                      <Button variant="outline" disabled={!hasNextPage} size="sm">
+                        다음
+                      </Button>
+                    </Link>
+                  </div>
+                )}
+              </>
             )}
-          </>
-        )}
+          </div>
+        </div>
       </div>
     </main>
   );
@@ -0,0 +1,164 @@
+/**
+ * @file app/search/page.tsx
+ * @description 상품 검색 결과 페이지
+ *
+ * 검색어(q)로 상품명 / 설명 / 카테고리를 검색하고, 검색 순위순으로 결과를 표시합니다.
+ *
+ * 주요 기능:
+ * 1. URL 쿼리 파라미터 기반 검색 / 페이지네이션 (q, page)
+ * 2. 검색 순위순 상품 목록 (상품명 일치 > 카테고리 > 설명)
+ * 3. 상품명 / 설명의 검색어 강조
+ * 4. 검색창 (모바일에서 Navbar 검색창 대신 사용)
+ *
+ * 핵심 구현 로직:
+ * - Server Component로 구현 (Next.js 15 App Router 패턴)
+ * - searchProducts Server Action (search_products 함수, 한글 n-gram 검색)
+ *
+ * @dependencies
+ * - actions/search.ts: searchProducts
+ * - components/product-card.tsx: 상품 카드 (검색어 강조)
+ */
+
+import Link from "next/link";
+import { searchProducts } from "@/actions/search";
+import { ProductCard } from "@/components/product-card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { normalizeSearchQuery, SEARCH_QUERY_MAX_LENGTH } from "@/lib/search";
+import type { ProductSearchResult } from "@/types/search";
+
+/**
+ * URL 쿼리 파라미터 생성 헬퍼
+ */
+function buildQueryString(params: Record<string, string | null | undefined>): string {
+  const searchParams = new URLSearchParams();
+  Object.entries(params).forEach(([key, value]) => {
+    if (value) {
+      searchParams.set(key, value);
+    }
+  });
+  const queryString = searchParams.toString();
+  return queryString ? `?${queryString}` : "";
+}
+
+interface SearchPageProps {
+  searchParams: Promise<{
+    q?: string;
+    page?: string;
+  }>;
+}
+
+export default async function SearchPage({ searchParams }: SearchPageProps) {
+  console.log("🔍 [SearchPage] 검색 결과 페이지 렌더링 시작");
+
+  // URL 쿼리 파라미터 추출
+  const params = await searchParams;
+  const query = normalizeSearchQuery(params.q);
+  const page = Math.max(1, parseInt(params.page || "1", 10) || 1);
+
+  // 검색
+  const pageSize = 12;
+  let result: ProductSearchResult = { query, products: [], totalCount: 0 };
+  try {
+    result = await searchProducts(query, page, pageSize);
+  } catch (error) {
+    console.error("❌ [SearchPage] 상품 검색 실패:", error);
+  }
+
+  const { products, totalCount } = result;
+
+  // 페이지네이션 계산
+  const totalPages = Math.ceil(totalCount / pageSize);
+  const hasNextPage = page < totalPages;
+  const hasPrevPage = page > 1;
+
+  console.log(`✅ [SearchPage] 렌더링 완료: ${products.length}개 상품 (전체 ${totalCount}개)`);
+
+  return (
+    <main className="min-h-[calc(100vh-80px)] px-4 py-8 lg:px-8 lg:py-16">
+      <div className="mx-auto max-w-7xl">
+        {/* 헤더 + 검색창 */}
+        <section className="mb-8 space-y-4">
+          <h1 className="text-3xl font-bold lg:text-4xl">상품 검색</h1>
+          <form action="/search" role="search" className="flex max-w-xl gap-2">
+            <Input
+              type="search"
+              name="q"
+              defaultValue={query}
+              placeholder="상품명, 카테고리, 설명으로 검색"
+              maxLength={SEARCH_QUERY_MAX_LENGTH}
+              aria-label="상품 검색"
+            />
+            <Button type="submit">검색</Button>
+          </form>
+          {query && (
+            <p className="text-lg text-muted-foreground">
+              <span className="font-semibold text-foreground">&lsquo;{query}&rsquo;</span> 검색 결과{" "}
+              {totalCount}개
+            </p>
+          )}
+        </section>
+
+        {/* 검색 결과 */}
+        {!query ? (
+          <div className="rounded-lg border border-dashed p-12 text-center">
+            <p className="text-lg text-muted-foreground">검색어를 입력해주세요.</p>
+          </div>
+        ) : products.length === 0 ? (
+          <div className="rounded-lg border border-dashed p-12 text-center">
+            <p className="text-lg text-muted-foreground">
+              &lsquo;{query}&rsquo;에 대한 검색 결과가 없습니다.
+            </p>
+            <p className="mt-2 text-sm text-muted-foreground">
+              검색어의 철자를 확인하거나 다른 검색어로 검색해보세요.
+            </p>
+            <Link href="/products" className="mt-4 inline-block">
+              <Button variant="outline">전체 상품 보기</Button>
+            </Link>
+          </div>
+        ) : (
+          <>
+            <div className="grid grid-cols-1 gap-4 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 mb-8">
+              {products.map((product) => (
+                <ProductCard key={product.id} product={product} highlightQuery={query} />
+              ))}
+            </div>
+
+            {/* 페이지네이션 */}
+            {totalPages > 1 && (
+              <div className="flex items-center justify-center gap-2">
+                <Link
+                  href={`/search${buildQueryString({
+                    q: query,
+                    page: hasPrevPage && page - 1 > 1 ? String(page - 1) : undefined,
+                  })}`}
+                >
+                  <Button variant="outline" disabled={!hasPrevPage} size="sm">
+                    이전
+                  </Button>
+                </Link>
+
+                <div className="flex items-center gap-1">
+                  <span className="px-3 py-1 text-sm text-muted-foreground">
+                    {page} / {totalPages}
+                  </span>
+                </div>
+
+                <Link
+                  href={`/search${buildQueryString({
+                    q: query,
+                    page: hasNextPage ? String(page + 1) : String(page),
+                  })}`}
+                >
+                  <Button variant="outline" disabled={!hasNextPage} size="sm">
+                    다음
+                  </Button>
+                </Link>
+              </div>
+            )}
+          </>
+        )}
+      </div>
+    </main>
+  );
+}
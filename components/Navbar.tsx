@@ -5,7 +5,8 @@ import Link from "next/link";
 import React from "react";
 import { Button } from "@/components/ui/button";
 import { CartIcon } from "@/components/cart-icon";
-import { Truck } from "lucide-react";
+import { SearchBox } from "@/components/search-box";
+import { Heart, MapPin, Search, Truck } from "lucide-react";
 
 const Navbar = () => {
   return (
@@ -18,6 +19,15 @@ const Navbar = () => {
 
         {/* 우측 액션 버튼 */}
         <div className="flex items-center gap-3">
+          {/* 상품 검색 (모바일은 검색 페이지로 이동) */}
+          <SearchBox className="hidden md:block w-64" />
+          <Link
+            href="/search"
+            className="md:hidden relative inline-flex items-center justify-center p-2 hover:opacity-70 transition-opacity"
+            aria-label="상품 검색"
+          >
+            <Search className="w-5 h-5" strokeWidth={1.5} />
+          </Link>
           <CartIcon />
           <SignedOut>
             <SignInButton mode="modal">
@@ -27,6 +37,13 @@ const Navbar = () => {
             </SignInButton>
           </SignedOut>
           <SignedIn>
+            <Link
+              href="/my/wishlist"
+              className="relative inline-flex items-center justify-center p-2 hover:opacity-70 transition-opacity"
+              aria-label="찜한 상품"
+            >
+              <Heart className="w-5 h-5" strokeWidth={1.5} />
+            </Link>
             <Link
               href="/my/orders"
               className="relative inline-flex items-center justify-center p-2 hover:opacity-70 transition-opacity"
@@ -34,7 +51,15 @@ const Navbar = () => {
             >
               <Truck className="w-5 h-5" strokeWidth={1.5} />
             </Link>
-            <UserButton />
+            <UserButton>
+              <UserButton.MenuItems>
+                <UserButton.Link
+                  label="배송지 관리"
+                  labelIcon={<MapPin className="w-4 h-4" />}
+                  href="/my/addresses"
+                />
+              </UserButton.MenuItems>
+            </UserButton>
           </SignedIn>
         </div>
       </nav>
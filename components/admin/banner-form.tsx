@@ -0,0 +1,337 @@
+/**
+ * @file components/admin/banner-form.tsx
+ * @description 배너 등록/수정 폼 컴포넌트
+ *
+ * 관리자가 홈 브랜드 배너를 등록하거나 수정하는 폼입니다.
+ *
+ * 주요 기능:
+ * 1. 배너 기본 정보 입력 (제목, 서식 있는 설명 + 미리보기)
+ * 2. 배너 이미지 업로드, 클릭 시 이동할 링크
+ * 3. 연결 상품 선택 (검색, 순서 변경)
+ * 4. 노출 기간 / 노출 여부 설정
+ *
+ * @dependencies
+ * - react-hook-form: 폼 관리
+ * - zod: 유효성 검사
+ * - actions/admin/banners.ts: 배너 생성/수정
+ * - components/admin/banner-image-upload.tsx: 배너 이미지 업로드
+ * - components/admin/product-picker.tsx: 연결 상품 선택
+ * - components/rich-text.tsx: 설명 미리보기
+ */
+
+"use client";
+
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { useRouter } from "next/navigation";
+import { useState, useTransition } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { BannerImageUpload } from "@/components/admin/banner-image-upload";
+import { ProductPicker } from "@/components/admin/product-picker";
+import { RichText } from "@/components/rich-text";
+import { createBanner, updateBanner } from "@/actions/admin/banners";
+import { isAllowedBannerLink, MAX_BANNER_PRODUCTS } from "@/lib/banners";
+import { toDateTimeLocal } from "@/lib/utils";
+import type { Banner } from "@/types/banner";
+import type { Product } from "@/types/product";
+
+/**
+ * 배너 폼 스키마 (Zod)
+ */
+const bannerFormSchema = z
+  .object({
+    title: z.string().min(1, "배너 제목을 입력해주세요.").max(100, "배너 제목은 100자 이하여야 합니다."),
+    description: z.string().max(2000, "설명은 2000자 이하여야 합니다.").optional().nullable(),
+    image_url: z.string().min(1, "배너 이미지를 업로드해주세요."),
+    link_url: z
+      .string()
+      .refine((value) => !value || isAllowedBannerLink(value), {
+        message: "/로 시작하는 사이트 내부 경로 또는 http(s) URL을 입력해주세요.",
+      })
+      .optional()
+      .nullable(),
+    starts_at: z.string().nullable(),
+    ends_at: z.string().nullable(),
+    is_active: z.boolean(),
+  })
+  .refine(
+    (data) =>
+      !data.starts_at || !data.ends_at || new Date(data.starts_at) < new Date(data.ends_at),
+    { message: "종료일시는 시작일시 이후여야 합니다.", path: ["ends_at"] }
+  );
+
+type BannerFormValues = z.infer<typeof bannerFormSchema>;
+
+/**
+ * datetime-local 입력 값을 ISO 8601 timestamp로 변환합니다.
+ */
+function toIsoString(value: string | null): string | null {
+  return value ? new Date(value).toISOString() : null;
+}
+
+interface BannerFormProps {
+  banner?: Banner;
+  products?: Product[]; // 연결 상품 (수정 시)
+}
+
+export function BannerForm({ banner, products = [] }: BannerFormProps) {
+  const router = useRouter();
+  const [isPending, startTransition] = useTransition();
+  const [linkedProducts, setLinkedProducts] = useState<Product[]>(products);
+
+  const isEditMode = !!banner;
+
+  const form = useForm<BannerFormValues>({
+    resolver: zodResolver(bannerFormSchema),
+    defaultValues: {
+      title: banner?.title ?? "",
+      description: banner?.description ?? null,
+      image_url: banner?.image_url ?? "",
+      link_url: banner?.link_url ?? null,
+      starts_at: toDateTimeLocal(banner?.starts_at ?? null),
+      ends_at: toDateTimeLocal(banner?.ends_at ?? null),
+      is_active: banner?.is_active ?? true,
+    },
+  });
+
+  const description = form.watch("description");
+
+  const onSubmit = async (data: BannerFormValues) => {
+    startTransition(async () => {
+      try {
+        const payload = {
+          title: data.title,
+          description: data.description || null,
+          image_url: data.image_url,
+          link_url: data.link_url || null,
+          product_ids: linkedProducts.map((product) => product.id),
+          is_active: data.is_active,
+          starts_at: toIsoString(data.starts_at),
+          ends_at: toIsoString(data.ends_at),
+        };
+
+        if (isEditMode && banner) {
+          await updateBanner({ id: banner.id, ...payload });
+        } else {
+          await createBanner(payload);
+        }
+
+        // 성공 시 목록으로 이동
+        router.push("/admin/banners");
+        router.refresh();
+      } catch (error) {
+        console.error("배너 저장 에러:", error);
+        alert(
+          `배너 저장에 실패했습니다: ${error instanceof Error ? error.message : "알 수 없는 에러"}`
+        );
+      }
+    });
+  };
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+        {/* 기본 정보 */}
+        <div className="space-y-4">
+          <h2 className="text-xl font-semibold">기본 정보</h2>
+
+          <FormField
+            control={form.control}
+            name="title"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>배너 제목 *</FormLabel>
+                <FormControl>
+                  <Input placeholder="ASHLEY WILLIAMS" {...field} />
+                </FormControl>
+                <FormDescription>설명 위에 표시되고, 이미지 대체 텍스트로도 사용됩니다.</FormDescription>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="description"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>설명</FormLabel>
+                <FormControl>
+                  <Textarea
+                    placeholder="브랜드 소개를 입력하세요"
+                    rows={5}
+                    {...field}
+                    value={field.value ?? ""}
+                  />
+                </FormControl>
+                <FormDescription>
+                  &lt;br&gt;, &lt;p&gt;, &lt;strong&gt;, &lt;em&gt;, &lt;u&gt;, &lt;a href&gt; 태그를 사용할 수
+                  있습니다. 그 외 태그는 표시되지 않습니다.
+                </FormDescription>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          {description && (
+            <div className="rounded-md border p-4">
+              <p className="mb-2 text-xs text-muted-foreground">미리보기</p>
+              <RichText content={description} className="text-sm" />
+            </div>
+          )}
+        </div>
+
+        {/* 배너 이미지 */}
+        <div className="space-y-4">
+          <h2 className="text-xl font-semibold">배너 이미지</h2>
+
+          <FormField
+            control={form.control}
+            name="image_url"
+            render={({ field }) => (
+              <FormItem>
+                <FormControl>
+                  <BannerImageUpload
+                    imageUrl={field.value || null}
+                    onChange={(imageUrl) => field.onChange(imageUrl ?? "")}
+                    folder="banners"
+                  />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="link_url"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>링크</FormLabel>
+                <FormControl>
+                  <Input
+                    placeholder="/products?category=collaboration"
+                    {...field}
+                    value={field.value ?? ""}
+                  />
+                </FormControl>
+                <FormDescription>이미지를 클릭하면 이동할 주소입니다. 비워두면 링크 없이 표시됩니다.</FormDescription>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+
+        {/* 연결 상품 */}
+        <div className="space-y-4">
+          <h2 className="text-xl font-semibold">연결 상품</h2>
+          <p className="text-sm text-muted-foreground">
+            배너 아래에 함께 표시할 상품입니다. (최대 {MAX_BANNER_PRODUCTS}개, 판매 중인 상품만 표시)
+          </p>
+          <ProductPicker
+            products={linkedProducts}
+            onChange={setLinkedProducts}
+            maxProducts={MAX_BANNER_PRODUCTS}
+          />
+        </div>
+
+        {/* 노출 설정 */}
+        <div className="space-y-4">
+          <h2 className="text-xl font-semibold">노출 설정</h2>
+
+          <div className="grid grid-cols-2 gap-4">
+            <FormField
+              control={form.control}
+              name="starts_at"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>노출 시작일시</FormLabel>
+                  <FormControl>
+                    <Input
+                      type="datetime-local"
+                      {...field}
+                      value={field.value ?? ""}
+                      onChange={(e) => field.onChange(e.target.value || null)}
+                    />
+                  </FormControl>
+                  <FormDescription>비워두면 바로 노출됩니다.</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="ends_at"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>노출 종료일시</FormLabel>
+                  <FormControl>
+                    <Input
+                      type="datetime-local"
+                      {...field}
+                      value={field.value ?? ""}
+                      onChange={(e) => field.onChange(e.target.value || null)}
+                    />
+                  </FormControl>
+                  <FormDescription>비워두면 계속 노출됩니다.</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          </div>
+
+          <FormField
+            control={form.control}
+            name="is_active"
+            render={({ field }) => (
+              <FormItem className="flex items-center gap-2">
+                <FormControl>
+                  <input
+                    type="checkbox"
+                    checked={field.value}
+                    onChange={field.onChange}
+                    className="h-4 w-4 rounded border-gray-300"
+                  />
+                </FormControl>
+                <div className="space-y-0.5">
+                  <FormLabel className="cursor-pointer">노출</FormLabel>
+                  <FormDescription>
+                    해제하면 노출 기간과 관계없이 홈에 표시되지 않습니다.
+                  </FormDescription>
+                </div>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+
+        {/* 제출 버튼 */}
+        <div className="flex gap-4">
+          <Button type="submit" disabled={isPending}>
+            {isPending ? "저장 중..." : isEditMode ? "수정 완료" : "배너 등록"}
+          </Button>
+          <Button
+            type="button"
+            variant="outline"
+            onClick={() => router.back()}
+          >
+            취소
+          </Button>
+        </div>
+      </form>
+    </Form>
+  );
+}
@@ -0,0 +1,149 @@
+/**
+ * @file components/admin/banner-image-upload.tsx
+ * @description 배너 이미지 업로드 컴포넌트
+ *
+ * 관리자가 배너 이미지 한 장을 업로드하고 미리보기 / 교체 / 삭제할 수 있는 컴포넌트입니다.
+ * 업로드 경로와 URL 생성 방식은 상품 이미지 업로드(product-image-upload.tsx)와 같습니다.
+ *
+ * @dependencies
+ * - lib/supabase/clerk-client.ts: Supabase 클라이언트
+ * - @clerk/nextjs: Clerk 인증
+ */
+
+"use client";
+
+import { useState, useCallback } from "react";
+import Image from "next/image";
+import { useUser } from "@clerk/nextjs";
+import { useClerkSupabaseClient } from "@/lib/supabase/clerk-client";
+import { Button } from "@/components/ui/button";
+import { X, Upload, ImageIcon } from "lucide-react";
+
+interface BannerImageUploadProps {
+  imageUrl: string | null;
+  onChange: (imageUrl: string | null) => void;
+  folder: string; // 저장 폴더 (예: campaigns)
+}
+
+const STORAGE_BUCKET = process.env.NEXT_PUBLIC_STORAGE_BUCKET || "uploads";
+const MAX_IMAGE_SIZE = 6 * 1024 * 1024; // 6MB
+const ALLOWED_IMAGE_TYPES = ["image/jpeg", "image/jpg", "image/png", "image/webp"];
+
+export function BannerImageUpload({ imageUrl, onChange, folder }: BannerImageUploadProps) {
+  const { user } = useUser();
+  const supabase = useClerkSupabaseClient();
+  const [uploading, setUploading] = useState(false);
+
+  // 이미지 업로드 (기존 이미지는 교체)
+  const handleUpload = useCallback(
+    async (files: FileList | null) => {
+      const file = files?.[0];
+      if (!user || !file) return;
+
+      // 파일 유효성 검사
+      if (!ALLOWED_IMAGE_TYPES.includes(file.type)) {
+        alert(`${file.name}은(는) 지원하지 않는 파일 형식입니다. (JPEG, PNG, WebP만 가능)`);
+        return;
+      }
+      if (file.size > MAX_IMAGE_SIZE) {
+        alert(`${file.name}은(는) 파일 크기가 너무 큽니다. (최대 6MB)`);
+        return;
+      }
+
+      try {
+        setUploading(true);
+
+        const fileExt = file.name.split(".").pop();
+        const fileName = `${folder}/${Date.now()}-${Math.random().toString(36).substring(7)}.${fileExt}`;
+        const filePath = `${user.id}/${fileName}`;
+
+        const { error: uploadError } = await supabase.storage
+          .from(STORAGE_BUCKET)
+          .upload(filePath, file, {
+            cacheControl: "3600",
+            upsert: false,
+          });
+
+        if (uploadError) throw uploadError;
+
+        // 공개 URL 가져오기 (public bucket이 아닌 경우 signed URL 사용)
+        const { data: urlData } = supabase.storage
+          .from(STORAGE_BUCKET)
+          .getPublicUrl(filePath);
+
+        // private bucket인 경우 signed URL 생성
+        const { data: signedData } = await supabase.storage
+          .from(STORAGE_BUCKET)
+          .createSignedUrl(filePath, 3600 * 24 * 365); // 1년 유효
+
+        onChange(signedData?.signedUrl || urlData.publicUrl);
+      } catch (error) {
+        console.error("배너 이미지 업로드 에러:", error);
+        alert(
+          `이미지 업로드에 실패했습니다: ${error instanceof Error ? error.message : "알 수 없는 에러"}`
+        );
+      } finally {
+        setUploading(false);
+      }
+    },
+    [user, supabase, folder, onChange]
+  );
+
+  return (
+    <div className="space-y-4">
+      {/* 업로드 버튼 */}
+      <div>
+        <label className="cursor-pointer">
+          <input
+            type="file"
+            accept="image/jpeg,image/jpg,image/png,image/webp"
+            onChange={(e) => handleUpload(e.target.files)}
+            disabled={uploading}
+            className="hidden"
+          />
+          <Button type="button" variant="outline" disabled={uploading} asChild>
+            <span>
+              <Upload className="mr-2 h-4 w-4" />
+              {uploading ? "업로드 중..." : imageUrl ? "이미지 변경" : "이미지 추가"}
+            </span>
+          </Button>
+        </label>
+        <p className="mt-2 text-sm text-muted-foreground">
+          JPEG, PNG, WebP 형식의 이미지를 업로드할 수 있습니다. (최대 6MB, 세로형 3:4 권장)
+        </p>
+      </div>
+
+      {/* 미리보기 */}
+      {imageUrl ? (
+        <div className="relative group w-48">
+          <div className="relative aspect-[3/4] overflow-hidden rounded-lg border">
+            <Image
+              src={imageUrl}
+              alt="배너 이미지"
+              fill
+              sizes="192px"
+              className="object-cover"
+            />
+            {/* 삭제 버튼 */}
+            <button
+              type="button"
+              onClick={() => onChange(null)}
+              className="absolute top-2 right-2 rounded bg-red-500 p-1 text-white opacity-0 transition-opacity hover:bg-red-600 group-hover:opacity-100"
+            >
+              <X className="h-4 w-4" />
+            </button>
+          </div>
+        </div>
+      ) : (
+        !uploading && (
+          <div className="flex flex-col items-center justify-center rounded-lg border-2 border-dashed p-12 text-center">
+            <ImageIcon className="mb-4 h-12 w-12 text-muted-foreground" />
+            <p className="text-sm text-muted-foreground">
+              아직 업로드된 이미지가 없습니다.
+            </p>
+          </div>
+        )
+      )}
+    </div>
+  );
+}
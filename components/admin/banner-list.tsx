@@ -0,0 +1,212 @@
+/**
+ * @file components/admin/banner-list.tsx
+ * @description 관리자용 배너 목록 컴포넌트
+ *
+ * 관리자가 홈 배너 목록을 조회하고 노출 순서를 바꾸거나 관리할 수 있는 컴포넌트입니다.
+ *
+ * 주요 기능:
+ * 1. 전체 배너 목록 표시 (이미지, 링크, 연결 상품 수, 노출 기간)
+ * 2. 배너 상태 표시 (숨김 / 예정 / 노출 중 / 종료)
+ * 3. 노출 순서 변경 (위 / 아래)
+ * 4. 배너 수정 링크, 삭제
+ *
+ * @dependencies
+ * - actions/admin/banners.ts: 배너 데이터 조회 / 삭제 / 순서 변경
+ * - lib/banners.ts: 배너 상태
+ * - components/ui: shadcn/ui 컴포넌트
+ */
+
+"use client";
+
+import { useState, useEffect, useTransition } from "react";
+import Image from "next/image";
+import Link from "next/link";
+import { Button } from "@/components/ui/button";
+import { getAdminBanners, deleteBanner, reorderBanners } from "@/actions/admin/banners";
+import {
+  BANNER_STATE_COLORS,
+  BANNER_STATE_LABELS,
+  MAX_HOME_BANNERS,
+  getBannerState,
+} from "@/lib/banners";
+import type { Banner } from "@/types/banner";
+
+export function BannerList() {
+  const [banners, setBanners] = useState<Banner[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [isPending, startTransition] = useTransition();
+
+  // 배너 목록 조회
+  const loadBanners = async () => {
+    setLoading(true);
+    try {
+      const data = await getAdminBanners();
+      setBanners(data);
+    } catch (error) {
+      console.error("배너 목록 조회 에러:", error);
+      // 에러 발생 시 빈 배열로 설정
+      setBanners([]);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // 초기 로드
+  useEffect(() => {
+    startTransition(() => {
+      loadBanners();
+    });
+  }, []);
+
+  // 노출 순서 변경 (화면에 먼저 반영하고 저장)
+  const handleMove = (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= banners.length) return;
+
+    const next = [...banners];
+    [next[index], next[target]] = [next[target], next[index]];
+    setBanners(next);
+
+    startTransition(async () => {
+      try {
+        await reorderBanners(next.map((banner) => banner.id));
+      } catch (error) {
+        console.error("배너 순서 변경 에러:", error);
+        alert(`배너 순서 변경에 실패했습니다: ${error instanceof Error ? error.message : "알 수 없는 에러"}`);
+        // 저장된 순서로 되돌림
+        loadBanners();
+      }
+    });
+  };
+
+  // 배너 삭제 처리
+  const handleDelete = async (banner: Banner) => {
+    if (!confirm(`"${banner.title}" 배너를 삭제하시겠습니까?`)) {
+      return;
+    }
+
+    try {
+      await deleteBanner(banner.id);
+      // 목록 새로고침
+      loadBanners();
+    } catch (error) {
+      console.error("배너 삭제 에러:", error);
+      alert(`배너 삭제에 실패했습니다: ${error instanceof Error ? error.message : "알 수 없는 에러"}`);
+    }
+  };
+
+  // 날짜 포맷팅
+  const formatDate = (value: string | null): string => {
+    return value ? new Date(value).toLocaleString("ko-KR") : "-";
+  };
+
+  if (loading) {
+    return <div className="text-center py-8">배너 목록을 불러오는 중...</div>;
+  }
+
+  if (banners.length === 0) {
+    return <div className="text-center py-12 text-muted-foreground">등록된 배너가 없습니다.</div>;
+  }
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-muted-foreground">
+        홈에는 진행 중인 캠페인 배너 다음에 노출 중인 배너가 순서대로 최대 {MAX_HOME_BANNERS}개까지
+        표시됩니다.
+      </p>
+
+      <div className="overflow-x-auto">
+        <table className="w-full border-collapse">
+          <thead>
+            <tr className="border-b">
+              <th className="px-4 py-3 text-left text-sm font-semibold">순서</th>
+              <th className="px-4 py-3 text-left text-sm font-semibold">이미지</th>
+              <th className="px-4 py-3 text-left text-sm font-semibold">제목</th>
+              <th className="px-4 py-3 text-left text-sm font-semibold">연결 상품</th>
+              <th className="px-4 py-3 text-left text-sm font-semibold">노출 기간</th>
+              <th className="px-4 py-3 text-left text-sm font-semibold">상태</th>
+              <th className="px-4 py-3 text-left text-sm font-semibold">작업</th>
+            </tr>
+          </thead>
+          <tbody>
+            {banners.map((banner, index) => {
+              const state = getBannerState(banner);
+
+              return (
+                <tr key={banner.id} className="border-b hover:bg-muted/50">
+                  <td className="px-4 py-3">
+                    <div className="flex items-center gap-1">
+                      <span className="w-6 text-sm">{index + 1}</span>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => handleMove(index, -1)}
+                        disabled={isPending || index === 0}
+                      >
+                        ↑
+                      </Button>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => handleMove(index, 1)}
+                        disabled={isPending || index === banners.length - 1}
+                      >
+                        ↓
+                      </Button>
+                    </div>
+                  </td>
+                  <td className="px-4 py-3">
+                    <div className="relative h-20 w-16 overflow-hidden rounded border bg-muted">
+                      <Image
+                        src={banner.image_url}
+                        alt={banner.title}
+                        fill
+                        sizes="64px"
+                        className="object-cover"
+                      />
+                    </div>
+                  </td>
+                  <td className="px-4 py-3">
+                    <div className="font-medium">{banner.title}</div>
+                    <div className="text-sm text-muted-foreground line-clamp-1">
+                      {banner.link_url ?? "링크 없음"}
+                    </div>
+                  </td>
+                  <td className="px-4 py-3 text-sm">{banner.product_ids.length}개</td>
+                  <td className="px-4 py-3 text-sm">
+                    <div>{formatDate(banner.starts_at)}</div>
+                    <div className="text-muted-foreground">~ {formatDate(banner.ends_at)}</div>
+                  </td>
+                  <td className="px-4 py-3">
+                    <span
+                      className={`inline-block rounded-full px-2 py-1 text-xs text-white ${BANNER_STATE_COLORS[state]}`}
+                    >
+                      {BANNER_STATE_LABELS[state]}
+                    </span>
+                  </td>
+                  <td className="px-4 py-3">
+                    <div className="flex gap-2">
+                      <Link href={`/admin/banners/${banner.id}/edit`}>
+                        <Button variant="outline" size="sm">
+                          수정
+                        </Button>
+                      </Link>
+                      <Button
+                        variant="destructive"
+                        size="sm"
+                        onClick={() => handleDelete(banner)}
+                        disabled={isPending}
+                      >
+                        삭제
+                      </Button>
+                    </div>
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,365 @@
+/**
+ * @file components/admin/campaign-form.tsx
+ * @description 캠페인 등록/수정 폼 컴포넌트
+ *
+ * 관리자가 프로모션 캠페인을 등록하거나 수정하는 폼입니다.
+ *
+ * 주요 기능:
+ * 1. 캠페인 기본 정보 입력 (이름, 설명)
+ * 2. 할인 규칙 설정 (정액 / 정률)
+ * 3. 캠페인 기간 설정 (예정된 캠페인은 시작 시각에 자동 적용)
+ * 4. 대상 카테고리 선택 (해당 카테고리의 판매 중인 상품에 일괄 적용)
+ * 5. 홈 배너 이미지 업로드
+ *
+ * @dependencies
+ * - react-hook-form: 폼 관리
+ * - zod: 유효성 검사
+ * - actions/admin/campaigns.ts: 캠페인 생성/수정
+ * - components/admin/banner-image-upload.tsx: 배너 이미지 업로드
+ */
+
+"use client";
+
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { useRouter } from "next/navigation";
+import { useTransition } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { BannerImageUpload } from "@/components/admin/banner-image-upload";
+import { createCampaign, updateCampaign } from "@/actions/admin/campaigns";
+import { toDateTimeLocal } from "@/lib/utils";
+import type { Campaign } from "@/types/campaign";
+
+/**
+ * 카테고리 옵션
+ */
+const CATEGORIES = [
+  { value: "electronics", label: "전자제품" },
+  { value: "clothing", label: "의류" },
+  { value: "books", label: "도서" },
+  { value: "food", label: "식품" },
+  { value: "sports", label: "스포츠" },
+  { value: "beauty", label: "뷰티" },
+  { value: "home", label: "생활/가정" },
+  { value: "collaboration", label: "디자인 콜라보" },
+] as const;
+
+/**
+ * 할인 방식 옵션
+ */
+const DISCOUNT_TYPE_OPTIONS = [
+  { value: "fixed", label: "정액 할인 (원)" },
+  { value: "percentage", label: "정률 할인 (%)" },
+] as const;
+
+/**
+ * 캠페인 폼 스키마 (Zod)
+ */
+const campaignFormSchema = z
+  .object({
+    name: z.string().min(1, "캠페인 이름을 입력해주세요.").max(100, "캠페인 이름은 100자 이하여야 합니다."),
+    description: z.string().max(500, "설명은 500자 이하여야 합니다.").optional().nullable(),
+    discount_type: z.enum(["fixed", "percentage"]),
+    discount_value: z.number().positive("할인 값은 0보다 커야 합니다."),
+    starts_at: z.string().min(1, "시작일시를 입력해주세요."),
+    ends_at: z.string().min(1, "종료일시를 입력해주세요."),
+    target_categories: z.array(z.string()),
+    banner_image_url: z.string().nullable(),
+  })
+  .refine(
+    (data) => data.discount_type !== "percentage" || data.discount_value < 100,
+    { message: "정률 할인은 100% 미만이어야 합니다.", path: ["discount_value"] }
+  )
+  .refine(
+    (data) => new Date(data.starts_at) < new Date(data.ends_at),
+    { message: "종료일시는 시작일시 이후여야 합니다.", path: ["ends_at"] }
+  );
+
+type CampaignFormValues = z.infer<typeof campaignFormSchema>;
+
+const selectClassName =
+  "flex h-9 w-full rounded-md border border-input bg-transparent px-3 py-1 text-sm shadow-xs transition-colors focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring";
+
+interface CampaignFormProps {
+  campaign?: Campaign;
+}
+
+export function CampaignForm({ campaign }: CampaignFormProps) {
+  const router = useRouter();
+  const [isPending, startTransition] = useTransition();
+
+  const isEditMode = !!campaign;
+
+  const form = useForm<CampaignFormValues>({
+    resolver: zodResolver(campaignFormSchema),
+    defaultValues: {
+      name: campaign?.name ?? "",
+      description: campaign?.description ?? null,
+      discount_type: campaign?.discount_type ?? "percentage",
+      discount_value: campaign ? Number(campaign.discount_value) : 0,
+      starts_at: toDateTimeLocal(campaign?.starts_at) ?? "",
+      ends_at: toDateTimeLocal(campaign?.ends_at) ?? "",
+      target_categories: campaign?.target_categories ?? [],
+      banner_image_url: campaign?.banner_image_url ?? null,
+    },
+  });
+
+  const discountType = form.watch("discount_type");
+
+  const onSubmit = async (data: CampaignFormValues) => {
+    startTransition(async () => {
+      try {
+        const payload = {
+          name: data.name,
+          description: data.description || null,
+          discount_type: data.discount_type,
+          discount_value: data.discount_value,
+          starts_at: new Date(data.starts_at).toISOString(),
+          ends_at: new Date(data.ends_at).toISOString(),
+          target_categories: data.target_categories,
+          banner_image_url: data.banner_image_url,
+        };
+
+        if (isEditMode && campaign) {
+          await updateCampaign({ id: campaign.id, ...payload });
+          router.refresh();
+          alert("캠페인이 저장되었습니다. 적용 상품에 변경 내용이 반영되었습니다.");
+        } else {
+          const created = await createCampaign(payload);
+          // 성공 시 적용 상품 관리 화면으로 이동
+          router.push(`/admin/campaigns/${created.id}/edit`);
+          router.refresh();
+        }
+      } catch (error) {
+        console.error("캠페인 저장 에러:", error);
+        alert(
+          `캠페인 저장에 실패했습니다: ${error instanceof Error ? error.message : "알 수 없는 에러"}`
+        );
+      }
+    });
+  };
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+        {/* 기본 정보 */}
+        <div className="space-y-4">
+          <h2 className="text-xl font-semibold">기본 정보</h2>
+
+          <FormField
+            control={form.control}
+            name="name"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>캠페인 이름 *</FormLabel>
+                <FormControl>
+                  <Input placeholder="봄맞이 특가전" {...field} />
+                </FormControl>
+                <FormDescription>홈 배너 이미지의 대체 텍스트로도 사용됩니다.</FormDescription>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="description"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>설명</FormLabel>
+                <FormControl>
+                  <Textarea
+                    placeholder="관리용 메모를 입력하세요"
+                    rows={3}
+                    {...field}
+                    value={field.value ?? ""}
+                  />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+
+        {/* 할인 규칙 */}
+        <div className="space-y-4">
+          <h2 className="text-xl font-semibold">할인 규칙</h2>
+
+          <div className="grid grid-cols-2 gap-4">
+            <FormField
+              control={form.control}
+              name="discount_type"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>할인 방식 *</FormLabel>
+                  <FormControl>
+                    <select {...field} className={selectClassName}>
+                      {DISCOUNT_TYPE_OPTIONS.map((option) => (
+                        <option key={option.value} value={option.value}>
+                          {option.label}
+                        </option>
+                      ))}
+                    </select>
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="discount_value"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>
+                    할인 {discountType === "percentage" ? "비율 (%)" : "금액 (원)"} *
+                  </FormLabel>
+                  <FormControl>
+                    <Input
+                      type="number"
+                      min="0"
+                      step="1"
+                      {...field}
+                      onChange={(e) => field.onChange(Number(e.target.value))}
+                    />
+                  </FormControl>
+                  <FormDescription>
+                    상품 정가 기준으로 할인합니다. (정률 할인은 원 단위 미만 버림)
+                  </FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          </div>
+        </div>
+
+        {/* 캠페인 기간 */}
+        <div className="space-y-4">
+          <h2 className="text-xl font-semibold">캠페인 기간</h2>
+
+          <div className="grid grid-cols-2 gap-4">
+            <FormField
+              control={form.control}
+              name="starts_at"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>시작일시 *</FormLabel>
+                  <FormControl>
+                    <Input type="datetime-local" {...field} />
+                  </FormControl>
+                  <FormDescription>시작 전에는 상품이 정가로 판매됩니다.</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="ends_at"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>종료일시 *</FormLabel>
+                  <FormControl>
+                    <Input type="datetime-local" {...field} />
+                  </FormControl>
+                  <FormDescription>종료 후에는 상품이 정가로 판매됩니다.</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          </div>
+        </div>
+
+        {/* 대상 상품 */}
+        <div className="space-y-4">
+          <h2 className="text-xl font-semibold">대상 상품</h2>
+
+          <FormField
+            control={form.control}
+            name="target_categories"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>대상 카테고리</FormLabel>
+                <div className="flex flex-wrap gap-4">
+                  {CATEGORIES.map((cat) => (
+                    <label key={cat.value} className="flex items-center gap-2 text-sm cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked={field.value.includes(cat.value)}
+                        onChange={(e) =>
+                          field.onChange(
+                            e.target.checked
+                              ? [...field.value, cat.value]
+                              : field.value.filter((value) => value !== cat.value)
+                          )
+                        }
+                        className="h-4 w-4 rounded border-gray-300"
+                      />
+                      {cat.label}
+                    </label>
+                  ))}
+                </div>
+                <FormDescription>
+                  선택한 카테고리의 판매 중인 상품에 캠페인이 적용됩니다. 개별 상품은 저장 후 추가할 수
+                  있습니다.
+                </FormDescription>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+
+        {/* 배너 이미지 */}
+        <div className="space-y-4">
+          <h2 className="text-xl font-semibold">홈 배너</h2>
+
+          <FormField
+            control={form.control}
+            name="banner_image_url"
+            render={({ field }) => (
+              <FormItem>
+                <FormControl>
+                  <BannerImageUpload
+                    imageUrl={field.value}
+                    onChange={field.onChange}
+                    folder="campaigns"
+                  />
+                </FormControl>
+                <FormDescription>
+                  캠페인 기간 동안 홈 배너에 표시됩니다. 비워두면 배너 없이 진행됩니다.
+                </FormDescription>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+
+        {/* 제출 버튼 */}
+        <div className="flex gap-4">
+          <Button type="submit" disabled={isPending}>
+            {isPending ? "저장 중..." : isEditMode ? "수정 완료" : "캠페인 등록"}
+          </Button>
+          <Button
+            type="button"
+            variant="outline"
+            onClick={() => router.back()}
+          >
+            취소
+          </Button>
+        </div>
+      </form>
+    </Form>
+  );
+}
@@ -0,0 +1,182 @@
+/**
+ * @file components/admin/campaign-list.tsx
+ * @description 관리자용 캠페인 목록 컴포넌트
+ *
+ * 관리자가 프로모션 캠페인 목록을 조회하고 관리할 수 있는 컴포넌트입니다.
+ *
+ * 주요 기능:
+ * 1. 전체 캠페인 목록 표시 (할인 규칙, 대상 카테고리, 기간, 적용 상품 수)
+ * 2. 검색 기능 (캠페인 이름)
+ * 3. 캠페인 상태 표시 (예정 / 진행 중 / 종료)
+ * 4. 캠페인 수정 링크, 삭제 (적용 상품은 캠페인 적용 전 가격으로 복원)
+ *
+ * @dependencies
+ * - actions/admin/campaigns.ts: 캠페인 데이터 조회 / 삭제
+ * - lib/campaigns.ts: 캠페인 상태, 할인 문구
+ * - components/ui: shadcn/ui 컴포넌트
+ */
+
+"use client";
+
+import { useState, useEffect, useTransition } from "react";
+import Link from "next/link";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { getAdminCampaigns, deleteCampaign, type AdminCampaign } from "@/actions/admin/campaigns";
+import {
+  CAMPAIGN_STATE_COLORS,
+  CAMPAIGN_STATE_LABELS,
+  describeCampaignDiscount,
+  getCampaignState,
+} from "@/lib/campaigns";
+import { getCategoryLabel } from "@/lib/categories";
+
+export function CampaignList() {
+  const [campaigns, setCampaigns] = useState<AdminCampaign[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [search, setSearch] = useState("");
+  const [isPending, startTransition] = useTransition();
+
+  // 캠페인 목록 조회
+  const loadCampaigns = async () => {
+    setLoading(true);
+    try {
+      const data = await getAdminCampaigns(search || undefined);
+      setCampaigns(data);
+    } catch (error) {
+      console.error("캠페인 목록 조회 에러:", error);
+      // 에러 발생 시 빈 배열로 설정
+      setCampaigns([]);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // 초기 로드 및 검색어 변경 시 자동 조회
+  useEffect(() => {
+    startTransition(() => {
+      loadCampaigns();
+    });
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [search]);
+
+  // 캠페인 삭제 처리
+  const handleDelete = async (campaign: AdminCampaign) => {
+    if (
+      !confirm(
+        campaign.product_count > 0
+          ? `"${campaign.name}" 캠페인을 삭제하시겠습니까? 적용 상품 ${campaign.product_count}개는 캠페인 적용 전 가격으로 복원됩니다.`
+          : `"${campaign.name}" 캠페인을 삭제하시겠습니까?`
+      )
+    ) {
+      return;
+    }
+
+    try {
+      await deleteCampaign(campaign.id);
+      // 목록 새로고침
+      loadCampaigns();
+    } catch (error) {
+      console.error("캠페인 삭제 에러:", error);
+      alert(`캠페인 삭제에 실패했습니다: ${error instanceof Error ? error.message : "알 수 없는 에러"}`);
+    }
+  };
+
+  // 날짜 포맷팅
+  const formatDate = (value: string): string => {
+    return new Date(value).toLocaleString("ko-KR");
+  };
+
+  if (loading) {
+    return <div className="text-center py-8">캠페인 목록을 불러오는 중...</div>;
+  }
+
+  return (
+    <div className="space-y-4">
+      {/* 검색 */}
+      <div className="flex gap-2">
+        <Input
+          type="text"
+          placeholder="캠페인 이름으로 검색..."
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          className="max-w-md"
+        />
+      </div>
+
+      {/* 캠페인 목록 */}
+      {campaigns.length === 0 ? (
+        <div className="text-center py-12 text-muted-foreground">
+          {search ? "조건에 맞는 캠페인이 없습니다." : "등록된 캠페인이 없습니다."}
+        </div>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full border-collapse">
+            <thead>
+              <tr className="border-b">
+                <th className="px-4 py-3 text-left text-sm font-semibold">캠페인</th>
+                <th className="px-4 py-3 text-left text-sm font-semibold">할인</th>
+                <th className="px-4 py-3 text-left text-sm font-semibold">대상 카테고리</th>
+                <th className="px-4 py-3 text-left text-sm font-semibold">기간</th>
+                <th className="px-4 py-3 text-left text-sm font-semibold">적용 상품</th>
+                <th className="px-4 py-3 text-left text-sm font-semibold">상태</th>
+                <th className="px-4 py-3 text-left text-sm font-semibold">작업</th>
+              </tr>
+            </thead>
+            <tbody>
+              {campaigns.map((campaign) => {
+                const state = getCampaignState(campaign);
+
+                return (
+                  <tr key={campaign.id} className="border-b hover:bg-muted/50">
+                    <td className="px-4 py-3">
+                      <div className="font-medium">{campaign.name}</div>
+                      <div className="text-sm text-muted-foreground">
+                        {campaign.banner_image_url ? "배너 있음" : "배너 없음"}
+                      </div>
+                    </td>
+                    <td className="px-4 py-3 text-sm">{describeCampaignDiscount(campaign)}</td>
+                    <td className="px-4 py-3 text-sm">
+                      {campaign.target_categories.length > 0
+                        ? campaign.target_categories.map((cat) => getCategoryLabel(cat)).join(", ")
+                        : "-"}
+                    </td>
+                    <td className="px-4 py-3 text-sm">
+                      <div>{formatDate(campaign.starts_at)}</div>
+                      <div className="text-muted-foreground">~ {formatDate(campaign.ends_at)}</div>
+                    </td>
+                    <td className="px-4 py-3 text-sm">{campaign.product_count}개</td>
+                    <td className="px-4 py-3">
+                      <span
+                        className={`inline-block rounded-full px-2 py-1 text-xs text-white ${CAMPAIGN_STATE_COLORS[state]}`}
+                      >
+                        {CAMPAIGN_STATE_LABELS[state]}
+                      </span>
+                    </td>
+                    <td className="px-4 py-3">
+                      <div className="flex gap-2">
+                        <Link href={`/admin/campaigns/${campaign.id}/edit`}>
+                          <Button variant="outline" size="sm">
+                            수정
+                          </Button>
+                        </Link>
+                        <Button
+                          variant="destructive"
+                          size="sm"
+                          onClick={() => handleDelete(campaign)}
+                          disabled={isPending}
+                        >
+                          삭제
+                        </Button>
+                      </div>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
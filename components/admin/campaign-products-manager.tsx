@@ -0,0 +1,287 @@
+/**
+ * @file components/admin/campaign-products-manager.tsx
+ * @description 캠페인 적용 상품 관리 컴포넌트
+ *
+ * 관리자가 캠페인 적용 상품을 확인하고 상품을 일괄 추가 / 해제하는 컴포넌트입니다.
+ *
+ * 주요 기능:
+ * 1. 적용 상품 목록 표시 (정가, 캠페인 할인가)
+ * 2. 선택한 상품 적용 해제 (캠페인 적용 전 가격으로 복원)
+ * 3. 상품 검색 후 선택한 상품에 캠페인 일괄 적용
+ * 4. 다시 적용 (대상 카테고리에 새로 등록된 상품 포함)
+ *
+ * @dependencies
+ * - actions/admin/campaigns.ts: 캠페인 상품 적용 / 해제
+ * - actions/admin/products.ts: 상품 검색
+ * - components/ui: shadcn/ui 컴포넌트
+ */
+
+"use client";
+
+import { useState, useTransition } from "react";
+import { useRouter } from "next/navigation";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { attachCampaignProducts, detachCampaignProducts } from "@/actions/admin/campaigns";
+import { getAdminProducts, type AdminProduct } from "@/actions/admin/products";
+import { getCategoryLabel } from "@/lib/categories";
+import type { Campaign } from "@/types/campaign";
+import type { Product } from "@/types/product";
+
+interface CampaignProductsManagerProps {
+  campaign: Campaign;
+  products: Product[]; // 적용 상품 목록
+}
+
+/**
+ * 가격을 천단위 콤마로 포맷팅
+ */
+function formatPrice(price: number): string {
+  return new Intl.NumberFormat("ko-KR").format(price);
+}
+
+/**
+ * 선택 목록에서 ID를 추가하거나 제거합니다.
+ */
+function toggleId(ids: string[], id: string, checked: boolean): string[] {
+  return checked ? [...ids, id] : ids.filter((value) => value !== id);
+}
+
+export function CampaignProductsManager({ campaign, products }: CampaignProductsManagerProps) {
+  const router = useRouter();
+  const [isPending, startTransition] = useTransition();
+  const [selectedAttachedIds, setSelectedAttachedIds] = useState<string[]>([]);
+
+  // 상품 검색
+  const [search, setSearch] = useState("");
+  const [searchResults, setSearchResults] = useState<AdminProduct[]>([]);
+  const [searching, setSearching] = useState(false);
+  const [selectedSearchIds, setSelectedSearchIds] = useState<string[]>([]);
+
+  const attachedIds = new Set(products.map((product) => product.id));
+
+  // 상품 검색 (판매 중인 상품만)
+  const handleSearch = async () => {
+    setSearching(true);
+    try {
+      const data = await getAdminProducts({
+        search: search || undefined,
+        status: "active",
+        sortBy: "name",
+        sortOrder: "asc",
+        limit: 30,
+      });
+      setSearchResults(data);
+      setSelectedSearchIds([]);
+    } catch (error) {
+      console.error("상품 검색 에러:", error);
+      alert(`상품 검색에 실패했습니다: ${error instanceof Error ? error.message : "알 수 없는 에러"}`);
+    } finally {
+      setSearching(false);
+    }
+  };
+
+  // 선택한 상품에 캠페인 적용 (빈 배열이면 기존 적용 상품 + 대상 카테고리 상품에 다시 적용)
+  const handleAttach = (productIds: string[]) => {
+    startTransition(async () => {
+      try {
+        const count = await attachCampaignProducts(campaign.id, productIds);
+        setSelectedSearchIds([]);
+        router.refresh();
+        alert(`${count}개 상품에 캠페인이 적용되었습니다.`);
+      } catch (error) {
+        console.error("캠페인 적용 에러:", error);
+        alert(`캠페인 적용에 실패했습니다: ${error instanceof Error ? error.message : "알 수 없는 에러"}`);
+      }
+    });
+  };
+
+  // 선택한 상품 적용 해제
+  const handleDetach = () => {
+    if (!confirm(`선택한 상품 ${selectedAttachedIds.length}개의 캠페인 적용을 해제하시겠습니까? 캠페인 적용 전 가격으로 복원됩니다.`)) {
+      return;
+    }
+
+    startTransition(async () => {
+      try {
+        await detachCampaignProducts(campaign.id, selectedAttachedIds);
+        setSelectedAttachedIds([]);
+        router.refresh();
+      } catch (error) {
+        console.error("캠페인 적용 해제 에러:", error);
+        alert(`캠페인 적용 해제에 실패했습니다: ${error instanceof Error ? error.message : "알 수 없는 에러"}`);
+      }
+    });
+  };
+
+  return (
+    <div className="space-y-8">
+      {/* 적용 상품 */}
+      <div className="space-y-4">
+        <div className="flex items-center justify-between">
+          <h2 className="text-xl font-semibold">적용 상품 ({products.length}개)</h2>
+          <div className="flex gap-2">
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={() => handleAttach([])}
+              disabled={isPending}
+            >
+              다시 적용
+            </Button>
+            <Button
+              type="button"
+              variant="destructive"
+              size="sm"
+              onClick={handleDetach}
+              disabled={isPending || selectedAttachedIds.length === 0}
+            >
+              선택 해제 ({selectedAttachedIds.length})
+            </Button>
+          </div>
+        </div>
+        <p className="text-sm text-muted-foreground">
+          &quot;다시 적용&quot;은 적용 상품의 할인가를 다시 계산하고, 대상 카테고리에 새로 등록된 상품을
+          추가합니다.
+        </p>
+
+        {products.length === 0 ? (
+          <div className="text-center py-8 text-muted-foreground">적용된 상품이 없습니다.</div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full border-collapse">
+              <thead>
+                <tr className="border-b">
+                  <th className="w-10 px-4 py-3 text-left text-sm font-semibold">
+                    <input
+                      type="checkbox"
+                      checked={selectedAttachedIds.length === products.length}
+                      onChange={(e) =>
+                        setSelectedAttachedIds(
+                          e.target.checked ? products.map((product) => product.id) : []
+                        )
+                      }
+                      className="h-4 w-4 rounded border-gray-300"
+                    />
+                  </th>
+                  <th className="px-4 py-3 text-left text-sm font-semibold">상품명</th>
+                  <th className="px-4 py-3 text-left text-sm font-semibold">카테고리</th>
+                  <th className="px-4 py-3 text-left text-sm font-semibold">정가</th>
+                  <th className="px-4 py-3 text-left text-sm font-semibold">캠페인 할인가</th>
+                </tr>
+              </thead>
+              <tbody>
+                {products.map((product) => (
+                  <tr key={product.id} className="border-b hover:bg-muted/50">
+                    <td className="px-4 py-3">
+                      <input
+                        type="checkbox"
+                        checked={selectedAttachedIds.includes(product.id)}
+                        onChange={(e) =>
+                          setSelectedAttachedIds((ids) => toggleId(ids, product.id, e.target.checked))
+                        }
+                        className="h-4 w-4 rounded border-gray-300"
+                      />
+                    </td>
+                    <td className="px-4 py-3 font-medium">{product.name}</td>
+                    <td className="px-4 py-3 text-sm">{getCategoryLabel(product.category)}</td>
+                    <td className="px-4 py-3 text-sm text-muted-foreground">
+                      {product.original_price !== null
+                        ? `${formatPrice(Number(product.original_price))}원`
+                        : "-"}
+                    </td>
+                    <td className="px-4 py-3 text-sm">{formatPrice(Number(product.price))}원</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      {/* 상품 추가 */}
+      <div className="space-y-4">
+        <h2 className="text-xl font-semibold">상품 추가</h2>
+
+        <div className="flex gap-2">
+          <Input
+            type="text"
+            placeholder="상품명 또는 설명으로 검색..."
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter") {
+                e.preventDefault();
+                handleSearch();
+              }
+            }}
+            className="max-w-md"
+          />
+          <Button type="button" variant="outline" onClick={handleSearch} disabled={searching}>
+            {searching ? "검색 중..." : "검색"}
+          </Button>
+          <Button
+            type="button"
+            onClick={() => handleAttach(selectedSearchIds)}
+            disabled={isPending || selectedSearchIds.length === 0}
+          >
+            선택 상품에 적용 ({selectedSearchIds.length})
+          </Button>
+        </div>
+        <p className="text-sm text-muted-foreground">
+          다른 캠페인이 적용된 상품은 이 캠페인으로 옮겨집니다.
+        </p>
+
+        {searchResults.length > 0 && (
+          <div className="overflow-x-auto">
+            <table className="w-full border-collapse">
+              <thead>
+                <tr className="border-b">
+                  <th className="w-10 px-4 py-3" />
+                  <th className="px-4 py-3 text-left text-sm font-semibold">상품명</th>
+                  <th className="px-4 py-3 text-left text-sm font-semibold">카테고리</th>
+                  <th className="px-4 py-3 text-left text-sm font-semibold">판매가</th>
+                  <th className="px-4 py-3 text-left text-sm font-semibold">캠페인</th>
+                </tr>
+              </thead>
+              <tbody>
+                {searchResults.map((product) => {
+                  const isAttached = attachedIds.has(product.id);
+                  // 다른 캠페인 상품은 해당 캠페인에서 해제한 뒤 적용
+                  const isInOtherCampaign = !isAttached && !!product.campaign_id;
+
+                  return (
+                    <tr key={product.id} className="border-b hover:bg-muted/50">
+                      <td className="px-4 py-3">
+                        <input
+                          type="checkbox"
+                          checked={isAttached || selectedSearchIds.includes(product.id)}
+                          disabled={isAttached || isInOtherCampaign}
+                          onChange={(e) =>
+                            setSelectedSearchIds((ids) => toggleId(ids, product.id, e.target.checked))
+                          }
+                          className="h-4 w-4 rounded border-gray-300"
+                        />
+                      </td>
+                      <td className="px-4 py-3 font-medium">{product.name}</td>
+                      <td className="px-4 py-3 text-sm">{getCategoryLabel(product.category)}</td>
+                      <td className="px-4 py-3 text-sm">{formatPrice(Number(product.price))}원</td>
+                      <td className="px-4 py-3 text-sm text-muted-foreground">
+                        {isAttached
+                          ? "적용 중"
+                          : isInOtherCampaign
+                            ? "다른 캠페인 적용 중"
+                            : "-"}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
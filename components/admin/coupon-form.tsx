@@ -0,0 +1,490 @@
+/**
+ * @file components/admin/coupon-form.tsx
+ * @description 쿠폰 등록/수정 폼 컴포넌트
+ *
+ * 관리자가 쿠폰을 등록하거나 수정하는 폼입니다.
+ *
+ * 주요 기능:
+ * 1. 쿠폰 기본 정보 입력 (코드, 이름, 설명)
+ * 2. 할인 방식 설정 (정액 / 정률, 정률 할인 최대 금액)
+ * 3. 사용 조건 설정 (최소 주문 금액, 사용 기간, 1인당 사용 횟수)
+ * 4. 적용 카테고리 선택 (선택하지 않으면 전체 상품)
+ * 5. 사용 여부 설정
+ *
+ * @dependencies
+ * - react-hook-form: 폼 관리
+ * - zod: 유효성 검사
+ * - actions/admin/coupons.ts: 쿠폰 생성/수정
+ */
+
+"use client";
+
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { useRouter } from "next/navigation";
+import { useTransition } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { createCoupon, updateCoupon } from "@/actions/admin/coupons";
+import { toDateTimeLocal } from "@/lib/utils";
+import type { Coupon } from "@/types/coupon";
+
+/**
+ * 카테고리 옵션
+ */
+const CATEGORIES = [
+  { value: "electronics", label: "전자제품" },
+  { value: "clothing", label: "의류" },
+  { value: "books", label: "도서" },
+  { value: "food", label: "식품" },
+  { value: "sports", label: "스포츠" },
+  { value: "beauty", label: "뷰티" },
+  { value: "home", label: "생활/가정" },
+  { value: "collaboration", label: "디자인 콜라보" },
+] as const;
+
+/**
+ * 할인 방식 옵션
+ */
+const DISCOUNT_TYPE_OPTIONS = [
+  { value: "fixed", label: "정액 할인 (원)" },
+  { value: "percentage", label: "정률 할인 (%)" },
+] as const;
+
+/**
+ * 쿠폰 폼 스키마 (Zod)
+ */
+const couponFormSchema = z
+  .object({
+    code: z
+      .string()
+      .min(3, "쿠폰 코드는 3자 이상이어야 합니다.")
+      .max(30, "쿠폰 코드는 30자 이하여야 합니다.")
+      .regex(/^[A-Za-z0-9_-]+$/, "쿠폰 코드는 영문, 숫자, -, _만 사용할 수 있습니다."),
+    name: z.string().min(1, "쿠폰 이름을 입력해주세요.").max(100, "쿠폰 이름은 100자 이하여야 합니다."),
+    description: z.string().max(500, "설명은 500자 이하여야 합니다.").optional().nullable(),
+    discount_type: z.enum(["fixed", "percentage"]),
+    discount_value: z.number().positive("할인 값은 0보다 커야 합니다."),
+    max_discount_amount: z.number().positive("최대 할인 금액은 0보다 커야 합니다.").nullable(),
+    min_order_amount: z.number().min(0, "최소 주문 금액은 0원 이상이어야 합니다."),
+    starts_at: z.string().nullable(),
+    expires_at: z.string().nullable(),
+    usage_limit_per_user: z
+      .number()
+      .int("사용 횟수는 정수여야 합니다.")
+      .positive("사용 횟수는 1회 이상이어야 합니다.")
+      .nullable(),
+    categories: z.array(z.string()),
+    is_active: z.boolean(),
+  })
+  .refine(
+    (data) => data.discount_type !== "percentage" || data.discount_value <= 100,
+    { message: "정률 할인은 100% 이하여야 합니다.", path: ["discount_value"] }
+  )
+  .refine(
+    (data) =>
+      !data.starts_at || !data.expires_at || new Date(data.starts_at) < new Date(data.expires_at),
+    { message: "만료일시는 시작일시 이후여야 합니다.", path: ["expires_at"] }
+  );
+
+type CouponFormValues = z.infer<typeof couponFormSchema>;
+
+/**
+ * datetime-local 입력 값을 ISO 8601 timestamp로 변환합니다.
+ */
+function toIsoString(value: string | null): string | null {
+  return value ? new Date(value).toISOString() : null;
+}
+
+/**
+ * 숫자 입력 값을 변환합니다. (빈 값은 null)
+ */
+function toNullableNumber(value: string): number | null {
+  return value === "" ? null : Number(value);
+}
+
+const selectClassName =
+  "flex h-9 w-full rounded-md border border-input bg-transparent px-3 py-1 text-sm shadow-xs transition-colors focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring";
+
+interface CouponFormProps {
+  coupon?: Coupon;
+}
+
+export function CouponForm({ coupon }: CouponFormProps) {
+  const router = useRouter();
+  const [isPending, startTransition] = useTransition();
+
+  const isEditMode = !!coupon;
+
+  const form = useForm<CouponFormValues>({
+    resolver: zodResolver(couponFormSchema),
+    defaultValues: {
+      code: coupon?.code ?? "",
+      name: coupon?.name ?? "",
+      description: coupon?.description ?? null,
+      discount_type: coupon?.discount_type ?? "fixed",
+      discount_value: coupon ? Number(coupon.discount_value) : 0,
+      max_discount_amount:
+        coupon?.max_discount_amount != null ? Number(coupon.max_discount_amount) : null,
+      min_order_amount: coupon ? Number(coupon.min_order_amount) : 0,
+      starts_at: toDateTimeLocal(coupon?.starts_at ?? null),
+      expires_at: toDateTimeLocal(coupon?.expires_at ?? null),
+      usage_limit_per_user: coupon?.usage_limit_per_user ?? null,
+      categories: coupon?.categories ?? [],
+      is_active: coupon?.is_active ?? true,
+    },
+  });
+
+  const discountType = form.watch("discount_type");
+
+  const onSubmit = async (data: CouponFormValues) => {
+    startTransition(async () => {
+      try {
+        const payload = {
+          code: data.code,
+          name: data.name,
+          description: data.description || null,
+          discount_type: data.discount_type,
+          discount_value: data.discount_value,
+          min_order_amount: data.min_order_amount,
+          usage_limit_per_user: data.usage_limit_per_user,
+          is_active: data.is_active,
+          max_discount_amount:
+            data.discount_type === "percentage" ? data.max_discount_amount : null,
+          starts_at: toIsoString(data.starts_at),
+          expires_at: toIsoString(data.expires_at),
+          categories: data.categories.length > 0 ? data.categories : null,
+        };
+
+        if (isEditMode && coupon) {
+          await updateCoupon({ id: coupon.id, ...payload });
+        } else {
+          await createCoupon(payload);
+        }
+
+        // 성공 시 목록으로 이동
+        router.push("/admin/coupons");
+        router.refresh();
+      } catch (error) {
+        console.error("쿠폰 저장 에러:", error);
+        alert(
+          `쿠폰 저장에 실패했습니다: ${error instanceof Error ? error.message : "알 수 없는 에러"}`
+        );
+      }
+    });
+  };
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+        {/* 기본 정보 */}
+        <div className="space-y-4">
+          <h2 className="text-xl font-semibold">기본 정보</h2>
+
+          <div className="grid grid-cols-2 gap-4">
+            <FormField
+              control={form.control}
+              name="code"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>쿠폰 코드 *</FormLabel>
+                  <FormControl>
+                    <Input
+                      placeholder="WELCOME10"
+                      {...field}
+                      onChange={(e) => field.onChange(e.target.value.toUpperCase())}
+                    />
+                  </FormControl>
+                  <FormDescription>고객이 주문 시 입력할 코드입니다. (대문자로 저장)</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="name"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>쿠폰 이름 *</FormLabel>
+                  <FormControl>
+                    <Input placeholder="신규 회원 10% 할인" {...field} />
+                  </FormControl>
+                  <FormDescription>주문 페이지와 주문 내역에 표시됩니다.</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          </div>
+
+          <FormField
+            control={form.control}
+            name="description"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>설명</FormLabel>
+                <FormControl>
+                  <Textarea
+                    placeholder="관리용 메모를 입력하세요"
+                    rows={3}
+                    {...field}
+                    value={field.value ?? ""}
+                  />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+
+        {/* 할인 설정 */}
+        <div className="space-y-4">
+          <h2 className="text-xl font-semibold">할인 설정</h2>
+
+          <div className="grid grid-cols-3 gap-4">
+            <FormField
+              control={form.control}
+              name="discount_type"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>할인 방식 *</FormLabel>
+                  <FormControl>
+                    <select {...field} className={selectClassName}>
+                      {DISCOUNT_TYPE_OPTIONS.map((option) => (
+                        <option key={option.value} value={option.value}>
+                          {option.label}
+                        </option>
+                      ))}
+                    </select>
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="discount_value"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>
+                    할인 {discountType === "percentage" ? "비율 (%)" : "금액 (원)"} *
+                  </FormLabel>
+                  <FormControl>
+                    <Input
+                      type="number"
+                      min="0"
+                      step="1"
+                      {...field}
+                      onChange={(e) => field.onChange(Number(e.target.value))}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            {discountType === "percentage" && (
+              <FormField
+                control={form.control}
+                name="max_discount_amount"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>최대 할인 금액 (원)</FormLabel>
+                    <FormControl>
+                      <Input
+                        type="number"
+                        min="0"
+                        step="1"
+                        placeholder="제한 없음"
+                        {...field}
+                        value={field.value ?? ""}
+                        onChange={(e) => field.onChange(toNullableNumber(e.target.value))}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            )}
+          </div>
+        </div>
+
+        {/* 사용 조건 */}
+        <div className="space-y-4">
+          <h2 className="text-xl font-semibold">사용 조건</h2>
+
+          <div className="grid grid-cols-2 gap-4">
+            <FormField
+              control={form.control}
+              name="min_order_amount"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>최소 주문 금액 (원)</FormLabel>
+                  <FormControl>
+                    <Input
+                      type="number"
+                      min="0"
+                      step="1"
+                      {...field}
+                      onChange={(e) => field.onChange(Number(e.target.value))}
+                    />
+                  </FormControl>
+                  <FormDescription>적용 대상 상품 금액 기준입니다. (배송비 제외)</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="usage_limit_per_user"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>1인당 사용 횟수</FormLabel>
+                  <FormControl>
+                    <Input
+                      type="number"
+                      min="1"
+                      step="1"
+                      placeholder="제한 없음"
+                      {...field}
+                      value={field.value ?? ""}
+                      onChange={(e) => field.onChange(toNullableNumber(e.target.value))}
+                    />
+                  </FormControl>
+                  <FormDescription>취소된 주문에 사용한 쿠폰은 횟수에서 제외됩니다.</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <FormField
+              control={form.control}
+              name="starts_at"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>사용 시작일시</FormLabel>
+                  <FormControl>
+                    <Input
+                      type="datetime-local"
+                      {...field}
+                      value={field.value ?? ""}
+                      onChange={(e) => field.onChange(e.target.value || null)}
+                    />
+                  </FormControl>
+                  <FormDescription>비워두면 바로 사용할 수 있습니다.</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="expires_at"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>만료일시</FormLabel>
+                  <FormControl>
+                    <Input
+                      type="datetime-local"
+                      {...field}
+                      value={field.value ?? ""}
+                      onChange={(e) => field.onChange(e.target.value || null)}
+                    />
+                  </FormControl>
+                  <FormDescription>비워두면 만료되지 않습니다.</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          </div>
+
+          <FormField
+            control={form.control}
+            name="categories"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>적용 카테고리</FormLabel>
+                <div className="flex flex-wrap gap-4">
+                  {CATEGORIES.map((cat) => (
+                    <label key={cat.value} className="flex items-center gap-2 text-sm cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked={field.value.includes(cat.value)}
+                        onChange={(e) =>
+                          field.onChange(
+                            e.target.checked
+                              ? [...field.value, cat.value]
+                              : field.value.filter((value) => value !== cat.value)
+                          )
+                        }
+                        className="h-4 w-4 rounded border-gray-300"
+                      />
+                      {cat.label}
+                    </label>
+                  ))}
+                </div>
+                <FormDescription>
+                  선택하지 않으면 전체 상품에 적용됩니다. 선택한 카테고리 상품 금액만 할인됩니다.
+                </FormDescription>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="is_active"
+            render={({ field }) => (
+              <FormItem className="flex items-center gap-2">
+                <FormControl>
+                  <input
+                    type="checkbox"
+                    checked={field.value}
+                    onChange={field.onChange}
+                    className="h-4 w-4 rounded border-gray-300"
+                  />
+                </FormControl>
+                <div className="space-y-0.5">
+                  <FormLabel className="cursor-pointer">사용 가능</FormLabel>
+                  <FormDescription>
+                    해제하면 고객이 쿠폰 코드를 입력해도 적용되지 않습니다.
+                  </FormDescription>
+                </div>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+
+        {/* 제출 버튼 */}
+        <div className="flex gap-4">
+          <Button type="submit" disabled={isPending}>
+            {isPending ? "저장 중..." : isEditMode ? "수정 완료" : "쿠폰 등록"}
+          </Button>
+          <Button
+            type="button"
+            variant="outline"
+            onClick={() => router.back()}
+          >
+            취소
+          </Button>
+        </div>
+      </form>
+    </Form>
+  );
+}
@@ -0,0 +1,210 @@
+/**
+ * @file components/admin/coupon-list.tsx
+ * @description 관리자용 쿠폰 목록 컴포넌트
+ *
+ * 관리자가 쿠폰 목록을 조회하고 관리할 수 있는 컴포넌트입니다.
+ *
+ * 주요 기능:
+ * 1. 전체 쿠폰 목록 표시 (혜택, 사용 조건, 사용 기간, 사용 횟수)
+ * 2. 검색 기능 (쿠폰 코드, 이름)
+ * 3. 쿠폰 상태 표시 (사용 가능 / 예정 / 만료 / 중지)
+ * 4. 쿠폰 수정 링크, 사용 중지, 삭제
+ *
+ * @dependencies
+ * - actions/admin/coupons.ts: 쿠폰 데이터 조회 / 삭제
+ * - lib/coupons.ts: 쿠폰 혜택 안내 문구
+ * - components/ui: shadcn/ui 컴포넌트
+ */
+
+"use client";
+
+import { useState, useEffect, useTransition } from "react";
+import Link from "next/link";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { getAdminCoupons, deleteCoupon, type AdminCoupon } from "@/actions/admin/coupons";
+import { describeCouponBenefit } from "@/lib/coupons";
+import { getCategoryLabel } from "@/lib/categories";
+
+export function CouponList() {
+  const [coupons, setCoupons] = useState<AdminCoupon[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [search, setSearch] = useState("");
+  const [isPending, startTransition] = useTransition();
+
+  // 쿠폰 목록 조회
+  const loadCoupons = async () => {
+    setLoading(true);
+    try {
+      const data = await getAdminCoupons(search || undefined);
+      setCoupons(data);
+    } catch (error) {
+      console.error("쿠폰 목록 조회 에러:", error);
+      // 에러 발생 시 빈 배열로 설정
+      setCoupons([]);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // 초기 로드 및 검색어 변경 시 자동 조회
+  useEffect(() => {
+    startTransition(() => {
+      loadCoupons();
+    });
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [search]);
+
+  // 쿠폰 사용 중지 / 삭제 처리 (사용 내역이 있으면 사용 중지만 가능)
+  const handleDelete = async (coupon: AdminCoupon) => {
+    const hardDelete = coupon.redemption_count === 0;
+    if (
+      !confirm(
+        hardDelete
+          ? `"${coupon.code}" 쿠폰을 삭제하시겠습니까?`
+          : `"${coupon.code}" 쿠폰은 사용 내역이 있어 사용 중지됩니다. 계속하시겠습니까?`
+      )
+    ) {
+      return;
+    }
+
+    try {
+      await deleteCoupon(coupon.id, hardDelete);
+      // 목록 새로고침
+      loadCoupons();
+    } catch (error) {
+      console.error("쿠폰 삭제 에러:", error);
+      alert(`쿠폰 삭제에 실패했습니다: ${error instanceof Error ? error.message : "알 수 없는 에러"}`);
+    }
+  };
+
+  // 가격 포맷팅
+  const formatPrice = (price: number): string => {
+    return new Intl.NumberFormat("ko-KR").format(price);
+  };
+
+  // 날짜 포맷팅
+  const formatDate = (value: string | null): string => {
+    return value ? new Date(value).toLocaleString("ko-KR") : "-";
+  };
+
+  // 쿠폰 상태 (사용 여부 + 사용 기간 기준)
+  const getCouponState = (coupon: AdminCoupon): { label: string; color: string } => {
+    const now = new Date();
+    if (!coupon.is_active) {
+      return { label: "중지", color: "bg-gray-500" };
+    }
+    if (coupon.expires_at && new Date(coupon.expires_at) <= now) {
+      return { label: "만료", color: "bg-red-500" };
+    }
+    if (coupon.starts_at && new Date(coupon.starts_at) > now) {
+      return { label: "예정", color: "bg-orange-500" };
+    }
+    return { label: "사용 가능", color: "bg-green-500" };
+  };
+
+  if (loading) {
+    return <div className="text-center py-8">쿠폰 목록을 불러오는 중...</div>;
+  }
+
+  return (
+    <div className="space-y-4">
+      {/* 검색 */}
+      <div className="flex gap-2">
+        <Input
+          type="text"
+          placeholder="쿠폰 코드 또는 이름으로 검색..."
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          className="max-w-md"
+        />
+      </div>
+
+      {/* 쿠폰 목록 */}
+      {coupons.length === 0 ? (
+        <div className="text-center py-12 text-muted-foreground">
+          {search ? "조건에 맞는 쿠폰이 없습니다." : "등록된 쿠폰이 없습니다."}
+        </div>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full border-collapse">
+            <thead>
+              <tr className="border-b">
+                <th className="px-4 py-3 text-left text-sm font-semibold">코드</th>
+                <th className="px-4 py-3 text-left text-sm font-semibold">혜택</th>
+                <th className="px-4 py-3 text-left text-sm font-semibold">사용 조건</th>
+                <th className="px-4 py-3 text-left text-sm font-semibold">사용 기간</th>
+                <th className="px-4 py-3 text-left text-sm font-semibold">사용 횟수</th>
+                <th className="px-4 py-3 text-left text-sm font-semibold">상태</th>
+                <th className="px-4 py-3 text-left text-sm font-semibold">작업</th>
+              </tr>
+            </thead>
+            <tbody>
+              {coupons.map((coupon) => {
+                const state = getCouponState(coupon);
+
+                return (
+                  <tr key={coupon.id} className="border-b hover:bg-muted/50">
+                    <td className="px-4 py-3">
+                      <div className="font-mono font-medium">{coupon.code}</div>
+                      <div className="text-sm text-muted-foreground line-clamp-1">
+                        {coupon.name}
+                      </div>
+                    </td>
+                    <td className="px-4 py-3 text-sm">{describeCouponBenefit(coupon)}</td>
+                    <td className="px-4 py-3 text-sm space-y-1">
+                      <div>
+                        {Number(coupon.min_order_amount) > 0
+                          ? `${formatPrice(Number(coupon.min_order_amount))}원 이상`
+                          : "최소 금액 없음"}
+                      </div>
+                      <div className="text-muted-foreground">
+                        {coupon.categories && coupon.categories.length > 0
+                          ? coupon.categories.map((cat) => getCategoryLabel(cat)).join(", ")
+                          : "전체 상품"}
+                      </div>
+                      {coupon.usage_limit_per_user !== null && (
+                        <div className="text-muted-foreground">
+                          1인당 {coupon.usage_limit_per_user}회
+                        </div>
+                      )}
+                    </td>
+                    <td className="px-4 py-3 text-sm">
+                      <div>{formatDate(coupon.starts_at)}</div>
+                      <div className="text-muted-foreground">~ {formatDate(coupon.expires_at)}</div>
+                    </td>
+                    <td className="px-4 py-3 text-sm">{coupon.redemption_count}</td>
+                    <td className="px-4 py-3">
+                      <span
+                        className={`inline-block rounded-full px-2 py-1 text-xs text-white ${state.color}`}
+                      >
+                        {state.label}
+                      </span>
+                    </td>
+                    <td className="px-4 py-3">
+                      <div className="flex gap-2">
+                        <Link href={`/admin/coupons/${coupon.id}/edit`}>
+                          <Button variant="outline" size="sm">
+                            수정
+                          </Button>
+                        </Link>
+                        <Button
+                          variant="destructive"
+                          size="sm"
+                          onClick={() => handleDelete(coupon)}
+                          disabled={isPending || (!coupon.is_active && coupon.redemption_count > 0)}
+                        >
+                          {coupon.redemption_count === 0 ? "삭제" : "사용 중지"}
+                        </Button>
+                      </div>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,397 @@
+/**
+ * @file components/admin/home-section-form.tsx
+ * @description 홈 섹션 등록/수정 폼 컴포넌트
+ *
+ * 관리자가 홈 상품 섹션을 등록하거나 수정하는 폼입니다.
+ *
+ * 주요 기능:
+ * 1. 섹션 제목, 표시할 상품 수 입력
+ * 2. 데이터 소스 선택 (기획/최신/인기/콜라보/카테고리/직접 선택/캠페인)
+ * 3. 데이터 소스별 추가 설정 (인기상품 집계 기간, 카테고리, 캠페인, 상품 선택)
+ * 4. 표시 여부 설정
+ *
+ * @dependencies
+ * - react-hook-form: 폼 관리
+ * - zod: 유효성 검사
+ * - actions/admin/home-sections.ts: 섹션 생성/수정
+ * - components/admin/product-picker.tsx: 직접 선택 상품
+ * - lib/home-sections.ts: 데이터 소스 레이블, 최대 상품 수
+ */
+
+"use client";
+
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { useRouter } from "next/navigation";
+import { useState, useTransition } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { ProductPicker } from "@/components/admin/product-picker";
+import { createHomeSection, updateHomeSection } from "@/actions/admin/home-sections";
+import {
+  HOME_SECTION_SOURCE_LABELS,
+  MAX_SECTION_ITEM_COUNT,
+  POPULAR_WINDOW_LABELS,
+} from "@/lib/home-sections";
+import type { Campaign } from "@/types/campaign";
+import type { HomeSection, HomeSectionSource } from "@/types/home-section";
+import type { Product } from "@/types/product";
+
+/**
+ * 카테고리 옵션
+ */
+const CATEGORIES = [
+  { value: "electronics", label: "전자제품" },
+  { value: "clothing", label: "의류" },
+  { value: "books", label: "도서" },
+  { value: "food", label: "식품" },
+  { value: "sports", label: "스포츠" },
+  { value: "beauty", label: "뷰티" },
+  { value: "home", label: "생활/가정" },
+  { value: "collaboration", label: "디자인 콜라보" },
+] as const;
+
+/**
+ * 데이터 소스 옵션
+ */
+const SOURCE_OPTIONS = Object.entries(HOME_SECTION_SOURCE_LABELS).map(([value, label]) => ({
+  value: value as HomeSectionSource,
+  label,
+}));
+
+/**
+ * 인기상품 집계 기간 옵션
+ */
+const POPULAR_WINDOW_OPTIONS = Object.entries(POPULAR_WINDOW_LABELS).map(([value, label]) => ({
+  value: Number(value),
+  label,
+}));
+
+/**
+ * 홈 섹션 폼 스키마 (Zod)
+ */
+const homeSectionFormSchema = z
+  .object({
+    title: z.string().min(1, "섹션 제목을 입력해주세요.").max(50, "섹션 제목은 50자 이하여야 합니다."),
+    source_type: z.enum([
+      "promotional",
+      "latest",
+      "popular",
+      "collaboration",
+      "category",
+      "products",
+      "campaign",
+    ]),
+    category: z.string().nullable(),
+    campaign_id: z.string().nullable(),
+    popular_days: z.union([z.literal(7), z.literal(30)]),
+    item_count: z
+      .number()
+      .int("정수로 입력해주세요.")
+      .min(1, "1개 이상이어야 합니다.")
+      .max(MAX_SECTION_ITEM_COUNT, `${MAX_SECTION_ITEM_COUNT}개 이하여야 합니다.`),
+    is_visible: z.boolean(),
+  })
+  .refine((data) => data.source_type !== "category" || !!data.category, {
+    message: "카테고리를 선택해주세요.",
+    path: ["category"],
+  })
+  .refine((data) => data.source_type !== "campaign" || !!data.campaign_id, {
+    message: "캠페인을 선택해주세요.",
+    path: ["campaign_id"],
+  });
+
+type HomeSectionFormValues = z.infer<typeof homeSectionFormSchema>;
+
+const selectClassName =
+  "flex h-9 w-full rounded-md border border-input bg-transparent px-3 py-1 text-sm shadow-xs transition-colors focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring";
+
+interface HomeSectionFormProps {
+  section?: HomeSection;
+  products?: Product[]; // 직접 선택 상품 (수정 시)
+  campaigns: Pick<Campaign, "id" | "name">[]; // 캠페인 선택 옵션
+}
+
+export function HomeSectionForm({ section, products = [], campaigns }: HomeSectionFormProps) {
+  const router = useRouter();
+  const [isPending, startTransition] = useTransition();
+  const [selectedProducts, setSelectedProducts] = useState<Product[]>(products);
+
+  const isEditMode = !!section;
+
+  const form = useForm<HomeSectionFormValues>({
+    resolver: zodResolver(homeSectionFormSchema),
+    defaultValues: {
+      title: section?.title ?? "",
+      source_type: section?.source_type ?? "latest",
+      category: section?.category ?? null,
+      campaign_id: section?.campaign_id ?? null,
+      popular_days: section?.popular_days ?? 30,
+      item_count: section?.item_count ?? 8,
+      is_visible: section?.is_visible ?? true,
+    },
+  });
+
+  const sourceType = form.watch("source_type");
+
+  const onSubmit = async (data: HomeSectionFormValues) => {
+    if (data.source_type === "products" && selectedProducts.length === 0) {
+      alert("표시할 상품을 1개 이상 선택해주세요.");
+      return;
+    }
+
+    startTransition(async () => {
+      try {
+        // 선택한 데이터 소스에서 사용하지 않는 값은 비워서 저장
+        const payload = {
+          title: data.title,
+          source_type: data.source_type,
+          category: data.source_type === "category" ? data.category : null,
+          product_ids:
+            data.source_type === "products" ? selectedProducts.map((product) => product.id) : [],
+          campaign_id: data.source_type === "campaign" ? data.campaign_id : null,
+          popular_days: data.source_type === "popular" ? data.popular_days : 30,
+          item_count: data.item_count,
+          is_visible: data.is_visible,
+        };
+
+        if (isEditMode && section) {
+          await updateHomeSection({ id: section.id, ...payload });
+        } else {
+          await createHomeSection(payload);
+        }
+
+        // 성공 시 목록으로 이동
+        router.push("/admin/home-sections");
+        router.refresh();
+      } catch (error) {
+        console.error("홈 섹션 저장 에러:", error);
+        alert(
+          `홈 섹션 저장에 실패했습니다: ${error instanceof Error ? error.message : "알 수 없는 에러"}`
+        );
+      }
+    });
+  };
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+        {/* 기본 정보 */}
+        <div className="space-y-4">
+          <h2 className="text-xl font-semibold">기본 정보</h2>
+
+          <FormField
+            control={form.control}
+            name="title"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>섹션 제목 *</FormLabel>
+                <FormControl>
+                  <Input placeholder="New Arrivals" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="item_count"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>표시할 상품 수 *</FormLabel>
+                <FormControl>
+                  <Input
+                    type="number"
+                    min={1}
+                    max={MAX_SECTION_ITEM_COUNT}
+                    {...field}
+                    onChange={(e) => field.onChange(Number(e.target.value))}
+                  />
+                </FormControl>
+                <FormDescription>최대 {MAX_SECTION_ITEM_COUNT}개까지 표시할 수 있습니다.</FormDescription>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+
+        {/* 데이터 소스 */}
+        <div className="space-y-4">
+          <h2 className="text-xl font-semibold">데이터 소스</h2>
+
+          <FormField
+            control={form.control}
+            name="source_type"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>표시할 상품 *</FormLabel>
+                <FormControl>
+                  <select {...field} className={selectClassName}>
+                    {SOURCE_OPTIONS.map((option) => (
+                      <option key={option.value} value={option.value}>
+                        {option.label}
+                      </option>
+                    ))}
+                  </select>
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          {sourceType === "popular" && (
+            <FormField
+              control={form.control}
+              name="popular_days"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>집계 기간 *</FormLabel>
+                  <FormControl>
+                    <select
+                      {...field}
+                      onChange={(e) => field.onChange(Number(e.target.value))}
+                      className={selectClassName}
+                    >
+                      {POPULAR_WINDOW_OPTIONS.map((option) => (
+                        <option key={option.value} value={option.value}>
+                          {option.label}
+                        </option>
+                      ))}
+                    </select>
+                  </FormControl>
+                  <FormDescription>
+                    기간 내 판매수량(취소 / 반품 주문 제외)과 조회수를 합산한 순서로 표시합니다.
+                  </FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          )}
+
+          {sourceType === "category" && (
+            <FormField
+              control={form.control}
+              name="category"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>카테고리 *</FormLabel>
+                  <FormControl>
+                    <select
+                      {...field}
+                      value={field.value ?? ""}
+                      onChange={(e) => field.onChange(e.target.value || null)}
+                      className={selectClassName}
+                    >
+                      <option value="">카테고리 선택</option>
+                      {CATEGORIES.map((category) => (
+                        <option key={category.value} value={category.value}>
+                          {category.label}
+                        </option>
+                      ))}
+                    </select>
+                  </FormControl>
+                  <FormDescription>선택한 카테고리의 최신 상품을 표시합니다.</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          )}
+
+          {sourceType === "campaign" && (
+            <FormField
+              control={form.control}
+              name="campaign_id"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>캠페인 *</FormLabel>
+                  <FormControl>
+                    <select
+                      {...field}
+                      value={field.value ?? ""}
+                      onChange={(e) => field.onChange(e.target.value || null)}
+                      className={selectClassName}
+                    >
+                      <option value="">캠페인 선택</option>
+                      {campaigns.map((campaign) => (
+                        <option key={campaign.id} value={campaign.id}>
+                          {campaign.name}
+                        </option>
+                      ))}
+                    </select>
+                  </FormControl>
+                  <FormDescription>캠페인 진행 기간에만 캠페인 적용 상품을 표시합니다.</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          )}
+
+          {sourceType === "products" && (
+            <div className="space-y-2">
+              <p className="text-sm text-muted-foreground">
+                선택한 순서대로 표시합니다. (판매 중인 상품만 표시)
+              </p>
+              <ProductPicker
+                products={selectedProducts}
+                onChange={setSelectedProducts}
+                maxProducts={MAX_SECTION_ITEM_COUNT}
+              />
+            </div>
+          )}
+        </div>
+
+        {/* 표시 설정 */}
+        <div className="space-y-4">
+          <h2 className="text-xl font-semibold">표시 설정</h2>
+
+          <FormField
+            control={form.control}
+            name="is_visible"
+            render={({ field }) => (
+              <FormItem className="flex items-center gap-2">
+                <FormControl>
+                  <input
+                    type="checkbox"
+                    checked={field.value}
+                    onChange={field.onChange}
+                    className="h-4 w-4 rounded border-gray-300"
+                  />
+                </FormControl>
+                <div className="space-y-0.5">
+                  <FormLabel className="cursor-pointer">홈에 표시</FormLabel>
+                  <FormDescription>해제하면 섹션 설정은 유지한 채 홈에서 숨깁니다.</FormDescription>
+                </div>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+
+        {/* 제출 버튼 */}
+        <div className="flex gap-4">
+          <Button type="submit" disabled={isPending}>
+            {isPending ? "저장 중..." : isEditMode ? "수정 완료" : "섹션 등록"}
+          </Button>
+          <Button
+            type="button"
+            variant="outline"
+            onClick={() => router.back()}
+          >
+            취소
+          </Button>
+        </div>
+      </form>
+    </Form>
+  );
+}
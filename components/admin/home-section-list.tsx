@@ -0,0 +1,222 @@
+/**
+ * @file components/admin/home-section-list.tsx
+ * @description 관리자용 홈 섹션 목록 컴포넌트
+ *
+ * 관리자가 홈 상품 섹션 목록을 조회하고 표시 순서와 표시 여부를 바꾸거나 관리할 수 있는 컴포넌트입니다.
+ *
+ * 주요 기능:
+ * 1. 전체 섹션 목록 표시 (제목, 데이터 소스, 상품 수)
+ * 2. 표시 순서 변경 (위 / 아래)
+ * 3. 표시 / 숨김 전환
+ * 4. 섹션 수정 링크, 삭제
+ *
+ * @dependencies
+ * - actions/admin/home-sections.ts: 섹션 데이터 조회 / 수정 / 삭제 / 순서 변경
+ * - lib/home-sections.ts: 데이터 소스 레이블
+ * - lib/categories.ts: 카테고리 이름
+ * - components/ui: shadcn/ui 컴포넌트
+ */
+
+"use client";
+
+import { useState, useEffect, useTransition } from "react";
+import Link from "next/link";
+import { Button } from "@/components/ui/button";
+import {
+  deleteHomeSection,
+  getAdminHomeSections,
+  reorderHomeSections,
+  updateHomeSection,
+} from "@/actions/admin/home-sections";
+import { HOME_SECTION_SOURCE_LABELS, POPULAR_WINDOW_LABELS } from "@/lib/home-sections";
+import { getCategoryLabel } from "@/lib/categories";
+import type { HomeSection } from "@/types/home-section";
+
+/**
+ * 데이터 소스 요약 (인기상품 집계 기간 / 카테고리 / 직접 선택 상품 수)
+ */
+function describeSource(section: HomeSection): string {
+  const label = HOME_SECTION_SOURCE_LABELS[section.source_type];
+
+  if (section.source_type === "popular") {
+    return `${label}: ${POPULAR_WINDOW_LABELS[section.popular_days]}`;
+  }
+  if (section.source_type === "category") {
+    return `${label}: ${getCategoryLabel(section.category)}`;
+  }
+  if (section.source_type === "products") {
+    return `${label}: ${section.product_ids.length}개`;
+  }
+  return label;
+}
+
+export function HomeSectionList() {
+  const [sections, setSections] = useState<HomeSection[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [isPending, startTransition] = useTransition();
+
+  // 섹션 목록 조회
+  const loadSections = async () => {
+    setLoading(true);
+    try {
+      const data = await getAdminHomeSections();
+      setSections(data);
+    } catch (error) {
+      console.error("홈 섹션 목록 조회 에러:", error);
+      // 에러 발생 시 빈 배열로 설정
+      setSections([]);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // 초기 로드
+  useEffect(() => {
+    startTransition(() => {
+      loadSections();
+    });
+  }, []);
+
+  // 표시 순서 변경 (화면에 먼저 반영하고 저장)
+  const handleMove = (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= sections.length) return;
+
+    const next = [...sections];
+    [next[index], next[target]] = [next[target], next[index]];
+    setSections(next);
+
+    startTransition(async () => {
+      try {
+        await reorderHomeSections(next.map((section) => section.id));
+      } catch (error) {
+        console.error("홈 섹션 순서 변경 에러:", error);
+        alert(`홈 섹션 순서 변경에 실패했습니다: ${error instanceof Error ? error.message : "알 수 없는 에러"}`);
+        // 저장된 순서로 되돌림
+        loadSections();
+      }
+    });
+  };
+
+  // 표시 / 숨김 전환
+  const handleToggleVisible = (section: HomeSection) => {
+    startTransition(async () => {
+      try {
+        const updated = await updateHomeSection({ id: section.id, is_visible: !section.is_visible });
+        setSections((prev) => prev.map((item) => (item.id === updated.id ? updated : item)));
+      } catch (error) {
+        console.error("홈 섹션 표시 여부 변경 에러:", error);
+        alert(`표시 여부 변경에 실패했습니다: ${error instanceof Error ? error.message : "알 수 없는 에러"}`);
+      }
+    });
+  };
+
+  // 섹션 삭제 처리
+  const handleDelete = async (section: HomeSection) => {
+    if (!confirm(`"${section.title}" 섹션을 삭제하시겠습니까?`)) {
+      return;
+    }
+
+    try {
+      await deleteHomeSection(section.id);
+      // 목록 새로고침
+      loadSections();
+    } catch (error) {
+      console.error("홈 섹션 삭제 에러:", error);
+      alert(`홈 섹션 삭제에 실패했습니다: ${error instanceof Error ? error.message : "알 수 없는 에러"}`);
+    }
+  };
+
+  if (loading) {
+    return <div className="text-center py-8">섹션 목록을 불러오는 중...</div>;
+  }
+
+  if (sections.length === 0) {
+    return (
+      <div className="text-center py-12 text-muted-foreground">
+        등록된 섹션이 없습니다. 홈에는 상품 섹션이 표시되지 않습니다.
+      </div>
+    );
+  }
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full border-collapse">
+        <thead>
+          <tr className="border-b">
+            <th className="px-4 py-3 text-left text-sm font-semibold">순서</th>
+            <th className="px-4 py-3 text-left text-sm font-semibold">제목</th>
+            <th className="px-4 py-3 text-left text-sm font-semibold">데이터 소스</th>
+            <th className="px-4 py-3 text-left text-sm font-semibold">상품 수</th>
+            <th className="px-4 py-3 text-left text-sm font-semibold">상태</th>
+            <th className="px-4 py-3 text-left text-sm font-semibold">작업</th>
+          </tr>
+        </thead>
+        <tbody>
+          {sections.map((section, index) => (
+            <tr key={section.id} className="border-b hover:bg-muted/50">
+              <td className="px-4 py-3">
+                <div className="flex items-center gap-1">
+                  <span className="w-6 text-sm">{index + 1}</span>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => handleMove(index, -1)}
+                    disabled={isPending || index === 0}
+                  >
+                    ↑
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => handleMove(index, 1)}
+                    disabled={isPending || index === sections.length - 1}
+                  >
+                    ↓
+                  </Button>
+                </div>
+              </td>
+              <td className="px-4 py-3 font-medium">{section.title}</td>
+              <td className="px-4 py-3 text-sm">{describeSource(section)}</td>
+              <td className="px-4 py-3 text-sm">최대 {section.item_count}개</td>
+              <td className="px-4 py-3">
+                <span
+                  className={`inline-block rounded-full px-2 py-1 text-xs text-white ${
+                    section.is_visible ? "bg-green-500" : "bg-gray-500"
+                  }`}
+                >
+                  {section.is_visible ? "표시" : "숨김"}
+                </span>
+              </td>
+              <td className="px-4 py-3">
+                <div className="flex gap-2">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => handleToggleVisible(section)}
+                    disabled={isPending}
+                  >
+                    {section.is_visible ? "숨기기" : "표시하기"}
+                  </Button>
+                  <Link href={`/admin/home-sections/${section.id}/edit`}>
+                    <Button variant="outline" size="sm">
+                      수정
+                    </Button>
+                  </Link>
+                  <Button
+                    variant="destructive"
+                    size="sm"
+                    onClick={() => handleDelete(section)}
+                    disabled={isPending}
+                  >
+                    삭제
+                  </Button>
+                </div>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
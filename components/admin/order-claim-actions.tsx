@@ -0,0 +1,125 @@
+/**
+ * @file components/admin/order-claim-actions.tsx
+ * @description 관리자용 반품 / 교환 처리 컴포넌트
+ *
+ * 처리 대기 중인 반품/교환 신청을 승인하거나 거절합니다.
+ * 반품 승인 시 반품 상품 금액(기본값: 주문 단가 × 신청 수량)을 기록하고 재고 복구와 환불이 진행되므로 한 번 더 확인합니다.
+ * 실제 환불 금액은 쿠폰 할인 안분과 반품 배송비를 반영해 계산됩니다 (lib/refunds.ts).
+ * 거절 시에는 고객에게 표시되는 거절 사유를 입력해야 합니다.
+ *
+ * @dependencies
+ * - actions/admin/claims.ts: processOrderClaim
+ * - lib/claims.ts: 유형 레이블
+ */
+
+"use client";
+
+import { useState, useTransition } from "react";
+import { useRouter } from "next/navigation";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { processOrderClaim } from "@/actions/admin/claims";
+import { CLAIM_TYPE_LABELS } from "@/lib/claims";
+import { formatPrice } from "@/utils/order";
+import type { OrderClaimType } from "@/types/claim";
+
+interface OrderClaimActionsProps {
+  claimId: string;
+  type: OrderClaimType;
+  maxRefundAmount: number; // 주문 단가 × 신청 수량 (반품 상품 금액 기본값 / 상한)
+}
+
+export function OrderClaimActions({ claimId, type, maxRefundAmount }: OrderClaimActionsProps) {
+  const router = useRouter();
+  const [refundAmount, setRefundAmount] = useState(String(maxRefundAmount));
+  const [note, setNote] = useState("");
+  const [isPending, startTransition] = useTransition();
+
+  const isReturn = type === "return";
+
+  const handleProcess = (approve: boolean) => {
+    if (!approve && !note.trim()) {
+      alert("거절 사유를 입력해주세요.");
+      return;
+    }
+
+    const amount = Number(refundAmount);
+    if (approve && isReturn && (!Number.isFinite(amount) || amount < 0 || amount > maxRefundAmount)) {
+      alert(`반품 상품 금액은 0원 이상 ${formatPrice(maxRefundAmount)}원 이하로 입력해주세요.`);
+      return;
+    }
+
+    const message = approve
+      ? isReturn
+        ? `반품을 승인하시겠습니까?\n\n반품 상품 금액: ${formatPrice(amount)}원\n신청 수량만큼 재고가 복구되고, 쿠폰 할인과 반품 배송비를 반영한 금액이 환불됩니다.`
+        : "교환을 승인하시겠습니까?"
+      : `${CLAIM_TYPE_LABELS[type]} 신청을 거절하시겠습니까?`;
+
+    if (!confirm(message)) {
+      return;
+    }
+
+    startTransition(async () => {
+      try {
+        const { refund, refundError } = await processOrderClaim(claimId, {
+          approve,
+          refundAmount: approve && isReturn ? amount : null,
+          note,
+        });
+        setNote("");
+        if (refund?.status === "failed") {
+          alert(
+            `반품은 승인되었지만 환불에 실패했습니다: ${refund.failure_message ?? "알 수 없는 에러"}\n\n환불 내역에서 다시 시도해주세요.`
+          );
+        } else if (refundError) {
+          alert(
+            `반품은 승인되었지만 환불 요청을 기록하지 못했습니다: ${refundError}\n\n환불 필요 항목에서 환불을 요청해주세요.`
+          );
+        }
+        router.refresh();
+      } catch (error) {
+        console.error("반품/교환 처리 에러:", error);
+        alert(
+          `반품/교환 처리에 실패했습니다: ${error instanceof Error ? error.message : "알 수 없는 에러"}`
+        );
+      }
+    });
+  };
+
+  return (
+    <div className="space-y-3 border-t border-border pt-3">
+      {isReturn && (
+        <div className="flex items-center gap-2">
+          <label htmlFor={`claim-refund-${claimId}`} className="shrink-0 text-sm">
+            반품 상품 금액
+          </label>
+          <Input
+            id={`claim-refund-${claimId}`}
+            type="number"
+            min={0}
+            max={maxRefundAmount}
+            value={refundAmount}
+            onChange={(e) => setRefundAmount(e.target.value)}
+            disabled={isPending}
+          />
+          <span className="text-sm">원</span>
+        </div>
+      )}
+      <Input
+        value={note}
+        onChange={(e) => setNote(e.target.value)}
+        placeholder="처리 메모 (거절 시 필수, 고객에게 표시됩니다)"
+        maxLength={200}
+        disabled={isPending}
+      />
+      <div className="flex flex-wrap gap-2">
+        <Button onClick={() => handleProcess(true)} disabled={isPending}>
+          {CLAIM_TYPE_LABELS[type]} 승인
+        </Button>
+        <Button variant="destructive" onClick={() => handleProcess(false)} disabled={isPending}>
+          거절
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,110 @@
+/**
+ * @file components/admin/order-list-filters.tsx
+ * @description 관리자용 주문 목록 필터 컴포넌트
+ *
+ * 주문 목록의 검색어, 주문 상태, 주문 기간 필터를 URL 쿼리 파라미터로 관리하는 Client Component입니다.
+ * 필터를 변경하면 1페이지부터 다시 조회합니다.
+ */
+
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import type { OrderStatus } from "@/types/order";
+
+const statusOptions: Array<{ value: OrderStatus | ""; label: string }> = [
+  { value: "", label: "전체 상태" },
+  { value: "pending", label: "주문 접수" },
+  { value: "confirmed", label: "주문 확인" },
+  { value: "shipped", label: "배송 중" },
+  { value: "delivered", label: "배송 완료" },
+  { value: "cancelled", label: "주문 취소" },
+  { value: "return_requested", label: "반품/교환 접수" },
+  { value: "returned", label: "반품 완료" },
+];
+
+interface OrderListFiltersProps {
+  search?: string;
+  status?: string;
+  dateFrom?: string;
+  dateTo?: string;
+}
+
+export function OrderListFilters(props: OrderListFiltersProps) {
+  const router = useRouter();
+  const [search, setSearch] = useState(props.search ?? "");
+  const [status, setStatus] = useState(props.status ?? "");
+  const [dateFrom, setDateFrom] = useState(props.dateFrom ?? "");
+  const [dateTo, setDateTo] = useState(props.dateTo ?? "");
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const params = new URLSearchParams();
+    if (search.trim()) params.set("search", search.trim());
+    if (status) params.set("status", status);
+    if (dateFrom) params.set("from", dateFrom);
+    if (dateTo) params.set("to", dateTo);
+
+    router.push(`/admin/orders?${params.toString()}`);
+  };
+
+  const handleReset = () => {
+    setSearch("");
+    setStatus("");
+    setDateFrom("");
+    setDateTo("");
+    router.push("/admin/orders");
+  };
+
+  return (
+    <form
+      onSubmit={handleSubmit}
+      className="flex flex-col gap-4 md:flex-row md:items-center md:justify-between"
+    >
+      <div className="flex flex-1 gap-2">
+        <Input
+          type="text"
+          placeholder="주문 번호, 수령인 이름 또는 연락처로 검색..."
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          className="max-w-md"
+        />
+      </div>
+      <div className="flex flex-wrap items-center gap-2">
+        <select
+          value={status}
+          onChange={(e) => setStatus(e.target.value)}
+          className="rounded-md border border-input bg-background px-3 py-2 text-sm"
+        >
+          {statusOptions.map((option) => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+        <Input
+          type="date"
+          value={dateFrom}
+          onChange={(e) => setDateFrom(e.target.value)}
+          className="w-auto"
+          aria-label="주문일 시작"
+        />
+        <span className="text-muted-foreground">~</span>
+        <Input
+          type="date"
+          value={dateTo}
+          onChange={(e) => setDateTo(e.target.value)}
+          className="w-auto"
+          aria-label="주문일 끝"
+        />
+        <Button type="submit">검색</Button>
+        <Button type="button" variant="outline" onClick={handleReset}>
+          초기화
+        </Button>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,64 @@
+/**
+ * @file components/admin/order-refund-request-button.tsx
+ * @description 관리자용 환불 요청 버튼 컴포넌트
+ *
+ * 주문 취소 / 반품 승인 후 환불 내역을 기록하지 못한 경우 환불을 다시 요청합니다.
+ * (취소 주문은 남은 결제 금액 전액, 반품은 반품 환불 금액 기준)
+ *
+ * @dependencies
+ * - actions/admin/refunds.ts: requestCancelledOrderRefund, requestReturnClaimRefund
+ */
+
+"use client";
+
+import { useTransition } from "react";
+import { useRouter } from "next/navigation";
+import { Button } from "@/components/ui/button";
+import { requestCancelledOrderRefund, requestReturnClaimRefund } from "@/actions/admin/refunds";
+import type { OrderRefundType } from "@/types/refund";
+
+interface OrderRefundRequestButtonProps {
+  type: OrderRefundType;
+  targetId: string; // 취소 주문 ID (cancel) / 반품 신청 ID (return)
+}
+
+export function OrderRefundRequestButton({ type, targetId }: OrderRefundRequestButtonProps) {
+  const router = useRouter();
+  const [isPending, startTransition] = useTransition();
+
+  const handleRequest = () => {
+    const message =
+      type === "cancel"
+        ? "취소된 주문의 환불 내역이 없습니다. 남은 결제 금액 전액을 환불하시겠습니까?"
+        : "승인된 반품의 환불 내역이 없습니다. 반품 환불을 요청하시겠습니까?";
+    if (!confirm(message)) {
+      return;
+    }
+
+    startTransition(async () => {
+      try {
+        const refund =
+          type === "cancel"
+            ? await requestCancelledOrderRefund(targetId)
+            : await requestReturnClaimRefund(targetId);
+        if (!refund) {
+          alert("환불할 결제 금액이 없습니다.");
+        } else if (refund.status === "failed") {
+          alert(`환불에 실패했습니다: ${refund.failure_message ?? "알 수 없는 에러"}`);
+        }
+        router.refresh();
+      } catch (error) {
+        console.error("환불 요청 에러:", error);
+        alert(
+          `환불 요청에 실패했습니다: ${error instanceof Error ? error.message : "알 수 없는 에러"}`
+        );
+      }
+    });
+  };
+
+  return (
+    <Button variant="outline" size="sm" onClick={handleRequest} disabled={isPending}>
+      {isPending ? "환불 요청 중..." : "환불 요청"}
+    </Button>
+  );
+}
@@ -0,0 +1,61 @@
+/**
+ * @file components/admin/order-refund-retry-button.tsx
+ * @description 관리자용 환불 재시도 버튼 컴포넌트
+ *
+ * 결제 취소에 실패했거나 요청 중으로 멈춘 환불을 같은 금액으로 다시 요청합니다.
+ * (결제 제공자의 취소 내역을 먼저 확인하므로 이미 취소된 환불은 완료로 기록)
+ *
+ * @dependencies
+ * - actions/admin/refunds.ts: retryOrderRefund
+ */
+
+"use client";
+
+import { useTransition } from "react";
+import { useRouter } from "next/navigation";
+import { Button } from "@/components/ui/button";
+import { retryOrderRefund } from "@/actions/admin/refunds";
+import { formatPrice } from "@/utils/order";
+import type { OrderRefundStatus } from "@/types/refund";
+
+interface OrderRefundRetryButtonProps {
+  refundId: string;
+  amount: number;
+  status: OrderRefundStatus;
+}
+
+export function OrderRefundRetryButton({ refundId, amount, status }: OrderRefundRetryButtonProps) {
+  const router = useRouter();
+  const [isPending, startTransition] = useTransition();
+
+  const handleRetry = () => {
+    const message =
+      status === "requested"
+        ? `${formatPrice(amount)}원 환불 결과가 기록되지 않았습니다. 결제 취소 내역을 확인하고 다시 시도하시겠습니까?`
+        : `${formatPrice(amount)}원 환불을 다시 시도하시겠습니까?`;
+    if (!confirm(message)) {
+      return;
+    }
+
+    startTransition(async () => {
+      try {
+        const refund = await retryOrderRefund(refundId);
+        if (refund.status === "failed") {
+          alert(`환불에 다시 실패했습니다: ${refund.failure_message ?? "알 수 없는 에러"}`);
+        }
+        router.refresh();
+      } catch (error) {
+        console.error("환불 재시도 에러:", error);
+        alert(
+          `환불 재시도에 실패했습니다: ${error instanceof Error ? error.message : "알 수 없는 에러"}`
+        );
+      }
+    });
+  };
+
+  return (
+    <Button variant="outline" size="sm" onClick={handleRetry} disabled={isPending}>
+      {isPending ? "환불 요청 중..." : "환불 재시도"}
+    </Button>
+  );
+}
@@ -0,0 +1,104 @@
+/**
+ * @file components/admin/order-shipment-form.tsx
+ * @description 관리자용 송장 등록 폼 컴포넌트
+ *
+ * 택배사를 선택하고 송장 번호를 입력해 주문에 등록합니다.
+ * 주문 확인(confirmed) 상태에서 등록한 뒤 배송 시작 처리하며,
+ * 배송중(shipped) 상태에서는 잘못 입력한 송장을 수정할 수 있습니다.
+ *
+ * @dependencies
+ * - actions/admin/orders.ts: updateOrderShipment
+ * - lib/couriers/carriers.ts: 택배사 목록, 송장 번호 형식
+ */
+
+"use client";
+
+import { useState, useTransition } from "react";
+import { useRouter } from "next/navigation";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { updateOrderShipment } from "@/actions/admin/orders";
+import {
+  COURIER_OPTIONS,
+  getCourierName,
+  isValidTrackingNumber,
+  normalizeTrackingNumber,
+} from "@/lib/couriers/carriers";
+import type { CourierCode } from "@/types/shipment";
+
+interface OrderShipmentFormProps {
+  orderId: string;
+  carrier: CourierCode | null;
+  trackingNumber: string | null;
+}
+
+export function OrderShipmentForm({
+  orderId,
+  carrier,
+  trackingNumber,
+}: OrderShipmentFormProps) {
+  const router = useRouter();
+  const [selectedCarrier, setSelectedCarrier] = useState<CourierCode>(
+    carrier ?? COURIER_OPTIONS[0].value
+  );
+  const [number, setNumber] = useState(trackingNumber ?? "");
+  const [isPending, startTransition] = useTransition();
+
+  const normalizedNumber = normalizeTrackingNumber(number);
+  const isChanged =
+    selectedCarrier !== carrier || normalizedNumber !== (trackingNumber ?? "");
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!isValidTrackingNumber(selectedCarrier, normalizedNumber)) {
+      alert(`${getCourierName(selectedCarrier)} 송장 번호 형식이 올바르지 않습니다.`);
+      return;
+    }
+
+    startTransition(async () => {
+      try {
+        await updateOrderShipment(orderId, selectedCarrier, normalizedNumber);
+        router.refresh();
+      } catch (error) {
+        console.error("송장 등록 에러:", error);
+        alert(
+          `송장 등록에 실패했습니다: ${error instanceof Error ? error.message : "알 수 없는 에러"}`
+        );
+      }
+    });
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="flex flex-col sm:flex-row gap-2">
+      <select
+        value={selectedCarrier}
+        onChange={(e) => setSelectedCarrier(e.target.value as CourierCode)}
+        disabled={isPending}
+        className="flex h-9 rounded-md border border-input bg-transparent px-3 py-1 text-sm shadow-xs transition-colors focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring"
+      >
+        {COURIER_OPTIONS.map((option) => (
+          <option key={option.value} value={option.value}>
+            {option.label}
+          </option>
+        ))}
+      </select>
+      <Input
+        placeholder="송장 번호 (숫자만)"
+        value={number}
+        onChange={(e) => setNumber(e.target.value)}
+        inputMode="numeric"
+        maxLength={20}
+        disabled={isPending}
+        className="sm:flex-1"
+      />
+      <Button
+        type="submit"
+        variant="outline"
+        disabled={isPending || !normalizedNumber || !isChanged}
+      >
+        {isPending ? "저장 중..." : trackingNumber ? "송장 수정" : "송장 등록"}
+      </Button>
+    </form>
+  );
+}
@@ -0,0 +1,133 @@
+/**
+ * @file components/admin/order-status-actions.tsx
+ * @description 관리자용 주문 상태 변경 버튼 컴포넌트
+ *
+ * 현재 주문 상태에서 변경할 수 있는 다음 상태 버튼을 표시합니다.
+ * 입력한 변경 사유는 주문 상태 이력에 기록됩니다.
+ * 주문 취소는 재고가 복구되고 결제 금액이 환불되므로 한 번 더 확인합니다.
+ * 배송 시작은 송장을 등록한 뒤에만 할 수 있습니다.
+ * 반품/교환 상태는 반품/교환 신청 처리로만 바뀌므로 버튼을 표시하지 않습니다.
+ *
+ * @dependencies
+ * - actions/admin/orders.ts: updateOrderStatus
+ * - utils/order.ts: 주문 상태 변경 규칙, 상태 레이블
+ */
+
+"use client";
+
+import { useState, useTransition } from "react";
+import { useRouter } from "next/navigation";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { updateOrderStatus } from "@/actions/admin/orders";
+import { getAdminNextOrderStatuses, getOrderStatusLabel } from "@/utils/order";
+import type { OrderStatus } from "@/types/order";
+
+/**
+ * 다음 상태별 버튼 레이블
+ */
+const ACTION_LABELS: Record<OrderStatus, string> = {
+  pending: "주문 접수",
+  confirmed: "주문 확인 처리",
+  shipped: "배송 시작",
+  delivered: "배송 완료 처리",
+  cancelled: "주문 취소",
+  return_requested: "반품/교환 접수",
+  returned: "반품 완료",
+};
+
+interface OrderStatusActionsProps {
+  orderId: string;
+  status: OrderStatus;
+  hasTrackingNumber: boolean; // 송장 등록 여부 (배송 시작 가능 여부)
+}
+
+export function OrderStatusActions({
+  orderId,
+  status,
+  hasTrackingNumber,
+}: OrderStatusActionsProps) {
+  const router = useRouter();
+  const [reason, setReason] = useState("");
+  const [isPending, startTransition] = useTransition();
+
+  const nextStatuses = getAdminNextOrderStatuses(status);
+
+  const handleChange = (nextStatus: OrderStatus) => {
+    const message =
+      nextStatus === "cancelled"
+        ? "주문을 취소하시겠습니까?\n\n주문 수량만큼 재고가 복구되고, 결제된 주문은 결제 금액이 환불됩니다."
+        : `주문 상태를 "${getOrderStatusLabel(nextStatus)}" 상태로 변경하시겠습니까?`;
+
+    if (!confirm(message)) {
+      return;
+    }
+
+    startTransition(async () => {
+      try {
+        const { refund, refundError } = await updateOrderStatus(orderId, nextStatus, reason);
+        setReason("");
+        if (refund?.status === "failed") {
+          alert(
+            `주문은 취소되었지만 환불에 실패했습니다: ${refund.failure_message ?? "알 수 없는 에러"}\n\n환불 내역에서 다시 시도해주세요.`
+          );
+        } else if (refundError) {
+          alert(
+            `주문은 취소되었지만 환불 요청을 기록하지 못했습니다: ${refundError}\n\n환불 필요 항목에서 환불을 요청해주세요.`
+          );
+        }
+        router.refresh();
+      } catch (error) {
+        console.error("주문 상태 변경 에러:", error);
+        alert(
+          `주문 상태 변경에 실패했습니다: ${error instanceof Error ? error.message : "알 수 없는 에러"}`
+        );
+      }
+    });
+  };
+
+  if (status === "return_requested") {
+    return (
+      <p className="text-sm text-muted-foreground">
+        반품/교환 신청을 모두 처리하면 주문 상태가 바뀝니다.
+      </p>
+    );
+  }
+
+  if (nextStatuses.length === 0) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        더 이상 변경할 수 있는 상태가 없습니다.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      <Input
+        placeholder="변경 사유 (선택, 주문 상태 이력에 기록됩니다)"
+        value={reason}
+        onChange={(e) => setReason(e.target.value)}
+        maxLength={200}
+        disabled={isPending}
+      />
+      <div className="flex flex-wrap gap-2">
+        {nextStatuses.map((nextStatus) => (
+          <Button
+            key={nextStatus}
+            variant={nextStatus === "cancelled" ? "destructive" : "default"}
+            onClick={() => handleChange(nextStatus)}
+            disabled={isPending || (nextStatus === "shipped" && !hasTrackingNumber)}
+          >
+            {ACTION_LABELS[nextStatus]}
+          </Button>
+        ))}
+      </div>
+      {nextStatuses.includes("shipped") && !hasTrackingNumber && (
+        <p className="text-sm text-muted-foreground">
+          배송 시작 처리 전에 택배사와 송장 번호를 등록해주세요.
+        </p>
+      )}
+    </div>
+  );
+}
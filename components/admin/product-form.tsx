@@ -9,9 +9,11 @@
  * 2. 카테고리 선택
  * 3. 재고 수량 설정
  * 4. 프로모션/특가 여부 설정
+ *    - 캠페인이 적용된 상품의 가격 / 프로모션 여부는 캠페인이 관리하므로 수정하지 않음
  * 5. 상품 상태 설정
  * 6. 이미지 업로드 (다중 이미지 지원)
  * 7. 상품 옵션 설정 (사이즈, 색상 등)
+ *    - 옵션 조합이 있는 상품의 재고는 옵션 조합 재고 합계이므로 직접 수정하지 않음
  *
  * @dependencies
  * - react-hook-form: 폼 관리
@@ -44,6 +46,7 @@ import {
 import { createProduct, updateProduct } from "@/actions/admin/products";
 import type { Product } from "@/types/product";
 import { getCategoryLabel } from "@/lib/categories";
+import { SHIPPING_CLASS_OPTIONS } from "@/lib/shipping";
 import { ProductImageUpload } from "./product-image-upload";
 import { ProductOptionsForm } from "./product-options-form";
 
@@ -81,15 +84,17 @@ const productFormSchema = z.object({
   stock_quantity: z.number().int().min(0, "재고 수량은 0개 이상이어야 합니다."),
   is_promotional: z.boolean().default(false),
   status: z.enum(["active", "out_of_stock", "hidden"]).default("active"),
+  shipping_class: z.enum(["standard", "bulky", "free"]).default("standard"),
 });
 
 type ProductFormValues = z.infer<typeof productFormSchema>;
 
 interface ProductFormProps {
   product?: Product;
+  hasVariants?: boolean; // 옵션 조합 등록 여부 (재고 수량 직접 입력 불가)
 }
 
-export function ProductForm({ product }: ProductFormProps) {
+export function ProductForm({ product, hasVariants = false }: ProductFormProps) {
   const router = useRouter();
   const [isPending, startTransition] = useTransition();
   const [imageUrls, setImageUrls] = useState<string[]>(
@@ -100,6 +105,7 @@ export function ProductForm({ product }: ProductFormProps) {
   );
 
   const isEditMode = !!product;
+  const isCampaignProduct = !!product?.campaign_id;
 
   const form = useForm<ProductFormValues>({
     resolver: zodResolver(productFormSchema),
@@ -111,6 +117,7 @@ export function ProductForm({ product }: ProductFormProps) {
       stock_quantity: product?.stock_quantity ?? 0,
       is_promotional: product?.is_promotional ?? false,
       status: product?.status ?? "active",
+      shipping_class: product?.shipping_class ?? "standard",
     },
   });
 
@@ -133,6 +140,7 @@ export function ProductForm({ product }: ProductFormProps) {
             category: data.category ?? null,
             is_promotional: data.is_promotional ?? false,
             status: data.status ?? "active",
+            shipping_class: data.shipping_class ?? "standard",
             image_urls: imageUrls.length > 0 ? imageUrls : null,
             options: Object.keys(options).length > 0 ? options : null,
           });
@@ -207,9 +215,14 @@ export function ProductForm({ product }: ProductFormProps) {
                       placeholder="0"
                       {...field}
                       onChange={(e) => field.onChange(Number(e.target.value))}
+                      disabled={isCampaignProduct}
                     />
                   </FormControl>
-                  <FormDescription>상품의 판매 가격을 입력하세요.</FormDescription>
+                  <FormDescription>
+                    {isCampaignProduct
+                      ? "캠페인이 적용된 상품입니다. 캠페인에서 해제한 뒤 가격을 수정할 수 있습니다."
+                      : "상품의 판매 가격을 입력하세요."}
+                  </FormDescription>
                   <FormMessage />
                 </FormItem>
               )}
@@ -229,9 +242,14 @@ export function ProductForm({ product }: ProductFormProps) {
                       placeholder="0"
                       {...field}
                       onChange={(e) => field.onChange(Number(e.target.value))}
+                      disabled={hasVariants}
                     />
                   </FormControl>
-                  <FormDescription>보유 재고 수량을 입력하세요.</FormDescription>
+                  <FormDescription>
+                    {hasVariants
+                      ? "옵션 조합 재고의 합계입니다. 아래 옵션 조합에서 수정하세요."
+                      : "보유 재고 수량을 입력하세요."}
+                  </FormDescription>
                   <FormMessage />
                 </FormItem>
               )}
@@ -291,6 +309,32 @@ export function ProductForm({ product }: ProductFormProps) {
             />
           </div>
 
+          <FormField
+            control={form.control}
+            name="shipping_class"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>배송 유형 *</FormLabel>
+                <FormControl>
+                  <select
+                    {...field}
+                    className="flex h-9 w-full rounded-md border border-input bg-transparent px-3 py-1 text-sm shadow-xs transition-colors focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring"
+                  >
+                    {SHIPPING_CLASS_OPTIONS.map((option) => (
+                      <option key={option.value} value={option.value}>
+                        {option.label}
+                      </option>
+                    ))}
+                  </select>
+                </FormControl>
+                <FormDescription>
+                  일반 배송 상품은 묶음 배송되며, 대형 상품은 1개당 배송비가 부과됩니다.
+                </FormDescription>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
           <FormField
             control={form.control}
             name="is_promotional"
@@ -301,6 +345,7 @@ export function ProductForm({ product }: ProductFormProps) {
                     type="checkbox"
                     checked={field.value}
                     onChange={field.onChange}
+                    disabled={isCampaignProduct}
                     className="h-4 w-4 rounded border-gray-300"
                   />
                 </FormControl>
@@ -326,6 +371,11 @@ export function ProductForm({ product }: ProductFormProps) {
         <div className="space-y-4">
           <h2 className="text-xl font-semibold">상품 옵션</h2>
           <ProductOptionsForm options={options} onChange={setOptions} />
+          <p className="text-sm text-muted-foreground">
+            {isEditMode
+              ? "사이즈/색상을 변경하면 상품을 저장한 뒤 옵션 조합에 반영됩니다."
+              : "상품을 등록한 뒤 수정 페이지에서 옵션 조합별 재고와 추가 금액을 설정할 수 있습니다."}
+          </p>
         </div>
 
         {/* 제출 버튼 */}
@@ -10,6 +10,7 @@
  * 3. 검색 기능 (이름, 설명)
  * 4. 정렬 기능
  * 5. 상품 수정/삭제 링크
+ * 6. 상품별 찜 수 표시 (수요 지표)
  *
  * @dependencies
  * - actions/admin/products.ts: 상품 데이터 조회
@@ -22,7 +23,7 @@ import { useState, useEffect, useTransition } from "react";
 import Link from "next/link";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
-import { getAdminProducts, deleteProduct } from "@/actions/admin/products";
+import { getAdminProducts, deleteProduct, type AdminProduct } from "@/actions/admin/products";
 import type { Product } from "@/types/product";
 import { getCategoryLabel } from "@/lib/categories";
 
@@ -37,7 +38,7 @@ type ProductStatus = "active" | "out_of_stock" | "hidden" | null;
 type SortOption = "name" | "price" | "created_at" | "view_count";
 
 export function ProductList() {
-  const [products, setProducts] = useState<Product[]>([]);
+  const [products, setProducts] = useState<AdminProduct[]>([]);
   const [loading, setLoading] = useState(true);
   const [search, setSearch] = useState("");
   const [status, setStatus] = useState<ProductStatus>(null);
@@ -191,6 +192,7 @@ export function ProductList() {
                 <th className="px-4 py-3 text-left text-sm font-semibold">재고</th>
                 <th className="px-4 py-3 text-left text-sm font-semibold">상태</th>
                 <th className="px-4 py-3 text-left text-sm font-semibold">조회수</th>
+                <th className="px-4 py-3 text-left text-sm font-semibold">찜</th>
                 <th className="px-4 py-3 text-left text-sm font-semibold">작업</th>
               </tr>
             </thead>
@@ -231,6 +233,7 @@ export function ProductList() {
                       </span>
                     </td>
                     <td className="px-4 py-3 text-sm">{product.view_count}</td>
+                    <td className="px-4 py-3 text-sm">{product.wishlist_count}</td>
                     <td className="px-4 py-3">
                       <div className="flex gap-2">
                         <Link href={`/admin/products/${product.id}/edit`}>
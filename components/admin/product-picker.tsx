@@ -0,0 +1,150 @@
+/**
+ * @file components/admin/product-picker.tsx
+ * @description 상품 선택 컴포넌트
+ *
+ * 관리자가 배너 연결 상품, 홈 섹션 상품 등을 검색해 추가하고 순서를 바꾸거나 제거하는 컴포넌트입니다.
+ *
+ * @dependencies
+ * - actions/admin/products.ts: 상품 검색
+ */
+
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { getAdminProducts, type AdminProduct } from "@/actions/admin/products";
+import { getCategoryLabel } from "@/lib/categories";
+import type { Product } from "@/types/product";
+
+interface ProductPickerProps {
+  products: Product[]; // 선택한 상품 (표시 순서)
+  onChange: (products: Product[]) => void;
+  maxProducts: number; // 최대 선택 상품 수
+}
+
+export function ProductPicker({ products, onChange, maxProducts }: ProductPickerProps) {
+  const [search, setSearch] = useState("");
+  const [searchResults, setSearchResults] = useState<AdminProduct[]>([]);
+  const [searching, setSearching] = useState(false);
+
+  const selectedIds = new Set(products.map((product) => product.id));
+  const isFull = products.length >= maxProducts;
+
+  // 상품 검색 (판매 중인 상품만)
+  const handleSearch = async () => {
+    setSearching(true);
+    try {
+      const data = await getAdminProducts({
+        search: search || undefined,
+        status: "active",
+        sortBy: "name",
+        sortOrder: "asc",
+        limit: 20,
+      });
+      setSearchResults(data);
+    } catch (error) {
+      console.error("상품 검색 에러:", error);
+      alert(`상품 검색에 실패했습니다: ${error instanceof Error ? error.message : "알 수 없는 에러"}`);
+    } finally {
+      setSearching(false);
+    }
+  };
+
+  // 선택 상품 순서 변경
+  const handleMove = (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= products.length) return;
+    const next = [...products];
+    [next[index], next[target]] = [next[target], next[index]];
+    onChange(next);
+  };
+
+  return (
+    <div className="space-y-4">
+      {/* 선택한 상품 */}
+      {products.length === 0 ? (
+        <p className="text-sm text-muted-foreground">연결된 상품이 없습니다.</p>
+      ) : (
+        <ul className="space-y-2">
+          {products.map((product, index) => (
+            <li key={product.id} className="flex items-center gap-2 rounded-md border px-3 py-2 text-sm">
+              <span className="w-6 text-muted-foreground">{index + 1}</span>
+              <span className="flex-1 line-clamp-1">{product.name}</span>
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={() => handleMove(index, -1)}
+                disabled={index === 0}
+              >
+                ↑
+              </Button>
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={() => handleMove(index, 1)}
+                disabled={index === products.length - 1}
+              >
+                ↓
+              </Button>
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={() => onChange(products.filter((item) => item.id !== product.id))}
+              >
+                제거
+              </Button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {/* 상품 검색 */}
+      <div className="flex gap-2">
+        <Input
+          type="text"
+          placeholder="상품명 또는 설명으로 검색..."
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") {
+              e.preventDefault();
+              handleSearch();
+            }
+          }}
+          className="max-w-md"
+        />
+        <Button type="button" variant="outline" onClick={handleSearch} disabled={searching}>
+          {searching ? "검색 중..." : "검색"}
+        </Button>
+      </div>
+
+      {searchResults.length > 0 && (
+        <ul className="max-h-64 divide-y overflow-y-auto rounded-md border">
+          {searchResults.map((product) => {
+            const isSelected = selectedIds.has(product.id);
+
+            return (
+              <li key={product.id} className="flex items-center gap-2 px-3 py-2 text-sm">
+                <span className="flex-1 line-clamp-1">{product.name}</span>
+                <span className="text-muted-foreground">{getCategoryLabel(product.category)}</span>
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  onClick={() => onChange([...products, product])}
+                  disabled={isSelected || isFull}
+                >
+                  {isSelected ? "추가됨" : "추가"}
+                </Button>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
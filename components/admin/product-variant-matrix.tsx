@@ -0,0 +1,291 @@
+/**
+ * @file components/admin/product-variant-matrix.tsx
+ * @description 상품 옵션 조합 매트릭스 편집 컴포넌트
+ *
+ * 상품 옵션(사이즈 × 색상)으로 만들 수 있는 모든 옵션 조합을 표로 보여주고,
+ * 조합별 사용 여부, SKU, 재고, 추가 금액, 판매 여부를 편집합니다.
+ *
+ * 주요 기능:
+ * 1. 옵션 조합 매트릭스 표시 (등록된 옵션 조합 값 불러오기)
+ * 2. 사용하는 조합에 재고 일괄 입력
+ * 3. 옵션 조합 저장 (사용하지 않는 조합과 상품 옵션에서 빠진 조합은 삭제)
+ *
+ * @dependencies
+ * - actions/admin/product-variants.ts: saveProductVariants
+ * - lib/product-variants.ts: 옵션 축 / 옵션 조합 규칙
+ */
+
+"use client";
+
+import { useMemo, useState, useTransition } from "react";
+import { useRouter } from "next/navigation";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { saveProductVariants } from "@/actions/admin/product-variants";
+import {
+  buildVariantCombinations,
+  formatVariantOptions,
+  getVariantKey,
+  getVariantOptionAxes,
+  getVariantUnitPrice,
+} from "@/lib/product-variants";
+import type { Product, ProductVariant } from "@/types/product";
+
+interface ProductVariantMatrixProps {
+  product: Product;
+  variants: ProductVariant[];
+}
+
+/**
+ * 매트릭스 행 (옵션 조합 하나)
+ */
+interface VariantRow {
+  key: string;
+  options: Record<string, string>;
+  enabled: boolean; // 옵션 조합 사용 여부 (false면 저장 시 삭제)
+  sku: string;
+  stock_quantity: number;
+  price_delta: number;
+  is_active: boolean;
+}
+
+/**
+ * 가격을 천단위 콤마로 포맷팅
+ */
+function formatPrice(price: number): string {
+  return new Intl.NumberFormat("ko-KR").format(price);
+}
+
+export function ProductVariantMatrix({ product, variants }: ProductVariantMatrixProps) {
+  const router = useRouter();
+  const [isPending, startTransition] = useTransition();
+  const [bulkStock, setBulkStock] = useState("");
+
+  const combinations = useMemo(
+    () => buildVariantCombinations(getVariantOptionAxes(product.options)),
+    [product.options]
+  );
+
+  const [rows, setRows] = useState<VariantRow[]>(() => {
+    const variantsByKey = new Map(
+      variants.map((variant) => [getVariantKey(variant.options), variant])
+    );
+
+    return combinations.map((options) => {
+      const key = getVariantKey(options);
+      const variant = variantsByKey.get(key);
+      return {
+        key,
+        options,
+        enabled: !!variant,
+        sku: variant?.sku ?? "",
+        stock_quantity: variant?.stock_quantity ?? 0,
+        price_delta: Number(variant?.price_delta ?? 0),
+        is_active: variant?.is_active ?? true,
+      };
+    });
+  });
+
+  // 상품 옵션에서 빠져 저장 시 삭제되는 기존 옵션 조합
+  const combinationKeys = new Set(rows.map((row) => row.key));
+  const orphanVariants = variants.filter(
+    (variant) => !combinationKeys.has(getVariantKey(variant.options))
+  );
+
+  const updateRow = (key: string, patch: Partial<VariantRow>) => {
+    setRows((prev) => prev.map((row) => (row.key === key ? { ...row, ...patch } : row)));
+  };
+
+  const handleToggleAll = (enabled: boolean) => {
+    setRows((prev) => prev.map((row) => ({ ...row, enabled })));
+  };
+
+  const handleBulkStock = () => {
+    const value = parseInt(bulkStock, 10);
+    if (isNaN(value) || value < 0) {
+      alert("재고 수량은 0개 이상이어야 합니다.");
+      return;
+    }
+    setRows((prev) =>
+      prev.map((row) => (row.enabled ? { ...row, stock_quantity: value } : row))
+    );
+    setBulkStock("");
+  };
+
+  const handleSave = () => {
+    const enabledRows = rows.filter((row) => row.enabled);
+    const removedCount =
+      variants.length -
+      enabledRows.filter((row) =>
+        variants.some((variant) => getVariantKey(variant.options) === row.key)
+      ).length;
+
+    if (
+      removedCount > 0 &&
+      !confirm(
+        `옵션 조합 ${removedCount}개가 삭제됩니다.\n\n삭제된 옵션 조합은 장바구니에서도 삭제됩니다. 계속하시겠습니까?`
+      )
+    ) {
+      return;
+    }
+
+    startTransition(async () => {
+      try {
+        await saveProductVariants(
+          product.id,
+          enabledRows.map((row) => ({
+            options: row.options,
+            sku: row.sku.trim() || null,
+            stock_quantity: row.stock_quantity,
+            price_delta: row.price_delta,
+            is_active: row.is_active,
+          }))
+        );
+        alert("옵션 조합이 저장되었습니다.");
+        router.refresh();
+      } catch (error) {
+        console.error("옵션 조합 저장 에러:", error);
+        alert(
+          `옵션 조합 저장에 실패했습니다: ${error instanceof Error ? error.message : "알 수 없는 에러"}`
+        );
+      }
+    });
+  };
+
+  if (combinations.length === 0) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        상품 옵션(사이즈, 색상)을 추가하고 저장하면 옵션 조합별 재고와 추가 금액을 설정할 수 있습니다.
+        {variants.length > 0 && ` (등록된 옵션 조합 ${variants.length}개는 저장 시 삭제됩니다.)`}
+      </p>
+    );
+  }
+
+  const totalStock = rows
+    .filter((row) => row.enabled && row.is_active)
+    .reduce((sum, row) => sum + row.stock_quantity, 0);
+
+  return (
+    <div className="space-y-4">
+      {/* 일괄 입력 */}
+      <div className="flex flex-wrap items-center gap-2">
+        <Button type="button" variant="outline" size="sm" onClick={() => handleToggleAll(true)} disabled={isPending}>
+          전체 사용
+        </Button>
+        <Button type="button" variant="outline" size="sm" onClick={() => handleToggleAll(false)} disabled={isPending}>
+          전체 해제
+        </Button>
+        <Input
+          type="number"
+          min="0"
+          step="1"
+          placeholder="재고 일괄 입력"
+          value={bulkStock}
+          onChange={(e) => setBulkStock(e.target.value)}
+          className="w-36"
+          disabled={isPending}
+        />
+        <Button type="button" variant="outline" size="sm" onClick={handleBulkStock} disabled={isPending || !bulkStock}>
+          사용 중인 조합에 적용
+        </Button>
+      </div>
+
+      {/* 옵션 조합 매트릭스 */}
+      <div className="overflow-x-auto rounded-lg border">
+        <table className="w-full text-sm">
+          <thead className="bg-muted/50">
+            <tr>
+              <th className="px-3 py-2 text-left">사용</th>
+              <th className="px-3 py-2 text-left">옵션 조합</th>
+              <th className="px-3 py-2 text-left">SKU</th>
+              <th className="px-3 py-2 text-left">재고</th>
+              <th className="px-3 py-2 text-left">추가 금액 (원)</th>
+              <th className="px-3 py-2 text-right">판매가</th>
+              <th className="px-3 py-2 text-left">판매</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map((row) => (
+              <tr key={row.key} className={row.enabled ? "border-t" : "border-t text-muted-foreground"}>
+                <td className="px-3 py-2">
+                  <input
+                    type="checkbox"
+                    checked={row.enabled}
+                    onChange={(e) => updateRow(row.key, { enabled: e.target.checked })}
+                    disabled={isPending}
+                    className="h-4 w-4 rounded border-gray-300"
+                  />
+                </td>
+                <td className="px-3 py-2 whitespace-nowrap">{formatVariantOptions(row.options)}</td>
+                <td className="px-3 py-2">
+                  <Input
+                    value={row.sku}
+                    onChange={(e) => updateRow(row.key, { sku: e.target.value })}
+                    placeholder="선택사항"
+                    maxLength={64}
+                    disabled={isPending || !row.enabled}
+                    className="h-8 w-36"
+                  />
+                </td>
+                <td className="px-3 py-2">
+                  <Input
+                    type="number"
+                    min="0"
+                    step="1"
+                    value={row.stock_quantity}
+                    onChange={(e) =>
+                      updateRow(row.key, { stock_quantity: Math.max(0, parseInt(e.target.value, 10) || 0) })
+                    }
+                    disabled={isPending || !row.enabled}
+                    className="h-8 w-24"
+                  />
+                </td>
+                <td className="px-3 py-2">
+                  <Input
+                    type="number"
+                    step="100"
+                    value={row.price_delta}
+                    onChange={(e) =>
+                      updateRow(row.key, { price_delta: parseInt(e.target.value, 10) || 0 })
+                    }
+                    disabled={isPending || !row.enabled}
+                    className="h-8 w-28"
+                  />
+                </td>
+                <td className="px-3 py-2 text-right whitespace-nowrap">
+                  {formatPrice(getVariantUnitPrice(product.price, row))}원
+                </td>
+                <td className="px-3 py-2">
+                  <input
+                    type="checkbox"
+                    checked={row.is_active}
+                    onChange={(e) => updateRow(row.key, { is_active: e.target.checked })}
+                    disabled={isPending || !row.enabled}
+                    className="h-4 w-4 rounded border-gray-300"
+                  />
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {orphanVariants.length > 0 && (
+        <p className="text-sm text-amber-600">
+          상품 옵션에서 빠진 옵션 조합 {orphanVariants.length}개(
+          {orphanVariants.map((variant) => formatVariantOptions(variant.options)).join(", ")}
+          )는 저장 시 삭제됩니다.
+        </p>
+      )}
+
+      <div className="flex items-center justify-between">
+        <span className="text-sm text-muted-foreground">
+          판매 중인 옵션 조합 재고 합계: {formatPrice(totalStock)}개
+        </span>
+        <Button type="button" onClick={handleSave} disabled={isPending}>
+          {isPending ? "저장 중..." : "옵션 조합 저장"}
+        </Button>
+      </div>
+    </div>
+  );
+}
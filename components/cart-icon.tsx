@@ -3,6 +3,7 @@
  * @description 장바구니 아이콘 컴포넌트
  *
  * Navbar에서 사용하는 장바구니 아이콘과 개수 배지를 표시하는 클라이언트 컴포넌트입니다.
+ * 로그인하지 않은 사용자는 비회원 장바구니(쿠키) 개수를 표시합니다.
  */
 
 "use client";
@@ -18,12 +19,7 @@ export function CartIcon() {
   const [count, setCount] = useState(0);
 
   useEffect(() => {
-    if (!isSignedIn) {
-      setCount(0);
-      return;
-    }
-
-    // 장바구니 개수 조회
+    // 장바구니 개수 조회 (로그인 상태가 바뀌면 다시 조회: 로그인 시 비회원 장바구니 병합)
     const loadCount = async () => {
       try {
         const cartCount = await getCartCount();
@@ -41,11 +37,6 @@ export function CartIcon() {
     return () => clearInterval(interval);
   }, [isSignedIn]);
 
-  // 로그인하지 않은 사용자에게는 장바구니 아이콘을 표시하지 않음
-  if (!isSignedIn) {
-    return null;
-  }
-
   return (
     <Link
       href="/cart"
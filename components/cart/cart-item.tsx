@@ -3,6 +3,7 @@
  * @description 장바구니 개별 항목 컴포넌트
  *
  * 개별 장바구니 항목의 UI를 표시하고, 수량 변경 및 삭제 기능을 제공합니다.
+ * 특가 판매 중인 상품은 할인 전 단가를 취소선으로 함께 표시합니다.
  */
 
 "use client";
@@ -13,6 +14,11 @@ import Link from "next/link";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { updateCartItemQuantity, removeCartItem } from "@/actions/cart";
+import {
+  getCartItemOriginalUnitPrice,
+  getCartItemStock,
+  getCartItemUnitPrice,
+} from "@/lib/product-variants";
 import { Minus, Plus, Trash2, AlertCircle } from "lucide-react";
 import type { CartItemWithProduct } from "@/types/cart";
 
@@ -42,15 +48,18 @@ export function CartItem({
   const [isPending, startTransition] = useTransition();
 
   const { product } = item;
-  const itemTotal = product.price * quantity;
-  const isOutOfStock = product.stock_quantity === 0;
-  const isLowStock = quantity > product.stock_quantity;
+  const unitPrice = getCartItemUnitPrice(item);
+  const originalUnitPrice = getCartItemOriginalUnitPrice(item);
+  const stockQuantity = getCartItemStock(item);
+  const itemTotal = unitPrice * quantity;
+  const isOutOfStock = stockQuantity === 0;
+  const isLowStock = quantity > stockQuantity;
   const isInactive = !product.is_active || product.status === "hidden";
 
   // 수량 증가
   const handleIncrease = () => {
-    if (quantity >= product.stock_quantity) {
-      alert(`재고가 부족합니다. (최대 ${product.stock_quantity}개까지 가능)`);
+    if (quantity >= stockQuantity) {
+      alert(`재고가 부족합니다. (최대 ${stockQuantity}개까지 가능)`);
       return;
     }
 
@@ -79,10 +88,10 @@ export function CartItem({
       return;
     }
 
-    if (numValue > product.stock_quantity) {
-      alert(`재고가 부족합니다. (최대 ${product.stock_quantity}개까지 가능)`);
-      setQuantity(product.stock_quantity);
-      updateQuantity(product.stock_quantity);
+    if (numValue > stockQuantity) {
+      alert(`재고가 부족합니다. (최대 ${stockQuantity}개까지 가능)`);
+      setQuantity(stockQuantity);
+      updateQuantity(stockQuantity);
       return;
     }
 
@@ -196,7 +205,7 @@ export function CartItem({
               <div className="flex items-center gap-1 text-sm text-amber-600 mb-1">
                 <AlertCircle className="w-4 h-4" />
                 <span>
-                  재고 부족 (재고: {product.stock_quantity}개, 선택: {quantity}
+                  재고 부족 (재고: {stockQuantity}개, 선택: {quantity}
                   개)
                 </span>
               </div>
@@ -210,7 +219,11 @@ export function CartItem({
 
             {/* 단가 */}
             <div className="text-sm text-muted-foreground">
-              단가: {formatPrice(product.price)}원
+              단가:{" "}
+              {originalUnitPrice !== null && (
+                <span className="line-through mr-1">{formatPrice(originalUnitPrice)}원</span>
+              )}
+              {formatPrice(unitPrice)}원
             </div>
           </div>
 
@@ -241,7 +254,7 @@ export function CartItem({
             <Input
               type="number"
               min="1"
-              max={product.stock_quantity}
+              max={stockQuantity}
               value={quantity}
               onChange={(e) => handleQuantityChange(e.target.value)}
               onBlur={(e) => {
@@ -258,7 +271,7 @@ export function CartItem({
               size="sm"
               onClick={handleIncrease}
               disabled={
-                isPending || isOutOfStock || quantity >= product.stock_quantity
+                isPending || isOutOfStock || quantity >= stockQuantity
               }
             >
               <Plus className="w-4 h-4" />
@@ -3,6 +3,7 @@
  * @description 장바구니 페이지 클라이언트 컴포넌트
  *
  * 선택된 항목 상태를 관리하고 주문하기 버튼을 표시합니다.
+ * 비로그인 사용자에게는 로그인하면 장바구니가 계정으로 옮겨진다는 안내를 표시합니다.
  */
 
 "use client";
@@ -17,17 +18,26 @@ interface CartPageClientProps {
   items: CartItemWithProduct[];
   totalAmount: number;
   formatPrice: (price: number) => string;
+  isGuest?: boolean; // 비회원 장바구니 여부 (주문 전 로그인 필요)
 }
 
 export function CartPageClient({
   items,
   totalAmount,
   formatPrice,
+  isGuest = false,
 }: CartPageClientProps) {
   const [selectedIds, setSelectedIds] = useState<string[]>([]);
 
   return (
     <div className="space-y-6">
+      {isGuest && (
+        <p className="rounded-md bg-muted/50 px-4 py-3 text-sm text-muted-foreground">
+          로그인하지 않은 상태의 장바구니입니다. 로그인하면 담은 상품이 계정 장바구니로 옮겨지며,
+          주문은 로그인 후 가능합니다.
+        </p>
+      )}
+
       <CartItemList items={items} onSelectedIdsChange={setSelectedIds} />
 
       {/* 총액 및 결제 버튼 */}
@@ -45,7 +55,7 @@ export function CartPageClient({
           >
             쇼핑 계속하기
           </Link>
-          <CheckoutButton selectedIds={selectedIds} />
+          <CheckoutButton selectedIds={selectedIds} isGuest={isGuest} />
         </div>
       </div>
     </div>
@@ -3,19 +3,22 @@
  * @description 장바구니에서 주문하기 버튼 컴포넌트
  *
  * 선택한 장바구니 항목을 주문 페이지로 이동시키는 버튼입니다.
+ * 비회원 장바구니에서는 로그인 모달을 띄우며, 로그인하면 장바구니가 병합된 뒤 다시 선택해 주문합니다.
  */
 
 "use client";
 
 import { useRouter } from "next/navigation";
+import { SignInButton } from "@clerk/nextjs";
 import { Button } from "@/components/ui/button";
 
 interface CheckoutButtonProps {
   selectedIds: string[];
   disabled?: boolean;
+  isGuest?: boolean; // 비회원 장바구니 여부 (로그인 필요)
 }
 
-export function CheckoutButton({ selectedIds, disabled }: CheckoutButtonProps) {
+export function CheckoutButton({ selectedIds, disabled, isGuest }: CheckoutButtonProps) {
   const router = useRouter();
 
   const handleCheckout = () => {
@@ -29,6 +32,19 @@ export function CheckoutButton({ selectedIds, disabled }: CheckoutButtonProps) {
     router.push(`/checkout?items=${itemsParam}`);
   };
 
+  if (isGuest) {
+    return (
+      <SignInButton mode="modal">
+        <Button
+          disabled={disabled}
+          className="flex-1 px-4 py-3 bg-primary text-primary-foreground rounded-md hover:bg-primary/90 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          로그인하고 주문하기
+        </Button>
+      </SignInButton>
+    );
+  }
+
   return (
     <Button
       onClick={handleCheckout}
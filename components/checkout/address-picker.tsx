@@ -0,0 +1,92 @@
+/**
+ * @file components/checkout/address-picker.tsx
+ * @description 배송지 선택 컴포넌트
+ *
+ * 주문 페이지에서 주소록에 저장한 배송지를 선택하는 컴포넌트입니다.
+ * 배송지를 선택하면 배송 정보 폼이 채워지고, "새 배송지 입력"을 선택하면 폼이 비워집니다.
+ *
+ * @dependencies
+ * - lib/addresses.ts: 연락처 형식 변환
+ * - types/address.ts: UserAddress 타입
+ */
+
+"use client";
+
+import Link from "next/link";
+import { formatPhoneNumber } from "@/lib/addresses";
+import { cn } from "@/lib/utils";
+import type { UserAddress } from "@/types/address";
+
+/**
+ * "새 배송지 입력" 선택 값
+ */
+export const NEW_ADDRESS_ID = "new";
+
+interface AddressPickerProps {
+  addresses: UserAddress[];
+  selectedId: string; // 선택한 배송지 ID (새 배송지 입력은 NEW_ADDRESS_ID)
+  onSelect: (addressId: string) => void;
+  disabled?: boolean;
+}
+
+export function AddressPicker({ addresses, selectedId, onSelect, disabled }: AddressPickerProps) {
+  const options = [
+    ...addresses.map((address) => ({
+      id: address.id,
+      title: address.label,
+      isDefault: address.is_default,
+      description: `${address.recipient_name} · ${formatPhoneNumber(address.phone)}`,
+      detail: `(${address.postal_code}) ${address.address} ${address.detail_address}`,
+    })),
+    {
+      id: NEW_ADDRESS_ID,
+      title: "새 배송지 입력",
+      isDefault: false,
+      description: "배송 정보를 직접 입력합니다.",
+      detail: null,
+    },
+  ];
+
+  return (
+    <fieldset className="space-y-2" disabled={disabled}>
+      <div className="flex items-center justify-between">
+        <legend className="text-sm font-medium">배송지 선택</legend>
+        <Link href="/my/addresses" className="text-sm text-muted-foreground hover:underline">
+          배송지 관리
+        </Link>
+      </div>
+      <div className="grid gap-2">
+        {options.map((option) => (
+          <label
+            key={option.id}
+            className={cn(
+              "flex cursor-pointer gap-3 rounded-md border p-3 text-sm transition-colors",
+              selectedId === option.id ? "border-primary bg-primary/5" : "hover:bg-muted/50"
+            )}
+          >
+            <input
+              type="radio"
+              name="saved-address"
+              value={option.id}
+              checked={selectedId === option.id}
+              onChange={() => onSelect(option.id)}
+              className="mt-1"
+            />
+            <div className="space-y-0.5">
+              <p className="font-medium">
+                {option.title}
+                {option.isDefault && (
+                  <span className="ml-2 rounded-md bg-primary px-1.5 py-0.5 text-xs text-primary-foreground">
+                    기본
+                  </span>
+                )}
+              </p>
+              <p className="text-muted-foreground">{option.description}</p>
+              {option.detail && <p className="text-muted-foreground">{option.detail}</p>}
+            </div>
+          </label>
+        ))}
+      </div>
+    </fieldset>
+  );
+}
@@ -3,19 +3,48 @@
  * @description 주문 페이지 클라이언트 컴포넌트
  *
  * 주문 폼 제출 시 에러 처리를 담당하는 클라이언트 컴포넌트입니다.
+ * 배송지 우편번호를 주문 요약과 공유하여 주문 생성 시와 같은 배송비를 표시하고,
+ * 적용한 쿠폰의 할인 금액을 주문 요약에 반영합니다.
+ * 주소록에 저장한 배송지가 있으면 기본 배송지를 선택한 상태로 배송 정보 폼을 채웁니다.
  */
 
 "use client";
 
-import { useState, useRef } from "react";
+import { useMemo, useState, useRef } from "react";
 import { ShippingForm } from "@/components/checkout/shipping-form";
+import { AddressPicker, NEW_ADDRESS_ID } from "@/components/checkout/address-picker";
+import { OrderSummary } from "@/components/checkout/order-summary";
+import { CouponInput } from "@/components/checkout/coupon-input";
+import { toShippingFormData } from "@/lib/addresses";
 import type { ShippingFormData } from "@/types/order";
+import type { UserAddress } from "@/types/address";
+import type { CartItemWithProduct } from "@/types/cart";
+import type { AppliedCoupon } from "@/types/coupon";
 
 interface CheckoutClientProps {
-  onSubmit: (data: ShippingFormData) => Promise<void>;
+  items: CartItemWithProduct[];
+  addresses?: UserAddress[]; // 주소록에 저장한 배송지 (기본 배송지 먼저)
+  onSubmit: (data: ShippingFormData, couponCode: string | null) => Promise<void>;
 }
 
-export function CheckoutClient({ onSubmit }: CheckoutClientProps) {
+/**
+ * "새 배송지 입력" 선택 시 배송지 필드를 비우는 값
+ */
+const EMPTY_ADDRESS: Omit<ShippingFormData, "orderNote"> = {
+  recipientName: "",
+  phone: "",
+  postalCode: "",
+  address: "",
+  detailAddress: "",
+  deliveryRequest: "",
+};
+
+export function CheckoutClient({ items, addresses = [], onSubmit }: CheckoutClientProps) {
+  const [selectedAddressId, setSelectedAddressId] = useState(
+    addresses[0]?.id ?? NEW_ADDRESS_ID
+  );
+  const [postalCode, setPostalCode] = useState("");
+  const [appliedCoupon, setAppliedCoupon] = useState<AppliedCoupon | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const isSubmittingRef = useRef(false);
@@ -31,7 +60,7 @@ export function CheckoutClient({ onSubmit }: CheckoutClientProps) {
     setError(null);
 
     try {
-      await onSubmit(data);
+      await onSubmit(data, appliedCoupon?.code ?? null);
       // 성공 시 리다이렉트되므로 여기서 상태를 초기화하지 않음
     } catch (err) {
       const errorMessage =
@@ -42,21 +71,64 @@ export function CheckoutClient({ onSubmit }: CheckoutClientProps) {
     }
   };
 
+  // 선택한 배송지로 배송 정보 폼 채우기 (선택이 바뀔 때만 새 값 전달)
+  const prefill = useMemo(() => {
+    const selected = addresses.find((address) => address.id === selectedAddressId);
+    if (selected) {
+      return toShippingFormData(selected);
+    }
+    return addresses.length > 0 ? EMPTY_ADDRESS : null;
+  }, [addresses, selectedAddressId]);
+
   const handleError = (err: Error) => {
     setError(err.message);
     setIsLoading(false);
   };
 
   return (
-    <div className="space-y-6">
-      {error && (
-        <div className="bg-destructive/10 text-destructive border border-destructive/20 rounded-md p-4">
-          <p className="font-medium">주문 생성 실패</p>
-          <p className="text-sm mt-1">{error}</p>
-        </div>
-      )}
-      <ShippingForm onSubmit={handleSubmit} isLoading={isLoading} onError={handleError} />
+    <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+      {/* 배송 정보 입력 폼 */}
+      <div className="space-y-6">
+        <h2 className="text-xl font-semibold">배송 정보</h2>
+        {error && (
+          <div className="bg-destructive/10 text-destructive border border-destructive/20 rounded-md p-4">
+            <p className="font-medium">주문 생성 실패</p>
+            <p className="text-sm mt-1">{error}</p>
+          </div>
+        )}
+        {addresses.length > 0 && (
+          <AddressPicker
+            addresses={addresses}
+            selectedId={selectedAddressId}
+            onSelect={setSelectedAddressId}
+            disabled={isLoading}
+          />
+        )}
+        <ShippingForm
+          onSubmit={handleSubmit}
+          prefill={prefill}
+          isLoading={isLoading}
+          onError={handleError}
+          onPostalCodeChange={setPostalCode}
+        />
+      </div>
+
+      {/* 주문 상품 목록 및 금액 요약 */}
+      <div className="space-y-6">
+        <h2 className="text-xl font-semibold">주문 요약</h2>
+        <OrderSummary
+          items={items}
+          postalCode={postalCode}
+          discountAmount={appliedCoupon?.discountAmount ?? 0}
+          couponName={appliedCoupon?.name}
+        />
+        <CouponInput
+          cartItemIds={items.map((item) => item.id)}
+          appliedCoupon={appliedCoupon}
+          onApply={setAppliedCoupon}
+          disabled={isLoading}
+        />
+      </div>
     </div>
   );
 }
-
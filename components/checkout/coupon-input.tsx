@@ -0,0 +1,126 @@
+/**
+ * @file components/checkout/coupon-input.tsx
+ * @description 쿠폰 코드 입력 컴포넌트
+ *
+ * 주문 페이지에서 쿠폰 코드를 입력하고 적용하는 컴포넌트입니다.
+ *
+ * 주요 기능:
+ * 1. 쿠폰 코드 입력 및 적용 (applyCoupon Server Action으로 할인 금액 확인)
+ * 2. 적용된 쿠폰 정보 표시 및 적용 취소
+ * 3. 쿠폰 적용 실패 사유 표시
+ *
+ * @dependencies
+ * - actions/coupon.ts: applyCoupon
+ * - types/coupon.ts: AppliedCoupon 타입
+ */
+
+"use client";
+
+import { useState, useTransition } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { applyCoupon } from "@/actions/coupon";
+import type { AppliedCoupon } from "@/types/coupon";
+
+interface CouponInputProps {
+  cartItemIds: string[];
+  appliedCoupon: AppliedCoupon | null;
+  onApply: (coupon: AppliedCoupon | null) => void;
+  disabled?: boolean;
+}
+
+/**
+ * 가격을 천단위 콤마로 포맷팅
+ */
+function formatPrice(price: number): string {
+  return new Intl.NumberFormat("ko-KR").format(price);
+}
+
+export function CouponInput({
+  cartItemIds,
+  appliedCoupon,
+  onApply,
+  disabled = false,
+}: CouponInputProps) {
+  const [code, setCode] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [isPending, startTransition] = useTransition();
+
+  const handleApply = () => {
+    if (!code.trim()) {
+      setError("쿠폰 코드를 입력해주세요.");
+      return;
+    }
+
+    setError(null);
+    startTransition(async () => {
+      try {
+        const coupon = await applyCoupon(code, cartItemIds);
+        onApply(coupon);
+        setCode("");
+      } catch (err) {
+        const errorMessage =
+          err instanceof Error ? err.message : "쿠폰 적용에 실패했습니다.";
+        setError(errorMessage);
+      }
+    });
+  };
+
+  const handleRemove = () => {
+    setError(null);
+    onApply(null);
+  };
+
+  return (
+    <div className="space-y-3 p-4 border border-border rounded-lg">
+      <h3 className="font-semibold">쿠폰</h3>
+
+      {appliedCoupon ? (
+        <div className="flex items-center justify-between gap-4">
+          <div className="min-w-0">
+            <p className="font-medium truncate">{appliedCoupon.name}</p>
+            <p className="text-sm text-muted-foreground">
+              {appliedCoupon.code} · {formatPrice(appliedCoupon.discountAmount)}원 할인
+            </p>
+          </div>
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={handleRemove}
+            disabled={disabled}
+          >
+            적용 취소
+          </Button>
+        </div>
+      ) : (
+        <div className="flex gap-2">
+          <Input
+            value={code}
+            onChange={(e) => setCode(e.target.value)}
+            onKeyDown={(e) => {
+              // 배송 정보 폼이 제출되지 않도록 Enter 키는 쿠폰 적용으로 처리
+              if (e.key === "Enter") {
+                e.preventDefault();
+                handleApply();
+              }
+            }}
+            placeholder="쿠폰 코드를 입력하세요"
+            disabled={disabled || isPending}
+            className="uppercase"
+          />
+          <Button
+            type="button"
+            variant="outline"
+            onClick={handleApply}
+            disabled={disabled || isPending}
+          >
+            {isPending ? "확인 중..." : "적용"}
+          </Button>
+        </div>
+      )}
+
+      {error && <p className="text-sm text-destructive">{error}</p>}
+    </div>
+  );
+}
@@ -5,12 +5,15 @@
  * 주문할 상품 목록을 표시하고 금액을 계산하는 컴포넌트입니다.
  *
  * 주요 기능:
- * 1. 선택한 장바구니 항목 표시 (이미지, 이름, 옵션, 수량, 단가, 소계)
+ * 1. 선택한 장바구니 항목 표시 (이미지, 이름, 옵션, 수량, 단가, 소계, 특가 상품은 할인 전 단가)
  * 2. 상품 금액 합계 계산
- * 3. 배송비 표시 (5만원 이상 무료 배송)
- * 4. 최종 결제 금액 표시
+ * 3. 배송비 표시 (lib/shipping.ts 규칙, 제주/도서산간 추가 배송비 포함)
+ * 4. 쿠폰 할인 금액 표시
+ * 5. 최종 결제 금액 표시
  *
  * @dependencies
+ * - lib/shipping.ts: 배송비 계산 규칙 (주문 생성 시와 동일)
+ * - lib/product-variants.ts: 옵션 추가 금액과 프로모션 기간을 반영한 단가 계산
  * - types/cart.ts: CartItemWithProduct 타입
  */
 
@@ -18,10 +21,15 @@
 
 import Image from "next/image";
 import Link from "next/link";
+import { calculateShipping } from "@/lib/shipping";
+import { getCartItemOriginalUnitPrice, getCartItemUnitPrice } from "@/lib/product-variants";
 import type { CartItemWithProduct } from "@/types/cart";
 
 interface OrderSummaryProps {
   items: CartItemWithProduct[];
+  postalCode?: string; // 배송지 우편번호 (제주/도서산간 추가 배송비 계산용)
+  discountAmount?: number; // 쿠폰 할인 금액
+  couponName?: string; // 적용한 쿠폰 이름
 }
 
 /**
@@ -31,25 +39,30 @@ function formatPrice(price: number): string {
   return new Intl.NumberFormat("ko-KR").format(price);
 }
 
-/**
- * 배송비 계산 (클라이언트 사이드)
- * 5만원 이상 무료 배송, 미만 3천원
- */
-function calculateShippingFeeClient(totalAmount: number): number {
-  return totalAmount >= 50000 ? 0 : 3000;
-}
+export function OrderSummary({
+  items,
+  postalCode,
+  discountAmount = 0,
+  couponName,
+}: OrderSummaryProps) {
+  // 배송비 계산 (주문 생성 시와 같은 규칙 사용)
+  const shippingQuote = calculateShipping(
+    items.map((item) => ({
+      price: getCartItemUnitPrice(item),
+      quantity: item.quantity,
+      shippingClass: item.product.shipping_class,
+    })),
+    postalCode
+  );
 
-export function OrderSummary({ items }: OrderSummaryProps) {
-  // 상품 금액 합계 계산
-  const totalAmount = items.reduce((sum, item) => {
-    return sum + item.product.price * item.quantity;
-  }, 0);
+  // 상품 금액 합계
+  const totalAmount = shippingQuote.subtotal;
 
-  // 배송비 계산 (클라이언트 사이드에서 직접 계산)
-  const shippingFee = calculateShippingFeeClient(totalAmount);
+  // 배송비
+  const shippingFee = shippingQuote.shippingFee;
 
   // 최종 결제 금액
-  const finalTotalAmount = totalAmount + shippingFee;
+  const finalTotalAmount = totalAmount + shippingFee - discountAmount;
 
   if (items.length === 0) {
     return null;
@@ -62,7 +75,9 @@ export function OrderSummary({ items }: OrderSummaryProps) {
         <h2 className="text-xl font-semibold">주문할 상품</h2>
         {items.map((item) => {
           const { product } = item;
-          const itemTotal = product.price * item.quantity;
+          const unitPrice = getCartItemUnitPrice(item);
+          const originalUnitPrice = getCartItemOriginalUnitPrice(item);
+          const itemTotal = unitPrice * item.quantity;
           const productImageUrl =
             (product.image_urls && product.image_urls.length > 0
               ? product.image_urls[0]
@@ -108,7 +123,11 @@ export function OrderSummary({ items }: OrderSummaryProps) {
 
                 {/* 단가 및 수량 */}
                 <div className="text-sm text-muted-foreground">
-                  단가: {formatPrice(product.price)}원 × {item.quantity}개
+                  단가:{" "}
+                  {originalUnitPrice !== null && (
+                    <span className="line-through mr-1">{formatPrice(originalUnitPrice)}원</span>
+                  )}
+                  {formatPrice(unitPrice)}원 × {item.quantity}개
                 </div>
               </div>
 
@@ -132,16 +151,47 @@ export function OrderSummary({ items }: OrderSummaryProps) {
         <div className="flex justify-between text-base">
           <span>배송비</span>
           <span>
-            {shippingFee === 0 ? (
+            {shippingQuote.baseFee === 0 ? (
               <span className="text-primary font-semibold">무료</span>
             ) : (
-              `${formatPrice(shippingFee)}원`
+              `${formatPrice(shippingQuote.baseFee)}원`
             )}
           </span>
         </div>
-        {totalAmount < 50000 && (
+        {/* 배송 유형이 여러 개인 경우 배송 단위별 배송비 표시 */}
+        {shippingQuote.shipments.length > 1 &&
+          shippingQuote.shipments.map((shipment) => (
+            <div
+              key={shipment.shippingClass}
+              className="flex justify-between text-sm text-muted-foreground pl-2"
+            >
+              <span>
+                · {shipment.label}
+                {shipment.shipmentCount > 1 && ` (${shipment.shipmentCount}건)`}
+                {shipment.amountToFreeShipping !== null &&
+                  ` - ${formatPrice(shipment.amountToFreeShipping)}원 더 구매 시 무료`}
+              </span>
+              <span>
+                {shipment.fee === 0 ? "무료" : `${formatPrice(shipment.fee)}원`}
+              </span>
+            </div>
+          ))}
+        {shippingQuote.remoteSurcharge > 0 && (
+          <div className="flex justify-between text-base">
+            <span>{shippingQuote.remoteArea} 추가 배송비</span>
+            <span>{formatPrice(shippingQuote.remoteSurcharge)}원</span>
+          </div>
+        )}
+        {/* 배송 유형이 여러 개인 경우 남은 금액은 배송 단위별로 표시 */}
+        {shippingQuote.shipments.length <= 1 && shippingQuote.amountToFreeShipping !== null && (
           <div className="text-sm text-muted-foreground">
-            {formatPrice(50000 - totalAmount)}원 더 구매하시면 무료 배송!
+            {formatPrice(shippingQuote.amountToFreeShipping)}원 더 구매하시면 무료 배송!
+          </div>
+        )}
+        {discountAmount > 0 && (
+          <div className="flex justify-between text-base">
+            <span>쿠폰 할인{couponName && ` (${couponName})`}</span>
+            <span className="text-primary">-{formatPrice(discountAmount)}원</span>
           </div>
         )}
         <div className="flex justify-between items-center pt-3 border-t border-border">
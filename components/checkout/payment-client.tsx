@@ -0,0 +1,186 @@
+/**
+ * @file components/checkout/payment-client.tsx
+ * @description 결제 요청 클라이언트 컴포넌트
+ *
+ * 서버에서 선택한 결제 제공자에 맞춰 결제창을 띄우는 클라이언트 컴포넌트입니다.
+ *
+ * 주요 기능:
+ * 1. toss: Toss Payments 결제창 SDK를 로드하고 카드 결제 요청
+ * 2. fake: 외부 결제창 없이 successUrl / failUrl로 바로 이동 (로컬 개발 및 테스트용)
+ * 3. 중복 클릭 방지 및 결제창 로딩 실패 시 에러 표시
+ *
+ * @dependencies
+ * - types/payment.ts: PaymentClientConfig 타입
+ */
+
+"use client";
+
+import { useRef, useState } from "react";
+import { useRouter } from "next/navigation";
+import { Button } from "@/components/ui/button";
+import type { PaymentClientConfig } from "@/types/payment";
+
+const TOSS_PAYMENTS_SDK_URL = "https://js.tosspayments.com/v1/payment";
+
+/**
+ * Toss Payments 결제창 SDK (v1) 중 사용하는 부분만 정의
+ */
+interface TossPaymentsInstance {
+  requestPayment(
+    method: string,
+    options: {
+      amount: number;
+      orderId: string;
+      orderName: string;
+      customerName?: string;
+      successUrl: string;
+      failUrl: string;
+    }
+  ): Promise<void>;
+}
+
+declare global {
+  interface Window {
+    TossPayments?: (clientKey: string) => TossPaymentsInstance;
+  }
+}
+
+/**
+ * Toss Payments 결제창 SDK를 로드합니다.
+ */
+function loadTossPaymentsSdk(): Promise<NonNullable<Window["TossPayments"]>> {
+  return new Promise((resolve, reject) => {
+    if (window.TossPayments) {
+      resolve(window.TossPayments);
+      return;
+    }
+
+    const script = document.createElement("script");
+    script.src = TOSS_PAYMENTS_SDK_URL;
+    script.async = true;
+    script.onload = () => {
+      if (window.TossPayments) {
+        resolve(window.TossPayments);
+      } else {
+        reject(new Error("결제 모듈을 불러오지 못했습니다."));
+      }
+    };
+    script.onerror = () => reject(new Error("결제 모듈을 불러오지 못했습니다."));
+    document.head.appendChild(script);
+  });
+}
+
+interface PaymentClientProps {
+  config: PaymentClientConfig;
+  orderId: string;
+  orderName: string;
+  amount: number;
+  customerName?: string;
+}
+
+export function PaymentClient({
+  config,
+  orderId,
+  orderName,
+  amount,
+  customerName,
+}: PaymentClientProps) {
+  const router = useRouter();
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const isRequestingRef = useRef(false);
+
+  const handlePayment = async () => {
+    // 중복 클릭 방지
+    if (isRequestingRef.current) {
+      return;
+    }
+
+    isRequestingRef.current = true;
+    setIsLoading(true);
+    setError(null);
+
+    const successUrl = `${window.location.origin}/checkout/success`;
+    const failUrl = `${window.location.origin}/checkout/fail`;
+
+    try {
+      if (config.provider === "fake") {
+        // 가짜 게이트웨이: 결제창 없이 바로 성공 콜백(Route Handler)으로 이동
+        const params = new URLSearchParams({
+          paymentKey: `fake_${Date.now()}`,
+          orderId,
+          amount: String(amount),
+        });
+        window.location.assign(`${successUrl}?${params.toString()}`);
+        return;
+      }
+
+      if (!config.clientKey) {
+        throw new Error("결제 설정이 올바르지 않습니다. (클라이언트 키 없음)");
+      }
+
+      const TossPayments = await loadTossPaymentsSdk();
+      // 결제 인증이 끝나면 successUrl 또는 failUrl로 이동
+      await TossPayments(config.clientKey).requestPayment("카드", {
+        amount,
+        orderId,
+        orderName,
+        customerName,
+        successUrl,
+        failUrl,
+      });
+    } catch (err) {
+      const errorMessage =
+        err instanceof Error ? err.message : "결제 요청에 실패했습니다. 다시 시도해주세요.";
+      setError(errorMessage);
+      setIsLoading(false);
+      isRequestingRef.current = false;
+    }
+  };
+
+  // 가짜 게이트웨이: 결제 실패 흐름 확인용
+  const handleFakeFailure = () => {
+    const params = new URLSearchParams({
+      code: "FAKE_PAY_PROCESS_CANCELED",
+      message: "사용자가 결제를 취소했습니다.",
+      orderId,
+    });
+    router.push(`/checkout/fail?${params.toString()}`);
+  };
+
+  return (
+    <div className="space-y-4">
+      {error && (
+        <div className="bg-destructive/10 text-destructive border border-destructive/20 rounded-md p-4">
+          <p className="font-medium">결제 요청 실패</p>
+          <p className="text-sm mt-1">{error}</p>
+        </div>
+      )}
+
+      <Button
+        className="w-full"
+        size="lg"
+        onClick={handlePayment}
+        disabled={isLoading}
+      >
+        {isLoading ? "결제 진행 중..." : `${new Intl.NumberFormat("ko-KR").format(amount)}원 결제하기`}
+      </Button>
+
+      {config.provider === "fake" && (
+        <div className="space-y-2">
+          <p className="text-xs text-muted-foreground text-center">
+            테스트 결제 모드입니다. 실제 결제가 이루어지지 않습니다.
+          </p>
+          <Button
+            variant="outline"
+            className="w-full"
+            onClick={handleFakeFailure}
+            disabled={isLoading}
+          >
+            결제 실패 테스트
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
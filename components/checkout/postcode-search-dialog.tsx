@@ -0,0 +1,140 @@
+/**
+ * @file components/checkout/postcode-search-dialog.tsx
+ * @description 우편번호 검색 다이얼로그 컴포넌트
+ *
+ * 도로명, 지번, 건물 이름으로 주소를 검색하고 선택한 주소의 우편번호와 도로명 주소를
+ * 돌려주는 다이얼로그입니다. 배송 정보 폼과 배송지 추가/수정 폼에서 사용합니다.
+ *
+ * 주의: 배송 정보 폼(<form>) 안에서 열리므로 검색 입력은 <form>으로 감싸지 않고
+ * Enter 키를 직접 처리합니다. (React 이벤트는 포털을 거쳐 바깥 폼까지 전파됨)
+ *
+ * @dependencies
+ * - actions/postcode.ts: searchPostcode Server Action
+ * - types/postcode.ts: PostcodeAddress 타입
+ */
+
+"use client";
+
+import { useState, useTransition } from "react";
+import { Search } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { searchPostcode } from "@/actions/postcode";
+import type { PostcodeAddress } from "@/types/postcode";
+
+interface PostcodeSearchDialogProps {
+  onSelect: (address: PostcodeAddress) => void;
+  disabled?: boolean;
+}
+
+export function PostcodeSearchDialog({ onSelect, disabled }: PostcodeSearchDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [query, setQuery] = useState("");
+  const [results, setResults] = useState<PostcodeAddress[] | null>(null); // null: 아직 검색하지 않음
+  const [error, setError] = useState<string | null>(null);
+  const [isSearching, startTransition] = useTransition();
+
+  // 다이얼로그를 열 때마다 이전 검색 결과 초기화
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (nextOpen) {
+      setQuery("");
+      setResults(null);
+      setError(null);
+    }
+    setOpen(nextOpen);
+  };
+
+  const handleSearch = () => {
+    startTransition(async () => {
+      try {
+        setError(null);
+        setResults(await searchPostcode(query));
+      } catch (err) {
+        setResults(null);
+        setError(err instanceof Error ? err.message : "주소 검색에 실패했습니다.");
+      }
+    });
+  };
+
+  const handleSelect = (address: PostcodeAddress) => {
+    onSelect(address);
+    setOpen(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button type="button" variant="outline" disabled={disabled}>
+          <Search className="w-4 h-4" />
+          우편번호 검색
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>우편번호 검색</DialogTitle>
+          <DialogDescription>
+            도로명 + 건물번호, 지번, 건물 이름으로 검색하세요. (예: 테헤란로 152, 역삼동 737)
+          </DialogDescription>
+        </DialogHeader>
+
+        {/* 검색어 입력 */}
+        <div className="flex gap-2">
+          <Input
+            placeholder="도로명, 지번, 건물 이름"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter" && !e.nativeEvent.isComposing) {
+                e.preventDefault(); // 바깥 폼 제출 방지
+                handleSearch();
+              }
+            }}
+            autoFocus
+          />
+          <Button type="button" onClick={handleSearch} disabled={isSearching}>
+            {isSearching ? "검색 중..." : "검색"}
+          </Button>
+        </div>
+
+        {error && <p className="text-sm text-destructive">{error}</p>}
+
+        {/* 검색 결과 */}
+        {results && results.length === 0 && (
+          <p className="py-6 text-center text-sm text-muted-foreground">
+            검색 결과가 없습니다. 도로명과 건물번호를 함께 입력해보세요.
+          </p>
+        )}
+        {results && results.length > 0 && (
+          <ul className="divide-y rounded-md border">
+            {results.map((address) => (
+              <li key={`${address.postalCode}-${address.roadAddress}`}>
+                <button
+                  type="button"
+                  onClick={() => handleSelect(address)}
+                  className="w-full space-y-0.5 p-3 text-left text-sm hover:bg-muted/50"
+                >
+                  <p>
+                    <span className="mr-2 font-medium text-primary">{address.postalCode}</span>
+                    {address.roadAddress}
+                    {address.buildingName && ` (${address.buildingName})`}
+                  </p>
+                  {address.jibunAddress && (
+                    <p className="text-muted-foreground">지번: {address.jibunAddress}</p>
+                  )}
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -6,22 +6,28 @@
  *
  * 주요 기능:
  * 1. 수령인 이름, 연락처 입력
- * 2. 배송 주소 입력 (우편번호, 기본주소, 상세주소)
+ * 2. 배송 주소 입력 (우편번호 검색으로 우편번호, 기본주소 채우기 + 상세주소 입력)
  * 3. 배송 요청사항 선택 또는 직접 입력
  * 4. 주문 메모 입력
  * 5. 유효성 검증 (react-hook-form + Zod)
+ * 6. 주소록에서 선택한 배송지로 배송지 필드 채우기 (prefill)
  *
  * @dependencies
  * - react-hook-form: 폼 관리
  * - zod: 유효성 검사
+ * - lib/addresses.ts: 배송지 Zod 스키마, 연락처 형식 변환
+ * - components/checkout/postcode-search-dialog.tsx: 우편번호 검색 다이얼로그
  * - types/order.ts: ShippingFormData 타입
  */
 
 "use client";
 
+import { useEffect } from "react";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
+import { formatPhoneNumber, shippingAddressSchema } from "@/lib/addresses";
+import { PostcodeSearchDialog } from "@/components/checkout/postcode-search-dialog";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
@@ -35,32 +41,12 @@ import {
   FormMessage,
 } from "@/components/ui/form";
 import type { ShippingFormData } from "@/types/order";
+import type { PostcodeAddress } from "@/types/postcode";
 
 /**
- * 배송 정보 폼 스키마 (Zod)
+ * 배송 정보 폼 스키마 (Zod, 배송지 필드는 주소록과 같은 규칙 사용)
  */
-const shippingFormSchema = z.object({
-  recipientName: z
-    .string()
-    .min(1, "수령인 이름을 입력해주세요.")
-    .max(50, "수령인 이름은 50자 이하여야 합니다."),
-  phone: z
-    .string()
-    .min(1, "연락처를 입력해주세요.")
-    .regex(/^01[0-9]-?[0-9]{3,4}-?[0-9]{4}$/, "올바른 휴대폰 번호 형식이 아닙니다. (예: 010-1234-5678)"),
-  postalCode: z
-    .string()
-    .min(1, "우편번호를 입력해주세요.")
-    .max(10, "우편번호는 10자 이하여야 합니다."),
-  address: z
-    .string()
-    .min(1, "기본 주소를 입력해주세요.")
-    .max(200, "기본 주소는 200자 이하여야 합니다."),
-  detailAddress: z
-    .string()
-    .min(1, "상세 주소를 입력해주세요.")
-    .max(200, "상세 주소는 200자 이하여야 합니다."),
-  deliveryRequest: z.string().max(200, "배송 요청사항은 200자 이하여야 합니다.").optional(),
+const shippingFormSchema = shippingAddressSchema.extend({
   orderNote: z.string().max(500, "주문 메모는 500자 이하여야 합니다.").optional(),
 });
 
@@ -82,6 +68,8 @@ interface ShippingFormProps {
   defaultValues?: Partial<ShippingFormData>;
   isLoading?: boolean;
   onError?: (error: Error) => void;
+  onPostalCodeChange?: (postalCode: string) => void; // 배송비(제주/도서산간) 재계산용
+  prefill?: Omit<ShippingFormData, "orderNote"> | null; // 주소록에서 선택한 배송지 (바뀌면 배송지 필드를 채움)
 }
 
 export function ShippingForm({
@@ -89,6 +77,8 @@ export function ShippingForm({
   defaultValues,
   isLoading = false,
   onError,
+  onPostalCodeChange,
+  prefill,
 }: ShippingFormProps) {
   const form = useForm<ShippingFormValues>({
     resolver: zodResolver(shippingFormSchema),
@@ -132,6 +122,31 @@ export function ShippingForm({
   };
 
   const deliveryRequestValue = form.watch("deliveryRequest");
+  const postalCodeValue = form.watch("postalCode");
+
+  // 주소록에서 배송지를 선택하면 배송지 필드를 채움 (주문 메모는 유지)
+  useEffect(() => {
+    if (!prefill) {
+      return;
+    }
+    form.reset({
+      ...form.getValues(),
+      ...prefill,
+      deliveryRequest: prefill.deliveryRequest ?? "",
+    });
+  }, [prefill, form]);
+
+  // 우편번호 검색에서 주소를 선택하면 우편번호, 기본 주소를 채우고 상세 주소 입력으로 이동
+  const handlePostcodeSelect = (selected: PostcodeAddress) => {
+    form.setValue("postalCode", selected.postalCode, { shouldValidate: true });
+    form.setValue("address", selected.roadAddress, { shouldValidate: true });
+    form.setFocus("detailAddress");
+  };
+
+  // 우편번호가 바뀌면 주문 요약의 배송비를 다시 계산하도록 알림
+  useEffect(() => {
+    onPostalCodeChange?.(postalCodeValue);
+  }, [postalCodeValue, onPostalCodeChange]);
 
   return (
     <Form {...form}>
@@ -164,15 +179,8 @@ export function ShippingForm({
                   placeholder="010-1234-5678"
                   {...field}
                   onChange={(e) => {
-                    // 하이픈 자동 추가 (선택사항)
-                    const value = e.target.value.replace(/[^0-9]/g, "");
-                    let formatted = value;
-                    if (value.length > 3 && value.length <= 7) {
-                      formatted = `${value.slice(0, 3)}-${value.slice(3)}`;
-                    } else if (value.length > 7) {
-                      formatted = `${value.slice(0, 3)}-${value.slice(3, 7)}-${value.slice(7, 11)}`;
-                    }
-                    field.onChange(formatted);
+                    // 하이픈 자동 추가
+                    field.onChange(formatPhoneNumber(e.target.value));
                   }}
                 />
               </FormControl>
@@ -189,11 +197,19 @@ export function ShippingForm({
           render={({ field }) => (
             <FormItem>
               <FormLabel>우편번호 *</FormLabel>
-              <FormControl>
-                <Input placeholder="12345" {...field} />
-              </FormControl>
+              <div className="flex gap-2">
+                <FormControl>
+                  <Input
+                    placeholder="우편번호 검색을 눌러주세요"
+                    readOnly
+                    className="bg-muted/50"
+                    {...field}
+                  />
+                </FormControl>
+                <PostcodeSearchDialog onSelect={handlePostcodeSelect} disabled={isLoading} />
+              </div>
               <FormDescription>
-                우편번호 검색 기능은 향후 추가 예정입니다.
+                도로명, 지번, 건물 이름으로 검색해서 우편번호와 기본 주소를 입력해주세요.
               </FormDescription>
               <FormMessage />
             </FormItem>
@@ -208,7 +224,12 @@ export function ShippingForm({
             <FormItem>
               <FormLabel>기본 주소 *</FormLabel>
               <FormControl>
-                <Input placeholder="서울시 강남구 테헤란로 123" {...field} />
+                <Input
+                  placeholder="우편번호 검색 시 자동 입력됩니다"
+                  readOnly
+                  className="bg-muted/50"
+                  {...field}
+                />
               </FormControl>
               <FormMessage />
             </FormItem>
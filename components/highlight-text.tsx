@@ -0,0 +1,37 @@
+/**
+ * @file components/highlight-text.tsx
+ * @description 검색어 강조 텍스트 컴포넌트
+ *
+ * 텍스트에서 검색어와 일치하는 부분을 <mark>로 강조합니다.
+ * 검색 결과 상품 카드와 Navbar 자동완성 목록에서 사용합니다.
+ *
+ * @dependencies
+ * - lib/search.ts: getHighlightSegments
+ */
+
+import { getHighlightSegments } from "@/lib/search";
+
+interface HighlightTextProps {
+  text: string;
+  query?: string | null; // 강조할 검색어 (없으면 텍스트 그대로 표시)
+}
+
+export function HighlightText({ text, query }: HighlightTextProps) {
+  if (!query) {
+    return <>{text}</>;
+  }
+
+  return (
+    <>
+      {getHighlightSegments(text, query).map((segment, index) =>
+        segment.highlighted ? (
+          <mark key={index} className="bg-yellow-200/70 text-inherit rounded-sm">
+            {segment.text}
+          </mark>
+        ) : (
+          <span key={index}>{segment.text}</span>
+        )
+      )}
+    </>
+  );
+}
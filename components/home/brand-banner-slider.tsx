@@ -2,7 +2,10 @@
  * @file components/home/brand-banner-slider.tsx
  * @description 브랜드 배너 그리드 컴포넌트
  *
- * 브랜드 이미지를 3개 그리드로 표시하는 컴포넌트
+ * 배너 이미지를 3개 그리드로 표시하는 컴포넌트
+ * 앞에서부터 최대 3개 슬라이드를 각자의 이미지 / 링크로 표시합니다.
+ * (진행 중인 캠페인 배너가 관리자 페이지에서 등록한 배너보다 먼저 표시됨)
+ * 설명(서식 있는 텍스트)이나 연결 상품이 있으면 이미지 아래에 함께 표시합니다.
  * 각 이미지 크기: 405.58px * 540.78px
  */
 
@@ -11,13 +14,16 @@
 import Image from "next/image";
 import Link from "next/link";
 import { Product } from "@/types/product";
+import { RichText } from "@/components/rich-text";
+import { getEffectivePrice } from "@/lib/pricing";
+import { MAX_HOME_BANNERS } from "@/lib/banners";
 
 interface BrandBannerData {
   id: string;
   imageUrl: string;
   imageLink?: string;
   brandName: string;
-  description?: string; // 텍스트 설명 (옵셔널)
+  description?: string; // 서식 있는 텍스트 설명 (옵셔널, 허용 태그만 표시)
   descriptionImageUrl?: string; // 이미지 설명 (옵셔널)
   products: Product[];
 }
@@ -26,49 +32,82 @@ interface BrandBannerSliderProps {
   slides: BrandBannerData[];
 }
 
+/**
+ * 가격을 천단위 콤마로 포맷팅
+ */
+function formatPrice(price: number): string {
+  return new Intl.NumberFormat("ko-KR").format(price);
+}
+
 export function BrandBannerSlider({ slides }: BrandBannerSliderProps) {
   if (!slides || slides.length === 0) {
     return null;
   }
 
-  // 첫 번째 슬라이드의 이미지를 3개 그리드로 표시
-  const slide = slides[0];
+  // 앞에서부터 3개 슬라이드를 그리드로 표시
+  const gridSlides = slides.slice(0, MAX_HOME_BANNERS);
 
   return (
     <section className="mb-16 lg:mb-24">
       {/* 3개 그리드 레이아웃 */}
       <div className="grid grid-cols-3 gap-4">
-        {[0, 1, 2].map((index) => {
-          // 각 이미지별로 다른 파일 사용
-          const imageUrl = 
-            index === 0 ? slide.imageUrl : // 첫 번째: /1.jpg
-            index === 1 ? "/2.jpg" :      // 두 번째: /2.jpg
-            "/3.jpg";                      // 세 번째: /3.jpg
-          
+        {gridSlides.map((slide, index) => {
+          const image = (
+            <Image
+              src={slide.imageUrl}
+              alt={slide.brandName}
+              width={405.58}
+              height={540.78}
+              className="object-cover"
+              priority={index === 0}
+              sizes="(max-width: 768px) 33vw, 405.58px"
+            />
+          );
+
+          const hasCaption = !!slide.description || slide.products.length > 0;
+
           return (
-            <div key={index} className="subBan_thumb relative bg-muted overflow-hidden">
-              {slide.imageLink ? (
-                <Link href={slide.imageLink} className="block w-full h-full">
-                  <Image
-                    src={imageUrl}
-                    alt={`${slide.brandName} ${index + 1}`}
-                    width={405.58}
-                    height={540.78}
-                    className="object-cover"
-                    priority={index === 0}
-                    sizes="(max-width: 768px) 33vw, 405.58px"
-                  />
-                </Link>
-              ) : (
-                <Image
-                  src={imageUrl}
-                  alt={`${slide.brandName} ${index + 1}`}
-                  width={405.58}
-                  height={540.78}
-                  className="object-cover"
-                  priority={index === 0}
-                  sizes="(max-width: 768px) 33vw, 405.58px"
-                />
+            <div key={slide.id}>
+              <div className="subBan_thumb relative bg-muted overflow-hidden">
+                {slide.imageLink ? (
+                  <Link href={slide.imageLink} className="block w-full h-full">
+                    {image}
+                  </Link>
+                ) : (
+                  image
+                )}
+              </div>
+
+              {/* 설명 / 연결 상품 */}
+              {hasCaption && (
+                <div className="mt-4 space-y-3">
+                  <h3 className="text-xs font-light tracking-[0.2em] uppercase">
+                    {slide.brandName}
+                  </h3>
+                  {slide.description && (
+                    <RichText
+                      content={slide.description}
+                      className="text-xs font-light leading-relaxed text-muted-foreground"
+                    />
+                  )}
+                  {slide.products.length > 0 && (
+                    <ul className="space-y-1">
+                      {slide.products.map((product) => (
+                        <li key={product.id} className="flex justify-between gap-2 text-xs">
+                          <Link
+                            href={`/products/${product.id}`}
+                            className="line-clamp-1 font-light hover:underline"
+                          >
+                            {product.name}
+                          </Link>
+                          <span className="shrink-0 text-muted-foreground">
+                            {formatPrice(getEffectivePrice(product))}원
+                          </span>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
               )}
             </div>
           );
@@ -0,0 +1,58 @@
+/**
+ * @file components/home/home-product-section.tsx
+ * @description 홈 상품 섹션 컴포넌트
+ *
+ * 섹션 구성(제목, 데이터 소스)에 맞춰 상품 그리드를 표시합니다.
+ * 상품이 없으면 섹션을 표시하지 않고, 최신 상품 섹션만 빈 상태 문구를 표시합니다.
+ * 디자인 콜라보 섹션은 상품 카드에 콜라보 배지를 표시합니다.
+ *
+ * @dependencies
+ * - components/product-card.tsx: 상품 카드
+ * - lib/home-sections.ts: 섹션 구성 타입
+ */
+
+import { ProductCard } from "@/components/product-card";
+import type { HomeSectionConfig } from "@/lib/home-sections";
+import type { Product } from "@/types/product";
+
+interface HomeProductSectionProps {
+  section: HomeSectionConfig;
+  products: Product[];
+}
+
+export function HomeProductSection({ section, products }: HomeProductSectionProps) {
+  if (products.length === 0 && section.source_type !== "latest") {
+    return null;
+  }
+
+  return (
+    <section className="mb-16 lg:mb-24">
+      <h2 className="mb-8 text-xs font-light tracking-[0.2em] uppercase text-muted-foreground">
+        {section.title}
+      </h2>
+
+      {products.length === 0 ? (
+        <div className="border-t border-border pt-12 text-center">
+          <p className="text-sm text-muted-foreground font-light">
+            등록된 상품이 없습니다.
+          </p>
+        </div>
+      ) : (
+        <div className="grid grid-cols-2 gap-6 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4">
+          {products.map((product) =>
+            section.source_type === "collaboration" ? (
+              <div key={product.id} className="relative">
+                <ProductCard product={product} />
+                <span className="absolute left-3 top-3 z-10 bg-black/70 text-white px-2 py-1 text-xs font-light tracking-wide uppercase">
+                  콜라보
+                </span>
+              </div>
+            ) : (
+              <ProductCard key={product.id} product={product} />
+            )
+          )}
+        </div>
+      )}
+    </section>
+  );
+}
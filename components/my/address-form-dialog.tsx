@@ -0,0 +1,308 @@
+/**
+ * @file components/my/address-form-dialog.tsx
+ * @description 배송지 추가/수정 다이얼로그 컴포넌트
+ *
+ * 배송지 관리 페이지에서 배송지를 추가하거나 수정하는 다이얼로그입니다.
+ * address를 전달하면 수정, 전달하지 않으면 추가 다이얼로그로 동작합니다.
+ *
+ * 주요 기능:
+ * 1. 배송지 이름, 수령인, 연락처, 주소(우편번호 검색), 배송 요청사항 입력
+ * 2. 기본 배송지 지정
+ * 3. 유효성 검증 (react-hook-form + Zod, 주문 배송 정보 폼과 같은 규칙)
+ *
+ * @dependencies
+ * - actions/address.ts: createUserAddress, updateUserAddress Server Action
+ * - lib/addresses.ts: 배송지 Zod 스키마, 연락처 형식 변환
+ * - components/checkout/postcode-search-dialog.tsx: 우편번호 검색 다이얼로그
+ */
+
+"use client";
+
+import { useState, useTransition } from "react";
+import { useRouter } from "next/navigation";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { PostcodeSearchDialog } from "@/components/checkout/postcode-search-dialog";
+import { createUserAddress, updateUserAddress } from "@/actions/address";
+import { formatPhoneNumber, userAddressSchema } from "@/lib/addresses";
+import type { UserAddress, UserAddressInput } from "@/types/address";
+import type { PostcodeAddress } from "@/types/postcode";
+
+type AddressFormValues = z.infer<typeof userAddressSchema>;
+
+interface AddressFormDialogProps {
+  address?: UserAddress; // 수정할 배송지 (없으면 추가)
+  trigger: React.ReactNode; // 다이얼로그를 여는 버튼
+}
+
+/**
+ * 배송지를 폼 기본값으로 변환합니다.
+ */
+function toFormValues(address?: UserAddress): AddressFormValues {
+  return {
+    label: address?.label ?? "",
+    recipientName: address?.recipient_name ?? "",
+    phone: address ? formatPhoneNumber(address.phone) : "",
+    postalCode: address?.postal_code ?? "",
+    address: address?.address ?? "",
+    detailAddress: address?.detail_address ?? "",
+    deliveryRequest: address?.delivery_request ?? "",
+    isDefault: address?.is_default ?? false,
+  };
+}
+
+export function AddressFormDialog({ address, trigger }: AddressFormDialogProps) {
+  const router = useRouter();
+  const [open, setOpen] = useState(false);
+  const [isLoading, startTransition] = useTransition();
+  const isEdit = !!address;
+
+  const form = useForm<AddressFormValues>({
+    resolver: zodResolver(userAddressSchema),
+    defaultValues: toFormValues(address),
+  });
+
+  // 다이얼로그를 열 때마다 저장된 값으로 초기화
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (nextOpen) {
+      form.reset(toFormValues(address));
+    }
+    setOpen(nextOpen);
+  };
+
+  // 우편번호 검색에서 주소를 선택하면 우편번호, 기본 주소를 채우고 상세 주소 입력으로 이동
+  const handlePostcodeSelect = (selected: PostcodeAddress) => {
+    form.setValue("postalCode", selected.postalCode, { shouldValidate: true });
+    form.setValue("address", selected.roadAddress, { shouldValidate: true });
+    form.setFocus("detailAddress");
+  };
+
+  const handleSubmit = (values: AddressFormValues) => {
+    const input: UserAddressInput = {
+      label: values.label,
+      recipientName: values.recipientName,
+      phone: values.phone,
+      postalCode: values.postalCode,
+      address: values.address,
+      detailAddress: values.detailAddress,
+      deliveryRequest: values.deliveryRequest,
+      isDefault: values.isDefault,
+    };
+
+    startTransition(async () => {
+      try {
+        if (address) {
+          await updateUserAddress(address.id, input);
+        } else {
+          await createUserAddress(input);
+        }
+        setOpen(false);
+        router.refresh();
+      } catch (error) {
+        console.error("배송지 저장 실패:", error);
+        alert(
+          `배송지 저장에 실패했습니다: ${error instanceof Error ? error.message : "알 수 없는 에러"}`
+        );
+      }
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>{trigger}</DialogTrigger>
+      <DialogContent className="max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{isEdit ? "배송지 수정" : "배송지 추가"}</DialogTitle>
+          <DialogDescription>
+            저장한 배송지는 주문할 때 선택해서 사용할 수 있습니다.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-4">
+            {/* 배송지 이름 */}
+            <FormField
+              control={form.control}
+              name="label"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>배송지 이름 *</FormLabel>
+                  <FormControl>
+                    <Input placeholder="집, 회사 등" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            {/* 수령인 이름 */}
+            <FormField
+              control={form.control}
+              name="recipientName"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>수령인 이름 *</FormLabel>
+                  <FormControl>
+                    <Input placeholder="홍길동" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            {/* 연락처 */}
+            <FormField
+              control={form.control}
+              name="phone"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>연락처 (휴대폰) *</FormLabel>
+                  <FormControl>
+                    <Input
+                      type="tel"
+                      placeholder="010-1234-5678"
+                      {...field}
+                      onChange={(e) => field.onChange(formatPhoneNumber(e.target.value))}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            {/* 우편번호 */}
+            <FormField
+              control={form.control}
+              name="postalCode"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>우편번호 *</FormLabel>
+                  <div className="flex gap-2">
+                    <FormControl>
+                      <Input
+                        placeholder="우편번호 검색을 눌러주세요"
+                        readOnly
+                        className="bg-muted/50"
+                        {...field}
+                      />
+                    </FormControl>
+                    <PostcodeSearchDialog onSelect={handlePostcodeSelect} disabled={isLoading} />
+                  </div>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            {/* 기본 주소 */}
+            <FormField
+              control={form.control}
+              name="address"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>기본 주소 *</FormLabel>
+                  <FormControl>
+                    <Input
+                      placeholder="우편번호 검색 시 자동 입력됩니다"
+                      readOnly
+                      className="bg-muted/50"
+                      {...field}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            {/* 상세 주소 */}
+            <FormField
+              control={form.control}
+              name="detailAddress"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>상세 주소 *</FormLabel>
+                  <FormControl>
+                    <Input placeholder="101동 101호" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            {/* 배송 요청사항 */}
+            <FormField
+              control={form.control}
+              name="deliveryRequest"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>배송 요청사항</FormLabel>
+                  <FormControl>
+                    <Input
+                      placeholder="부재 시 문 앞에 놓아주세요"
+                      {...field}
+                      value={field.value ?? ""}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            {/* 기본 배송지 (이미 기본 배송지면 해제 불가, 다른 배송지를 기본으로 지정) */}
+            <FormField
+              control={form.control}
+              name="isDefault"
+              render={({ field }) => (
+                <FormItem className="flex items-center gap-2 space-y-0">
+                  <FormControl>
+                    <input
+                      type="checkbox"
+                      checked={field.value ?? false}
+                      onChange={(e) => field.onChange(e.target.checked)}
+                      disabled={address?.is_default}
+                      className="h-4 w-4"
+                    />
+                  </FormControl>
+                  <FormLabel className="font-normal">기본 배송지로 설정</FormLabel>
+                </FormItem>
+              )}
+            />
+
+            <DialogFooter>
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => setOpen(false)}
+                disabled={isLoading}
+              >
+                취소
+              </Button>
+              <Button type="submit" disabled={isLoading}>
+                {isLoading ? "저장 중..." : "저장"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,83 @@
+/**
+ * @file components/my/address-item-actions.tsx
+ * @description 배송지 액션 버튼 컴포넌트
+ *
+ * 배송지 관리 페이지에서 배송지를 수정, 삭제하거나 기본 배송지로 지정하는 버튼입니다.
+ *
+ * @dependencies
+ * - actions/address.ts: deleteUserAddress, setDefaultUserAddress Server Action
+ * - components/my/address-form-dialog.tsx: 배송지 수정 다이얼로그
+ */
+
+"use client";
+
+import { useTransition } from "react";
+import { useRouter } from "next/navigation";
+import { Button } from "@/components/ui/button";
+import { AddressFormDialog } from "@/components/my/address-form-dialog";
+import { deleteUserAddress, setDefaultUserAddress } from "@/actions/address";
+import type { UserAddress } from "@/types/address";
+
+interface AddressItemActionsProps {
+  address: UserAddress;
+}
+
+export function AddressItemActions({ address }: AddressItemActionsProps) {
+  const router = useRouter();
+  const [isPending, startTransition] = useTransition();
+
+  // 기본 배송지로 지정
+  const handleSetDefault = () => {
+    startTransition(async () => {
+      try {
+        await setDefaultUserAddress(address.id);
+        router.refresh();
+      } catch (error) {
+        console.error("기본 배송지 지정 실패:", error);
+        alert(
+          `기본 배송지 지정에 실패했습니다: ${error instanceof Error ? error.message : "알 수 없는 에러"}`
+        );
+      }
+    });
+  };
+
+  // 배송지 삭제
+  const handleDelete = () => {
+    if (!confirm(`'${address.label}' 배송지를 삭제하시겠습니까?`)) {
+      return;
+    }
+
+    startTransition(async () => {
+      try {
+        await deleteUserAddress(address.id);
+        router.refresh();
+      } catch (error) {
+        console.error("배송지 삭제 실패:", error);
+        alert(
+          `배송지 삭제에 실패했습니다: ${error instanceof Error ? error.message : "알 수 없는 에러"}`
+        );
+      }
+    });
+  };
+
+  return (
+    <div className="flex flex-wrap gap-2">
+      {!address.is_default && (
+        <Button variant="outline" size="sm" onClick={handleSetDefault} disabled={isPending}>
+          기본 배송지로 설정
+        </Button>
+      )}
+      <AddressFormDialog
+        address={address}
+        trigger={
+          <Button variant="outline" size="sm" disabled={isPending}>
+            수정
+          </Button>
+        }
+      />
+      <Button variant="ghost" size="sm" onClick={handleDelete} disabled={isPending}>
+        삭제
+      </Button>
+    </div>
+  );
+}
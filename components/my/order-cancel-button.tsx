@@ -3,12 +3,16 @@
  * @description 주문 취소 버튼 컴포넌트
  *
  * 주문 취소 버튼과 확인 다이얼로그를 제공하는 컴포넌트입니다.
- * 실제 취소 로직은 Phase 5 이후 구현 예정이므로, 현재는 UI만 제공합니다.
+ * 확인 시 cancelOrder Server Action을 호출하여 주문을 취소하고 재고를 복구합니다.
+ *
+ * @dependencies
+ * - actions/order.ts: cancelOrder Server Action
  */
 
 "use client";
 
-import { useState } from "react";
+import { useState, useTransition } from "react";
+import { useRouter } from "next/navigation";
 import { Button } from "@/components/ui/button";
 import {
   Dialog,
@@ -19,26 +23,31 @@ import {
   DialogTitle,
   DialogTrigger,
 } from "@/components/ui/dialog";
+import { cancelOrder } from "@/actions/order";
 
 interface OrderCancelButtonProps {
   orderId: string;
 }
 
 export function OrderCancelButton({ orderId }: OrderCancelButtonProps) {
+  const router = useRouter();
   const [open, setOpen] = useState(false);
-  const [isLoading, setIsLoading] = useState(false);
+  const [isLoading, startTransition] = useTransition();
 
-  const handleCancel = async () => {
-    setIsLoading(true);
-    // TODO: Phase 5 이후 실제 취소 로직 구현
-    console.log("주문 취소 요청:", orderId);
-    
-    // 임시로 다이얼로그만 닫기
-    setTimeout(() => {
-      setIsLoading(false);
-      setOpen(false);
-      alert("주문 취소 기능은 곧 제공될 예정입니다.");
-    }, 500);
+  const handleCancel = () => {
+    startTransition(async () => {
+      try {
+        await cancelOrder(orderId);
+        setOpen(false);
+        alert("주문이 취소되었습니다.");
+        router.refresh(); // 주문 상태 갱신을 위한 새로고침
+      } catch (error) {
+        console.error("주문 취소 실패:", error);
+        alert(
+          `주문 취소에 실패했습니다: ${error instanceof Error ? error.message : "알 수 없는 에러"}`
+        );
+      }
+    });
   };
 
   return (
@@ -0,0 +1,343 @@
+/**
+ * @file components/my/order-claim-dialog.tsx
+ * @description 반품 / 교환 신청 다이얼로그 컴포넌트
+ *
+ * 주문 상세 페이지(배송 완료 주문)에서 주문 상품별로 반품 / 교환을 신청하는 다이얼로그입니다.
+ *
+ * 주요 기능:
+ * 1. 유형(반품 / 교환), 사유 유형 선택
+ * 2. 상세 사유 입력 (5~1000자)
+ * 3. 신청 수량 입력 (신청 가능 수량 이하)
+ * 4. 사진 업로드 / 삭제 (Supabase Storage, 최대 5장)
+ * 5. createOrderClaim Server Action으로 신청
+ *
+ * @dependencies
+ * - actions/claim.ts: createOrderClaim Server Action
+ * - lib/supabase/clerk-client.ts: Supabase 클라이언트 (사진 업로드)
+ * - lib/claims.ts: 반품/교환 규칙
+ */
+
+"use client";
+
+import { useState, useTransition } from "react";
+import { useRouter } from "next/navigation";
+import { useUser } from "@clerk/nextjs";
+import Image from "next/image";
+import { Upload, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { useClerkSupabaseClient } from "@/lib/supabase/clerk-client";
+import { createOrderClaim } from "@/actions/claim";
+import {
+  buildClaimPhotoPath,
+  CLAIM_MAX_PHOTOS,
+  CLAIM_PHOTO_MAX_SIZE,
+  CLAIM_PHOTO_TYPES,
+  CLAIM_REASON_MAX_LENGTH,
+  CLAIM_REASON_MIN_LENGTH,
+  CLAIM_REASON_TYPE_LABELS,
+  CLAIM_TYPE_LABELS,
+} from "@/lib/claims";
+import { cn } from "@/lib/utils";
+import type { OrderClaimReasonType, OrderClaimType } from "@/types/claim";
+
+const STORAGE_BUCKET = process.env.NEXT_PUBLIC_STORAGE_BUCKET || "uploads";
+
+interface OrderClaimDialogProps {
+  orderId: string;
+  orderItemId: string;
+  productName: string;
+  maxQuantity: number; // 신청 가능 수량
+}
+
+/**
+ * 업로드한 첨부 사진 (Storage 경로 + 미리보기 URL)
+ */
+interface UploadedPhoto {
+  path: string;
+  previewUrl: string;
+}
+
+export function OrderClaimDialog({
+  orderId,
+  orderItemId,
+  productName,
+  maxQuantity,
+}: OrderClaimDialogProps) {
+  const router = useRouter();
+  const { user } = useUser();
+  const supabase = useClerkSupabaseClient();
+  const [open, setOpen] = useState(false);
+  const [type, setType] = useState<OrderClaimType>("return");
+  const [reasonType, setReasonType] = useState<OrderClaimReasonType>("change_of_mind");
+  const [reason, setReason] = useState("");
+  const [quantity, setQuantity] = useState(maxQuantity);
+  const [photos, setPhotos] = useState<UploadedPhoto[]>([]);
+  const [uploading, setUploading] = useState(false);
+  const [isLoading, startTransition] = useTransition();
+
+  const reasonLength = reason.trim().length;
+  const canSubmit =
+    reasonLength >= CLAIM_REASON_MIN_LENGTH &&
+    reasonLength <= CLAIM_REASON_MAX_LENGTH &&
+    quantity >= 1 &&
+    quantity <= maxQuantity &&
+    !uploading;
+
+  // 사진 업로드 (본인 폴더: {clerk_id}/claims/)
+  const handleUpload = async (files: FileList | null) => {
+    if (!user || !files || files.length === 0) return;
+
+    const filesArray = Array.from(files);
+    if (photos.length + filesArray.length > CLAIM_MAX_PHOTOS) {
+      alert(`사진은 최대 ${CLAIM_MAX_PHOTOS}장까지 첨부할 수 있습니다.`);
+      return;
+    }
+
+    for (const file of filesArray) {
+      if (!CLAIM_PHOTO_TYPES.includes(file.type)) {
+        alert(`${file.name}은(는) 지원하지 않는 파일 형식입니다. (JPEG, PNG, WebP만 가능)`);
+        return;
+      }
+      if (file.size > CLAIM_PHOTO_MAX_SIZE) {
+        alert(`${file.name}은(는) 파일 크기가 너무 큽니다. (최대 6MB)`);
+        return;
+      }
+    }
+
+    try {
+      setUploading(true);
+      const uploaded: UploadedPhoto[] = [];
+
+      for (const file of filesArray) {
+        const path = buildClaimPhotoPath(user.id, file.name);
+
+        const { error: uploadError } = await supabase.storage
+          .from(STORAGE_BUCKET)
+          .upload(path, file, { cacheControl: "3600", upsert: false });
+
+        if (uploadError) throw uploadError;
+
+        // private 버킷이므로 미리보기는 signed URL 사용
+        const { data: signedData } = await supabase.storage
+          .from(STORAGE_BUCKET)
+          .createSignedUrl(path, 60 * 60);
+
+        uploaded.push({ path, previewUrl: signedData?.signedUrl ?? "" });
+      }
+
+      setPhotos((prev) => [...prev, ...uploaded]);
+    } catch (error) {
+      console.error("반품/교환 사진 업로드 에러:", error);
+      alert(
+        `사진 업로드에 실패했습니다: ${error instanceof Error ? error.message : "알 수 없는 에러"}`
+      );
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  // 사진 삭제 (Storage 파일도 삭제, 실패해도 목록에서는 제거)
+  const handleRemovePhoto = async (path: string) => {
+    setPhotos((prev) => prev.filter((photo) => photo.path !== path));
+    const { error } = await supabase.storage.from(STORAGE_BUCKET).remove([path]);
+    if (error) {
+      console.error("반품/교환 사진 삭제 에러:", error);
+    }
+  };
+
+  const handleSubmit = () => {
+    if (!confirm(`${CLAIM_TYPE_LABELS[type]} 신청하시겠습니까?`)) {
+      return;
+    }
+
+    startTransition(async () => {
+      try {
+        await createOrderClaim({
+          orderId,
+          orderItemId,
+          type,
+          reasonType,
+          reason,
+          quantity,
+          photoPaths: photos.map((photo) => photo.path),
+        });
+        setOpen(false);
+        setReason("");
+        setPhotos([]);
+        alert(`${CLAIM_TYPE_LABELS[type]} 신청이 접수되었습니다.`);
+        router.refresh();
+      } catch (error) {
+        console.error("반품/교환 신청 실패:", error);
+        alert(
+          `반품/교환 신청에 실패했습니다: ${error instanceof Error ? error.message : "알 수 없는 에러"}`
+        );
+      }
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">
+          반품/교환 신청
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>반품/교환 신청</DialogTitle>
+          <DialogDescription>{productName}</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-5">
+          {/* 유형 */}
+          <div className="space-y-2">
+            <Label>신청 유형</Label>
+            <div className="grid grid-cols-2 gap-2">
+              {(Object.keys(CLAIM_TYPE_LABELS) as OrderClaimType[]).map((value) => (
+                <button
+                  key={value}
+                  type="button"
+                  onClick={() => setType(value)}
+                  aria-pressed={type === value}
+                  className={cn(
+                    "rounded-md border p-2 text-sm transition-colors",
+                    type === value ? "border-primary bg-primary/5 font-medium" : "hover:bg-muted/50"
+                  )}
+                >
+                  {CLAIM_TYPE_LABELS[value]}
+                </button>
+              ))}
+            </div>
+            <p className="text-xs text-muted-foreground">
+              {type === "return"
+                ? "승인되면 환불 금액이 확정됩니다. 단순 변심은 반품 배송비가 차감될 수 있습니다."
+                : "승인되면 같은 상품을 다시 보내드립니다."}
+            </p>
+          </div>
+
+          {/* 사유 유형 */}
+          <div className="space-y-2">
+            <Label htmlFor={`claim-reason-type-${orderItemId}`}>사유</Label>
+            <select
+              id={`claim-reason-type-${orderItemId}`}
+              value={reasonType}
+              onChange={(e) => setReasonType(e.target.value as OrderClaimReasonType)}
+              className="flex h-9 w-full rounded-md border border-input bg-transparent px-3 py-1 text-base shadow-xs transition-colors outline-none focus-visible:border-ring focus-visible:ring-ring/50 focus-visible:ring-[3px] md:text-sm"
+            >
+              {(Object.keys(CLAIM_REASON_TYPE_LABELS) as OrderClaimReasonType[]).map((value) => (
+                <option key={value} value={value}>
+                  {CLAIM_REASON_TYPE_LABELS[value]}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          {/* 상세 사유 */}
+          <div className="space-y-2">
+            <Label htmlFor={`claim-reason-${orderItemId}`}>상세 사유</Label>
+            <Textarea
+              id={`claim-reason-${orderItemId}`}
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              maxLength={CLAIM_REASON_MAX_LENGTH}
+              rows={4}
+              placeholder={`상품 상태와 신청 사유를 ${CLAIM_REASON_MIN_LENGTH}자 이상 입력해주세요.`}
+            />
+            <p className="text-right text-xs text-muted-foreground">
+              {reasonLength} / {CLAIM_REASON_MAX_LENGTH}
+            </p>
+          </div>
+
+          {/* 신청 수량 */}
+          <div className="space-y-2">
+            <Label htmlFor={`claim-quantity-${orderItemId}`}>
+              신청 수량 (최대 {maxQuantity}개)
+            </Label>
+            <Input
+              id={`claim-quantity-${orderItemId}`}
+              type="number"
+              min={1}
+              max={maxQuantity}
+              value={quantity}
+              onChange={(e) => setQuantity(Number(e.target.value))}
+            />
+          </div>
+
+          {/* 첨부 사진 */}
+          <div className="space-y-2">
+            <Label>
+              사진 ({photos.length} / {CLAIM_MAX_PHOTOS})
+            </Label>
+            <div className="flex flex-wrap gap-2">
+              {photos.map((photo, index) => (
+                <div
+                  key={photo.path}
+                  className="relative h-20 w-20 overflow-hidden rounded-md border border-border bg-muted"
+                >
+                  {photo.previewUrl && (
+                    <Image
+                      src={photo.previewUrl}
+                      alt={`첨부 사진 ${index + 1}`}
+                      fill
+                      className="object-cover"
+                      sizes="80px"
+                    />
+                  )}
+                  <button
+                    type="button"
+                    onClick={() => handleRemovePhoto(photo.path)}
+                    className="absolute right-1 top-1 rounded-full bg-black/60 p-0.5 text-white"
+                    aria-label="사진 삭제"
+                  >
+                    <X className="h-3 w-3" />
+                  </button>
+                </div>
+              ))}
+              {photos.length < CLAIM_MAX_PHOTOS && (
+                <label className="flex h-20 w-20 cursor-pointer flex-col items-center justify-center gap-1 rounded-md border border-dashed border-border text-xs text-muted-foreground hover:bg-muted">
+                  <Upload className="h-4 w-4" />
+                  {uploading ? "업로드 중..." : "사진 추가"}
+                  <input
+                    type="file"
+                    accept={CLAIM_PHOTO_TYPES.join(",")}
+                    multiple
+                    className="hidden"
+                    disabled={uploading}
+                    onChange={(e) => {
+                      handleUpload(e.target.files);
+                      e.target.value = "";
+                    }}
+                  />
+                </label>
+              )}
+            </div>
+            <p className="text-xs text-muted-foreground">
+              상품 불량, 파손은 상품 상태가 보이는 사진을 첨부해주세요.
+            </p>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => setOpen(false)} disabled={isLoading}>
+            취소
+          </Button>
+          <Button onClick={handleSubmit} disabled={!canSubmit || isLoading}>
+            {isLoading ? "신청 중..." : "신청하기"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,136 @@
+/**
+ * @file components/my/order-claim-list.tsx
+ * @description 반품 / 교환 신청 내역 컴포넌트
+ *
+ * 주문의 반품/교환 신청을 상품, 사유, 첨부 사진, 처리 상태, 환불 금액과 함께 표시합니다.
+ * 고객 주문 상세와 관리자 주문 상세에서 함께 사용하며, 관리자 페이지는 renderActions로 처리 버튼을 붙입니다.
+ *
+ * @dependencies
+ * - lib/claims.ts: 유형, 사유, 처리 상태 레이블
+ * - types/claim.ts: OrderClaimWithPhotos 타입
+ */
+
+import type { ReactNode } from "react";
+import Image from "next/image";
+import {
+  CLAIM_REASON_TYPE_LABELS,
+  CLAIM_STATUS_COLORS,
+  CLAIM_STATUS_LABELS,
+  CLAIM_TYPE_LABELS,
+} from "@/lib/claims";
+import { cn } from "@/lib/utils";
+import { formatOrderDate, formatPrice } from "@/utils/order";
+import type { OrderClaimWithPhotos } from "@/types/claim";
+import type { OrderItem } from "@/types/order";
+
+interface OrderClaimListProps {
+  claims: OrderClaimWithPhotos[];
+  items: Pick<OrderItem, "id" | "product_name" | "options">[];
+  renderActions?: (claim: OrderClaimWithPhotos) => ReactNode; // 처리 대기 신청의 처리 UI (관리자용)
+}
+
+export function OrderClaimList({ claims, items, renderActions }: OrderClaimListProps) {
+  if (claims.length === 0) {
+    return <p className="text-sm text-muted-foreground">반품/교환 신청 내역이 없습니다.</p>;
+  }
+
+  const itemsById = new Map(items.map((item) => [item.id, item]));
+
+  return (
+    <div className="space-y-4">
+      {claims.map((claim) => {
+        const item = itemsById.get(claim.order_item_id);
+        return (
+          <div key={claim.id} className="space-y-3 rounded-lg border border-border p-4">
+            <div className="flex items-start justify-between gap-4">
+              <div className="min-w-0">
+                <div className="font-semibold">
+                  [{CLAIM_TYPE_LABELS[claim.type]}] {item?.product_name ?? "삭제된 상품"}
+                </div>
+                {item?.options && Object.keys(item.options).length > 0 && (
+                  <div className="text-sm text-muted-foreground">
+                    {Object.entries(item.options).map(([key, value]) => (
+                      <span key={key} className="mr-2">
+                        {key}: {String(value)}
+                      </span>
+                    ))}
+                  </div>
+                )}
+                <div className="text-sm text-muted-foreground">
+                  {claim.quantity}개 · {formatOrderDate(claim.created_at)}
+                </div>
+              </div>
+              <span
+                className={cn(
+                  "inline-flex shrink-0 items-center rounded-md px-2.5 py-0.5 text-xs font-semibold",
+                  CLAIM_STATUS_COLORS[claim.status]
+                )}
+              >
+                {CLAIM_STATUS_LABELS[claim.status]}
+              </span>
+            </div>
+
+            {/* 사유 */}
+            <div className="text-sm">
+              <span className="font-medium">{CLAIM_REASON_TYPE_LABELS[claim.reason_type]}</span>
+              <p className="mt-1 whitespace-pre-line text-muted-foreground">{claim.reason}</p>
+            </div>
+
+            {/* 첨부 사진 */}
+            {claim.photo_urls.length > 0 && (
+              <div className="flex flex-wrap gap-2">
+                {claim.photo_urls.map((url, index) => (
+                  <a
+                    key={url}
+                    href={url}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="relative h-20 w-20 overflow-hidden rounded-md border border-border bg-muted"
+                  >
+                    <Image
+                      src={url}
+                      alt={`첨부 사진 ${index + 1}`}
+                      fill
+                      className="object-cover"
+                      sizes="80px"
+                    />
+                  </a>
+                ))}
+              </div>
+            )}
+
+            {/* 처리 결과 */}
+            {claim.status !== "requested" && (
+              <div className="space-y-1 border-t border-border pt-3 text-sm">
+                {claim.refund_amount !== null && (
+                  <div className="flex justify-between">
+                    <span>반품 상품 금액</span>
+                    <span className="font-semibold">{formatPrice(claim.refund_amount)}원</span>
+                  </div>
+                )}
+                {claim.admin_note && (
+                  <div className="flex justify-between gap-4">
+                    <span className="shrink-0">
+                      {claim.status === "rejected" ? "거절 사유" : "처리 메모"}
+                    </span>
+                    <span className="text-right text-muted-foreground">{claim.admin_note}</span>
+                  </div>
+                )}
+                {claim.processed_at && (
+                  <div className="flex justify-between">
+                    <span>처리 일시</span>
+                    <span className="text-muted-foreground">
+                      {formatOrderDate(claim.processed_at)}
+                    </span>
+                  </div>
+                )}
+              </div>
+            )}
+
+            {claim.status === "requested" && renderActions?.(claim)}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -19,6 +19,8 @@ const statusFilters: Array<{ value: OrderStatus | "all"; label: string }> = [
   { value: "shipped", label: "배송 중" },
   { value: "delivered", label: "배송 완료" },
   { value: "cancelled", label: "주문 취소" },
+  { value: "return_requested", label: "반품/교환 접수" },
+  { value: "returned", label: "반품 완료" },
 ];
 
 interface OrderFilterProps {
@@ -0,0 +1,130 @@
+/**
+ * @file components/my/order-refund-list.tsx
+ * @description 환불 내역 컴포넌트
+ *
+ * 주문의 환불(결제 취소) 내역을 금액 내역과 처리 상태와 함께 표시합니다.
+ * 고객 주문 상세와 관리자 주문 상세에서 함께 사용합니다.
+ * 관리자 페이지는 showAdminDetails로 취소 거래 키와 실패 사유를 표시하고, renderActions로 재시도 버튼을 붙입니다.
+ * (결제 취소 실패 / 요청 중으로 멈춘 환불에만 표시)
+ * 고객에게는 결제 취소 실패를 처리 중(환불 요청)으로 표시합니다.
+ *
+ * @dependencies
+ * - lib/refunds.ts: 환불 유형, 처리 상태 레이블
+ * - types/refund.ts: OrderRefund 타입
+ */
+
+import type { ReactNode } from "react";
+import {
+  isRetryableRefund,
+  REFUND_STATUS_COLORS,
+  REFUND_STATUS_LABELS,
+  REFUND_TYPE_LABELS,
+} from "@/lib/refunds";
+import { cn } from "@/lib/utils";
+import { formatOrderDate, formatPrice } from "@/utils/order";
+import type { OrderRefund } from "@/types/refund";
+
+interface OrderRefundListProps {
+  refunds: OrderRefund[];
+  showAdminDetails?: boolean; // 취소 거래 키, 시도 횟수, 실패 사유 표시 (관리자용)
+  renderActions?: (refund: OrderRefund) => ReactNode; // 결제 취소 실패 / 멈춘 환불의 처리 UI (관리자용)
+}
+
+export function OrderRefundList({
+  refunds,
+  showAdminDetails = false,
+  renderActions,
+}: OrderRefundListProps) {
+  if (refunds.length === 0) {
+    return <p className="text-sm text-muted-foreground">환불 내역이 없습니다.</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      {refunds.map((refund) => {
+        const status =
+          !showAdminDetails && refund.status === "failed" ? "requested" : refund.status;
+        return (
+          <div key={refund.id} className="space-y-3 rounded-lg border border-border p-4">
+            <div className="flex items-start justify-between gap-4">
+              <div>
+                <div className="font-semibold">{REFUND_TYPE_LABELS[refund.type]}</div>
+                <div className="text-sm text-muted-foreground">
+                  {formatOrderDate(refund.completed_at ?? refund.created_at)}
+                </div>
+              </div>
+              <span
+                className={cn(
+                  "inline-flex shrink-0 items-center rounded-md px-2.5 py-0.5 text-xs font-semibold",
+                  REFUND_STATUS_COLORS[status]
+                )}
+              >
+                {REFUND_STATUS_LABELS[status]}
+              </span>
+            </div>
+
+            {/* 금액 내역 */}
+            <div className="space-y-1 text-sm">
+              <div className="flex justify-between">
+                <span>상품 금액</span>
+                <span>{formatPrice(refund.product_amount)}원</span>
+              </div>
+              {refund.discount_amount > 0 && (
+                <div className="flex justify-between">
+                  <span>쿠폰 할인 차감</span>
+                  <span>-{formatPrice(refund.discount_amount)}원</span>
+                </div>
+              )}
+              {refund.shipping_amount > 0 && (
+                <div className="flex justify-between">
+                  <span>배송비 환불</span>
+                  <span>{formatPrice(refund.shipping_amount)}원</span>
+                </div>
+              )}
+              {refund.deduction_amount > 0 && (
+                <div className="flex justify-between">
+                  <span>반품 배송비 차감</span>
+                  <span>-{formatPrice(refund.deduction_amount)}원</span>
+                </div>
+              )}
+              <div className="flex justify-between border-t border-border pt-2 font-semibold">
+                <span>환불 금액</span>
+                <span className="text-primary">{formatPrice(refund.amount)}원</span>
+              </div>
+            </div>
+
+            {/* 결제 취소 정보 (관리자용) */}
+            {showAdminDetails && (
+              <div className="space-y-1 border-t border-border pt-3 text-sm">
+                <div className="flex justify-between gap-4">
+                  <span>결제 제공자</span>
+                  <span className="text-muted-foreground">{refund.provider}</span>
+                </div>
+                {refund.transaction_key && (
+                  <div className="flex justify-between gap-4">
+                    <span>취소 거래 키</span>
+                    <span className="break-all text-right font-mono text-muted-foreground">
+                      {refund.transaction_key}
+                    </span>
+                  </div>
+                )}
+                <div className="flex justify-between gap-4">
+                  <span>시도 횟수</span>
+                  <span className="text-muted-foreground">{refund.attempts}회</span>
+                </div>
+                {refund.failure_message && (
+                  <div className="flex justify-between gap-4">
+                    <span className="shrink-0">실패 사유</span>
+                    <span className="text-right text-destructive">{refund.failure_message}</span>
+                  </div>
+                )}
+              </div>
+            )}
+
+            {isRetryableRefund(refund) && renderActions?.(refund)}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
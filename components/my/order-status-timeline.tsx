@@ -0,0 +1,63 @@
+/**
+ * @file components/my/order-status-timeline.tsx
+ * @description 주문 상태 이력 타임라인 컴포넌트
+ *
+ * 주문 상태 변경 이력을 오래된 순으로 세로 타임라인에 표시하는 컴포넌트입니다.
+ * 각 항목에 변경된 상태, 변경 일시, 변경 주체, 사유를 표시합니다.
+ */
+
+import type { OrderStatusHistory } from "@/types/order";
+import { OrderStatusBadge } from "@/components/my/order-status-badge";
+import { formatOrderDate, getOrderStatusActorLabel } from "@/utils/order";
+import { cn } from "@/lib/utils";
+
+interface OrderStatusTimelineProps {
+  history: OrderStatusHistory[];
+  showActorId?: boolean; // 변경자 ID 표시 여부 (관리자 화면용)
+  className?: string;
+}
+
+export function OrderStatusTimeline({
+  history,
+  showActorId = false,
+  className,
+}: OrderStatusTimelineProps) {
+  if (history.length === 0) {
+    return (
+      <p className="text-sm text-muted-foreground">상태 변경 이력이 없습니다.</p>
+    );
+  }
+
+  return (
+    <ol className={cn("relative border-l border-border ml-2 space-y-6", className)}>
+      {history.map((entry, index) => {
+        const isLatest = index === history.length - 1;
+
+        return (
+          <li key={entry.id} className="ml-6">
+            <span
+              className={cn(
+                "absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full border border-background",
+                isLatest ? "bg-primary" : "bg-muted-foreground"
+              )}
+            />
+            <div className="flex flex-wrap items-center gap-2">
+              <OrderStatusBadge status={entry.to_status} />
+              <time className="text-sm text-muted-foreground">
+                {formatOrderDate(entry.created_at)}
+              </time>
+            </div>
+            <p className="mt-1 text-sm">
+              {entry.reason ?? "-"}
+              <span className="text-muted-foreground">
+                {" "}
+                · {getOrderStatusActorLabel(entry.actor_type)}
+                {showActorId && entry.actor_id && ` (${entry.actor_id})`}
+              </span>
+            </p>
+          </li>
+        );
+      })}
+    </ol>
+  );
+}
@@ -0,0 +1,290 @@
+/**
+ * @file components/my/review-form-dialog.tsx
+ * @description 상품 리뷰 작성 다이얼로그 컴포넌트
+ *
+ * 주문 상세 페이지(배송 완료 주문)에서 주문 상품별 리뷰를 작성하는 다이얼로그입니다.
+ *
+ * 주요 기능:
+ * 1. 별점 선택 (1~5)
+ * 2. 리뷰 내용 입력 (10~2000자)
+ * 3. 리뷰 사진 업로드 / 삭제 (Supabase Storage, 최대 5장)
+ * 4. createReview Server Action으로 리뷰 저장
+ *
+ * @dependencies
+ * - actions/review.ts: createReview Server Action
+ * - lib/supabase/clerk-client.ts: Supabase 클라이언트 (사진 업로드)
+ * - lib/reviews.ts: 리뷰 규칙
+ */
+
+"use client";
+
+import { useState, useTransition } from "react";
+import { useRouter } from "next/navigation";
+import { useUser } from "@clerk/nextjs";
+import Image from "next/image";
+import { Star, Upload, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { useClerkSupabaseClient } from "@/lib/supabase/clerk-client";
+import { createReview } from "@/actions/review";
+import {
+  buildReviewPhotoPath,
+  REVIEW_CONTENT_MAX_LENGTH,
+  REVIEW_CONTENT_MIN_LENGTH,
+  REVIEW_MAX_PHOTOS,
+  REVIEW_PHOTO_MAX_SIZE,
+  REVIEW_PHOTO_TYPES,
+} from "@/lib/reviews";
+import { cn } from "@/lib/utils";
+
+const STORAGE_BUCKET = process.env.NEXT_PUBLIC_STORAGE_BUCKET || "uploads";
+
+interface ReviewFormDialogProps {
+  orderId: string;
+  productId: string;
+  productName: string;
+}
+
+/**
+ * 업로드한 리뷰 사진 (Storage 경로 + 미리보기 URL)
+ */
+interface UploadedPhoto {
+  path: string;
+  previewUrl: string;
+}
+
+export function ReviewFormDialog({ orderId, productId, productName }: ReviewFormDialogProps) {
+  const router = useRouter();
+  const { user } = useUser();
+  const supabase = useClerkSupabaseClient();
+  const [open, setOpen] = useState(false);
+  const [rating, setRating] = useState(0);
+  const [hoverRating, setHoverRating] = useState(0);
+  const [content, setContent] = useState("");
+  const [photos, setPhotos] = useState<UploadedPhoto[]>([]);
+  const [uploading, setUploading] = useState(false);
+  const [isLoading, startTransition] = useTransition();
+
+  const contentLength = content.trim().length;
+  const canSubmit =
+    rating > 0 &&
+    contentLength >= REVIEW_CONTENT_MIN_LENGTH &&
+    contentLength <= REVIEW_CONTENT_MAX_LENGTH &&
+    !uploading;
+
+  // 사진 업로드 (본인 폴더: {clerk_id}/reviews/)
+  const handleUpload = async (files: FileList | null) => {
+    if (!user || !files || files.length === 0) return;
+
+    const filesArray = Array.from(files);
+    if (photos.length + filesArray.length > REVIEW_MAX_PHOTOS) {
+      alert(`사진은 최대 ${REVIEW_MAX_PHOTOS}장까지 첨부할 수 있습니다.`);
+      return;
+    }
+
+    for (const file of filesArray) {
+      if (!REVIEW_PHOTO_TYPES.includes(file.type)) {
+        alert(`${file.name}은(는) 지원하지 않는 파일 형식입니다. (JPEG, PNG, WebP만 가능)`);
+        return;
+      }
+      if (file.size > REVIEW_PHOTO_MAX_SIZE) {
+        alert(`${file.name}은(는) 파일 크기가 너무 큽니다. (최대 6MB)`);
+        return;
+      }
+    }
+
+    try {
+      setUploading(true);
+      const uploaded: UploadedPhoto[] = [];
+
+      for (const file of filesArray) {
+        const path = buildReviewPhotoPath(user.id, file.name);
+
+        const { error: uploadError } = await supabase.storage
+          .from(STORAGE_BUCKET)
+          .upload(path, file, { cacheControl: "3600", upsert: false });
+
+        if (uploadError) throw uploadError;
+
+        // private 버킷이므로 미리보기는 signed URL 사용
+        const { data: signedData } = await supabase.storage
+          .from(STORAGE_BUCKET)
+          .createSignedUrl(path, 60 * 60);
+
+        uploaded.push({ path, previewUrl: signedData?.signedUrl ?? "" });
+      }
+
+      setPhotos((prev) => [...prev, ...uploaded]);
+    } catch (error) {
+      console.error("리뷰 사진 업로드 에러:", error);
+      alert(
+        `사진 업로드에 실패했습니다: ${error instanceof Error ? error.message : "알 수 없는 에러"}`
+      );
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  // 사진 삭제 (Storage 파일도 삭제, 실패해도 목록에서는 제거)
+  const handleRemovePhoto = async (path: string) => {
+    setPhotos((prev) => prev.filter((photo) => photo.path !== path));
+    const { error } = await supabase.storage.from(STORAGE_BUCKET).remove([path]);
+    if (error) {
+      console.error("리뷰 사진 삭제 에러:", error);
+    }
+  };
+
+  const handleSubmit = () => {
+    startTransition(async () => {
+      try {
+        await createReview({
+          orderId,
+          productId,
+          rating,
+          content,
+          photoPaths: photos.map((photo) => photo.path),
+        });
+        setOpen(false);
+        alert("리뷰가 등록되었습니다.");
+        router.refresh();
+      } catch (error) {
+        console.error("리뷰 작성 실패:", error);
+        alert(
+          `리뷰 작성에 실패했습니다: ${error instanceof Error ? error.message : "알 수 없는 에러"}`
+        );
+      }
+    });
+  };
+
+  const displayRating = hoverRating || rating;
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">
+          리뷰 작성
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>리뷰 작성</DialogTitle>
+          <DialogDescription>{productName}</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-5">
+          {/* 별점 */}
+          <div className="space-y-2">
+            <Label>별점</Label>
+            <div className="flex gap-1" onMouseLeave={() => setHoverRating(0)}>
+              {[1, 2, 3, 4, 5].map((value) => (
+                <button
+                  key={value}
+                  type="button"
+                  onClick={() => setRating(value)}
+                  onMouseEnter={() => setHoverRating(value)}
+                  aria-label={`${value}점`}
+                  aria-pressed={rating === value}
+                >
+                  <Star
+                    className={cn(
+                      "h-8 w-8",
+                      value <= displayRating
+                        ? "fill-amber-400 text-amber-400"
+                        : "text-muted-foreground/40"
+                    )}
+                    strokeWidth={1.5}
+                  />
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {/* 리뷰 내용 */}
+          <div className="space-y-2">
+            <Label htmlFor={`review-content-${productId}`}>리뷰 내용</Label>
+            <Textarea
+              id={`review-content-${productId}`}
+              value={content}
+              onChange={(e) => setContent(e.target.value)}
+              maxLength={REVIEW_CONTENT_MAX_LENGTH}
+              rows={5}
+              placeholder={`상품에 대한 솔직한 리뷰를 ${REVIEW_CONTENT_MIN_LENGTH}자 이상 작성해주세요.`}
+            />
+            <p className="text-right text-xs text-muted-foreground">
+              {contentLength} / {REVIEW_CONTENT_MAX_LENGTH}
+            </p>
+          </div>
+
+          {/* 리뷰 사진 */}
+          <div className="space-y-2">
+            <Label>
+              사진 ({photos.length} / {REVIEW_MAX_PHOTOS})
+            </Label>
+            <div className="flex flex-wrap gap-2">
+              {photos.map((photo, index) => (
+                <div
+                  key={photo.path}
+                  className="relative h-20 w-20 overflow-hidden rounded-md border border-border bg-muted"
+                >
+                  {photo.previewUrl && (
+                    <Image
+                      src={photo.previewUrl}
+                      alt={`리뷰 사진 ${index + 1}`}
+                      fill
+                      className="object-cover"
+                      sizes="80px"
+                    />
+                  )}
+                  <button
+                    type="button"
+                    onClick={() => handleRemovePhoto(photo.path)}
+                    className="absolute right-1 top-1 rounded-full bg-black/60 p-0.5 text-white"
+                    aria-label="사진 삭제"
+                  >
+                    <X className="h-3 w-3" />
+                  </button>
+                </div>
+              ))}
+              {photos.length < REVIEW_MAX_PHOTOS && (
+                <label className="flex h-20 w-20 cursor-pointer flex-col items-center justify-center gap-1 rounded-md border border-dashed border-border text-xs text-muted-foreground hover:bg-muted">
+                  <Upload className="h-4 w-4" />
+                  {uploading ? "업로드 중..." : "사진 추가"}
+                  <input
+                    type="file"
+                    accept={REVIEW_PHOTO_TYPES.join(",")}
+                    multiple
+                    className="hidden"
+                    disabled={uploading}
+                    onChange={(e) => {
+                      handleUpload(e.target.files);
+                      e.target.value = "";
+                    }}
+                  />
+                </label>
+              )}
+            </div>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => setOpen(false)} disabled={isLoading}>
+            취소
+          </Button>
+          <Button onClick={handleSubmit} disabled={!canSubmit || isLoading}>
+            {isLoading ? "등록 중..." : "리뷰 등록"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
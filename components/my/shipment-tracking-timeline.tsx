@@ -0,0 +1,86 @@
+/**
+ * @file components/my/shipment-tracking-timeline.tsx
+ * @description 배송 조회 타임라인 컴포넌트
+ *
+ * 택배사, 송장 번호, 택배사 배송 조회 링크와 함께
+ * 택배사 배송 조회 이벤트를 최신 순으로 세로 타임라인에 표시하는 컴포넌트입니다.
+ */
+
+import { ExternalLink } from "lucide-react";
+import type { CourierCode, TrackingEvent } from "@/types/shipment";
+import { getCourierName, getCourierTrackingUrl } from "@/lib/couriers/carriers";
+import { formatOrderDate } from "@/utils/order";
+import { cn } from "@/lib/utils";
+
+interface ShipmentTrackingTimelineProps {
+  carrier: CourierCode;
+  trackingNumber: string;
+  events: TrackingEvent[] | null; // 배송 조회 이벤트 (조회 실패 시 null)
+  className?: string;
+}
+
+export function ShipmentTrackingTimeline({
+  carrier,
+  trackingNumber,
+  events,
+  className,
+}: ShipmentTrackingTimelineProps) {
+  // 최신 이벤트가 위에 오도록 정렬
+  const sortedEvents = [...(events ?? [])].sort(
+    (a, b) => new Date(b.occurredAt).getTime() - new Date(a.occurredAt).getTime()
+  );
+
+  return (
+    <div className={cn("space-y-4", className)}>
+      {/* 택배사 / 송장 번호 */}
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2">
+        <div className="text-base">
+          <span className="font-medium">{getCourierName(carrier)}</span>{" "}
+          <span className="font-mono text-muted-foreground">{trackingNumber}</span>
+        </div>
+        <a
+          href={getCourierTrackingUrl(carrier, trackingNumber)}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="inline-flex items-center gap-1 text-sm text-primary hover:underline"
+        >
+          택배사에서 조회
+          <ExternalLink className="h-4 w-4" />
+        </a>
+      </div>
+
+      {/* 배송 조회 이벤트 */}
+      {events === null ? (
+        <p className="text-sm text-muted-foreground">
+          배송 정보를 불러오지 못했습니다. 택배사 사이트에서 확인해주세요.
+        </p>
+      ) : sortedEvents.length === 0 ? (
+        <p className="text-sm text-muted-foreground">
+          택배사에 아직 배송 정보가 등록되지 않았습니다.
+        </p>
+      ) : (
+        <ol className="relative border-l border-border ml-2 space-y-5">
+          {sortedEvents.map((event, index) => (
+            <li key={`${event.occurredAt}-${event.description}`} className="ml-6">
+              <span
+                className={cn(
+                  "absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full border border-background",
+                  index === 0 ? "bg-primary" : "bg-muted-foreground"
+                )}
+              />
+              <p className={cn("text-sm", index === 0 && "font-semibold")}>
+                {event.description}
+                {event.location && (
+                  <span className="text-muted-foreground"> · {event.location}</span>
+                )}
+              </p>
+              <time className="text-sm text-muted-foreground">
+                {formatOrderDate(event.occurredAt)}
+              </time>
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+}
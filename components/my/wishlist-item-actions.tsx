@@ -0,0 +1,97 @@
+/**
+ * @file components/my/wishlist-item-actions.tsx
+ * @description 찜한 상품 액션 버튼 컴포넌트
+ *
+ * 찜 목록 페이지에서 찜한 상품을 장바구니로 이동하거나 찜 목록에서 삭제하는 버튼입니다.
+ * 옵션 조합이 있는 상품은 상품 상세 페이지에서 옵션을 선택하도록 안내합니다.
+ *
+ * @dependencies
+ * - actions/wishlist.ts: moveWishlistItemToCart, removeWishlistItem Server Action
+ */
+
+"use client";
+
+import { useTransition } from "react";
+import { useRouter } from "next/navigation";
+import Link from "next/link";
+import { ShoppingCart, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { moveWishlistItemToCart, removeWishlistItem } from "@/actions/wishlist";
+
+interface WishlistItemActionsProps {
+  productId: string;
+  hasVariants: boolean; // 옵션 조합이 있는 상품 (옵션 선택 필요)
+  isPurchasable: boolean; // 판매 중이고 재고가 있는 상품
+}
+
+export function WishlistItemActions({
+  productId,
+  hasVariants,
+  isPurchasable,
+}: WishlistItemActionsProps) {
+  const router = useRouter();
+  const [isPending, startTransition] = useTransition();
+
+  // 장바구니로 이동 (장바구니에 추가 후 찜 목록에서 삭제)
+  const handleMoveToCart = () => {
+    startTransition(async () => {
+      try {
+        await moveWishlistItemToCart(productId);
+        alert("장바구니로 이동했습니다.");
+        router.refresh();
+      } catch (error) {
+        console.error("장바구니 이동 실패:", error);
+        alert(
+          `장바구니 이동에 실패했습니다: ${error instanceof Error ? error.message : "알 수 없는 에러"}`
+        );
+      }
+    });
+  };
+
+  // 찜 목록에서 삭제
+  const handleRemove = () => {
+    startTransition(async () => {
+      try {
+        await removeWishlistItem(productId);
+        router.refresh();
+      } catch (error) {
+        console.error("찜 해제 실패:", error);
+        alert(
+          `찜 해제에 실패했습니다: ${error instanceof Error ? error.message : "알 수 없는 에러"}`
+        );
+      }
+    });
+  };
+
+  return (
+    <div className="flex gap-2">
+      {hasVariants ? (
+        <Link href={`/products/${productId}`} className="flex-1">
+          <Button variant="outline" size="sm" className="w-full" disabled={!isPurchasable}>
+            옵션 선택
+          </Button>
+        </Link>
+      ) : (
+        <Button
+          variant="outline"
+          size="sm"
+          className="flex-1"
+          onClick={handleMoveToCart}
+          disabled={isPending || !isPurchasable}
+        >
+          <ShoppingCart className="w-4 h-4 mr-1" />
+          {isPending ? "처리 중..." : "장바구니로 이동"}
+        </Button>
+      )}
+      <Button
+        variant="ghost"
+        size="sm"
+        onClick={handleRemove}
+        disabled={isPending}
+        aria-label="찜 해제"
+      >
+        <Trash2 className="w-4 h-4" />
+      </Button>
+    </div>
+  );
+}
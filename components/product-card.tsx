@@ -3,6 +3,10 @@
  * @description 상품 카드 컴포넌트
  *
  * 상품 정보를 카드 형태로 표시하는 컴포넌트 (ADEKUVER 스타일 - 이미지 중심 미니멀 디자인)
+ * 검색 결과에서는 상품명과 설명의 검색어를 강조합니다.
+ * 리뷰가 있는 상품은 평균 별점과 리뷰 수를 표시합니다.
+ * 이미지 오른쪽 위 하트 버튼으로 찜할 수 있습니다.
+ * 특가 판매 중(프로모션 기간 안)인 상품은 특가 배지와 할인율, 정가, 종료 카운트다운을 표시합니다.
  */
 
 import Link from "next/link";
@@ -11,86 +15,93 @@ import { SignedIn } from "@clerk/nextjs";
 import { Product } from "@/types/product";
 import { cn } from "@/lib/utils";
 import { Package } from "lucide-react";
+import { HighlightText } from "@/components/highlight-text";
+import { StarRating } from "@/components/review/star-rating";
+import { WishlistButton } from "@/components/wishlist-button";
+import { ProductPrice } from "@/components/product-price";
+import { getProductPricing } from "@/lib/pricing";
 
 interface ProductCardProps {
   product: Product;
   className?: string;
+  highlightQuery?: string; // 강조할 검색어 (검색 결과)
 }
 
-/**
- * 가격을 천단위 콤마로 포맷팅
- */
-function formatPrice(price: number): string {
-  return new Intl.NumberFormat("ko-KR").format(price);
-}
-
-export function ProductCard({ product, className }: ProductCardProps) {
+export function ProductCard({ product, className, highlightQuery }: ProductCardProps) {
   const isOutOfStock = product.stock_quantity === 0;
-  const isPromotional = product.is_promotional ?? false;
-  const priceFormatted = formatPrice(product.price);
+  const isPromotional = getProductPricing(product).isPromotionActive;
   
   // 이미지 URL 우선순위: image_urls 배열의 첫 번째 이미지 > image_url > placeholder
   const imageUrl = product.image_urls?.[0] || product.image_url || "https://via.placeholder.com/400x533?text=No+Image";
 
   return (
-    <Link
-      href={`/products/${product.id}`}
-      className={cn(
-        "group relative block bg-card overflow-hidden transition-all hover:opacity-90",
-        isOutOfStock && "opacity-60",
-        className
-      )}
-    >
-      {/* 프로모션 배지 */}
-      {isPromotional && (
-        <span className="absolute left-3 top-3 z-10 bg-black/70 text-white px-2 py-1 text-xs font-light tracking-wide uppercase">
-          특가
-        </span>
-      )}
+    <div className={cn("group relative", className)}>
+      <Link
+        href={`/products/${product.id}`}
+        className={cn(
+          "relative block bg-card overflow-hidden transition-all hover:opacity-90",
+          isOutOfStock && "opacity-60"
+        )}
+      >
+        {/* 프로모션 배지 */}
+        {isPromotional && (
+          <span className="absolute left-3 top-3 z-10 bg-black/70 text-white px-2 py-1 text-xs font-light tracking-wide uppercase">
+            특가
+          </span>
+        )}
 
-      {/* 품절 배지 */}
-      {isOutOfStock && !isPromotional && (
-        <span className="absolute right-3 top-3 z-10 bg-black/70 text-white px-2 py-1 text-xs font-light tracking-wide uppercase">
-          품절
-        </span>
-      )}
+        {/* 품절 배지 */}
+        {isOutOfStock && !isPromotional && (
+          <span className="absolute left-3 top-3 z-10 bg-black/70 text-white px-2 py-1 text-xs font-light tracking-wide uppercase">
+            품절
+          </span>
+        )}
 
-      {/* 상품 이미지 */}
-      <div className="relative aspect-[3/4] w-full bg-muted overflow-hidden">
-        <Image
-          src={imageUrl}
-          alt={product.name}
-          fill
-          className="object-cover transition-transform duration-500 group-hover:scale-105"
-          sizes="(max-width: 768px) 50vw, (max-width: 1024px) 33vw, 25vw"
-        />
-      </div>
+        {/* 상품 이미지 */}
+        <div className="relative aspect-[3/4] w-full bg-muted overflow-hidden">
+          <Image
+            src={imageUrl}
+            alt={product.name}
+            fill
+            className="object-cover transition-transform duration-500 group-hover:scale-105"
+            sizes="(max-width: 768px) 50vw, (max-width: 1024px) 33vw, 25vw"
+          />
+        </div>
 
-      {/* 상품 정보 */}
-      <div className="pt-4 space-y-1 text-center">
-        {/* 상품명 */}
-        <SignedIn>
-          <h3 className="text-sm font-bold text-foreground line-clamp-2 tracking-wide">
-            {product.name}
-          </h3>
-        </SignedIn>
+        {/* 상품 정보 */}
+        <div className="pt-4 space-y-1 text-center">
+          {/* 상품명 */}
+          <SignedIn>
+            <h3 className="text-sm font-bold text-foreground line-clamp-2 tracking-wide">
+              <HighlightText text={product.name} query={highlightQuery} />
+            </h3>
+          </SignedIn>
 
-        {/* 상품 설명 */}
-        {product.description && (
-          <p className="text-xs text-muted-foreground font-light line-clamp-2 tracking-wide">
-            {product.description}
-          </p>
-        )}
+          {/* 상품 설명 */}
+          {product.description && (
+            <p className="text-xs text-muted-foreground font-light line-clamp-2 tracking-wide">
+              <HighlightText text={product.description} query={highlightQuery} />
+            </p>
+          )}
+
+          {/* 가격 */}
+          <ProductPrice product={product} />
+
+          {/* 평균 별점 */}
+          {product.review_count > 0 && (
+            <p className="flex items-center justify-center gap-1 text-xs text-muted-foreground font-light">
+              <StarRating rating={Number(product.rating_average)} starClassName="h-3 w-3" />
+              <span>
+                {Number(product.rating_average).toFixed(1)} ({product.review_count})
+              </span>
+            </p>
+          )}
+        </div>
+      </Link>
 
-        {/* 가격 */}
-        <p className={cn(
-          "text-sm font-light tracking-wide",
-          isPromotional ? "text-foreground" : "text-foreground"
-        )}>
-          {priceFormatted}원
-        </p>
-      </div>
-    </Link>
+      {/* 찜하기 (Link 밖에 두어 상품 상세로 이동하지 않음) */}
+      <WishlistButton productId={product.id} className="absolute right-3 top-3 z-10" />
+    </div>
   );
 }
 
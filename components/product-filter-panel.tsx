@@ -0,0 +1,238 @@
+/**
+ * @file components/product-filter-panel.tsx
+ * @description 상품 목록 필터(패싯) 패널 컴포넌트
+ *
+ * 상품 목록 페이지에서 가격대, 재고, 특가, 사이즈, 색상 필터를 표시합니다.
+ * 모든 필터는 링크(URL 쿼리 파라미터)로 동작하므로 필터된 목록을 공유하거나
+ * 검색 엔진이 수집할 수 있습니다. (JavaScript 없이 동작)
+ *
+ * 주요 기능:
+ * 1. 필터별 상품 수 표시 (해당 필터를 제외한 나머지 필터 기준)
+ * 2. 가격대 구간 선택 및 직접 입력 (GET 폼)
+ * 3. 재고 있는 상품만 / 특가 상품만 토글
+ * 4. 사이즈 / 색상 다중 선택
+ * 5. 필터 초기화 (카테고리 유지)
+ *
+ * @dependencies
+ * - lib/product-filters.ts: 필터 상태 / URL 변환 규칙
+ */
+
+import Link from "next/link";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  buildProductListHref,
+  EMPTY_PRODUCT_FILTERS,
+  hasActiveFilters,
+  isPriceRangeSelected,
+  productFiltersToQuery,
+  toggleFilterValue,
+  type FacetValue,
+  type ProductFacets,
+  type ProductFilters,
+} from "@/lib/product-filters";
+import { cn } from "@/lib/utils";
+
+interface ProductFilterPanelProps {
+  filters: ProductFilters;
+  facets: ProductFacets;
+  sort?: string; // 현재 정렬 (기본 정렬이면 undefined)
+}
+
+/**
+ * 필터 항목 링크 (선택 여부, 상품 수 표시)
+ */
+function FilterLink({
+  href,
+  label,
+  count,
+  selected,
+}: {
+  href: string;
+  label: string;
+  count: number;
+  selected: boolean;
+}) {
+  // 선택하지 않았고 상품이 없는 항목은 링크 없이 표시
+  if (!selected && count === 0) {
+    return (
+      <span className="flex items-center justify-between px-2 py-1 text-sm text-muted-foreground/50">
+        <span>{label}</span>
+        <span>0</span>
+      </span>
+    );
+  }
+
+  return (
+    <Link
+      href={href}
+      aria-current={selected ? "true" : undefined}
+      className={cn(
+        "flex items-center justify-between rounded-md px-2 py-1 text-sm hover:bg-muted",
+        selected && "bg-muted font-semibold"
+      )}
+    >
+      <span>
+        {selected ? "✓ " : ""}
+        {label}
+      </span>
+      <span className="text-muted-foreground">{count}</span>
+    </Link>
+  );
+}
+
+/**
+ * 옵션 값(사이즈 / 색상) 선택 칩 목록
+ */
+function FacetChips({
+  values,
+  selected,
+  hrefFor,
+}: {
+  values: FacetValue[];
+  selected: string[];
+  hrefFor: (value: string) => string;
+}) {
+  return (
+    <div className="flex flex-wrap gap-1.5">
+      {values.map((facet) => {
+        const isSelected = selected.includes(facet.value);
+        return (
+          <Link key={facet.value} href={hrefFor(facet.value)} aria-current={isSelected ? "true" : undefined}>
+            <Button
+              variant={isSelected ? "default" : "outline"}
+              size="sm"
+              className="h-7 px-2 text-xs"
+              disabled={!isSelected && facet.count === 0}
+            >
+              {facet.value} ({facet.count})
+            </Button>
+          </Link>
+        );
+      })}
+    </div>
+  );
+}
+
+export function ProductFilterPanel({ filters, facets, sort }: ProductFilterPanelProps) {
+  const hrefFor = (next: ProductFilters) => buildProductListHref(next, { sort });
+
+  // 직접 입력한 가격 범위는 GET 폼으로 전달 (다른 필터는 hidden input으로 유지)
+  const hiddenParams = Object.entries({
+    ...productFiltersToQuery({ ...filters, minPrice: null, maxPrice: null }),
+    sort,
+  }).filter((entry): entry is [string, string] => !!entry[1]);
+
+  return (
+    <div className="space-y-6">
+      {/* 필터 초기화 */}
+      {hasActiveFilters(filters) && (
+        <Link
+          href={hrefFor({ ...EMPTY_PRODUCT_FILTERS, category: filters.category })}
+          className="text-sm text-muted-foreground underline underline-offset-4"
+        >
+          필터 초기화
+        </Link>
+      )}
+
+      {/* 가격대 */}
+      <section className="space-y-2">
+        <h2 className="text-sm font-semibold">가격</h2>
+        <div className="space-y-0.5">
+          {facets.priceRanges.map((range) => {
+            const isSelected = isPriceRangeSelected(filters, range);
+            return (
+              <FilterLink
+                key={range.label}
+                label={range.label}
+                count={range.count}
+                selected={isSelected}
+                href={hrefFor({
+                  ...filters,
+                  minPrice: isSelected ? null : range.min,
+                  maxPrice: isSelected ? null : range.max,
+                })}
+              />
+            );
+          })}
+        </div>
+        <form action="/products" className="flex items-center gap-1">
+          {hiddenParams.map(([key, value]) => (
+            <input key={key} type="hidden" name={key} value={value} />
+          ))}
+          <Input
+            type="number"
+            name="min_price"
+            min="0"
+            step="1000"
+            placeholder="최소"
+            defaultValue={filters.minPrice ?? undefined}
+            aria-label="최소 가격"
+            className="h-8 px-2 text-xs"
+          />
+          <span className="text-muted-foreground">~</span>
+          <Input
+            type="number"
+            name="max_price"
+            min="0"
+            step="1000"
+            placeholder="최대"
+            defaultValue={filters.maxPrice ?? undefined}
+            aria-label="최대 가격"
+            className="h-8 px-2 text-xs"
+          />
+          <Button type="submit" variant="outline" size="sm" className="h-8 px-2 text-xs">
+            적용
+          </Button>
+        </form>
+      </section>
+
+      {/* 재고 / 특가 */}
+      <section className="space-y-2">
+        <h2 className="text-sm font-semibold">상품 상태</h2>
+        <div className="space-y-0.5">
+          <FilterLink
+            label="재고 있는 상품만"
+            count={facets.inStock}
+            selected={filters.inStock}
+            href={hrefFor({ ...filters, inStock: !filters.inStock })}
+          />
+          <FilterLink
+            label="특가 상품만"
+            count={facets.onSale}
+            selected={filters.onSale}
+            href={hrefFor({ ...filters, onSale: !filters.onSale })}
+          />
+        </div>
+      </section>
+
+      {/* 사이즈 */}
+      {facets.sizes.length > 0 && (
+        <section className="space-y-2">
+          <h2 className="text-sm font-semibold">사이즈</h2>
+          <FacetChips
+            values={facets.sizes}
+            selected={filters.sizes}
+            hrefFor={(value) =>
+              hrefFor({ ...filters, sizes: toggleFilterValue(filters.sizes, value) })
+            }
+          />
+        </section>
+      )}
+
+      {/* 색상 */}
+      {facets.colors.length > 0 && (
+        <section className="space-y-2">
+          <h2 className="text-sm font-semibold">색상</h2>
+          <FacetChips
+            values={facets.colors}
+            selected={filters.colors}
+            hrefFor={(value) =>
+              hrefFor({ ...filters, colors: toggleFilterValue(filters.colors, value) })
+            }
+          />
+        </section>
+      )}
+    </div>
+  );
+}
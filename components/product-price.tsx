@@ -0,0 +1,76 @@
+/**
+ * @file components/product-price.tsx
+ * @description 상품 가격 표시 컴포넌트
+ *
+ * 프로모션 기간을 반영한 판매 가격을 표시합니다. (lib/pricing.ts)
+ * 특가 판매 중이면 할인율, 취소선을 그은 정가, 종료 카운트다운을 함께 표시하고,
+ * 예정된 프로모션은 시작 일시를 안내합니다.
+ *
+ * @dependencies
+ * - lib/pricing.ts: 프로모션 기간을 반영한 판매 가격
+ * - components/promotion-countdown.tsx: 프로모션 종료 카운트다운
+ */
+
+import { getProductPricing, type PricedProduct } from "@/lib/pricing";
+import { cn } from "@/lib/utils";
+import { formatOrderDate } from "@/utils/order";
+import { PromotionCountdown } from "@/components/promotion-countdown";
+
+interface ProductPriceProps {
+  product: PricedProduct;
+  size?: "sm" | "lg"; // sm: 상품 카드, lg: 상품 상세
+  className?: string;
+}
+
+/**
+ * 가격을 천단위 콤마로 포맷팅
+ */
+function formatPrice(price: number): string {
+  return new Intl.NumberFormat("ko-KR").format(price);
+}
+
+export function ProductPrice({ product, size = "sm", className }: ProductPriceProps) {
+  const pricing = getProductPricing(product);
+  const isLarge = size === "lg";
+
+  return (
+    <div className={cn("space-y-1", className)}>
+      <p
+        className={cn(
+          "flex flex-wrap items-baseline gap-x-2",
+          isLarge ? "text-4xl font-bold" : "justify-center text-sm font-light tracking-wide"
+        )}
+      >
+        {pricing.discountPercentage !== null && (
+          <span className={cn("text-destructive", !isLarge && "font-semibold")}>
+            {pricing.discountPercentage}%
+          </span>
+        )}
+        <span className="text-foreground">{formatPrice(pricing.price)}원</span>
+        {pricing.originalPrice !== null && (
+          <span
+            className={cn(
+              "text-muted-foreground line-through",
+              isLarge ? "text-lg font-normal" : "text-xs"
+            )}
+          >
+            {formatPrice(pricing.originalPrice)}원
+          </span>
+        )}
+      </p>
+
+      {pricing.promotionEndsAt && (
+        <PromotionCountdown
+          endsAt={pricing.promotionEndsAt}
+          className={cn(isLarge && "text-sm")}
+        />
+      )}
+
+      {pricing.promotionStartsAt && isLarge && (
+        <p className="text-sm text-muted-foreground">
+          {formatOrderDate(pricing.promotionStartsAt)}부터 특가 판매 예정
+        </p>
+      )}
+    </div>
+  );
+}
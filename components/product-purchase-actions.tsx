@@ -5,13 +5,20 @@
  * 상품 상세 페이지에서 장바구니 추가 및 즉시 구매 버튼을 제공하는 클라이언트 컴포넌트입니다.
  *
  * 주요 기능:
- * 1. 수량 선택 및 조절
- * 2. 장바구니 추가 (Server Action 호출)
- * 3. 비로그인 사용자 처리
- * 4. 성공/실패 알림
+ * 1. 옵션 선택 (옵션 조합이 있는 상품, 품절 조합은 선택 불가)
+ * 2. 수량 선택 및 조절 (선택한 옵션 조합 재고 기준)
+ * 3. 장바구니 추가 (Server Action 호출)
+ * 4. 비로그인 사용자 처리 (비회원 장바구니에 추가, 즉시 구매는 로그인 필요)
+ * 5. 찜하기 (비로그인 사용자는 로그인 모달)
+ * 6. 재입고 알림 신청 (품절 상품)
+ * 7. 성공/실패 알림
  *
  * @dependencies
  * - actions/cart.ts: addToCart Server Action
+ * - components/wishlist-button.tsx: 찜하기 버튼
+ * - components/restock-notify-button.tsx: 재입고 알림 신청 버튼
+ * - lib/product-variants.ts: 옵션 축, 옵션 조합 찾기, 품절 조합 판단
+ * - lib/pricing.ts: 프로모션 기간을 반영한 판매 가격
  * - @clerk/nextjs: useAuth hook
  * - components/ui: Button, Input
  */
@@ -26,23 +33,71 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { addToCart } from "@/actions/cart";
+import { WishlistButton } from "@/components/wishlist-button";
+import { RestockNotifyButton } from "@/components/restock-notify-button";
 import { ShoppingCart, CreditCard } from "lucide-react";
-import type { Product } from "@/types/product";
+import {
+  findVariant,
+  getVariantOptionAxes,
+  getVariantUnitPrice,
+  isOptionValueAvailable,
+} from "@/lib/product-variants";
+import { getEffectivePrice } from "@/lib/pricing";
+import { cn } from "@/lib/utils";
+import type { Product, ProductVariant } from "@/types/product";
 
 interface ProductPurchaseActionsProps {
   product: Product;
+  variants?: ProductVariant[]; // 판매 중인 옵션 조합 (없으면 옵션 선택 없이 구매)
+  isRestockSubscribed?: boolean; // 재입고 알림 신청 여부 (품절 상품)
+}
+
+/**
+ * 가격을 천단위 콤마로 포맷팅
+ */
+function formatPrice(price: number): string {
+  return new Intl.NumberFormat("ko-KR").format(price);
 }
 
 export function ProductPurchaseActions({
   product,
+  variants = [],
+  isRestockSubscribed = false,
 }: ProductPurchaseActionsProps) {
   const router = useRouter();
   const { isSignedIn } = useAuth();
   const [quantity, setQuantity] = useState(1);
+  const [selection, setSelection] = useState<Record<string, string>>({});
   const [isPending, startTransition] = useTransition();
 
+  // 옵션 조합 (옵션 축을 모두 선택해야 옵션 조합이 결정됨)
+  const hasVariants = variants.length > 0;
+  const axes = hasVariants ? getVariantOptionAxes(product.options) : [];
+  const isSelectionComplete = axes.every((axis) => selection[axis.name]);
+  const selectedVariant =
+    hasVariants && isSelectionComplete ? findVariant(variants, selection) : null;
+
   const isOutOfStock = product.stock_quantity === 0;
-  const maxQuantity = product.stock_quantity;
+  const maxQuantity = hasVariants
+    ? selectedVariant?.stock_quantity ?? 0
+    : product.stock_quantity;
+  const needsSelection = hasVariants && !selectedVariant;
+
+  // 옵션 선택 (다른 옵션과 함께 구매할 수 없게 된 선택은 해제)
+  const handleSelect = (axisName: string, value: string) => {
+    const next: Record<string, string> = { ...selection, [axisName]: value };
+    for (const axis of axes) {
+      if (
+        axis.name !== axisName &&
+        next[axis.name] &&
+        !isOptionValueAvailable(variants, { [axisName]: value }, axis.name, next[axis.name])
+      ) {
+        delete next[axis.name];
+      }
+    }
+    setSelection(next);
+    setQuantity(1);
+  };
 
   // 수량 증가
   const handleIncrease = () => {
@@ -73,9 +128,10 @@ export function ProductPurchaseActions({
   };
 
   // 장바구니 추가
+  // 비로그인 사용자는 비회원 장바구니(쿠키)에 추가되고, 로그인하면 장바구니로 병합됨
   const handleAddToCart = () => {
-    if (!isSignedIn) {
-      // 비로그인 사용자는 로그인 모달이 자동으로 뜸 (SignInButton)
+    if (needsSelection) {
+      alert("옵션을 선택해주세요.");
       return;
     }
 
@@ -84,7 +140,8 @@ export function ProductPurchaseActions({
         await addToCart({
           productId: product.id,
           quantity,
-          options: null, // 옵션 기능은 나중에 추가
+          variantId: selectedVariant?.id ?? null,
+          options: selectedVariant?.options ?? null,
         });
         alert("장바구니에 추가되었습니다!");
         router.refresh(); // 장바구니 개수 업데이트를 위한 새로고침
@@ -107,6 +164,71 @@ export function ProductPurchaseActions({
 
   return (
     <div className="space-y-4">
+      {/* 옵션 선택 */}
+      {axes.map((axis) => (
+        <div key={axis.name} className="space-y-2">
+          <Label>
+            {axis.name}
+            {selection[axis.name] && (
+              <span className="ml-2 font-normal text-muted-foreground">
+                {selection[axis.name]}
+              </span>
+            )}
+          </Label>
+          <div className="flex flex-wrap gap-2">
+            {axis.values.map((value) => {
+              const isSelected = selection[axis.name] === value;
+              // 다른 옵션에서 선택한 값과 함께 구매할 수 있는 조합이 있어야 선택 가능
+              const otherSelection = { ...selection };
+              delete otherSelection[axis.name];
+              const isAvailable = isOptionValueAvailable(
+                variants,
+                otherSelection,
+                axis.name,
+                value
+              );
+
+              return (
+                <Button
+                  key={value}
+                  type="button"
+                  size="sm"
+                  variant={isSelected ? "default" : "outline"}
+                  onClick={() => handleSelect(axis.name, value)}
+                  disabled={isPending || !isAvailable}
+                  className={cn(!isAvailable && "line-through")}
+                  title={isAvailable ? undefined : "품절"}
+                >
+                  {value}
+                </Button>
+              );
+            })}
+          </div>
+        </div>
+      ))}
+
+      {/* 선택한 옵션 조합 가격 / 재고 */}
+      {selectedVariant && (
+        <div className="rounded-md bg-muted/50 px-4 py-3 text-sm">
+          <div className="flex justify-between">
+            <span>선택한 옵션 가격</span>
+            <span className="font-semibold">
+              {formatPrice(getVariantUnitPrice(getEffectivePrice(product), selectedVariant))}원
+              {Number(selectedVariant.price_delta) !== 0 && (
+                <span className="ml-1 font-normal text-muted-foreground">
+                  ({Number(selectedVariant.price_delta) > 0 ? "+" : "-"}
+                  {formatPrice(Math.abs(Number(selectedVariant.price_delta)))}원)
+                </span>
+              )}
+            </span>
+          </div>
+          <div className="flex justify-between text-muted-foreground">
+            <span>재고</span>
+            <span>{selectedVariant.stock_quantity}개</span>
+          </div>
+        </div>
+      )}
+
       {/* 수량 선택 */}
       <div className="space-y-2">
         <Label htmlFor="quantity">수량</Label>
@@ -116,7 +238,7 @@ export function ProductPurchaseActions({
               variant="outline"
               size="sm"
               onClick={handleDecrease}
-              disabled={isPending || quantity <= 1 || isOutOfStock}
+              disabled={isPending || quantity <= 1 || isOutOfStock || needsSelection}
             >
               -
             </Button>
@@ -132,74 +254,71 @@ export function ProductPurchaseActions({
                   setQuantity(1);
                 }
               }}
-              disabled={isPending || isOutOfStock}
+              disabled={isPending || isOutOfStock || needsSelection}
               className="w-24 text-center"
             />
             <Button
               variant="outline"
               size="sm"
               onClick={handleIncrease}
-              disabled={isPending || quantity >= maxQuantity || isOutOfStock}
+              disabled={isPending || quantity >= maxQuantity || isOutOfStock || needsSelection}
             >
               +
             </Button>
           </div>
           <span className="text-sm text-muted-foreground">
-            (최대 {maxQuantity}개)
+            {needsSelection ? "(옵션을 선택해주세요)" : `(최대 ${maxQuantity}개)`}
           </span>
         </div>
       </div>
 
       {/* 구매 버튼 */}
       <div className="flex gap-3 pt-4">
+        <Button
+          size="lg"
+          variant="outline"
+          disabled={isPending || isOutOfStock || needsSelection}
+          onClick={handleAddToCart}
+          className="flex-1"
+        >
+          <ShoppingCart className="w-5 h-5 mr-2" />
+          {isPending ? "추가 중..." : "장바구니 추가"}
+        </Button>
         {isSignedIn ? (
-          <>
-            <Button
-              size="lg"
-              variant="outline"
-              disabled={isPending || isOutOfStock}
-              onClick={handleAddToCart}
-              className="flex-1"
-            >
-              <ShoppingCart className="w-5 h-5 mr-2" />
-              {isPending ? "추가 중..." : "장바구니 추가"}
-            </Button>
+          <Button
+            size="lg"
+            disabled={isPending || isOutOfStock}
+            onClick={handleBuyNow}
+            className="flex-1"
+          >
+            <CreditCard className="w-5 h-5 mr-2" />
+            즉시 구매
+          </Button>
+        ) : (
+          <SignInButton mode="modal">
             <Button
               size="lg"
-              disabled={isPending || isOutOfStock}
-              onClick={handleBuyNow}
+              disabled={isOutOfStock}
               className="flex-1"
             >
               <CreditCard className="w-5 h-5 mr-2" />
-              즉시 구매
+              즉시 구매 (로그인 필요)
             </Button>
-          </>
-        ) : (
-          <>
-            <SignInButton mode="modal">
-              <Button
-                size="lg"
-                variant="outline"
-                disabled={isOutOfStock}
-                className="flex-1"
-              >
-                <ShoppingCart className="w-5 h-5 mr-2" />
-                장바구니 추가 (로그인 필요)
-              </Button>
-            </SignInButton>
-            <SignInButton mode="modal">
-              <Button
-                size="lg"
-                disabled={isOutOfStock}
-                className="flex-1"
-              >
-                <CreditCard className="w-5 h-5 mr-2" />
-                즉시 구매 (로그인 필요)
-              </Button>
-            </SignInButton>
-          </>
+          </SignInButton>
         )}
       </div>
+
+      {/* 재입고 알림 신청 (품절 상품) */}
+      {isOutOfStock && (
+        <RestockNotifyButton
+          productId={product.id}
+          isSubscribed={isRestockSubscribed}
+          className="w-full"
+        />
+      )}
+
+      {/* 찜하기 */}
+      <WishlistButton productId={product.id} variant="button" className="w-full" />
     </div>
   );
 }
@@ -0,0 +1,71 @@
+/**
+ * @file components/promotion-countdown.tsx
+ * @description 프로모션 종료 카운트다운 컴포넌트
+ *
+ * 진행 중인 프로모션의 남은 시간을 1초마다 갱신해 표시합니다.
+ * 서버 렌더링 시각과 차이가 나지 않도록 마운트 후에만 표시하고,
+ * 프로모션이 끝나면 페이지를 새로고침해 정가로 다시 표시합니다.
+ */
+
+"use client";
+
+import { useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import { cn } from "@/lib/utils";
+
+interface PromotionCountdownProps {
+  endsAt: string; // 프로모션 종료 일시 (ISO 8601 timestamp)
+  className?: string;
+}
+
+/**
+ * 남은 시간을 "n일 HH:MM:SS" 형식으로 포맷팅
+ */
+function formatRemaining(ms: number): string {
+  const totalSeconds = Math.floor(ms / 1000);
+  const days = Math.floor(totalSeconds / 86400);
+  const time = [
+    Math.floor((totalSeconds % 86400) / 3600),
+    Math.floor((totalSeconds % 3600) / 60),
+    totalSeconds % 60,
+  ]
+    .map((value) => String(value).padStart(2, "0"))
+    .join(":");
+
+  return days > 0 ? `${days}일 ${time}` : time;
+}
+
+export function PromotionCountdown({ endsAt, className }: PromotionCountdownProps) {
+  const router = useRouter();
+  const [remaining, setRemaining] = useState<number | null>(null);
+
+  useEffect(() => {
+    const endTime = new Date(endsAt).getTime();
+
+    const timer = setInterval(tick, 1000);
+    tick();
+
+    function tick() {
+      const ms = endTime - Date.now();
+      setRemaining(Math.max(ms, 0));
+
+      // 프로모션 종료 → 정가로 다시 표시
+      if (ms <= 0) {
+        clearInterval(timer);
+        router.refresh();
+      }
+    }
+
+    return () => clearInterval(timer);
+  }, [endsAt, router]);
+
+  if (remaining === null) {
+    return null;
+  }
+
+  return (
+    <p className={cn("text-xs text-destructive tabular-nums", className)}>
+      {remaining > 0 ? `특가 종료까지 ${formatRemaining(remaining)}` : "특가가 종료되었습니다"}
+    </p>
+  );
+}
@@ -0,0 +1,71 @@
+"use client";
+
+import { createContext, useCallback, useContext, useEffect, useState } from "react";
+import { useAuth } from "@clerk/nextjs";
+import { getWishlistProductIds, toggleWishlist } from "@/actions/wishlist";
+
+interface WishlistContextValue {
+  isWishlisted: (productId: string) => boolean;
+  toggle: (productId: string) => Promise<boolean>;
+}
+
+const WishlistContext = createContext<WishlistContextValue | null>(null);
+
+/**
+ * 찜한 상품 ID 목록을 관리하는 프로바이더
+ *
+ * RootLayout에 추가하여 상품 카드마다 찜 여부를 조회하지 않고 한 번만 조회합니다.
+ * 로그인 상태가 바뀌면 다시 조회합니다. (로그아웃 시 빈 목록)
+ */
+export function WishlistProvider({ children }: { children: React.ReactNode }) {
+  const { isSignedIn } = useAuth();
+  const [productIds, setProductIds] = useState<Set<string>>(new Set());
+
+  useEffect(() => {
+    if (!isSignedIn) {
+      setProductIds(new Set());
+      return;
+    }
+
+    getWishlistProductIds()
+      .then((ids) => setProductIds(new Set(ids)))
+      .catch((error) => console.error("찜한 상품 조회 실패:", error));
+  }, [isSignedIn]);
+
+  const isWishlisted = useCallback(
+    (productId: string) => productIds.has(productId),
+    [productIds]
+  );
+
+  // 찜하기 / 찜 해제 후 서버 결과로 상태 반영
+  const toggle = useCallback(async (productId: string) => {
+    const wishlisted = await toggleWishlist(productId);
+    setProductIds((prev) => {
+      const next = new Set(prev);
+      if (wishlisted) {
+        next.add(productId);
+      } else {
+        next.delete(productId);
+      }
+      return next;
+    });
+    return wishlisted;
+  }, []);
+
+  return (
+    <WishlistContext.Provider value={{ isWishlisted, toggle }}>
+      {children}
+    </WishlistContext.Provider>
+  );
+}
+
+/**
+ * 찜한 상품 상태를 사용하는 훅 (WishlistProvider 안에서 사용)
+ */
+export function useWishlist(): WishlistContextValue {
+  const context = useContext(WishlistContext);
+  if (!context) {
+    throw new Error("useWishlist는 WishlistProvider 안에서 사용해야 합니다.");
+  }
+  return context;
+}
@@ -0,0 +1,84 @@
+/**
+ * @file components/restock-notify-button.tsx
+ * @description 재입고 알림 신청 버튼 컴포넌트
+ *
+ * 상품 상세 페이지에서 품절 상품의 재입고 알림을 신청하거나 취소하는 버튼입니다.
+ * 로그인하지 않은 사용자는 버튼을 누르면 로그인 모달이 열립니다.
+ *
+ * @dependencies
+ * - actions/restock.ts: subscribeRestock, unsubscribeRestock Server Action
+ * - @clerk/nextjs: useAuth, SignInButton
+ */
+
+"use client";
+
+import { useState, useTransition } from "react";
+import { useRouter } from "next/navigation";
+import { SignInButton, useAuth } from "@clerk/nextjs";
+import { Bell, BellOff } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { subscribeRestock, unsubscribeRestock } from "@/actions/restock";
+
+interface RestockNotifyButtonProps {
+  productId: string;
+  isSubscribed: boolean; // 알림 대기 중인 신청 여부
+  className?: string;
+}
+
+export function RestockNotifyButton({
+  productId,
+  isSubscribed: initialSubscribed,
+  className,
+}: RestockNotifyButtonProps) {
+  const router = useRouter();
+  const { isSignedIn } = useAuth();
+  const [isSubscribed, setIsSubscribed] = useState(initialSubscribed);
+  const [isPending, startTransition] = useTransition();
+
+  const handleClick = () => {
+    startTransition(async () => {
+      try {
+        if (isSubscribed) {
+          await unsubscribeRestock(productId);
+          setIsSubscribed(false);
+        } else {
+          await subscribeRestock(productId);
+          setIsSubscribed(true);
+          alert("재입고 알림을 신청했습니다. 상품이 입고되면 알려드릴게요.");
+        }
+        router.refresh();
+      } catch (error) {
+        console.error("재입고 알림 신청 실패:", error);
+        alert(
+          `재입고 알림 ${isSubscribed ? "신청 취소" : "신청"}에 실패했습니다: ${error instanceof Error ? error.message : "알 수 없는 에러"}`
+        );
+      }
+    });
+  };
+
+  const button = (
+    <Button
+      type="button"
+      size="lg"
+      variant={isSubscribed ? "outline" : "default"}
+      onClick={isSignedIn ? handleClick : undefined}
+      disabled={isPending}
+      aria-pressed={isSubscribed}
+      className={className}
+    >
+      {isSubscribed ? (
+        <BellOff className="w-5 h-5 mr-2" />
+      ) : (
+        <Bell className="w-5 h-5 mr-2" />
+      )}
+      {isPending
+        ? "처리 중..."
+        : isSubscribed
+          ? "재입고 알림 신청 취소"
+          : "재입고 알림 신청"}
+    </Button>
+  );
+
+  // 비로그인 사용자는 로그인 모달 열기
+  return isSignedIn ? button : <SignInButton mode="modal">{button}</SignInButton>;
+}
@@ -0,0 +1,84 @@
+/**
+ * @file components/review/review-list.tsx
+ * @description 상품 리뷰 목록 컴포넌트
+ *
+ * 리뷰 별점, 작성자(일부 가림), 작성일, 내용, 사진을 표시합니다.
+ *
+ * @dependencies
+ * - components/review/star-rating.tsx: 별점 표시
+ * - types/review.ts: ReviewWithPhotos 타입
+ */
+
+import Image from "next/image";
+import { StarRating } from "@/components/review/star-rating";
+import type { ReviewWithPhotos } from "@/types/review";
+
+interface ReviewListProps {
+  reviews: ReviewWithPhotos[];
+}
+
+/**
+ * 작성일 포맷팅 (예: 2026.10.19)
+ */
+function formatReviewDate(dateString: string): string {
+  return new Intl.DateTimeFormat("ko-KR", {
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+  })
+    .format(new Date(dateString))
+    .replace(/\.\s?/g, ".")
+    .replace(/\.$/, "");
+}
+
+export function ReviewList({ reviews }: ReviewListProps) {
+  if (reviews.length === 0) {
+    return (
+      <p className="py-8 text-center text-muted-foreground">
+        아직 작성된 리뷰가 없습니다.
+      </p>
+    );
+  }
+
+  return (
+    <ul className="divide-y divide-border">
+      {reviews.map((review) => (
+        <li key={review.id} className="space-y-2 py-6">
+          <div className="flex items-center justify-between gap-2">
+            <StarRating rating={review.rating} />
+            <span className="text-xs text-muted-foreground">
+              {review.author_name} · {formatReviewDate(review.created_at)}
+            </span>
+          </div>
+
+          <p className="whitespace-pre-wrap text-sm text-foreground leading-relaxed">
+            {review.content}
+          </p>
+
+          {/* 리뷰 사진 */}
+          {review.photo_urls.length > 0 && (
+            <div className="flex flex-wrap gap-2">
+              {review.photo_urls.map((url, index) => (
+                <a
+                  key={url}
+                  href={url}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="relative h-20 w-20 overflow-hidden rounded-md border border-border bg-muted"
+                >
+                  <Image
+                    src={url}
+                    alt={`리뷰 사진 ${index + 1}`}
+                    fill
+                    className="object-cover"
+                    sizes="80px"
+                  />
+                </a>
+              ))}
+            </div>
+          )}
+        </li>
+      ))}
+    </ul>
+  );
+}
@@ -0,0 +1,51 @@
+/**
+ * @file components/review/review-summary.tsx
+ * @description 상품 리뷰 요약 컴포넌트
+ *
+ * 평균 별점, 리뷰 수, 별점 분포(별점별 리뷰 수 막대)를 표시합니다.
+ *
+ * @dependencies
+ * - components/review/star-rating.tsx: 별점 표시
+ * - types/review.ts: ReviewSummary 타입
+ */
+
+import { StarRating } from "@/components/review/star-rating";
+import { REVIEW_RATINGS } from "@/lib/reviews";
+import type { ReviewSummary as ReviewSummaryData } from "@/types/review";
+
+interface ReviewSummaryProps {
+  summary: ReviewSummaryData;
+}
+
+export function ReviewSummary({ summary }: ReviewSummaryProps) {
+  return (
+    <div className="flex flex-col gap-6 sm:flex-row sm:items-center">
+      {/* 평균 별점 */}
+      <div className="flex flex-col items-center gap-1 sm:w-40">
+        <span className="text-4xl font-bold text-foreground">{summary.average.toFixed(1)}</span>
+        <StarRating rating={summary.average} starClassName="h-5 w-5" />
+        <span className="text-sm text-muted-foreground">리뷰 {summary.count}개</span>
+      </div>
+
+      {/* 별점 분포 */}
+      <ul className="flex-1 space-y-1.5" aria-label="별점 분포">
+        {REVIEW_RATINGS.map((rating) => {
+          const count = summary.histogram[rating];
+          const percentage = summary.count > 0 ? (count / summary.count) * 100 : 0;
+          return (
+            <li key={rating} className="flex items-center gap-2 text-sm">
+              <span className="w-8 shrink-0 text-muted-foreground">{rating}점</span>
+              <div className="h-2 flex-1 overflow-hidden rounded-full bg-muted">
+                <div
+                  className="h-full rounded-full bg-amber-400"
+                  style={{ width: `${percentage}%` }}
+                />
+              </div>
+              <span className="w-8 shrink-0 text-right text-muted-foreground">{count}</span>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,45 @@
+/**
+ * @file components/review/star-rating.tsx
+ * @description 별점 표시 컴포넌트
+ *
+ * 평균 별점 또는 리뷰 별점을 별 5개로 표시합니다. (0.5 단위 반올림, 반 개 별 표시)
+ * 상품 카드, 상품 상세 리뷰 요약, 리뷰 목록에서 사용합니다.
+ */
+
+import { Star } from "lucide-react";
+import { cn } from "@/lib/utils";
+
+interface StarRatingProps {
+  rating: number; // 0~5
+  className?: string;
+  starClassName?: string; // 별 크기 (기본 h-4 w-4)
+}
+
+export function StarRating({ rating, className, starClassName }: StarRatingProps) {
+  const rounded = Math.round(rating * 2) / 2;
+
+  return (
+    <span
+      className={cn("inline-flex items-center gap-0.5", className)}
+      role="img"
+      aria-label={`별점 5점 만점에 ${rating.toFixed(1)}점`}
+    >
+      {[1, 2, 3, 4, 5].map((value) => {
+        const fill = rounded >= value ? 100 : rounded >= value - 0.5 ? 50 : 0;
+        return (
+          <span key={value} className={cn("relative inline-block h-4 w-4", starClassName)}>
+            <Star className="absolute inset-0 h-full w-full text-muted-foreground/30" strokeWidth={1.5} />
+            {fill > 0 && (
+              <span className="absolute inset-0 overflow-hidden" style={{ width: `${fill}%` }}>
+                <Star
+                  className={cn("h-4 w-4 fill-amber-400 text-amber-400", starClassName)}
+                  strokeWidth={1.5}
+                />
+              </span>
+            )}
+          </span>
+        );
+      })}
+    </span>
+  );
+}
@@ -0,0 +1,72 @@
+/**
+ * @file components/rich-text.tsx
+ * @description 서식 있는 텍스트 표시 컴포넌트
+ *
+ * 관리자가 입력한 제한된 HTML(br, p, strong, em, u, a)을 React 요소로 렌더링합니다.
+ * HTML 문자열을 그대로 삽입하지 않으므로 허용하지 않는 태그와 속성은 화면에 반영되지 않습니다.
+ *
+ * @dependencies
+ * - lib/rich-text.ts: 허용 태그만 남긴 노드 트리 변환
+ */
+
+import type { ReactNode } from "react";
+import Link from "next/link";
+import { parseRichText, type RichTextNode } from "@/lib/rich-text";
+import { cn } from "@/lib/utils";
+
+interface RichTextProps {
+  content: string;
+  className?: string;
+}
+
+/**
+ * 노드 목록을 React 요소로 변환합니다.
+ */
+function renderNodes(nodes: RichTextNode[], keyPrefix: string): ReactNode[] {
+  return nodes.map((node, index) => {
+    const key = `${keyPrefix}-${index}`;
+    const children = node.children ? renderNodes(node.children, key) : null;
+
+    switch (node.type) {
+      case "text":
+        return node.text;
+      case "br":
+        return <br key={key} />;
+      case "p":
+        return <p key={key}>{children}</p>;
+      case "strong":
+        return <strong key={key}>{children}</strong>;
+      case "em":
+        return <em key={key}>{children}</em>;
+      case "u":
+        return <u key={key}>{children}</u>;
+      case "a":
+        // 허용하지 않는 링크는 텍스트로만 표시
+        if (!node.href) {
+          return <span key={key}>{children}</span>;
+        }
+        // 사이트 내부 경로는 클라이언트 라우팅, 외부 링크는 새 창
+        return node.href.startsWith("/") ? (
+          <Link key={key} href={node.href} className="underline underline-offset-2">
+            {children}
+          </Link>
+        ) : (
+          <a
+            key={key}
+            href={node.href}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="underline underline-offset-2"
+          >
+            {children}
+          </a>
+        );
+      default:
+        return null;
+    }
+  });
+}
+
+export function RichText({ content, className }: RichTextProps) {
+  return <div className={cn("space-y-2", className)}>{renderNodes(parseRichText(content), "rt")}</div>;
+}
@@ -0,0 +1,192 @@
+/**
+ * @file components/search-box.tsx
+ * @description 상품 검색창 컴포넌트 (자동완성)
+ *
+ * Navbar에서 사용하는 상품 검색창입니다.
+ *
+ * 주요 기능:
+ * 1. 입력 중 자동완성 제안 표시 (/api/search/suggest, 입력이 멈춘 뒤 조회)
+ * 2. 제안 목록 키보드 탐색 (↑ / ↓ 선택, Enter 이동, Esc 닫기)
+ * 3. 검색어 강조 표시
+ * 4. 검색 실행 시 /search 페이지로 이동
+ *
+ * @dependencies
+ * - app/api/search/suggest/route.ts: 자동완성 API
+ * - components/highlight-text.tsx: 검색어 강조
+ * - lib/search.ts: 검색어 정규화
+ */
+
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { useRouter } from "next/navigation";
+import { Search } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { HighlightText } from "@/components/highlight-text";
+import {
+  normalizeSearchQuery,
+  SEARCH_QUERY_MAX_LENGTH,
+  SEARCH_SUGGEST_MIN_LENGTH,
+} from "@/lib/search";
+import { cn } from "@/lib/utils";
+import type { SearchSuggestion } from "@/types/search";
+
+/**
+ * 자동완성 조회 지연 시간 (입력이 멈춘 뒤 조회)
+ */
+const SUGGEST_DEBOUNCE_MS = 200;
+
+interface SearchBoxProps {
+  className?: string;
+}
+
+export function SearchBox({ className }: SearchBoxProps) {
+  const router = useRouter();
+  const [query, setQuery] = useState("");
+  const [suggestions, setSuggestions] = useState<SearchSuggestion[]>([]);
+  const [activeIndex, setActiveIndex] = useState(-1);
+  const [isOpen, setIsOpen] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  const normalizedQuery = normalizeSearchQuery(query);
+
+  // 자동완성 제안 조회 (입력이 멈춘 뒤, 이전 요청은 취소)
+  useEffect(() => {
+    if (normalizedQuery.length < SEARCH_SUGGEST_MIN_LENGTH) {
+      setSuggestions([]);
+      return;
+    }
+
+    const controller = new AbortController();
+    const timer = setTimeout(async () => {
+      try {
+        const response = await fetch(
+          `/api/search/suggest?q=${encodeURIComponent(normalizedQuery)}`,
+          { signal: controller.signal }
+        );
+
+        if (!response.ok) {
+          console.error("검색 자동완성 조회 실패:", await response.text());
+          return;
+        }
+
+        const data: { suggestions: SearchSuggestion[] } = await response.json();
+        setSuggestions(data.suggestions);
+        setActiveIndex(-1);
+      } catch (error) {
+        if (!controller.signal.aborted) {
+          console.error("검색 자동완성 조회 실패:", error);
+        }
+      }
+    }, SUGGEST_DEBOUNCE_MS);
+
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [normalizedQuery]);
+
+  // 검색창 바깥을 누르면 제안 목록 닫기
+  useEffect(() => {
+    const handleClick = (event: MouseEvent) => {
+      if (!containerRef.current?.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+
+    document.addEventListener("mousedown", handleClick);
+    return () => document.removeEventListener("mousedown", handleClick);
+  }, []);
+
+  const navigate = (href: string) => {
+    setIsOpen(false);
+    router.push(href);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const suggestion = suggestions[activeIndex];
+    if (isOpen && suggestion) {
+      navigate(suggestion.href);
+      return;
+    }
+
+    if (!normalizedQuery) {
+      return;
+    }
+
+    navigate(`/search?q=${encodeURIComponent(normalizedQuery)}`);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === "ArrowDown") {
+      e.preventDefault();
+      setIsOpen(true);
+      setActiveIndex((prev) => Math.min(prev + 1, suggestions.length - 1));
+    } else if (e.key === "ArrowUp") {
+      e.preventDefault();
+      setActiveIndex((prev) => Math.max(prev - 1, -1));
+    } else if (e.key === "Escape") {
+      setIsOpen(false);
+    }
+  };
+
+  const showSuggestions = isOpen && normalizedQuery.length > 0 && suggestions.length > 0;
+
+  return (
+    <div ref={containerRef} className={cn("relative", className)}>
+      <form onSubmit={handleSubmit} role="search">
+        <Search
+          className="pointer-events-none absolute left-2.5 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground"
+          strokeWidth={1.5}
+        />
+        <Input
+          type="search"
+          value={query}
+          onChange={(e) => {
+            setQuery(e.target.value);
+            setIsOpen(true);
+          }}
+          onFocus={() => setIsOpen(true)}
+          onKeyDown={handleKeyDown}
+          placeholder="상품 검색"
+          maxLength={SEARCH_QUERY_MAX_LENGTH}
+          aria-label="상품 검색"
+          aria-autocomplete="list"
+          aria-expanded={showSuggestions}
+          className="h-9 pl-8 text-sm font-light"
+        />
+      </form>
+
+      {/* 자동완성 제안 목록 */}
+      {showSuggestions && (
+        <ul
+          role="listbox"
+          className="absolute left-0 right-0 top-full z-50 mt-1 overflow-hidden rounded-md border bg-background py-1 shadow-md"
+        >
+          {suggestions.map((suggestion, index) => (
+            <li key={`${suggestion.type}-${suggestion.href}`} role="option" aria-selected={index === activeIndex}>
+              <button
+                type="button"
+                onMouseEnter={() => setActiveIndex(index)}
+                onClick={() => navigate(suggestion.href)}
+                className={cn(
+                  "flex w-full items-center justify-between gap-2 px-3 py-2 text-left text-sm",
+                  index === activeIndex && "bg-muted"
+                )}
+              >
+                <span className="truncate">
+                  <HighlightText text={suggestion.label} query={normalizedQuery} />
+                </span>
+                {suggestion.type === "category" && (
+                  <span className="shrink-0 text-xs text-muted-foreground">카테고리</span>
+                )}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
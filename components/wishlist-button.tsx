@@ -0,0 +1,91 @@
+/**
+ * @file components/wishlist-button.tsx
+ * @description 찜하기(하트) 버튼 컴포넌트
+ *
+ * 상품 카드와 상품 상세 페이지에서 사용하는 찜하기 토글 버튼입니다.
+ * 로그인하지 않은 사용자는 버튼을 누르면 로그인 모달이 열립니다.
+ *
+ * @dependencies
+ * - components/providers/wishlist-provider.tsx: 찜한 상품 상태
+ * - @clerk/nextjs: useAuth, SignInButton
+ */
+
+"use client";
+
+import { useTransition } from "react";
+import { SignInButton, useAuth } from "@clerk/nextjs";
+import { Heart } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useWishlist } from "@/components/providers/wishlist-provider";
+import { cn } from "@/lib/utils";
+
+interface WishlistButtonProps {
+  productId: string;
+  variant?: "icon" | "button"; // icon: 상품 카드 위 하트, button: 상품 상세 버튼
+  className?: string;
+}
+
+export function WishlistButton({ productId, variant = "icon", className }: WishlistButtonProps) {
+  const { isSignedIn } = useAuth();
+  const { isWishlisted, toggle } = useWishlist();
+  const [isPending, startTransition] = useTransition();
+
+  const wishlisted = isWishlisted(productId);
+  const label = wishlisted ? "찜 해제" : "찜하기";
+
+  const handleClick = () => {
+    startTransition(async () => {
+      try {
+        await toggle(productId);
+      } catch (error) {
+        console.error("찜하기 실패:", error);
+        alert(
+          `찜하기에 실패했습니다: ${error instanceof Error ? error.message : "알 수 없는 에러"}`
+        );
+      }
+    });
+  };
+
+  const heart = (
+    <Heart
+      className={cn(
+        variant === "icon" ? "h-5 w-5" : "h-5 w-5 mr-2",
+        wishlisted && "fill-red-500 text-red-500"
+      )}
+      strokeWidth={1.5}
+    />
+  );
+
+  const button =
+    variant === "icon" ? (
+      <button
+        type="button"
+        onClick={isSignedIn ? handleClick : undefined}
+        disabled={isPending}
+        aria-label={label}
+        aria-pressed={wishlisted}
+        className={cn(
+          "inline-flex items-center justify-center rounded-full bg-white/80 p-1.5 text-foreground transition-opacity hover:opacity-80 disabled:opacity-50",
+          className
+        )}
+      >
+        {heart}
+      </button>
+    ) : (
+      <Button
+        type="button"
+        size="lg"
+        variant="outline"
+        onClick={isSignedIn ? handleClick : undefined}
+        disabled={isPending}
+        aria-pressed={wishlisted}
+        className={className}
+      >
+        {heart}
+        {label}
+      </Button>
+    );
+
+  // 비로그인 사용자는 로그인 모달 열기
+  return isSignedIn ? button : <SignInButton mode="modal">{button}</SignInButton>;
+}
@@ -1,13 +1,16 @@
 "use client";
 
 import { useAuth } from "@clerk/nextjs";
+import { useRouter } from "next/navigation";
 import { useEffect, useRef } from "react";
+import { mergeGuestCart } from "@/actions/cart";
 
 /**
  * Clerk 사용자를 Supabase DB에 자동으로 동기화하는 훅
  *
  * 사용자가 로그인한 상태에서 이 훅을 사용하면
  * 자동으로 /api/sync-user를 호출하여 Supabase users 테이블에 사용자 정보를 저장합니다.
+ * 동기화가 끝나면 로그인 전에 담은 비회원 장바구니를 사용자 장바구니로 병합합니다.
  *
  * @example
  * ```tsx
@@ -23,6 +26,7 @@ import { useEffect, useRef } from "react";
  */
 export function useSyncUser() {
   const { isLoaded, userId } = useAuth();
+  const router = useRouter();
   const syncedRef = useRef(false);
 
   useEffect(() => {
@@ -46,9 +50,34 @@ export function useSyncUser() {
         syncedRef.current = true;
       } catch (error) {
         console.error("Error syncing user:", error);
+        return;
+      }
+
+      // 비회원 장바구니 병합 (재고 한도를 넘는 수량은 줄이고, 구매할 수 없는 상품은 제외)
+      try {
+        const result = await mergeGuestCart();
+        if (!result) {
+          return;
+        }
+
+        if (result.adjusted > 0 || result.skipped > 0) {
+          alert(
+            "로그인 전에 담은 상품을 장바구니에 옮겼습니다.\n" +
+              (result.adjusted > 0
+                ? `재고가 부족한 상품 ${result.adjusted}개는 수량이 조정되었습니다.\n`
+                : "") +
+              (result.skipped > 0
+                ? `판매 중이 아니거나 품절된 상품 ${result.skipped}개는 제외되었습니다.`
+                : "")
+          );
+        }
+
+        router.refresh();
+      } catch (error) {
+        console.error("Error merging guest cart:", error);
       }
     };
 
     syncUser();
-  }, [isLoaded, userId]);
+  }, [isLoaded, userId, router]);
 }
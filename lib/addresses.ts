@@ -0,0 +1,117 @@
+/**
+ * @file lib/addresses.ts
+ * @description 배송지 입력 규칙
+ *
+ * 주문 배송 정보 폼, 배송지 주소록 폼(클라이언트)과 Server Action(서버)이
+ * 같은 규칙으로 검증하도록 Zod 스키마를 한 곳에서 관리합니다.
+ *
+ * 주요 기능:
+ * 1. 배송지 필드 스키마 (수령인, 연락처, 우편번호, 주소, 배송 요청사항)
+ * 2. 주소록 배송지 스키마 (배송지 이름, 기본 배송지 포함)
+ * 3. 연락처 표시 형식 변환 (01012345678 → 010-1234-5678)
+ * 4. 저장한 배송지 → 배송 정보 폼 값 변환
+ * 5. 우편번호 형식 확인 (5자리 국가기초구역번호)
+ */
+
+import { z } from "zod";
+import type { ShippingFormData } from "@/types/order";
+import type { UserAddress } from "@/types/address";
+
+/**
+ * 사용자별 최대 배송지 수
+ */
+export const USER_ADDRESS_LIMIT = 10;
+
+/**
+ * 우편번호 형식 (2015년 8월부터 사용하는 5자리 국가기초구역번호)
+ */
+export const POSTAL_CODE_PATTERN = /^[0-9]{5}$/;
+
+/**
+ * 우편번호가 5자리 형식인지 확인합니다.
+ *
+ * @param postalCode - 우편번호
+ * @returns 5자리 숫자이면 true
+ */
+export function isValidPostalCode(postalCode: string): boolean {
+  return POSTAL_CODE_PATTERN.test(postalCode);
+}
+
+/**
+ * 배송지 필드 스키마 (주문 배송 정보와 주소록 공통)
+ */
+export const shippingAddressSchema = z.object({
+  recipientName: z
+    .string()
+    .trim()
+    .min(1, "수령인 이름을 입력해주세요.")
+    .max(50, "수령인 이름은 50자 이하여야 합니다."),
+  phone: z
+    .string()
+    .min(1, "연락처를 입력해주세요.")
+    .regex(/^01[0-9]-?[0-9]{3,4}-?[0-9]{4}$/, "올바른 휴대폰 번호 형식이 아닙니다. (예: 010-1234-5678)"),
+  postalCode: z
+    .string()
+    .trim()
+    .min(1, "우편번호를 검색해주세요.")
+    .regex(POSTAL_CODE_PATTERN, "우편번호는 5자리 숫자여야 합니다."),
+  address: z
+    .string()
+    .trim()
+    .min(1, "기본 주소를 입력해주세요.")
+    .max(200, "기본 주소는 200자 이하여야 합니다."),
+  detailAddress: z
+    .string()
+    .trim()
+    .min(1, "상세 주소를 입력해주세요.")
+    .max(200, "상세 주소는 200자 이하여야 합니다."),
+  deliveryRequest: z.string().max(200, "배송 요청사항은 200자 이하여야 합니다.").optional(),
+});
+
+/**
+ * 주소록 배송지 스키마 (배송지 이름, 기본 배송지 포함)
+ */
+export const userAddressSchema = shippingAddressSchema.extend({
+  label: z
+    .string()
+    .trim()
+    .min(1, "배송지 이름을 입력해주세요.")
+    .max(30, "배송지 이름은 30자 이하여야 합니다."),
+  isDefault: z.boolean().optional(),
+});
+
+/**
+ * 휴대폰 번호를 하이픈 형식으로 변환합니다. (예: 01012345678 → 010-1234-5678)
+ *
+ * @param phone - 휴대폰 번호 (하이픈 유무 무관)
+ * @returns 하이픈 형식 휴대폰 번호
+ */
+export function formatPhoneNumber(phone: string): string {
+  const digits = phone.replace(/[^0-9]/g, "");
+  if (digits.length <= 3) {
+    return digits;
+  }
+  if (digits.length <= 7) {
+    return `${digits.slice(0, 3)}-${digits.slice(3)}`;
+  }
+  return `${digits.slice(0, 3)}-${digits.slice(3, digits.length === 10 ? 6 : 7)}-${digits.slice(digits.length === 10 ? 6 : 7, 11)}`;
+}
+
+/**
+ * 저장한 배송지를 배송 정보 폼 값으로 변환합니다.
+ *
+ * @param address - 저장한 배송지
+ * @returns 배송 정보 폼 값 (주문 메모 제외)
+ */
+export function toShippingFormData(
+  address: UserAddress
+): Omit<ShippingFormData, "orderNote"> {
+  return {
+    recipientName: address.recipient_name,
+    phone: formatPhoneNumber(address.phone),
+    postalCode: address.postal_code,
+    address: address.address,
+    detailAddress: address.detail_address,
+    deliveryRequest: address.delivery_request ?? "",
+  };
+}
@@ -0,0 +1,82 @@
+/**
+ * @file lib/banners.ts
+ * @description 홈 배너 규칙
+ *
+ * 관리자 배너 목록과 홈 배너 조회가 같은 기준을 사용하도록 배너 노출 상태와 링크 규칙을 관리합니다.
+ *
+ * @dependencies
+ * - types/banner.ts: Banner 타입
+ */
+
+import type { Banner, BannerState } from "@/types/banner";
+
+/**
+ * 홈 배너 그리드에 표시하는 최대 배너 수
+ */
+export const MAX_HOME_BANNERS = 3;
+
+/**
+ * 배너 하나에 연결할 수 있는 최대 상품 수
+ */
+export const MAX_BANNER_PRODUCTS = 3;
+
+/**
+ * 배너 상태별 레이블
+ */
+export const BANNER_STATE_LABELS: Record<BannerState, string> = {
+  hidden: "숨김",
+  scheduled: "예정",
+  running: "노출 중",
+  ended: "종료",
+};
+
+/**
+ * 배너 상태별 배지 색상 클래스
+ */
+export const BANNER_STATE_COLORS: Record<BannerState, string> = {
+  hidden: "bg-gray-500",
+  scheduled: "bg-orange-500",
+  running: "bg-green-500",
+  ended: "bg-red-500",
+};
+
+/**
+ * 노출 여부와 노출 기간으로 배너 상태를 계산합니다.
+ * (기간이 NULL이면 제한 없음)
+ *
+ * @param banner - 배너 (노출 여부, 노출 기간)
+ * @param now - 기준 시각
+ */
+export function getBannerState(
+  banner: Pick<Banner, "is_active" | "starts_at" | "ends_at">,
+  now: Date = new Date()
+): BannerState {
+  if (!banner.is_active) {
+    return "hidden";
+  }
+  if (banner.starts_at && now.getTime() < new Date(banner.starts_at).getTime()) {
+    return "scheduled";
+  }
+  if (banner.ends_at && now.getTime() > new Date(banner.ends_at).getTime()) {
+    return "ended";
+  }
+  return "running";
+}
+
+/**
+ * 배너 링크로 사용할 수 있는 URL인지 확인합니다.
+ * 사이트 내부 경로(/...) 또는 http(s) URL만 허용합니다.
+ *
+ * @param url - 링크 URL
+ */
+export function isAllowedBannerLink(url: string): boolean {
+  // 브라우저가 무시하는 탭 / 줄바꿈 등 제어 문자로 아래 검사를 우회하지 못하도록 제외
+  if (/[\x00-\x1f\x7f]/.test(url)) {
+    return false;
+  }
+  if (url.startsWith("/")) {
+    // 프로토콜 상대 경로(//example.com, /\example.com)는 외부 사이트로 이동하므로 제외
+    return url[1] !== "/" && url[1] !== "\\";
+  }
+  return /^https?:\/\//i.test(url);
+}
@@ -0,0 +1,73 @@
+/**
+ * @file lib/campaigns.ts
+ * @description 프로모션 캠페인 규칙
+ *
+ * 관리자 캠페인 목록 / 폼과 홈 배너가 같은 기준을 사용하도록 캠페인 상태와 혜택 문구를 관리합니다.
+ * 캠페인 할인은 admin_apply_campaign 함수가 상품의 프로모션 필드(정가, 할인가, 프로모션 기간)에
+ * 반영하므로 실제 판매 가격은 lib/pricing.ts 규칙을 따릅니다.
+ *
+ * @dependencies
+ * - types/campaign.ts: Campaign 타입
+ */
+
+import type { Campaign, CampaignState } from "@/types/campaign";
+
+/**
+ * 캠페인 상태별 레이블
+ */
+export const CAMPAIGN_STATE_LABELS: Record<CampaignState, string> = {
+  scheduled: "예정",
+  running: "진행 중",
+  ended: "종료",
+};
+
+/**
+ * 캠페인 상태별 배지 색상 클래스
+ */
+export const CAMPAIGN_STATE_COLORS: Record<CampaignState, string> = {
+  scheduled: "bg-orange-500",
+  running: "bg-green-500",
+  ended: "bg-gray-500",
+};
+
+/**
+ * 가격을 천단위 콤마로 포맷팅
+ */
+function formatPrice(price: number): string {
+  return new Intl.NumberFormat("ko-KR").format(price);
+}
+
+/**
+ * 캠페인 기간으로 진행 상태를 계산합니다.
+ *
+ * @param campaign - 캠페인 (시작 / 종료일시)
+ * @param now - 기준 시각
+ */
+export function getCampaignState(
+  campaign: Pick<Campaign, "starts_at" | "ends_at">,
+  now: Date = new Date()
+): CampaignState {
+  if (now.getTime() < new Date(campaign.starts_at).getTime()) {
+    return "scheduled";
+  }
+  if (now.getTime() > new Date(campaign.ends_at).getTime()) {
+    return "ended";
+  }
+  return "running";
+}
+
+/**
+ * 캠페인 할인 문구를 만듭니다.
+ *
+ * @param campaign - 캠페인 (할인 방식, 할인 값)
+ * @returns 할인 문구 (예: "20% 할인", "5,000원 할인")
+ */
+export function describeCampaignDiscount(
+  campaign: Pick<Campaign, "discount_type" | "discount_value">
+): string {
+  const discountValue = Number(campaign.discount_value);
+
+  return campaign.discount_type === "fixed"
+    ? `${formatPrice(discountValue)}원 할인`
+    : `${discountValue}% 할인`;
+}
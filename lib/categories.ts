@@ -5,24 +5,48 @@
  * 카테고리 한글 변환 및 카테고리 목록 관리
  */
 
+/**
+ * 카테고리 코드 → 한글 이름
+ * (상품 검색 인덱스의 search_category_label 함수와 같은 값을 유지해야 합니다)
+ */
+const CATEGORY_LABELS: Record<string, string> = {
+  electronics: "전자제품",
+  clothing: "의류",
+  books: "도서",
+  food: "식품",
+  sports: "스포츠",
+  beauty: "뷰티",
+  home: "생활/가정",
+  collaboration: "디자인 콜라보",
+  woman: "여성",
+  man: "남성",
+};
+
 /**
  * 카테고리 이름을 한글로 변환
  */
 export function getCategoryLabel(category: string | null): string {
-  const categoryMap: Record<string, string> = {
-    electronics: "전자제품",
-    clothing: "의류",
-    books: "도서",
-    food: "식품",
-    sports: "스포츠",
-    beauty: "뷰티",
-    home: "생활/가정",
-    collaboration: "디자인 콜라보",
-    woman: "여성",
-    man: "남성",
-  };
+  return category ? CATEGORY_LABELS[category] || category : "기타";
+}
+
+/**
+ * 검색어가 한글 이름 또는 코드에 포함된 카테고리를 찾습니다. (검색 자동완성용)
+ *
+ * @param keyword - 검색어
+ * @returns 카테고리 코드 목록
+ */
+export function findCategoriesByKeyword(keyword: string): string[] {
+  const normalized = keyword.replace(/\s+/g, "").toLowerCase();
+  if (!normalized) {
+    return [];
+  }
 
-  return category ? categoryMap[category] || category : "기타";
+  return Object.entries(CATEGORY_LABELS)
+    .filter(
+      ([category, label]) =>
+        label.replace(/\s+/g, "").includes(normalized) || category.includes(normalized)
+    )
+    .map(([category]) => category);
 }
 
 /**
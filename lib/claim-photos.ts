@@ -0,0 +1,57 @@
+/**
+ * @file lib/claim-photos.ts
+ * @description 반품 / 교환 첨부 사진 signed URL 생성 (서버 전용)
+ *
+ * 고객 주문 상세와 관리자 주문 상세에서 반품/교환 신청의 첨부 사진을 표시할 때 사용합니다.
+ * 버킷이 private이고 Storage RLS는 본인 파일만 조회할 수 있으므로 service role로 생성합니다.
+ *
+ * @dependencies
+ * - lib/supabase/service-role.ts: Service Role 클라이언트
+ * - types/claim.ts: OrderClaim 타입
+ */
+
+import { getServiceRoleClient } from "@/lib/supabase/service-role";
+import type { OrderClaim, OrderClaimWithPhotos } from "@/types/claim";
+
+const STORAGE_BUCKET = process.env.NEXT_PUBLIC_STORAGE_BUCKET || "uploads";
+
+/**
+ * 첨부 사진 signed URL 유효 시간 (초)
+ */
+const CLAIM_PHOTO_URL_EXPIRES_IN = 60 * 60;
+
+/**
+ * 반품/교환 신청의 첨부 사진 Storage 경로를 signed URL로 변환합니다.
+ * URL 생성에 실패하면 사진 없이 반환합니다.
+ *
+ * @param claims - 반품/교환 신청 목록
+ * @returns 첨부 사진 signed URL을 포함한 신청 목록 (Storage 경로는 제외)
+ */
+export async function signClaimPhotos(claims: OrderClaim[]): Promise<OrderClaimWithPhotos[]> {
+  const paths = claims.flatMap((claim) => claim.photo_paths);
+  const urlsByPath = new Map<string, string>();
+
+  if (paths.length > 0) {
+    const { data, error } = await getServiceRoleClient()
+      .storage.from(STORAGE_BUCKET)
+      .createSignedUrls(paths, CLAIM_PHOTO_URL_EXPIRES_IN);
+
+    if (error) {
+      console.error("⚠️ 반품/교환 사진 URL 생성 실패 (사진 없이 표시):", error);
+    }
+
+    (data ?? []).forEach((item) => {
+      if (item.path && item.signedUrl) {
+        urlsByPath.set(item.path, item.signedUrl);
+      }
+    });
+  }
+
+  return claims.map(({ photo_paths, ...claim }) => ({
+    ...claim,
+    refund_amount: claim.refund_amount === null ? null : Number(claim.refund_amount),
+    photo_urls: photo_paths
+      .map((path) => urlsByPath.get(path))
+      .filter((url): url is string => !!url),
+  }));
+}
@@ -0,0 +1,157 @@
+/**
+ * @file lib/claims.ts
+ * @description 반품 / 교환 규칙
+ *
+ * 반품/교환 신청 폼(클라이언트)과 Server Action(서버)이 같은 규칙을 사용하도록 한 곳에서 관리합니다.
+ * DB의 order_claims 테이블 CHECK 제약, request_order_claim 함수와 같은 값을 사용합니다.
+ *
+ * 주요 기능:
+ * 1. 신청 기간 / 사유 길이 / 사진 개수 / 사진 형식 제한
+ * 2. 유형, 사유 유형, 처리 상태 한글 레이블
+ * 3. 주문 상품별 신청 가능 수량 계산, 판매자 귀책 사유 판단 (반품 배송비 차감 여부)
+ * 4. 첨부 사진 Storage 경로 생성 및 검증 ({clerk_id}/claims/...)
+ */
+
+import type { OrderItem, OrderStatus } from "@/types/order";
+import type {
+  OrderClaim,
+  OrderClaimReasonType,
+  OrderClaimStatus,
+  OrderClaimType,
+} from "@/types/claim";
+
+/**
+ * 반품/교환 신청 기간 (배송 완료 후 일 수)
+ */
+export const CLAIM_PERIOD_DAYS = 7;
+
+/**
+ * 상세 사유 최소 / 최대 길이
+ */
+export const CLAIM_REASON_MIN_LENGTH = 5;
+export const CLAIM_REASON_MAX_LENGTH = 1000;
+
+/**
+ * 첨부 사진 최대 개수
+ */
+export const CLAIM_MAX_PHOTOS = 5;
+
+/**
+ * 첨부 사진 최대 크기 (Storage 버킷 제한과 동일)
+ */
+export const CLAIM_PHOTO_MAX_SIZE = 6 * 1024 * 1024; // 6MB
+
+/**
+ * 첨부 사진 허용 형식
+ */
+export const CLAIM_PHOTO_TYPES = ["image/jpeg", "image/jpg", "image/png", "image/webp"];
+
+/**
+ * 유형별 레이블
+ */
+export const CLAIM_TYPE_LABELS: Record<OrderClaimType, string> = {
+  return: "반품",
+  exchange: "교환",
+};
+
+/**
+ * 사유 유형별 레이블 (신청 폼 선택 순서)
+ */
+export const CLAIM_REASON_TYPE_LABELS: Record<OrderClaimReasonType, string> = {
+  change_of_mind: "단순 변심",
+  defective: "상품 불량",
+  wrong_item: "오배송",
+  damaged: "배송 중 파손",
+  other: "기타",
+};
+
+/**
+ * 판매자 귀책 사유 유형 (반품 배송비를 차감하지 않음)
+ */
+export const SELLER_FAULT_REASON_TYPES: OrderClaimReasonType[] = [
+  "defective",
+  "wrong_item",
+  "damaged",
+];
+
+/**
+ * 판매자 귀책 사유인지 확인합니다.
+ */
+export function isSellerFaultReason(reasonType: OrderClaimReasonType): boolean {
+  return SELLER_FAULT_REASON_TYPES.includes(reasonType);
+}
+
+/**
+ * 처리 상태별 레이블
+ */
+export const CLAIM_STATUS_LABELS: Record<OrderClaimStatus, string> = {
+  requested: "처리 대기",
+  approved: "승인",
+  rejected: "거절",
+};
+
+/**
+ * 처리 상태별 배지 색상 클래스
+ */
+export const CLAIM_STATUS_COLORS: Record<OrderClaimStatus, string> = {
+  requested: "bg-orange-500 text-white",
+  approved: "bg-green-500 text-white",
+  rejected: "bg-red-500 text-white",
+};
+
+/**
+ * 반품/교환을 신청할 수 있는 주문인지 확인합니다.
+ * (배송 완료 또는 반품/교환 접수 상태, 배송 완료 후 CLAIM_PERIOD_DAYS일 이내)
+ *
+ * @param status - 주문 상태
+ * @param deliveredAt - 배송 완료 일시 (없으면 기간 확인 생략)
+ * @param now - 현재 시각
+ */
+export function isClaimableOrder(
+  status: OrderStatus,
+  deliveredAt: string | null,
+  now: Date = new Date()
+): boolean {
+  if (status !== "delivered" && status !== "return_requested") {
+    return false;
+  }
+  if (!deliveredAt) {
+    return true;
+  }
+  const deadline = new Date(deliveredAt).getTime() + CLAIM_PERIOD_DAYS * 24 * 60 * 60 * 1000;
+  return now.getTime() <= deadline;
+}
+
+/**
+ * 주문 상품의 신청 가능 수량을 계산합니다. (주문 수량 - 신청 중 / 승인된 수량)
+ *
+ * @param item - 주문 상품
+ * @param claims - 같은 주문의 반품/교환 신청 목록
+ */
+export function getClaimableQuantity(
+  item: Pick<OrderItem, "id" | "quantity">,
+  claims: Pick<OrderClaim, "order_item_id" | "quantity" | "status">[]
+): number {
+  const claimed = claims
+    .filter((claim) => claim.order_item_id === item.id && claim.status !== "rejected")
+    .reduce((sum, claim) => sum + claim.quantity, 0);
+  return Math.max(item.quantity - claimed, 0);
+}
+
+/**
+ * 첨부 사진 Storage 경로를 만듭니다.
+ *
+ * @param clerkId - 신청자 Clerk User ID (Storage RLS: 본인 폴더에만 업로드 가능)
+ * @param fileName - 원본 파일 이름 (확장자만 사용)
+ */
+export function buildClaimPhotoPath(clerkId: string, fileName: string): string {
+  const fileExt = fileName.split(".").pop()?.toLowerCase() || "jpg";
+  return `${clerkId}/claims/${Date.now()}-${Math.random().toString(36).substring(7)}.${fileExt}`;
+}
+
+/**
+ * 본인이 업로드한 첨부 사진 경로인지 확인합니다.
+ */
+export function isClaimPhotoPath(clerkId: string, path: string): boolean {
+  return path.startsWith(`${clerkId}/claims/`) && !path.includes("..");
+}
@@ -0,0 +1,130 @@
+/**
+ * @file lib/coupons.ts
+ * @description 쿠폰 할인 계산 규칙
+ *
+ * 주문 페이지 미리보기와 주문 생성(서버)이 같은 할인 금액을 사용하도록
+ * 쿠폰 적용 규칙을 한 곳에서 관리합니다.
+ *
+ * 주요 기능:
+ * 1. 쿠폰 코드 정규화 (공백 제거, 대문자 변환)
+ * 2. 사용 기간 / 최소 주문 금액 / 적용 카테고리 확인
+ * 3. 정액 / 정률 할인 금액 계산 (정률 할인 최대 금액 적용)
+ *
+ * 1인당 사용 횟수는 주문 내역이 필요하므로 Server Action과 place_order 함수에서 확인합니다.
+ * 주문에 저장되는 할인 금액은 place_order 함수가 같은 규칙으로 다시 계산합니다.
+ *
+ * @dependencies
+ * - types/coupon.ts: Coupon 타입
+ */
+
+import type { Coupon } from "@/types/coupon";
+
+/**
+ * 할인 계산에 필요한 주문 항목 정보
+ */
+export interface CouponLineItem {
+  price: number; // 단가
+  quantity: number; // 수량
+  category: string | null; // 상품 카테고리 (적용 카테고리 확인용)
+}
+
+/**
+ * 쿠폰 코드를 정규화합니다. (공백 제거, 대문자 변환)
+ */
+export function normalizeCouponCode(code: string): string {
+  return code.replace(/\s+/g, "").toUpperCase();
+}
+
+/**
+ * 가격을 천단위 콤마로 포맷팅
+ */
+function formatPrice(price: number): string {
+  return new Intl.NumberFormat("ko-KR").format(price);
+}
+
+/**
+ * 주문 항목에 쿠폰을 적용했을 때의 할인 금액을 계산합니다.
+ *
+ * 계산 규칙:
+ * 1. 적용 카테고리가 있으면 해당 카테고리 상품 금액만 할인 대상입니다.
+ * 2. 최소 주문 금액은 할인 대상 상품 금액 기준으로 확인합니다.
+ * 3. 정률 할인은 원 단위 미만을 버리고, 최대 할인 금액을 넘지 않습니다.
+ * 4. 할인 금액은 할인 대상 상품 금액을 넘지 않습니다. (배송비는 할인하지 않음)
+ *
+ * @param coupon - 쿠폰
+ * @param items - 주문 항목 (단가, 수량, 카테고리)
+ * @param now - 기준 시각 (기본값: 현재 시각)
+ * @returns 할인 금액
+ * @throws 사용할 수 없는 쿠폰인 경우 에러 (사유 메시지 포함)
+ */
+export function calculateCouponDiscount(
+  coupon: Coupon,
+  items: CouponLineItem[],
+  now: Date = new Date()
+): number {
+  // 1. 사용 가능 여부 확인
+  if (!coupon.is_active) {
+    throw new Error("사용할 수 없는 쿠폰입니다.");
+  }
+
+  if (coupon.starts_at && new Date(coupon.starts_at) > now) {
+    throw new Error("아직 사용할 수 없는 쿠폰입니다.");
+  }
+
+  if (coupon.expires_at && new Date(coupon.expires_at) <= now) {
+    throw new Error("만료된 쿠폰입니다.");
+  }
+
+  // 2. 할인 대상 상품 금액 계산
+  const categories = coupon.categories && coupon.categories.length > 0
+    ? coupon.categories
+    : null;
+  const eligibleSubtotal = items
+    .filter((item) => !categories || (item.category !== null && categories.includes(item.category)))
+    .reduce((sum, item) => sum + item.price * item.quantity, 0);
+
+  if (eligibleSubtotal === 0) {
+    throw new Error("쿠폰을 적용할 수 있는 상품이 없습니다.");
+  }
+
+  // 3. 최소 주문 금액 확인
+  const minOrderAmount = Number(coupon.min_order_amount);
+  if (eligibleSubtotal < minOrderAmount) {
+    throw new Error(
+      `${formatPrice(minOrderAmount)}원 이상 주문 시 사용할 수 있는 쿠폰입니다.`
+    );
+  }
+
+  // 4. 할인 금액 계산
+  const discountValue = Number(coupon.discount_value);
+  let discount =
+    coupon.discount_type === "percentage"
+      ? Math.floor((eligibleSubtotal * discountValue) / 100)
+      : discountValue;
+
+  if (coupon.discount_type === "percentage" && coupon.max_discount_amount !== null) {
+    discount = Math.min(discount, Number(coupon.max_discount_amount));
+  }
+
+  return Math.min(discount, eligibleSubtotal);
+}
+
+/**
+ * 쿠폰 혜택 안내 문구를 만듭니다.
+ *
+ * @param coupon - 쿠폰
+ * @returns 혜택 안내 문구 (예: "10% 할인 (최대 5,000원)")
+ */
+export function describeCouponBenefit(
+  coupon: Pick<Coupon, "discount_type" | "discount_value" | "max_discount_amount">
+): string {
+  const discountValue = Number(coupon.discount_value);
+
+  if (coupon.discount_type === "fixed") {
+    return `${formatPrice(discountValue)}원 할인`;
+  }
+
+  return coupon.max_discount_amount !== null
+    ? `${discountValue}% 할인 (최대 ${formatPrice(Number(coupon.max_discount_amount))}원)`
+    : `${discountValue}% 할인`;
+}
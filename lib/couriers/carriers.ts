@@ -0,0 +1,113 @@
+/**
+ * @file lib/couriers/carriers.ts
+ * @description 택배사 정보 및 송장 번호 규칙
+ *
+ * 택배사 이름, 송장 번호 형식, 택배사 배송 조회 페이지 URL을 정의합니다.
+ * 서버(송장 등록 검증)와 클라이언트(택배사 선택 폼, 배송 조회 링크)에서 함께 사용합니다.
+ */
+
+import type { CourierCode } from "@/types/shipment";
+
+/**
+ * 택배사 정보
+ */
+interface CourierInfo {
+  name: string; // 택배사 이름
+  trackingNumberPattern: RegExp; // 송장 번호 형식 (숫자만)
+  trackingUrl: (trackingNumber: string) => string; // 택배사 배송 조회 페이지 URL
+}
+
+/**
+ * 택배사별 정보
+ */
+const COURIERS: Record<CourierCode, CourierInfo> = {
+  cj: {
+    name: "CJ대한통운",
+    trackingNumberPattern: /^\d{10,12}$/,
+    trackingUrl: (trackingNumber) =>
+      `https://trace.cjlogistics.com/next/tracking.html?wblNo=${trackingNumber}`,
+  },
+  hanjin: {
+    name: "한진택배",
+    trackingNumberPattern: /^\d{10,12}$/,
+    trackingUrl: (trackingNumber) =>
+      `https://www.hanjin.com/kor/CMS/DeliveryMgr/WaybillResult.do?mCode=MN038&schLang=KR&wblnumText2=${trackingNumber}`,
+  },
+  lotte: {
+    name: "롯데택배",
+    trackingNumberPattern: /^\d{12}$/,
+    trackingUrl: (trackingNumber) =>
+      `https://www.lotteglogis.com/home/reservation/tracking/linkView?InvNo=${trackingNumber}`,
+  },
+  epost: {
+    name: "우체국택배",
+    trackingNumberPattern: /^\d{13}$/,
+    trackingUrl: (trackingNumber) =>
+      `https://service.epost.go.kr/trace.RetrieveDomRigiTraceList.comm?sid1=${trackingNumber}`,
+  },
+};
+
+/**
+ * 택배사 선택 옵션 (관리자 송장 등록 폼용)
+ */
+export const COURIER_OPTIONS = (Object.keys(COURIERS) as CourierCode[]).map(
+  (code) => ({ value: code, label: COURIERS[code].name })
+);
+
+/**
+ * 지원하는 택배사 코드인지 확인합니다.
+ *
+ * @param value - 확인할 값
+ * @returns 택배사 코드 여부
+ */
+export function isCourierCode(value: string): value is CourierCode {
+  return Object.prototype.hasOwnProperty.call(COURIERS, value);
+}
+
+/**
+ * 택배사 이름을 가져옵니다.
+ *
+ * @param carrier - 택배사 코드
+ * @returns 택배사 이름
+ */
+export function getCourierName(carrier: CourierCode): string {
+  return COURIERS[carrier]?.name ?? carrier;
+}
+
+/**
+ * 송장 번호에서 숫자 이외의 문자(하이픈, 공백)를 제거합니다.
+ *
+ * @param trackingNumber - 입력한 송장 번호
+ * @returns 숫자만 남긴 송장 번호
+ */
+export function normalizeTrackingNumber(trackingNumber: string): string {
+  return trackingNumber.replace(/\D/g, "");
+}
+
+/**
+ * 택배사의 송장 번호 형식에 맞는지 확인합니다.
+ *
+ * @param carrier - 택배사 코드
+ * @param trackingNumber - 송장 번호 (normalizeTrackingNumber 적용 후)
+ * @returns 형식 일치 여부
+ */
+export function isValidTrackingNumber(
+  carrier: CourierCode,
+  trackingNumber: string
+): boolean {
+  return COURIERS[carrier].trackingNumberPattern.test(trackingNumber);
+}
+
+/**
+ * 택배사 배송 조회 페이지 URL을 가져옵니다.
+ *
+ * @param carrier - 택배사 코드
+ * @param trackingNumber - 송장 번호
+ * @returns 배송 조회 페이지 URL
+ */
+export function getCourierTrackingUrl(
+  carrier: CourierCode,
+  trackingNumber: string
+): string {
+  return COURIERS[carrier].trackingUrl(encodeURIComponent(trackingNumber));
+}
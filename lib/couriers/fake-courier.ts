@@ -0,0 +1,98 @@
+/**
+ * @file lib/couriers/fake-courier.ts
+ * @description 로컬 가짜 택배사 조회 어댑터
+ *
+ * 외부 API를 호출하지 않고 배송 조회 결과를 흉내 내는 CourierAdapter 구현입니다.
+ * 택배사 조회 API 키가 없는 로컬 개발 환경과 테스트에서 사용합니다.
+ *
+ * 동작 규칙:
+ * 1. 배송 시작 일시(shippedAt)부터 경과한 시간만큼 배송 단계가 진행됩니다.
+ *    (집화 → 간선상차 → 간선하차 → 배송출발 → 배송완료, 약 30시간)
+ * 2. 처리 장소는 송장 번호로 결정되므로 같은 송장 번호는 항상 같은 결과를 돌려줍니다.
+ * 3. 송장 번호가 FAKE_NOT_FOUND_SUFFIX로 끝나면 미등록 송장 조회를 흉내 냅니다.
+ */
+
+import { getCourierName } from "@/lib/couriers/carriers";
+import type {
+  CourierAdapter,
+  TrackingEvent,
+  TrackingEventStatus,
+  TrackShipmentRequest,
+} from "@/types/shipment";
+
+/**
+ * 미등록 송장으로 처리할 송장 번호 끝자리
+ */
+export const FAKE_NOT_FOUND_SUFFIX = "0000";
+
+/**
+ * 가짜 배송 단계 (배송 시작 후 경과 시간 기준)
+ */
+const FAKE_TRACKING_STEPS: {
+  status: TrackingEventStatus;
+  description: string;
+  hoursAfterShipped: number;
+  location: "origin" | "hub" | "destination";
+}[] = [
+  { status: "picked_up", description: "집화처리", hoursAfterShipped: 0, location: "origin" },
+  { status: "in_transit", description: "간선상차", hoursAfterShipped: 6, location: "origin" },
+  { status: "in_transit", description: "간선하차", hoursAfterShipped: 14, location: "hub" },
+  { status: "out_for_delivery", description: "배송출발", hoursAfterShipped: 22, location: "destination" },
+  { status: "delivered", description: "배송완료", hoursAfterShipped: 30, location: "destination" },
+];
+
+const ORIGIN_TERMINALS = ["군포", "이천", "용인", "대전"];
+const HUB_TERMINALS = ["곤지암 Hub", "대전 Hub", "옥천 Hub"];
+const DESTINATION_BRANCHES = ["서울강남", "서울마포", "부산해운대", "대구수성", "광주서구"];
+
+/**
+ * 송장 번호로 목록에서 항목 하나를 고릅니다 (같은 송장 번호는 항상 같은 항목).
+ */
+function pickByTrackingNumber(list: string[], trackingNumber: string, salt: number): string {
+  const seed = trackingNumber
+    .split("")
+    .reduce((sum, digit, index) => sum + Number(digit) * (index + salt), 0);
+  return list[seed % list.length];
+}
+
+/**
+ * 로컬 가짜 택배사 조회 어댑터를 생성합니다.
+ *
+ * @param now - 현재 시각 (테스트에서 고정할 때 사용)
+ * @returns CourierAdapter
+ */
+export function createFakeCourierAdapter(
+  now: () => Date = () => new Date()
+): CourierAdapter {
+  return {
+    name: "fake",
+
+    async trackShipment(request: TrackShipmentRequest): Promise<TrackingEvent[]> {
+      if (request.trackingNumber.endsWith(FAKE_NOT_FOUND_SUFFIX)) {
+        throw new Error(
+          `${getCourierName(request.carrier)}에 등록되지 않은 송장 번호입니다. (FAKE_NOT_FOUND)`
+        );
+      }
+
+      const currentTime = now().getTime();
+      const shippedTime = request.shippedAt
+        ? new Date(request.shippedAt).getTime()
+        : currentTime;
+
+      const locations = {
+        origin: `${pickByTrackingNumber(ORIGIN_TERMINALS, request.trackingNumber, 1)} 터미널`,
+        hub: pickByTrackingNumber(HUB_TERMINALS, request.trackingNumber, 2),
+        destination: `${pickByTrackingNumber(DESTINATION_BRANCHES, request.trackingNumber, 3)} 대리점`,
+      };
+
+      return FAKE_TRACKING_STEPS.map((step) => ({
+        status: step.status,
+        description: step.description,
+        location: locations[step.location],
+        occurredAt: new Date(
+          shippedTime + step.hoursAfterShipped * 60 * 60 * 1000
+        ).toISOString(),
+      })).filter((event) => new Date(event.occurredAt).getTime() <= currentTime);
+    },
+  };
+}
@@ -0,0 +1,37 @@
+/**
+ * @file lib/couriers/index.ts
+ * @description 택배사 조회 어댑터 선택
+ *
+ * 환경 변수에 따라 사용할 택배사 조회 어댑터를 결정합니다.
+ *
+ * 선택 규칙:
+ * 1. COURIER_ADAPTER가 "fake"이거나 지정하지 않은 경우 로컬 가짜 어댑터 사용
+ * 2. 실제 택배사 조회 API 어댑터를 추가하면 CourierAdapterName과 이 파일에 등록합니다.
+ *
+ * @dependencies
+ * - lib/couriers/fake-courier.ts: 로컬 가짜 어댑터 구현
+ */
+
+import { createFakeCourierAdapter } from "@/lib/couriers/fake-courier";
+import type { CourierAdapter } from "@/types/shipment";
+
+/**
+ * 서버에서 사용할 택배사 조회 어댑터를 가져옵니다.
+ *
+ * @returns CourierAdapter
+ */
+export function getCourierAdapter(): CourierAdapter {
+  const configured = process.env.COURIER_ADAPTER;
+
+  if (configured && configured !== "fake") {
+    console.warn(
+      `⚠️ 지원하지 않는 택배사 조회 어댑터입니다: ${configured} (가짜 어댑터 사용)`
+    );
+  }
+
+  if (process.env.NODE_ENV === "production") {
+    console.warn("⚠️ 프로덕션 환경에서 가짜 택배사 조회 어댑터를 사용하고 있습니다.");
+  }
+
+  return createFakeCourierAdapter();
+}
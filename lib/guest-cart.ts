@@ -0,0 +1,115 @@
+/**
+ * @file lib/guest-cart.ts
+ * @description 비회원 장바구니 쿠키 저장소
+ *
+ * 로그인하지 않은 사용자의 장바구니를 쿠키에 저장합니다.
+ * 서버에서 읽을 수 있도록 쿠키를 사용하므로 Navbar 장바구니 개수와 /cart 페이지를
+ * 로그인 사용자와 같은 Server Action으로 렌더링할 수 있습니다.
+ *
+ * 주요 기능:
+ * 1. 비회원 장바구니 읽기 (형식이 잘못된 항목은 무시)
+ * 2. 비회원 장바구니 저장 (최대 항목 수 제한)
+ * 3. 비회원 장바구니 삭제 (로그인 후 병합 완료 시)
+ *
+ * Server Action / Route Handler에서만 사용합니다. (쿠키 쓰기는 Server Component에서 불가)
+ *
+ * @dependencies
+ * - next/headers: cookies
+ * - types/cart.ts: GuestCartItem 타입
+ */
+
+import { cookies } from "next/headers";
+import type { GuestCartItem } from "@/types/cart";
+
+/**
+ * 비회원 장바구니 쿠키 이름
+ */
+const GUEST_CART_COOKIE = "guest_cart";
+
+/**
+ * 비회원 장바구니 보관 기간 (30일)
+ */
+const GUEST_CART_MAX_AGE = 60 * 60 * 24 * 30;
+
+/**
+ * 비회원 장바구니 최대 항목 수 (쿠키 크기 4KB 제한)
+ */
+export const GUEST_CART_MAX_ITEMS = 20;
+
+/**
+ * 쿠키 값이 비회원 장바구니 항목 형식인지 확인합니다.
+ */
+function isGuestCartItem(value: unknown): value is GuestCartItem {
+  if (!value || typeof value !== "object") {
+    return false;
+  }
+
+  const item = value as Record<string, unknown>;
+  return (
+    typeof item.id === "string" &&
+    typeof item.productId === "string" &&
+    (item.variantId === null || typeof item.variantId === "string") &&
+    typeof item.quantity === "number" &&
+    Number.isInteger(item.quantity) &&
+    item.quantity > 0 &&
+    (item.options === null || typeof item.options === "object") &&
+    typeof item.addedAt === "string"
+  );
+}
+
+/**
+ * 비회원 장바구니를 읽습니다.
+ *
+ * @returns 비회원 장바구니 항목 목록 (쿠키가 없거나 형식이 잘못되면 빈 배열)
+ */
+export async function readGuestCart(): Promise<GuestCartItem[]> {
+  const cookieStore = await cookies();
+  const value = cookieStore.get(GUEST_CART_COOKIE)?.value;
+
+  if (!value) {
+    return [];
+  }
+
+  try {
+    const parsed = JSON.parse(value);
+    return Array.isArray(parsed) ? parsed.filter(isGuestCartItem) : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * 비회원 장바구니를 저장합니다. 항목이 없으면 쿠키를 삭제합니다.
+ *
+ * @param items - 저장할 비회원 장바구니 항목 목록
+ * @throws 최대 항목 수를 넘는 경우 에러
+ */
+export async function writeGuestCart(items: GuestCartItem[]): Promise<void> {
+  if (items.length > GUEST_CART_MAX_ITEMS) {
+    throw new Error(
+      `로그인하지 않은 상태에서는 장바구니에 최대 ${GUEST_CART_MAX_ITEMS}개 상품까지 담을 수 있습니다.`
+    );
+  }
+
+  if (items.length === 0) {
+    await clearGuestCart();
+    return;
+  }
+
+  const cookieStore = await cookies();
+  cookieStore.set(GUEST_CART_COOKIE, JSON.stringify(items), {
+    httpOnly: true,
+    sameSite: "lax",
+    secure: process.env.NODE_ENV === "production",
+    path: "/",
+    maxAge: GUEST_CART_MAX_AGE,
+  });
+}
+
+/**
+ * 비회원 장바구니를 삭제합니다.
+ */
+export async function clearGuestCart(): Promise<void> {
+  const cookieStore = await cookies();
+  cookieStore.delete(GUEST_CART_COOKIE);
+}
@@ -0,0 +1,100 @@
+/**
+ * @file lib/home-sections.ts
+ * @description 홈 상품 섹션 구성 규칙
+ *
+ * 관리자 섹션 관리 화면과 홈 페이지가 같은 기준을 사용하도록 데이터 소스 레이블,
+ * 상품 수 범위, 기본 섹션 구성을 관리합니다.
+ *
+ * @dependencies
+ * - types/home-section.ts: HomeSection 타입
+ */
+
+import type { HomeSection, HomeSectionSource, PopularWindowDays } from "@/types/home-section";
+
+/**
+ * 홈 렌더링에 필요한 섹션 구성 (기본 섹션은 DB 행이 아니므로 필요한 필드만 사용)
+ */
+export type HomeSectionConfig = Pick<
+  HomeSection,
+  | "id"
+  | "title"
+  | "source_type"
+  | "category"
+  | "product_ids"
+  | "campaign_id"
+  | "popular_days"
+  | "item_count"
+>;
+
+/**
+ * 섹션 하나에 표시할 수 있는 최대 상품 수
+ */
+export const MAX_SECTION_ITEM_COUNT = 24;
+
+/**
+ * 데이터 소스별 레이블
+ */
+export const HOME_SECTION_SOURCE_LABELS: Record<HomeSectionSource, string> = {
+  promotional: "기획 상품 (특가)",
+  latest: "최신 상품",
+  popular: "인기상품 (판매량 + 조회수)",
+  collaboration: "디자인 콜라보",
+  category: "카테고리",
+  products: "직접 선택",
+  campaign: "캠페인",
+};
+
+/**
+ * 인기상품 집계 기간 레이블
+ */
+export const POPULAR_WINDOW_LABELS: Record<PopularWindowDays, string> = {
+  7: "최근 7일",
+  30: "최근 30일",
+};
+
+/**
+ * 기본 섹션 구성
+ * 섹션 구성을 불러오지 못한 경우(마이그레이션 적용 전 등) 홈에 표시합니다.
+ */
+export const DEFAULT_HOME_SECTIONS: HomeSectionConfig[] = [
+  {
+    id: "promotional",
+    title: "Promotion",
+    source_type: "promotional",
+    category: null,
+    product_ids: [],
+    campaign_id: null,
+    popular_days: 30,
+    item_count: 8,
+  },
+  {
+    id: "latest",
+    title: "New Arrivals",
+    source_type: "latest",
+    category: null,
+    product_ids: [],
+    campaign_id: null,
+    popular_days: 30,
+    item_count: 12,
+  },
+  {
+    id: "popular",
+    title: "Best Sellers",
+    source_type: "popular",
+    category: null,
+    product_ids: [],
+    campaign_id: null,
+    popular_days: 30,
+    item_count: 8,
+  },
+  {
+    id: "collaboration",
+    title: "Collaboration",
+    source_type: "collaboration",
+    category: null,
+    product_ids: [],
+    campaign_id: null,
+    popular_days: 30,
+    item_count: 6,
+  },
+];
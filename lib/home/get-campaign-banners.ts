@@ -0,0 +1,55 @@
+/**
+ * @file lib/home/get-campaign-banners.ts
+ * @description 진행 중인 캠페인 배너 조회 함수
+ *
+ * 캠페인 기간(starts_at ~ ends_at) 안이고 배너 이미지가 있는 캠페인을 조회합니다.
+ * 예정된 캠페인은 시작 시각에 노출되고, 종료된 캠페인은 자동으로 빠집니다.
+ */
+
+import { createClerkSupabaseClient } from "@/lib/supabase/server";
+import { MAX_HOME_BANNERS } from "@/lib/banners";
+import type { Campaign } from "@/types/campaign";
+import { handleSupabaseError } from "./utils";
+import { logger } from "./logger";
+
+/**
+ * 진행 중인 캠페인 배너 조회 함수
+ * 배너 이미지가 있는 진행 중인 캠페인을 종료 임박순으로 조회
+ *
+ * @returns 캠페인 배열 (최대 3개, 홈 배너 그리드 칸 수)
+ */
+export async function getCampaignBanners(): Promise<Campaign[]> {
+  logger.debug("캠페인 배너 조회 시작");
+
+  try {
+    const supabase = createClerkSupabaseClient();
+    const now = new Date().toISOString();
+
+    const { data, error } = await supabase
+      .from("campaigns")
+      .select("*")
+      .not("banner_image_url", "is", null)
+      .lte("starts_at", now)
+      .gte("ends_at", now)
+      .order("ends_at", { ascending: true })
+      .limit(MAX_HOME_BANNERS);
+
+    if (error) {
+      handleSupabaseError(error, {
+        operation: "getCampaignBanners",
+        tableName: "campaigns",
+      });
+      return [];
+    }
+
+    const campaigns = (data as Campaign[]) || [];
+    logger.info(`캠페인 배너 조회 완료: ${campaigns.length}개`);
+    return campaigns;
+  } catch (error) {
+    logger.error("캠페인 배너 조회 중 예외 발생", {
+      error: error instanceof Error ? error.message : String(error),
+      stack: error instanceof Error ? error.stack : undefined,
+    });
+    return [];
+  }
+}
@@ -0,0 +1,80 @@
+/**
+ * @file lib/home/get-campaign-products.ts
+ * @description 캠페인 상품 조회 함수
+ *
+ * 진행 중인 캠페인이 적용된 활성 상품을 조회합니다.
+ * 예정되었거나 종료된 캠페인의 상품은 정가로 판매되므로 조회하지 않습니다.
+ */
+
+import { createClerkSupabaseClient } from "@/lib/supabase/server";
+import { getCampaignState } from "@/lib/campaigns";
+import type { Campaign } from "@/types/campaign";
+import { Product } from "@/types/product";
+import type { ProductsResult } from "./types";
+import { handleSupabaseError } from "./utils";
+import { logger } from "./logger";
+
+/**
+ * 캠페인 상품 조회 함수
+ * 캠페인이 진행 중이면 적용 상품을 최신순으로 조회
+ *
+ * @param campaignId - 캠페인 ID
+ * @param limit - 최대 조회 개수
+ * @returns 캠페인 상품 배열 (진행 중이 아니면 빈 배열)
+ */
+export async function getCampaignProducts(
+  campaignId: string,
+  limit: number
+): Promise<ProductsResult> {
+  logger.debug("캠페인 상품 조회 시작", { campaignId });
+
+  try {
+    const supabase = createClerkSupabaseClient();
+
+    // 캠페인 진행 여부 확인
+    const { data: campaign, error: campaignError } = await supabase
+      .from("campaigns")
+      .select("starts_at, ends_at")
+      .eq("id", campaignId)
+      .maybeSingle();
+
+    if (campaignError) {
+      handleSupabaseError(campaignError, {
+        operation: "getCampaignProducts",
+        tableName: "campaigns",
+      });
+      return [];
+    }
+
+    if (!campaign || getCampaignState(campaign as Pick<Campaign, "starts_at" | "ends_at">) !== "running") {
+      logger.debug("진행 중인 캠페인이 아닙니다", { campaignId });
+      return [];
+    }
+
+    const { data, error } = await supabase
+      .from("products")
+      .select("*")
+      .eq("is_active", true)
+      .eq("campaign_id", campaignId)
+      .order("created_at", { ascending: false })
+      .limit(limit);
+
+    if (error) {
+      handleSupabaseError(error, {
+        operation: "getCampaignProducts",
+        tableName: "products",
+      });
+      return [];
+    }
+
+    const products = (data as Product[]) || [];
+    logger.info(`캠페인 상품 조회 완료: ${products.length}개`, { campaignId });
+    return products;
+  } catch (error) {
+    logger.error("캠페인 상품 조회 중 예외 발생", {
+      error: error instanceof Error ? error.message : String(error),
+      stack: error instanceof Error ? error.stack : undefined,
+    });
+    return [];
+  }
+}
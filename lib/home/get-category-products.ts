@@ -0,0 +1,54 @@
+/**
+ * @file lib/home/get-category-products.ts
+ * @description 카테고리 상품 조회 함수
+ *
+ * 특정 카테고리의 활성 상품을 최신순으로 조회합니다.
+ */
+
+import { createClerkSupabaseClient } from "@/lib/supabase/server";
+import { Product } from "@/types/product";
+import type { ProductsResult } from "./types";
+import { handleSupabaseError } from "./utils";
+import { logger } from "./logger";
+
+/**
+ * 카테고리 상품 조회 함수
+ * 해당 카테고리의 활성 상품을 최신순으로 조회
+ *
+ * @param category - 카테고리 코드
+ * @param limit - 최대 조회 개수
+ * @returns 카테고리 상품 배열
+ */
+export async function getCategoryProducts(category: string, limit: number): Promise<ProductsResult> {
+  logger.debug("카테고리 상품 조회 시작", { category });
+
+  try {
+    const supabase = createClerkSupabaseClient();
+
+    const { data, error } = await supabase
+      .from("products")
+      .select("*")
+      .eq("is_active", true)
+      .eq("category", category)
+      .order("created_at", { ascending: false })
+      .limit(limit);
+
+    if (error) {
+      handleSupabaseError(error, {
+        operation: "getCategoryProducts",
+        tableName: "products",
+      });
+      return [];
+    }
+
+    const products = (data as Product[]) || [];
+    logger.info(`카테고리 상품 조회 완료: ${products.length}개`, { category });
+    return products;
+  } catch (error) {
+    logger.error("카테고리 상품 조회 중 예외 발생", {
+      error: error instanceof Error ? error.message : String(error),
+      stack: error instanceof Error ? error.stack : undefined,
+    });
+    return [];
+  }
+}
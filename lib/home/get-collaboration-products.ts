@@ -15,9 +15,10 @@ import { logger } from "./logger";
  * 디자인 콜라보 상품 조회 함수
  * 상품명 또는 설명에 콜라보 관련 키워드가 포함된 상품 조회
  *
- * @returns 콜라보 상품 배열 (최대 6개)
+ * @param limit - 최대 조회 개수
+ * @returns 콜라보 상품 배열 (기본 최대 6개)
  */
-export async function getCollaborationProducts(): Promise<ProductsResult> {
+export async function getCollaborationProducts(limit = 6): Promise<ProductsResult> {
   logger.debug("디자인 콜라보 상품 조회 시작");
 
   try {
@@ -42,7 +43,7 @@ export async function getCollaborationProducts(): Promise<ProductsResult> {
         "category.eq.collaboration,name.ilike.%콜라보%,name.ilike.%collaboration%,name.ilike.%디자인%,description.ilike.%콜라보%,description.ilike.%collaboration%,description.ilike.%디자인%"
       )
       .order("created_at", { ascending: false })
-      .limit(6);
+      .limit(limit);
 
     if (error) {
       handleSupabaseError(error, {
@@ -0,0 +1,91 @@
+/**
+ * @file lib/home/get-home-banners.ts
+ * @description 홈 배너 조회 함수
+ *
+ * 관리자 페이지에서 등록한 배너 중 노출 중인 배너를 노출 순서대로 조회합니다.
+ * 노출 기간(starts_at ~ ends_at) 안의 배너만 조회하므로 예정된 배너는 시작 시각에 노출되고,
+ * 종료된 배너는 자동으로 빠집니다.
+ */
+
+import { createClerkSupabaseClient } from "@/lib/supabase/server";
+import { MAX_HOME_BANNERS } from "@/lib/banners";
+import type { Banner } from "@/types/banner";
+import type { Product } from "@/types/product";
+import type { BannersResult } from "./types";
+import { handleSupabaseError } from "./utils";
+import { logger } from "./logger";
+
+/**
+ * 홈 배너 조회 함수
+ * 노출 중인 배너를 노출 순서대로 조회하고 연결 상품(판매 중인 상품만)을 함께 반환
+ * (기간이 NULL이면 제한 없음)
+ *
+ * @returns 배너 배열 (최대 3개, 홈 배너 그리드 칸 수)
+ */
+export async function getHomeBanners(): Promise<BannersResult> {
+  logger.debug("홈 배너 조회 시작");
+
+  try {
+    const supabase = createClerkSupabaseClient();
+    const now = new Date().toISOString();
+
+    const { data, error } = await supabase
+      .from("banners")
+      .select("*")
+      .eq("is_active", true)
+      .or(`starts_at.is.null,starts_at.lte.${now}`)
+      .or(`ends_at.is.null,ends_at.gte.${now}`)
+      .order("sort_order", { ascending: true })
+      .limit(MAX_HOME_BANNERS);
+
+    if (error) {
+      handleSupabaseError(error, {
+        operation: "getHomeBanners",
+        tableName: "banners",
+      });
+      return [];
+    }
+
+    const banners = (data as Banner[]) || [];
+
+    // 연결 상품 조회 (판매 중인 상품만, 배너별 연결 순서 유지)
+    const productIds = Array.from(new Set(banners.flatMap((banner) => banner.product_ids)));
+    const productMap = new Map<string, Product>();
+
+    if (productIds.length > 0) {
+      const { data: products, error: productsError } = await supabase
+        .from("products")
+        .select("*")
+        .in("id", productIds)
+        .eq("is_active", true);
+
+      if (productsError) {
+        // 연결 상품 없이 배너만 표시
+        handleSupabaseError(productsError, {
+          operation: "getHomeBanners",
+          tableName: "products",
+        });
+      } else {
+        for (const product of (products as Product[]) || []) {
+          productMap.set(product.id, product);
+        }
+      }
+    }
+
+    const result = banners.map((banner) => ({
+      ...banner,
+      products: banner.product_ids
+        .map((id) => productMap.get(id))
+        .filter((product): product is Product => !!product),
+    }));
+
+    logger.info(`홈 배너 조회 완료: ${result.length}개`);
+    return result;
+  } catch (error) {
+    logger.error("홈 배너 조회 중 예외 발생", {
+      error: error instanceof Error ? error.message : String(error),
+      stack: error instanceof Error ? error.stack : undefined,
+    });
+    return [];
+  }
+}
@@ -0,0 +1,51 @@
+/**
+ * @file lib/home/get-home-sections.ts
+ * @description 홈 섹션 구성 조회 함수
+ *
+ * 관리자 페이지에서 설정한 홈 상품 섹션 중 표시할 섹션을 표시 순서대로 조회합니다.
+ * 섹션 구성을 불러오지 못하면(마이그레이션 적용 전 등) 기본 섹션 구성을 사용합니다.
+ */
+
+import { createClerkSupabaseClient } from "@/lib/supabase/server";
+import { DEFAULT_HOME_SECTIONS, type HomeSectionConfig } from "@/lib/home-sections";
+import { handleSupabaseError } from "./utils";
+import { logger } from "./logger";
+
+/**
+ * 홈 섹션 구성 조회 함수
+ * 표시하도록 설정한 섹션을 표시 순서대로 조회 (모두 숨기면 빈 배열)
+ *
+ * @returns 섹션 구성 배열
+ */
+export async function getHomeSections(): Promise<HomeSectionConfig[]> {
+  logger.debug("홈 섹션 구성 조회 시작");
+
+  try {
+    const supabase = createClerkSupabaseClient();
+
+    const { data, error } = await supabase
+      .from("home_sections")
+      .select("id, title, source_type, category, product_ids, campaign_id, popular_days, item_count")
+      .eq("is_visible", true)
+      .order("sort_order", { ascending: true });
+
+    if (error) {
+      handleSupabaseError(error, {
+        operation: "getHomeSections",
+        tableName: "home_sections",
+      });
+      logger.warn("기본 홈 섹션 구성을 사용합니다");
+      return DEFAULT_HOME_SECTIONS;
+    }
+
+    const sections = (data as HomeSectionConfig[]) || [];
+    logger.info(`홈 섹션 구성 조회 완료: ${sections.length}개`);
+    return sections;
+  } catch (error) {
+    logger.error("홈 섹션 구성 조회 중 예외 발생", {
+      error: error instanceof Error ? error.message : String(error),
+      stack: error instanceof Error ? error.stack : undefined,
+    });
+    return DEFAULT_HOME_SECTIONS;
+  }
+}
@@ -15,9 +15,10 @@ import { logger } from "./logger";
  * 최신 상품 조회 함수
  * 활성 상품만 최신순으로 조회 (최대 12개)
  *
- * @returns 최신 상품 배열
+ * @param limit - 최대 조회 개수
+ * @returns 최신 상품 배열 (기본 최대 12개)
  */
-export async function getLatestProducts(): Promise<ProductsResult> {
+export async function getLatestProducts(limit = 12): Promise<ProductsResult> {
   logger.debug("최신 상품 조회 시작");
 
   try {
@@ -39,7 +40,7 @@ export async function getLatestProducts(): Promise<ProductsResult> {
       .select("*")
       .eq("is_active", true)
       .order("created_at", { ascending: false })
-      .limit(12);
+      .limit(limit);
 
     if (error) {
       handleSupabaseError(error, {
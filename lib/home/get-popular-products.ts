@@ -2,83 +2,74 @@
  * @file lib/home/get-popular-products.ts
  * @description 인기상품 조회 함수
  *
- * order_items 테이블에서 판매수량을 집계하여 인기 상품을 조회합니다.
+ * get_popular_products 함수로 최근 판매수량(취소 / 반품 주문, 승인된 반품 수량 제외)과 조회수를 DB에서 집계하여
+ * 인기 상품을 조회합니다.
  */
 
 import { createClerkSupabaseClient } from "@/lib/supabase/server";
 import { Product } from "@/types/product";
+import type { PopularWindowDays } from "@/types/home-section";
 import type { ProductsResult } from "./types";
-import { checkTableExists, handleSupabaseError } from "./utils";
+import { handleSupabaseError } from "./utils";
 import { logger } from "./logger";
 
+/**
+ * get_popular_products 함수 결과 행
+ */
+interface PopularProductsRow {
+  product_id: string;
+  sold_quantity: number;
+  popularity_score: number;
+}
+
 /**
  * 인기상품 조회 함수
- * order_items 테이블에서 판매수량을 집계하여 인기 상품 조회
+ * 최근 판매수량 + 조회수 점수 순으로 인기 상품 조회
  *
- * @returns 인기 상품 배열 (판매량 높은 순으로 정렬, 최대 8개)
+ * @param limit - 최대 조회 개수
+ * @param days - 판매수량 집계 기간 (7일 / 30일)
+ * @returns 인기 상품 배열 (인기 점수 높은 순으로 정렬, 기본 최대 8개)
  */
-export async function getPopularProducts(): Promise<ProductsResult> {
-  logger.debug("인기상품 조회 시작");
+export async function getPopularProducts(
+  limit = 8,
+  days: PopularWindowDays = 30
+): Promise<ProductsResult> {
+  logger.debug("인기상품 조회 시작", { limit, days });
 
   try {
     const supabase = createClerkSupabaseClient();
 
-    // order_items 테이블 존재 여부 확인
-    const orderItemsTableExists = await checkTableExists(supabase, "order_items");
-    if (!orderItemsTableExists) {
-      logger.debug("order_items 테이블이 존재하지 않습니다 (주문 데이터 없음)");
-      return [];
-    }
-
-    logger.debug("order_items 테이블에서 판매 데이터 조회 중");
-
-    // order_items에서 판매수량 집계
-    const { data: orderItems, error: orderError } = await supabase
-      .from("order_items")
-      .select("product_id, quantity")
-      .limit(1000); // 성능을 위해 제한
+    // 1. 인기 순위 조회 (DB 집계)
+    const { data: rows, error: rankError } = await supabase.rpc("get_popular_products", {
+      p_days: days,
+      p_limit: limit,
+    });
 
-    if (orderError) {
-      handleSupabaseError(orderError, {
+    if (rankError) {
+      handleSupabaseError(rankError, {
         operation: "getPopularProducts",
-        tableName: "order_items",
+        tableName: "product_popularity",
       });
       return [];
     }
 
-    if (!orderItems || orderItems.length === 0) {
-      logger.debug("주문 데이터가 없습니다 (정상 - 아직 주문이 없음)");
+    const popularRows = (rows ?? []) as PopularProductsRow[];
+    if (popularRows.length === 0) {
+      logger.debug("판매 / 조회 데이터가 없으므로 빈 배열 반환");
       return [];
     }
 
-    logger.debug("판매수량 집계 중");
+    logger.debug(`인기 상품 ID ${popularRows.length}개 추출`);
 
-    // 판매수량 집계
-    const salesCount: Record<string, number> = {};
-    orderItems.forEach((item) => {
-      const productId = item.product_id;
-      salesCount[productId] = (salesCount[productId] || 0) + item.quantity;
-    });
-
-    // 판매수량이 있는 상품 ID 목록 (내림차순 정렬)
-    const popularProductIds = Object.entries(salesCount)
-      .sort(([, a], [, b]) => b - a)
-      .slice(0, 8)
-      .map(([productId]) => productId);
-
-    if (popularProductIds.length === 0) {
-      logger.debug("판매 데이터가 없으므로 빈 배열 반환");
-      return [];
-    }
-
-    logger.debug(`인기 상품 ID ${popularProductIds.length}개 추출`);
-
-    // products 테이블에서 상품 정보 조회
+    // 2. products 테이블에서 상품 정보 조회
     const { data: products, error: productsError } = await supabase
       .from("products")
       .select("*")
       .eq("is_active", true)
-      .in("id", popularProductIds);
+      .in(
+        "id",
+        popularRows.map((row) => row.product_id)
+      );
 
     if (productsError) {
       handleSupabaseError(productsError, {
@@ -88,10 +79,11 @@ export async function getPopularProducts(): Promise<ProductsResult> {
       return [];
     }
 
-    // 판매수량 순서대로 정렬
-    const sortedProducts = (products as Product[]).sort(
-      (a, b) => (salesCount[b.id] || 0) - (salesCount[a.id] || 0)
-    );
+    // 3. 인기 순위대로 정렬
+    const productMap = new Map(((products ?? []) as Product[]).map((product) => [product.id, product]));
+    const sortedProducts = popularRows
+      .map((row) => productMap.get(row.product_id))
+      .filter((product): product is Product => !!product);
 
     logger.info(`인기상품 조회 완료: ${sortedProducts.length}개`);
     return sortedProducts;
@@ -103,5 +95,3 @@ export async function getPopularProducts(): Promise<ProductsResult> {
     return [];
   }
 }
-
-
@@ -3,6 +3,9 @@
  * @description 기획 상품 조회 함수
  *
  * 프로모션/특가 상품을 조회합니다 (is_promotional = true).
+ * 프로모션 기간(promotion_start_date ~ promotion_end_date) 안의 상품만 조회하므로
+ * 예정된 프로모션은 시작 시각에 노출되고, 종료된 프로모션은 자동으로 빠집니다.
+ * 캠페인 적용 상품도 캠페인 기간이 프로모션 기간으로 반영되므로 같은 규칙으로 노출됩니다.
  */
 
 import { createClerkSupabaseClient } from "@/lib/supabase/server";
@@ -13,11 +16,13 @@ import { logger } from "./logger";
 
 /**
  * 기획 상품 조회 함수
- * is_promotional = true인 활성 상품을 최신순으로 조회
+ * is_promotional = true이고 프로모션 기간 안인 활성 상품을 최신순으로 조회
+ * (기간이 NULL이면 제한 없음, DB의 is_promotion_active 함수와 같은 규칙)
  *
- * @returns 기획 상품 배열 (최대 8개)
+ * @param limit - 최대 조회 개수
+ * @returns 기획 상품 배열 (기본 최대 8개)
  */
-export async function getPromotionalProducts(): Promise<ProductsResult> {
+export async function getPromotionalProducts(limit = 8): Promise<ProductsResult> {
   logger.debug("기획 상품 조회 시작");
 
   try {
@@ -34,13 +39,17 @@ export async function getPromotionalProducts(): Promise<ProductsResult> {
 
     logger.debug("products 테이블에서 기획 상품 조회 중");
 
+    const now = new Date().toISOString();
+
     const { data, error } = await supabase
       .from("products")
       .select("*")
       .eq("is_active", true)
       .eq("is_promotional", true)
+      .or(`promotion_start_date.is.null,promotion_start_date.lte.${now}`)
+      .or(`promotion_end_date.is.null,promotion_end_date.gte.${now}`)
       .order("created_at", { ascending: false })
-      .limit(8);
+      .limit(limit);
 
     if (error) {
       handleSupabaseError(error, {
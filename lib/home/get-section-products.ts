@@ -0,0 +1,46 @@
+/**
+ * @file lib/home/get-section-products.ts
+ * @description 홈 섹션 상품 조회 함수
+ *
+ * 섹션 구성의 데이터 소스에 맞는 조회 함수로 섹션 상품을 조회합니다.
+ */
+
+import type { HomeSectionConfig } from "@/lib/home-sections";
+import type { ProductsResult } from "./types";
+import { getPromotionalProducts } from "./get-promotional-products";
+import { getLatestProducts } from "./get-latest-products";
+import { getPopularProducts } from "./get-popular-products";
+import { getCollaborationProducts } from "./get-collaboration-products";
+import { getCategoryProducts } from "./get-category-products";
+import { getSelectedProducts } from "./get-selected-products";
+import { getCampaignProducts } from "./get-campaign-products";
+
+/**
+ * 홈 섹션 상품 조회 함수
+ * 데이터 소스별 조회 함수를 호출 (필수 값이 없으면 빈 배열)
+ *
+ * @param section - 섹션 구성
+ * @returns 섹션 상품 배열 (최대 item_count개)
+ */
+export async function getSectionProducts(section: HomeSectionConfig): Promise<ProductsResult> {
+  const limit = section.item_count;
+
+  switch (section.source_type) {
+    case "promotional":
+      return getPromotionalProducts(limit);
+    case "latest":
+      return getLatestProducts(limit);
+    case "popular":
+      return getPopularProducts(limit, section.popular_days);
+    case "collaboration":
+      return getCollaborationProducts(limit);
+    case "category":
+      return section.category ? getCategoryProducts(section.category, limit) : [];
+    case "products":
+      return getSelectedProducts(section.product_ids, limit);
+    case "campaign":
+      return section.campaign_id ? getCampaignProducts(section.campaign_id, limit) : [];
+    default:
+      return [];
+  }
+}
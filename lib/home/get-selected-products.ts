@@ -0,0 +1,65 @@
+/**
+ * @file lib/home/get-selected-products.ts
+ * @description 직접 선택한 상품 조회 함수
+ *
+ * 관리자가 직접 선택한 상품을 선택 순서대로 조회합니다. (판매 중이 아닌 상품은 제외)
+ */
+
+import { createClerkSupabaseClient } from "@/lib/supabase/server";
+import { Product } from "@/types/product";
+import type { ProductsResult } from "./types";
+import { handleSupabaseError } from "./utils";
+import { logger } from "./logger";
+
+/**
+ * 직접 선택한 상품 조회 함수
+ * 활성 상품만 선택 순서대로 조회
+ *
+ * @param productIds - 선택한 상품 ID 목록 (표시 순서)
+ * @param limit - 최대 조회 개수
+ * @returns 선택 상품 배열
+ */
+export async function getSelectedProducts(
+  productIds: string[],
+  limit: number
+): Promise<ProductsResult> {
+  logger.debug("선택 상품 조회 시작", { count: productIds.length });
+
+  if (productIds.length === 0) {
+    return [];
+  }
+
+  try {
+    const supabase = createClerkSupabaseClient();
+
+    const { data, error } = await supabase
+      .from("products")
+      .select("*")
+      .eq("is_active", true)
+      .in("id", productIds);
+
+    if (error) {
+      handleSupabaseError(error, {
+        operation: "getSelectedProducts",
+        tableName: "products",
+      });
+      return [];
+    }
+
+    // 선택 순서대로 정렬
+    const productMap = new Map(((data as Product[]) || []).map((product) => [product.id, product]));
+    const products = productIds
+      .map((id) => productMap.get(id))
+      .filter((product): product is Product => !!product)
+      .slice(0, limit);
+
+    logger.info(`선택 상품 조회 완료: ${products.length}개`);
+    return products;
+  } catch (error) {
+    logger.error("선택 상품 조회 중 예외 발생", {
+      error: error instanceof Error ? error.message : String(error),
+      stack: error instanceof Error ? error.stack : undefined,
+    });
+    return [];
+  }
+}
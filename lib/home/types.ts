@@ -5,6 +5,7 @@
 
 import { Product } from "@/types/product";
 import { CategoryInfo } from "@/lib/categories";
+import type { Banner } from "@/types/banner";
 
 /**
  * 데이터 조회 함수의 공통 반환 타입
@@ -17,6 +18,11 @@ export type ProductsResult = Product[];
  */
 export type CategoriesResult = CategoryInfo[];
 
+/**
+ * 홈 배너 조회 함수의 반환 타입 (연결 상품 포함)
+ */
+export type BannersResult = (Banner & { products: Product[] })[];
+
 /**
  * 로깅 레벨 타입
  */
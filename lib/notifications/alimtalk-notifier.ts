@@ -0,0 +1,69 @@
+/**
+ * @file lib/notifications/alimtalk-notifier.ts
+ * @description 카카오 알림톡 알림 수단 (스텁)
+ *
+ * 카카오 알림톡으로 알림을 보내는 Notifier 구현입니다.
+ * 발송 대행사(비즈메시지 API) 연동 전까지는 실제로 보내지 않고, 보낼 요청 내용을 검증한 뒤 서버 콘솔에 출력합니다.
+ *
+ * 알림톡 발송 조건:
+ * - 받는 사람 휴대폰 번호 (주문 알림은 배송지 연락처, 그 외에는 Clerk 휴대폰 번호)
+ * - 카카오에 등록한 템플릿 코드 (본문은 등록한 템플릿과 같아야 함)
+ * - 카카오톡 채널 발신 프로필 키 (ALIMTALK_SENDER_KEY)
+ *
+ * 대행사를 연동할 때는 send()에서 콘솔 출력 대신 대행사 API를 호출하도록 바꿉니다.
+ */
+
+import type { NotificationMessage, Notifier } from "@/types/notification";
+
+/**
+ * 알림톡 발송 요청 (대행사 API에 전달할 내용)
+ */
+export interface AlimtalkRequest {
+  senderKey: string; // 카카오톡 채널 발신 프로필 키
+  templateCode: string; // 템플릿 코드
+  to: string; // 받는 사람 휴대폰 번호 (숫자만)
+  text: string; // 본문 (템플릿에 변수를 채운 내용)
+}
+
+/**
+ * 휴대폰 번호에서 숫자만 남깁니다. (예: 010-1234-5678 → 01012345678, +82 10-... → 010...)
+ */
+function normalizePhoneNumber(phone: string): string {
+  const digits = phone.replace(/\D/g, "");
+  return digits.startsWith("82") ? `0${digits.slice(2)}` : digits;
+}
+
+/**
+ * 카카오 알림톡 알림 수단(스텁)을 생성합니다.
+ *
+ * @param senderKey - 카카오톡 채널 발신 프로필 키 (ALIMTALK_SENDER_KEY)
+ * @returns Notifier
+ */
+export function createAlimtalkNotifier(senderKey: string): Notifier {
+  return {
+    name: "alimtalk",
+
+    async send(message: NotificationMessage): Promise<void> {
+      if (!message.recipient.phone) {
+        throw new Error("받는 사람 휴대폰 번호가 없습니다.");
+      }
+
+      if (!message.templateCode) {
+        throw new Error("알림톡 템플릿 코드가 없습니다.");
+      }
+
+      const request: AlimtalkRequest = {
+        senderKey,
+        templateCode: message.templateCode,
+        to: normalizePhoneNumber(message.recipient.phone),
+        text: message.body,
+      };
+
+      console.group(`💬 [AlimtalkNotifier] ${message.subject} (스텁, 실제 발송 안 함)`);
+      console.log("템플릿 코드:", request.templateCode);
+      console.log("받는 사람:", request.to, `(${message.recipient.clerkId})`);
+      console.log(request.text);
+      console.groupEnd();
+    },
+  };
+}
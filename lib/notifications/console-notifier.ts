@@ -0,0 +1,35 @@
+/**
+ * @file lib/notifications/console-notifier.ts
+ * @description 콘솔 알림 수단
+ *
+ * 알림을 실제로 보내지 않고 서버 콘솔에 출력하는 Notifier 구현입니다.
+ * 알림 수단을 설정하지 않은 로컬 개발 환경에서 사용합니다.
+ */
+
+import type { NotificationMessage, Notifier } from "@/types/notification";
+
+/**
+ * 콘솔 알림 수단을 생성합니다.
+ *
+ * @returns Notifier
+ */
+export function createConsoleNotifier(): Notifier {
+  return {
+    name: "console",
+
+    async send(message: NotificationMessage): Promise<void> {
+      console.group(`🔔 [ConsoleNotifier] ${message.subject}`);
+      console.log("종류:", message.type);
+      console.log(
+        "받는 사람:",
+        message.recipient.email ?? "(이메일 없음)",
+        `(${message.recipient.clerkId})`
+      );
+      console.log(message.body);
+      if (message.url) {
+        console.log("링크:", message.url);
+      }
+      console.groupEnd();
+    },
+  };
+}
@@ -0,0 +1,44 @@
+/**
+ * @file lib/notifications/file-notifier.ts
+ * @description 파일 알림 수단
+ *
+ * 알림을 실제로 보내지 않고 파일에 한 줄씩 JSON으로 기록하는 Notifier 구현입니다.
+ * 로컬 개발 환경과 테스트에서 발송된 알림을 확인할 때 사용합니다.
+ *
+ * 기록 형식 (한 줄에 알림 1건):
+ * {"sentAt":"2026-10-19T09:00:00.000Z","type":"restock","recipient":{...},"subject":"...","body":"...","url":"..."}
+ */
+
+import { appendFile, mkdir } from "fs/promises";
+import path from "path";
+import type { NotificationMessage, Notifier } from "@/types/notification";
+
+/**
+ * 기본 기록 파일 경로 (프로젝트 루트 기준)
+ */
+export const DEFAULT_NOTIFICATION_LOG_PATH = ".notifications/notifications.log";
+
+/**
+ * 파일 알림 수단을 생성합니다.
+ *
+ * @param filePath - 기록 파일 경로 (상대 경로는 프로젝트 루트 기준)
+ * @returns Notifier
+ */
+export function createFileNotifier(
+  filePath: string = DEFAULT_NOTIFICATION_LOG_PATH
+): Notifier {
+  const resolvedPath = path.resolve(process.cwd(), filePath);
+
+  return {
+    name: "file",
+
+    async send(message: NotificationMessage): Promise<void> {
+      await mkdir(path.dirname(resolvedPath), { recursive: true });
+      await appendFile(
+        resolvedPath,
+        JSON.stringify({ sentAt: new Date().toISOString(), ...message }) + "\n",
+        "utf8"
+      );
+    },
+  };
+}
@@ -0,0 +1,101 @@
+/**
+ * @file lib/notifications/index.ts
+ * @description 알림 수단 선택
+ *
+ * 환경 변수에 따라 사용할 알림 수단을 결정합니다.
+ *
+ * 선택 규칙:
+ * 1. NOTIFIER가 "smtp"이면 SMTP 이메일 알림 수단 사용 (SMTP_HOST, SMTP_FROM 필수)
+ * 2. NOTIFIER가 "alimtalk"이면 카카오 알림톡 알림 수단(스텁) 사용 (ALIMTALK_SENDER_KEY 필수)
+ * 3. NOTIFIER가 "memory"이면 메모리 알림 수단 사용 (테스트용, 서버 프로세스 하나에서 공유)
+ * 4. NOTIFIER가 "file"이면 파일 알림 수단 사용 (NOTIFIER_FILE_PATH, 기본 .notifications/notifications.log)
+ * 5. NOTIFIER가 "console"이거나 지정하지 않은 경우 콘솔 알림 수단 사용
+ * 6. 새 알림 수단을 추가하면 NotifierName과 이 파일에 등록합니다.
+ *
+ * @dependencies
+ * - lib/notifications/console-notifier.ts: 콘솔 알림 수단
+ * - lib/notifications/file-notifier.ts: 파일 알림 수단
+ * - lib/notifications/smtp-notifier.ts: SMTP 이메일 알림 수단
+ * - lib/notifications/alimtalk-notifier.ts: 카카오 알림톡 알림 수단 (스텁)
+ * - lib/notifications/memory-notifier.ts: 메모리 알림 수단
+ */
+
+import { createConsoleNotifier } from "@/lib/notifications/console-notifier";
+import { createFileNotifier } from "@/lib/notifications/file-notifier";
+import { createSmtpNotifier } from "@/lib/notifications/smtp-notifier";
+import { createAlimtalkNotifier } from "@/lib/notifications/alimtalk-notifier";
+import {
+  createMemoryNotifier,
+  type MemoryNotifier,
+} from "@/lib/notifications/memory-notifier";
+import type { Notifier } from "@/types/notification";
+
+let memoryNotifier: MemoryNotifier | null = null;
+
+/**
+ * 메모리 알림 수단을 가져옵니다 (NOTIFIER="memory"일 때 발송된 알림 확인용).
+ * 같은 서버 프로세스에서는 같은 인스턴스를 사용합니다.
+ *
+ * @returns MemoryNotifier
+ */
+export function getMemoryNotifier(): MemoryNotifier {
+  if (!memoryNotifier) {
+    memoryNotifier = createMemoryNotifier();
+  }
+  return memoryNotifier;
+}
+
+/**
+ * 서버에서 사용할 알림 수단을 가져옵니다.
+ *
+ * @returns Notifier
+ * @throws smtp / alimtalk로 설정되었지만 필수 환경 변수가 없는 경우 에러
+ */
+export function getNotifier(): Notifier {
+  const configured = process.env.NOTIFIER;
+
+  if (configured === "smtp") {
+    const host = process.env.SMTP_HOST;
+    const from = process.env.SMTP_FROM;
+    if (!host || !from) {
+      throw new Error("SMTP_HOST, SMTP_FROM 환경 변수가 설정되지 않았습니다.");
+    }
+    const secure = process.env.SMTP_SECURE === "true";
+    return createSmtpNotifier({
+      host,
+      port: Number(process.env.SMTP_PORT) || (secure ? 465 : 587),
+      secure,
+      user: process.env.SMTP_USER || null,
+      password: process.env.SMTP_PASSWORD || null,
+      allowInsecureAuth: process.env.SMTP_ALLOW_INSECURE_AUTH === "true",
+      from,
+      siteUrl: process.env.NEXT_PUBLIC_SITE_URL || "http://localhost:3000",
+    });
+  }
+
+  if (configured === "alimtalk") {
+    const senderKey = process.env.ALIMTALK_SENDER_KEY;
+    if (!senderKey) {
+      throw new Error("ALIMTALK_SENDER_KEY 환경 변수가 설정되지 않았습니다.");
+    }
+    return createAlimtalkNotifier(senderKey);
+  }
+
+  if (configured === "memory") {
+    return getMemoryNotifier();
+  }
+
+  if (configured === "file") {
+    return createFileNotifier(process.env.NOTIFIER_FILE_PATH || undefined);
+  }
+
+  if (configured && configured !== "console") {
+    console.warn(`⚠️ 지원하지 않는 알림 수단입니다: ${configured} (콘솔 알림 사용)`);
+  }
+
+  if (process.env.NODE_ENV === "production") {
+    console.warn("⚠️ 프로덕션 환경에서 콘솔 알림 수단을 사용하고 있습니다.");
+  }
+
+  return createConsoleNotifier();
+}
@@ -0,0 +1,51 @@
+/**
+ * @file lib/notifications/memory-notifier.ts
+ * @description 메모리 알림 수단
+ *
+ * 알림을 실제로 보내지 않고 서버 메모리에 보관하는 Notifier 구현입니다.
+ * 테스트에서 발송된 알림을 코드로 확인할 때 사용합니다. (서버를 재시작하면 사라짐)
+ *
+ * 사용 예:
+ * const notifier = createMemoryNotifier();
+ * await notifier.send(message);
+ * notifier.messages; // [{ sentAt, ...message }]
+ */
+
+import type { NotificationMessage, Notifier } from "@/types/notification";
+
+/**
+ * 메모리에 보관한 알림
+ */
+export interface StoredNotification extends NotificationMessage {
+  sentAt: string; // 발송 일시 (ISO 8601 timestamp)
+}
+
+/**
+ * 메모리 알림 수단 (보관한 알림 확인 / 비우기 포함)
+ */
+export interface MemoryNotifier extends Notifier {
+  messages: StoredNotification[]; // 보관한 알림 (보낸 순서)
+  clear(): void;
+}
+
+/**
+ * 메모리 알림 수단을 생성합니다.
+ *
+ * @returns MemoryNotifier
+ */
+export function createMemoryNotifier(): MemoryNotifier {
+  const messages: StoredNotification[] = [];
+
+  return {
+    name: "memory",
+    messages,
+
+    async send(message: NotificationMessage): Promise<void> {
+      messages.push({ sentAt: new Date().toISOString(), ...message });
+    },
+
+    clear() {
+      messages.length = 0;
+    },
+  };
+}
@@ -0,0 +1,157 @@
+/**
+ * @file lib/notifications/order.ts
+ * @description 주문 알림 발송
+ *
+ * 주문 접수, 결제 완료, 배송 시작, 배송 완료, 주문 취소 시 주문자에게 알림을 보냅니다.
+ * 주문 / 결제 / 관리자 주문 관리 Server Action에서 상태 변경이 끝난 뒤 호출하며, 서버에서만 사용합니다.
+ * Server Action에서는 scheduleOrderNotification으로 응답을 보낸 뒤 발송합니다.
+ * (SMTP 등 알림 수단의 응답 대기로 주문 / 결제 처리가 늦어지지 않도록)
+ *
+ * 주요 기능:
+ * 1. 주문, 주문 상품 조회 (관리자 / 주문자 세션과 무관하게 service role로 조회)
+ * 2. 받는 사람 조회 (이메일 / 이름은 Clerk, 휴대폰 번호는 배송지 연락처 우선)
+ * 3. 알림 종류별 템플릿으로 알림 발송
+ * 4. 응답 이후 발송 예약 (next/server after)
+ *
+ * 알림 발송 실패는 주문 처리 결과에 영향을 주지 않도록 에러를 던지지 않고 로그만 남깁니다.
+ *
+ * @dependencies
+ * - next/server: after (응답 이후 발송)
+ * - lib/supabase/service-role.ts: 주문 조회
+ * - lib/notifications/index.ts: 알림 수단
+ * - lib/notifications/recipients.ts: 받는 사람 조회 (Clerk)
+ * - lib/notifications/templates.ts: 주문 알림 문구
+ * - lib/couriers/carriers.ts: 택배사 이름, 배송 조회 URL
+ */
+
+import { after } from "next/server";
+import { getServiceRoleClient } from "@/lib/supabase/service-role";
+import { getNotifier } from "@/lib/notifications";
+import { getNotificationRecipients } from "@/lib/notifications/recipients";
+import {
+  renderOrderNotification,
+  summarizeOrderItems,
+} from "@/lib/notifications/templates";
+import {
+  getCourierName,
+  getCourierTrackingUrl,
+  isCourierCode,
+} from "@/lib/couriers/carriers";
+import type { OrderNotificationType } from "@/types/notification";
+import type { OrderStatus } from "@/types/order";
+
+/**
+ * 주문 상태별 알림 종류 (해당 상태로 바뀌면 알림 발송)
+ */
+export const ORDER_STATUS_NOTIFICATIONS: Partial<Record<OrderStatus, OrderNotificationType>> = {
+  pending: "order_placed",
+  confirmed: "payment_confirmed",
+  shipped: "order_shipped",
+  delivered: "order_delivered",
+  cancelled: "order_cancelled",
+};
+
+/**
+ * 주문 알림 추가 정보
+ */
+export interface OrderNotificationOptions {
+  reason?: string | null; // 취소 사유 (주문 취소)
+}
+
+/**
+ * 주문 알림을 발송합니다.
+ * 발송에 실패해도 에러를 던지지 않습니다.
+ *
+ * @param orderId - 주문 ID
+ * @param type - 주문 알림 종류
+ * @param options - 추가 정보 (취소 사유 등)
+ * @returns 발송 성공 여부
+ */
+export async function sendOrderNotification(
+  orderId: string,
+  type: OrderNotificationType,
+  options: OrderNotificationOptions = {}
+): Promise<boolean> {
+  console.group(`🔔 [sendOrderNotification] 주문 알림 발송 시작 (${type})`);
+  console.log("주문 ID:", orderId);
+
+  try {
+    // 1. 주문 및 주문 상품 조회
+    const { data: order, error } = await getServiceRoleClient()
+      .from("orders")
+      .select(
+        "id, clerk_id, total_amount, shipping_address, payment_id, carrier, tracking_number, created_at, order_items(product_name, created_at)"
+      )
+      .eq("id", orderId)
+      .maybeSingle();
+
+    if (error || !order) {
+      console.error("❌ 주문 조회 실패:", error);
+      console.groupEnd();
+      return false;
+    }
+
+    const productNames = [...(order.order_items ?? [])]
+      .sort((a: any, b: any) => a.created_at.localeCompare(b.created_at))
+      .map((item: any) => item.product_name as string);
+
+    // 2. 받는 사람 조회 (휴대폰 번호는 배송지 연락처 우선)
+    const recipients = await getNotificationRecipients([order.clerk_id]);
+    const recipient = recipients.get(order.clerk_id)!;
+    const shippingPhone = order.shipping_address?.phone ?? null;
+
+    // 3. 택배사 정보 (배송 시작)
+    const carrier =
+      order.carrier && isCourierCode(order.carrier) ? order.carrier : null;
+
+    // 4. 알림 발송
+    const notifier = getNotifier();
+    await notifier.send({
+      ...renderOrderNotification(type, {
+        orderId: order.id,
+        customerName: recipient.name,
+        itemSummary: summarizeOrderItems(productNames),
+        totalAmount: Number(order.total_amount),
+        orderedAt: order.created_at,
+        isPaid: !!order.payment_id,
+        carrierName: carrier ? getCourierName(carrier) : null,
+        trackingNumber: order.tracking_number,
+        trackingUrl:
+          carrier && order.tracking_number
+            ? getCourierTrackingUrl(carrier, order.tracking_number)
+            : null,
+        reason: options.reason ?? null,
+      }),
+      recipient: {
+        ...recipient,
+        phone: shippingPhone || recipient.phone,
+      },
+    });
+
+    console.log(`✅ 주문 알림 발송 완료 (${notifier.name})`);
+    console.groupEnd();
+    return true;
+  } catch (error) {
+    console.error("❌ 주문 알림 발송 실패:", error);
+    console.groupEnd();
+    return false;
+  }
+}
+
+/**
+ * 응답을 보낸 뒤 주문 알림을 발송하도록 예약합니다.
+ * Server Action / Route Handler 안에서만 호출할 수 있습니다.
+ *
+ * @param orderId - 주문 ID
+ * @param type - 주문 알림 종류
+ * @param options - 추가 정보 (취소 사유 등)
+ */
+export function scheduleOrderNotification(
+  orderId: string,
+  type: OrderNotificationType,
+  options: OrderNotificationOptions = {}
+): void {
+  after(async () => {
+    await sendOrderNotification(orderId, type, options);
+  });
+}
@@ -0,0 +1,59 @@
+/**
+ * @file lib/notifications/recipients.ts
+ * @description 알림 받는 사람 조회
+ *
+ * Clerk에서 사용자 이메일, 휴대폰 번호, 이름을 조회해 알림 받는 사람 정보를 만듭니다.
+ * (app/api/sync-user/route.ts와 같이 clerkClient 사용, 서버에서만 사용)
+ *
+ * @dependencies
+ * - @clerk/nextjs/server: clerkClient
+ */
+
+import { clerkClient } from "@clerk/nextjs/server";
+import type { NotificationRecipient } from "@/types/notification";
+
+/**
+ * Clerk에서 받는 사람 이메일 / 휴대폰 번호 / 이름을 조회합니다.
+ * 조회에 실패하거나 Clerk에 없는 사용자는 Clerk ID만 전달합니다.
+ *
+ * @param clerkIds - Clerk 사용자 ID 목록
+ * @returns Clerk ID별 받는 사람 정보
+ */
+export async function getNotificationRecipients(
+  clerkIds: string[]
+): Promise<Map<string, NotificationRecipient>> {
+  const recipients = new Map<string, NotificationRecipient>(
+    clerkIds.map((clerkId) => [clerkId, { clerkId, email: null, phone: null, name: null }])
+  );
+
+  if (clerkIds.length === 0) {
+    return recipients;
+  }
+
+  try {
+    const client = await clerkClient();
+    const { data: users } = await client.users.getUserList({
+      userId: clerkIds,
+      limit: clerkIds.length,
+    });
+
+    users.forEach((user) => {
+      recipients.set(user.id, {
+        clerkId: user.id,
+        email:
+          user.primaryEmailAddress?.emailAddress ??
+          user.emailAddresses[0]?.emailAddress ??
+          null,
+        phone:
+          user.primaryPhoneNumber?.phoneNumber ??
+          user.phoneNumbers[0]?.phoneNumber ??
+          null,
+        name: user.fullName || user.username || null,
+      });
+    });
+  } catch (error) {
+    console.error("⚠️ 받는 사람 정보 조회 실패 (Clerk ID만 전달):", error);
+  }
+
+  return recipients;
+}
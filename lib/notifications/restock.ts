@@ -0,0 +1,123 @@
+/**
+ * @file lib/notifications/restock.ts
+ * @description 재입고 알림 발송
+ *
+ * 품절 상품이 다시 판매 가능해지면 재입고 알림을 신청한 사용자에게 알림을 보냅니다.
+ * 관리자 상품 수정(updateProduct)에서 호출하며, 서버에서만 사용합니다.
+ *
+ * 주요 기능:
+ * 1. 재입고 여부 판단 (재고 0 → 1 이상, 상태 품절 → 판매중)
+ * 2. 알림 대기 중인 신청을 발송 처리로 먼저 표시한 뒤 발송 (동시에 호출되어도 중복 발송 없음)
+ * 3. 발송에 실패한 신청은 다시 알림 대기로 되돌림 (다음 재입고 때 재발송)
+ *
+ * @dependencies
+ * - lib/supabase/service-role.ts: 신청 조회 / 발송 기록 (관리자 세션과 무관하게 처리)
+ * - lib/notifications/index.ts: 알림 수단
+ * - lib/notifications/recipients.ts: 받는 사람 이메일 / 이름 조회 (Clerk)
+ * - lib/notifications/templates.ts: 재입고 알림 문구
+ */
+
+import { getServiceRoleClient } from "@/lib/supabase/service-role";
+import { getNotifier } from "@/lib/notifications";
+import { getNotificationRecipients } from "@/lib/notifications/recipients";
+import { renderRestockNotification } from "@/lib/notifications/templates";
+import type { Product } from "@/types/product";
+
+type RestockState = Pick<Product, "stock_quantity" | "status">;
+
+/**
+ * 재입고 알림 발송 결과
+ */
+export interface RestockNotificationResult {
+  sent: number; // 발송 성공
+  failed: number; // 발송 실패 (알림 대기로 되돌림)
+}
+
+/**
+ * 상품 수정 전후 상태로 재입고 여부를 판단합니다.
+ * 재고가 0에서 늘었거나, 상태가 품절에서 판매중으로 바뀌었고 재고가 있으면 재입고입니다.
+ */
+export function isRestocked(before: RestockState, after: RestockState): boolean {
+  if (after.stock_quantity <= 0 || after.status !== "active") {
+    return false;
+  }
+  return before.stock_quantity <= 0 || before.status === "out_of_stock";
+}
+
+/**
+ * 상품의 재입고 알림을 발송합니다.
+ *
+ * @param product - 재입고된 상품 (id, name)
+ * @returns 발송 결과 (성공 / 실패 건수)
+ * @throws 신청 조회에 실패한 경우 에러
+ */
+export async function sendRestockNotifications(
+  product: Pick<Product, "id" | "name">
+): Promise<RestockNotificationResult> {
+  console.group("🔔 [sendRestockNotifications] 재입고 알림 발송 시작");
+  console.log("상품:", product.name, product.id);
+
+  const supabase = getServiceRoleClient();
+
+  // 1. 알림 대기 중인 신청을 발송 처리로 표시 (동시에 호출되어도 한 번만 처리)
+  const { data: subscriptions, error } = await supabase
+    .from("restock_subscriptions")
+    .update({ notified_at: new Date().toISOString() })
+    .eq("product_id", product.id)
+    .is("notified_at", null)
+    .select("id, clerk_id");
+
+  if (error) {
+    console.error("❌ 재입고 알림 신청 조회 실패:", error);
+    console.groupEnd();
+    throw new Error(`재입고 알림 신청 조회에 실패했습니다: ${error.message}`);
+  }
+
+  if (!subscriptions || subscriptions.length === 0) {
+    console.log("✅ 알림 대기 중인 신청 없음");
+    console.groupEnd();
+    return { sent: 0, failed: 0 };
+  }
+
+  // 2. 받는 사람 정보 조회
+  const recipients = await getNotificationRecipients(
+    Array.from(new Set(subscriptions.map((subscription) => subscription.clerk_id)))
+  );
+
+  // 3. 알림 발송
+  const notifier = getNotifier();
+  const failedIds: string[] = [];
+
+  for (const subscription of subscriptions) {
+    try {
+      await notifier.send({
+        ...renderRestockNotification(product),
+        recipient: recipients.get(subscription.clerk_id)!,
+      });
+    } catch (sendError) {
+      console.error("❌ 재입고 알림 발송 실패:", subscription.id, sendError);
+      failedIds.push(subscription.id);
+    }
+  }
+
+  // 4. 발송에 실패한 신청은 알림 대기로 되돌림
+  if (failedIds.length > 0) {
+    const { error: resetError } = await supabase
+      .from("restock_subscriptions")
+      .update({ notified_at: null })
+      .in("id", failedIds);
+
+    if (resetError) {
+      console.error("⚠️ 발송 실패 신청 복구 실패:", resetError);
+    }
+  }
+
+  const result = {
+    sent: subscriptions.length - failedIds.length,
+    failed: failedIds.length,
+  };
+
+  console.log(`✅ 재입고 알림 발송 완료 (${notifier.name}): 성공 ${result.sent}건, 실패 ${result.failed}건`);
+  console.groupEnd();
+  return result;
+}
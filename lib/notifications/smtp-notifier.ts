@@ -0,0 +1,327 @@
+/**
+ * @file lib/notifications/smtp-notifier.ts
+ * @description SMTP 이메일 알림 수단
+ *
+ * SMTP 서버로 텍스트 이메일을 보내는 Notifier 구현입니다.
+ * 알림 1건마다 연결을 열고 닫으며, Node.js net / tls 모듈로 SMTP 명령을 직접 주고받습니다.
+ *
+ * 연결 방식:
+ * - secure: true (보통 465 포트) - 처음부터 TLS로 연결
+ * - secure: false (보통 587, 25 포트) - 서버가 STARTTLS를 지원하면 TLS로 전환
+ *   (로컬 개발용 메일 서버처럼 STARTTLS를 지원하지 않으면 평문으로 발송)
+ *
+ * 평문 연결에서는 인증 정보를 보내지 않습니다. 인증이 필요한데 TLS로 전환하지 못하면
+ * 발송을 중단하며, 로컬 메일 서버(localhost)에서만 allowInsecureAuth로 허용할 수 있습니다.
+ *
+ * 인증은 AUTH PLAIN을 사용하며, 제목과 본문은 UTF-8(Base64)로 인코딩합니다.
+ *
+ * @see https://datatracker.ietf.org/doc/html/rfc5321
+ */
+
+import net from "net";
+import tls from "tls";
+import { randomUUID } from "crypto";
+import type { NotificationMessage, Notifier } from "@/types/notification";
+
+/**
+ * SMTP 연결 설정
+ */
+export interface SmtpNotifierConfig {
+  host: string; // SMTP 서버 호스트
+  port: number; // SMTP 서버 포트
+  secure: boolean; // 처음부터 TLS로 연결할지 여부
+  user: string | null; // 인증 사용자 (없으면 인증하지 않음)
+  password: string | null; // 인증 비밀번호
+  allowInsecureAuth?: boolean; // 평문 연결 인증 허용 (localhost 서버에만 적용, 기본 false)
+  from: string; // 보내는 사람 (예: "쇼핑몰 <no-reply@example.com>")
+  siteUrl: string; // 알림 링크의 기준 URL (예: https://example.com)
+  timeoutMs?: number; // 응답 대기 시간 (기본 10초)
+}
+
+/**
+ * SMTP 서버 응답
+ */
+interface SmtpReply {
+  code: number;
+  text: string;
+}
+
+/**
+ * SMTP 응답을 한 건씩 읽고 명령을 보내는 채널
+ */
+interface SmtpChannel {
+  read(): Promise<SmtpReply>;
+  write(line: string): void;
+  detach(): void;
+}
+
+const DEFAULT_TIMEOUT_MS = 10_000;
+
+/**
+ * 평문 인증을 허용할 수 있는 로컬 호스트
+ */
+const LOCAL_HOSTS = new Set(["localhost", "127.0.0.1", "::1"]);
+
+/**
+ * 소켓에 SMTP 응답 읽기 / 명령 쓰기 채널을 연결합니다.
+ * 여러 줄 응답("250-...")은 마지막 줄("250 ...")까지 모아 한 건으로 돌려줍니다.
+ */
+function createSmtpChannel(socket: net.Socket): SmtpChannel {
+  let buffer = "";
+  let lines: string[] = [];
+  const replies: SmtpReply[] = [];
+  let waiting: { resolve: (reply: SmtpReply) => void; reject: (error: Error) => void } | null =
+    null;
+  let failure: Error | null = null;
+
+  const onData = (chunk: Buffer) => {
+    buffer += chunk.toString("utf8");
+    let index: number;
+    while ((index = buffer.indexOf("\r\n")) >= 0) {
+      const line = buffer.slice(0, index);
+      buffer = buffer.slice(index + 2);
+      lines.push(line);
+
+      // 마지막 줄은 "코드 + 공백" (또는 코드만)
+      if (/^\d{3}( |$)/.test(line)) {
+        const reply = {
+          code: Number(line.slice(0, 3)),
+          text: lines.map((item) => item.slice(4)).join("\n"),
+        };
+        lines = [];
+        if (waiting) {
+          const { resolve } = waiting;
+          waiting = null;
+          resolve(reply);
+        } else {
+          replies.push(reply);
+        }
+      }
+    }
+  };
+
+  const onFailure = (error?: Error) => {
+    failure = error ?? new Error("SMTP 서버 연결이 끊어졌습니다.");
+    if (waiting) {
+      const { reject } = waiting;
+      waiting = null;
+      reject(failure);
+    }
+  };
+  const onClose = () => onFailure();
+
+  socket.on("data", onData);
+  socket.on("error", onFailure);
+  socket.on("close", onClose);
+
+  return {
+    read() {
+      const reply = replies.shift();
+      if (reply) {
+        return Promise.resolve(reply);
+      }
+      if (failure) {
+        return Promise.reject(failure);
+      }
+      return new Promise((resolve, reject) => {
+        waiting = { resolve, reject };
+      });
+    },
+    write(line: string) {
+      socket.write(`${line}\r\n`);
+    },
+    detach() {
+      socket.off("data", onData);
+      socket.off("error", onFailure);
+      socket.off("close", onClose);
+    },
+  };
+}
+
+/**
+ * 응답 코드가 기대한 값인지 확인합니다.
+ */
+async function expectReply(
+  channel: SmtpChannel,
+  expected: number[],
+  command: string
+): Promise<SmtpReply> {
+  const reply = await channel.read();
+  if (!expected.includes(reply.code)) {
+    throw new Error(`SMTP ${command} 실패: ${reply.code} ${reply.text}`);
+  }
+  return reply;
+}
+
+/**
+ * 명령을 보내고 응답 코드를 확인합니다.
+ */
+async function sendCommand(
+  channel: SmtpChannel,
+  line: string,
+  expected: number[],
+  command: string = line.split(" ")[0]
+): Promise<SmtpReply> {
+  channel.write(line);
+  return expectReply(channel, expected, command);
+}
+
+/**
+ * 소켓이 연결될 때까지 기다립니다.
+ */
+function waitForConnect(socket: net.Socket, event: "connect" | "secureConnect"): Promise<void> {
+  return new Promise((resolve, reject) => {
+    socket.once(event, () => {
+      socket.off("error", reject);
+      resolve();
+    });
+    socket.once("error", reject);
+  });
+}
+
+/**
+ * 비ASCII 문자가 있으면 RFC 2047 형식(UTF-8 Base64)으로 인코딩합니다.
+ */
+function encodeHeader(value: string): string {
+  if (/^[\x00-\x7F]*$/.test(value)) {
+    return value;
+  }
+  return `=?UTF-8?B?${Buffer.from(value, "utf8").toString("base64")}?=`;
+}
+
+/**
+ * "이름 <주소>" 형식에서 주소만 꺼냅니다.
+ */
+function extractAddress(value: string): string {
+  const match = value.match(/<([^>]+)>/);
+  return (match ? match[1] : value).trim();
+}
+
+/**
+ * "이름 <주소>" 형식의 이름을 인코딩한 헤더 값을 만듭니다.
+ */
+function formatAddressHeader(value: string): string {
+  const match = value.match(/^\s*"?([^"<]*?)"?\s*<([^>]+)>\s*$/);
+  if (!match || !match[1]) {
+    return extractAddress(value);
+  }
+  return `${encodeHeader(match[1])} <${match[2]}>`;
+}
+
+/**
+ * 이메일 원문(헤더 + Base64 본문)을 만듭니다.
+ */
+function buildMimeMessage(
+  config: SmtpNotifierConfig,
+  to: string,
+  message: NotificationMessage
+): string {
+  const fromAddress = extractAddress(config.from);
+  const domain = fromAddress.split("@")[1] || config.host;
+
+  const text = message.url
+    ? `${message.body}\n\n바로가기: ${new URL(message.url, config.siteUrl).toString()}`
+    : message.body;
+  const encodedBody =
+    Buffer.from(text.replace(/\r?\n/g, "\r\n"), "utf8")
+      .toString("base64")
+      .match(/.{1,76}/g)
+      ?.join("\r\n") ?? "";
+
+  const headers = [
+    `From: ${formatAddressHeader(config.from)}`,
+    `To: ${to}`,
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${new Date().toUTCString()}`,
+    `Message-ID: <${randomUUID()}@${domain}>`,
+    "MIME-Version: 1.0",
+    "Content-Type: text/plain; charset=UTF-8",
+    "Content-Transfer-Encoding: base64",
+  ];
+
+  return `${headers.join("\r\n")}\r\n\r\n${encodedBody}`;
+}
+
+/**
+ * SMTP 이메일 알림 수단을 생성합니다.
+ *
+ * @param config - SMTP 연결 설정
+ * @returns Notifier
+ */
+export function createSmtpNotifier(config: SmtpNotifierConfig): Notifier {
+  const timeoutMs = config.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+
+  return {
+    name: "smtp",
+
+    async send(message: NotificationMessage): Promise<void> {
+      const to = message.recipient.email;
+      if (!to) {
+        throw new Error("받는 사람 이메일이 없습니다.");
+      }
+
+      // 1. 연결 (secure이면 처음부터 TLS)
+      let socket: net.Socket = config.secure
+        ? tls.connect({ host: config.host, port: config.port, servername: config.host })
+        : net.connect({ host: config.host, port: config.port });
+      socket.setTimeout(timeoutMs, () => {
+        socket.destroy(new Error("SMTP 서버 응답 시간이 초과되었습니다."));
+      });
+
+      let isEncrypted = config.secure;
+
+      try {
+        await waitForConnect(socket, config.secure ? "secureConnect" : "connect");
+        let channel = createSmtpChannel(socket);
+        await expectReply(channel, [220], "연결");
+
+        // 2. EHLO (지원 기능 확인)
+        const ehloHost = new URL(config.siteUrl).hostname;
+        const ehlo = await sendCommand(channel, `EHLO ${ehloHost}`, [250]);
+
+        // 3. STARTTLS (평문 연결이고 서버가 지원하는 경우)
+        if (!config.secure && /^STARTTLS$/im.test(ehlo.text)) {
+          await sendCommand(channel, "STARTTLS", [220]);
+          channel.detach();
+          socket.setTimeout(0);
+          socket = tls.connect({ socket, servername: config.host });
+          socket.setTimeout(timeoutMs, () => {
+            socket.destroy(new Error("SMTP 서버 응답 시간이 초과되었습니다."));
+          });
+          await waitForConnect(socket, "secureConnect");
+          isEncrypted = true;
+          channel = createSmtpChannel(socket);
+          await sendCommand(channel, `EHLO ${ehloHost}`, [250]);
+        }
+
+        // 4. 인증 (AUTH PLAIN, 평문 연결에서는 로컬 서버에 허용한 경우에만)
+        if (config.user) {
+          if (
+            !isEncrypted &&
+            !(config.allowInsecureAuth && LOCAL_HOSTS.has(config.host.toLowerCase()))
+          ) {
+            throw new Error(
+              "SMTP 서버가 STARTTLS를 지원하지 않아 평문 연결에서 인증할 수 없습니다."
+            );
+          }
+          const credentials = Buffer.from(
+            `\u0000${config.user}\u0000${config.password ?? ""}`,
+            "utf8"
+          ).toString("base64");
+          await sendCommand(channel, `AUTH PLAIN ${credentials}`, [235], "AUTH");
+        }
+
+        // 5. 보내는 사람 / 받는 사람 / 본문
+        await sendCommand(channel, `MAIL FROM:<${extractAddress(config.from)}>`, [250], "MAIL FROM");
+        await sendCommand(channel, `RCPT TO:<${to}>`, [250, 251], "RCPT TO");
+        await sendCommand(channel, "DATA", [354]);
+        await sendCommand(channel, `${buildMimeMessage(config, to, message)}\r\n.`, [250], "본문 전송");
+
+        // 6. 종료
+        channel.write("QUIT");
+      } finally {
+        socket.end();
+      }
+    },
+  };
+}
@@ -0,0 +1,175 @@
+/**
+ * @file lib/notifications/templates.ts
+ * @description 알림 메시지 템플릿
+ *
+ * 알림 종류별 한국어 제목 / 본문 / 링크 / 알림톡 템플릿 코드를 만듭니다.
+ * 알림톡은 카카오에 등록한 템플릿과 본문이 같아야 하므로,
+ * 문구를 바꾸면 알림톡 템플릿도 다시 등록해야 합니다.
+ *
+ * @dependencies
+ * - utils/order.ts: 가격, 날짜 포맷팅
+ */
+
+import { formatOrderDate, formatPrice } from "@/utils/order";
+import type { NotificationType, OrderNotificationType } from "@/types/notification";
+
+/**
+ * 템플릿으로 만든 알림 내용 (받는 사람 제외)
+ */
+export interface RenderedNotification {
+  type: NotificationType;
+  subject: string;
+  body: string;
+  url: string;
+  templateCode: string;
+}
+
+/**
+ * 주문 알림 템플릿에 채울 값
+ */
+export interface OrderNotificationContext {
+  orderId: string; // 주문 번호
+  customerName: string | null; // 받는 사람 이름 (없으면 "고객")
+  itemSummary: string; // 주문 상품 요약 (예: "기본 티셔츠 외 2건")
+  totalAmount: number; // 결제 금액
+  orderedAt: string; // 주문 일시 (ISO 8601 timestamp)
+  isPaid: boolean; // 결제한 주문 여부 (주문 취소 시 환불 안내)
+  carrierName?: string | null; // 택배사 이름 (배송 시작)
+  trackingNumber?: string | null; // 송장 번호 (배송 시작)
+  trackingUrl?: string | null; // 택배사 배송 조회 URL (배송 시작)
+  reason?: string | null; // 취소 사유 (주문 취소)
+}
+
+/**
+ * 알림톡 템플릿 코드 (카카오에 등록한 코드와 같아야 함)
+ */
+export const NOTIFICATION_TEMPLATE_CODES: Record<NotificationType, string> = {
+  restock: "RESTOCK",
+  order_placed: "ORDER_PLACED",
+  payment_confirmed: "PAYMENT_CONFIRMED",
+  order_shipped: "ORDER_SHIPPED",
+  order_delivered: "ORDER_DELIVERED",
+  order_cancelled: "ORDER_CANCELLED",
+};
+
+/**
+ * 주문 상품 요약 문구를 만듭니다. (예: "기본 티셔츠 외 2건")
+ *
+ * @param productNames - 주문 상품명 목록 (주문 항목 순서)
+ * @returns 주문 상품 요약
+ */
+export function summarizeOrderItems(productNames: string[]): string {
+  if (productNames.length === 0) {
+    return "주문 상품";
+  }
+  return productNames.length === 1
+    ? productNames[0]
+    : `${productNames[0]} 외 ${productNames.length - 1}건`;
+}
+
+/**
+ * 재입고 알림 내용을 만듭니다.
+ *
+ * @param product - 재입고된 상품 (id, name)
+ * @returns 알림 내용
+ */
+export function renderRestockNotification(product: {
+  id: string;
+  name: string;
+}): RenderedNotification {
+  return {
+    type: "restock",
+    subject: `[재입고 알림] ${product.name}`,
+    body: `재입고 알림을 신청하신 '${product.name}' 상품이 다시 입고되었습니다. 재고가 한정되어 있으니 서둘러 확인해주세요.`,
+    url: `/products/${product.id}`,
+    templateCode: NOTIFICATION_TEMPLATE_CODES.restock,
+  };
+}
+
+/**
+ * 주문 알림 내용을 만듭니다.
+ *
+ * @param type - 주문 알림 종류
+ * @param context - 템플릿에 채울 값
+ * @returns 알림 내용
+ */
+export function renderOrderNotification(
+  type: OrderNotificationType,
+  context: OrderNotificationContext
+): RenderedNotification {
+  const greeting = `${context.customerName || "고객"}님, 안녕하세요.`;
+  const orderLines = [
+    `주문 번호: ${context.orderId}`,
+    `주문 상품: ${context.itemSummary}`,
+    `결제 금액: ${formatPrice(context.totalAmount)}원`,
+  ];
+
+  let subject: string;
+  let lines: string[];
+
+  switch (type) {
+    case "order_placed":
+      subject = "[주문 접수] 주문이 접수되었습니다";
+      lines = [
+        greeting,
+        "주문이 접수되었습니다. 결제가 완료되면 상품 준비를 시작합니다.",
+        "",
+        ...orderLines,
+        `주문 일시: ${formatOrderDate(context.orderedAt)}`,
+      ];
+      break;
+    case "payment_confirmed":
+      subject = context.isPaid
+        ? "[결제 완료] 주문이 확인되었습니다"
+        : "[주문 확인] 주문이 확인되었습니다";
+      lines = [
+        greeting,
+        `${context.isPaid ? "결제가 완료되어 " : ""}주문이 확인되었습니다. 상품을 준비해 빠르게 보내드리겠습니다.`,
+        "",
+        ...orderLines,
+      ];
+      break;
+    case "order_shipped":
+      subject = "[배송 시작] 주문하신 상품이 출발했습니다";
+      lines = [
+        greeting,
+        "주문하신 상품의 배송이 시작되었습니다.",
+        "",
+        ...orderLines,
+        `택배사: ${context.carrierName ?? "-"}`,
+        `송장 번호: ${context.trackingNumber ?? "-"}`,
+        ...(context.trackingUrl ? [`배송 조회: ${context.trackingUrl}`] : []),
+      ];
+      break;
+    case "order_delivered":
+      subject = "[배송 완료] 주문하신 상품이 도착했습니다";
+      lines = [
+        greeting,
+        "주문하신 상품의 배송이 완료되었습니다. 상품은 마음에 드셨나요?",
+        "주문 상세에서 리뷰를 남겨주세요.",
+        "",
+        ...orderLines,
+      ];
+      break;
+    case "order_cancelled":
+      subject = "[주문 취소] 주문이 취소되었습니다";
+      lines = [
+        greeting,
+        context.isPaid
+          ? "주문이 취소되었습니다. 결제하신 금액은 결제 수단에 따라 영업일 기준 3~5일 안에 환불됩니다."
+          : "주문이 취소되었습니다.",
+        "",
+        ...orderLines,
+        ...(context.reason ? [`취소 사유: ${context.reason}`] : []),
+      ];
+      break;
+  }
+
+  return {
+    type,
+    subject,
+    body: lines.join("\n"),
+    url: `/my/orders/${context.orderId}`,
+    templateCode: NOTIFICATION_TEMPLATE_CODES[type],
+  };
+}
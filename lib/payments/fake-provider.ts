@@ -0,0 +1,124 @@
+/**
+ * @file lib/payments/fake-provider.ts
+ * @description 로컬 가짜 결제 게이트웨이
+ *
+ * 외부 API를 호출하지 않고 결제 승인 / 취소를 흉내 내는 PaymentProvider 구현입니다.
+ * Toss Payments 키가 없는 로컬 개발 환경과 테스트에서 사용합니다.
+ *
+ * 동작 규칙:
+ * 1. paymentKey는 FAKE_PAYMENT_KEY_PREFIX로 시작해야 합니다.
+ * 2. paymentKey에 "fail"이 포함되면 승인 거절을 흉내 냅니다.
+ * 3. 그 외에는 요청 금액 그대로 카드 결제로 승인합니다.
+ * 4. 결제 취소는 paymentKey에 "norefund"가 포함되면 취소 거절을 흉내 내고,
+ *    그 외에는 요청 금액 그대로 취소합니다.
+ * 5. 취소 내역은 서버 프로세스 메모리에 보관하며, 같은 멱등 키로 다시 요청하면
+ *    처음 취소 결과를 그대로 돌려줍니다.
+ */
+
+import type {
+  PaymentCancelRequest,
+  PaymentCancelResult,
+  PaymentConfirmRequest,
+  PaymentConfirmResult,
+  PaymentProvider,
+} from "@/types/payment";
+
+/**
+ * 가짜 결제 키 접두사
+ */
+export const FAKE_PAYMENT_KEY_PREFIX = "fake_";
+
+/**
+ * 결제 키별 취소 내역 (멱등 키 → 취소 결과, 서버 프로세스 하나에서 공유)
+ */
+const fakeCancels = new Map<string, Map<string, PaymentCancelResult>>();
+
+/**
+ * 로컬 가짜 결제 제공자를 생성합니다.
+ *
+ * @returns PaymentProvider
+ */
+export function createFakePaymentProvider(): PaymentProvider {
+  return {
+    name: "fake",
+
+    async confirmPayment(
+      request: PaymentConfirmRequest
+    ): Promise<PaymentConfirmResult> {
+      if (!request.paymentKey.startsWith(FAKE_PAYMENT_KEY_PREFIX)) {
+        throw new Error("유효하지 않은 결제 키입니다. (FAKE_INVALID_PAYMENT_KEY)");
+      }
+
+      if (request.paymentKey.includes("fail")) {
+        throw new Error("가짜 게이트웨이에서 결제 승인을 거절했습니다. (FAKE_REJECTED)");
+      }
+
+      const approvedAt = new Date().toISOString();
+
+      return {
+        paymentKey: request.paymentKey,
+        method: "카드",
+        totalAmount: request.amount,
+        approvedAt,
+        raw: {
+          provider: "fake",
+          paymentKey: request.paymentKey,
+          orderId: request.orderId,
+          totalAmount: request.amount,
+          method: "카드",
+          status: "DONE",
+          approvedAt,
+        },
+      };
+    },
+
+    async cancelPayment(
+      request: PaymentCancelRequest
+    ): Promise<PaymentCancelResult> {
+      if (!request.paymentKey.startsWith(FAKE_PAYMENT_KEY_PREFIX)) {
+        throw new Error("유효하지 않은 결제 키입니다. (FAKE_INVALID_PAYMENT_KEY)");
+      }
+
+      if (request.paymentKey.includes("norefund")) {
+        throw new Error("가짜 게이트웨이에서 결제 취소를 거절했습니다. (FAKE_CANCEL_REJECTED)");
+      }
+
+      const cancels = fakeCancels.get(request.paymentKey) ?? new Map<string, PaymentCancelResult>();
+      const previous = cancels.get(request.idempotencyKey);
+      if (previous) {
+        return previous;
+      }
+
+      const canceledAt = new Date().toISOString();
+      const transactionKey = `${FAKE_PAYMENT_KEY_PREFIX}cancel_${request.idempotencyKey}`;
+
+      const result: PaymentCancelResult = {
+        transactionKey,
+        cancelAmount: request.cancelAmount,
+        canceledAt,
+        raw: {
+          provider: "fake",
+          paymentKey: request.paymentKey,
+          transactionKey,
+          cancelAmount: request.cancelAmount,
+          cancelReason: request.cancelReason,
+          status: "CANCELED",
+          canceledAt,
+        },
+      };
+
+      cancels.set(request.idempotencyKey, result);
+      fakeCancels.set(request.paymentKey, cancels);
+
+      return result;
+    },
+
+    async getPaymentCancels(paymentKey: string): Promise<PaymentCancelResult[]> {
+      if (!paymentKey.startsWith(FAKE_PAYMENT_KEY_PREFIX)) {
+        throw new Error("유효하지 않은 결제 키입니다. (FAKE_INVALID_PAYMENT_KEY)");
+      }
+
+      return [...(fakeCancels.get(paymentKey)?.values() ?? [])];
+    },
+  };
+}
@@ -0,0 +1,84 @@
+/**
+ * @file lib/payments/index.ts
+ * @description 결제 제공자 선택
+ *
+ * 환경 변수에 따라 사용할 결제 제공자를 결정합니다.
+ *
+ * 선택 규칙:
+ * 1. PAYMENT_PROVIDER가 "toss" 또는 "fake"이면 해당 제공자 사용
+ * 2. 지정하지 않은 경우 TOSS_PAYMENTS_SECRET_KEY가 있으면 toss, 없으면 fake
+ * 3. 프로덕션 환경에서는 PAYMENT_PROVIDER="toss"로 명시하지 않으면 에러
+ *    (가짜 게이트웨이는 임의의 결제 키를 승인하므로 설정 누락 시 미결제 주문이 확정될 수 있음)
+ *
+ * @dependencies
+ * - lib/payments/toss-provider.ts: Toss Payments 구현
+ * - lib/payments/fake-provider.ts: 로컬 가짜 게이트웨이 구현
+ */
+
+import { createTossPaymentProvider } from "@/lib/payments/toss-provider";
+import { createFakePaymentProvider } from "@/lib/payments/fake-provider";
+import type {
+  PaymentClientConfig,
+  PaymentProvider,
+  PaymentProviderName,
+} from "@/types/payment";
+
+/**
+ * 환경 변수에서 결제 제공자 이름을 결정합니다.
+ * (환불 내역 기록처럼 제공자 설정 검사 없이 이름만 필요한 경우에도 사용)
+ */
+export function getPaymentProviderName(): PaymentProviderName {
+  const configured = process.env.PAYMENT_PROVIDER;
+
+  if (configured === "toss" || configured === "fake") {
+    return configured;
+  }
+
+  return process.env.TOSS_PAYMENTS_SECRET_KEY ? "toss" : "fake";
+}
+
+/**
+ * 서버에서 사용할 결제 제공자를 가져옵니다.
+ *
+ * @returns PaymentProvider
+ * @throws 프로덕션 환경에서 toss로 명시하지 않은 경우, toss로 설정되었지만 시크릿 키가 없는 경우 에러
+ */
+export function getPaymentProvider(): PaymentProvider {
+  if (process.env.NODE_ENV === "production" && process.env.PAYMENT_PROVIDER !== "toss") {
+    throw new Error(
+      '프로덕션 환경에서는 PAYMENT_PROVIDER="toss"로 설정해야 합니다.'
+    );
+  }
+
+  const name = getPaymentProviderName();
+
+  if (name === "toss") {
+    const secretKey = process.env.TOSS_PAYMENTS_SECRET_KEY;
+    if (!secretKey) {
+      throw new Error(
+        "TOSS_PAYMENTS_SECRET_KEY 환경 변수가 설정되지 않았습니다."
+      );
+    }
+    return createTossPaymentProvider(secretKey);
+  }
+
+  return createFakePaymentProvider();
+}
+
+/**
+ * 클라이언트 결제창에 전달할 설정을 가져옵니다.
+ * 시크릿 키는 포함하지 않습니다.
+ *
+ * @returns PaymentClientConfig
+ */
+export function getPaymentClientConfig(): PaymentClientConfig {
+  const provider = getPaymentProviderName();
+
+  return {
+    provider,
+    clientKey:
+      provider === "toss"
+        ? process.env.NEXT_PUBLIC_TOSS_PAYMENTS_CLIENT_KEY ?? null
+        : null,
+  };
+}
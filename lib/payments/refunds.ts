@@ -0,0 +1,486 @@
+/**
+ * @file lib/payments/refunds.ts
+ * @description 환불 처리 (서버 전용)
+ *
+ * 주문 취소와 반품 승인 후 환불 금액을 계산하고 결제 제공자에 결제 취소를 요청한 뒤
+ * 결과를 order_refunds 테이블에 기록합니다.
+ *
+ * 처리 순서:
+ * 1. 환불 금액 계산 (lib/refunds.ts)
+ * 2. 환불 요청 기록 (create_order_refund RPC, 남은 결제 금액 확인)
+ * 3. 결제 제공자에 결제 취소 요청 (멱등 키: 환불 ID, 재시도해도 같은 키 사용)
+ *    재시도 전에는 결제 제공자의 취소 내역을 조회해 이미 취소된 환불이면 다시 요청하지 않음
+ * 4. 결과 기록 (complete_order_refund RPC, 주문 결제 상태 / payment_data 갱신)
+ *
+ * 결제 취소에 실패하거나 환불 요청을 기록하지 못하면(결제 제공자 설정 오류 포함)
+ * 에러를 던지지 않고 실패(failed)로 기록한 환불을 반환합니다.
+ * 주문 취소 / 반품 승인은 이미 처리된 상태이므로 관리자가 주문 상세에서 다시 시도합니다.
+ *
+ * @dependencies
+ * - lib/supabase/service-role.ts: 환불 기록 RPC 호출 (관리자 전용 함수)
+ * - lib/payments/index.ts: 결제 제공자
+ * - lib/refunds.ts: 환불 금액 계산
+ * - lib/claims.ts: 판매자 귀책 사유 판단
+ */
+
+import { getServiceRoleClient } from "@/lib/supabase/service-role";
+import { getPaymentProvider, getPaymentProviderName } from "@/lib/payments";
+import {
+  calculateCancelRefund,
+  calculateReturnRefund,
+  type RefundableOrder,
+} from "@/lib/refunds";
+import { isSellerFaultReason } from "@/lib/claims";
+import type { OrderClaimReasonType } from "@/types/claim";
+import type { PaymentCancelResult, PaymentProvider } from "@/types/payment";
+import type {
+  OrderRefund,
+  OrderRefundActorType,
+  OrderRefundType,
+  RefundBreakdown,
+} from "@/types/refund";
+
+/**
+ * 환불 요청 주체
+ */
+export interface RefundActor {
+  type: OrderRefundActorType;
+  id: string | null; // Clerk User ID
+}
+
+/**
+ * DB 조회 결과의 금액(DECIMAL)을 숫자로 변환합니다.
+ */
+export function toOrderRefund(row: Record<string, unknown>): OrderRefund {
+  const refund = row as unknown as OrderRefund;
+  return {
+    ...refund,
+    product_amount: Number(refund.product_amount),
+    discount_amount: Number(refund.discount_amount),
+    shipping_amount: Number(refund.shipping_amount),
+    deduction_amount: Number(refund.deduction_amount),
+    amount: Number(refund.amount),
+  };
+}
+
+/**
+ * 주문 금액과 환불 완료 / 요청 중인 금액을 조회합니다.
+ *
+ * @returns 환불 금액 계산용 주문 금액 (결제 승인되지 않은 주문이면 null)
+ */
+async function getRefundableOrder(orderId: string): Promise<RefundableOrder | null> {
+  const supabase = getServiceRoleClient();
+
+  const { data: order, error } = await supabase
+    .from("orders")
+    .select("subtotal, shipping_fee, discount_amount, total_amount, payment_id")
+    .eq("id", orderId)
+    .maybeSingle();
+
+  if (error || !order) {
+    console.error("❌ 주문 조회 실패:", error);
+    throw new Error("주문을 찾을 수 없습니다.");
+  }
+
+  if (!order.payment_id) {
+    return null;
+  }
+
+  const { data: refunds, error: refundsError } = await supabase
+    .from("order_refunds")
+    .select("amount")
+    .eq("order_id", orderId)
+    .in("status", ["requested", "completed"]);
+
+  if (refundsError) {
+    console.error("❌ 환불 내역 조회 실패:", refundsError);
+    throw new Error(`환불 내역 조회에 실패했습니다: ${refundsError.message}`);
+  }
+
+  return {
+    subtotal: Number(order.subtotal),
+    shippingFee: Number(order.shipping_fee),
+    discountAmount: Number(order.discount_amount ?? 0),
+    totalAmount: Number(order.total_amount),
+    refundedAmount: (refunds ?? []).reduce((sum, refund) => sum + Number(refund.amount), 0),
+  };
+}
+
+/**
+ * 환불 요청 데이터
+ */
+interface RefundRequestParams {
+  orderId: string;
+  claimId: string | null;
+  type: OrderRefundType;
+  reason: string;
+  breakdown: RefundBreakdown;
+  actor: RefundActor;
+}
+
+/**
+ * 환불 요청을 기록하지 못한 경우 실패한 환불로 기록합니다. (관리자 재시도용)
+ *
+ * @throws 실패한 환불도 기록하지 못한 경우 에러
+ */
+async function recordFailedRefund(
+  params: RefundRequestParams,
+  failureMessage: string
+): Promise<OrderRefund> {
+  const { data, error } = await getServiceRoleClient().rpc("record_failed_order_refund", {
+    p_order_id: params.orderId,
+    p_claim_id: params.claimId,
+    p_type: params.type,
+    p_reason: params.reason,
+    p_product_amount: params.breakdown.productAmount,
+    p_discount_amount: params.breakdown.discountAmount,
+    p_shipping_amount: params.breakdown.shippingAmount,
+    p_deduction_amount: params.breakdown.deductionAmount,
+    p_amount: params.breakdown.amount,
+    p_provider: getPaymentProviderName(),
+    p_actor_type: params.actor.type,
+    p_actor_id: params.actor.id,
+    p_failure_message: failureMessage,
+  });
+
+  if (error || !data) {
+    console.error("❌ 환불 실패 기록 실패:", error);
+    throw new Error(failureMessage);
+  }
+
+  return toOrderRefund(data);
+}
+
+/**
+ * 환불 요청을 기록한 뒤 결제 취소를 요청합니다.
+ * 요청을 기록하지 못하면 실패한 환불로 기록합니다.
+ */
+async function createAndExecuteRefund(params: RefundRequestParams): Promise<OrderRefund> {
+  const { data, error } = await getServiceRoleClient().rpc("create_order_refund", {
+    p_order_id: params.orderId,
+    p_claim_id: params.claimId,
+    p_type: params.type,
+    p_reason: params.reason,
+    p_product_amount: params.breakdown.productAmount,
+    p_discount_amount: params.breakdown.discountAmount,
+    p_shipping_amount: params.breakdown.shippingAmount,
+    p_deduction_amount: params.breakdown.deductionAmount,
+    p_amount: params.breakdown.amount,
+    p_provider: getPaymentProviderName(),
+    p_actor_type: params.actor.type,
+    p_actor_id: params.actor.id,
+  });
+
+  if (error || !data) {
+    console.error("❌ 환불 요청 기록 실패:", error);
+    return recordFailedRefund(
+      params,
+      `환불 요청에 실패했습니다: ${error?.message ?? "알 수 없는 에러"}`
+    );
+  }
+
+  return executeRefund(toOrderRefund(data));
+}
+
+/**
+ * 이전 시도에서 이미 처리된 결제 취소를 찾습니다.
+ * 결제 제공자의 취소 내역 중 다른 환불에 기록되지 않았고 금액이 같은 취소 거래를 이 환불의 결과로 봅니다.
+ *
+ * @returns 이미 처리된 취소 거래 (없으면 null)
+ * @throws 취소 내역 / 환불 내역 조회에 실패한 경우 에러
+ */
+async function findExistingCancel(
+  provider: PaymentProvider,
+  refund: OrderRefund
+): Promise<PaymentCancelResult | null> {
+  const cancels = await provider.getPaymentCancels(refund.payment_key);
+  if (cancels.length === 0) {
+    return null;
+  }
+
+  const { data: recorded, error } = await getServiceRoleClient()
+    .from("order_refunds")
+    .select("transaction_key")
+    .eq("payment_key", refund.payment_key)
+    .neq("id", refund.id)
+    .not("transaction_key", "is", null);
+
+  if (error) {
+    throw new Error(`환불 내역 조회에 실패했습니다: ${error.message}`);
+  }
+
+  const recordedKeys = new Set((recorded ?? []).map((row) => row.transaction_key as string));
+  return (
+    cancels.find(
+      (cancel) =>
+        !!cancel.transactionKey &&
+        !recordedKeys.has(cancel.transactionKey) &&
+        cancel.cancelAmount === refund.amount
+    ) ?? null
+  );
+}
+
+/**
+ * 요청 중인 환불의 결제 취소를 요청하고 결과를 기록합니다.
+ * 재시도(시도 횟수 2회 이상)이면 결제 제공자의 취소 내역을 먼저 확인해 중복 취소를 막습니다.
+ *
+ * @throws 결과 기록에 실패한 경우 에러 (결제 취소 실패는 failed로 기록)
+ */
+async function executeRefund(refund: OrderRefund): Promise<OrderRefund> {
+  let transactionKey: string | null = null;
+  let providerResponse: Record<string, unknown> | null = null;
+  let failureMessage: string | null = null;
+
+  try {
+    // 결제 제공자 설정 오류도 결제 취소 실패로 기록
+    const provider = getPaymentProvider();
+
+    // 이전 시도에서 결제 취소는 되었지만 결과를 기록하지 못한 경우
+    const existingCancel = refund.attempts > 1 ? await findExistingCancel(provider, refund) : null;
+    if (existingCancel) {
+      console.log("⚠️ 이미 처리된 결제 취소 확인:", existingCancel.transactionKey);
+    }
+
+    const cancelResult =
+      existingCancel ??
+      (await provider.cancelPayment({
+        paymentKey: refund.payment_key,
+        cancelAmount: refund.amount,
+        cancelReason: refund.reason,
+        idempotencyKey: refund.id,
+      }));
+    transactionKey = cancelResult.transactionKey;
+    providerResponse = cancelResult.raw;
+    console.log("✅ 결제 취소 완료:", cancelResult.transactionKey, cancelResult.cancelAmount);
+  } catch (error) {
+    failureMessage = error instanceof Error ? error.message : "알 수 없는 에러";
+    console.error("❌ 결제 취소 실패:", failureMessage);
+  }
+
+  const { data, error } = await getServiceRoleClient().rpc("complete_order_refund", {
+    p_refund_id: refund.id,
+    p_succeeded: failureMessage === null,
+    p_transaction_key: transactionKey,
+    p_provider_response: providerResponse,
+    p_failure_message: failureMessage,
+  });
+
+  if (error || !data) {
+    // 결제는 취소되었지만 기록하지 못한 경우 정산 대사에서 확인할 수 있도록 남김
+    console.error("❌ 환불 결과 기록 실패:", { refundId: refund.id, transactionKey, failureMessage, error });
+    throw new Error(`환불 결과 기록에 실패했습니다: ${error?.message ?? "알 수 없는 에러"}`);
+  }
+
+  return toOrderRefund(data);
+}
+
+/**
+ * 취소된 주문의 결제 금액을 전액 환불합니다.
+ *
+ * @param orderId - 취소된 주문 ID
+ * @param actor - 요청 주체 (고객 주문 취소 / 관리자 주문 취소)
+ * @returns 환불 내역 (결제 승인되지 않았거나 남은 결제 금액이 없으면 null)
+ * @throws 주문 조회, 환불 요청 기록, 결과 기록에 실패한 경우 에러
+ */
+export async function refundCancelledOrder(
+  orderId: string,
+  actor: RefundActor
+): Promise<OrderRefund | null> {
+  console.group("💸 [refundCancelledOrder] 주문 취소 환불 시작");
+  console.log("주문 ID:", orderId);
+
+  // 1. 환불 금액 계산 (남은 결제 금액 전액)
+  let order: RefundableOrder | null;
+  try {
+    order = await getRefundableOrder(orderId);
+  } catch (error) {
+    console.groupEnd();
+    throw error;
+  }
+
+  if (!order) {
+    console.log("⚠️ 결제 승인되지 않은 주문 - 환불 생략");
+    console.groupEnd();
+    return null;
+  }
+
+  const breakdown = calculateCancelRefund(order);
+  if (breakdown.amount <= 0) {
+    console.log("⚠️ 남은 결제 금액 없음 - 환불 생략");
+    console.groupEnd();
+    return null;
+  }
+
+  // 2. 환불 요청 기록 및 결제 취소
+  let refund: OrderRefund;
+  try {
+    refund = await createAndExecuteRefund({
+      orderId,
+      claimId: null,
+      type: "cancel",
+      reason: "주문 취소",
+      breakdown,
+      actor,
+    });
+  } catch (error) {
+    console.groupEnd();
+    throw error;
+  }
+
+  console.log(`✅ 주문 취소 환불 처리 완료: ${refund.status}, ${refund.amount}원`);
+  console.groupEnd();
+
+  return refund;
+}
+
+/**
+ * 승인된 반품 신청의 환불 금액을 계산해 부분 환불합니다.
+ *
+ * @param claimId - 승인된 반품 신청 ID
+ * @param actor - 요청 주체 (반품을 승인한 관리자)
+ * @returns 환불 내역 (결제 승인되지 않았거나 환불 금액이 0원이면 null)
+ * @throws 신청 조회, 환불 요청 기록, 결과 기록에 실패한 경우 에러
+ */
+export async function refundReturnClaim(
+  claimId: string,
+  actor: RefundActor
+): Promise<OrderRefund | null> {
+  console.group("💸 [refundReturnClaim] 반품 환불 시작");
+  console.log("반품 신청 ID:", claimId);
+
+  const supabase = getServiceRoleClient();
+
+  // 1. 반품 신청 조회 (승인된 반품만)
+  const { data: claim, error: claimError } = await supabase
+    .from("order_claims")
+    .select(
+      "id, order_id, type, status, reason_type, quantity, refund_amount, item:order_items(price, quantity, discount_amount)"
+    )
+    .eq("id", claimId)
+    .maybeSingle();
+
+  if (claimError || !claim) {
+    console.error("❌ 반품 신청 조회 실패:", claimError);
+    console.groupEnd();
+    throw new Error("반품 신청을 찾을 수 없습니다.");
+  }
+
+  if (claim.type !== "return" || claim.status !== "approved") {
+    console.error("❌ 승인된 반품이 아님:", claim.type, claim.status);
+    console.groupEnd();
+    throw new Error("승인된 반품 신청만 환불할 수 있습니다.");
+  }
+
+  let order: RefundableOrder | null;
+  try {
+    order = await getRefundableOrder(claim.order_id);
+  } catch (error) {
+    console.groupEnd();
+    throw error;
+  }
+
+  if (!order) {
+    console.log("⚠️ 결제 승인되지 않은 주문 - 환불 생략");
+    console.groupEnd();
+    return null;
+  }
+
+  // 2. 이전에 승인된 반품 상품 금액 (무료 배송 기준 / 전체 반품 판단용)
+  const { data: previousClaims, error: previousError } = await supabase
+    .from("order_claims")
+    .select("quantity, item:order_items(price)")
+    .eq("order_id", claim.order_id)
+    .eq("type", "return")
+    .eq("status", "approved")
+    .neq("id", claimId);
+
+  if (previousError) {
+    console.error("❌ 반품 내역 조회 실패:", previousError);
+    console.groupEnd();
+    throw new Error(`반품 내역 조회에 실패했습니다: ${previousError.message}`);
+  }
+
+  const getItemPrice = (item: unknown) => Number((item as { price?: number } | null)?.price ?? 0);
+  const claimItem = claim.item as unknown as { price: number; quantity: number; discount_amount: number } | null;
+  const claimSubtotal = getItemPrice(claim.item) * claim.quantity;
+  const previouslyReturnedSubtotal = (previousClaims ?? []).reduce(
+    (sum, previous) => sum + getItemPrice(previous.item) * previous.quantity,
+    0
+  );
+
+  // 3. 환불 금액 계산 (쿠폰 할인 안분, 배송비 환불 / 반품 배송비 차감)
+  const breakdown = calculateReturnRefund(order, {
+    productAmount: Number(claim.refund_amount ?? claimSubtotal),
+    claimSubtotal,
+    itemSubtotal: getItemPrice(claim.item) * Number(claimItem?.quantity ?? 0),
+    itemDiscountAmount: Number(claimItem?.discount_amount ?? 0),
+    previouslyReturnedSubtotal,
+    sellerFault: isSellerFaultReason(claim.reason_type as OrderClaimReasonType),
+  });
+  console.log("환불 금액 계산:", breakdown);
+
+  if (breakdown.amount <= 0) {
+    console.log("⚠️ 환불 금액 0원 - 환불 생략");
+    console.groupEnd();
+    return null;
+  }
+
+  // 4. 환불 요청 기록 및 결제 취소
+  let refund: OrderRefund;
+  try {
+    refund = await createAndExecuteRefund({
+      orderId: claim.order_id,
+      claimId,
+      type: "return",
+      reason: "반품 환불",
+      breakdown,
+      actor,
+    });
+  } catch (error) {
+    console.groupEnd();
+    throw error;
+  }
+
+  console.log(`✅ 반품 환불 처리 완료: ${refund.status}, ${refund.amount}원`);
+  console.groupEnd();
+
+  return refund;
+}
+
+/**
+ * 결제 취소에 실패했거나 요청 중으로 멈춘 환불을 다시 시도합니다.
+ * (결제는 취소되었지만 결과를 기록하지 못한 환불은 결제 제공자의 취소 내역으로 완료 처리)
+ *
+ * @param refundId - 실패 / 멈춘 환불 ID
+ * @returns 재시도 결과 환불 내역
+ * @throws 재시도할 수 없는 환불인 경우, 남은 결제 금액을 초과하는 경우, 결과 기록에 실패한 경우 에러
+ */
+export async function retryRefund(refundId: string): Promise<OrderRefund> {
+  console.group("💸 [retryRefund] 환불 재시도 시작");
+  console.log("환불 ID:", refundId);
+
+  // 1. 요청 중으로 변경 (실패 / 멈춘 환불, 남은 결제 금액 확인)
+  const { data, error } = await getServiceRoleClient().rpc("restart_order_refund", {
+    p_refund_id: refundId,
+  });
+
+  if (error || !data) {
+    console.error("❌ 환불 재시도 요청 실패:", error);
+    console.groupEnd();
+    throw new Error(`환불 재시도에 실패했습니다: ${error?.message ?? "알 수 없는 에러"}`);
+  }
+
+  // 2. 결제 취소 재요청 (이미 취소되었는지 먼저 확인, 처음 시도와 같은 멱등 키 사용)
+  let refund: OrderRefund;
+  try {
+    refund = await executeRefund(toOrderRefund(data));
+  } catch (error) {
+    console.groupEnd();
+    throw error;
+  }
+
+  console.log(`✅ 환불 재시도 완료: ${refund.status}`);
+  console.groupEnd();
+
+  return refund;
+}
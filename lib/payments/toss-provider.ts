@@ -0,0 +1,166 @@
+/**
+ * @file lib/payments/toss-provider.ts
+ * @description Toss Payments 결제 제공자
+ *
+ * Toss Payments 결제 승인 / 취소 / 조회 API를 호출하는 PaymentProvider 구현입니다.
+ * 시크릿 키는 서버에서만 사용하며, Basic 인증 헤더(`시크릿키:`의 Base64)로 전달합니다.
+ *
+ * @see https://docs.tosspayments.com/reference#결제-승인
+ * @see https://docs.tosspayments.com/reference#결제-취소
+ * @see https://docs.tosspayments.com/reference#paymentkey로-결제-조회
+ */
+
+import type {
+  PaymentCancelRequest,
+  PaymentCancelResult,
+  PaymentConfirmRequest,
+  PaymentConfirmResult,
+  PaymentProvider,
+} from "@/types/payment";
+
+const TOSS_PAYMENTS_API_URL = "https://api.tosspayments.com/v1";
+
+/**
+ * Payment 객체의 cancels 항목을 취소 결과로 변환합니다.
+ */
+function toCancelResult(
+  cancel: Record<string, unknown>,
+  raw: Record<string, unknown>,
+  fallbackAmount = 0
+): PaymentCancelResult {
+  return {
+    transactionKey:
+      typeof cancel.transactionKey === "string" ? cancel.transactionKey : null,
+    cancelAmount: Number(cancel.cancelAmount ?? fallbackAmount),
+    canceledAt: typeof cancel.canceledAt === "string" ? cancel.canceledAt : null,
+    raw,
+  };
+}
+
+/**
+ * Payment 객체의 cancels 배열을 꺼냅니다. (취소 내역이 없으면 빈 배열)
+ */
+function getCancels(body: Record<string, unknown>): Record<string, unknown>[] {
+  return Array.isArray(body.cancels) ? (body.cancels as Record<string, unknown>[]) : [];
+}
+
+/**
+ * Toss Payments 결제 제공자를 생성합니다.
+ *
+ * @param secretKey - Toss Payments 시크릿 키 (TOSS_PAYMENTS_SECRET_KEY)
+ * @returns PaymentProvider
+ */
+export function createTossPaymentProvider(secretKey: string): PaymentProvider {
+  const authorization = `Basic ${Buffer.from(`${secretKey}:`).toString("base64")}`;
+
+  return {
+    name: "toss",
+
+    async confirmPayment(
+      request: PaymentConfirmRequest
+    ): Promise<PaymentConfirmResult> {
+      const response = await fetch(`${TOSS_PAYMENTS_API_URL}/payments/confirm`, {
+        method: "POST",
+        headers: {
+          Authorization: authorization,
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          paymentKey: request.paymentKey,
+          orderId: request.orderId,
+          amount: request.amount,
+        }),
+        cache: "no-store",
+      });
+
+      const body = (await response.json().catch(() => ({}))) as Record<
+        string,
+        unknown
+      >;
+
+      if (!response.ok) {
+        // Toss Payments 에러 응답 형식: { code, message }
+        const code = typeof body.code === "string" ? body.code : response.status;
+        const message =
+          typeof body.message === "string"
+            ? body.message
+            : "결제 승인 요청이 실패했습니다.";
+        throw new Error(`${message} (${code})`);
+      }
+
+      return {
+        paymentKey: String(body.paymentKey ?? request.paymentKey),
+        method: String(body.method ?? "UNKNOWN"),
+        totalAmount: Number(body.totalAmount ?? 0),
+        approvedAt: typeof body.approvedAt === "string" ? body.approvedAt : null,
+        raw: body,
+      };
+    },
+
+    async cancelPayment(
+      request: PaymentCancelRequest
+    ): Promise<PaymentCancelResult> {
+      const response = await fetch(
+        `${TOSS_PAYMENTS_API_URL}/payments/${encodeURIComponent(request.paymentKey)}/cancel`,
+        {
+          method: "POST",
+          headers: {
+            Authorization: authorization,
+            "Content-Type": "application/json",
+            "Idempotency-Key": request.idempotencyKey,
+          },
+          body: JSON.stringify({
+            cancelReason: request.cancelReason,
+            cancelAmount: request.cancelAmount,
+          }),
+          cache: "no-store",
+        }
+      );
+
+      const body = (await response.json().catch(() => ({}))) as Record<
+        string,
+        unknown
+      >;
+
+      if (!response.ok) {
+        const code = typeof body.code === "string" ? body.code : response.status;
+        const message =
+          typeof body.message === "string"
+            ? body.message
+            : "결제 취소 요청이 실패했습니다.";
+        throw new Error(`${message} (${code})`);
+      }
+
+      // 응답의 cancels 배열 마지막 항목이 이번 취소 거래
+      const cancels = getCancels(body);
+      return toCancelResult(cancels[cancels.length - 1] ?? {}, body, request.cancelAmount);
+    },
+
+    async getPaymentCancels(paymentKey: string): Promise<PaymentCancelResult[]> {
+      const response = await fetch(
+        `${TOSS_PAYMENTS_API_URL}/payments/${encodeURIComponent(paymentKey)}`,
+        {
+          method: "GET",
+          headers: { Authorization: authorization },
+          cache: "no-store",
+        }
+      );
+
+      const body = (await response.json().catch(() => ({}))) as Record<
+        string,
+        unknown
+      >;
+
+      if (!response.ok) {
+        const code = typeof body.code === "string" ? body.code : response.status;
+        const message =
+          typeof body.message === "string"
+            ? body.message
+            : "결제 조회 요청이 실패했습니다.";
+        throw new Error(`${message} (${code})`);
+      }
+
+      return getCancels(body).map((cancel) => toCancelResult(cancel, cancel));
+    },
+  };
+}
@@ -0,0 +1,42 @@
+/**
+ * @file lib/postcode/fixture-addresses.ts
+ * @description 오프라인 우편번호 검색용 샘플 주소
+ *
+ * 네트워크 없이 우편번호 검색을 사용할 수 있도록 주요 지역의 실제 주소를 모아 둔 데이터입니다.
+ * 제주 / 도서산간 추가 배송비(lib/shipping.ts)도 확인할 수 있도록 해당 지역 주소를 포함합니다.
+ */
+
+import type { PostcodeAddress } from "@/types/postcode";
+
+export const FIXTURE_ADDRESSES: PostcodeAddress[] = [
+  // 서울
+  { postalCode: "06236", roadAddress: "서울특별시 강남구 테헤란로 152", jibunAddress: "서울특별시 강남구 역삼동 737", buildingName: "강남파이낸스센터" },
+  { postalCode: "06164", roadAddress: "서울특별시 강남구 영동대로 513", jibunAddress: "서울특별시 강남구 삼성동 159", buildingName: "코엑스" },
+  { postalCode: "06035", roadAddress: "서울특별시 강남구 가로수길 5", jibunAddress: "서울특별시 강남구 신사동 537-5", buildingName: null },
+  { postalCode: "05551", roadAddress: "서울특별시 송파구 올림픽로 300", jibunAddress: "서울특별시 송파구 신천동 29", buildingName: "롯데월드타워" },
+  { postalCode: "04524", roadAddress: "서울특별시 중구 세종대로 110", jibunAddress: "서울특별시 중구 태평로1가 31", buildingName: "서울특별시청" },
+  { postalCode: "03154", roadAddress: "서울특별시 종로구 세종대로 209", jibunAddress: "서울특별시 종로구 세종로 1-68", buildingName: "정부서울청사" },
+  { postalCode: "04104", roadAddress: "서울특별시 마포구 월드컵북로 396", jibunAddress: "서울특별시 마포구 상암동 1605", buildingName: "누리꿈스퀘어" },
+  { postalCode: "07326", roadAddress: "서울특별시 영등포구 여의대로 108", jibunAddress: "서울특별시 영등포구 여의도동 22", buildingName: "파크원" },
+  { postalCode: "08826", roadAddress: "서울특별시 관악구 관악로 1", jibunAddress: "서울특별시 관악구 신림동 산 56-1", buildingName: "서울대학교" },
+  // 경기 / 인천
+  { postalCode: "13529", roadAddress: "경기도 성남시 분당구 판교역로 235", jibunAddress: "경기도 성남시 분당구 삼평동 681", buildingName: "에이치스퀘어" },
+  { postalCode: "16677", roadAddress: "경기도 수원시 영통구 삼성로 129", jibunAddress: "경기도 수원시 영통구 매탄동 416", buildingName: null },
+  { postalCode: "10391", roadAddress: "경기도 고양시 일산서구 킨텍스로 217-60", jibunAddress: "경기도 고양시 일산서구 대화동 2600", buildingName: "킨텍스" },
+  { postalCode: "22382", roadAddress: "인천광역시 중구 공항로 272", jibunAddress: "인천광역시 중구 운서동 2850", buildingName: "인천국제공항" },
+  { postalCode: "23124", roadAddress: "인천광역시 옹진군 백령면 백령로 831", jibunAddress: "인천광역시 옹진군 백령면 진촌리 1024", buildingName: null },
+  // 광역시
+  { postalCode: "48058", roadAddress: "부산광역시 해운대구 해운대해변로 264", jibunAddress: "부산광역시 해운대구 우동 620-1", buildingName: null },
+  { postalCode: "47545", roadAddress: "부산광역시 연제구 중앙대로 1001", jibunAddress: "부산광역시 연제구 연산동 1000", buildingName: "부산광역시청" },
+  { postalCode: "41911", roadAddress: "대구광역시 중구 공평로 88", jibunAddress: "대구광역시 중구 동인동1가 2-1", buildingName: "대구광역시청" },
+  { postalCode: "35242", roadAddress: "대전광역시 서구 둔산로 100", jibunAddress: "대전광역시 서구 둔산동 1420", buildingName: "대전광역시청" },
+  { postalCode: "61945", roadAddress: "광주광역시 서구 내방로 111", jibunAddress: "광주광역시 서구 치평동 1200", buildingName: "광주광역시청" },
+  { postalCode: "44675", roadAddress: "울산광역시 남구 중앙로 201", jibunAddress: "울산광역시 남구 신정동 646-4", buildingName: "울산광역시청" },
+  { postalCode: "30103", roadAddress: "세종특별자치시 한누리대로 2130", jibunAddress: "세종특별자치시 보람동 573", buildingName: "세종특별자치시청" },
+  // 제주
+  { postalCode: "63122", roadAddress: "제주특별자치도 제주시 문연로 6", jibunAddress: "제주특별자치도 제주시 연동 312-1", buildingName: "제주특별자치도청" },
+  { postalCode: "63535", roadAddress: "제주특별자치도 서귀포시 중앙로 105", jibunAddress: "제주특별자치도 서귀포시 서귀동 314-1", buildingName: null },
+  // 도서산간
+  { postalCode: "40240", roadAddress: "경상북도 울릉군 울릉읍 도동길 56", jibunAddress: "경상북도 울릉군 울릉읍 도동리 156", buildingName: null },
+  { postalCode: "53033", roadAddress: "경상남도 통영시 욕지면 욕지일주로 5", jibunAddress: "경상남도 통영시 욕지면 동항리 1", buildingName: null },
+];
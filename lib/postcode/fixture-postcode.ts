@@ -0,0 +1,53 @@
+/**
+ * @file lib/postcode/fixture-postcode.ts
+ * @description 오프라인 우편번호 검색 어댑터
+ *
+ * 외부 API를 호출하지 않고 샘플 주소(fixture-addresses.ts)에서 검색하는 PostcodeAdapter 구현입니다.
+ * 카카오 REST API 키가 없는 로컬 개발 환경과 테스트에서 사용합니다.
+ *
+ * 검색 규칙:
+ * 1. 검색어를 공백으로 나눈 모든 단어가 도로명 주소, 지번 주소, 건물 이름, 우편번호 중 하나에 포함되면 일치
+ * 2. 띄어쓰기는 무시합니다. (예: "테헤란로152" = "테헤란로 152")
+ */
+
+import { FIXTURE_ADDRESSES } from "@/lib/postcode/fixture-addresses";
+import type { PostcodeAdapter, PostcodeAddress } from "@/types/postcode";
+
+/**
+ * 띄어쓰기를 제거하고 소문자로 변환합니다.
+ */
+function normalize(value: string): string {
+  return value.replace(/\s+/g, "").toLowerCase();
+}
+
+/**
+ * 오프라인 우편번호 검색 어댑터를 생성합니다.
+ *
+ * @param addresses - 검색 대상 주소 (테스트에서 바꿀 때 사용)
+ * @returns PostcodeAdapter
+ */
+export function createFixturePostcodeAdapter(
+  addresses: PostcodeAddress[] = FIXTURE_ADDRESSES
+): PostcodeAdapter {
+  return {
+    name: "fixture",
+
+    async search(query: string, limit: number): Promise<PostcodeAddress[]> {
+      const keywords = query.split(/\s+/).map(normalize).filter(Boolean);
+      if (keywords.length === 0) {
+        return [];
+      }
+
+      return addresses
+        .filter((address) => {
+          const target = normalize(
+            [address.roadAddress, address.jibunAddress, address.buildingName, address.postalCode]
+              .filter(Boolean)
+              .join(" ")
+          );
+          return keywords.every((keyword) => target.includes(keyword));
+        })
+        .slice(0, limit);
+    },
+  };
+}
@@ -0,0 +1,55 @@
+/**
+ * @file lib/postcode/index.ts
+ * @description 우편번호 검색 어댑터 선택
+ *
+ * 환경 변수에 따라 사용할 우편번호 검색 어댑터를 결정합니다.
+ *
+ * 선택 규칙:
+ * 1. POSTCODE_ADAPTER가 "kakao" 또는 "fixture"이면 해당 어댑터 사용
+ * 2. 지정하지 않은 경우 KAKAO_REST_API_KEY가 있으면 kakao, 없으면 fixture
+ *
+ * @dependencies
+ * - lib/postcode/kakao-postcode.ts: 카카오 주소 검색 구현
+ * - lib/postcode/fixture-postcode.ts: 오프라인 샘플 주소 검색 구현
+ */
+
+import { createKakaoPostcodeAdapter } from "@/lib/postcode/kakao-postcode";
+import { createFixturePostcodeAdapter } from "@/lib/postcode/fixture-postcode";
+import type { PostcodeAdapter, PostcodeAdapterName } from "@/types/postcode";
+
+/**
+ * 환경 변수에서 우편번호 검색 어댑터 이름을 결정합니다.
+ */
+function getPostcodeAdapterName(): PostcodeAdapterName {
+  const configured = process.env.POSTCODE_ADAPTER;
+
+  if (configured === "kakao" || configured === "fixture") {
+    return configured;
+  }
+
+  return process.env.KAKAO_REST_API_KEY ? "kakao" : "fixture";
+}
+
+/**
+ * 서버에서 사용할 우편번호 검색 어댑터를 가져옵니다.
+ *
+ * @returns PostcodeAdapter
+ * @throws kakao로 설정되었지만 REST API 키가 없는 경우 에러
+ */
+export function getPostcodeAdapter(): PostcodeAdapter {
+  const name = getPostcodeAdapterName();
+
+  if (name === "kakao") {
+    const restApiKey = process.env.KAKAO_REST_API_KEY;
+    if (!restApiKey) {
+      throw new Error("KAKAO_REST_API_KEY 환경 변수가 설정되지 않았습니다.");
+    }
+    return createKakaoPostcodeAdapter(restApiKey);
+  }
+
+  if (process.env.NODE_ENV === "production") {
+    console.warn("⚠️ 프로덕션 환경에서 오프라인 샘플 주소 검색을 사용하고 있습니다.");
+  }
+
+  return createFixturePostcodeAdapter();
+}
@@ -0,0 +1,83 @@
+/**
+ * @file lib/postcode/kakao-postcode.ts
+ * @description 카카오 주소 검색 어댑터
+ *
+ * 카카오 로컬 API의 주소 검색을 호출하는 PostcodeAdapter 구현입니다.
+ * REST API 키는 서버에서만 사용하며, `KakaoAK {REST API 키}` 인증 헤더로 전달합니다.
+ * 도로명 주소와 우편번호(zone_no)가 있는 결과만 돌려줍니다.
+ *
+ * @see https://developers.kakao.com/docs/latest/ko/local/dev-guide#address-coord
+ */
+
+import type { PostcodeAdapter, PostcodeAddress } from "@/types/postcode";
+
+const KAKAO_LOCAL_API_URL = "https://dapi.kakao.com/v2/local";
+
+/**
+ * 카카오 주소 검색 응답의 주소 1건 (사용하는 필드만)
+ */
+interface KakaoAddressDocument {
+  address_name: string;
+  address: { address_name: string } | null;
+  road_address: {
+    address_name: string;
+    zone_no: string;
+    building_name: string;
+  } | null;
+}
+
+/**
+ * 카카오 주소 검색 어댑터를 생성합니다.
+ *
+ * @param restApiKey - 카카오 REST API 키 (KAKAO_REST_API_KEY)
+ * @returns PostcodeAdapter
+ */
+export function createKakaoPostcodeAdapter(restApiKey: string): PostcodeAdapter {
+  return {
+    name: "kakao",
+
+    async search(query: string, limit: number): Promise<PostcodeAddress[]> {
+      const params = new URLSearchParams({
+        query,
+        size: String(Math.min(Math.max(limit, 1), 30)), // 카카오 API 허용 범위: 1~30
+      });
+
+      const response = await fetch(
+        `${KAKAO_LOCAL_API_URL}/search/address.json?${params.toString()}`,
+        {
+          headers: { Authorization: `KakaoAK ${restApiKey}` },
+          cache: "no-store",
+        }
+      );
+
+      const body = (await response.json().catch(() => ({}))) as Record<
+        string,
+        unknown
+      >;
+
+      if (!response.ok) {
+        // 카카오 API 에러 응답 형식: { errorType, message }
+        const code =
+          typeof body.errorType === "string" ? body.errorType : response.status;
+        const message =
+          typeof body.message === "string"
+            ? body.message
+            : "주소 검색 요청이 실패했습니다.";
+        throw new Error(`${message} (${code})`);
+      }
+
+      const documents = Array.isArray(body.documents)
+        ? (body.documents as KakaoAddressDocument[])
+        : [];
+
+      return documents
+        .filter((document) => document.road_address?.zone_no)
+        .map((document) => ({
+          postalCode: document.road_address!.zone_no,
+          roadAddress: document.road_address!.address_name,
+          jibunAddress: document.address?.address_name ?? null,
+          buildingName: document.road_address!.building_name || null,
+        }));
+    },
+  };
+}
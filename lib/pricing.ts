@@ -0,0 +1,125 @@
+/**
+ * @file lib/pricing.ts
+ * @description 상품 판매 가격 규칙
+ *
+ * 프로모션 기간을 반영한 실제 판매 가격(유효 가격)을 한 곳에서 계산합니다.
+ * 상품 카드, 상품 상세, 장바구니 / 주문 요약, 쿠폰 / 주문 금액 계산이 같은 규칙을 사용하고,
+ * 주문 생성(place_order)과 가격 필터는 DB의 product_effective_price 함수로 같은 규칙을 적용합니다.
+ *
+ * 가격 규칙:
+ * 1. 프로모션 상품(is_promotional)의 price는 특가, original_price는 정가입니다.
+ * 2. 프로모션 기간(promotion_start_date ~ promotion_end_date, NULL이면 제한 없음) 안에서만 특가로 판매합니다.
+ * 3. 프로모션 기간 전 / 후에는 정가(original_price)로 판매합니다.
+ * 4. 정가가 없거나 특가보다 크지 않으면 할인 없이 price로 판매합니다.
+ *
+ * @dependencies
+ * - types/product.ts: Product 타입
+ */
+
+import type { Product } from "@/types/product";
+
+/**
+ * 판매 가격 계산에 필요한 상품 필드
+ */
+export type PricedProduct = Pick<
+  Product,
+  "price" | "original_price" | "is_promotional" | "promotion_start_date" | "promotion_end_date"
+>;
+
+/**
+ * 상품 판매 가격 정보
+ */
+export interface ProductPricing {
+  price: number; // 실제 판매 가격 (결제 금액 계산 기준)
+  originalPrice: number | null; // 할인 전 가격 (특가 판매 중일 때만)
+  discountPercentage: number | null; // 할인율 (정수 %, 특가 판매 중일 때만)
+  isPromotionActive: boolean; // 특가 판매 중 여부
+  promotionEndsAt: string | null; // 진행 중인 프로모션 종료 일시 (카운트다운 표시용)
+  promotionStartsAt: string | null; // 예정된 프로모션 시작 일시
+}
+
+/**
+ * 프로모션 기간 안인지 확인합니다. (DB의 is_promotion_active 함수와 같은 규칙)
+ *
+ * @param startDate - 프로모션 시작일시 (NULL이면 제한 없음)
+ * @param endDate - 프로모션 종료일시 (NULL이면 제한 없음)
+ * @param now - 기준 시각
+ */
+export function isWithinPromotionPeriod(
+  startDate: string | null,
+  endDate: string | null,
+  now: Date = new Date()
+): boolean {
+  const time = now.getTime();
+
+  if (startDate && time < new Date(startDate).getTime()) {
+    return false;
+  }
+  if (endDate && time > new Date(endDate).getTime()) {
+    return false;
+  }
+  return true;
+}
+
+/**
+ * 프로모션 기간을 반영한 상품 판매 가격 정보를 계산합니다.
+ *
+ * @param product - 상품 (가격, 정가, 프로모션 기간)
+ * @param now - 기준 시각
+ * @returns 판매 가격 정보
+ */
+export function getProductPricing(
+  product: PricedProduct,
+  now: Date = new Date()
+): ProductPricing {
+  const price = Number(product.price);
+  const originalPrice = product.original_price != null ? Number(product.original_price) : null;
+
+  // 정가가 없거나 특가보다 크지 않으면 할인 없는 상품
+  if (!product.is_promotional || originalPrice === null || originalPrice <= price) {
+    return {
+      price,
+      originalPrice: null,
+      discountPercentage: null,
+      isPromotionActive: false,
+      promotionEndsAt: null,
+      promotionStartsAt: null,
+    };
+  }
+
+  // 프로모션 기간 밖이면 정가로 판매
+  if (!isWithinPromotionPeriod(product.promotion_start_date, product.promotion_end_date, now)) {
+    const isUpcoming =
+      !!product.promotion_start_date &&
+      now.getTime() < new Date(product.promotion_start_date).getTime();
+
+    return {
+      price: originalPrice,
+      originalPrice: null,
+      discountPercentage: null,
+      isPromotionActive: false,
+      promotionEndsAt: null,
+      promotionStartsAt: isUpcoming ? product.promotion_start_date : null,
+    };
+  }
+
+  return {
+    price,
+    originalPrice,
+    discountPercentage: Math.round(((originalPrice - price) / originalPrice) * 100),
+    isPromotionActive: true,
+    promotionEndsAt: product.promotion_end_date,
+    promotionStartsAt: null,
+  };
+}
+
+/**
+ * 프로모션 기간을 반영한 실제 판매 가격을 계산합니다.
+ *
+ * @param product - 상품 (가격, 정가, 프로모션 기간)
+ * @param now - 기준 시각
+ * @returns 실제 판매 가격
+ */
+export function getEffectivePrice(product: PricedProduct, now: Date = new Date()): number {
+  return getProductPricing(product, now).price;
+}
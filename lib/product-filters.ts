@@ -0,0 +1,271 @@
+/**
+ * @file lib/product-filters.ts
+ * @description 상품 목록 필터(패싯) 규칙
+ *
+ * 상품 목록 페이지의 필터 상태를 URL 쿼리 파라미터로 주고받기 위한 규칙을 한 곳에서 관리합니다.
+ * 필터된 목록을 공유하거나 검색 엔진이 수집할 수 있도록 모든 필터를 URL에 담습니다.
+ *
+ * 주요 기능:
+ * 1. URL 쿼리 파라미터 → 필터 상태 변환 (잘못된 값은 무시)
+ * 2. 필터 상태 → URL / DB 함수(filter_products, get_product_facets) 파라미터 변환
+ * 3. 가격대 구간 정의
+ * 4. 사이즈 정렬 (XS < S < M < L < XL, 숫자 사이즈는 오름차순)
+ *
+ * URL 쿼리 파라미터:
+ * - category: 카테고리 코드
+ * - min_price / max_price: 가격 범위 (원, 이상 / 이하)
+ * - in_stock=1: 재고 있는 상품만
+ * - on_sale=1: 특가 상품만 (프로모션 기간 중)
+ * - size / color: 쉼표로 구분한 옵션 값 (예: size=S,M)
+ *
+ * 실제 필터 조건은 DB의 product_matches_filters 함수에서 처리합니다.
+ */
+
+/**
+ * 상품 목록 필터 상태
+ */
+export interface ProductFilters {
+  category: string | null;
+  minPrice: number | null; // 최소 가격 (이상)
+  maxPrice: number | null; // 최대 가격 (이하)
+  inStock: boolean; // 재고 있는 상품만
+  onSale: boolean; // 특가 상품만
+  sizes: string[]; // 하나라도 포함하는 상품
+  colors: string[]; // 하나라도 포함하는 상품
+}
+
+/**
+ * 가격대 구간
+ */
+export interface PriceRange {
+  label: string;
+  min: number | null;
+  max: number | null;
+}
+
+/**
+ * 가격대 필터 구간 (원)
+ */
+export const PRICE_RANGES: PriceRange[] = [
+  { label: "3만원 미만", min: null, max: 29999 },
+  { label: "3만원 ~ 5만원", min: 30000, max: 49999 },
+  { label: "5만원 ~ 10만원", min: 50000, max: 99999 },
+  { label: "10만원 이상", min: 100000, max: null },
+];
+
+/**
+ * 필터 값과 상품 수
+ */
+export interface FacetValue {
+  value: string;
+  count: number;
+}
+
+/**
+ * 필터별 상품 수 (get_product_facets 함수 결과)
+ * 각 필터의 상품 수는 해당 필터를 제외한 나머지 필터를 적용한 결과입니다.
+ */
+export interface ProductFacets {
+  total: number;
+  categories: FacetValue[];
+  priceRanges: Array<PriceRange & { count: number }>;
+  inStock: number;
+  onSale: number;
+  sizes: FacetValue[];
+  colors: FacetValue[];
+}
+
+/**
+ * 필터당 최대 선택 개수 (사이즈 / 색상)
+ */
+const MAX_FILTER_VALUES = 20;
+
+/**
+ * 빈 필터 상태
+ */
+export const EMPTY_PRODUCT_FILTERS: ProductFilters = {
+  category: null,
+  minPrice: null,
+  maxPrice: null,
+  inStock: false,
+  onSale: false,
+  sizes: [],
+  colors: [],
+};
+
+/**
+ * 가격 파라미터를 0 이상의 정수로 변환합니다. (잘못된 값은 null)
+ */
+function parsePrice(value: string | undefined): number | null {
+  if (!value) {
+    return null;
+  }
+  const price = parseInt(value, 10);
+  return Number.isNaN(price) || price < 0 ? null : price;
+}
+
+/**
+ * 쉼표로 구분한 옵션 값 파라미터를 배열로 변환합니다. (중복 / 빈 값 제거)
+ */
+function parseValueList(value: string | undefined): string[] {
+  if (!value) {
+    return [];
+  }
+  return Array.from(
+    new Set(
+      value
+        .split(",")
+        .map((item) => item.trim())
+        .filter(Boolean)
+    )
+  ).slice(0, MAX_FILTER_VALUES);
+}
+
+/**
+ * URL 쿼리 파라미터에서 필터 상태를 추출합니다.
+ *
+ * @param params - 페이지 searchParams
+ * @returns 필터 상태 (잘못된 값은 무시, 최소 가격이 최대 가격보다 크면 서로 바꿈)
+ */
+export function parseProductFilters(params: {
+  category?: string;
+  min_price?: string;
+  max_price?: string;
+  in_stock?: string;
+  on_sale?: string;
+  size?: string;
+  color?: string;
+}): ProductFilters {
+  let minPrice = parsePrice(params.min_price);
+  let maxPrice = parsePrice(params.max_price);
+  if (minPrice !== null && maxPrice !== null && minPrice > maxPrice) {
+    [minPrice, maxPrice] = [maxPrice, minPrice];
+  }
+
+  return {
+    category: params.category || null,
+    minPrice,
+    maxPrice,
+    inStock: params.in_stock === "1",
+    onSale: params.on_sale === "1",
+    sizes: parseValueList(params.size),
+    colors: parseValueList(params.color),
+  };
+}
+
+/**
+ * 필터 상태를 URL 쿼리 파라미터로 변환합니다. (적용하지 않은 필터는 제외)
+ */
+export function productFiltersToQuery(
+  filters: ProductFilters
+): Record<string, string | undefined> {
+  return {
+    category: filters.category ?? undefined,
+    min_price: filters.minPrice !== null ? String(filters.minPrice) : undefined,
+    max_price: filters.maxPrice !== null ? String(filters.maxPrice) : undefined,
+    in_stock: filters.inStock ? "1" : undefined,
+    on_sale: filters.onSale ? "1" : undefined,
+    size: filters.sizes.length > 0 ? filters.sizes.join(",") : undefined,
+    color: filters.colors.length > 0 ? filters.colors.join(",") : undefined,
+  };
+}
+
+/**
+ * 상품 목록 페이지 경로를 만듭니다. (필터 + 정렬 + 페이지)
+ *
+ * @param filters - 필터 상태
+ * @param options - 정렬(기본 정렬이면 생략), 페이지(1페이지면 생략)
+ * @returns 상품 목록 경로 (예: /products?category=clothing&size=S%2CM)
+ */
+export function buildProductListHref(
+  filters: ProductFilters,
+  options: { sort?: string; page?: number } = {}
+): string {
+  const searchParams = new URLSearchParams();
+  Object.entries({
+    ...productFiltersToQuery(filters),
+    sort: options.sort,
+    page: options.page && options.page > 1 ? String(options.page) : undefined,
+  }).forEach(([key, value]) => {
+    if (value) {
+      searchParams.set(key, value);
+    }
+  });
+  const queryString = searchParams.toString();
+  return queryString ? `/products?${queryString}` : "/products";
+}
+
+/**
+ * 필터 상태를 DB 함수(filter_products, get_product_facets) 파라미터로 변환합니다.
+ */
+export function productFiltersToRpcParams(filters: ProductFilters) {
+  return {
+    p_category: filters.category,
+    p_min_price: filters.minPrice,
+    p_max_price: filters.maxPrice,
+    p_in_stock: filters.inStock,
+    p_on_sale: filters.onSale,
+    p_sizes: filters.sizes.length > 0 ? filters.sizes : null,
+    p_colors: filters.colors.length > 0 ? filters.colors : null,
+  };
+}
+
+/**
+ * 카테고리를 제외한 필터가 하나라도 적용되어 있는지 확인합니다.
+ */
+export function hasActiveFilters(filters: ProductFilters): boolean {
+  return (
+    filters.minPrice !== null ||
+    filters.maxPrice !== null ||
+    filters.inStock ||
+    filters.onSale ||
+    filters.sizes.length > 0 ||
+    filters.colors.length > 0
+  );
+}
+
+/**
+ * 옵션 값 목록에서 값을 선택 / 해제합니다.
+ */
+export function toggleFilterValue(values: string[], value: string): string[] {
+  return values.includes(value)
+    ? values.filter((item) => item !== value)
+    : [...values, value];
+}
+
+/**
+ * 가격대 구간이 현재 가격 필터와 같은지 확인합니다.
+ */
+export function isPriceRangeSelected(filters: ProductFilters, range: PriceRange): boolean {
+  return filters.minPrice === range.min && filters.maxPrice === range.max;
+}
+
+/**
+ * 의류 사이즈 표시 순서
+ */
+const SIZE_ORDER = ["XXS", "XS", "S", "M", "L", "XL", "XXL", "XXXL", "FREE"];
+
+/**
+ * 사이즈 값을 정렬합니다.
+ * 의류 사이즈(XS, S, M, L, XL …) → 숫자 사이즈(230, 240 …) → 그 외(가나다순) 순서입니다.
+ */
+export function compareSizes(a: string, b: string): number {
+  const rank = (value: string): [number, number] => {
+    const index = SIZE_ORDER.indexOf(value.toUpperCase());
+    if (index !== -1) {
+      return [0, index];
+    }
+    const numeric = Number(value);
+    if (!Number.isNaN(numeric)) {
+      return [1, numeric];
+    }
+    return [2, 0];
+  };
+
+  const [groupA, orderA] = rank(a);
+  const [groupB, orderB] = rank(b);
+  if (groupA !== groupB) {
+    return groupA - groupB;
+  }
+  return orderA !== orderB ? orderA - orderB : a.localeCompare(b, "ko");
+}
@@ -0,0 +1,203 @@
+/**
+ * @file lib/product-variants.ts
+ * @description 상품 옵션 조합(variant) 규칙
+ *
+ * 관리자 옵션 조합 매트릭스, 상품 상세 옵션 선택, 장바구니/주문 금액 계산이
+ * 같은 규칙을 사용하도록 옵션 조합 관련 계산을 한 곳에서 관리합니다.
+ *
+ * 주요 기능:
+ * 1. 상품 옵션 축(사이즈, 색상) 추출 및 옵션 조합 생성
+ * 2. 선택한 옵션으로 옵션 조합 찾기, 품절 조합 판단
+ * 3. 옵션 추가 금액을 반영한 단가 / 재고 계산 (장바구니 항목, 상품 가격은 프로모션 기간을 반영한 판매 가격)
+ *
+ * 옵션 조합의 options 키는 화면 표시명(사이즈, 색상)을 그대로 사용합니다.
+ *
+ * @dependencies
+ * - lib/pricing.ts: 프로모션 기간을 반영한 판매 가격
+ * - types/product.ts: Product, ProductVariant 타입
+ * - types/cart.ts: CartItemWithProduct 타입
+ */
+
+import { getEffectivePrice, getProductPricing } from "@/lib/pricing";
+import type { Product, ProductVariant } from "@/types/product";
+import type { CartItemWithProduct } from "@/types/cart";
+
+/**
+ * 옵션 축 정의
+ * - name: 옵션 조합 options의 키 (화면 표시명)
+ * - source: products.options에서 옵션 값 목록을 저장하는 키
+ */
+const VARIANT_OPTION_AXES = [
+  { name: "사이즈", source: "sizes" },
+  { name: "색상", source: "colors" },
+] as const;
+
+/**
+ * 옵션 축 (옵션 이름과 선택 가능한 값 목록)
+ */
+export interface VariantOptionAxis {
+  name: string; // 옵션 이름 (예: "사이즈")
+  values: string[]; // 옵션 값 (예: ["S", "M", "L"])
+}
+
+/**
+ * 상품 옵션(products.options)에서 옵션 축을 추출합니다.
+ * 값이 없는 옵션 축은 제외합니다.
+ *
+ * @param options - 상품 옵션 (sizes, colors 배열)
+ * @returns 옵션 축 목록
+ */
+export function getVariantOptionAxes(
+  options: Product["options"]
+): VariantOptionAxis[] {
+  return VARIANT_OPTION_AXES.map((axis) => {
+    const raw = options?.[axis.source];
+    const values = Array.isArray(raw)
+      ? Array.from(
+          new Set(
+            raw
+              .filter((value): value is string => typeof value === "string")
+              .map((value) => value.trim())
+              .filter(Boolean)
+          )
+        )
+      : [];
+    return { name: axis.name, values };
+  }).filter((axis) => axis.values.length > 0);
+}
+
+/**
+ * 옵션 축의 모든 옵션 조합을 생성합니다. (사이즈 × 색상)
+ *
+ * @param axes - 옵션 축 목록
+ * @returns 옵션 조합 목록 (옵션 축이 없으면 빈 배열)
+ */
+export function buildVariantCombinations(
+  axes: VariantOptionAxis[]
+): Record<string, string>[] {
+  if (axes.length === 0) {
+    return [];
+  }
+
+  return axes.reduce<Record<string, string>[]>(
+    (combinations, axis) =>
+      combinations.flatMap((combination) =>
+        axis.values.map((value) => ({ ...combination, [axis.name]: value }))
+      ),
+    [{}]
+  );
+}
+
+/**
+ * 옵션 조합을 비교용 문자열로 변환합니다. (키 순서와 무관)
+ *
+ * @param options - 옵션 조합
+ * @returns 비교용 문자열 (예: "사이즈=M|색상=검정")
+ */
+export function getVariantKey(options: Record<string, string>): string {
+  return Object.keys(options)
+    .sort()
+    .map((key) => `${key}=${options[key]}`)
+    .join("|");
+}
+
+/**
+ * 옵션 조합을 표시용 문자열로 변환합니다.
+ *
+ * @param options - 옵션 조합
+ * @returns 표시용 문자열 (예: "사이즈: M / 색상: 검정")
+ */
+export function formatVariantOptions(options: Record<string, string>): string {
+  return Object.entries(options)
+    .map(([key, value]) => `${key}: ${value}`)
+    .join(" / ");
+}
+
+/**
+ * 선택한 옵션과 정확히 일치하는 옵션 조합을 찾습니다.
+ *
+ * @param variants - 상품의 옵션 조합 목록
+ * @param selection - 선택한 옵션 (옵션 이름 → 값)
+ * @returns 일치하는 옵션 조합 (없으면 null)
+ */
+export function findVariant(
+  variants: ProductVariant[],
+  selection: Record<string, string>
+): ProductVariant | null {
+  const key = getVariantKey(selection);
+  return variants.find((variant) => getVariantKey(variant.options) === key) ?? null;
+}
+
+/**
+ * 옵션 조합을 구매할 수 있는지 확인합니다. (판매 중이고 재고가 있는 경우)
+ */
+export function isVariantPurchasable(variant: ProductVariant): boolean {
+  return variant.is_active && variant.stock_quantity > 0;
+}
+
+/**
+ * 옵션 값을 선택할 수 있는지 확인합니다.
+ * 다른 옵션 축에서 이미 선택한 값과 함께 구매 가능한 옵션 조합이 하나라도 있으면 선택할 수 있습니다.
+ *
+ * @param variants - 상품의 옵션 조합 목록
+ * @param selection - 현재 선택한 옵션
+ * @param axisName - 확인할 옵션 이름
+ * @param value - 확인할 옵션 값
+ * @returns 선택 가능 여부
+ */
+export function isOptionValueAvailable(
+  variants: ProductVariant[],
+  selection: Record<string, string>,
+  axisName: string,
+  value: string
+): boolean {
+  const candidate = { ...selection, [axisName]: value };
+
+  return variants.some(
+    (variant) =>
+      isVariantPurchasable(variant) &&
+      Object.entries(candidate).every(([name, selected]) => variant.options[name] === selected)
+  );
+}
+
+/**
+ * 옵션 추가 금액을 반영한 단가를 계산합니다.
+ *
+ * @param basePrice - 상품 가격
+ * @param variant - 옵션 조합 (없으면 상품 가격 그대로)
+ * @returns 단가
+ */
+export function getVariantUnitPrice(
+  basePrice: number,
+  variant: Pick<ProductVariant, "price_delta"> | null | undefined
+): number {
+  return Number(basePrice) + Number(variant?.price_delta ?? 0);
+}
+
+/**
+ * 장바구니 항목의 단가를 계산합니다. (판매 가격 + 옵션 추가 금액)
+ */
+export function getCartItemUnitPrice(item: CartItemWithProduct): number {
+  return getVariantUnitPrice(getEffectivePrice(item.product), item.variant);
+}
+
+/**
+ * 특가 판매 중인 장바구니 항목의 할인 전 단가를 계산합니다. (정가 + 옵션 추가 금액)
+ *
+ * @returns 할인 전 단가 (특가 판매 중이 아니면 null)
+ */
+export function getCartItemOriginalUnitPrice(item: CartItemWithProduct): number | null {
+  const { originalPrice } = getProductPricing(item.product);
+  return originalPrice !== null ? getVariantUnitPrice(originalPrice, item.variant) : null;
+}
+
+/**
+ * 장바구니 항목의 구매 가능 재고를 가져옵니다.
+ * 옵션 조합을 선택한 항목은 옵션 조합 재고를 사용합니다.
+ */
+export function getCartItemStock(item: CartItemWithProduct): number {
+  if (item.variant) {
+    return item.variant.is_active ? item.variant.stock_quantity : 0;
+  }
+  return item.product.stock_quantity;
+}
@@ -0,0 +1,188 @@
+/**
+ * @file lib/refunds.ts
+ * @description 환불 금액 계산 규칙
+ *
+ * 주문 취소(전액)와 반품 승인(부분) 시 환불할 금액을 계산합니다.
+ * 환불 처리(lib/payments/refunds.ts)와 관리자 화면이 같은 금액을 사용하도록 순수 함수로만 구성합니다.
+ *
+ * 계산 규칙:
+ * 1. 주문 취소: 남은 결제 금액 전액 (상품 금액 + 배송비 - 쿠폰 할인)
+ * 2. 반품: 관리자가 확정한 반품 상품 금액에서 주문 항목에 안분된 쿠폰 할인(할인 대상 상품만)을 반품 수량 비율로 차감
+ * 3. 판매자 귀책(상품 불량, 오배송, 파손) 반품은 반품 배송비를 차감하지 않고,
+ *    주문 상품이 모두 반품되면 결제한 배송비도 환불
+ * 4. 단순 변심 반품은 반품 배송비를 차감하고, 무료 배송 기준으로 면제된 주문이
+ *    이번 반품으로 기준 금액 미만이 되면 면제된 초기 배송비도 함께 차감
+ * 5. 환불 금액은 0원 이상, 남은 결제 금액 이하
+ *
+ * 환불 유형 / 처리 상태 레이블과 재시도 가능 여부도 함께 관리합니다.
+ *
+ * @dependencies
+ * - lib/shipping.ts: 무료 배송 기준 금액, 기본 배송비, 반품 배송비
+ * - types/refund.ts: RefundBreakdown, 환불 유형 / 상태 타입
+ */
+
+import { DEFAULT_SHIPPING_POLICY, type ShippingPolicy } from "@/lib/shipping";
+import type {
+  OrderRefund,
+  OrderRefundStatus,
+  OrderRefundType,
+  RefundBreakdown,
+} from "@/types/refund";
+
+/**
+ * 환불 유형별 레이블
+ */
+export const REFUND_TYPE_LABELS: Record<OrderRefundType, string> = {
+  cancel: "주문 취소 환불",
+  return: "반품 환불",
+};
+
+/**
+ * 환불 처리 상태별 레이블
+ */
+export const REFUND_STATUS_LABELS: Record<OrderRefundStatus, string> = {
+  requested: "환불 요청",
+  completed: "환불 완료",
+  failed: "환불 실패",
+};
+
+/**
+ * 환불 처리 상태별 배지 색상 클래스
+ */
+export const REFUND_STATUS_COLORS: Record<OrderRefundStatus, string> = {
+  requested: "bg-orange-500 text-white",
+  completed: "bg-green-500 text-white",
+  failed: "bg-red-500 text-white",
+};
+
+/**
+ * 결제 취소 요청 후 결과가 기록되지 않으면 멈춘 것으로 보는 시간 (분)
+ * (restart_order_refund 함수와 같은 값)
+ */
+export const REFUND_REQUEST_TIMEOUT_MINUTES = 10;
+
+/**
+ * 관리자가 다시 시도할 수 있는 환불인지 확인합니다.
+ * 결제 취소에 실패했거나, 요청 중인 채로 REFUND_REQUEST_TIMEOUT_MINUTES가 지난 환불입니다.
+ *
+ * @param refund - 환불 내역
+ * @param now - 기준 시각 (밀리초)
+ */
+export function isRetryableRefund(
+  refund: Pick<OrderRefund, "status" | "updated_at">,
+  now: number = Date.now()
+): boolean {
+  if (refund.status === "failed") {
+    return true;
+  }
+  return (
+    refund.status === "requested" &&
+    now - new Date(refund.updated_at).getTime() >= REFUND_REQUEST_TIMEOUT_MINUTES * 60 * 1000
+  );
+}
+
+/**
+ * 환불 금액 계산에 필요한 주문 금액
+ */
+export interface RefundableOrder {
+  subtotal: number; // 상품 금액 합계
+  shippingFee: number; // 결제한 배송비
+  discountAmount: number; // 쿠폰 할인 금액
+  totalAmount: number; // 결제 금액
+  refundedAmount: number; // 이미 환불했거나 환불 요청 중인 금액
+}
+
+/**
+ * 반품 환불 금액 계산에 필요한 데이터
+ */
+export interface ReturnRefundInput {
+  productAmount: number; // 반품 상품 환불 금액 (관리자 확정, 주문 단가 × 수량 이하)
+  claimSubtotal: number; // 반품 상품 금액 (주문 단가 × 반품 수량)
+  itemSubtotal: number; // 반품 주문 항목 금액 (주문 단가 × 주문 수량)
+  itemDiscountAmount: number; // 반품 주문 항목에 안분된 쿠폰 할인 금액 (할인 대상이 아니면 0)
+  previouslyReturnedSubtotal: number; // 이전에 반품 승인된 상품 금액 합계 (주문 단가 × 수량)
+  sellerFault: boolean; // 판매자 귀책 여부
+}
+
+/**
+ * 남은 결제 금액 (환불 가능 금액)을 계산합니다.
+ */
+export function getRefundableAmount(order: RefundableOrder): number {
+  return Math.max(order.totalAmount - order.refundedAmount, 0);
+}
+
+/**
+ * 주문 취소 환불 금액을 계산합니다. (남은 결제 금액 전액)
+ *
+ * @param order - 주문 금액
+ * @returns 환불 금액 계산 결과
+ */
+export function calculateCancelRefund(order: RefundableOrder): RefundBreakdown {
+  return {
+    productAmount: order.subtotal,
+    discountAmount: order.discountAmount,
+    shippingAmount: order.shippingFee,
+    deductionAmount: 0,
+    amount: getRefundableAmount(order),
+  };
+}
+
+/**
+ * 반품 환불 금액을 계산합니다.
+ *
+ * @param order - 주문 금액
+ * @param input - 반품 상품 금액, 이전 반품 금액, 귀책 여부
+ * @param policy - 배송비 정책
+ * @returns 환불 금액 계산 결과
+ */
+export function calculateReturnRefund(
+  order: RefundableOrder,
+  input: ReturnRefundInput,
+  policy: ShippingPolicy = DEFAULT_SHIPPING_POLICY
+): RefundBreakdown {
+  // 1. 쿠폰 할인 안분 (주문 항목 할인 금액 중 반품 수량 비율, 할인 대상이 아닌 상품은 0)
+  const discountAmount =
+    input.itemSubtotal > 0
+      ? Math.round((input.itemDiscountAmount * input.claimSubtotal) / input.itemSubtotal)
+      : 0;
+
+  // 2. 반품 전후 남은 상품 금액
+  const keptSubtotalBefore = order.subtotal - input.previouslyReturnedSubtotal;
+  const keptSubtotalAfter = keptSubtotalBefore - input.claimSubtotal;
+
+  // 3. 배송비 환불 / 반품 배송비 차감
+  let shippingAmount = 0;
+  let deductionAmount = 0;
+
+  if (input.sellerFault) {
+    if (keptSubtotalAfter <= 0) {
+      shippingAmount = order.shippingFee;
+    }
+  } else {
+    deductionAmount = policy.returnShippingFee;
+
+    const wasFreeShipping =
+      order.shippingFee === 0 && order.subtotal >= policy.freeShippingThreshold;
+    if (
+      wasFreeShipping &&
+      keptSubtotalBefore >= policy.freeShippingThreshold &&
+      keptSubtotalAfter < policy.freeShippingThreshold
+    ) {
+      deductionAmount += policy.classes.standard.fee;
+    }
+  }
+
+  // 4. 최종 환불 금액 (0원 이상, 남은 결제 금액 이하)
+  const amount = Math.min(
+    Math.max(input.productAmount - discountAmount + shippingAmount - deductionAmount, 0),
+    getRefundableAmount(order)
+  );
+
+  return {
+    productAmount: input.productAmount,
+    discountAmount,
+    shippingAmount,
+    deductionAmount,
+    amount,
+  };
+}
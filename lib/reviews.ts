@@ -0,0 +1,73 @@
+/**
+ * @file lib/reviews.ts
+ * @description 상품 리뷰 규칙
+ *
+ * 리뷰 작성 폼(클라이언트)과 Server Action(서버)이 같은 규칙을 사용하도록 한 곳에서 관리합니다.
+ * DB의 reviews 테이블 CHECK 제약과 같은 값을 사용합니다.
+ *
+ * 주요 기능:
+ * 1. 리뷰 내용 길이 / 사진 개수 / 사진 형식 제한
+ * 2. 리뷰 사진 Storage 경로 생성 및 검증 ({clerk_id}/reviews/...)
+ * 3. 작성자 이름 일부 가림 (예: 홍길동 → 홍**)
+ */
+
+/**
+ * 리뷰 내용 최소 / 최대 길이
+ */
+export const REVIEW_CONTENT_MIN_LENGTH = 10;
+export const REVIEW_CONTENT_MAX_LENGTH = 2000;
+
+/**
+ * 리뷰 사진 최대 개수
+ */
+export const REVIEW_MAX_PHOTOS = 5;
+
+/**
+ * 리뷰 사진 최대 크기 (Storage 버킷 제한과 동일)
+ */
+export const REVIEW_PHOTO_MAX_SIZE = 6 * 1024 * 1024; // 6MB
+
+/**
+ * 리뷰 사진 허용 형식
+ */
+export const REVIEW_PHOTO_TYPES = ["image/jpeg", "image/jpg", "image/png", "image/webp"];
+
+/**
+ * 리뷰 목록 페이지 크기
+ */
+export const REVIEWS_PAGE_SIZE = 10;
+
+/**
+ * 별점 목록 (높은 별점부터)
+ */
+export const REVIEW_RATINGS = [5, 4, 3, 2, 1] as const;
+
+/**
+ * 리뷰 사진 Storage 경로를 만듭니다.
+ *
+ * @param clerkId - 작성자 Clerk User ID (Storage RLS: 본인 폴더에만 업로드 가능)
+ * @param fileName - 원본 파일 이름 (확장자만 사용)
+ */
+export function buildReviewPhotoPath(clerkId: string, fileName: string): string {
+  const fileExt = fileName.split(".").pop()?.toLowerCase() || "jpg";
+  return `${clerkId}/reviews/${Date.now()}-${Math.random().toString(36).substring(7)}.${fileExt}`;
+}
+
+/**
+ * 본인이 업로드한 리뷰 사진 경로인지 확인합니다.
+ */
+export function isReviewPhotoPath(clerkId: string, path: string): boolean {
+  return path.startsWith(`${clerkId}/reviews/`) && !path.includes("..");
+}
+
+/**
+ * 작성자 이름의 첫 글자만 남기고 가립니다.
+ */
+export function maskAuthorName(name: string): string {
+  const trimmed = name.trim();
+  if (!trimmed) {
+    return "구매자";
+  }
+  const [first, ...rest] = Array.from(trimmed);
+  return first + "*".repeat(Math.max(rest.length, 1));
+}
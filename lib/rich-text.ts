@@ -0,0 +1,157 @@
+/**
+ * @file lib/rich-text.ts
+ * @description 서식 있는 텍스트(제한된 HTML) 파서
+ *
+ * 관리자가 입력한 HTML 문자열을 허용 태그만 남긴 노드 트리로 변환합니다.
+ * 결과는 components/rich-text.tsx에서 React 요소로 렌더링하므로 HTML 문자열을 그대로 삽입하지 않습니다.
+ *
+ * 규칙:
+ * - 허용 태그: br, p, strong(b), em(i), u, a
+ * - 허용하지 않는 태그는 태그만 제거하고 안의 텍스트는 남김 (script, style은 내용까지 제거)
+ * - 속성은 a 태그의 href만 사용하며, 사이트 내부 경로 / http(s) / mailto / tel 링크만 허용
+ */
+
+/**
+ * 허용 태그
+ */
+export type RichTextTag = "br" | "p" | "strong" | "em" | "u" | "a";
+
+/**
+ * 서식 있는 텍스트 노드
+ * - type이 "text"이면 text 사용, 그 외에는 태그 요소 (children, a 태그는 href)
+ */
+export interface RichTextNode {
+  type: "text" | RichTextTag;
+  text?: string;
+  href?: string;
+  children?: RichTextNode[];
+}
+
+/**
+ * 같은 의미의 태그 (b → strong, i → em)
+ */
+const TAG_ALIASES: Record<string, RichTextTag> = {
+  br: "br",
+  p: "p",
+  strong: "strong",
+  b: "strong",
+  em: "em",
+  i: "em",
+  u: "u",
+  a: "a",
+};
+
+/**
+ * HTML 엔티티 (자주 쓰는 이름만 변환, 숫자 엔티티는 모두 변환)
+ */
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+  nbsp: " ",
+};
+
+const TAG_PATTERN = /<(\/?)([a-zA-Z][a-zA-Z0-9]*)\b([^>]*)>/g;
+const HREF_PATTERN = /\bhref\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+))/i;
+
+/**
+ * HTML 엔티티를 문자로 변환합니다.
+ */
+function decodeEntities(value: string): string {
+  return value.replace(/&(#x[0-9a-f]+|#[0-9]+|[a-z]+);/gi, (entity, code: string) => {
+    if (code[0] === "#") {
+      const codePoint =
+        code[1] === "x" || code[1] === "X" ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+      return codePoint > 0 && codePoint <= 0x10ffff ? String.fromCodePoint(codePoint) : entity;
+    }
+    return NAMED_ENTITIES[code.toLowerCase()] ?? entity;
+  });
+}
+
+/**
+ * 링크로 사용할 수 있는 href인지 확인합니다.
+ * 사이트 내부 경로(/...), http(s), mailto, tel만 허용합니다. (javascript: 등 차단)
+ * 브라우저는 URL의 탭 / 줄바꿈을 무시하고 \를 /로 처리하므로
+ * 제어 문자가 있거나 두 번째 문자가 / 또는 \인 경로(//evil.com, /\evil.com)는 외부 사이트로 보고 차단합니다.
+ */
+export function isSafeRichTextHref(href: string): boolean {
+  if (/[\x00-\x1f\x7f]/.test(href)) {
+    return false;
+  }
+  if (href.startsWith("/")) {
+    return href[1] !== "/" && href[1] !== "\\";
+  }
+  return /^(https?:\/\/|mailto:|tel:)/i.test(href);
+}
+
+/**
+ * 서식 있는 텍스트를 노드 트리로 변환합니다.
+ *
+ * @param html - 관리자가 입력한 HTML 문자열
+ * @returns 허용 태그만 남긴 노드 목록
+ */
+export function parseRichText(html: string): RichTextNode[] {
+  // 최상위 노드 (children만 사용, stack[0]은 닫지 않음)
+  const root: RichTextNode = { type: "p", children: [] };
+  const stack: RichTextNode[] = [root];
+
+  // 주석과 script / style 내용 제거
+  const source = html
+    .replace(/<!--[\s\S]*?-->/g, "")
+    .replace(/<(script|style)\b[\s\S]*?<\/\1\s*>/gi, "");
+
+  const appendText = (text: string) => {
+    if (!text) return;
+    stack[stack.length - 1].children.push({ type: "text", text: decodeEntities(text) });
+  };
+
+  let lastIndex = 0;
+
+  for (const match of source.matchAll(TAG_PATTERN)) {
+    appendText(source.slice(lastIndex, match.index));
+    lastIndex = (match.index ?? 0) + match[0].length;
+
+    const isClosing = match[1] === "/";
+    const tag = TAG_ALIASES[match[2].toLowerCase()];
+
+    // 허용하지 않는 태그는 태그만 제거
+    if (!tag) continue;
+
+    if (tag === "br") {
+      stack[stack.length - 1].children.push({ type: "br" });
+      continue;
+    }
+
+    // 닫는 태그: 가장 가까운 같은 태그까지 닫기 (짝이 없으면 무시)
+    const openIndex = stack.map((node) => node.type).lastIndexOf(tag);
+    if (isClosing) {
+      if (openIndex > 0) {
+        stack.length = openIndex;
+      }
+      continue;
+    }
+
+    // 문단 안에서 새 문단이 열리면 이전 문단을 닫음 (브라우저 HTML 해석과 동일)
+    if (tag === "p" && openIndex > 0) {
+      stack.length = openIndex;
+    }
+
+    const node: RichTextNode = { type: tag, children: [] };
+    if (tag === "a") {
+      const hrefMatch = match[3].match(HREF_PATTERN);
+      const href = decodeEntities(hrefMatch?.[1] ?? hrefMatch?.[2] ?? hrefMatch?.[3] ?? "").trim();
+      if (isSafeRichTextHref(href)) {
+        node.href = href;
+      }
+    }
+
+    stack[stack.length - 1].children.push(node);
+    stack.push(node);
+  }
+
+  appendText(source.slice(lastIndex));
+
+  return root.children;
+}
@@ -0,0 +1,98 @@
+/**
+ * @file lib/search.ts
+ * @description 상품 검색어 규칙
+ *
+ * 검색 페이지, Navbar 자동완성, 검색 Server Action이 같은 검색어 규칙을 사용하도록
+ * 검색어 정규화와 검색어 강조(하이라이트) 계산을 한 곳에서 관리합니다.
+ * 브라우저와 서버 양쪽에서 사용할 수 있도록 순수 함수로만 구성합니다.
+ *
+ * 주요 기능:
+ * 1. 검색어 정규화 (앞뒤 공백 제거, 연속 공백 정리, 최대 길이 제한)
+ * 2. 검색어 강조 구간 계산 (대소문자 무시, 단어별)
+ *
+ * 실제 검색과 순위 계산은 DB의 search_products 함수(한글 n-gram)에서 처리합니다.
+ */
+
+/**
+ * 검색어 최대 길이
+ */
+export const SEARCH_QUERY_MAX_LENGTH = 50;
+
+/**
+ * 자동완성을 시작하는 최소 검색어 길이
+ */
+export const SEARCH_SUGGEST_MIN_LENGTH = 1;
+
+/**
+ * 검색어를 정규화합니다. (앞뒤 공백 제거, 연속 공백을 하나로, 최대 길이 제한)
+ */
+export function normalizeSearchQuery(query: string | null | undefined): string {
+  return (query ?? "").replace(/\s+/g, " ").trim().slice(0, SEARCH_QUERY_MAX_LENGTH);
+}
+
+/**
+ * 강조 표시 구간
+ */
+export interface HighlightSegment {
+  text: string;
+  highlighted: boolean; // 검색어와 일치하는 구간 여부
+}
+
+/**
+ * 텍스트에서 검색어 단어와 일치하는 구간을 나눕니다. (대소문자 무시)
+ * 여러 단어의 일치 구간이 겹치면 하나로 합칩니다.
+ *
+ * @param text - 강조할 텍스트 (상품명, 설명 등)
+ * @param query - 검색어
+ * @returns 강조 표시 구간 목록 (일치하는 구간이 없으면 텍스트 전체 한 구간)
+ *
+ * @example
+ * getHighlightSegments("오버핏 니트 가디건", "니트")
+ * // [{ text: "오버핏 ", highlighted: false }, { text: "니트", highlighted: true }, { text: " 가디건", highlighted: false }]
+ */
+export function getHighlightSegments(text: string, query: string): HighlightSegment[] {
+  const terms = normalizeSearchQuery(query).toLowerCase().split(" ").filter(Boolean);
+  const lowerText = text.toLowerCase();
+
+  // 1. 단어별 일치 구간 찾기
+  const ranges: Array<[number, number]> = [];
+  for (const term of terms) {
+    let index = lowerText.indexOf(term);
+    while (index !== -1) {
+      ranges.push([index, index + term.length]);
+      index = lowerText.indexOf(term, index + term.length);
+    }
+  }
+
+  if (ranges.length === 0) {
+    return [{ text, highlighted: false }];
+  }
+
+  // 2. 겹치는 구간 합치기
+  ranges.sort((a, b) => a[0] - b[0]);
+  const merged: Array<[number, number]> = [];
+  for (const [start, end] of ranges) {
+    const last = merged[merged.length - 1];
+    if (last && start <= last[1]) {
+      last[1] = Math.max(last[1], end);
+    } else {
+      merged.push([start, end]);
+    }
+  }
+
+  // 3. 강조 / 일반 구간으로 나누기
+  const segments: HighlightSegment[] = [];
+  let cursor = 0;
+  for (const [start, end] of merged) {
+    if (start > cursor) {
+      segments.push({ text: text.slice(cursor, start), highlighted: false });
+    }
+    segments.push({ text: text.slice(start, end), highlighted: true });
+    cursor = end;
+  }
+  if (cursor < text.length) {
+    segments.push({ text: text.slice(cursor), highlighted: false });
+  }
+
+  return segments;
+}
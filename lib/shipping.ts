@@ -0,0 +1,303 @@
+/**
+ * @file lib/shipping.ts
+ * @description 배송비 계산 규칙
+ *
+ * 주문 생성(서버)과 주문 요약(클라이언트)이 같은 배송비를 표시하도록
+ * 배송비 규칙을 한 곳에서 관리합니다. 브라우저와 서버 양쪽에서 사용할 수 있도록
+ * 순수 함수로만 구성합니다.
+ *
+ * 주요 기능:
+ * 1. 무료 배송 기준 금액 / 기본 배송비 설정 (환경 변수로 변경 가능)
+ * 2. 상품별 배송 유형 (일반 / 대형 / 무료배송)
+ * 3. 묶음 배송 (같은 배송 유형의 묶음 배송 상품은 한 번만 배송비 부과)
+ * 4. 제주 / 도서산간 우편번호 추가 배송비
+ * 5. 반품 배송비 (단순 변심 반품 시 환불 금액에서 차감, lib/refunds.ts)
+ *
+ * @dependencies
+ * - types/product.ts: ShippingClass 타입
+ */
+
+import type { ShippingClass } from "@/types/product";
+
+/**
+ * 배송 유형별 규칙
+ */
+export interface ShippingClassRule {
+  label: string; // 배송 유형 표시 이름
+  fee: number; // 배송 1건당 배송비
+  bundle: boolean; // 묶음 배송 여부 (false면 수량 1개당 배송 1건)
+  freeShippingEligible: boolean; // 무료 배송 기준 금액 적용 여부
+}
+
+/**
+ * 추가 배송비 지역 규칙
+ */
+export interface RemoteAreaRule {
+  name: string; // 지역 이름 (제주, 도서산간)
+  surcharge: number; // 배송 1건당 추가 배송비
+  ranges: Array<[number, number]>; // 우편번호 범위 (시작, 끝 포함)
+}
+
+/**
+ * 배송비 정책
+ */
+export interface ShippingPolicy {
+  freeShippingThreshold: number; // 무료 배송 기준 금액
+  returnShippingFee: number; // 반품 배송비 (편도)
+  classes: Record<ShippingClass, ShippingClassRule>;
+  remoteAreas: RemoteAreaRule[];
+}
+
+/**
+ * 배송비 계산에 필요한 주문 항목 정보
+ */
+export interface ShippingLineItem {
+  price: number; // 단가
+  quantity: number; // 수량
+  shippingClass?: ShippingClass | null; // 배송 유형 (없으면 standard)
+}
+
+/**
+ * 배송 단위별 계산 결과
+ */
+export interface ShipmentQuote {
+  shippingClass: ShippingClass;
+  label: string;
+  subtotal: number; // 해당 배송 단위의 상품 금액
+  shipmentCount: number; // 배송 건수 (묶음 배송이면 1)
+  fee: number; // 기본 배송비 합계 (추가 배송비 제외)
+  amountToFreeShipping: number | null; // 이 배송 단위가 무료 배송까지 남은 금액 (해당 없으면 null)
+}
+
+/**
+ * 배송비 계산 결과
+ */
+export interface ShippingQuote {
+  subtotal: number; // 상품 금액 합계
+  baseFee: number; // 기본 배송비 합계
+  remoteSurcharge: number; // 제주/도서산간 추가 배송비 합계
+  remoteArea: string | null; // 추가 배송비 지역 이름
+  shippingFee: number; // 최종 배송비 (baseFee + remoteSurcharge)
+  shipments: ShipmentQuote[];
+  amountToFreeShipping: number | null; // 배송비가 부과되는 배송 단위 중 무료 배송까지 가장 적게 남은 금액 (해당 없으면 null)
+}
+
+/**
+ * 숫자 환경 변수를 읽습니다. 값이 없거나 숫자가 아니면 기본값을 사용합니다.
+ * (클라이언트 번들에서도 같은 값을 쓰도록 NEXT_PUBLIC_ 변수만 사용)
+ */
+function readAmount(value: string | undefined, fallback: number): number {
+  const parsed = Number(value);
+  return value && Number.isFinite(parsed) && parsed >= 0 ? parsed : fallback;
+}
+
+/**
+ * 기본 배송비 정책
+ */
+export const DEFAULT_SHIPPING_POLICY: ShippingPolicy = {
+  freeShippingThreshold: readAmount(
+    process.env.NEXT_PUBLIC_SHIPPING_FREE_THRESHOLD,
+    50000
+  ),
+  returnShippingFee: readAmount(process.env.NEXT_PUBLIC_SHIPPING_RETURN_FEE, 3000),
+  classes: {
+    standard: {
+      label: "일반 배송",
+      fee: readAmount(process.env.NEXT_PUBLIC_SHIPPING_BASE_FEE, 3000),
+      bundle: true,
+      freeShippingEligible: true,
+    },
+    bulky: {
+      label: "대형 상품 배송",
+      fee: readAmount(process.env.NEXT_PUBLIC_SHIPPING_BULKY_FEE, 5000),
+      bundle: false,
+      freeShippingEligible: false,
+    },
+    free: {
+      label: "무료 배송",
+      fee: 0,
+      bundle: true,
+      freeShippingEligible: true,
+    },
+  },
+  // 택배사 공통 도서산간 우편번호 기준 (주요 지역)
+  remoteAreas: [
+    {
+      name: "제주",
+      surcharge: readAmount(process.env.NEXT_PUBLIC_SHIPPING_JEJU_SURCHARGE, 3000),
+      ranges: [[63000, 63644]],
+    },
+    {
+      name: "도서산간",
+      surcharge: readAmount(process.env.NEXT_PUBLIC_SHIPPING_ISLAND_SURCHARGE, 5000),
+      ranges: [
+        [22386, 22388], // 인천 중구 섬 지역
+        [23004, 23010], // 인천 강화군 섬 지역
+        [23100, 23136], // 인천 옹진군
+        [31708, 31708], // 충남 당진시 섬 지역
+        [32133, 32133], // 충남 태안군 섬 지역
+        [33411, 33411], // 충남 보령시 섬 지역
+        [40200, 40240], // 경북 울릉군
+        [52570, 52571], // 경남 사천시 섬 지역
+        [53031, 53033], // 경남 통영시 섬 지역
+        [53089, 53104], // 경남 통영시 섬 지역
+        [54000, 54000], // 전북 군산시 섬 지역
+        [56347, 56349], // 전북 부안군 위도
+        [57068, 57069], // 전남 영광군 섬 지역
+        [58760, 58762], // 전남 목포시 섬 지역
+        [58800, 58866], // 전남 신안군
+        [58953, 58958], // 전남 해남군 섬 지역
+        [59102, 59103], // 전남 완도군 섬 지역
+        [59106, 59106], // 전남 완도군 섬 지역
+        [59127, 59127], // 전남 완도군 섬 지역
+        [59129, 59129], // 전남 완도군 섬 지역
+        [59137, 59166], // 전남 완도군 섬 지역
+        [59650, 59650], // 전남 여수시 섬 지역
+        [59766, 59766], // 전남 여수시 섬 지역
+        [59781, 59790], // 전남 여수시 섬 지역
+      ],
+    },
+  ],
+};
+
+/**
+ * 우편번호가 추가 배송비 지역에 해당하는지 확인합니다.
+ *
+ * @param postalCode - 5자리 우편번호 (하이픈 등 숫자 외 문자는 무시)
+ * @param policy - 배송비 정책
+ * @returns 추가 배송비 지역 규칙 (해당 없으면 null)
+ */
+export function findRemoteArea(
+  postalCode: string | null | undefined,
+  policy: ShippingPolicy = DEFAULT_SHIPPING_POLICY
+): RemoteAreaRule | null {
+  const digits = (postalCode ?? "").replace(/[^0-9]/g, "");
+  if (digits.length !== 5) {
+    return null;
+  }
+
+  const code = Number(digits);
+  return (
+    policy.remoteAreas.find((area) =>
+      area.ranges.some(([start, end]) => code >= start && code <= end)
+    ) ?? null
+  );
+}
+
+/**
+ * 주문 항목과 배송지 우편번호로 배송비를 계산합니다.
+ *
+ * 계산 규칙:
+ * 1. 묶음 배송 유형은 유형별로 한 번만 배송비를 부과하고,
+ *    해당 유형 상품 금액이 무료 배송 기준 이상이면 배송비를 면제합니다.
+ * 2. 개별 배송 유형(대형 상품)은 수량 1개당 배송 1건으로 계산합니다.
+ * 3. 제주/도서산간 추가 배송비는 무료 배송 여부와 관계없이 배송 건수만큼 부과합니다.
+ *
+ * @param items - 주문 항목 (단가, 수량, 배송 유형)
+ * @param postalCode - 배송지 우편번호 (입력 전이면 추가 배송비 제외)
+ * @param policy - 배송비 정책
+ * @returns 배송비 계산 결과
+ */
+export function calculateShipping(
+  items: ShippingLineItem[],
+  postalCode?: string | null,
+  policy: ShippingPolicy = DEFAULT_SHIPPING_POLICY
+): ShippingQuote {
+  const subtotal = items.reduce((sum, item) => sum + item.price * item.quantity, 0);
+
+  // 배송 유형별 상품 금액 / 수량 합산
+  const groups = new Map<ShippingClass, { subtotal: number; quantity: number }>();
+  for (const item of items) {
+    const shippingClass = item.shippingClass ?? "standard";
+    const group = groups.get(shippingClass) ?? { subtotal: 0, quantity: 0 };
+    group.subtotal += item.price * item.quantity;
+    group.quantity += item.quantity;
+    groups.set(shippingClass, group);
+  }
+
+  const shipments: ShipmentQuote[] = [];
+
+  for (const [shippingClass, group] of groups) {
+    const rule = policy.classes[shippingClass] ?? policy.classes.standard;
+    const shipmentCount = rule.bundle ? 1 : group.quantity;
+    const isFree =
+      rule.freeShippingEligible && group.subtotal >= policy.freeShippingThreshold;
+    const fee = isFree ? 0 : rule.fee * shipmentCount;
+
+    shipments.push({
+      shippingClass,
+      label: rule.label,
+      subtotal: group.subtotal,
+      shipmentCount,
+      fee,
+      amountToFreeShipping:
+        rule.bundle && rule.freeShippingEligible && fee > 0
+          ? policy.freeShippingThreshold - group.subtotal
+          : null,
+    });
+  }
+
+  // 배송 유형별 남은 금액 중 가장 작은 값 (배송 유형이 섞인 장바구니 안내용)
+  const remainingAmounts = shipments
+    .map((shipment) => shipment.amountToFreeShipping)
+    .filter((amount): amount is number => amount !== null);
+  const amountToFreeShipping =
+    remainingAmounts.length > 0 ? Math.min(...remainingAmounts) : null;
+
+  const baseFee = shipments.reduce((sum, shipment) => sum + shipment.fee, 0);
+
+  // 제주/도서산간 추가 배송비
+  const remoteArea = items.length > 0 ? findRemoteArea(postalCode, policy) : null;
+  const totalShipmentCount = shipments.reduce(
+    (sum, shipment) => sum + shipment.shipmentCount,
+    0
+  );
+  const remoteSurcharge = remoteArea ? remoteArea.surcharge * totalShipmentCount : 0;
+
+  return {
+    subtotal,
+    baseFee,
+    remoteSurcharge,
+    remoteArea: remoteArea?.name ?? null,
+    shippingFee: baseFee + remoteSurcharge,
+    shipments,
+    amountToFreeShipping,
+  };
+}
+
+/**
+ * 상품 상세 페이지용 배송비 안내 문구를 만듭니다.
+ *
+ * @param shippingClass - 상품 배송 유형
+ * @param policy - 배송비 정책
+ * @returns 배송비 안내 문구 (예: "3,000원 (50,000원 이상 구매 시 무료)")
+ */
+export function describeShippingFee(
+  shippingClass: ShippingClass | null | undefined,
+  policy: ShippingPolicy = DEFAULT_SHIPPING_POLICY
+): string {
+  const rule = policy.classes[shippingClass ?? "standard"] ?? policy.classes.standard;
+  const format = (amount: number) => new Intl.NumberFormat("ko-KR").format(amount);
+
+  if (rule.fee === 0) {
+    return "무료";
+  }
+
+  if (!rule.bundle) {
+    return `${format(rule.fee)}원 (${rule.label}, 1개당 부과)`;
+  }
+
+  return rule.freeShippingEligible
+    ? `${format(rule.fee)}원 (${format(policy.freeShippingThreshold)}원 이상 구매 시 무료)`
+    : `${format(rule.fee)}원`;
+}
+
+/**
+ * 배송 유형 선택 옵션 (관리자 상품 폼용)
+ */
+export const SHIPPING_CLASS_OPTIONS = (
+  Object.keys(DEFAULT_SHIPPING_POLICY.classes) as ShippingClass[]
+).map((value) => ({
+  value,
+  label: DEFAULT_SHIPPING_POLICY.classes[value].label,
+}));
@@ -4,3 +4,14 @@ import { twMerge } from "tailwind-merge"
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
 }
+
+/**
+ * ISO 8601 timestamp를 datetime-local 입력 값(로컬 시간 YYYY-MM-DDTHH:mm)으로 변환합니다.
+ * 값이 없으면 null을 반환합니다.
+ */
+export function toDateTimeLocal(value: string | null | undefined): string | null {
+  if (!value) return null
+  const date = new Date(value)
+  const offset = date.getTimezoneOffset() * 60000
+  return new Date(date.getTime() - offset).toISOString().slice(0, 16)
+}
@@ -0,0 +1,83 @@
+-- ==========================================
+-- 주문 취소 함수 추가 마이그레이션
+-- PRD.md Phase 5: 마이페이지 주문 취소 기능 구현
+-- ==========================================
+--
+-- 업데이트 내용:
+-- 1. cancel_order 함수 추가
+--    - 본인 주문 여부 확인 (Clerk JWT의 sub 클레임과 orders.clerk_id 비교)
+--    - 취소 가능 상태 확인 (pending, confirmed만 취소 가능)
+--    - orders.status / orders.payment_status를 'cancelled'로 변경
+--    - order_items의 수량만큼 products.stock_quantity 복구
+--
+-- 참고:
+-- - 하나의 함수 호출이 하나의 트랜잭션으로 실행되므로
+--   상태 변경과 재고 복구가 원자적으로 처리됩니다.
+-- - 주문 행을 FOR UPDATE로 잠가 동일 주문의 중복 취소를 방지합니다.
+-- ==========================================
+
+-- 1. 주문 취소 함수
+CREATE OR REPLACE FUNCTION cancel_order(p_order_id UUID)
+RETURNS void AS $$
+DECLARE
+    v_clerk_id TEXT;
+    v_order public.orders%ROWTYPE;
+BEGIN
+    -- 1-1. 요청자 확인 (Clerk 세션 토큰의 sub = Clerk User ID)
+    v_clerk_id := auth.jwt()->>'sub';
+
+    IF v_clerk_id IS NULL THEN
+        RAISE EXCEPTION '로그인이 필요합니다.';
+    END IF;
+
+    -- 1-2. 주문 조회 및 행 잠금 (동시 취소 요청 방지)
+    SELECT *
+    INTO v_order
+    FROM public.orders
+    WHERE id = p_order_id
+    FOR UPDATE;
+
+    IF NOT FOUND OR v_order.clerk_id <> v_clerk_id THEN
+        RAISE EXCEPTION '주문을 찾을 수 없습니다.';
+    END IF;
+
+    -- 1-3. 취소 가능 상태 확인
+    IF v_order.status NOT IN ('pending', 'confirmed') THEN
+        RAISE EXCEPTION '취소할 수 없는 주문 상태입니다: %', v_order.status;
+    END IF;
+
+    -- 1-4. 주문 상태 변경
+    UPDATE public.orders
+    SET status = 'cancelled',
+        payment_status = 'cancelled'
+    WHERE id = p_order_id;
+
+    -- 1-5. 재고 복구 (동일 상품이 여러 항목에 있을 수 있으므로 합산 후 반영)
+    UPDATE public.products AS p
+    SET stock_quantity = p.stock_quantity + items.quantity
+    FROM (
+        SELECT product_id, SUM(quantity) AS quantity
+        FROM public.order_items
+        WHERE order_id = p_order_id
+        GROUP BY product_id
+    ) AS items
+    WHERE p.id = items.product_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+COMMENT ON FUNCTION cancel_order(UUID) IS '주문 취소 (본인 주문 + pending/confirmed 상태만 허용, 주문 상태 변경과 재고 복구를 하나의 트랜잭션으로 처리)';
+
+-- 2. 권한 부여
+GRANT EXECUTE ON FUNCTION cancel_order(UUID) TO authenticated, service_role;
+
+-- ==========================================
+-- 마이그레이션 완료
+-- ==========================================
+--
+-- 적용된 변경사항:
+-- ✅ cancel_order 함수 추가 (주문 취소 + 재고 복구)
+--
+-- 다음 단계:
+-- 1. actions/order.ts의 cancelOrder Server Action에서 RPC 호출
+-- 2. 마이페이지 주문 상세의 주문 취소 버튼과 연결
+-- ==========================================
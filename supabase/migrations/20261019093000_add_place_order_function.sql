@@ -0,0 +1,181 @@
+-- ==========================================
+-- 주문 생성 함수 추가 마이그레이션
+-- PRD.md Phase 3: 주문 생성 트랜잭션 처리
+-- ==========================================
+--
+-- 업데이트 내용:
+-- 1. place_order 함수 추가
+--    - 장바구니 항목 검증 (본인 항목 여부, 요청 항목 수 일치)
+--    - 상품 행 잠금 (FOR UPDATE) 후 판매 상태 및 재고 확인
+--    - 주문 시점의 상품명/가격 스냅샷으로 order_items 저장
+--    - 배송비 계산 (calculate_shipping_fee) 및 orders 저장
+--    - 재고 차감 및 장바구니 항목 제거
+--
+-- 참고:
+-- - 기존에는 주문 저장 → 항목 저장 → 재고 차감을 각각 요청하고
+--   실패 시 수동 delete로 되돌렸기 때문에, 동시 주문 시 마지막 재고가
+--   중복 판매될 수 있었습니다.
+-- - 이제 모든 단계가 하나의 트랜잭션에서 실행되며, 어느 단계에서든
+--   예외가 발생하면 전체가 롤백됩니다.
+-- - 상품 행은 id 순서로 잠가 동시 주문 간 교착 상태를 방지합니다.
+-- ==========================================
+
+-- 1. 주문 생성 함수
+CREATE OR REPLACE FUNCTION place_order(
+    p_cart_item_ids UUID[],
+    p_shipping_address JSONB,
+    p_order_note TEXT DEFAULT NULL
+)
+RETURNS UUID AS $$
+DECLARE
+    v_clerk_id TEXT;
+    v_cart_count INTEGER;
+    v_product RECORD;
+    v_subtotal DECIMAL(10,2);
+    v_shipping_fee DECIMAL(10,2);
+    v_order_id UUID;
+BEGIN
+    -- 1-1. 요청자 확인 (Clerk 세션 토큰의 sub = Clerk User ID)
+    v_clerk_id := auth.jwt()->>'sub';
+
+    IF v_clerk_id IS NULL THEN
+        RAISE EXCEPTION '로그인이 필요합니다.';
+    END IF;
+
+    IF p_cart_item_ids IS NULL OR array_length(p_cart_item_ids, 1) IS NULL THEN
+        RAISE EXCEPTION '주문할 장바구니 항목을 선택해주세요.';
+    END IF;
+
+    -- 1-2. 장바구니 항목 확인 (본인 항목만, 요청 항목 수와 일치해야 함)
+    SELECT COUNT(*)
+    INTO v_cart_count
+    FROM public.cart_items
+    WHERE clerk_id = v_clerk_id
+      AND id = ANY(p_cart_item_ids);
+
+    IF v_cart_count = 0 THEN
+        RAISE EXCEPTION '장바구니 항목을 찾을 수 없습니다.';
+    END IF;
+
+    IF v_cart_count <> (SELECT COUNT(DISTINCT id) FROM unnest(p_cart_item_ids) AS id) THEN
+        RAISE EXCEPTION '일부 장바구니 항목을 찾을 수 없습니다.';
+    END IF;
+
+    -- 1-3. 상품 행 잠금 및 판매 상태/재고 확인
+    -- 같은 상품이 옵션별로 여러 장바구니 항목에 있을 수 있으므로 상품별로 수량 합산
+    FOR v_product IN
+        SELECT p.id, p.name, p.stock_quantity, p.is_active, p.status, requested.quantity
+        FROM public.products AS p
+        JOIN (
+            SELECT product_id, SUM(quantity) AS quantity
+            FROM public.cart_items
+            WHERE clerk_id = v_clerk_id
+              AND id = ANY(p_cart_item_ids)
+            GROUP BY product_id
+        ) AS requested ON requested.product_id = p.id
+        ORDER BY p.id
+        FOR UPDATE OF p
+    LOOP
+        IF NOT v_product.is_active OR v_product.status = 'hidden' THEN
+            RAISE EXCEPTION '현재 판매 중이 아닌 상품입니다: %', v_product.name;
+        END IF;
+
+        IF v_product.quantity > v_product.stock_quantity THEN
+            RAISE EXCEPTION '재고가 부족합니다: % (최대 %개까지 가능)',
+                v_product.name, v_product.stock_quantity;
+        END IF;
+    END LOOP;
+
+    -- 1-4. 금액 계산 (잠금 이후의 가격 기준)
+    SELECT COALESCE(SUM(p.price * c.quantity), 0)
+    INTO v_subtotal
+    FROM public.cart_items AS c
+    JOIN public.products AS p ON p.id = c.product_id
+    WHERE c.clerk_id = v_clerk_id
+      AND c.id = ANY(p_cart_item_ids);
+
+    v_shipping_fee := calculate_shipping_fee(v_subtotal);
+
+    IF v_subtotal + v_shipping_fee <= 0 THEN
+        RAISE EXCEPTION '주문 금액이 올바르지 않습니다.';
+    END IF;
+
+    -- 1-5. 주문 저장
+    INSERT INTO public.orders (
+        clerk_id,
+        subtotal,
+        shipping_fee,
+        total_amount,
+        status,
+        shipping_address,
+        order_note
+    )
+    VALUES (
+        v_clerk_id,
+        v_subtotal,
+        v_shipping_fee,
+        v_subtotal + v_shipping_fee,
+        'pending',
+        p_shipping_address,
+        p_order_note
+    )
+    RETURNING id INTO v_order_id;
+
+    -- 1-6. 주문 항목 저장 (주문 시점의 상품명/가격 스냅샷)
+    INSERT INTO public.order_items (
+        order_id,
+        product_id,
+        product_name,
+        quantity,
+        price,
+        options
+    )
+    SELECT
+        v_order_id,
+        p.id,
+        p.name,
+        c.quantity,
+        p.price,
+        c.options
+    FROM public.cart_items AS c
+    JOIN public.products AS p ON p.id = c.product_id
+    WHERE c.clerk_id = v_clerk_id
+      AND c.id = ANY(p_cart_item_ids)
+    ORDER BY c.created_at;
+
+    -- 1-7. 재고 차감
+    UPDATE public.products AS p
+    SET stock_quantity = p.stock_quantity - requested.quantity
+    FROM (
+        SELECT product_id, SUM(quantity) AS quantity
+        FROM public.cart_items
+        WHERE clerk_id = v_clerk_id
+          AND id = ANY(p_cart_item_ids)
+        GROUP BY product_id
+    ) AS requested
+    WHERE p.id = requested.product_id;
+
+    -- 1-8. 장바구니 항목 제거
+    DELETE FROM public.cart_items
+    WHERE clerk_id = v_clerk_id
+      AND id = ANY(p_cart_item_ids);
+
+    RETURN v_order_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+COMMENT ON FUNCTION place_order(UUID[], JSONB, TEXT) IS '주문 생성 (장바구니 검증, 가격 스냅샷, 상품 행 잠금, 재고 차감, 장바구니 제거를 하나의 트랜잭션으로 처리)';
+
+-- 2. 권한 부여
+GRANT EXECUTE ON FUNCTION place_order(UUID[], JSONB, TEXT) TO authenticated, service_role;
+
+-- ==========================================
+-- 마이그레이션 완료
+-- ==========================================
+--
+-- 적용된 변경사항:
+-- ✅ place_order 함수 추가 (주문 생성 트랜잭션)
+--
+-- 다음 단계:
+-- 1. actions/order.ts의 createOrder에서 place_order RPC만 호출하도록 변경
+-- ==========================================
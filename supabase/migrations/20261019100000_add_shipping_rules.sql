@@ -0,0 +1,228 @@
+-- ==========================================
+-- 배송비 규칙 통합 마이그레이션
+-- 배송비 계산을 lib/shipping.ts 한 곳으로 통합
+-- ==========================================
+--
+-- 업데이트 내용:
+-- 1. products.shipping_class 필드 추가 (상품별 배송 유형)
+-- 2. calculate_order_total 트리거 함수 수정
+--    - shipping_fee = 0일 때 배송비를 자동 계산하지 않음
+--      (무료 배송 상품만 주문한 경우 0원이 정상 값이므로)
+-- 3. place_order 함수 수정
+--    - 배송비를 인자로 받아 저장 (lib/shipping.ts에서 계산)
+--    - 잠금 이후 상품 금액이 배송비 계산 시점과 다르면 예외 발생
+-- 4. calculate_shipping_fee 함수 삭제 (5만원/3천원 하드코딩 제거)
+--
+-- 참고:
+-- - 배송비 규칙(무료 배송 기준, 배송 유형, 묶음 배송, 제주/도서산간 추가 배송비)은
+--   lib/shipping.ts에서만 관리합니다.
+-- - createOrder가 장바구니 기준으로 계산한 상품 금액(p_expected_subtotal)과
+--   place_order가 상품 행을 잠근 뒤 계산한 상품 금액이 다르면 주문을 거부하므로
+--   가격이 바뀐 상품에 이전 배송비가 적용되지 않습니다.
+-- ==========================================
+
+-- ==========================================
+-- 1. products 테이블: 배송 유형 추가
+-- ==========================================
+
+ALTER TABLE public.products
+ADD COLUMN IF NOT EXISTS shipping_class TEXT NOT NULL DEFAULT 'standard'
+  CHECK (shipping_class IN ('standard', 'bulky', 'free'));
+
+COMMENT ON COLUMN public.products.shipping_class IS '배송 유형 (standard: 일반 묶음 배송, bulky: 대형 개별 배송, free: 무료 배송)';
+
+-- ==========================================
+-- 2. 주문 총액 계산 트리거 함수 수정
+-- ==========================================
+
+CREATE OR REPLACE FUNCTION calculate_order_total()
+RETURNS TRIGGER AS $$
+BEGIN
+    -- total_amount는 subtotal + shipping_fee (배송비는 애플리케이션에서 계산)
+    NEW.total_amount := NEW.subtotal + NEW.shipping_fee;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+COMMENT ON FUNCTION calculate_order_total() IS '주문 총액 자동 계산 (subtotal + shipping_fee)';
+
+-- ==========================================
+-- 3. 주문 생성 함수 수정 (배송비 인자 추가)
+-- ==========================================
+
+DROP FUNCTION IF EXISTS place_order(UUID[], JSONB, TEXT);
+
+CREATE OR REPLACE FUNCTION place_order(
+    p_cart_item_ids UUID[],
+    p_shipping_address JSONB,
+    p_shipping_fee DECIMAL,
+    p_expected_subtotal DECIMAL,
+    p_order_note TEXT DEFAULT NULL
+)
+RETURNS UUID AS $$
+DECLARE
+    v_clerk_id TEXT;
+    v_cart_count INTEGER;
+    v_product RECORD;
+    v_subtotal DECIMAL(10,2);
+    v_order_id UUID;
+BEGIN
+    -- 3-1. 요청자 확인 (Clerk 세션 토큰의 sub = Clerk User ID)
+    v_clerk_id := auth.jwt()->>'sub';
+
+    IF v_clerk_id IS NULL THEN
+        RAISE EXCEPTION '로그인이 필요합니다.';
+    END IF;
+
+    IF p_cart_item_ids IS NULL OR array_length(p_cart_item_ids, 1) IS NULL THEN
+        RAISE EXCEPTION '주문할 장바구니 항목을 선택해주세요.';
+    END IF;
+
+    IF p_shipping_fee IS NULL OR p_shipping_fee < 0 THEN
+        RAISE EXCEPTION '배송비가 올바르지 않습니다.';
+    END IF;
+
+    -- 3-2. 장바구니 항목 확인 (본인 항목만, 요청 항목 수와 일치해야 함)
+    SELECT COUNT(*)
+    INTO v_cart_count
+    FROM public.cart_items
+    WHERE clerk_id = v_clerk_id
+      AND id = ANY(p_cart_item_ids);
+
+    IF v_cart_count = 0 THEN
+        RAISE EXCEPTION '장바구니 항목을 찾을 수 없습니다.';
+    END IF;
+
+    IF v_cart_count <> (SELECT COUNT(DISTINCT id) FROM unnest(p_cart_item_ids) AS id) THEN
+        RAISE EXCEPTION '일부 장바구니 항목을 찾을 수 없습니다.';
+    END IF;
+
+    -- 3-3. 상품 행 잠금 및 판매 상태/재고 확인
+    FOR v_product IN
+        SELECT p.id, p.name, p.stock_quantity, p.is_active, p.status, requested.quantity
+        FROM public.products AS p
+        JOIN (
+            SELECT product_id, SUM(quantity) AS quantity
+            FROM public.cart_items
+            WHERE clerk_id = v_clerk_id
+              AND id = ANY(p_cart_item_ids)
+            GROUP BY product_id
+        ) AS requested ON requested.product_id = p.id
+        ORDER BY p.id
+        FOR UPDATE OF p
+    LOOP
+        IF NOT v_product.is_active OR v_product.status = 'hidden' THEN
+            RAISE EXCEPTION '현재 판매 중이 아닌 상품입니다: %', v_product.name;
+        END IF;
+
+        IF v_product.quantity > v_product.stock_quantity THEN
+            RAISE EXCEPTION '재고가 부족합니다: % (최대 %개까지 가능)',
+                v_product.name, v_product.stock_quantity;
+        END IF;
+    END LOOP;
+
+    -- 3-4. 금액 계산 (잠금 이후의 가격 기준) 및 배송비 계산 기준 금액과 비교
+    SELECT COALESCE(SUM(p.price * c.quantity), 0)
+    INTO v_subtotal
+    FROM public.cart_items AS c
+    JOIN public.products AS p ON p.id = c.product_id
+    WHERE c.clerk_id = v_clerk_id
+      AND c.id = ANY(p_cart_item_ids);
+
+    IF v_subtotal <> p_expected_subtotal THEN
+        RAISE EXCEPTION '상품 가격이 변경되었습니다. 주문 내용을 다시 확인해주세요.';
+    END IF;
+
+    IF v_subtotal + p_shipping_fee <= 0 THEN
+        RAISE EXCEPTION '주문 금액이 올바르지 않습니다.';
+    END IF;
+
+    -- 3-5. 주문 저장
+    INSERT INTO public.orders (
+        clerk_id,
+        subtotal,
+        shipping_fee,
+        total_amount,
+        status,
+        shipping_address,
+        order_note
+    )
+    VALUES (
+        v_clerk_id,
+        v_subtotal,
+        p_shipping_fee,
+        v_subtotal + p_shipping_fee,
+        'pending',
+        p_shipping_address,
+        p_order_note
+    )
+    RETURNING id INTO v_order_id;
+
+    -- 3-6. 주문 항목 저장 (주문 시점의 상품명/가격 스냅샷)
+    INSERT INTO public.order_items (
+        order_id,
+        product_id,
+        product_name,
+        quantity,
+        price,
+        options
+    )
+    SELECT
+        v_order_id,
+        p.id,
+        p.name,
+        c.quantity,
+        p.price,
+        c.options
+    FROM public.cart_items AS c
+    JOIN public.products AS p ON p.id = c.product_id
+    WHERE c.clerk_id = v_clerk_id
+      AND c.id = ANY(p_cart_item_ids)
+    ORDER BY c.created_at;
+
+    -- 3-7. 재고 차감
+    UPDATE public.products AS p
+    SET stock_quantity = p.stock_quantity - requested.quantity
+    FROM (
+        SELECT product_id, SUM(quantity) AS quantity
+        FROM public.cart_items
+        WHERE clerk_id = v_clerk_id
+          AND id = ANY(p_cart_item_ids)
+        GROUP BY product_id
+    ) AS requested
+    WHERE p.id = requested.product_id;
+
+    -- 3-8. 장바구니 항목 제거
+    DELETE FROM public.cart_items
+    WHERE clerk_id = v_clerk_id
+      AND id = ANY(p_cart_item_ids);
+
+    RETURN v_order_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+COMMENT ON FUNCTION place_order(UUID[], JSONB, DECIMAL, DECIMAL, TEXT) IS '주문 생성 (장바구니 검증, 가격 스냅샷, 상품 행 잠금, 재고 차감, 장바구니 제거를 하나의 트랜잭션으로 처리, 배송비는 lib/shipping.ts에서 계산)';
+
+GRANT EXECUTE ON FUNCTION place_order(UUID[], JSONB, DECIMAL, DECIMAL, TEXT) TO authenticated, service_role;
+
+-- ==========================================
+-- 4. 하드코딩된 배송비 함수 삭제
+-- ==========================================
+
+DROP FUNCTION IF EXISTS calculate_shipping_fee(DECIMAL);
+
+-- ==========================================
+-- 마이그레이션 완료
+-- ==========================================
+--
+-- 적용된 변경사항:
+-- ✅ products.shipping_class 필드 추가
+-- ✅ calculate_order_total 트리거 함수에서 배송비 자동 계산 제거
+-- ✅ place_order 함수에 배송비 / 기준 상품 금액 인자 추가
+-- ✅ calculate_shipping_fee 함수 삭제
+--
+-- 다음 단계:
+-- 1. createOrder에서 lib/shipping.ts로 배송비 계산 후 place_order 호출
+-- 2. 관리자 상품 폼에서 배송 유형 선택
+-- ==========================================
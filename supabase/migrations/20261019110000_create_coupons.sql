@@ -0,0 +1,369 @@
+-- ==========================================
+-- 쿠폰 / 할인 코드 마이그레이션
+-- 주문 시 쿠폰 코드 입력 및 할인 적용
+-- ==========================================
+--
+-- 업데이트 내용:
+-- 1. coupons 테이블 생성
+--    - 정액(fixed) / 정률(percentage) 할인, 정률 할인 최대 금액
+--    - 최소 주문 금액, 사용 기간, 1인당 사용 횟수, 적용 카테고리
+-- 2. coupon_redemptions 테이블 생성 (쿠폰 사용 내역)
+-- 3. orders 테이블에 쿠폰/할인 필드 추가
+--    - coupon_id, coupon_code (주문 시점 코드 스냅샷), discount_amount
+--    - total_amount = subtotal + shipping_fee - discount_amount
+-- 4. place_order 함수 수정 (쿠폰 적용)
+--    - 쿠폰 행 잠금 후 사용 기간 / 1인당 사용 횟수 재확인
+--    - 주문 저장 시 할인 금액 반영 및 사용 내역 저장
+--
+-- 참고:
+-- - 할인 금액(최소 주문 금액, 적용 카테고리, 정률 최대 금액)은 lib/coupons.ts에서 계산합니다.
+-- - 1인당 사용 횟수는 취소되지 않은 주문의 사용 내역만 셉니다.
+--   (주문을 취소하면 쿠폰을 다시 사용할 수 있음)
+-- ==========================================
+
+-- ==========================================
+-- 1. coupons 테이블
+-- ==========================================
+
+CREATE TABLE IF NOT EXISTS public.coupons (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    code TEXT NOT NULL UNIQUE
+        CHECK (code = UPPER(code) AND char_length(code) BETWEEN 3 AND 30),
+    name TEXT NOT NULL,
+    description TEXT,
+    discount_type TEXT NOT NULL
+        CHECK (discount_type IN ('fixed', 'percentage')),
+    discount_value DECIMAL(10,2) NOT NULL CHECK (discount_value > 0),
+    max_discount_amount DECIMAL(10,2) CHECK (max_discount_amount IS NULL OR max_discount_amount > 0),
+    min_order_amount DECIMAL(10,2) NOT NULL DEFAULT 0 CHECK (min_order_amount >= 0),
+    starts_at TIMESTAMP WITH TIME ZONE,
+    expires_at TIMESTAMP WITH TIME ZONE,
+    usage_limit_per_user INTEGER CHECK (usage_limit_per_user IS NULL OR usage_limit_per_user > 0),
+    categories TEXT[],
+    is_active BOOLEAN NOT NULL DEFAULT true,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+    CONSTRAINT check_coupon_percentage_range
+        CHECK (discount_type <> 'percentage' OR discount_value <= 100),
+    CONSTRAINT check_coupon_period_valid
+        CHECK (starts_at IS NULL OR expires_at IS NULL OR starts_at < expires_at)
+);
+
+COMMENT ON TABLE public.coupons IS '쿠폰 / 할인 코드 테이블';
+COMMENT ON COLUMN public.coupons.code IS '쿠폰 코드 (대문자, 고객이 주문 시 입력)';
+COMMENT ON COLUMN public.coupons.discount_type IS '할인 방식 (fixed: 정액, percentage: 정률)';
+COMMENT ON COLUMN public.coupons.discount_value IS '할인 값 (정액: 원, 정률: %)';
+COMMENT ON COLUMN public.coupons.max_discount_amount IS '정률 할인 최대 금액 (NULL이면 제한 없음)';
+COMMENT ON COLUMN public.coupons.min_order_amount IS '최소 주문 금액 (적용 대상 상품 금액 기준)';
+COMMENT ON COLUMN public.coupons.starts_at IS '사용 시작일시 (NULL이면 즉시 사용 가능)';
+COMMENT ON COLUMN public.coupons.expires_at IS '만료일시 (NULL이면 만료 없음)';
+COMMENT ON COLUMN public.coupons.usage_limit_per_user IS '1인당 사용 횟수 (NULL이면 제한 없음)';
+COMMENT ON COLUMN public.coupons.categories IS '적용 카테고리 (NULL이면 전체 상품)';
+
+CREATE INDEX IF NOT EXISTS idx_coupons_is_active ON public.coupons(is_active);
+
+DROP TRIGGER IF EXISTS set_updated_at_coupons ON public.coupons;
+CREATE TRIGGER set_updated_at_coupons
+    BEFORE UPDATE ON public.coupons
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- ==========================================
+-- 2. coupon_redemptions 테이블 (쿠폰 사용 내역)
+-- ==========================================
+
+CREATE TABLE IF NOT EXISTS public.coupon_redemptions (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    coupon_id UUID NOT NULL REFERENCES public.coupons(id) ON DELETE CASCADE,
+    order_id UUID NOT NULL UNIQUE REFERENCES public.orders(id) ON DELETE CASCADE,
+    clerk_id TEXT NOT NULL,
+    discount_amount DECIMAL(10,2) NOT NULL CHECK (discount_amount >= 0),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL
+);
+
+COMMENT ON TABLE public.coupon_redemptions IS '쿠폰 사용 내역 (주문당 1개)';
+
+CREATE INDEX IF NOT EXISTS idx_coupon_redemptions_coupon_user
+    ON public.coupon_redemptions(coupon_id, clerk_id);
+
+-- ==========================================
+-- 3. orders 테이블: 쿠폰 / 할인 필드
+-- ==========================================
+
+ALTER TABLE public.orders
+ADD COLUMN IF NOT EXISTS coupon_id UUID REFERENCES public.coupons(id) ON DELETE SET NULL;
+
+ALTER TABLE public.orders
+ADD COLUMN IF NOT EXISTS coupon_code TEXT;
+
+ALTER TABLE public.orders
+ADD COLUMN IF NOT EXISTS discount_amount DECIMAL(10,2) NOT NULL DEFAULT 0
+  CHECK (discount_amount >= 0);
+
+COMMENT ON COLUMN public.orders.coupon_id IS '적용한 쿠폰 ID';
+COMMENT ON COLUMN public.orders.coupon_code IS '적용한 쿠폰 코드 (주문 시점 스냅샷)';
+COMMENT ON COLUMN public.orders.discount_amount IS '쿠폰 할인 금액';
+COMMENT ON COLUMN public.orders.total_amount IS '최종 결제 금액 (subtotal + shipping_fee - discount_amount)';
+
+-- total_amount 검증 제약조건 수정
+ALTER TABLE public.orders
+DROP CONSTRAINT IF EXISTS check_total_amount_valid;
+
+ALTER TABLE public.orders
+ADD CONSTRAINT check_total_amount_valid
+CHECK (total_amount = subtotal + shipping_fee - discount_amount);
+
+-- 주문 총액 계산 트리거 함수 수정
+CREATE OR REPLACE FUNCTION calculate_order_total()
+RETURNS TRIGGER AS $$
+BEGIN
+    -- total_amount는 subtotal + shipping_fee - discount_amount
+    NEW.total_amount := NEW.subtotal + NEW.shipping_fee - NEW.discount_amount;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+COMMENT ON FUNCTION calculate_order_total() IS '주문 총액 자동 계산 (subtotal + shipping_fee - discount_amount)';
+
+-- ==========================================
+-- 4. 주문 생성 함수 수정 (쿠폰 적용)
+-- ==========================================
+
+DROP FUNCTION IF EXISTS place_order(UUID[], JSONB, DECIMAL, DECIMAL, TEXT);
+
+CREATE OR REPLACE FUNCTION place_order(
+    p_cart_item_ids UUID[],
+    p_shipping_address JSONB,
+    p_shipping_fee DECIMAL,
+    p_expected_subtotal DECIMAL,
+    p_order_note TEXT DEFAULT NULL,
+    p_coupon_id UUID DEFAULT NULL,
+    p_discount_amount DECIMAL DEFAULT 0
+)
+RETURNS UUID AS $$
+DECLARE
+    v_clerk_id TEXT;
+    v_cart_count INTEGER;
+    v_product RECORD;
+    v_subtotal DECIMAL(10,2);
+    v_coupon public.coupons%ROWTYPE;
+    v_coupon_usage INTEGER;
+    v_discount_amount DECIMAL(10,2) := COALESCE(p_discount_amount, 0);
+    v_order_id UUID;
+BEGIN
+    -- 4-1. 요청자 확인 (Clerk 세션 토큰의 sub = Clerk User ID)
+    v_clerk_id := auth.jwt()->>'sub';
+
+    IF v_clerk_id IS NULL THEN
+        RAISE EXCEPTION '로그인이 필요합니다.';
+    END IF;
+
+    IF p_cart_item_ids IS NULL OR array_length(p_cart_item_ids, 1) IS NULL THEN
+        RAISE EXCEPTION '주문할 장바구니 항목을 선택해주세요.';
+    END IF;
+
+    IF p_shipping_fee IS NULL OR p_shipping_fee < 0 THEN
+        RAISE EXCEPTION '배송비가 올바르지 않습니다.';
+    END IF;
+
+    -- 4-2. 장바구니 항목 확인 (본인 항목만, 요청 항목 수와 일치해야 함)
+    SELECT COUNT(*)
+    INTO v_cart_count
+    FROM public.cart_items
+    WHERE clerk_id = v_clerk_id
+      AND id = ANY(p_cart_item_ids);
+
+    IF v_cart_count = 0 THEN
+        RAISE EXCEPTION '장바구니 항목을 찾을 수 없습니다.';
+    END IF;
+
+    IF v_cart_count <> (SELECT COUNT(DISTINCT id) FROM unnest(p_cart_item_ids) AS id) THEN
+        RAISE EXCEPTION '일부 장바구니 항목을 찾을 수 없습니다.';
+    END IF;
+
+    -- 4-3. 상품 행 잠금 및 판매 상태/재고 확인
+    FOR v_product IN
+        SELECT p.id, p.name, p.stock_quantity, p.is_active, p.status, requested.quantity
+        FROM public.products AS p
+        JOIN (
+            SELECT product_id, SUM(quantity) AS quantity
+            FROM public.cart_items
+            WHERE clerk_id = v_clerk_id
+              AND id = ANY(p_cart_item_ids)
+            GROUP BY product_id
+        ) AS requested ON requested.product_id = p.id
+        ORDER BY p.id
+        FOR UPDATE OF p
+    LOOP
+        IF NOT v_product.is_active OR v_product.status = 'hidden' THEN
+            RAISE EXCEPTION '현재 판매 중이 아닌 상품입니다: %', v_product.name;
+        END IF;
+
+        IF v_product.quantity > v_product.stock_quantity THEN
+            RAISE EXCEPTION '재고가 부족합니다: % (최대 %개까지 가능)',
+                v_product.name, v_product.stock_quantity;
+        END IF;
+    END LOOP;
+
+    -- 4-4. 금액 계산 (잠금 이후의 가격 기준) 및 배송비/할인 계산 기준 금액과 비교
+    SELECT COALESCE(SUM(p.price * c.quantity), 0)
+    INTO v_subtotal
+    FROM public.cart_items AS c
+    JOIN public.products AS p ON p.id = c.product_id
+    WHERE c.clerk_id = v_clerk_id
+      AND c.id = ANY(p_cart_item_ids);
+
+    IF v_subtotal <> p_expected_subtotal THEN
+        RAISE EXCEPTION '상품 가격이 변경되었습니다. 주문 내용을 다시 확인해주세요.';
+    END IF;
+
+    -- 4-5. 쿠폰 확인 (쿠폰 행 잠금으로 동시 사용 방지)
+    IF p_coupon_id IS NOT NULL THEN
+        SELECT *
+        INTO v_coupon
+        FROM public.coupons
+        WHERE id = p_coupon_id
+        FOR UPDATE;
+
+        IF NOT FOUND OR NOT v_coupon.is_active THEN
+            RAISE EXCEPTION '사용할 수 없는 쿠폰입니다.';
+        END IF;
+
+        IF v_coupon.starts_at IS NOT NULL AND v_coupon.starts_at > now() THEN
+            RAISE EXCEPTION '아직 사용할 수 없는 쿠폰입니다.';
+        END IF;
+
+        IF v_coupon.expires_at IS NOT NULL AND v_coupon.expires_at <= now() THEN
+            RAISE EXCEPTION '만료된 쿠폰입니다.';
+        END IF;
+
+        IF v_coupon.usage_limit_per_user IS NOT NULL THEN
+            SELECT COUNT(*)
+            INTO v_coupon_usage
+            FROM public.coupon_redemptions AS r
+            JOIN public.orders AS o ON o.id = r.order_id
+            WHERE r.coupon_id = p_coupon_id
+              AND r.clerk_id = v_clerk_id
+              AND o.status <> 'cancelled';
+
+            IF v_coupon_usage >= v_coupon.usage_limit_per_user THEN
+                RAISE EXCEPTION '쿠폰 사용 가능 횟수를 초과했습니다.';
+            END IF;
+        END IF;
+
+        IF v_discount_amount <= 0 OR v_discount_amount > v_subtotal THEN
+            RAISE EXCEPTION '쿠폰 할인 금액이 올바르지 않습니다.';
+        END IF;
+    ELSIF v_discount_amount <> 0 THEN
+        RAISE EXCEPTION '쿠폰 할인 금액이 올바르지 않습니다.';
+    END IF;
+
+    IF v_subtotal + p_shipping_fee - v_discount_amount <= 0 THEN
+        RAISE EXCEPTION '주문 금액이 올바르지 않습니다.';
+    END IF;
+
+    -- 4-6. 주문 저장
+    INSERT INTO public.orders (
+        clerk_id,
+        subtotal,
+        shipping_fee,
+        discount_amount,
+        coupon_id,
+        coupon_code,
+        total_amount,
+        status,
+        shipping_address,
+        order_note
+    )
+    VALUES (
+        v_clerk_id,
+        v_subtotal,
+        p_shipping_fee,
+        v_discount_amount,
+        p_coupon_id,
+        v_coupon.code,
+        v_subtotal + p_shipping_fee - v_discount_amount,
+        'pending',
+        p_shipping_address,
+        p_order_note
+    )
+    RETURNING id INTO v_order_id;
+
+    -- 4-7. 쿠폰 사용 내역 저장
+    IF p_coupon_id IS NOT NULL THEN
+        INSERT INTO public.coupon_redemptions (coupon_id, order_id, clerk_id, discount_amount)
+        VALUES (p_coupon_id, v_order_id, v_clerk_id, v_discount_amount);
+    END IF;
+
+    -- 4-8. 주문 항목 저장 (주문 시점의 상품명/가격 스냅샷)
+    INSERT INTO public.order_items (
+        order_id,
+        product_id,
+        product_name,
+        quantity,
+        price,
+        options
+    )
+    SELECT
+        v_order_id,
+        p.id,
+        p.name,
+        c.quantity,
+        p.price,
+        c.options
+    FROM public.cart_items AS c
+    JOIN public.products AS p ON p.id = c.product_id
+    WHERE c.clerk_id = v_clerk_id
+      AND c.id = ANY(p_cart_item_ids)
+    ORDER BY c.created_at;
+
+    -- 4-9. 재고 차감
+    UPDATE public.products AS p
+    SET stock_quantity = p.stock_quantity - requested.quantity
+    FROM (
+        SELECT product_id, SUM(quantity) AS quantity
+        FROM public.cart_items
+        WHERE clerk_id = v_clerk_id
+          AND id = ANY(p_cart_item_ids)
+        GROUP BY product_id
+    ) AS requested
+    WHERE p.id = requested.product_id;
+
+    -- 4-10. 장바구니 항목 제거
+    DELETE FROM public.cart_items
+    WHERE clerk_id = v_clerk_id
+      AND id = ANY(p_cart_item_ids);
+
+    RETURN v_order_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+COMMENT ON FUNCTION place_order(UUID[], JSONB, DECIMAL, DECIMAL, TEXT, UUID, DECIMAL) IS '주문 생성 (장바구니 검증, 가격 스냅샷, 상품 행 잠금, 쿠폰 사용, 재고 차감, 장바구니 제거를 하나의 트랜잭션으로 처리)';
+
+GRANT EXECUTE ON FUNCTION place_order(UUID[], JSONB, DECIMAL, DECIMAL, TEXT, UUID, DECIMAL) TO authenticated, service_role;
+
+-- ==========================================
+-- 5. RLS 비활성화 및 권한 부여
+-- ==========================================
+
+ALTER TABLE public.coupons DISABLE ROW LEVEL SECURITY;
+ALTER TABLE public.coupon_redemptions DISABLE ROW LEVEL SECURITY;
+
+GRANT ALL ON TABLE public.coupons TO anon, authenticated, service_role;
+GRANT ALL ON TABLE public.coupon_redemptions TO anon, authenticated, service_role;
+
+-- ==========================================
+-- 마이그레이션 완료
+-- ==========================================
+--
+-- 적용된 변경사항:
+-- ✅ coupons 테이블 생성
+-- ✅ coupon_redemptions 테이블 생성
+-- ✅ orders 테이블 쿠폰/할인 필드 추가 및 총액 제약조건 수정
+-- ✅ place_order 함수 쿠폰 적용
+--
+-- 다음 단계:
+-- 1. 관리자 쿠폰 관리 페이지 (/admin/coupons)
+-- 2. 주문 페이지 쿠폰 코드 입력
+-- ==========================================
@@ -0,0 +1,75 @@
+-- ==========================================
+-- 관리자 주문 취소 함수 추가 마이그레이션
+-- 관리자 주문 관리 페이지 (/admin/orders)
+-- ==========================================
+--
+-- 업데이트 내용:
+-- 1. admin_cancel_order 함수 추가
+--    - 주문자와 관계없이 주문 취소 (관리자 전용)
+--    - 취소 가능 상태 확인 (pending, confirmed만 취소 가능)
+--    - orders.status / orders.payment_status를 'cancelled'로 변경
+--    - order_items의 수량만큼 products.stock_quantity 복구
+--
+-- 참고:
+-- - 관리자 권한은 Server Action(isAdmin)에서 확인하고,
+--   함수 실행 권한은 service_role에만 부여합니다. (Service Role 클라이언트로 호출)
+-- - 주문 행을 FOR UPDATE로 잠가 고객 취소 요청과 동시에 실행되어도 재고가 두 번 복구되지 않습니다.
+-- ==========================================
+
+-- 1. 관리자 주문 취소 함수
+CREATE OR REPLACE FUNCTION admin_cancel_order(p_order_id UUID)
+RETURNS void AS $$
+DECLARE
+    v_order public.orders%ROWTYPE;
+BEGIN
+    -- 1-1. 주문 조회 및 행 잠금 (동시 취소 요청 방지)
+    SELECT *
+    INTO v_order
+    FROM public.orders
+    WHERE id = p_order_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION '주문을 찾을 수 없습니다.';
+    END IF;
+
+    -- 1-2. 취소 가능 상태 확인
+    IF v_order.status NOT IN ('pending', 'confirmed') THEN
+        RAISE EXCEPTION '취소할 수 없는 주문 상태입니다: %', v_order.status;
+    END IF;
+
+    -- 1-3. 주문 상태 변경
+    UPDATE public.orders
+    SET status = 'cancelled',
+        payment_status = 'cancelled'
+    WHERE id = p_order_id;
+
+    -- 1-4. 재고 복구 (동일 상품이 여러 항목에 있을 수 있으므로 합산 후 반영)
+    UPDATE public.products AS p
+    SET stock_quantity = p.stock_quantity + items.quantity
+    FROM (
+        SELECT product_id, SUM(quantity) AS quantity
+        FROM public.order_items
+        WHERE order_id = p_order_id
+        GROUP BY product_id
+    ) AS items
+    WHERE p.id = items.product_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+COMMENT ON FUNCTION admin_cancel_order(UUID) IS '관리자 주문 취소 (pending/confirmed 상태만 허용, 주문 상태 변경과 재고 복구를 하나의 트랜잭션으로 처리)';
+
+-- 2. 권한 부여 (Service Role 전용)
+REVOKE EXECUTE ON FUNCTION admin_cancel_order(UUID) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION admin_cancel_order(UUID) TO service_role;
+
+-- ==========================================
+-- 마이그레이션 완료
+-- ==========================================
+--
+-- 적용된 변경사항:
+-- ✅ admin_cancel_order 함수 추가 (관리자 주문 취소 + 재고 복구)
+--
+-- 다음 단계:
+-- 1. actions/admin/orders.ts의 updateOrderStatus에서 RPC 호출
+-- ==========================================
@@ -0,0 +1,330 @@
+-- ==========================================
+-- 주문 상태 변경 규칙 및 상태 이력 마이그레이션
+-- 허용되지 않은 주문 상태 변경 차단 + 모든 상태 변경 기록
+-- ==========================================
+--
+-- 업데이트 내용:
+-- 1. order_status_history 테이블 생성
+--    - 변경 전/후 상태, 변경 주체(customer/admin/system), 변경자 ID, 사유, 변경 일시
+-- 2. 주문 상태 변경 규칙 함수 (is_valid_order_status_transition)
+--    - utils/order.ts의 ORDER_STATUS_TRANSITIONS와 같은 규칙
+-- 3. orders 트리거
+--    - BEFORE UPDATE: 허용되지 않은 상태 변경 차단 (예: delivered → pending)
+--    - AFTER INSERT / UPDATE: 상태 이력 자동 기록
+-- 4. cancel_order 함수 수정 (취소 사유 기록)
+-- 5. admin_cancel_order → admin_update_order_status 함수로 교체
+--    - 관리자 상태 변경 전체를 하나의 함수로 처리 (사유, 관리자 ID 기록)
+-- 6. 기존 주문 상태 이력 생성
+--
+-- 참고:
+-- - 변경 주체와 사유는 트랜잭션 범위 설정값으로 전달합니다.
+--   (app.order_status_actor_type, app.order_status_actor_id, app.order_status_reason)
+-- - 설정값이 없으면 요청자 JWT로 변경 주체를 판단하고 상태별 기본 사유를 기록합니다.
+--   (주문자 본인 → customer, 그 외 사용자 → admin, JWT 없음 → system)
+-- ==========================================
+
+-- ==========================================
+-- 1. order_status_history 테이블
+-- ==========================================
+
+CREATE TABLE IF NOT EXISTS public.order_status_history (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    order_id UUID NOT NULL REFERENCES public.orders(id) ON DELETE CASCADE,
+    from_status TEXT,
+    to_status TEXT NOT NULL,
+    actor_type TEXT NOT NULL
+        CHECK (actor_type IN ('customer', 'admin', 'system')),
+    actor_id TEXT,
+    reason TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL
+);
+
+COMMENT ON TABLE public.order_status_history IS '주문 상태 변경 이력';
+COMMENT ON COLUMN public.order_status_history.from_status IS '변경 전 상태 (주문 생성 시 NULL)';
+COMMENT ON COLUMN public.order_status_history.to_status IS '변경 후 상태';
+COMMENT ON COLUMN public.order_status_history.actor_type IS '변경 주체 (customer: 주문자, admin: 관리자, system: 시스템)';
+COMMENT ON COLUMN public.order_status_history.actor_id IS '변경자 Clerk User ID (시스템 변경은 NULL)';
+COMMENT ON COLUMN public.order_status_history.reason IS '변경 사유';
+
+CREATE INDEX IF NOT EXISTS idx_order_status_history_order_id
+    ON public.order_status_history(order_id, created_at);
+
+-- ==========================================
+-- 2. 주문 상태 변경 규칙
+-- ==========================================
+
+CREATE OR REPLACE FUNCTION is_valid_order_status_transition(p_from TEXT, p_to TEXT)
+RETURNS BOOLEAN AS $$
+BEGIN
+    RETURN (p_from, p_to) IN (
+        ('pending', 'confirmed'),
+        ('pending', 'cancelled'),
+        ('confirmed', 'shipped'),
+        ('confirmed', 'cancelled'),
+        ('shipped', 'delivered')
+    );
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+COMMENT ON FUNCTION is_valid_order_status_transition(TEXT, TEXT) IS '주문 상태 변경 허용 여부 (utils/order.ts의 ORDER_STATUS_TRANSITIONS와 동일)';
+
+-- ==========================================
+-- 3. orders 트리거
+-- ==========================================
+
+-- 3-1. 허용되지 않은 상태 변경 차단
+CREATE OR REPLACE FUNCTION enforce_order_status_transition()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.status IS DISTINCT FROM OLD.status
+       AND NOT is_valid_order_status_transition(OLD.status, NEW.status) THEN
+        RAISE EXCEPTION '허용되지 않은 주문 상태 변경입니다: % → %', OLD.status, NEW.status;
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS enforce_order_status_transition_trigger ON public.orders;
+CREATE TRIGGER enforce_order_status_transition_trigger
+    BEFORE UPDATE OF status ON public.orders
+    FOR EACH ROW
+    EXECUTE FUNCTION enforce_order_status_transition();
+
+-- 3-2. 상태 이력 기록
+CREATE OR REPLACE FUNCTION record_order_status_history()
+RETURNS TRIGGER AS $$
+DECLARE
+    v_from_status TEXT;
+    v_actor_id TEXT;
+    v_actor_type TEXT;
+    v_reason TEXT;
+BEGIN
+    IF TG_OP = 'UPDATE' THEN
+        IF NEW.status IS NOT DISTINCT FROM OLD.status THEN
+            RETURN NEW;
+        END IF;
+        v_from_status := OLD.status;
+    END IF;
+
+    -- 변경자: 설정값 우선, 없으면 요청자 JWT
+    v_actor_id := COALESCE(
+        NULLIF(current_setting('app.order_status_actor_id', true), ''),
+        auth.jwt()->>'sub'
+    );
+
+    -- 변경 주체: 설정값 우선, 없으면 주문자 본인 여부로 판단
+    v_actor_type := COALESCE(
+        NULLIF(current_setting('app.order_status_actor_type', true), ''),
+        CASE
+            WHEN v_actor_id IS NULL THEN 'system'
+            WHEN v_actor_id = NEW.clerk_id THEN 'customer'
+            ELSE 'admin'
+        END
+    );
+
+    -- 사유: 설정값 우선, 없으면 상태별 기본 사유
+    v_reason := COALESCE(
+        NULLIF(current_setting('app.order_status_reason', true), ''),
+        CASE NEW.status
+            WHEN 'pending' THEN '주문 접수'
+            WHEN 'confirmed' THEN '결제 완료'
+            WHEN 'shipped' THEN '배송 시작'
+            WHEN 'delivered' THEN '배송 완료'
+            WHEN 'cancelled' THEN '주문 취소'
+        END
+    );
+
+    INSERT INTO public.order_status_history (
+        order_id,
+        from_status,
+        to_status,
+        actor_type,
+        actor_id,
+        reason
+    )
+    VALUES (
+        NEW.id,
+        v_from_status,
+        NEW.status,
+        v_actor_type,
+        v_actor_id,
+        v_reason
+    );
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS record_order_status_history_trigger ON public.orders;
+CREATE TRIGGER record_order_status_history_trigger
+    AFTER INSERT OR UPDATE OF status ON public.orders
+    FOR EACH ROW
+    EXECUTE FUNCTION record_order_status_history();
+
+COMMENT ON FUNCTION enforce_order_status_transition() IS '허용되지 않은 주문 상태 변경 차단';
+COMMENT ON FUNCTION record_order_status_history() IS '주문 생성 및 상태 변경 시 order_status_history 기록';
+
+-- ==========================================
+-- 4. 고객 주문 취소 함수 수정 (취소 사유 기록)
+-- ==========================================
+
+CREATE OR REPLACE FUNCTION cancel_order(p_order_id UUID)
+RETURNS void AS $$
+DECLARE
+    v_clerk_id TEXT;
+    v_order public.orders%ROWTYPE;
+BEGIN
+    -- 4-1. 요청자 확인 (Clerk 세션 토큰의 sub = Clerk User ID)
+    v_clerk_id := auth.jwt()->>'sub';
+
+    IF v_clerk_id IS NULL THEN
+        RAISE EXCEPTION '로그인이 필요합니다.';
+    END IF;
+
+    -- 4-2. 주문 조회 및 행 잠금 (동시 취소 요청 방지)
+    SELECT *
+    INTO v_order
+    FROM public.orders
+    WHERE id = p_order_id
+    FOR UPDATE;
+
+    IF NOT FOUND OR v_order.clerk_id <> v_clerk_id THEN
+        RAISE EXCEPTION '주문을 찾을 수 없습니다.';
+    END IF;
+
+    -- 4-3. 취소 가능 상태 확인
+    IF NOT is_valid_order_status_transition(v_order.status, 'cancelled') THEN
+        RAISE EXCEPTION '취소할 수 없는 주문 상태입니다: %', v_order.status;
+    END IF;
+
+    -- 4-4. 주문 상태 변경 (상태 이력에 고객 취소로 기록)
+    PERFORM set_config('app.order_status_actor_type', 'customer', true);
+    PERFORM set_config('app.order_status_reason', '고객 요청으로 취소', true);
+
+    UPDATE public.orders
+    SET status = 'cancelled',
+        payment_status = 'cancelled'
+    WHERE id = p_order_id;
+
+    -- 4-5. 재고 복구 (동일 상품이 여러 항목에 있을 수 있으므로 합산 후 반영)
+    UPDATE public.products AS p
+    SET stock_quantity = p.stock_quantity + items.quantity
+    FROM (
+        SELECT product_id, SUM(quantity) AS quantity
+        FROM public.order_items
+        WHERE order_id = p_order_id
+        GROUP BY product_id
+    ) AS items
+    WHERE p.id = items.product_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- ==========================================
+-- 5. 관리자 주문 상태 변경 함수
+-- ==========================================
+
+DROP FUNCTION IF EXISTS admin_cancel_order(UUID);
+
+CREATE OR REPLACE FUNCTION admin_update_order_status(
+    p_order_id UUID,
+    p_expected_status TEXT,
+    p_next_status TEXT,
+    p_actor_id TEXT,
+    p_reason TEXT DEFAULT NULL
+)
+RETURNS void AS $$
+DECLARE
+    v_order public.orders%ROWTYPE;
+BEGIN
+    -- 5-1. 주문 조회 및 행 잠금 (동시 변경 방지)
+    SELECT *
+    INTO v_order
+    FROM public.orders
+    WHERE id = p_order_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION '주문을 찾을 수 없습니다.';
+    END IF;
+
+    -- 5-2. 화면에서 확인한 상태와 같은지 확인
+    IF v_order.status <> p_expected_status THEN
+        RAISE EXCEPTION '주문 상태가 이미 변경되었습니다. 새로고침 후 다시 시도해주세요.';
+    END IF;
+
+    -- 5-3. 상태 변경 규칙 확인
+    IF NOT is_valid_order_status_transition(v_order.status, p_next_status) THEN
+        RAISE EXCEPTION '허용되지 않은 주문 상태 변경입니다: % → %', v_order.status, p_next_status;
+    END IF;
+
+    -- 5-4. 주문 상태 변경 (상태 이력에 관리자 변경으로 기록)
+    PERFORM set_config('app.order_status_actor_type', 'admin', true);
+    PERFORM set_config('app.order_status_actor_id', COALESCE(p_actor_id, ''), true);
+    PERFORM set_config('app.order_status_reason', COALESCE(p_reason, ''), true);
+
+    IF p_next_status = 'cancelled' THEN
+        UPDATE public.orders
+        SET status = 'cancelled',
+            payment_status = 'cancelled'
+        WHERE id = p_order_id;
+
+        -- 재고 복구 (동일 상품이 여러 항목에 있을 수 있으므로 합산 후 반영)
+        UPDATE public.products AS p
+        SET stock_quantity = p.stock_quantity + items.quantity
+        FROM (
+            SELECT product_id, SUM(quantity) AS quantity
+            FROM public.order_items
+            WHERE order_id = p_order_id
+            GROUP BY product_id
+        ) AS items
+        WHERE p.id = items.product_id;
+    ELSE
+        UPDATE public.orders
+        SET status = p_next_status
+        WHERE id = p_order_id;
+    END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+COMMENT ON FUNCTION admin_update_order_status(UUID, TEXT, TEXT, TEXT, TEXT) IS '관리자 주문 상태 변경 (상태 변경 규칙 확인, 취소 시 재고 복구, 상태 이력에 관리자/사유 기록)';
+
+-- 권한 부여 (Service Role 전용)
+REVOKE EXECUTE ON FUNCTION admin_update_order_status(UUID, TEXT, TEXT, TEXT, TEXT) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION admin_update_order_status(UUID, TEXT, TEXT, TEXT, TEXT) TO service_role;
+
+-- ==========================================
+-- 6. 기존 주문 상태 이력 생성
+-- ==========================================
+
+INSERT INTO public.order_status_history (order_id, from_status, to_status, actor_type, reason, created_at)
+SELECT o.id, NULL, o.status, 'system', '기존 주문 상태', o.created_at
+FROM public.orders AS o
+WHERE NOT EXISTS (
+    SELECT 1
+    FROM public.order_status_history AS h
+    WHERE h.order_id = o.id
+);
+
+-- ==========================================
+-- 7. RLS 비활성화 및 권한 부여
+-- ==========================================
+
+ALTER TABLE public.order_status_history DISABLE ROW LEVEL SECURITY;
+
+GRANT ALL ON TABLE public.order_status_history TO anon, authenticated, service_role;
+
+-- ==========================================
+-- 마이그레이션 완료
+-- ==========================================
+--
+-- 적용된 변경사항:
+-- ✅ order_status_history 테이블 생성
+-- ✅ 주문 상태 변경 규칙 함수 및 차단 트리거
+-- ✅ 주문 생성 / 상태 변경 시 상태 이력 자동 기록
+-- ✅ cancel_order 취소 사유 기록
+-- ✅ admin_update_order_status 함수 (admin_cancel_order 대체)
+--
+-- 다음 단계:
+-- 1. 주문 상세 페이지에 상태 이력 타임라인 표시
+-- ==========================================
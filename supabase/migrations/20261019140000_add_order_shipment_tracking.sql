@@ -0,0 +1,160 @@
+-- ==========================================
+-- 주문 배송 정보 (택배사 / 송장 번호) 마이그레이션
+-- 관리자가 등록한 송장으로 고객이 배송 조회
+-- ==========================================
+--
+-- 업데이트 내용:
+-- 1. orders 테이블에 배송 정보 컬럼 추가
+--    - carrier: 택배사 코드 (cj, hanjin, lotte, epost)
+--    - tracking_number: 송장 번호 (숫자만)
+--    - shipped_at: 배송 시작 일시
+--    - delivered_at: 배송 완료 일시
+-- 2. admin_update_order_status 함수 수정
+--    - 송장이 등록되지 않은 주문은 배송 시작(shipped)으로 변경할 수 없음
+--    - 배송 시작 / 배송 완료 일시 기록
+--
+-- 참고:
+-- - 택배사 코드와 송장 번호 형식은 lib/couriers/carriers.ts와 같은 규칙을 사용합니다.
+-- - 송장은 관리자가 주문 확인(confirmed) 또는 배송중(shipped) 상태에서 등록/수정합니다.
+-- ==========================================
+
+-- ==========================================
+-- 1. orders 테이블 배송 정보 컬럼
+-- ==========================================
+
+ALTER TABLE public.orders
+    ADD COLUMN IF NOT EXISTS carrier TEXT,
+    ADD COLUMN IF NOT EXISTS tracking_number TEXT,
+    ADD COLUMN IF NOT EXISTS shipped_at TIMESTAMP WITH TIME ZONE,
+    ADD COLUMN IF NOT EXISTS delivered_at TIMESTAMP WITH TIME ZONE;
+
+ALTER TABLE public.orders
+    DROP CONSTRAINT IF EXISTS orders_carrier_check;
+
+ALTER TABLE public.orders
+    ADD CONSTRAINT orders_carrier_check
+    CHECK (carrier IS NULL OR carrier IN ('cj', 'hanjin', 'lotte', 'epost'));
+
+ALTER TABLE public.orders
+    DROP CONSTRAINT IF EXISTS orders_tracking_number_check;
+
+ALTER TABLE public.orders
+    ADD CONSTRAINT orders_tracking_number_check
+    CHECK (tracking_number IS NULL OR tracking_number ~ '^[0-9]{10,13}$');
+
+-- 택배사와 송장 번호는 함께 등록
+ALTER TABLE public.orders
+    DROP CONSTRAINT IF EXISTS orders_shipment_pair_check;
+
+ALTER TABLE public.orders
+    ADD CONSTRAINT orders_shipment_pair_check
+    CHECK ((carrier IS NULL) = (tracking_number IS NULL));
+
+CREATE INDEX IF NOT EXISTS idx_orders_tracking_number
+    ON public.orders(tracking_number)
+    WHERE tracking_number IS NOT NULL;
+
+COMMENT ON COLUMN public.orders.carrier IS '택배사 코드 (cj: CJ대한통운, hanjin: 한진택배, lotte: 롯데택배, epost: 우체국택배)';
+COMMENT ON COLUMN public.orders.tracking_number IS '송장 번호 (숫자만)';
+COMMENT ON COLUMN public.orders.shipped_at IS '배송 시작 일시';
+COMMENT ON COLUMN public.orders.delivered_at IS '배송 완료 일시';
+
+-- ==========================================
+-- 2. 관리자 주문 상태 변경 함수 (송장 확인, 배송 일시 기록)
+-- ==========================================
+
+CREATE OR REPLACE FUNCTION admin_update_order_status(
+    p_order_id UUID,
+    p_expected_status TEXT,
+    p_next_status TEXT,
+    p_actor_id TEXT,
+    p_reason TEXT DEFAULT NULL
+)
+RETURNS void AS $$
+DECLARE
+    v_order public.orders%ROWTYPE;
+BEGIN
+    -- 2-1. 주문 조회 및 행 잠금 (동시 변경 방지)
+    SELECT *
+    INTO v_order
+    FROM public.orders
+    WHERE id = p_order_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION '주문을 찾을 수 없습니다.';
+    END IF;
+
+    -- 2-2. 화면에서 확인한 상태와 같은지 확인
+    IF v_order.status <> p_expected_status THEN
+        RAISE EXCEPTION '주문 상태가 이미 변경되었습니다. 새로고침 후 다시 시도해주세요.';
+    END IF;
+
+    -- 2-3. 상태 변경 규칙 확인
+    IF NOT is_valid_order_status_transition(v_order.status, p_next_status) THEN
+        RAISE EXCEPTION '허용되지 않은 주문 상태 변경입니다: % → %', v_order.status, p_next_status;
+    END IF;
+
+    -- 2-4. 배송 시작은 송장 등록 후에만 가능
+    IF p_next_status = 'shipped' AND v_order.tracking_number IS NULL THEN
+        RAISE EXCEPTION '택배사와 송장 번호를 먼저 등록해주세요.';
+    END IF;
+
+    -- 2-5. 주문 상태 변경 (상태 이력에 관리자 변경으로 기록)
+    PERFORM set_config('app.order_status_actor_type', 'admin', true);
+    PERFORM set_config('app.order_status_actor_id', COALESCE(p_actor_id, ''), true);
+    PERFORM set_config('app.order_status_reason', COALESCE(p_reason, ''), true);
+
+    IF p_next_status = 'cancelled' THEN
+        UPDATE public.orders
+        SET status = 'cancelled',
+            payment_status = 'cancelled'
+        WHERE id = p_order_id;
+
+        -- 재고 복구 (동일 상품이 여러 항목에 있을 수 있으므로 합산 후 반영)
+        UPDATE public.products AS p
+        SET stock_quantity = p.stock_quantity + items.quantity
+        FROM (
+            SELECT product_id, SUM(quantity) AS quantity
+            FROM public.order_items
+            WHERE order_id = p_order_id
+            GROUP BY product_id
+        ) AS items
+        WHERE p.id = items.product_id;
+    ELSIF p_next_status = 'shipped' THEN
+        UPDATE public.orders
+        SET status = 'shipped',
+            shipped_at = NOW()
+        WHERE id = p_order_id;
+    ELSIF p_next_status = 'delivered' THEN
+        UPDATE public.orders
+        SET status = 'delivered',
+            delivered_at = NOW()
+        WHERE id = p_order_id;
+    ELSE
+        UPDATE public.orders
+        SET status = p_next_status
+        WHERE id = p_order_id;
+    END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+COMMENT ON FUNCTION admin_update_order_status(UUID, TEXT, TEXT, TEXT, TEXT) IS '관리자 주문 상태 변경 (상태 변경 규칙 확인, 배송 시작 전 송장 확인, 취소 시 재고 복구, 상태 이력에 관리자/사유 기록)';
+
+-- 권한 부여 (Service Role 전용)
+REVOKE EXECUTE ON FUNCTION admin_update_order_status(UUID, TEXT, TEXT, TEXT, TEXT) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION admin_update_order_status(UUID, TEXT, TEXT, TEXT, TEXT) TO service_role;
+
+-- ==========================================
+-- 마이그레이션 완료
+-- ==========================================
+--
+-- 적용된 변경사항:
+-- ✅ orders 테이블에 택배사 / 송장 번호 / 배송 시작·완료 일시 컬럼 추가
+-- ✅ 송장 미등록 주문의 배송 시작 차단
+-- ✅ 배송 시작 / 배송 완료 일시 기록
+--
+-- 다음 단계:
+-- 1. 관리자 주문 상세 페이지에서 송장 등록
+-- 2. 고객 주문 상세 페이지에 배송 조회 타임라인 표시
+-- ==========================================
@@ -0,0 +1,573 @@
+-- ==========================================
+-- 상품 옵션 조합(variant) 마이그레이션
+-- 옵션 조합별 SKU / 재고 / 추가 금액 관리
+-- ==========================================
+--
+-- 업데이트 내용:
+-- 1. product_variants 테이블 생성
+--    - 옵션 조합(options JSONB, 예: {"사이즈": "M", "색상": "검정"})별 SKU, 재고, 추가 금액
+--    - 상품별 옵션 조합은 하나만 존재 (UNIQUE product_id, options)
+-- 2. 옵션 조합 재고 합계를 products.stock_quantity에 자동 반영하는 트리거
+-- 3. cart_items / order_items에 variant_id 컬럼 추가 (order_items는 SKU 스냅샷 포함)
+-- 4. place_order 함수 수정
+--    - 옵션 조합이 있는 상품은 옵션 조합 선택 필수
+--    - 옵션 조합 행 잠금 후 옵션 조합별 재고 확인 및 차감
+--    - 주문 금액 = (상품 가격 + 옵션 추가 금액) × 수량
+-- 5. 재고 복구 함수 (restock_order_items) 추가
+--    - cancel_order, admin_update_order_status에서 옵션 조합별 재고 복구
+--
+-- 참고:
+-- - 옵션 축(사이즈, 색상)은 기존처럼 products.options의 sizes / colors 배열에 저장합니다.
+-- - 옵션 조합의 options 키는 화면 표시명(사이즈, 색상)을 그대로 사용하므로
+--   장바구니 / 주문 항목의 options 표시 방식은 바뀌지 않습니다.
+-- - 옵션 조합이 있는 상품의 products.stock_quantity는 판매 중인 옵션 조합 재고의 합계입니다.
+-- ==========================================
+
+-- ==========================================
+-- 1. product_variants 테이블
+-- ==========================================
+
+CREATE TABLE IF NOT EXISTS public.product_variants (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    product_id UUID NOT NULL REFERENCES public.products(id) ON DELETE CASCADE,
+    options JSONB NOT NULL,
+    sku TEXT UNIQUE,
+    stock_quantity INTEGER NOT NULL DEFAULT 0 CHECK (stock_quantity >= 0),
+    price_delta DECIMAL(10,2) NOT NULL DEFAULT 0,
+    is_active BOOLEAN NOT NULL DEFAULT true,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+    CONSTRAINT product_variants_options_object_check CHECK (jsonb_typeof(options) = 'object'),
+    CONSTRAINT product_variants_product_options_key UNIQUE (product_id, options)
+);
+
+CREATE INDEX IF NOT EXISTS idx_product_variants_product_id
+    ON public.product_variants(product_id);
+
+DROP TRIGGER IF EXISTS set_product_variants_updated_at ON public.product_variants;
+CREATE TRIGGER set_product_variants_updated_at
+    BEFORE UPDATE ON public.product_variants
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+COMMENT ON TABLE public.product_variants IS '상품 옵션 조합 (옵션 조합별 SKU, 재고, 추가 금액)';
+COMMENT ON COLUMN public.product_variants.options IS '옵션 조합 (예: {"사이즈": "M", "색상": "검정"})';
+COMMENT ON COLUMN public.product_variants.sku IS '재고 관리 코드 (전체 상품에서 고유, 선택사항)';
+COMMENT ON COLUMN public.product_variants.stock_quantity IS '옵션 조합 재고 수량';
+COMMENT ON COLUMN public.product_variants.price_delta IS '상품 가격 대비 추가 금액 (음수면 할인)';
+COMMENT ON COLUMN public.product_variants.is_active IS '판매 여부 (false면 선택 불가, 재고 합계에서 제외)';
+
+-- ==========================================
+-- 2. 옵션 조합 재고 합계 → products.stock_quantity
+-- ==========================================
+
+CREATE OR REPLACE FUNCTION sync_product_stock_from_variants()
+RETURNS TRIGGER AS $$
+DECLARE
+    v_product_id UUID;
+BEGIN
+    v_product_id := COALESCE(NEW.product_id, OLD.product_id);
+
+    -- 옵션 조합이 모두 삭제된 경우에는 상품 재고를 그대로 둠 (관리자가 직접 관리)
+    IF EXISTS (SELECT 1 FROM public.product_variants WHERE product_id = v_product_id) THEN
+        UPDATE public.products
+        SET stock_quantity = (
+            SELECT COALESCE(SUM(stock_quantity), 0)
+            FROM public.product_variants
+            WHERE product_id = v_product_id
+              AND is_active
+        )
+        WHERE id = v_product_id;
+    END IF;
+
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS sync_product_stock_from_variants ON public.product_variants;
+CREATE TRIGGER sync_product_stock_from_variants
+    AFTER INSERT OR UPDATE OF stock_quantity, is_active OR DELETE ON public.product_variants
+    FOR EACH ROW
+    EXECUTE FUNCTION sync_product_stock_from_variants();
+
+-- ==========================================
+-- 3. cart_items / order_items 옵션 조합 컬럼
+-- ==========================================
+
+-- 옵션 조합이 삭제되면 장바구니 항목도 삭제
+ALTER TABLE public.cart_items
+    ADD COLUMN IF NOT EXISTS variant_id UUID REFERENCES public.product_variants(id) ON DELETE CASCADE;
+
+CREATE INDEX IF NOT EXISTS idx_cart_items_variant_id
+    ON public.cart_items(variant_id)
+    WHERE variant_id IS NOT NULL;
+
+COMMENT ON COLUMN public.cart_items.variant_id IS '선택한 옵션 조합 (옵션 조합이 없는 상품은 NULL)';
+
+-- 옵션 조합이 삭제되어도 주문 항목은 유지 (options, sku 스냅샷으로 표시)
+ALTER TABLE public.order_items
+    ADD COLUMN IF NOT EXISTS variant_id UUID REFERENCES public.product_variants(id) ON DELETE SET NULL,
+    ADD COLUMN IF NOT EXISTS sku TEXT;
+
+COMMENT ON COLUMN public.order_items.variant_id IS '주문한 옵션 조합 (옵션 조합이 없는 상품은 NULL)';
+COMMENT ON COLUMN public.order_items.sku IS '주문 시점의 옵션 조합 SKU 스냅샷';
+
+-- ==========================================
+-- 4. 주문 생성 함수 (옵션 조합별 재고 / 추가 금액)
+-- ==========================================
+
+CREATE OR REPLACE FUNCTION place_order(
+    p_cart_item_ids UUID[],
+    p_shipping_address JSONB,
+    p_shipping_fee DECIMAL,
+    p_expected_subtotal DECIMAL,
+    p_order_note TEXT DEFAULT NULL,
+    p_coupon_id UUID DEFAULT NULL,
+    p_discount_amount DECIMAL DEFAULT 0
+)
+RETURNS UUID AS $$
+DECLARE
+    v_clerk_id TEXT;
+    v_cart_count INTEGER;
+    v_product RECORD;
+    v_variant RECORD;
+    v_subtotal DECIMAL(10,2);
+    v_coupon public.coupons%ROWTYPE;
+    v_coupon_usage INTEGER;
+    v_discount_amount DECIMAL(10,2) := COALESCE(p_discount_amount, 0);
+    v_order_id UUID;
+BEGIN
+    -- 4-1. 요청자 확인 (Clerk 세션 토큰의 sub = Clerk User ID)
+    v_clerk_id := auth.jwt()->>'sub';
+
+    IF v_clerk_id IS NULL THEN
+        RAISE EXCEPTION '로그인이 필요합니다.';
+    END IF;
+
+    IF p_cart_item_ids IS NULL OR array_length(p_cart_item_ids, 1) IS NULL THEN
+        RAISE EXCEPTION '주문할 장바구니 항목을 선택해주세요.';
+    END IF;
+
+    IF p_shipping_fee IS NULL OR p_shipping_fee < 0 THEN
+        RAISE EXCEPTION '배송비가 올바르지 않습니다.';
+    END IF;
+
+    -- 4-2. 장바구니 항목 확인 (본인 항목만, 요청 항목 수와 일치해야 함)
+    SELECT COUNT(*)
+    INTO v_cart_count
+    FROM public.cart_items
+    WHERE clerk_id = v_clerk_id
+      AND id = ANY(p_cart_item_ids);
+
+    IF v_cart_count = 0 THEN
+        RAISE EXCEPTION '장바구니 항목을 찾을 수 없습니다.';
+    END IF;
+
+    IF v_cart_count <> (SELECT COUNT(DISTINCT id) FROM unnest(p_cart_item_ids) AS id) THEN
+        RAISE EXCEPTION '일부 장바구니 항목을 찾을 수 없습니다.';
+    END IF;
+
+    -- 4-3. 상품 행 잠금 및 판매 상태/재고 확인
+    --      (옵션 조합을 선택한 항목의 재고는 4-4에서 옵션 조합별로 확인)
+    FOR v_product IN
+        SELECT
+            p.id,
+            p.name,
+            p.stock_quantity,
+            p.is_active,
+            p.status,
+            requested.quantity,
+            requested.missing_variant_count,
+            EXISTS (
+                SELECT 1
+                FROM public.product_variants AS v
+                WHERE v.product_id = p.id
+            ) AS has_variants
+        FROM public.products AS p
+        JOIN (
+            SELECT
+                product_id,
+                COALESCE(SUM(quantity) FILTER (WHERE variant_id IS NULL), 0) AS quantity,
+                COUNT(*) FILTER (WHERE variant_id IS NULL) AS missing_variant_count
+            FROM public.cart_items
+            WHERE clerk_id = v_clerk_id
+              AND id = ANY(p_cart_item_ids)
+            GROUP BY product_id
+        ) AS requested ON requested.product_id = p.id
+        ORDER BY p.id
+        FOR UPDATE OF p
+    LOOP
+        IF NOT v_product.is_active OR v_product.status = 'hidden' THEN
+            RAISE EXCEPTION '현재 판매 중이 아닌 상품입니다: %', v_product.name;
+        END IF;
+
+        IF v_product.has_variants AND v_product.missing_variant_count > 0 THEN
+            RAISE EXCEPTION '옵션을 다시 선택해주세요: %', v_product.name;
+        END IF;
+
+        IF NOT v_product.has_variants AND v_product.quantity > v_product.stock_quantity THEN
+            RAISE EXCEPTION '재고가 부족합니다: % (최대 %개까지 가능)',
+                v_product.name, v_product.stock_quantity;
+        END IF;
+    END LOOP;
+
+    -- 4-4. 옵션 조합 행 잠금 및 판매 상태/재고 확인
+    FOR v_variant IN
+        SELECT
+            v.id,
+            v.product_id,
+            v.options,
+            v.stock_quantity,
+            v.is_active,
+            p.name AS product_name,
+            requested.quantity
+        FROM public.product_variants AS v
+        JOIN public.products AS p ON p.id = v.product_id
+        JOIN (
+            SELECT variant_id, product_id, SUM(quantity) AS quantity
+            FROM public.cart_items
+            WHERE clerk_id = v_clerk_id
+              AND id = ANY(p_cart_item_ids)
+              AND variant_id IS NOT NULL
+            GROUP BY variant_id, product_id
+        ) AS requested ON requested.variant_id = v.id
+        ORDER BY v.id
+        FOR UPDATE OF v
+    LOOP
+        IF NOT v_variant.is_active THEN
+            RAISE EXCEPTION '현재 판매 중이 아닌 옵션입니다: % %', v_variant.product_name, v_variant.options;
+        END IF;
+
+        IF v_variant.quantity > v_variant.stock_quantity THEN
+            RAISE EXCEPTION '재고가 부족합니다: % % (최대 %개까지 가능)',
+                v_variant.product_name, v_variant.options, v_variant.stock_quantity;
+        END IF;
+    END LOOP;
+
+    -- 4-5. 금액 계산 (잠금 이후의 가격 + 옵션 추가 금액 기준) 및 배송비/할인 계산 기준 금액과 비교
+    SELECT COALESCE(SUM((p.price + COALESCE(v.price_delta, 0)) * c.quantity), 0)
+    INTO v_subtotal
+    FROM public.cart_items AS c
+    JOIN public.products AS p ON p.id = c.product_id
+    LEFT JOIN public.product_variants AS v ON v.id = c.variant_id
+    WHERE c.clerk_id = v_clerk_id
+      AND c.id = ANY(p_cart_item_ids);
+
+    IF v_subtotal <> p_expected_subtotal THEN
+        RAISE EXCEPTION '상품 가격이 변경되었습니다. 주문 내용을 다시 확인해주세요.';
+    END IF;
+
+    -- 4-6. 쿠폰 확인 (쿠폰 행 잠금으로 동시 사용 방지)
+    IF p_coupon_id IS NOT NULL THEN
+        SELECT *
+        INTO v_coupon
+        FROM public.coupons
+        WHERE id = p_coupon_id
+        FOR UPDATE;
+
+        IF NOT FOUND OR NOT v_coupon.is_active THEN
+            RAISE EXCEPTION '사용할 수 없는 쿠폰입니다.';
+        END IF;
+
+        IF v_coupon.starts_at IS NOT NULL AND v_coupon.starts_at > now() THEN
+            RAISE EXCEPTION '아직 사용할 수 없는 쿠폰입니다.';
+        END IF;
+
+        IF v_coupon.expires_at IS NOT NULL AND v_coupon.expires_at <= now() THEN
+            RAISE EXCEPTION '만료된 쿠폰입니다.';
+        END IF;
+
+        IF v_coupon.usage_limit_per_user IS NOT NULL THEN
+            SELECT COUNT(*)
+            INTO v_coupon_usage
+            FROM public.coupon_redemptions AS r
+            JOIN public.orders AS o ON o.id = r.order_id
+            WHERE r.coupon_id = p_coupon_id
+              AND r.clerk_id = v_clerk_id
+              AND o.status <> 'cancelled';
+
+            IF v_coupon_usage >= v_coupon.usage_limit_per_user THEN
+                RAISE EXCEPTION '쿠폰 사용 가능 횟수를 초과했습니다.';
+            END IF;
+        END IF;
+
+        IF v_discount_amount <= 0 OR v_discount_amount > v_subtotal THEN
+            RAISE EXCEPTION '쿠폰 할인 금액이 올바르지 않습니다.';
+        END IF;
+    ELSIF v_discount_amount <> 0 THEN
+        RAISE EXCEPTION '쿠폰 할인 금액이 올바르지 않습니다.';
+    END IF;
+
+    IF v_subtotal + p_shipping_fee - v_discount_amount <= 0 THEN
+        RAISE EXCEPTION '주문 금액이 올바르지 않습니다.';
+    END IF;
+
+    -- 4-7. 주문 저장
+    INSERT INTO public.orders (
+        clerk_id,
+        subtotal,
+        shipping_fee,
+        discount_amount,
+        coupon_id,
+        coupon_code,
+        total_amount,
+        status,
+        shipping_address,
+        order_note
+    )
+    VALUES (
+        v_clerk_id,
+        v_subtotal,
+        p_shipping_fee,
+        v_discount_amount,
+        p_coupon_id,
+        v_coupon.code,
+        v_subtotal + p_shipping_fee - v_discount_amount,
+        'pending',
+        p_shipping_address,
+        p_order_note
+    )
+    RETURNING id INTO v_order_id;
+
+    -- 4-8. 쿠폰 사용 내역 저장
+    IF p_coupon_id IS NOT NULL THEN
+        INSERT INTO public.coupon_redemptions (coupon_id, order_id, clerk_id, discount_amount)
+        VALUES (p_coupon_id, v_order_id, v_clerk_id, v_discount_amount);
+    END IF;
+
+    -- 4-9. 주문 항목 저장 (주문 시점의 상품명/가격/옵션 조합 스냅샷)
+    INSERT INTO public.order_items (
+        order_id,
+        product_id,
+        variant_id,
+        sku,
+        product_name,
+        quantity,
+        price,
+        options
+    )
+    SELECT
+        v_order_id,
+        p.id,
+        v.id,
+        v.sku,
+        p.name,
+        c.quantity,
+        p.price + COALESCE(v.price_delta, 0),
+        COALESCE(v.options, c.options)
+    FROM public.cart_items AS c
+    JOIN public.products AS p ON p.id = c.product_id
+    LEFT JOIN public.product_variants AS v ON v.id = c.variant_id
+    WHERE c.clerk_id = v_clerk_id
+      AND c.id = ANY(p_cart_item_ids)
+    ORDER BY c.created_at;
+
+    -- 4-10. 재고 차감 (옵션 조합이 없는 상품)
+    UPDATE public.products AS p
+    SET stock_quantity = p.stock_quantity - requested.quantity
+    FROM (
+        SELECT product_id, SUM(quantity) AS quantity
+        FROM public.cart_items
+        WHERE clerk_id = v_clerk_id
+          AND id = ANY(p_cart_item_ids)
+          AND variant_id IS NULL
+        GROUP BY product_id
+    ) AS requested
+    WHERE p.id = requested.product_id;
+
+    -- 4-11. 재고 차감 (옵션 조합, 상품 재고 합계는 트리거로 반영)
+    UPDATE public.product_variants AS v
+    SET stock_quantity = v.stock_quantity - requested.quantity
+    FROM (
+        SELECT variant_id, SUM(quantity) AS quantity
+        FROM public.cart_items
+        WHERE clerk_id = v_clerk_id
+          AND id = ANY(p_cart_item_ids)
+          AND variant_id IS NOT NULL
+        GROUP BY variant_id
+    ) AS requested
+    WHERE v.id = requested.variant_id;
+
+    -- 4-12. 장바구니 항목 제거
+    DELETE FROM public.cart_items
+    WHERE clerk_id = v_clerk_id
+      AND id = ANY(p_cart_item_ids);
+
+    RETURN v_order_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+COMMENT ON FUNCTION place_order(UUID[], JSONB, DECIMAL, DECIMAL, TEXT, UUID, DECIMAL) IS '주문 생성 (장바구니 검증, 가격/옵션 조합 스냅샷, 상품/옵션 조합/쿠폰 행 잠금, 재고 차감, 쿠폰 사용 기록, 장바구니 제거를 하나의 트랜잭션으로 처리)';
+
+-- ==========================================
+-- 5. 재고 복구 함수 및 주문 취소 함수 수정
+-- ==========================================
+
+CREATE OR REPLACE FUNCTION restock_order_items(p_order_id UUID)
+RETURNS void AS $$
+BEGIN
+    -- 5-1. 옵션 조합이 없는 항목 (동일 상품이 여러 항목에 있을 수 있으므로 합산 후 반영)
+    UPDATE public.products AS p
+    SET stock_quantity = p.stock_quantity + items.quantity
+    FROM (
+        SELECT product_id, SUM(quantity) AS quantity
+        FROM public.order_items
+        WHERE order_id = p_order_id
+          AND variant_id IS NULL
+        GROUP BY product_id
+    ) AS items
+    WHERE p.id = items.product_id;
+
+    -- 5-2. 옵션 조합 항목 (상품 재고 합계는 트리거로 반영)
+    UPDATE public.product_variants AS v
+    SET stock_quantity = v.stock_quantity + items.quantity
+    FROM (
+        SELECT variant_id, SUM(quantity) AS quantity
+        FROM public.order_items
+        WHERE order_id = p_order_id
+          AND variant_id IS NOT NULL
+        GROUP BY variant_id
+    ) AS items
+    WHERE v.id = items.variant_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+COMMENT ON FUNCTION restock_order_items(UUID) IS '주문 항목 수량만큼 상품 / 옵션 조합 재고 복구 (주문 취소 함수에서 호출)';
+
+-- 주문 취소 함수 내부에서만 사용
+REVOKE EXECUTE ON FUNCTION restock_order_items(UUID) FROM PUBLIC;
+
+CREATE OR REPLACE FUNCTION cancel_order(p_order_id UUID)
+RETURNS void AS $$
+DECLARE
+    v_clerk_id TEXT;
+    v_order public.orders%ROWTYPE;
+BEGIN
+    -- 5-3. 요청자 확인 (Clerk 세션 토큰의 sub = Clerk User ID)
+    v_clerk_id := auth.jwt()->>'sub';
+
+    IF v_clerk_id IS NULL THEN
+        RAISE EXCEPTION '로그인이 필요합니다.';
+    END IF;
+
+    -- 5-4. 주문 조회 및 행 잠금 (동시 취소 요청 방지)
+    SELECT *
+    INTO v_order
+    FROM public.orders
+    WHERE id = p_order_id
+    FOR UPDATE;
+
+    IF NOT FOUND OR v_order.clerk_id <> v_clerk_id THEN
+        RAISE EXCEPTION '주문을 찾을 수 없습니다.';
+    END IF;
+
+    -- 5-5. 취소 가능 상태 확인
+    IF NOT is_valid_order_status_transition(v_order.status, 'cancelled') THEN
+        RAISE EXCEPTION '취소할 수 없는 주문 상태입니다: %', v_order.status;
+    END IF;
+
+    -- 5-6. 주문 상태 변경 (상태 이력에 고객 취소로 기록)
+    PERFORM set_config('app.order_status_actor_type', 'customer', true);
+    PERFORM set_config('app.order_status_reason', '고객 요청으로 취소', true);
+
+    UPDATE public.orders
+    SET status = 'cancelled',
+        payment_status = 'cancelled'
+    WHERE id = p_order_id;
+
+    -- 5-7. 재고 복구 (옵션 조합별)
+    PERFORM restock_order_items(p_order_id);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION admin_update_order_status(
+    p_order_id UUID,
+    p_expected_status TEXT,
+    p_next_status TEXT,
+    p_actor_id TEXT,
+    p_reason TEXT DEFAULT NULL
+)
+RETURNS void AS $$
+DECLARE
+    v_order public.orders%ROWTYPE;
+BEGIN
+    -- 5-8. 주문 조회 및 행 잠금 (동시 변경 방지)
+    SELECT *
+    INTO v_order
+    FROM public.orders
+    WHERE id = p_order_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION '주문을 찾을 수 없습니다.';
+    END IF;
+
+    -- 5-9. 화면에서 확인한 상태와 같은지 확인
+    IF v_order.status <> p_expected_status THEN
+        RAISE EXCEPTION '주문 상태가 이미 변경되었습니다. 새로고침 후 다시 시도해주세요.';
+    END IF;
+
+    -- 5-10. 상태 변경 규칙 확인
+    IF NOT is_valid_order_status_transition(v_order.status, p_next_status) THEN
+        RAISE EXCEPTION '허용되지 않은 주문 상태 변경입니다: % → %', v_order.status, p_next_status;
+    END IF;
+
+    -- 5-11. 배송 시작은 송장 등록 후에만 가능
+    IF p_next_status = 'shipped' AND v_order.tracking_number IS NULL THEN
+        RAISE EXCEPTION '택배사와 송장 번호를 먼저 등록해주세요.';
+    END IF;
+
+    -- 5-12. 주문 상태 변경 (상태 이력에 관리자 변경으로 기록)
+    PERFORM set_config('app.order_status_actor_type', 'admin', true);
+    PERFORM set_config('app.order_status_actor_id', COALESCE(p_actor_id, ''), true);
+    PERFORM set_config('app.order_status_reason', COALESCE(p_reason, ''), true);
+
+    IF p_next_status = 'cancelled' THEN
+        UPDATE public.orders
+        SET status = 'cancelled',
+            payment_status = 'cancelled'
+        WHERE id = p_order_id;
+
+        -- 재고 복구 (옵션 조합별)
+        PERFORM restock_order_items(p_order_id);
+    ELSIF p_next_status = 'shipped' THEN
+        UPDATE public.orders
+        SET status = 'shipped',
+            shipped_at = NOW()
+        WHERE id = p_order_id;
+    ELSIF p_next_status = 'delivered' THEN
+        UPDATE public.orders
+        SET status = 'delivered',
+            delivered_at = NOW()
+        WHERE id = p_order_id;
+    ELSE
+        UPDATE public.orders
+        SET status = p_next_status
+        WHERE id = p_order_id;
+    END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- ==========================================
+-- 6. RLS 비활성화 및 권한 부여
+-- ==========================================
+
+ALTER TABLE public.product_variants DISABLE ROW LEVEL SECURITY;
+
+GRANT ALL ON TABLE public.product_variants TO anon, authenticated, service_role;
+
+-- ==========================================
+-- 마이그레이션 완료
+-- ==========================================
+--
+-- 적용된 변경사항:
+-- ✅ product_variants 테이블 생성 (옵션 조합별 SKU, 재고, 추가 금액)
+-- ✅ 옵션 조합 재고 합계 → 상품 재고 자동 반영
+-- ✅ cart_items / order_items에 variant_id 추가 (order_items SKU 스냅샷)
+-- ✅ place_order 옵션 조합별 재고 확인 / 차감, 추가 금액 반영
+-- ✅ 주문 취소 시 옵션 조합별 재고 복구 (restock_order_items)
+--
+-- 다음 단계:
+-- 1. 관리자 상품 수정 페이지에서 옵션 조합 매트릭스 편집
+-- 2. 상품 상세 페이지 옵션 선택 (품절 조합 선택 불가)
+-- ==========================================
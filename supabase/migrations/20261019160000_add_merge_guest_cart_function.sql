@@ -0,0 +1,167 @@
+-- ==========================================
+-- 비회원 장바구니 병합 함수 추가 마이그레이션
+-- 로그인 전에 담은 장바구니(쿠키)를 로그인 후 cart_items로 병합
+-- ==========================================
+--
+-- 업데이트 내용:
+-- 1. merge_guest_cart 함수 추가
+--    - 비회원 장바구니 항목(JSONB 배열)을 요청자의 cart_items로 병합
+--    - 동일 상품 + 동일 옵션 조합이 이미 있으면 수량 합산
+--    - 합산 수량은 상품 / 옵션 조합 재고를 넘지 않도록 조정
+--    - 판매 중이 아니거나 품절된 상품 / 옵션 조합은 건너뜀
+--    - 처리 결과(병합 / 수량 조정 / 건너뜀 개수)를 JSONB로 반환
+--
+-- 참고:
+-- - 장바구니 중복 기준은 cart_items_unique_user_product_options
+--   (clerk_id, product_id, COALESCE(options::text, 'null')) 인덱스와 같습니다.
+--   INSERT ... ON CONFLICT로 같은 인덱스를 사용하므로 동시 요청에도 중복 행이 생기지 않습니다.
+-- - 옵션 조합이 있는 상품은 옵션 조합의 options를 저장합니다. (addToCart와 동일)
+-- - 하나의 함수 호출이 하나의 트랜잭션으로 실행되므로 일부 항목만 병합되지 않습니다.
+-- ==========================================
+
+-- 1. 비회원 장바구니 병합 함수
+-- p_items 형식: [{ "product_id": UUID, "variant_id": UUID | null, "quantity": INTEGER, "options": JSONB | null }]
+CREATE OR REPLACE FUNCTION merge_guest_cart(p_items JSONB)
+RETURNS JSONB AS $$
+DECLARE
+    v_clerk_id TEXT;
+    v_item RECORD;
+    v_product RECORD;
+    v_variant RECORD;
+    v_has_variants BOOLEAN;
+    v_variant_id UUID;
+    v_stock INTEGER;
+    v_options JSONB;
+    v_existing_quantity INTEGER;
+    v_requested_quantity INTEGER;
+    v_quantity INTEGER;
+    v_merged INTEGER := 0;
+    v_adjusted INTEGER := 0;
+    v_skipped INTEGER := 0;
+BEGIN
+    -- 1-1. 요청자 확인 (Clerk 세션 토큰의 sub = Clerk User ID)
+    v_clerk_id := auth.jwt()->>'sub';
+
+    IF v_clerk_id IS NULL THEN
+        RAISE EXCEPTION '로그인이 필요합니다.';
+    END IF;
+
+    IF p_items IS NULL OR jsonb_typeof(p_items) <> 'array' THEN
+        RAISE EXCEPTION '장바구니 항목 형식이 올바르지 않습니다.';
+    END IF;
+
+    FOR v_item IN
+        SELECT *
+        FROM jsonb_to_recordset(p_items)
+            AS x(product_id UUID, variant_id UUID, quantity INTEGER, options JSONB)
+    LOOP
+        -- 1-2. 수량 확인
+        IF v_item.product_id IS NULL OR v_item.quantity IS NULL OR v_item.quantity < 1 THEN
+            v_skipped := v_skipped + 1;
+            CONTINUE;
+        END IF;
+
+        -- 1-3. 상품 확인 (판매 중인 상품만)
+        SELECT id, stock_quantity, is_active, status
+        INTO v_product
+        FROM public.products
+        WHERE id = v_item.product_id;
+
+        IF NOT FOUND OR NOT v_product.is_active OR v_product.status = 'hidden' THEN
+            v_skipped := v_skipped + 1;
+            CONTINUE;
+        END IF;
+
+        -- 1-4. 옵션 조합 확인 (옵션 조합이 있는 상품은 옵션 조합 재고 기준)
+        SELECT EXISTS (
+            SELECT 1 FROM public.product_variants WHERE product_id = v_item.product_id
+        )
+        INTO v_has_variants;
+
+        IF v_has_variants THEN
+            SELECT id, options, stock_quantity, is_active
+            INTO v_variant
+            FROM public.product_variants
+            WHERE id = v_item.variant_id
+              AND product_id = v_item.product_id;
+
+            IF NOT FOUND OR NOT v_variant.is_active THEN
+                v_skipped := v_skipped + 1;
+                CONTINUE;
+            END IF;
+
+            v_variant_id := v_variant.id;
+            v_stock := v_variant.stock_quantity;
+            v_options := v_variant.options;
+        ELSE
+            IF v_item.variant_id IS NOT NULL THEN
+                v_skipped := v_skipped + 1;
+                CONTINUE;
+            END IF;
+
+            v_variant_id := NULL;
+            v_stock := v_product.stock_quantity;
+            v_options := v_item.options;
+        END IF;
+
+        IF v_stock <= 0 THEN
+            v_skipped := v_skipped + 1;
+            CONTINUE;
+        END IF;
+
+        -- 1-5. 기존 장바구니 항목 조회 및 행 잠금 (동일 상품 + 동일 옵션)
+        SELECT quantity
+        INTO v_existing_quantity
+        FROM public.cart_items
+        WHERE clerk_id = v_clerk_id
+          AND product_id = v_item.product_id
+          AND COALESCE(options::text, 'null') = COALESCE(v_options::text, 'null')
+        FOR UPDATE;
+
+        v_requested_quantity := COALESCE(v_existing_quantity, 0) + v_item.quantity;
+        v_quantity := LEAST(v_requested_quantity, v_stock);
+
+        -- 이미 담긴 수량이 재고보다 많으면 기존 수량 유지 (비회원 항목 때문에 줄이지 않음)
+        IF v_existing_quantity IS NOT NULL AND v_existing_quantity > v_quantity THEN
+            v_quantity := v_existing_quantity;
+        END IF;
+
+        -- 1-6. 병합 (cart_items_unique_user_product_options 기준 수량 합산)
+        INSERT INTO public.cart_items (clerk_id, product_id, variant_id, quantity, options)
+        VALUES (v_clerk_id, v_item.product_id, v_variant_id, v_quantity, v_options)
+        ON CONFLICT (clerk_id, product_id, (COALESCE(options::text, 'null')))
+        DO UPDATE SET
+            quantity = EXCLUDED.quantity,
+            variant_id = EXCLUDED.variant_id;
+
+        IF v_quantity < v_requested_quantity THEN
+            v_adjusted := v_adjusted + 1;
+        ELSE
+            v_merged := v_merged + 1;
+        END IF;
+    END LOOP;
+
+    RETURN jsonb_build_object(
+        'merged', v_merged,
+        'adjusted', v_adjusted,
+        'skipped', v_skipped
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+COMMENT ON FUNCTION merge_guest_cart(JSONB) IS '비회원 장바구니를 요청자의 장바구니로 병합 (재고 한도 내 수량 합산)';
+
+-- 2. 권한 부여
+GRANT EXECUTE ON FUNCTION merge_guest_cart(JSONB) TO authenticated, service_role;
+
+-- ==========================================
+-- 마이그레이션 완료
+-- ==========================================
+--
+-- 적용된 변경사항:
+-- ✅ merge_guest_cart 함수 추가 (비회원 장바구니 → cart_items 병합)
+-- ✅ 동일 상품 + 동일 옵션은 재고 한도 내에서 수량 합산
+--
+-- 다음 단계:
+-- 1. 로그인 직후(useSyncUser) 비회원 장바구니 쿠키를 병합하고 삭제
+-- ==========================================
@@ -0,0 +1,256 @@
+-- ==========================================
+-- 상품 검색 마이그레이션
+-- 한글 n-gram 인덱스 기반 상품명 / 설명 / 카테고리 검색
+-- ==========================================
+--
+-- 업데이트 내용:
+-- 1. 검색 텍스트 정규화 / n-gram 생성 함수
+--    - 소문자 변환, 공백 / 특수문자 제거 후 1글자 + 2글자 n-gram 생성
+--    - 띄어쓰기가 달라도 검색됨 (예: "니트가디건" ↔ "니트 가디건")
+-- 2. product_search_index 테이블 (상품별 n-gram 배열, GIN 인덱스)
+--    - products의 name / description / category가 바뀌면 트리거로 갱신
+-- 3. search_products 함수 (검색 + 순위)
+--    - 검색어의 n-gram을 모두 포함하는 상품만 검색 (GIN 인덱스 사용)
+--    - 순위: 상품명 일치 > 상품명 포함 > 카테고리 포함 > 설명 포함, 동점이면 조회수 / 최신순
+--
+-- 참고:
+-- - Postgres 기본 전문 검색(to_tsvector)은 한글 형태소 분석을 지원하지 않으므로
+--   n-gram 포함 여부로 검색합니다. 2글자 검색어도 검색되도록 2-gram을 사용합니다.
+-- - 카테고리는 코드(clothing)와 한글 이름(의류) 모두 검색됩니다.
+--   한글 이름은 lib/categories.ts의 getCategoryLabel과 같은 값을 사용합니다.
+-- - 판매 중인 상품(is_active = true, status <> 'hidden')만 검색됩니다.
+-- ==========================================
+
+-- ==========================================
+-- 1. 검색 텍스트 정규화 / n-gram 함수
+-- ==========================================
+
+-- 1-1. 정규화 (소문자, 영문 / 숫자 / 한글만 남김)
+CREATE OR REPLACE FUNCTION search_normalize(p_text TEXT)
+RETURNS TEXT AS $$
+    SELECT regexp_replace(lower(COALESCE(p_text, '')), '[^0-9a-z가-힣ㄱ-ㅎㅏ-ㅣ]+', '', 'g');
+$$ LANGUAGE sql IMMUTABLE;
+
+-- 1-2. 문서 n-gram (1글자 + 2글자)
+CREATE OR REPLACE FUNCTION search_ngrams(p_text TEXT)
+RETURNS TEXT[] AS $$
+    WITH normalized AS (
+        SELECT search_normalize(p_text) AS t
+    )
+    SELECT COALESCE(array_agg(DISTINCT gram), '{}')
+    FROM (
+        SELECT substr(t, i, 1) AS gram
+        FROM normalized, generate_series(1, length(t)) AS i
+        UNION
+        SELECT substr(t, i, 2) AS gram
+        FROM normalized, generate_series(1, length(t) - 1) AS i
+    ) AS grams;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- 1-3. 검색어 단어 목록 (공백으로 나눈 뒤 정규화)
+CREATE OR REPLACE FUNCTION search_query_terms(p_query TEXT)
+RETURNS TEXT[] AS $$
+    SELECT COALESCE(array_agg(DISTINCT term), '{}')
+    FROM (
+        SELECT search_normalize(word) AS term
+        FROM regexp_split_to_table(COALESCE(p_query, ''), '\s+') AS word
+    ) AS terms
+    WHERE term <> '';
+$$ LANGUAGE sql IMMUTABLE;
+
+-- 1-4. 검색어 n-gram (1글자 단어는 1-gram, 2글자 이상 단어는 2-gram)
+CREATE OR REPLACE FUNCTION search_query_ngrams(p_query TEXT)
+RETURNS TEXT[] AS $$
+    SELECT COALESCE(array_agg(DISTINCT gram), '{}')
+    FROM (
+        SELECT CASE WHEN length(term) = 1 THEN term ELSE substr(term, i, 2) END AS gram
+        FROM unnest(search_query_terms(p_query)) AS term,
+             generate_series(1, GREATEST(length(term) - 1, 1)) AS i
+    ) AS grams;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- 1-5. 카테고리 한글 이름 (lib/categories.ts getCategoryLabel과 동일)
+CREATE OR REPLACE FUNCTION search_category_label(p_category TEXT)
+RETURNS TEXT AS $$
+    SELECT CASE p_category
+        WHEN 'electronics' THEN '전자제품'
+        WHEN 'clothing' THEN '의류'
+        WHEN 'books' THEN '도서'
+        WHEN 'food' THEN '식품'
+        WHEN 'sports' THEN '스포츠'
+        WHEN 'beauty' THEN '뷰티'
+        WHEN 'home' THEN '생활/가정'
+        WHEN 'collaboration' THEN '디자인 콜라보'
+        WHEN 'woman' THEN '여성'
+        WHEN 'man' THEN '남성'
+        ELSE NULL
+    END;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- ==========================================
+-- 2. product_search_index 테이블
+-- ==========================================
+
+CREATE TABLE IF NOT EXISTS public.product_search_index (
+    product_id UUID PRIMARY KEY REFERENCES public.products(id) ON DELETE CASCADE,
+    ngrams TEXT[] NOT NULL DEFAULT '{}',
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_product_search_index_ngrams
+    ON public.product_search_index USING GIN (ngrams);
+
+COMMENT ON TABLE public.product_search_index IS '상품 검색 n-gram 인덱스 (상품명 / 설명 / 카테고리)';
+COMMENT ON COLUMN public.product_search_index.ngrams IS '검색 텍스트의 1글자 + 2글자 n-gram (정규화 후)';
+
+-- 2-1. 상품 검색 n-gram 계산 (필드별 n-gram 합집합)
+CREATE OR REPLACE FUNCTION product_search_ngrams(
+    p_name TEXT,
+    p_description TEXT,
+    p_category TEXT
+)
+RETURNS TEXT[] AS $$
+    SELECT COALESCE(array_agg(DISTINCT gram), '{}')
+    FROM unnest(
+        search_ngrams(p_name)
+        || search_ngrams(p_description)
+        || search_ngrams(p_category)
+        || search_ngrams(search_category_label(p_category))
+    ) AS gram;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- 2-2. 상품 추가 / 수정 시 검색 인덱스 갱신
+CREATE OR REPLACE FUNCTION sync_product_search_index()
+RETURNS TRIGGER AS $$
+BEGIN
+    INSERT INTO public.product_search_index (product_id, ngrams, updated_at)
+    VALUES (
+        NEW.id,
+        product_search_ngrams(NEW.name, NEW.description, NEW.category),
+        NOW()
+    )
+    ON CONFLICT (product_id) DO UPDATE SET
+        ngrams = EXCLUDED.ngrams,
+        updated_at = EXCLUDED.updated_at;
+
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS sync_product_search_index ON public.products;
+CREATE TRIGGER sync_product_search_index
+    AFTER INSERT OR UPDATE OF name, description, category ON public.products
+    FOR EACH ROW
+    EXECUTE FUNCTION sync_product_search_index();
+
+-- 2-3. 기존 상품 인덱스 생성
+INSERT INTO public.product_search_index (product_id, ngrams)
+SELECT id, product_search_ngrams(name, description, category)
+FROM public.products
+ON CONFLICT (product_id) DO UPDATE SET
+    ngrams = EXCLUDED.ngrams,
+    updated_at = NOW();
+
+-- ==========================================
+-- 3. 상품 검색 함수
+-- ==========================================
+
+CREATE OR REPLACE FUNCTION search_products(
+    p_query TEXT,
+    p_limit INTEGER DEFAULT 12,
+    p_offset INTEGER DEFAULT 0
+)
+RETURNS TABLE (
+    product_id UUID,
+    search_rank REAL,
+    total_count BIGINT
+) AS $$
+DECLARE
+    v_terms TEXT[];
+    v_ngrams TEXT[];
+    v_phrase TEXT;
+BEGIN
+    -- 3-1. 검색어 정규화 (검색어가 비어 있으면 결과 없음)
+    v_terms := search_query_terms(p_query);
+    v_ngrams := search_query_ngrams(p_query);
+    v_phrase := search_normalize(p_query);
+
+    IF cardinality(v_ngrams) = 0 THEN
+        RETURN;
+    END IF;
+
+    -- 3-2. 검색 (n-gram 포함) 및 순위 계산
+    RETURN QUERY
+    WITH matched AS (
+        SELECT
+            p.id,
+            p.view_count,
+            p.created_at,
+            search_normalize(p.name) AS name_text,
+            search_normalize(concat_ws(' ', p.category, search_category_label(p.category))) AS category_text,
+            search_normalize(p.description) AS description_text
+        FROM public.product_search_index AS s
+        JOIN public.products AS p ON p.id = s.product_id
+        WHERE s.ngrams @> v_ngrams
+          AND p.is_active
+          AND p.status <> 'hidden'
+    ),
+    ranked AS (
+        SELECT
+            m.id,
+            m.view_count,
+            m.created_at,
+            (
+                -- 상품명 전체 일치 / 상품명이 검색어로 시작
+                CASE WHEN m.name_text = v_phrase THEN 10 ELSE 0 END
+                + CASE WHEN m.name_text LIKE v_phrase || '%' THEN 4 ELSE 0 END
+                -- 검색어 단어별 포함 필드 가중치 (상품명 3, 카테고리 2, 설명 1)
+                + (
+                    SELECT COALESCE(SUM(
+                        CASE WHEN strpos(m.name_text, term) > 0 THEN 3 ELSE 0 END
+                        + CASE WHEN strpos(m.category_text, term) > 0 THEN 2 ELSE 0 END
+                        + CASE WHEN strpos(m.description_text, term) > 0 THEN 1 ELSE 0 END
+                    ), 0)
+                    FROM unnest(v_terms) AS term
+                )
+                -- 상품명에 포함된 검색어 n-gram 비율 (일부만 일치하는 상품 보정)
+                + 2.0 * (
+                    SELECT COUNT(*)
+                    FROM unnest(v_ngrams) AS gram
+                    WHERE strpos(m.name_text, gram) > 0
+                ) / cardinality(v_ngrams)
+            )::REAL AS score
+        FROM matched AS m
+    )
+    SELECT r.id, r.score, COUNT(*) OVER ()
+    FROM ranked AS r
+    ORDER BY r.score DESC, r.view_count DESC, r.created_at DESC
+    LIMIT LEAST(GREATEST(COALESCE(p_limit, 12), 1), 50)
+    OFFSET GREATEST(COALESCE(p_offset, 0), 0);
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+COMMENT ON FUNCTION search_products(TEXT, INTEGER, INTEGER) IS '상품 검색 (한글 n-gram, 상품명 / 카테고리 / 설명 가중치 순위)';
+
+-- ==========================================
+-- 4. RLS 비활성화 및 권한 부여
+-- ==========================================
+
+ALTER TABLE public.product_search_index DISABLE ROW LEVEL SECURITY;
+
+GRANT ALL ON TABLE public.product_search_index TO anon, authenticated, service_role;
+GRANT EXECUTE ON FUNCTION search_products(TEXT, INTEGER, INTEGER) TO anon, authenticated, service_role;
+
+-- ==========================================
+-- 마이그레이션 완료
+-- ==========================================
+--
+-- 적용된 변경사항:
+-- ✅ 검색 텍스트 정규화 / n-gram 함수 (한글 2-gram)
+-- ✅ product_search_index 테이블 + GIN 인덱스 (상품 변경 시 트리거로 갱신)
+-- ✅ search_products 함수 (검색 + 순위 + 전체 개수)
+--
+-- 다음 단계:
+-- 1. /search 페이지에서 검색 결과 표시 (검색어 강조)
+-- 2. Navbar 검색창 자동완성 (/api/search/suggest)
+-- ==========================================
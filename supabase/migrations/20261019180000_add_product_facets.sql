@@ -0,0 +1,249 @@
+-- ==========================================
+-- 상품 목록 패싯 필터 마이그레이션
+-- 가격대 / 재고 있음 / 특가 / 사이즈 / 색상 필터와 필터별 상품 수
+-- ==========================================
+--
+-- 업데이트 내용:
+-- 1. product_option_values 함수 (products.options의 sizes / colors 배열 → TEXT[])
+-- 2. product_matches_filters 함수 (상품 목록 필터 조건을 한 곳에서 정의)
+--    - 카테고리, 가격 범위(이상 / 이하), 재고 있음, 특가(is_promotional + 프로모션 기간)
+--    - 사이즈 / 색상: 같은 필터 안에서는 하나라도 포함(OR), 필터끼리는 모두 만족(AND)
+-- 3. filter_products 함수 (필터를 적용한 상품 목록, SETOF products)
+--    - 정렬 / 페이지네이션 / 전체 개수는 PostgREST(order, range, count)로 처리
+-- 4. get_product_facets 함수 (필터별 상품 수)
+--    - 각 필터의 상품 수는 해당 필터를 제외한 나머지 필터를 적용해 계산
+--      (예: 사이즈 M을 선택해도 다른 사이즈의 상품 수가 표시됨)
+--
+-- 참고:
+-- - 판매 중인 상품(is_active = true)만 대상입니다. (기존 상품 목록과 동일)
+-- - 특가 여부는 is_promotion_active 함수로 프로모션 기간을 함께 확인합니다.
+-- - 가격대 구간은 화면(lib/product-filters.ts)에서 정의해 전달합니다.
+-- ==========================================
+
+-- ==========================================
+-- 1. 상품 옵션 값 목록
+-- ==========================================
+
+CREATE OR REPLACE FUNCTION product_option_values(p_options JSONB, p_key TEXT)
+RETURNS TEXT[] AS $$
+    SELECT COALESCE(array_agg(DISTINCT btrim(value)), '{}')
+    FROM jsonb_array_elements_text(
+        CASE
+            WHEN jsonb_typeof(p_options -> p_key) = 'array' THEN p_options -> p_key
+            ELSE '[]'::jsonb
+        END
+    ) AS value
+    WHERE btrim(value) <> '';
+$$ LANGUAGE sql IMMUTABLE;
+
+COMMENT ON FUNCTION product_option_values(JSONB, TEXT) IS '상품 옵션(sizes, colors 등) 배열 값을 TEXT[]로 반환';
+
+-- ==========================================
+-- 2. 상품 필터 조건
+-- ==========================================
+
+CREATE OR REPLACE FUNCTION product_matches_filters(
+    p_product public.products,
+    p_category TEXT DEFAULT NULL,
+    p_min_price DECIMAL DEFAULT NULL,
+    p_max_price DECIMAL DEFAULT NULL,
+    p_in_stock BOOLEAN DEFAULT false,
+    p_on_sale BOOLEAN DEFAULT false,
+    p_sizes TEXT[] DEFAULT NULL,
+    p_colors TEXT[] DEFAULT NULL
+)
+RETURNS BOOLEAN AS $$
+    SELECT p_product.is_active
+        AND (p_category IS NULL OR p_product.category = p_category)
+        AND (p_min_price IS NULL OR p_product.price >= p_min_price)
+        AND (p_max_price IS NULL OR p_product.price <= p_max_price)
+        AND (
+            NOT COALESCE(p_in_stock, false)
+            OR (p_product.stock_quantity > 0 AND p_product.status <> 'out_of_stock')
+        )
+        AND (
+            NOT COALESCE(p_on_sale, false)
+            OR (
+                p_product.is_promotional
+                AND is_promotion_active(p_product.promotion_start_date, p_product.promotion_end_date)
+            )
+        )
+        AND (
+            COALESCE(cardinality(p_sizes), 0) = 0
+            OR product_option_values(p_product.options, 'sizes') && p_sizes
+        )
+        AND (
+            COALESCE(cardinality(p_colors), 0) = 0
+            OR product_option_values(p_product.options, 'colors') && p_colors
+        );
+$$ LANGUAGE sql STABLE;
+
+COMMENT ON FUNCTION product_matches_filters(public.products, TEXT, DECIMAL, DECIMAL, BOOLEAN, BOOLEAN, TEXT[], TEXT[]) IS '상품 목록 필터 조건 (filter_products, get_product_facets 공통)';
+
+-- ==========================================
+-- 3. 필터를 적용한 상품 목록
+-- ==========================================
+
+CREATE OR REPLACE FUNCTION filter_products(
+    p_category TEXT DEFAULT NULL,
+    p_min_price DECIMAL DEFAULT NULL,
+    p_max_price DECIMAL DEFAULT NULL,
+    p_in_stock BOOLEAN DEFAULT false,
+    p_on_sale BOOLEAN DEFAULT false,
+    p_sizes TEXT[] DEFAULT NULL,
+    p_colors TEXT[] DEFAULT NULL
+)
+RETURNS SETOF public.products AS $$
+    SELECT p.*
+    FROM public.products AS p
+    WHERE product_matches_filters(
+        p, p_category, p_min_price, p_max_price, p_in_stock, p_on_sale, p_sizes, p_colors
+    );
+$$ LANGUAGE sql STABLE;
+
+COMMENT ON FUNCTION filter_products(TEXT, DECIMAL, DECIMAL, BOOLEAN, BOOLEAN, TEXT[], TEXT[]) IS '필터를 적용한 상품 목록 (정렬 / 페이지네이션은 호출 측에서)';
+
+-- ==========================================
+-- 4. 필터별 상품 수
+-- ==========================================
+
+-- 반환 형식:
+-- {
+--   "total": 전체 상품 수 (모든 필터 적용),
+--   "categories": [{ "value": "clothing", "count": 10 }],
+--   "price_ranges": [{ "min": null, "max": 29999, "count": 3 }],
+--   "in_stock": 재고 있는 상품 수,
+--   "on_sale": 특가 상품 수,
+--   "sizes": [{ "value": "M", "count": 5 }],
+--   "colors": [{ "value": "검정", "count": 4 }]
+-- }
+CREATE OR REPLACE FUNCTION get_product_facets(
+    p_category TEXT DEFAULT NULL,
+    p_min_price DECIMAL DEFAULT NULL,
+    p_max_price DECIMAL DEFAULT NULL,
+    p_in_stock BOOLEAN DEFAULT false,
+    p_on_sale BOOLEAN DEFAULT false,
+    p_sizes TEXT[] DEFAULT NULL,
+    p_colors TEXT[] DEFAULT NULL,
+    p_price_range_mins DECIMAL[] DEFAULT '{}',
+    p_price_range_maxs DECIMAL[] DEFAULT '{}'
+)
+RETURNS JSONB AS $$
+    SELECT jsonb_build_object(
+        -- 4-1. 전체 상품 수
+        'total', (
+            SELECT COUNT(*)
+            FROM public.products AS p
+            WHERE product_matches_filters(
+                p, p_category, p_min_price, p_max_price, p_in_stock, p_on_sale, p_sizes, p_colors
+            )
+        ),
+        -- 4-2. 카테고리별 상품 수 (카테고리 필터 제외)
+        'categories', (
+            SELECT COALESCE(
+                jsonb_agg(jsonb_build_object('value', c.category, 'count', c.count) ORDER BY c.count DESC, c.category),
+                '[]'::jsonb
+            )
+            FROM (
+                SELECT p.category, COUNT(*) AS count
+                FROM public.products AS p
+                WHERE p.category IS NOT NULL
+                  AND product_matches_filters(
+                      p, NULL, p_min_price, p_max_price, p_in_stock, p_on_sale, p_sizes, p_colors
+                  )
+                GROUP BY p.category
+            ) AS c
+        ),
+        -- 4-3. 가격대별 상품 수 (가격 필터 제외)
+        'price_ranges', (
+            SELECT COALESCE(
+                jsonb_agg(
+                    jsonb_build_object(
+                        'min', r.min_price,
+                        'max', r.max_price,
+                        'count', (
+                            SELECT COUNT(*)
+                            FROM public.products AS p
+                            WHERE product_matches_filters(
+                                p, p_category, r.min_price, r.max_price, p_in_stock, p_on_sale, p_sizes, p_colors
+                            )
+                        )
+                    )
+                    ORDER BY r.ord
+                ),
+                '[]'::jsonb
+            )
+            FROM unnest(p_price_range_mins, p_price_range_maxs) WITH ORDINALITY AS r(min_price, max_price, ord)
+        ),
+        -- 4-4. 재고 있는 상품 수 (재고 필터 제외)
+        'in_stock', (
+            SELECT COUNT(*)
+            FROM public.products AS p
+            WHERE product_matches_filters(
+                p, p_category, p_min_price, p_max_price, true, p_on_sale, p_sizes, p_colors
+            )
+        ),
+        -- 4-5. 특가 상품 수 (특가 필터 제외)
+        'on_sale', (
+            SELECT COUNT(*)
+            FROM public.products AS p
+            WHERE product_matches_filters(
+                p, p_category, p_min_price, p_max_price, p_in_stock, true, p_sizes, p_colors
+            )
+        ),
+        -- 4-6. 사이즈별 상품 수 (사이즈 필터 제외)
+        'sizes', (
+            SELECT COALESCE(
+                jsonb_agg(jsonb_build_object('value', s.value, 'count', s.count) ORDER BY s.value),
+                '[]'::jsonb
+            )
+            FROM (
+                SELECT size_value AS value, COUNT(*) AS count
+                FROM public.products AS p,
+                     unnest(product_option_values(p.options, 'sizes')) AS size_value
+                WHERE product_matches_filters(
+                    p, p_category, p_min_price, p_max_price, p_in_stock, p_on_sale, NULL, p_colors
+                )
+                GROUP BY size_value
+            ) AS s
+        ),
+        -- 4-7. 색상별 상품 수 (색상 필터 제외)
+        'colors', (
+            SELECT COALESCE(
+                jsonb_agg(jsonb_build_object('value', c.value, 'count', c.count) ORDER BY c.count DESC, c.value),
+                '[]'::jsonb
+            )
+            FROM (
+                SELECT color_value AS value, COUNT(*) AS count
+                FROM public.products AS p,
+                     unnest(product_option_values(p.options, 'colors')) AS color_value
+                WHERE product_matches_filters(
+                    p, p_category, p_min_price, p_max_price, p_in_stock, p_on_sale, p_sizes, NULL
+                )
+                GROUP BY color_value
+            ) AS c
+        )
+    );
+$$ LANGUAGE sql STABLE;
+
+COMMENT ON FUNCTION get_product_facets(TEXT, DECIMAL, DECIMAL, BOOLEAN, BOOLEAN, TEXT[], TEXT[], DECIMAL[], DECIMAL[]) IS '상품 목록 필터별 상품 수 (각 필터는 자기 자신을 제외한 필터 적용)';
+
+-- ==========================================
+-- 5. 권한 부여
+-- ==========================================
+
+GRANT EXECUTE ON FUNCTION filter_products(TEXT, DECIMAL, DECIMAL, BOOLEAN, BOOLEAN, TEXT[], TEXT[]) TO anon, authenticated, service_role;
+GRANT EXECUTE ON FUNCTION get_product_facets(TEXT, DECIMAL, DECIMAL, BOOLEAN, BOOLEAN, TEXT[], TEXT[], DECIMAL[], DECIMAL[]) TO anon, authenticated, service_role;
+
+-- ==========================================
+-- 마이그레이션 완료
+-- ==========================================
+--
+-- 적용된 변경사항:
+-- ✅ product_matches_filters 함수 (가격대 / 재고 / 특가 / 사이즈 / 색상 필터 조건)
+-- ✅ filter_products 함수 (필터 적용 상품 목록)
+-- ✅ get_product_facets 함수 (필터별 상품 수)
+--
+-- 다음 단계:
+-- 1. /products 페이지 필터 사이드바 (URL 쿼리 파라미터로 필터 상태 관리)
+-- ==========================================
@@ -0,0 +1,209 @@
+-- ==========================================
+-- 상품 리뷰 / 별점 마이그레이션
+-- 배송 완료된 주문의 상품에만 리뷰 작성 + 상품별 평균 별점
+-- ==========================================
+--
+-- 업데이트 내용:
+-- 1. reviews 테이블 생성
+--    - 별점(1~5), 내용, 사진(Storage 경로), 작성자 이름 스냅샷
+--    - 주문 1건의 상품 1개당 리뷰 1개
+-- 2. can_review_product 함수 (배송 완료된 본인 주문에 해당 상품이 있는지 확인)
+-- 3. RLS 정책
+--    - 조회: 누구나
+--    - 작성 / 수정: 배송 완료된 본인 주문의 상품만
+--    - 삭제: 본인 리뷰만
+-- 4. products 리뷰 집계 컬럼 (review_count, rating_average) 및 자동 갱신 트리거
+-- 5. get_product_review_summary 함수 (평균 별점, 별점 분포)
+--
+-- 참고:
+-- - 리뷰 사진은 기존 Storage 버킷(uploads)의 {clerk_id}/reviews/ 경로에 업로드합니다.
+--   (버킷이 private이므로 조회 시 서버에서 signed URL을 생성)
+-- - 상품 카드는 products 집계 컬럼으로 별점을 표시합니다. (목록 조회 시 추가 쿼리 없음)
+-- ==========================================
+
+-- ==========================================
+-- 1. reviews 테이블
+-- ==========================================
+
+CREATE TABLE IF NOT EXISTS public.reviews (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    product_id UUID NOT NULL REFERENCES public.products(id) ON DELETE CASCADE,
+    order_id UUID NOT NULL REFERENCES public.orders(id) ON DELETE CASCADE,
+    clerk_id TEXT NOT NULL,
+    author_name TEXT NOT NULL,
+    rating SMALLINT NOT NULL CHECK (rating BETWEEN 1 AND 5),
+    content TEXT NOT NULL CHECK (char_length(content) BETWEEN 10 AND 2000),
+    photo_paths TEXT[] DEFAULT '{}' NOT NULL CHECK (cardinality(photo_paths) <= 5),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+    UNIQUE (order_id, product_id)
+);
+
+COMMENT ON TABLE public.reviews IS '상품 리뷰 (배송 완료된 주문의 상품만 작성 가능)';
+COMMENT ON COLUMN public.reviews.order_id IS '리뷰 대상 주문 (주문 1건의 상품 1개당 리뷰 1개)';
+COMMENT ON COLUMN public.reviews.clerk_id IS '작성자 Clerk User ID';
+COMMENT ON COLUMN public.reviews.author_name IS '작성 시점의 작성자 이름 (화면에는 일부 가려서 표시)';
+COMMENT ON COLUMN public.reviews.rating IS '별점 (1~5)';
+COMMENT ON COLUMN public.reviews.photo_paths IS '리뷰 사진 Storage 경로 ({clerk_id}/reviews/..., 최대 5장)';
+
+CREATE INDEX IF NOT EXISTS idx_reviews_product_id
+    ON public.reviews(product_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_reviews_clerk_id
+    ON public.reviews(clerk_id);
+
+DROP TRIGGER IF EXISTS set_reviews_updated_at ON public.reviews;
+CREATE TRIGGER set_reviews_updated_at
+    BEFORE UPDATE ON public.reviews
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- ==========================================
+-- 2. 리뷰 작성 가능 여부
+-- ==========================================
+
+CREATE OR REPLACE FUNCTION can_review_product(
+    p_clerk_id TEXT,
+    p_order_id UUID,
+    p_product_id UUID
+)
+RETURNS BOOLEAN AS $$
+    SELECT EXISTS (
+        SELECT 1
+        FROM public.orders AS o
+        JOIN public.order_items AS oi ON oi.order_id = o.id
+        WHERE o.id = p_order_id
+          AND o.clerk_id = p_clerk_id
+          AND o.status = 'delivered'
+          AND oi.product_id = p_product_id
+    );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+COMMENT ON FUNCTION can_review_product(TEXT, UUID, UUID) IS '배송 완료된 본인 주문에 해당 상품이 있는지 확인 (리뷰 작성 RLS 정책에서 사용)';
+
+-- ==========================================
+-- 3. RLS 정책
+-- ==========================================
+
+ALTER TABLE public.reviews ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Anyone can view reviews" ON public.reviews;
+CREATE POLICY "Anyone can view reviews"
+ON public.reviews FOR SELECT
+TO anon, authenticated
+USING (true);
+
+DROP POLICY IF EXISTS "Buyers can write reviews for delivered orders" ON public.reviews;
+CREATE POLICY "Buyers can write reviews for delivered orders"
+ON public.reviews FOR INSERT
+TO authenticated
+WITH CHECK (
+    clerk_id = (SELECT auth.jwt()->>'sub')
+    AND can_review_product(clerk_id, order_id, product_id)
+);
+
+DROP POLICY IF EXISTS "Users can update own reviews" ON public.reviews;
+CREATE POLICY "Users can update own reviews"
+ON public.reviews FOR UPDATE
+TO authenticated
+USING (clerk_id = (SELECT auth.jwt()->>'sub'))
+WITH CHECK (
+    clerk_id = (SELECT auth.jwt()->>'sub')
+    AND can_review_product(clerk_id, order_id, product_id)
+);
+
+DROP POLICY IF EXISTS "Users can delete own reviews" ON public.reviews;
+CREATE POLICY "Users can delete own reviews"
+ON public.reviews FOR DELETE
+TO authenticated
+USING (clerk_id = (SELECT auth.jwt()->>'sub'));
+
+GRANT SELECT ON TABLE public.reviews TO anon;
+GRANT SELECT, INSERT, UPDATE, DELETE ON TABLE public.reviews TO authenticated;
+GRANT ALL ON TABLE public.reviews TO service_role;
+
+-- ==========================================
+-- 4. products 리뷰 집계
+-- ==========================================
+
+ALTER TABLE public.products
+    ADD COLUMN IF NOT EXISTS review_count INTEGER DEFAULT 0 NOT NULL,
+    ADD COLUMN IF NOT EXISTS rating_average DECIMAL(3,2) DEFAULT 0 NOT NULL;
+
+COMMENT ON COLUMN public.products.review_count IS '리뷰 수 (reviews 트리거로 자동 갱신)';
+COMMENT ON COLUMN public.products.rating_average IS '평균 별점 (0~5, 리뷰가 없으면 0)';
+
+CREATE OR REPLACE FUNCTION sync_product_review_stats()
+RETURNS TRIGGER AS $$
+DECLARE
+    v_product_id UUID;
+BEGIN
+    v_product_id := COALESCE(NEW.product_id, OLD.product_id);
+
+    UPDATE public.products
+    SET review_count = stats.review_count,
+        rating_average = stats.rating_average
+    FROM (
+        SELECT
+            COUNT(*)::INTEGER AS review_count,
+            COALESCE(ROUND(AVG(rating), 2), 0) AS rating_average
+        FROM public.reviews
+        WHERE product_id = v_product_id
+    ) AS stats
+    WHERE id = v_product_id;
+
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS sync_product_review_stats ON public.reviews;
+CREATE TRIGGER sync_product_review_stats
+    AFTER INSERT OR UPDATE OF rating OR DELETE ON public.reviews
+    FOR EACH ROW
+    EXECUTE FUNCTION sync_product_review_stats();
+
+-- ==========================================
+-- 5. 상품 리뷰 요약 (평균 별점, 별점 분포)
+-- ==========================================
+
+-- 반환 형식:
+-- {
+--   "count": 리뷰 수,
+--   "average": 평균 별점,
+--   "histogram": { "1": 0, "2": 1, "3": 2, "4": 5, "5": 10 }
+-- }
+CREATE OR REPLACE FUNCTION get_product_review_summary(p_product_id UUID)
+RETURNS JSONB AS $$
+    SELECT jsonb_build_object(
+        'count', COUNT(r.id),
+        'average', COALESCE(ROUND(AVG(r.rating), 2), 0),
+        'histogram', jsonb_build_object(
+            '1', COUNT(r.id) FILTER (WHERE r.rating = 1),
+            '2', COUNT(r.id) FILTER (WHERE r.rating = 2),
+            '3', COUNT(r.id) FILTER (WHERE r.rating = 3),
+            '4', COUNT(r.id) FILTER (WHERE r.rating = 4),
+            '5', COUNT(r.id) FILTER (WHERE r.rating = 5)
+        )
+    )
+    FROM public.reviews AS r
+    WHERE r.product_id = p_product_id;
+$$ LANGUAGE sql STABLE;
+
+COMMENT ON FUNCTION get_product_review_summary(UUID) IS '상품 리뷰 요약 (리뷰 수, 평균 별점, 별점별 리뷰 수)';
+
+GRANT EXECUTE ON FUNCTION can_review_product(TEXT, UUID, UUID) TO authenticated, service_role;
+GRANT EXECUTE ON FUNCTION get_product_review_summary(UUID) TO anon, authenticated, service_role;
+
+-- ==========================================
+-- 마이그레이션 완료
+-- ==========================================
+--
+-- 적용된 변경사항:
+-- ✅ reviews 테이블 생성 (별점, 내용, 사진, 주문 1건의 상품 1개당 리뷰 1개)
+-- ✅ RLS: 배송 완료된 본인 주문의 상품만 리뷰 작성 / 수정
+-- ✅ products.review_count / rating_average 자동 갱신
+-- ✅ get_product_review_summary 함수 (평균 별점, 별점 분포)
+--
+-- 다음 단계:
+-- 1. 주문 상세 페이지에서 리뷰 작성 (배송 완료 주문)
+-- 2. 상품 상세 페이지 리뷰 목록 / 별점 분포, 상품 카드 평균 별점 표시
+-- ==========================================
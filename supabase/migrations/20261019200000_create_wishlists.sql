@@ -0,0 +1,57 @@
+-- ==========================================
+-- 찜하기(위시리스트) 마이그레이션
+-- 로그인 사용자가 장바구니에 담지 않고 상품을 저장
+-- ==========================================
+--
+-- 업데이트 내용:
+-- 1. wishlists 테이블 생성
+--    - 사용자(clerk_id)별 상품 1개당 1행 (같은 상품을 다시 찜하면 중복 없음)
+--    - 상품이 삭제되면 찜 목록에서도 삭제
+--
+-- 참고:
+-- - 관리자 상품 목록의 상품별 찜 수는 PostgREST 집계(wishlists(count))로 조회합니다.
+--   (idx_wishlists_product_id 인덱스 사용)
+-- - cart_items와 같이 RLS는 비활성화하고 Server Action에서 clerk_id로 본인 데이터만 조회합니다.
+-- ==========================================
+
+-- ==========================================
+-- 1. wishlists 테이블
+-- ==========================================
+
+CREATE TABLE IF NOT EXISTS public.wishlists (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    clerk_id TEXT NOT NULL,
+    product_id UUID NOT NULL REFERENCES public.products(id) ON DELETE CASCADE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+    UNIQUE (clerk_id, product_id)
+);
+
+COMMENT ON TABLE public.wishlists IS '찜한 상품 (사용자별 상품 1개당 1행)';
+COMMENT ON COLUMN public.wishlists.clerk_id IS '찜한 사용자 Clerk User ID';
+COMMENT ON COLUMN public.wishlists.product_id IS '찜한 상품 (상품 삭제 시 함께 삭제)';
+
+CREATE INDEX IF NOT EXISTS idx_wishlists_clerk_id
+    ON public.wishlists(clerk_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_wishlists_product_id
+    ON public.wishlists(product_id);
+
+-- ==========================================
+-- 2. RLS 비활성화 및 권한 부여
+-- ==========================================
+
+ALTER TABLE public.wishlists DISABLE ROW LEVEL SECURITY;
+
+GRANT ALL ON TABLE public.wishlists TO anon, authenticated, service_role;
+
+-- ==========================================
+-- 마이그레이션 완료
+-- ==========================================
+--
+-- 적용된 변경사항:
+-- ✅ wishlists 테이블 생성 (사용자별 찜한 상품)
+--
+-- 다음 단계:
+-- 1. 상품 카드 / 상품 상세 찜하기 버튼
+-- 2. /my/wishlist 페이지 (장바구니로 이동)
+-- 3. 관리자 상품 목록 찜 수 표시
+-- ==========================================
@@ -0,0 +1,63 @@
+-- ==========================================
+-- 재입고 알림 신청 마이그레이션
+-- 품절 상품의 재입고 알림 신청 및 발송 기록
+-- ==========================================
+--
+-- 업데이트 내용:
+-- 1. restock_subscriptions 테이블 생성
+--    - 사용자(clerk_id)가 품절 상품에 재입고 알림 신청
+--    - 알림을 보내면 notified_at 기록 (다음 품절 때 다시 신청 가능)
+--    - 알림 대기 중인 신청은 사용자별 상품 1개당 1행
+--
+-- 참고:
+-- - 알림은 관리자가 상품 재고를 0에서 늘리거나 상태를 품절 → 판매중으로 바꿀 때
+--   lib/notifications/restock.ts에서 발송합니다. (알림 수단은 NOTIFIER 환경 변수)
+-- - 받는 사람 이메일은 발송 시점에 Clerk에서 조회합니다.
+-- - cart_items와 같이 RLS는 비활성화하고 Server Action에서 clerk_id로 본인 데이터만 조회합니다.
+-- ==========================================
+
+-- ==========================================
+-- 1. restock_subscriptions 테이블
+-- ==========================================
+
+CREATE TABLE IF NOT EXISTS public.restock_subscriptions (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    clerk_id TEXT NOT NULL,
+    product_id UUID NOT NULL REFERENCES public.products(id) ON DELETE CASCADE,
+    notified_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL
+);
+
+COMMENT ON TABLE public.restock_subscriptions IS '재입고 알림 신청';
+COMMENT ON COLUMN public.restock_subscriptions.clerk_id IS '신청한 사용자 Clerk User ID';
+COMMENT ON COLUMN public.restock_subscriptions.notified_at IS '재입고 알림 발송 일시 (NULL이면 알림 대기 중)';
+
+-- 알림 대기 중인 신청은 사용자별 상품 1개당 1행
+CREATE UNIQUE INDEX IF NOT EXISTS idx_restock_subscriptions_pending_unique
+    ON public.restock_subscriptions(clerk_id, product_id)
+    WHERE notified_at IS NULL;
+
+-- 재입고 시 알림 대기 중인 신청 조회
+CREATE INDEX IF NOT EXISTS idx_restock_subscriptions_pending_product
+    ON public.restock_subscriptions(product_id, created_at)
+    WHERE notified_at IS NULL;
+
+-- ==========================================
+-- 2. RLS 비활성화 및 권한 부여
+-- ==========================================
+
+ALTER TABLE public.restock_subscriptions DISABLE ROW LEVEL SECURITY;
+
+GRANT ALL ON TABLE public.restock_subscriptions TO anon, authenticated, service_role;
+
+-- ==========================================
+-- 마이그레이션 완료
+-- ==========================================
+--
+-- 적용된 변경사항:
+-- ✅ restock_subscriptions 테이블 생성 (재입고 알림 신청, 발송 기록)
+--
+-- 다음 단계:
+-- 1. 상품 상세 페이지 재입고 알림 신청 버튼 (품절 상품)
+-- 2. 관리자 상품 수정 시 재입고 알림 발송
+-- ==========================================
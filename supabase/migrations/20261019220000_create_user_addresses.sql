@@ -0,0 +1,122 @@
+-- ==========================================
+-- 배송지 주소록 마이그레이션
+-- 자주 쓰는 배송지 저장 및 기본 배송지 지정
+-- ==========================================
+--
+-- 업데이트 내용:
+-- 1. user_addresses 테이블 생성
+--    - 배송지 이름(집, 회사 등), 수령인, 연락처, 우편번호, 기본 주소, 상세 주소, 배송 요청사항
+--    - 기본 배송지는 사용자별 1개 (is_default)
+-- 2. set_default_user_address 함수 생성
+--    - 기존 기본 배송지 해제와 새 기본 배송지 지정을 하나의 트랜잭션으로 처리
+--
+-- 참고:
+-- - 입력값 검증(연락처 형식, 길이)은 lib/addresses.ts의 Zod 스키마로 처리합니다.
+-- - 사용자별 배송지 수 제한(USER_ADDRESS_LIMIT)은 Server Action에서 확인합니다.
+-- - cart_items와 같이 RLS는 비활성화하고 Server Action에서 clerk_id로 본인 데이터만 조회합니다.
+-- ==========================================
+
+-- ==========================================
+-- 1. user_addresses 테이블
+-- ==========================================
+
+CREATE TABLE IF NOT EXISTS public.user_addresses (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    clerk_id TEXT NOT NULL,
+    label TEXT NOT NULL CHECK (char_length(label) BETWEEN 1 AND 30),
+    recipient_name TEXT NOT NULL CHECK (char_length(recipient_name) BETWEEN 1 AND 50),
+    phone TEXT NOT NULL,
+    postal_code TEXT NOT NULL,
+    address TEXT NOT NULL,
+    detail_address TEXT NOT NULL,
+    delivery_request TEXT,
+    is_default BOOLEAN NOT NULL DEFAULT false,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL
+);
+
+COMMENT ON TABLE public.user_addresses IS '배송지 주소록';
+COMMENT ON COLUMN public.user_addresses.clerk_id IS '사용자 Clerk User ID';
+COMMENT ON COLUMN public.user_addresses.label IS '배송지 이름 (예: 집, 회사)';
+COMMENT ON COLUMN public.user_addresses.phone IS '수령인 휴대폰 번호 (숫자만)';
+COMMENT ON COLUMN public.user_addresses.delivery_request IS '배송 요청사항 (주문 시 기본값)';
+COMMENT ON COLUMN public.user_addresses.is_default IS '기본 배송지 여부 (사용자별 1개, 주문 페이지에서 자동 선택)';
+
+CREATE INDEX IF NOT EXISTS idx_user_addresses_clerk_id
+    ON public.user_addresses(clerk_id, created_at DESC);
+
+-- 기본 배송지는 사용자별 1개
+CREATE UNIQUE INDEX IF NOT EXISTS idx_user_addresses_default_unique
+    ON public.user_addresses(clerk_id)
+    WHERE is_default;
+
+DROP TRIGGER IF EXISTS set_updated_at_user_addresses ON public.user_addresses;
+CREATE TRIGGER set_updated_at_user_addresses
+    BEFORE UPDATE ON public.user_addresses
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- ==========================================
+-- 2. 기본 배송지 지정 함수
+-- ==========================================
+
+CREATE OR REPLACE FUNCTION set_default_user_address(p_address_id UUID)
+RETURNS VOID AS $$
+DECLARE
+    v_clerk_id TEXT;
+BEGIN
+    -- 2-1. 요청자 확인 (Clerk 세션 토큰의 sub = Clerk User ID)
+    v_clerk_id := auth.jwt()->>'sub';
+
+    IF v_clerk_id IS NULL THEN
+        RAISE EXCEPTION '로그인이 필요합니다.';
+    END IF;
+
+    -- 2-2. 본인 배송지인지 확인
+    IF NOT EXISTS (
+        SELECT 1
+        FROM public.user_addresses
+        WHERE id = p_address_id
+          AND clerk_id = v_clerk_id
+    ) THEN
+        RAISE EXCEPTION '배송지를 찾을 수 없습니다.';
+    END IF;
+
+    -- 2-3. 기존 기본 배송지 해제 후 새 기본 배송지 지정
+    UPDATE public.user_addresses
+    SET is_default = false
+    WHERE clerk_id = v_clerk_id
+      AND is_default
+      AND id <> p_address_id;
+
+    UPDATE public.user_addresses
+    SET is_default = true
+    WHERE id = p_address_id
+      AND NOT is_default;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+COMMENT ON FUNCTION set_default_user_address(UUID) IS '기본 배송지 지정 (기존 기본 배송지 해제를 같은 트랜잭션으로 처리)';
+
+GRANT EXECUTE ON FUNCTION set_default_user_address(UUID) TO authenticated, service_role;
+
+-- ==========================================
+-- 3. RLS 비활성화 및 권한 부여
+-- ==========================================
+
+ALTER TABLE public.user_addresses DISABLE ROW LEVEL SECURITY;
+
+GRANT ALL ON TABLE public.user_addresses TO anon, authenticated, service_role;
+
+-- ==========================================
+-- 마이그레이션 완료
+-- ==========================================
+--
+-- 적용된 변경사항:
+-- ✅ user_addresses 테이블 생성 (배송지 주소록, 사용자별 기본 배송지 1개)
+-- ✅ set_default_user_address 함수 생성
+--
+-- 다음 단계:
+-- 1. 배송지 관리 페이지 (/my/addresses)
+-- 2. 주문 페이지 배송지 선택
+-- ==========================================
@@ -0,0 +1,462 @@
+-- ==========================================
+-- 반품 / 교환 마이그레이션
+-- 배송 완료된 주문의 상품별 반품 / 교환 신청 + 관리자 승인 / 거절
+-- ==========================================
+--
+-- 업데이트 내용:
+-- 1. order_claims 테이블 생성
+--    - 주문 상품(order_items) 1개당 여러 번 신청 가능 (신청 수량 합계는 주문 수량 이하)
+--    - 유형(반품 / 교환), 사유 유형, 상세 사유, 사진(Storage 경로), 신청 수량
+--    - 처리 상태(requested → approved / rejected), 환불 금액, 관리자 메모
+-- 2. 주문 상태 추가 (return_requested: 반품/교환 접수, returned: 반품 완료)
+--    - delivered → return_requested: 반품/교환 신청 시
+--    - return_requested → delivered: 처리 대기 중인 신청이 없고 일부만 반품된 경우
+--    - return_requested → returned: 주문 상품 전체가 반품된 경우
+--    - utils/order.ts의 ORDER_STATUS_TRANSITIONS와 같은 규칙
+-- 3. request_order_claim 함수 (고객 반품/교환 신청)
+-- 4. admin_process_order_claim 함수 (관리자 승인 / 거절, 반품 승인 시 재고 복구)
+-- 5. admin_update_order_status 수정 (반품/교환 상태는 신청 처리로만 변경)
+--
+-- 참고:
+-- - 신청 기간(배송 완료 후 7일)은 lib/claims.ts의 CLAIM_PERIOD_DAYS와 같은 값입니다.
+-- - 반품/교환 사진은 기존 Storage 버킷(uploads)의 {clerk_id}/claims/ 경로에 업로드합니다.
+-- - 교환 승인은 같은 상품을 다시 보내므로 재고와 환불 금액을 변경하지 않습니다.
+-- - 환불 금액은 기록만 하며, 실제 결제 취소는 별도로 처리합니다.
+-- ==========================================
+
+-- ==========================================
+-- 1. order_claims 테이블
+-- ==========================================
+
+CREATE TABLE IF NOT EXISTS public.order_claims (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    order_id UUID NOT NULL REFERENCES public.orders(id) ON DELETE CASCADE,
+    order_item_id UUID NOT NULL REFERENCES public.order_items(id) ON DELETE CASCADE,
+    clerk_id TEXT NOT NULL,
+    type TEXT NOT NULL CHECK (type IN ('return', 'exchange')),
+    reason_type TEXT NOT NULL
+        CHECK (reason_type IN ('change_of_mind', 'defective', 'wrong_item', 'damaged', 'other')),
+    reason TEXT NOT NULL CHECK (char_length(reason) BETWEEN 5 AND 1000),
+    quantity INTEGER NOT NULL CHECK (quantity > 0),
+    photo_paths TEXT[] DEFAULT '{}' NOT NULL CHECK (cardinality(photo_paths) <= 5),
+    status TEXT NOT NULL DEFAULT 'requested'
+        CHECK (status IN ('requested', 'approved', 'rejected')),
+    refund_amount DECIMAL(10,2) CHECK (refund_amount >= 0),
+    admin_note TEXT,
+    processed_by TEXT,
+    processed_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL
+);
+
+COMMENT ON TABLE public.order_claims IS '주문 상품 반품 / 교환 신청';
+COMMENT ON COLUMN public.order_claims.order_item_id IS '반품 / 교환 대상 주문 상품';
+COMMENT ON COLUMN public.order_claims.clerk_id IS '신청자 Clerk User ID (주문자)';
+COMMENT ON COLUMN public.order_claims.type IS '유형 (return: 반품, exchange: 교환)';
+COMMENT ON COLUMN public.order_claims.reason_type IS '사유 유형 (change_of_mind: 단순 변심, defective: 상품 불량, wrong_item: 오배송, damaged: 배송 중 파손, other: 기타)';
+COMMENT ON COLUMN public.order_claims.reason IS '상세 사유';
+COMMENT ON COLUMN public.order_claims.quantity IS '신청 수량 (같은 주문 상품의 신청 중 / 승인 수량 합계는 주문 수량 이하)';
+COMMENT ON COLUMN public.order_claims.photo_paths IS '첨부 사진 Storage 경로 ({clerk_id}/claims/..., 최대 5장)';
+COMMENT ON COLUMN public.order_claims.status IS '처리 상태 (requested: 신청, approved: 승인, rejected: 거절)';
+COMMENT ON COLUMN public.order_claims.refund_amount IS '환불 금액 (반품 승인 시 기록)';
+COMMENT ON COLUMN public.order_claims.admin_note IS '관리자 메모 (거절 사유 등, 고객에게 표시)';
+COMMENT ON COLUMN public.order_claims.processed_by IS '처리한 관리자 Clerk User ID';
+
+CREATE INDEX IF NOT EXISTS idx_order_claims_order_id
+    ON public.order_claims(order_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_order_claims_order_item_id
+    ON public.order_claims(order_item_id);
+CREATE INDEX IF NOT EXISTS idx_order_claims_requested
+    ON public.order_claims(created_at)
+    WHERE status = 'requested';
+
+DROP TRIGGER IF EXISTS set_updated_at_order_claims ON public.order_claims;
+CREATE TRIGGER set_updated_at_order_claims
+    BEFORE UPDATE ON public.order_claims
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- ==========================================
+-- 2. 주문 상태 추가
+-- ==========================================
+
+ALTER TABLE public.orders DROP CONSTRAINT IF EXISTS orders_status_check;
+ALTER TABLE public.orders ADD CONSTRAINT orders_status_check
+    CHECK (status IN (
+        'pending',
+        'confirmed',
+        'shipped',
+        'delivered',
+        'cancelled',
+        'return_requested',
+        'returned'
+    ));
+
+CREATE OR REPLACE FUNCTION is_valid_order_status_transition(p_from TEXT, p_to TEXT)
+RETURNS BOOLEAN AS $$
+BEGIN
+    RETURN (p_from, p_to) IN (
+        ('pending', 'confirmed'),
+        ('pending', 'cancelled'),
+        ('confirmed', 'shipped'),
+        ('confirmed', 'cancelled'),
+        ('shipped', 'delivered'),
+        ('delivered', 'return_requested'),
+        ('return_requested', 'delivered'),
+        ('return_requested', 'returned')
+    );
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- ==========================================
+-- 3. 고객 반품/교환 신청 함수
+-- ==========================================
+
+CREATE OR REPLACE FUNCTION request_order_claim(
+    p_order_item_id UUID,
+    p_type TEXT,
+    p_reason_type TEXT,
+    p_reason TEXT,
+    p_quantity INTEGER,
+    p_photo_paths TEXT[] DEFAULT '{}'
+)
+RETURNS UUID AS $$
+DECLARE
+    v_clerk_id TEXT;
+    v_item public.order_items%ROWTYPE;
+    v_order public.orders%ROWTYPE;
+    v_claimed_quantity INTEGER;
+    v_claim_id UUID;
+BEGIN
+    -- 3-1. 요청자 확인 (Clerk 세션 토큰의 sub = Clerk User ID)
+    v_clerk_id := auth.jwt()->>'sub';
+
+    IF v_clerk_id IS NULL THEN
+        RAISE EXCEPTION '로그인이 필요합니다.';
+    END IF;
+
+    -- 3-2. 주문 상품 조회 및 주문 행 잠금 (동시 신청 / 처리 방지)
+    SELECT *
+    INTO v_item
+    FROM public.order_items
+    WHERE id = p_order_item_id;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION '주문 상품을 찾을 수 없습니다.';
+    END IF;
+
+    SELECT *
+    INTO v_order
+    FROM public.orders
+    WHERE id = v_item.order_id
+    FOR UPDATE;
+
+    IF NOT FOUND OR v_order.clerk_id <> v_clerk_id THEN
+        RAISE EXCEPTION '주문을 찾을 수 없습니다.';
+    END IF;
+
+    -- 3-3. 신청 가능 상태 / 기간 확인 (배송 완료 후 7일)
+    IF v_order.status NOT IN ('delivered', 'return_requested') THEN
+        RAISE EXCEPTION '배송 완료된 주문만 반품/교환을 신청할 수 있습니다.';
+    END IF;
+
+    IF v_order.delivered_at IS NOT NULL
+       AND v_order.delivered_at + INTERVAL '7 days' < NOW() THEN
+        RAISE EXCEPTION '반품/교환 신청 기간(배송 완료 후 7일)이 지났습니다.';
+    END IF;
+
+    -- 3-4. 첨부 사진은 본인 폴더 경로만 허용
+    IF EXISTS (
+        SELECT 1
+        FROM unnest(COALESCE(p_photo_paths, '{}')) AS path
+        WHERE path NOT LIKE v_clerk_id || '/claims/%'
+           OR path LIKE '%..%'
+    ) THEN
+        RAISE EXCEPTION '첨부 사진이 올바르지 않습니다.';
+    END IF;
+
+    -- 3-5. 신청 수량 확인 (신청 중 / 승인된 수량 제외)
+    SELECT COALESCE(SUM(quantity), 0)
+    INTO v_claimed_quantity
+    FROM public.order_claims
+    WHERE order_item_id = p_order_item_id
+      AND status IN ('requested', 'approved');
+
+    IF p_quantity IS NULL OR p_quantity < 1 THEN
+        RAISE EXCEPTION '신청 수량은 1개 이상이어야 합니다.';
+    END IF;
+
+    IF p_quantity > v_item.quantity - v_claimed_quantity THEN
+        RAISE EXCEPTION '신청할 수 있는 수량을 초과했습니다. (신청 가능: %개)',
+            GREATEST(v_item.quantity - v_claimed_quantity, 0);
+    END IF;
+
+    -- 3-6. 반품/교환 신청 저장
+    INSERT INTO public.order_claims (
+        order_id,
+        order_item_id,
+        clerk_id,
+        type,
+        reason_type,
+        reason,
+        quantity,
+        photo_paths
+    )
+    VALUES (
+        v_order.id,
+        p_order_item_id,
+        v_clerk_id,
+        p_type,
+        p_reason_type,
+        p_reason,
+        p_quantity,
+        COALESCE(p_photo_paths, '{}')
+    )
+    RETURNING id INTO v_claim_id;
+
+    -- 3-7. 주문 상태 변경 (상태 이력에 고객 신청으로 기록)
+    IF v_order.status = 'delivered' THEN
+        PERFORM set_config('app.order_status_actor_type', 'customer', true);
+        PERFORM set_config('app.order_status_reason',
+            CASE p_type WHEN 'return' THEN '반품 신청' ELSE '교환 신청' END, true);
+
+        UPDATE public.orders
+        SET status = 'return_requested'
+        WHERE id = v_order.id;
+    END IF;
+
+    RETURN v_claim_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+COMMENT ON FUNCTION request_order_claim(UUID, TEXT, TEXT, TEXT, INTEGER, TEXT[]) IS '고객 반품/교환 신청 (본인 배송 완료 주문, 신청 기간 / 수량 확인, 주문 상태를 반품/교환 접수로 변경)';
+
+GRANT EXECUTE ON FUNCTION request_order_claim(UUID, TEXT, TEXT, TEXT, INTEGER, TEXT[]) TO authenticated, service_role;
+
+-- ==========================================
+-- 4. 관리자 반품/교환 처리 함수
+-- ==========================================
+
+CREATE OR REPLACE FUNCTION admin_process_order_claim(
+    p_claim_id UUID,
+    p_approve BOOLEAN,
+    p_refund_amount DECIMAL,
+    p_actor_id TEXT,
+    p_note TEXT DEFAULT NULL
+)
+RETURNS void AS $$
+DECLARE
+    v_claim public.order_claims%ROWTYPE;
+    v_item public.order_items%ROWTYPE;
+    v_order public.orders%ROWTYPE;
+    v_refund_amount DECIMAL(10,2);
+    v_ordered_quantity INTEGER;
+    v_returned_quantity INTEGER;
+BEGIN
+    -- 4-1. 주문 행 잠금 후 신청 조회 (신청 함수와 같은 순서로 잠금)
+    SELECT *
+    INTO v_claim
+    FROM public.order_claims
+    WHERE id = p_claim_id;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION '반품/교환 신청을 찾을 수 없습니다.';
+    END IF;
+
+    SELECT *
+    INTO v_order
+    FROM public.orders
+    WHERE id = v_claim.order_id
+    FOR UPDATE;
+
+    SELECT *
+    INTO v_claim
+    FROM public.order_claims
+    WHERE id = p_claim_id
+    FOR UPDATE;
+
+    -- 4-2. 처리 대기 중인 신청인지 확인
+    IF v_claim.status <> 'requested' THEN
+        RAISE EXCEPTION '이미 처리된 반품/교환 신청입니다.';
+    END IF;
+
+    SELECT *
+    INTO v_item
+    FROM public.order_items
+    WHERE id = v_claim.order_item_id;
+
+    -- 4-3. 반품 승인: 환불 금액 확인 및 재고 복구
+    IF p_approve AND v_claim.type = 'return' THEN
+        v_refund_amount := COALESCE(p_refund_amount, v_item.price * v_claim.quantity);
+
+        IF v_refund_amount < 0 OR v_refund_amount > v_item.price * v_claim.quantity THEN
+            RAISE EXCEPTION '환불 금액은 0원 이상 %원 이하여야 합니다.',
+                v_item.price * v_claim.quantity;
+        END IF;
+
+        -- 옵션 조합 항목은 옵션 조합 재고 복구 (상품 재고 합계는 트리거로 반영)
+        IF v_item.variant_id IS NOT NULL THEN
+            UPDATE public.product_variants
+            SET stock_quantity = stock_quantity + v_claim.quantity
+            WHERE id = v_item.variant_id;
+        ELSE
+            UPDATE public.products
+            SET stock_quantity = stock_quantity + v_claim.quantity
+            WHERE id = v_item.product_id;
+        END IF;
+    END IF;
+
+    -- 4-4. 신청 처리 결과 저장
+    UPDATE public.order_claims
+    SET status = CASE WHEN p_approve THEN 'approved' ELSE 'rejected' END,
+        refund_amount = v_refund_amount,
+        admin_note = NULLIF(p_note, ''),
+        processed_by = p_actor_id,
+        processed_at = NOW()
+    WHERE id = p_claim_id;
+
+    -- 4-5. 처리 대기 중인 신청이 없으면 주문 상태 변경 (상태 이력에 관리자 처리로 기록)
+    IF v_order.status = 'return_requested' AND NOT EXISTS (
+        SELECT 1
+        FROM public.order_claims
+        WHERE order_id = v_order.id
+          AND status = 'requested'
+    ) THEN
+        SELECT COALESCE(SUM(quantity), 0)
+        INTO v_ordered_quantity
+        FROM public.order_items
+        WHERE order_id = v_order.id;
+
+        SELECT COALESCE(SUM(quantity), 0)
+        INTO v_returned_quantity
+        FROM public.order_claims
+        WHERE order_id = v_order.id
+          AND type = 'return'
+          AND status = 'approved';
+
+        PERFORM set_config('app.order_status_actor_type', 'admin', true);
+        PERFORM set_config('app.order_status_actor_id', COALESCE(p_actor_id, ''), true);
+
+        IF v_returned_quantity >= v_ordered_quantity THEN
+            PERFORM set_config('app.order_status_reason', '전체 반품 완료', true);
+
+            UPDATE public.orders
+            SET status = 'returned'
+            WHERE id = v_order.id;
+        ELSE
+            PERFORM set_config('app.order_status_reason', '반품/교환 처리 완료', true);
+
+            UPDATE public.orders
+            SET status = 'delivered'
+            WHERE id = v_order.id;
+        END IF;
+    END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+COMMENT ON FUNCTION admin_process_order_claim(UUID, BOOLEAN, DECIMAL, TEXT, TEXT) IS '관리자 반품/교환 승인 / 거절 (반품 승인 시 재고 복구, 환불 금액 기록, 처리 완료 시 주문 상태 변경)';
+
+-- 권한 부여 (Service Role 전용)
+REVOKE EXECUTE ON FUNCTION admin_process_order_claim(UUID, BOOLEAN, DECIMAL, TEXT, TEXT) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION admin_process_order_claim(UUID, BOOLEAN, DECIMAL, TEXT, TEXT) TO service_role;
+
+-- ==========================================
+-- 5. 관리자 주문 상태 변경 함수 수정
+-- ==========================================
+
+CREATE OR REPLACE FUNCTION admin_update_order_status(
+    p_order_id UUID,
+    p_expected_status TEXT,
+    p_next_status TEXT,
+    p_actor_id TEXT,
+    p_reason TEXT DEFAULT NULL
+)
+RETURNS void AS $$
+DECLARE
+    v_order public.orders%ROWTYPE;
+BEGIN
+    -- 5-1. 주문 조회 및 행 잠금 (동시 변경 방지)
+    SELECT *
+    INTO v_order
+    FROM public.orders
+    WHERE id = p_order_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION '주문을 찾을 수 없습니다.';
+    END IF;
+
+    -- 5-2. 화면에서 확인한 상태와 같은지 확인
+    IF v_order.status <> p_expected_status THEN
+        RAISE EXCEPTION '주문 상태가 이미 변경되었습니다. 새로고침 후 다시 시도해주세요.';
+    END IF;
+
+    -- 5-3. 상태 변경 규칙 확인
+    IF NOT is_valid_order_status_transition(v_order.status, p_next_status) THEN
+        RAISE EXCEPTION '허용되지 않은 주문 상태 변경입니다: % → %', v_order.status, p_next_status;
+    END IF;
+
+    -- 5-4. 반품/교환 상태는 신청 / 처리 함수에서만 변경
+    IF v_order.status IN ('return_requested', 'returned')
+       OR p_next_status IN ('return_requested', 'returned') THEN
+        RAISE EXCEPTION '반품/교환 상태는 반품/교환 신청 처리로만 변경할 수 있습니다.';
+    END IF;
+
+    -- 5-5. 배송 시작은 송장 등록 후에만 가능
+    IF p_next_status = 'shipped' AND v_order.tracking_number IS NULL THEN
+        RAISE EXCEPTION '택배사와 송장 번호를 먼저 등록해주세요.';
+    END IF;
+
+    -- 5-6. 주문 상태 변경 (상태 이력에 관리자 변경으로 기록)
+    PERFORM set_config('app.order_status_actor_type', 'admin', true);
+    PERFORM set_config('app.order_status_actor_id', COALESCE(p_actor_id, ''), true);
+    PERFORM set_config('app.order_status_reason', COALESCE(p_reason, ''), true);
+
+    IF p_next_status = 'cancelled' THEN
+        UPDATE public.orders
+        SET status = 'cancelled',
+            payment_status = 'cancelled'
+        WHERE id = p_order_id;
+
+        -- 재고 복구 (옵션 조합별)
+        PERFORM restock_order_items(p_order_id);
+    ELSIF p_next_status = 'shipped' THEN
+        UPDATE public.orders
+        SET status = 'shipped',
+            shipped_at = NOW()
+        WHERE id = p_order_id;
+    ELSIF p_next_status = 'delivered' THEN
+        UPDATE public.orders
+        SET status = 'delivered',
+            delivered_at = NOW()
+        WHERE id = p_order_id;
+    ELSE
+        UPDATE public.orders
+        SET status = p_next_status
+        WHERE id = p_order_id;
+    END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- ==========================================
+-- 6. RLS 비활성화 및 권한 부여
+-- ==========================================
+
+ALTER TABLE public.order_claims DISABLE ROW LEVEL SECURITY;
+
+GRANT ALL ON TABLE public.order_claims TO anon, authenticated, service_role;
+
+-- ==========================================
+-- 마이그레이션 완료
+-- ==========================================
+--
+-- 적용된 변경사항:
+-- ✅ order_claims 테이블 생성 (주문 상품별 반품 / 교환 신청)
+-- ✅ 주문 상태 추가 (return_requested, returned) 및 상태 변경 규칙 수정
+-- ✅ request_order_claim 함수 (고객 신청)
+-- ✅ admin_process_order_claim 함수 (관리자 승인 / 거절, 반품 재고 복구, 환불 금액 기록)
+-- ✅ admin_update_order_status 반품/교환 상태 직접 변경 차단
+--
+-- 다음 단계:
+-- 1. 반품 승인 시 결제 부분 취소 (환불)
+-- ==========================================
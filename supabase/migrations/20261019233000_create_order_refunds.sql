@@ -0,0 +1,394 @@
+-- ==========================================
+-- 환불 마이그레이션
+-- 주문 취소 / 반품 승인 시 결제 취소(환불) 기록
+-- ==========================================
+--
+-- 업데이트 내용:
+-- 1. 결제 상태 추가 (partially_refunded: 부분 환불, refunded: 전액 환불)
+-- 2. order_refunds 테이블 생성
+--    - 주문 1건당 여러 번 환불 가능 (반품 신청 1건당 환불 1건)
+--    - 금액 내역(상품 금액, 쿠폰 할인 안분, 배송비 환불, 반품 배송비 차감, 최종 환불 금액)
+--    - 결제 제공자 취소 거래 키 / 원본 응답 (정산 대사용)
+--    - 처리 상태(requested → completed / failed), 실패 시 관리자 재시도
+-- 3. create_order_refund 함수 (환불 요청 기록, 남은 결제 금액 확인)
+-- 4. restart_order_refund 함수 (실패한 환불 재시도)
+-- 5. complete_order_refund 함수 (결제 취소 결과 기록, 주문 결제 상태 / payment_data 갱신)
+--
+-- 참고:
+-- - 환불 금액 계산은 lib/refunds.ts, 결제 취소 호출은 lib/payments/refunds.ts에서 처리합니다.
+-- - 결제 취소는 외부 API 호출이므로 요청 기록 → 결제 취소 → 결과 기록 순서로 나누어 처리합니다.
+--   요청 중(requested)인 환불 금액도 남은 결제 금액 계산에 포함해 중복 환불을 막습니다.
+-- ==========================================
+
+-- ==========================================
+-- 1. 결제 상태 추가
+-- ==========================================
+
+ALTER TABLE public.orders DROP CONSTRAINT IF EXISTS orders_payment_status_check;
+ALTER TABLE public.orders ADD CONSTRAINT orders_payment_status_check
+    CHECK (payment_status IN (
+        'pending',
+        'processing',
+        'completed',
+        'failed',
+        'cancelled',
+        'partially_refunded',
+        'refunded'
+    ));
+
+-- ==========================================
+-- 2. order_refunds 테이블
+-- ==========================================
+
+CREATE TABLE IF NOT EXISTS public.order_refunds (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    order_id UUID NOT NULL REFERENCES public.orders(id) ON DELETE CASCADE,
+    claim_id UUID UNIQUE REFERENCES public.order_claims(id) ON DELETE SET NULL,
+    type TEXT NOT NULL CHECK (type IN ('cancel', 'return')),
+    reason TEXT NOT NULL,
+    product_amount DECIMAL(10,2) NOT NULL DEFAULT 0 CHECK (product_amount >= 0),
+    discount_amount DECIMAL(10,2) NOT NULL DEFAULT 0 CHECK (discount_amount >= 0),
+    shipping_amount DECIMAL(10,2) NOT NULL DEFAULT 0 CHECK (shipping_amount >= 0),
+    deduction_amount DECIMAL(10,2) NOT NULL DEFAULT 0 CHECK (deduction_amount >= 0),
+    amount DECIMAL(10,2) NOT NULL CHECK (amount > 0),
+    status TEXT NOT NULL DEFAULT 'requested'
+        CHECK (status IN ('requested', 'completed', 'failed')),
+    provider TEXT NOT NULL,
+    payment_key TEXT NOT NULL,
+    transaction_key TEXT,
+    provider_response JSONB,
+    failure_message TEXT,
+    attempts INTEGER NOT NULL DEFAULT 1,
+    actor_type TEXT NOT NULL CHECK (actor_type IN ('customer', 'admin', 'system')),
+    actor_id TEXT,
+    completed_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL
+);
+
+COMMENT ON TABLE public.order_refunds IS '주문 환불 (결제 취소) 내역';
+COMMENT ON COLUMN public.order_refunds.claim_id IS '반품 신청 (반품 환불인 경우, 신청 1건당 환불 1건)';
+COMMENT ON COLUMN public.order_refunds.type IS '환불 유형 (cancel: 주문 취소, return: 반품)';
+COMMENT ON COLUMN public.order_refunds.reason IS '환불 사유 (결제 취소 사유로 전달)';
+COMMENT ON COLUMN public.order_refunds.product_amount IS '환불 대상 상품 금액';
+COMMENT ON COLUMN public.order_refunds.discount_amount IS '쿠폰 할인 안분 금액 (차감)';
+COMMENT ON COLUMN public.order_refunds.shipping_amount IS '배송비 환불 금액';
+COMMENT ON COLUMN public.order_refunds.deduction_amount IS '반품 배송비 차감 금액';
+COMMENT ON COLUMN public.order_refunds.amount IS '최종 환불 금액 (결제 취소 금액)';
+COMMENT ON COLUMN public.order_refunds.status IS '처리 상태 (requested: 결제 취소 요청 중, completed: 환불 완료, failed: 결제 취소 실패)';
+COMMENT ON COLUMN public.order_refunds.provider IS '결제 제공자 (toss, fake)';
+COMMENT ON COLUMN public.order_refunds.payment_key IS '취소한 결제 키 (orders.payment_id)';
+COMMENT ON COLUMN public.order_refunds.transaction_key IS '결제 제공자 취소 거래 키 (정산 대사용)';
+COMMENT ON COLUMN public.order_refunds.provider_response IS '결제 제공자 원본 응답';
+COMMENT ON COLUMN public.order_refunds.failure_message IS '마지막 결제 취소 실패 사유';
+COMMENT ON COLUMN public.order_refunds.attempts IS '결제 취소 시도 횟수 (멱등 키에 사용)';
+COMMENT ON COLUMN public.order_refunds.actor_type IS '요청 주체 (customer: 고객 주문 취소, admin: 관리자, system: 시스템)';
+COMMENT ON COLUMN public.order_refunds.actor_id IS '요청자 Clerk User ID';
+
+CREATE INDEX IF NOT EXISTS idx_order_refunds_order_id
+    ON public.order_refunds(order_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_order_refunds_failed
+    ON public.order_refunds(created_at)
+    WHERE status = 'failed';
+
+DROP TRIGGER IF EXISTS set_updated_at_order_refunds ON public.order_refunds;
+CREATE TRIGGER set_updated_at_order_refunds
+    BEFORE UPDATE ON public.order_refunds
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- ==========================================
+-- 3. 환불 요청 기록 함수
+-- ==========================================
+
+CREATE OR REPLACE FUNCTION create_order_refund(
+    p_order_id UUID,
+    p_claim_id UUID,
+    p_type TEXT,
+    p_reason TEXT,
+    p_product_amount DECIMAL,
+    p_discount_amount DECIMAL,
+    p_shipping_amount DECIMAL,
+    p_deduction_amount DECIMAL,
+    p_amount DECIMAL,
+    p_provider TEXT,
+    p_actor_type TEXT,
+    p_actor_id TEXT
+)
+RETURNS public.order_refunds AS $$
+DECLARE
+    v_order public.orders%ROWTYPE;
+    v_refunded_amount DECIMAL(10,2);
+    v_refund public.order_refunds%ROWTYPE;
+BEGIN
+    -- 3-1. 주문 조회 및 행 잠금 (동시 환불 방지)
+    SELECT *
+    INTO v_order
+    FROM public.orders
+    WHERE id = p_order_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION '주문을 찾을 수 없습니다.';
+    END IF;
+
+    -- 3-2. 결제 승인된 주문인지 확인
+    IF v_order.payment_id IS NULL THEN
+        RAISE EXCEPTION '결제가 승인되지 않은 주문은 환불할 수 없습니다.';
+    END IF;
+
+    -- 3-3. 반품 신청 1건당 환불 1건
+    IF p_claim_id IS NOT NULL AND EXISTS (
+        SELECT 1
+        FROM public.order_refunds
+        WHERE claim_id = p_claim_id
+    ) THEN
+        RAISE EXCEPTION '이미 환불을 요청한 반품 신청입니다.';
+    END IF;
+
+    -- 3-4. 환불 금액 확인 (환불 완료 / 요청 중인 금액 제외)
+    SELECT COALESCE(SUM(amount), 0)
+    INTO v_refunded_amount
+    FROM public.order_refunds
+    WHERE order_id = p_order_id
+      AND status IN ('requested', 'completed');
+
+    IF p_amount IS NULL OR p_amount <= 0 THEN
+        RAISE EXCEPTION '환불 금액은 0원보다 커야 합니다.';
+    END IF;
+
+    IF p_amount > v_order.total_amount - v_refunded_amount THEN
+        RAISE EXCEPTION '환불 금액이 남은 결제 금액(%원)을 초과합니다.',
+            GREATEST(v_order.total_amount - v_refunded_amount, 0);
+    END IF;
+
+    -- 3-5. 환불 요청 저장
+    INSERT INTO public.order_refunds (
+        order_id,
+        claim_id,
+        type,
+        reason,
+        product_amount,
+        discount_amount,
+        shipping_amount,
+        deduction_amount,
+        amount,
+        provider,
+        payment_key,
+        actor_type,
+        actor_id
+    )
+    VALUES (
+        p_order_id,
+        p_claim_id,
+        p_type,
+        p_reason,
+        COALESCE(p_product_amount, 0),
+        COALESCE(p_discount_amount, 0),
+        COALESCE(p_shipping_amount, 0),
+        COALESCE(p_deduction_amount, 0),
+        p_amount,
+        p_provider,
+        v_order.payment_id,
+        p_actor_type,
+        NULLIF(p_actor_id, '')
+    )
+    RETURNING * INTO v_refund;
+
+    RETURN v_refund;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+COMMENT ON FUNCTION create_order_refund(UUID, UUID, TEXT, TEXT, DECIMAL, DECIMAL, DECIMAL, DECIMAL, DECIMAL, TEXT, TEXT, TEXT) IS '환불 요청 기록 (결제 승인 주문, 남은 결제 금액 이하, 반품 신청 1건당 1건)';
+
+-- ==========================================
+-- 4. 실패한 환불 재시도 함수
+-- ==========================================
+
+CREATE OR REPLACE FUNCTION restart_order_refund(p_refund_id UUID)
+RETURNS public.order_refunds AS $$
+DECLARE
+    v_refund public.order_refunds%ROWTYPE;
+    v_order public.orders%ROWTYPE;
+    v_refunded_amount DECIMAL(10,2);
+BEGIN
+    -- 4-1. 주문 행 잠금 후 환불 조회 (요청 기록 함수와 같은 순서로 잠금)
+    SELECT *
+    INTO v_refund
+    FROM public.order_refunds
+    WHERE id = p_refund_id;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION '환불 내역을 찾을 수 없습니다.';
+    END IF;
+
+    SELECT *
+    INTO v_order
+    FROM public.orders
+    WHERE id = v_refund.order_id
+    FOR UPDATE;
+
+    SELECT *
+    INTO v_refund
+    FROM public.order_refunds
+    WHERE id = p_refund_id
+    FOR UPDATE;
+
+    -- 4-2. 실패한 환불만 재시도
+    IF v_refund.status <> 'failed' THEN
+        RAISE EXCEPTION '결제 취소에 실패한 환불만 다시 시도할 수 있습니다.';
+    END IF;
+
+    -- 4-3. 남은 결제 금액 확인
+    SELECT COALESCE(SUM(amount), 0)
+    INTO v_refunded_amount
+    FROM public.order_refunds
+    WHERE order_id = v_refund.order_id
+      AND status IN ('requested', 'completed');
+
+    IF v_refund.amount > v_order.total_amount - v_refunded_amount THEN
+        RAISE EXCEPTION '환불 금액이 남은 결제 금액(%원)을 초과합니다.',
+            GREATEST(v_order.total_amount - v_refunded_amount, 0);
+    END IF;
+
+    -- 4-4. 요청 중으로 변경
+    UPDATE public.order_refunds
+    SET status = 'requested',
+        attempts = attempts + 1,
+        failure_message = NULL
+    WHERE id = p_refund_id
+    RETURNING * INTO v_refund;
+
+    RETURN v_refund;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+COMMENT ON FUNCTION restart_order_refund(UUID) IS '결제 취소에 실패한 환불 재시도 (요청 중으로 변경, 시도 횟수 증가)';
+
+-- ==========================================
+-- 5. 결제 취소 결과 기록 함수
+-- ==========================================
+
+CREATE OR REPLACE FUNCTION complete_order_refund(
+    p_refund_id UUID,
+    p_succeeded BOOLEAN,
+    p_transaction_key TEXT,
+    p_provider_response JSONB,
+    p_failure_message TEXT
+)
+RETURNS public.order_refunds AS $$
+DECLARE
+    v_refund public.order_refunds%ROWTYPE;
+    v_order public.orders%ROWTYPE;
+    v_refunded_amount DECIMAL(10,2);
+BEGIN
+    -- 5-1. 주문 행 잠금 후 환불 조회
+    SELECT *
+    INTO v_refund
+    FROM public.order_refunds
+    WHERE id = p_refund_id;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION '환불 내역을 찾을 수 없습니다.';
+    END IF;
+
+    SELECT *
+    INTO v_order
+    FROM public.orders
+    WHERE id = v_refund.order_id
+    FOR UPDATE;
+
+    SELECT *
+    INTO v_refund
+    FROM public.order_refunds
+    WHERE id = p_refund_id
+    FOR UPDATE;
+
+    IF v_refund.status <> 'requested' THEN
+        RAISE EXCEPTION '결제 취소 요청 중인 환불이 아닙니다.';
+    END IF;
+
+    -- 5-2. 결제 취소 실패 기록
+    IF NOT p_succeeded THEN
+        UPDATE public.order_refunds
+        SET status = 'failed',
+            provider_response = p_provider_response,
+            failure_message = p_failure_message
+        WHERE id = p_refund_id
+        RETURNING * INTO v_refund;
+
+        RETURN v_refund;
+    END IF;
+
+    -- 5-3. 환불 완료 기록
+    UPDATE public.order_refunds
+    SET status = 'completed',
+        transaction_key = p_transaction_key,
+        provider_response = p_provider_response,
+        failure_message = NULL,
+        completed_at = NOW()
+    WHERE id = p_refund_id
+    RETURNING * INTO v_refund;
+
+    -- 5-4. 주문 결제 상태 / 결제 데이터 갱신 (환불 완료 금액 기준)
+    SELECT COALESCE(SUM(amount), 0)
+    INTO v_refunded_amount
+    FROM public.order_refunds
+    WHERE order_id = v_order.id
+      AND status = 'completed';
+
+    UPDATE public.orders
+    SET payment_status = CASE
+            WHEN v_refunded_amount >= total_amount THEN 'refunded'
+            ELSE 'partially_refunded'
+        END,
+        payment_data = COALESCE(payment_data, '{}'::jsonb) || jsonb_build_object(
+            'refundedAmount', v_refunded_amount,
+            'refunds', COALESCE(payment_data->'refunds', '[]'::jsonb) || jsonb_build_array(
+                jsonb_build_object(
+                    'refundId', v_refund.id,
+                    'type', v_refund.type,
+                    'amount', v_refund.amount,
+                    'transactionKey', v_refund.transaction_key,
+                    'refundedAt', v_refund.completed_at
+                )
+            )
+        )
+    WHERE id = v_order.id;
+
+    RETURN v_refund;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+COMMENT ON FUNCTION complete_order_refund(UUID, BOOLEAN, TEXT, JSONB, TEXT) IS '결제 취소 결과 기록 (환불 완료 시 주문 결제 상태를 부분 / 전액 환불로 변경하고 payment_data에 환불 내역 추가)';
+
+-- 권한 부여 (Service Role 전용)
+REVOKE EXECUTE ON FUNCTION create_order_refund(UUID, UUID, TEXT, TEXT, DECIMAL, DECIMAL, DECIMAL, DECIMAL, DECIMAL, TEXT, TEXT, TEXT) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION create_order_refund(UUID, UUID, TEXT, TEXT, DECIMAL, DECIMAL, DECIMAL, DECIMAL, DECIMAL, TEXT, TEXT, TEXT) TO service_role;
+REVOKE EXECUTE ON FUNCTION restart_order_refund(UUID) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION restart_order_refund(UUID) TO service_role;
+REVOKE EXECUTE ON FUNCTION complete_order_refund(UUID, BOOLEAN, TEXT, JSONB, TEXT) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION complete_order_refund(UUID, BOOLEAN, TEXT, JSONB, TEXT) TO service_role;
+
+-- ==========================================
+-- 6. RLS 비활성화 및 권한 부여
+-- ==========================================
+
+ALTER TABLE public.order_refunds DISABLE ROW LEVEL SECURITY;
+
+GRANT ALL ON TABLE public.order_refunds TO anon, authenticated, service_role;
+
+-- ==========================================
+-- 마이그레이션 완료
+-- ==========================================
+--
+-- 적용된 변경사항:
+-- ✅ 결제 상태 추가 (partially_refunded, refunded)
+-- ✅ order_refunds 테이블 생성 (환불 금액 내역, 취소 거래 키, 처리 상태)
+-- ✅ create_order_refund 함수 (남은 결제 금액 확인 후 환불 요청 기록)
+-- ✅ restart_order_refund 함수 (실패한 환불 재시도)
+-- ✅ complete_order_refund 함수 (결제 취소 결과 기록, 주문 결제 상태 갱신)
+--
+-- 다음 단계:
+-- 1. 환불 완료 알림 발송
+-- ==========================================
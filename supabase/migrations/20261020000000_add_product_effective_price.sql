@@ -0,0 +1,381 @@
+-- ==========================================
+-- 프로모션 기간 판매 가격 마이그레이션
+-- 프로모션 기간 안에서만 특가로 판매하고, 기간 전 / 후에는 정가로 판매
+-- ==========================================
+--
+-- 업데이트 내용:
+-- 1. product_effective_price 함수 (프로모션 기간을 반영한 실제 판매 가격)
+--    - 프로모션 상품(is_promotional)의 price는 특가, original_price는 정가
+--    - 프로모션 기간(is_promotion_active) 밖이면 정가로 판매
+--    - 정가가 없거나 특가보다 크지 않으면 price 그대로
+--    - lib/pricing.ts의 getProductPricing과 같은 규칙
+-- 2. place_order 함수 수정
+--    - 주문 금액 확인과 주문 항목 가격 스냅샷에 실제 판매 가격 사용
+-- 3. product_matches_filters 함수 수정
+--    - 가격 범위 필터에 실제 판매 가격 사용
+--
+-- 참고:
+-- - products.price / original_price 컬럼 의미는 바뀌지 않습니다. (관리자 상품 폼 그대로 사용)
+-- - product_effective_price는 products 행을 인자로 받으므로 PostgREST에서
+--   계산 컬럼(select=*,product_effective_price)으로도 조회할 수 있습니다.
+-- ==========================================
+
+-- ==========================================
+-- 1. 실제 판매 가격
+-- ==========================================
+
+CREATE OR REPLACE FUNCTION product_effective_price(p_product public.products)
+RETURNS DECIMAL AS $$
+    SELECT CASE
+        WHEN p_product.is_promotional
+            AND p_product.original_price IS NOT NULL
+            AND p_product.original_price > p_product.price
+            AND NOT is_promotion_active(p_product.promotion_start_date, p_product.promotion_end_date)
+        THEN p_product.original_price
+        ELSE p_product.price
+    END;
+$$ LANGUAGE sql STABLE;
+
+COMMENT ON FUNCTION product_effective_price(public.products) IS '프로모션 기간을 반영한 실제 판매 가격 (기간 밖의 프로모션 상품은 정가)';
+
+-- ==========================================
+-- 2. 주문 생성 함수 (실제 판매 가격 기준)
+-- ==========================================
+
+CREATE OR REPLACE FUNCTION place_order(
+    p_cart_item_ids UUID[],
+    p_shipping_address JSONB,
+    p_shipping_fee DECIMAL,
+    p_expected_subtotal DECIMAL,
+    p_order_note TEXT DEFAULT NULL,
+    p_coupon_id UUID DEFAULT NULL,
+    p_discount_amount DECIMAL DEFAULT 0
+)
+RETURNS UUID AS $$
+DECLARE
+    v_clerk_id TEXT;
+    v_cart_count INTEGER;
+    v_product RECORD;
+    v_variant RECORD;
+    v_subtotal DECIMAL(10,2);
+    v_coupon public.coupons%ROWTYPE;
+    v_coupon_usage INTEGER;
+    v_discount_amount DECIMAL(10,2) := COALESCE(p_discount_amount, 0);
+    v_order_id UUID;
+BEGIN
+    -- 2-1. 요청자 확인 (Clerk 세션 토큰의 sub = Clerk User ID)
+    v_clerk_id := auth.jwt()->>'sub';
+
+    IF v_clerk_id IS NULL THEN
+        RAISE EXCEPTION '로그인이 필요합니다.';
+    END IF;
+
+    IF p_cart_item_ids IS NULL OR array_length(p_cart_item_ids, 1) IS NULL THEN
+        RAISE EXCEPTION '주문할 장바구니 항목을 선택해주세요.';
+    END IF;
+
+    IF p_shipping_fee IS NULL OR p_shipping_fee < 0 THEN
+        RAISE EXCEPTION '배송비가 올바르지 않습니다.';
+    END IF;
+
+    -- 2-2. 장바구니 항목 확인 (본인 항목만, 요청 항목 수와 일치해야 함)
+    SELECT COUNT(*)
+    INTO v_cart_count
+    FROM public.cart_items
+    WHERE clerk_id = v_clerk_id
+      AND id = ANY(p_cart_item_ids);
+
+    IF v_cart_count = 0 THEN
+        RAISE EXCEPTION '장바구니 항목을 찾을 수 없습니다.';
+    END IF;
+
+    IF v_cart_count <> (SELECT COUNT(DISTINCT id) FROM unnest(p_cart_item_ids) AS id) THEN
+        RAISE EXCEPTION '일부 장바구니 항목을 찾을 수 없습니다.';
+    END IF;
+
+    -- 2-3. 상품 행 잠금 및 판매 상태/재고 확인
+    --      (옵션 조합을 선택한 항목의 재고는 2-4에서 옵션 조합별로 확인)
+    FOR v_product IN
+        SELECT
+            p.id,
+            p.name,
+            p.stock_quantity,
+            p.is_active,
+            p.status,
+            requested.quantity,
+            requested.missing_variant_count,
+            EXISTS (
+                SELECT 1
+                FROM public.product_variants AS v
+                WHERE v.product_id = p.id
+            ) AS has_variants
+        FROM public.products AS p
+        JOIN (
+            SELECT
+                product_id,
+                COALESCE(SUM(quantity) FILTER (WHERE variant_id IS NULL), 0) AS quantity,
+                COUNT(*) FILTER (WHERE variant_id IS NULL) AS missing_variant_count
+            FROM public.cart_items
+            WHERE clerk_id = v_clerk_id
+              AND id = ANY(p_cart_item_ids)
+            GROUP BY product_id
+        ) AS requested ON requested.product_id = p.id
+        ORDER BY p.id
+        FOR UPDATE OF p
+    LOOP
+        IF NOT v_product.is_active OR v_product.status = 'hidden' THEN
+            RAISE EXCEPTION '현재 판매 중이 아닌 상품입니다: %', v_product.name;
+        END IF;
+
+        IF v_product.has_variants AND v_product.missing_variant_count > 0 THEN
+            RAISE EXCEPTION '옵션을 다시 선택해주세요: %', v_product.name;
+        END IF;
+
+        IF NOT v_product.has_variants AND v_product.quantity > v_product.stock_quantity THEN
+            RAISE EXCEPTION '재고가 부족합니다: % (최대 %개까지 가능)',
+                v_product.name, v_product.stock_quantity;
+        END IF;
+    END LOOP;
+
+    -- 2-4. 옵션 조합 행 잠금 및 판매 상태/재고 확인
+    FOR v_variant IN
+        SELECT
+            v.id,
+            v.product_id,
+            v.options,
+            v.stock_quantity,
+            v.is_active,
+            p.name AS product_name,
+            requested.quantity
+        FROM public.product_variants AS v
+        JOIN public.products AS p ON p.id = v.product_id
+        JOIN (
+            SELECT variant_id, product_id, SUM(quantity) AS quantity
+            FROM public.cart_items
+            WHERE clerk_id = v_clerk_id
+              AND id = ANY(p_cart_item_ids)
+              AND variant_id IS NOT NULL
+            GROUP BY variant_id, product_id
+        ) AS requested ON requested.variant_id = v.id
+        ORDER BY v.id
+        FOR UPDATE OF v
+    LOOP
+        IF NOT v_variant.is_active THEN
+            RAISE EXCEPTION '현재 판매 중이 아닌 옵션입니다: % %', v_variant.product_name, v_variant.options;
+        END IF;
+
+        IF v_variant.quantity > v_variant.stock_quantity THEN
+            RAISE EXCEPTION '재고가 부족합니다: % % (최대 %개까지 가능)',
+                v_variant.product_name, v_variant.options, v_variant.stock_quantity;
+        END IF;
+    END LOOP;
+
+    -- 2-5. 금액 계산 (잠금 이후의 판매 가격(프로모션 기간 반영) + 옵션 추가 금액 기준) 및 배송비/할인 계산 기준 금액과 비교
+    SELECT COALESCE(SUM((product_effective_price(p) + COALESCE(v.price_delta, 0)) * c.quantity), 0)
+    INTO v_subtotal
+    FROM public.cart_items AS c
+    JOIN public.products AS p ON p.id = c.product_id
+    LEFT JOIN public.product_variants AS v ON v.id = c.variant_id
+    WHERE c.clerk_id = v_clerk_id
+      AND c.id = ANY(p_cart_item_ids);
+
+    IF v_subtotal <> p_expected_subtotal THEN
+        RAISE EXCEPTION '상품 가격이 변경되었습니다. 주문 내용을 다시 확인해주세요.';
+    END IF;
+
+    -- 2-6. 쿠폰 확인 (쿠폰 행 잠금으로 동시 사용 방지)
+    IF p_coupon_id IS NOT NULL THEN
+        SELECT *
+        INTO v_coupon
+        FROM public.coupons
+        WHERE id = p_coupon_id
+        FOR UPDATE;
+
+        IF NOT FOUND OR NOT v_coupon.is_active THEN
+            RAISE EXCEPTION '사용할 수 없는 쿠폰입니다.';
+        END IF;
+
+        IF v_coupon.starts_at IS NOT NULL AND v_coupon.starts_at > now() THEN
+            RAISE EXCEPTION '아직 사용할 수 없는 쿠폰입니다.';
+        END IF;
+
+        IF v_coupon.expires_at IS NOT NULL AND v_coupon.expires_at <= now() THEN
+            RAISE EXCEPTION '만료된 쿠폰입니다.';
+        END IF;
+
+        IF v_coupon.usage_limit_per_user IS NOT NULL THEN
+            SELECT COUNT(*)
+            INTO v_coupon_usage
+            FROM public.coupon_redemptions AS r
+            JOIN public.orders AS o ON o.id = r.order_id
+            WHERE r.coupon_id = p_coupon_id
+              AND r.clerk_id = v_clerk_id
+              AND o.status <> 'cancelled';
+
+            IF v_coupon_usage >= v_coupon.usage_limit_per_user THEN
+                RAISE EXCEPTION '쿠폰 사용 가능 횟수를 초과했습니다.';
+            END IF;
+        END IF;
+
+        IF v_discount_amount <= 0 OR v_discount_amount > v_subtotal THEN
+            RAISE EXCEPTION '쿠폰 할인 금액이 올바르지 않습니다.';
+        END IF;
+    ELSIF v_discount_amount <> 0 THEN
+        RAISE EXCEPTION '쿠폰 할인 금액이 올바르지 않습니다.';
+    END IF;
+
+    IF v_subtotal + p_shipping_fee - v_discount_amount <= 0 THEN
+        RAISE EXCEPTION '주문 금액이 올바르지 않습니다.';
+    END IF;
+
+    -- 2-7. 주문 저장
+    INSERT INTO public.orders (
+        clerk_id,
+        subtotal,
+        shipping_fee,
+        discount_amount,
+        coupon_id,
+        coupon_code,
+        total_amount,
+        status,
+        shipping_address,
+        order_note
+    )
+    VALUES (
+        v_clerk_id,
+        v_subtotal,
+        p_shipping_fee,
+        v_discount_amount,
+        p_coupon_id,
+        v_coupon.code,
+        v_subtotal + p_shipping_fee - v_discount_amount,
+        'pending',
+        p_shipping_address,
+        p_order_note
+    )
+    RETURNING id INTO v_order_id;
+
+    -- 2-8. 쿠폰 사용 내역 저장
+    IF p_coupon_id IS NOT NULL THEN
+        INSERT INTO public.coupon_redemptions (coupon_id, order_id, clerk_id, discount_amount)
+        VALUES (p_coupon_id, v_order_id, v_clerk_id, v_discount_amount);
+    END IF;
+
+    -- 2-9. 주문 항목 저장 (주문 시점의 상품명/판매 가격/옵션 조합 스냅샷)
+    INSERT INTO public.order_items (
+        order_id,
+        product_id,
+        variant_id,
+        sku,
+        product_name,
+        quantity,
+        price,
+        options
+    )
+    SELECT
+        v_order_id,
+        p.id,
+        v.id,
+        v.sku,
+        p.name,
+        c.quantity,
+        product_effective_price(p) + COALESCE(v.price_delta, 0),
+        COALESCE(v.options, c.options)
+    FROM public.cart_items AS c
+    JOIN public.products AS p ON p.id = c.product_id
+    LEFT JOIN public.product_variants AS v ON v.id = c.variant_id
+    WHERE c.clerk_id = v_clerk_id
+      AND c.id = ANY(p_cart_item_ids)
+    ORDER BY c.created_at;
+
+    -- 2-10. 재고 차감 (옵션 조합이 없는 상품)
+    UPDATE public.products AS p
+    SET stock_quantity = p.stock_quantity - requested.quantity
+    FROM (
+        SELECT product_id, SUM(quantity) AS quantity
+        FROM public.cart_items
+        WHERE clerk_id = v_clerk_id
+          AND id = ANY(p_cart_item_ids)
+          AND variant_id IS NULL
+        GROUP BY product_id
+    ) AS requested
+    WHERE p.id = requested.product_id;
+
+    -- 2-11. 재고 차감 (옵션 조합, 상품 재고 합계는 트리거로 반영)
+    UPDATE public.product_variants AS v
+    SET stock_quantity = v.stock_quantity - requested.quantity
+    FROM (
+        SELECT variant_id, SUM(quantity) AS quantity
+        FROM public.cart_items
+        WHERE clerk_id = v_clerk_id
+          AND id = ANY(p_cart_item_ids)
+          AND variant_id IS NOT NULL
+        GROUP BY variant_id
+    ) AS requested
+    WHERE v.id = requested.variant_id;
+
+    -- 2-12. 장바구니 항목 제거
+    DELETE FROM public.cart_items
+    WHERE clerk_id = v_clerk_id
+      AND id = ANY(p_cart_item_ids);
+
+    RETURN v_order_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+COMMENT ON FUNCTION place_order(UUID[], JSONB, DECIMAL, DECIMAL, TEXT, UUID, DECIMAL) IS '주문 생성 (장바구니 검증, 판매 가격(프로모션 기간 반영)/옵션 조합 스냅샷, 상품/옵션 조합/쿠폰 행 잠금, 재고 차감, 쿠폰 사용 기록, 장바구니 제거를 하나의 트랜잭션으로 처리)';
+
+-- ==========================================
+-- 3. 상품 필터 조건 (실제 판매 가격 기준 가격 범위)
+-- ==========================================
+
+CREATE OR REPLACE FUNCTION product_matches_filters(
+    p_product public.products,
+    p_category TEXT DEFAULT NULL,
+    p_min_price DECIMAL DEFAULT NULL,
+    p_max_price DECIMAL DEFAULT NULL,
+    p_in_stock BOOLEAN DEFAULT false,
+    p_on_sale BOOLEAN DEFAULT false,
+    p_sizes TEXT[] DEFAULT NULL,
+    p_colors TEXT[] DEFAULT NULL
+)
+RETURNS BOOLEAN AS $$
+    SELECT p_product.is_active
+        AND (p_category IS NULL OR p_product.category = p_category)
+        AND (p_min_price IS NULL OR product_effective_price(p_product) >= p_min_price)
+        AND (p_max_price IS NULL OR product_effective_price(p_product) <= p_max_price)
+        AND (
+            NOT COALESCE(p_in_stock, false)
+            OR (p_product.stock_quantity > 0 AND p_product.status <> 'out_of_stock')
+        )
+        AND (
+            NOT COALESCE(p_on_sale, false)
+            OR (
+                p_product.is_promotional
+                AND is_promotion_active(p_product.promotion_start_date, p_product.promotion_end_date)
+            )
+        )
+        AND (
+            COALESCE(cardinality(p_sizes), 0) = 0
+            OR product_option_values(p_product.options, 'sizes') && p_sizes
+        )
+        AND (
+            COALESCE(cardinality(p_colors), 0) = 0
+            OR product_option_values(p_product.options, 'colors') && p_colors
+        );
+$$ LANGUAGE sql STABLE;
+
+COMMENT ON FUNCTION product_matches_filters(public.products, TEXT, DECIMAL, DECIMAL, BOOLEAN, BOOLEAN, TEXT[], TEXT[]) IS '상품 목록 필터 조건 (filter_products, get_product_facets 공통)';
+
+-- ==========================================
+-- 마이그레이션 완료
+-- ==========================================
+--
+-- 적용된 변경사항:
+-- ✅ product_effective_price 함수 (프로모션 기간을 반영한 실제 판매 가격)
+-- ✅ place_order 주문 금액 / 가격 스냅샷에 실제 판매 가격 사용
+-- ✅ 상품 목록 가격 범위 필터에 실제 판매 가격 사용
+--
+-- 다음 단계:
+-- 1. 가격순 정렬을 실제 판매 가격 기준으로 변경
+-- ==========================================
@@ -0,0 +1,237 @@
+-- ==========================================
+-- 프로모션 캠페인 마이그레이션
+-- 기간 / 할인 규칙 / 대상 상품을 캠페인 단위로 관리하고 상품에 일괄 적용
+-- ==========================================
+--
+-- 업데이트 내용:
+-- 1. campaigns 테이블 생성
+--    - 이름, 설명, 기간(starts_at ~ ends_at), 할인 규칙(정액 / 정률), 대상 카테고리, 배너 이미지
+-- 2. products 테이블에 campaign_id 컬럼 추가 (상품은 한 번에 하나의 캠페인에만 적용)
+-- 3. admin_apply_campaign 함수 (캠페인 할인을 상품에 일괄 적용 / 재적용)
+--    - 대상: 이미 적용된 상품 + 추가 선택한 상품 + 대상 카테고리의 판매 중인 상품
+--    - 상품의 프로모션 필드에 반영 (original_price = 정가, price = 할인가,
+--      is_promotional = true, 프로모션 기간 = 캠페인 기간)
+-- 4. admin_detach_campaign_products 함수 (캠페인 적용 해제, 정가로 복원)
+-- 5. admin_delete_campaign 함수 (적용 상품을 모두 해제한 뒤 캠페인 삭제)
+--
+-- 참고:
+-- - 캠페인 할인은 기존 상품별 프로모션 필드에 그대로 반영하므로 판매 가격(product_effective_price,
+--   lib/pricing.ts), 기획 상품 섹션, 특가 필터, 주문 금액 계산이 별도 변경 없이 캠페인 기간을 따릅니다.
+-- - 정가는 적용 시점의 상품 가격입니다. (이미 프로모션 중인 상품은 original_price)
+-- - 정률 할인 금액은 원 단위 미만을 버립니다.
+-- - 대상 카테고리에 나중에 등록된 상품은 캠페인을 다시 적용하면 포함됩니다.
+-- ==========================================
+
+-- ==========================================
+-- 1. campaigns 테이블
+-- ==========================================
+
+CREATE TABLE IF NOT EXISTS public.campaigns (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    name TEXT NOT NULL CHECK (char_length(name) BETWEEN 1 AND 100),
+    description TEXT,
+    discount_type TEXT NOT NULL
+        CHECK (discount_type IN ('fixed', 'percentage')),
+    discount_value DECIMAL(10,2) NOT NULL CHECK (discount_value > 0),
+    starts_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    ends_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    target_categories TEXT[] NOT NULL DEFAULT '{}',
+    banner_image_url TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+    CONSTRAINT check_campaign_percentage_range
+        CHECK (discount_type <> 'percentage' OR discount_value < 100),
+    CONSTRAINT check_campaign_period_valid
+        CHECK (starts_at < ends_at)
+);
+
+COMMENT ON TABLE public.campaigns IS '프로모션 캠페인 (기간 / 할인 규칙 / 대상 상품을 묶어 관리)';
+COMMENT ON COLUMN public.campaigns.discount_type IS '할인 방식 (fixed: 정액, percentage: 정률)';
+COMMENT ON COLUMN public.campaigns.discount_value IS '할인 값 (정액: 원, 정률: %)';
+COMMENT ON COLUMN public.campaigns.starts_at IS '캠페인 시작일시 (적용 상품의 promotion_start_date)';
+COMMENT ON COLUMN public.campaigns.ends_at IS '캠페인 종료일시 (적용 상품의 promotion_end_date)';
+COMMENT ON COLUMN public.campaigns.target_categories IS '대상 카테고리 (캠페인 적용 시 해당 카테고리의 판매 중인 상품 포함)';
+COMMENT ON COLUMN public.campaigns.banner_image_url IS '홈 배너 이미지 URL (진행 중인 캠페인만 표시)';
+
+CREATE INDEX IF NOT EXISTS idx_campaigns_period ON public.campaigns(starts_at, ends_at);
+
+DROP TRIGGER IF EXISTS set_updated_at_campaigns ON public.campaigns;
+CREATE TRIGGER set_updated_at_campaigns
+    BEFORE UPDATE ON public.campaigns
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- ==========================================
+-- 2. products.campaign_id
+-- ==========================================
+
+ALTER TABLE public.products
+    ADD COLUMN IF NOT EXISTS campaign_id UUID REFERENCES public.campaigns(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_products_campaign_id
+    ON public.products(campaign_id)
+    WHERE campaign_id IS NOT NULL;
+
+COMMENT ON COLUMN public.products.campaign_id IS '적용 중인 프로모션 캠페인 (NULL이면 캠페인 미적용)';
+
+-- ==========================================
+-- 3. 캠페인 적용 함수
+-- ==========================================
+
+CREATE OR REPLACE FUNCTION admin_apply_campaign(
+    p_campaign_id UUID,
+    p_product_ids UUID[] DEFAULT '{}'
+)
+RETURNS INTEGER AS $$
+DECLARE
+    v_campaign public.campaigns%ROWTYPE;
+    v_product RECORD;
+    v_regular_price DECIMAL(10,2);
+    v_discount DECIMAL(10,2);
+    v_count INTEGER := 0;
+BEGIN
+    -- 3-1. 캠페인 조회 및 행 잠금 (동시 적용 방지)
+    SELECT *
+    INTO v_campaign
+    FROM public.campaigns
+    WHERE id = p_campaign_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION '캠페인을 찾을 수 없습니다.';
+    END IF;
+
+    -- 3-2. 대상 상품 행 잠금 (이미 적용된 상품 + 선택한 상품 + 대상 카테고리 상품)
+    FOR v_product IN
+        SELECT p.id, p.name, p.price, p.original_price, p.is_promotional
+        FROM public.products AS p
+        WHERE p.campaign_id = p_campaign_id
+           OR p.id = ANY(COALESCE(p_product_ids, '{}'))
+           OR (p.is_active AND p.category = ANY(v_campaign.target_categories))
+        ORDER BY p.id
+        FOR UPDATE
+    LOOP
+        -- 3-3. 정가 (이미 프로모션 중인 상품은 할인 전 가격)
+        v_regular_price := CASE
+            WHEN v_product.is_promotional
+                AND v_product.original_price IS NOT NULL
+                AND v_product.original_price > v_product.price
+            THEN v_product.original_price
+            ELSE v_product.price
+        END;
+
+        -- 3-4. 할인 금액 (정률 할인은 원 단위 미만 버림)
+        v_discount := CASE
+            WHEN v_campaign.discount_type = 'percentage'
+            THEN FLOOR(v_regular_price * v_campaign.discount_value / 100)
+            ELSE v_campaign.discount_value
+        END;
+
+        IF v_discount <= 0 OR v_discount >= v_regular_price THEN
+            RAISE EXCEPTION '할인 금액이 상품 가격 이상이거나 0원입니다: % (정가 %원)',
+                v_product.name, v_regular_price;
+        END IF;
+
+        -- 3-5. 상품 프로모션 필드에 반영 (할인율은 calculate_discount_percentage 트리거로 계산)
+        UPDATE public.products
+        SET campaign_id = p_campaign_id,
+            is_promotional = true,
+            original_price = v_regular_price,
+            price = v_regular_price - v_discount,
+            promotion_start_date = v_campaign.starts_at,
+            promotion_end_date = v_campaign.ends_at
+        WHERE id = v_product.id;
+
+        v_count := v_count + 1;
+    END LOOP;
+
+    RETURN v_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+COMMENT ON FUNCTION admin_apply_campaign(UUID, UUID[]) IS '캠페인 할인 일괄 적용 / 재적용 (적용된 상품 + 선택 상품 + 대상 카테고리 상품의 프로모션 필드 갱신, 적용 상품 수 반환)';
+
+-- ==========================================
+-- 4. 캠페인 적용 해제 함수
+-- ==========================================
+
+CREATE OR REPLACE FUNCTION admin_detach_campaign_products(
+    p_campaign_id UUID,
+    p_product_ids UUID[] DEFAULT NULL
+)
+RETURNS INTEGER AS $$
+DECLARE
+    v_count INTEGER;
+BEGIN
+    -- 4-1. 정가로 복원하고 프로모션 필드 초기화 (p_product_ids가 NULL이면 모든 적용 상품)
+    UPDATE public.products
+    SET campaign_id = NULL,
+        is_promotional = false,
+        price = COALESCE(original_price, price),
+        original_price = NULL,
+        discount_percentage = NULL,
+        promotion_start_date = NULL,
+        promotion_end_date = NULL
+    WHERE campaign_id = p_campaign_id
+      AND (p_product_ids IS NULL OR id = ANY(p_product_ids));
+
+    GET DIAGNOSTICS v_count = ROW_COUNT;
+
+    RETURN v_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+COMMENT ON FUNCTION admin_detach_campaign_products(UUID, UUID[]) IS '캠페인 적용 해제 (정가로 복원, 프로모션 필드 초기화, 해제 상품 수 반환)';
+
+-- ==========================================
+-- 5. 캠페인 삭제 함수
+-- ==========================================
+
+CREATE OR REPLACE FUNCTION admin_delete_campaign(p_campaign_id UUID)
+RETURNS void AS $$
+BEGIN
+    -- 5-1. 적용 상품 해제 (삭제 후 할인가가 남지 않도록)
+    PERFORM admin_detach_campaign_products(p_campaign_id, NULL);
+
+    -- 5-2. 캠페인 삭제
+    DELETE FROM public.campaigns
+    WHERE id = p_campaign_id;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION '캠페인을 찾을 수 없습니다.';
+    END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+COMMENT ON FUNCTION admin_delete_campaign(UUID) IS '캠페인 삭제 (적용 상품을 정가로 복원한 뒤 삭제)';
+
+-- 관리자 Server Action(service role)에서만 호출
+REVOKE EXECUTE ON FUNCTION admin_apply_campaign(UUID, UUID[]) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION admin_apply_campaign(UUID, UUID[]) TO service_role;
+REVOKE EXECUTE ON FUNCTION admin_detach_campaign_products(UUID, UUID[]) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION admin_detach_campaign_products(UUID, UUID[]) TO service_role;
+REVOKE EXECUTE ON FUNCTION admin_delete_campaign(UUID) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION admin_delete_campaign(UUID) TO service_role;
+
+-- ==========================================
+-- 6. RLS 비활성화 및 권한 부여
+-- ==========================================
+
+ALTER TABLE public.campaigns DISABLE ROW LEVEL SECURITY;
+
+GRANT ALL ON TABLE public.campaigns TO anon, authenticated, service_role;
+
+-- ==========================================
+-- 마이그레이션 완료
+-- ==========================================
+--
+-- 적용된 변경사항:
+-- ✅ campaigns 테이블 생성 (기간, 할인 규칙, 대상 카테고리, 배너 이미지)
+-- ✅ products.campaign_id 추가
+-- ✅ admin_apply_campaign 함수 (캠페인 할인 일괄 적용 / 재적용)
+-- ✅ admin_detach_campaign_products 함수 (적용 해제, 정가 복원)
+-- ✅ admin_delete_campaign 함수 (적용 해제 후 삭제)
+--
+-- 다음 단계:
+-- 1. 캠페인 전용 상품 목록 페이지
+-- ==========================================
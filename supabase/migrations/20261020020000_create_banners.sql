@@ -0,0 +1,122 @@
+-- ==========================================
+-- 홈 배너 마이그레이션
+-- 홈 브랜드 배너를 코드 대신 관리자 페이지에서 관리
+-- ==========================================
+--
+-- 업데이트 내용:
+-- 1. banners 테이블 생성
+--    - 제목, 설명(서식 있는 텍스트), 이미지, 링크, 연결 상품, 노출 순서, 노출 기간, 노출 여부
+-- 2. admin_reorder_banners 함수 (배너 노출 순서 일괄 변경)
+-- 3. 기존 홈 배너(ASHLEY WILLIAMS) 데이터 이전
+--
+-- 참고:
+-- - description은 제한된 HTML 태그(br, p, strong, em, u, a)만 화면에 반영됩니다.
+--   (lib/rich-text.ts에서 허용하지 않는 태그는 제거하고 내용만 남긴 뒤 components/rich-text.tsx에서 React 요소로 변환)
+-- - 노출 기간(starts_at ~ ends_at)이 NULL이면 제한 없음
+-- - 홈에는 진행 중인 캠페인 배너 다음에 노출 순서대로 최대 3개까지 표시됩니다.
+-- ==========================================
+
+-- ==========================================
+-- 1. banners 테이블
+-- ==========================================
+
+CREATE TABLE IF NOT EXISTS public.banners (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    title TEXT NOT NULL CHECK (char_length(title) BETWEEN 1 AND 100),
+    description TEXT CHECK (description IS NULL OR char_length(description) <= 2000),
+    image_url TEXT NOT NULL,
+    link_url TEXT,
+    product_ids UUID[] NOT NULL DEFAULT '{}',
+    sort_order INTEGER NOT NULL DEFAULT 0,
+    is_active BOOLEAN NOT NULL DEFAULT true,
+    starts_at TIMESTAMP WITH TIME ZONE,
+    ends_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+    CONSTRAINT check_banner_period_valid
+        CHECK (starts_at IS NULL OR ends_at IS NULL OR starts_at < ends_at)
+);
+
+COMMENT ON TABLE public.banners IS '홈 브랜드 배너 (관리자 페이지에서 관리)';
+COMMENT ON COLUMN public.banners.title IS '배너 제목 (브랜드명, 이미지 대체 텍스트)';
+COMMENT ON COLUMN public.banners.description IS '배너 설명 (허용 태그: br, p, strong, em, u, a)';
+COMMENT ON COLUMN public.banners.link_url IS '배너 이미지 클릭 시 이동할 URL (사이트 내부 경로 또는 http(s) URL)';
+COMMENT ON COLUMN public.banners.product_ids IS '배너에 함께 표시할 상품 ID 목록 (표시 순서)';
+COMMENT ON COLUMN public.banners.sort_order IS '노출 순서 (오름차순)';
+COMMENT ON COLUMN public.banners.starts_at IS '노출 시작일시 (NULL이면 바로 노출)';
+COMMENT ON COLUMN public.banners.ends_at IS '노출 종료일시 (NULL이면 종료 없음)';
+
+CREATE INDEX IF NOT EXISTS idx_banners_sort_order ON public.banners(sort_order);
+
+DROP TRIGGER IF EXISTS set_updated_at_banners ON public.banners;
+CREATE TRIGGER set_updated_at_banners
+    BEFORE UPDATE ON public.banners
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- ==========================================
+-- 2. 배너 순서 변경 함수
+-- ==========================================
+
+CREATE OR REPLACE FUNCTION admin_reorder_banners(p_banner_ids UUID[])
+RETURNS void AS $$
+BEGIN
+    -- 2-1. 전달된 순서대로 노출 순서 갱신 (1부터)
+    UPDATE public.banners AS b
+    SET sort_order = o.position
+    FROM unnest(p_banner_ids) WITH ORDINALITY AS o(id, position)
+    WHERE b.id = o.id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+COMMENT ON FUNCTION admin_reorder_banners(UUID[]) IS '배너 노출 순서 일괄 변경 (전달된 ID 순서대로 sort_order 갱신)';
+
+-- 관리자 Server Action(service role)에서만 호출
+REVOKE EXECUTE ON FUNCTION admin_reorder_banners(UUID[]) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION admin_reorder_banners(UUID[]) TO service_role;
+
+-- ==========================================
+-- 3. 기존 홈 배너 데이터 이전
+-- ==========================================
+
+INSERT INTO public.banners (title, description, image_url, link_url, product_ids, sort_order)
+SELECT seed.title, seed.description, seed.image_url, '/products?category=collaboration', seed.product_ids, seed.sort_order
+FROM (
+    VALUES
+        (
+            'ASHLEY WILLIAMS',
+            '런던 기반 디자이너 애슐리 윌리엄스가 이끄는 브랜드 ASHLEY WILLIAMS.<br>펑크와 키치, 유머러스한 감성을 결합해 90년대 하위문화와 여성의 개성을 자유롭게 재해석합니다.<br>시그니처 모티프와 대담한 그래픽, 그리고 예측 불가능한 위트를 통해 독창적인 ''런던 걸'' 무드를 완성합니다.',
+            '/1.jpg',
+            ARRAY(
+                SELECT id FROM public.products
+                WHERE category = 'collaboration' AND is_active = true
+                ORDER BY created_at DESC
+                LIMIT 3
+            ),
+            1
+        ),
+        ('ASHLEY WILLIAMS 2', NULL, '/2.jpg', '{}'::UUID[], 2),
+        ('ASHLEY WILLIAMS 3', NULL, '/3.jpg', '{}'::UUID[], 3)
+) AS seed(title, description, image_url, product_ids, sort_order)
+WHERE NOT EXISTS (SELECT 1 FROM public.banners);
+
+-- ==========================================
+-- 4. RLS 비활성화 및 권한 부여
+-- ==========================================
+
+ALTER TABLE public.banners DISABLE ROW LEVEL SECURITY;
+
+GRANT ALL ON TABLE public.banners TO anon, authenticated, service_role;
+
+-- ==========================================
+-- 마이그레이션 완료
+-- ==========================================
+--
+-- 적용된 변경사항:
+-- ✅ banners 테이블 생성 (서식 있는 설명, 연결 상품, 노출 순서 / 기간)
+-- ✅ admin_reorder_banners 함수 (노출 순서 일괄 변경)
+-- ✅ 기존 홈 배너 데이터 이전
+--
+-- 다음 단계:
+-- 1. 모바일 전용 배너 이미지
+-- ==========================================
@@ -0,0 +1,115 @@
+-- ==========================================
+-- 홈 상품 섹션 구성 마이그레이션
+-- 홈 상품 섹션의 순서 / 노출 여부 / 제목 / 상품 수 / 데이터 소스를 관리자 페이지에서 관리
+-- ==========================================
+--
+-- 업데이트 내용:
+-- 1. home_sections 테이블 생성
+--    - 데이터 소스: promotional(기획 상품), latest(최신 상품), popular(인기상품),
+--      collaboration(디자인 콜라보), category(카테고리), products(직접 선택), campaign(캠페인)
+-- 2. admin_reorder_home_sections 함수 (섹션 순서 일괄 변경)
+-- 3. 기존 홈 섹션(Promotion, New Arrivals, Best Sellers, Collaboration) 데이터 이전
+--
+-- 참고:
+-- - 데이터 소스별 필수 값: category → category, products → product_ids, campaign → campaign_id
+-- - 캠페인이 삭제되면 campaign_id가 NULL이 되어 섹션이 표시되지 않습니다.
+-- - 섹션 구성을 불러오지 못하면 홈은 기존 기본 섹션으로 표시됩니다. (lib/home-sections.ts)
+-- ==========================================
+
+-- ==========================================
+-- 1. home_sections 테이블
+-- ==========================================
+
+CREATE TABLE IF NOT EXISTS public.home_sections (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    title TEXT NOT NULL CHECK (char_length(title) BETWEEN 1 AND 50),
+    source_type TEXT NOT NULL
+        CHECK (source_type IN (
+            'promotional', 'latest', 'popular', 'collaboration',
+            'category', 'products', 'campaign'
+        )),
+    category TEXT,
+    product_ids UUID[] NOT NULL DEFAULT '{}',
+    campaign_id UUID REFERENCES public.campaigns(id) ON DELETE SET NULL,
+    item_count INTEGER NOT NULL DEFAULT 8 CHECK (item_count BETWEEN 1 AND 24),
+    sort_order INTEGER NOT NULL DEFAULT 0,
+    is_visible BOOLEAN NOT NULL DEFAULT true,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+    CONSTRAINT check_home_section_category
+        CHECK (source_type <> 'category' OR category IS NOT NULL)
+);
+
+COMMENT ON TABLE public.home_sections IS '홈 상품 섹션 구성 (관리자 페이지에서 관리)';
+COMMENT ON COLUMN public.home_sections.title IS '섹션 제목';
+COMMENT ON COLUMN public.home_sections.source_type IS '데이터 소스 (promotional, latest, popular, collaboration, category, products, campaign)';
+COMMENT ON COLUMN public.home_sections.category IS '카테고리 (source_type = category)';
+COMMENT ON COLUMN public.home_sections.product_ids IS '직접 선택한 상품 ID 목록 (source_type = products, 표시 순서)';
+COMMENT ON COLUMN public.home_sections.campaign_id IS '캠페인 (source_type = campaign, 진행 중일 때만 표시)';
+COMMENT ON COLUMN public.home_sections.item_count IS '표시할 최대 상품 수 (1~24)';
+COMMENT ON COLUMN public.home_sections.sort_order IS '표시 순서 (오름차순)';
+
+CREATE INDEX IF NOT EXISTS idx_home_sections_sort_order ON public.home_sections(sort_order);
+
+DROP TRIGGER IF EXISTS set_updated_at_home_sections ON public.home_sections;
+CREATE TRIGGER set_updated_at_home_sections
+    BEFORE UPDATE ON public.home_sections
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- ==========================================
+-- 2. 섹션 순서 변경 함수
+-- ==========================================
+
+CREATE OR REPLACE FUNCTION admin_reorder_home_sections(p_section_ids UUID[])
+RETURNS void AS $$
+BEGIN
+    -- 2-1. 전달된 순서대로 표시 순서 갱신 (1부터)
+    UPDATE public.home_sections AS s
+    SET sort_order = o.position
+    FROM unnest(p_section_ids) WITH ORDINALITY AS o(id, position)
+    WHERE s.id = o.id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+COMMENT ON FUNCTION admin_reorder_home_sections(UUID[]) IS '홈 섹션 표시 순서 일괄 변경 (전달된 ID 순서대로 sort_order 갱신)';
+
+-- 관리자 Server Action(service role)에서만 호출
+REVOKE EXECUTE ON FUNCTION admin_reorder_home_sections(UUID[]) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION admin_reorder_home_sections(UUID[]) TO service_role;
+
+-- ==========================================
+-- 3. 기존 홈 섹션 데이터 이전
+-- ==========================================
+
+INSERT INTO public.home_sections (title, source_type, item_count, sort_order)
+SELECT seed.title, seed.source_type, seed.item_count, seed.sort_order
+FROM (
+    VALUES
+        ('Promotion', 'promotional', 8, 1),
+        ('New Arrivals', 'latest', 12, 2),
+        ('Best Sellers', 'popular', 8, 3),
+        ('Collaboration', 'collaboration', 6, 4)
+) AS seed(title, source_type, item_count, sort_order)
+WHERE NOT EXISTS (SELECT 1 FROM public.home_sections);
+
+-- ==========================================
+-- 4. RLS 비활성화 및 권한 부여
+-- ==========================================
+
+ALTER TABLE public.home_sections DISABLE ROW LEVEL SECURITY;
+
+GRANT ALL ON TABLE public.home_sections TO anon, authenticated, service_role;
+
+-- ==========================================
+-- 마이그레이션 완료
+-- ==========================================
+--
+-- 적용된 변경사항:
+-- ✅ home_sections 테이블 생성 (순서, 노출 여부, 제목, 상품 수, 데이터 소스)
+-- ✅ admin_reorder_home_sections 함수 (표시 순서 일괄 변경)
+-- ✅ 기존 홈 섹션 데이터 이전
+--
+-- 다음 단계:
+-- 1. 섹션별 레이아웃(그리드 / 가로 스크롤) 선택
+-- ==========================================
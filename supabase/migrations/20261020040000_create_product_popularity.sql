@@ -0,0 +1,170 @@
+-- ==========================================
+-- 인기상품 집계 마이그레이션
+-- 최근 판매량(7일 / 30일)과 조회수를 DB에서 집계해 인기상품 순위를 계산
+-- ==========================================
+--
+-- 업데이트 내용:
+-- 1. product_popularity 구체화 뷰 생성 (상품별 최근 7일 / 30일 판매수량)
+--    - 취소(cancelled) / 반품 완료(returned) 주문은 제외
+-- 2. refresh_product_popularity 함수 (집계가 오래된 경우에만 갱신)
+-- 3. get_popular_products 함수 (판매수량 + 조회수 가중 점수 순위)
+-- 4. home_sections.popular_days 컬럼 추가 (인기상품 섹션 집계 기간 7일 / 30일)
+--
+-- 참고:
+-- - 기존에는 order_items를 최대 1000건만 가져와 애플리케이션에서 합산했기 때문에
+--   취소 주문이 포함되고 데이터가 늘수록 순위가 부정확했습니다.
+-- - 구체화 뷰는 get_popular_products 호출 시 10분이 지났으면 갱신됩니다.
+--   (동시에 호출되어도 한 요청만 갱신, 나머지는 기존 집계 사용)
+-- - 점수 = 판매수량 + 조회수 × 0.01 (조회 100회 = 판매 1개)
+-- - 조회수(view_count)는 기간 구분 없는 누적 값입니다.
+-- ==========================================
+
+-- ==========================================
+-- 1. 상품별 최근 판매수량 구체화 뷰
+-- ==========================================
+
+CREATE MATERIALIZED VIEW IF NOT EXISTS public.product_popularity AS
+SELECT
+    p.id AS product_id,
+    COALESCE(SUM(s.quantity) FILTER (WHERE s.ordered_at >= NOW() - INTERVAL '7 days'), 0)::INTEGER AS sold_7d,
+    COALESCE(SUM(s.quantity), 0)::INTEGER AS sold_30d,
+    NOW() AS refreshed_at
+FROM public.products AS p
+LEFT JOIN (
+    SELECT oi.product_id, oi.quantity, o.created_at AS ordered_at
+    FROM public.order_items AS oi
+    JOIN public.orders AS o ON o.id = oi.order_id
+    WHERE o.status NOT IN ('cancelled', 'returned')
+      AND o.created_at >= NOW() - INTERVAL '30 days'
+) AS s ON s.product_id = p.id
+GROUP BY p.id;
+
+COMMENT ON MATERIALIZED VIEW public.product_popularity IS '상품별 최근 판매수량 집계 (취소 / 반품 완료 주문 제외, get_popular_products에서 주기적으로 갱신)';
+COMMENT ON COLUMN public.product_popularity.sold_7d IS '최근 7일 판매수량';
+COMMENT ON COLUMN public.product_popularity.sold_30d IS '최근 30일 판매수량';
+COMMENT ON COLUMN public.product_popularity.refreshed_at IS '집계 시각';
+
+-- REFRESH ... CONCURRENTLY에 필요한 유니크 인덱스
+CREATE UNIQUE INDEX IF NOT EXISTS idx_product_popularity_product_id
+    ON public.product_popularity(product_id);
+
+-- 최근 주문 집계 최적화
+CREATE INDEX IF NOT EXISTS idx_orders_created_at ON public.orders(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_order_items_order_id ON public.order_items(order_id);
+
+-- ==========================================
+-- 2. 집계 갱신 함수
+-- ==========================================
+
+CREATE OR REPLACE FUNCTION refresh_product_popularity(p_max_age INTERVAL DEFAULT INTERVAL '0 seconds')
+RETURNS BOOLEAN AS $$
+DECLARE
+    v_refreshed_at TIMESTAMP WITH TIME ZONE;
+BEGIN
+    -- 2-1. 집계가 p_max_age보다 최근이면 갱신하지 않음
+    SELECT refreshed_at INTO v_refreshed_at
+    FROM public.product_popularity
+    LIMIT 1;
+
+    IF v_refreshed_at IS NOT NULL AND v_refreshed_at > NOW() - p_max_age THEN
+        RETURN false;
+    END IF;
+
+    -- 2-2. 다른 요청이 갱신 중이면 기존 집계 사용
+    IF NOT pg_try_advisory_xact_lock(hashtext('product_popularity')) THEN
+        RETURN false;
+    END IF;
+
+    -- 2-3. 갱신 (조회를 막지 않도록 CONCURRENTLY)
+    REFRESH MATERIALIZED VIEW CONCURRENTLY public.product_popularity;
+
+    RETURN true;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+COMMENT ON FUNCTION refresh_product_popularity(INTERVAL) IS '인기상품 집계 갱신 (집계 후 p_max_age가 지난 경우에만, 갱신했으면 true)';
+
+-- 인기상품 조회 함수 / 관리 작업(service role)에서만 호출
+REVOKE EXECUTE ON FUNCTION refresh_product_popularity(INTERVAL) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION refresh_product_popularity(INTERVAL) TO service_role;
+
+-- ==========================================
+-- 3. 인기상품 조회 함수
+-- ==========================================
+
+CREATE OR REPLACE FUNCTION get_popular_products(
+    p_days INTEGER DEFAULT 30,
+    p_limit INTEGER DEFAULT 8
+)
+RETURNS TABLE (
+    product_id UUID,
+    sold_quantity INTEGER,
+    popularity_score NUMERIC
+) AS $$
+DECLARE
+    -- 조회 100회 = 판매 1개
+    v_view_weight CONSTANT NUMERIC := 0.01;
+BEGIN
+    -- 3-1. 집계 기간 검증
+    IF p_days NOT IN (7, 30) THEN
+        RAISE EXCEPTION '지원하지 않는 집계 기간입니다: %', p_days;
+    END IF;
+
+    -- 3-2. 집계가 10분 이상 지났으면 갱신
+    PERFORM refresh_product_popularity(INTERVAL '10 minutes');
+
+    -- 3-3. 판매 중인 상품을 판매수량 + 조회수 점수 순으로 조회
+    RETURN QUERY
+    WITH scored AS (
+        SELECT
+            p.id,
+            p.view_count,
+            p.created_at,
+            CASE WHEN p_days = 7 THEN COALESCE(pp.sold_7d, 0) ELSE COALESCE(pp.sold_30d, 0) END AS sold
+        FROM public.products AS p
+        LEFT JOIN public.product_popularity AS pp ON pp.product_id = p.id
+        WHERE p.is_active
+          AND p.status <> 'hidden'
+    )
+    SELECT
+        s.id,
+        s.sold,
+        (s.sold + COALESCE(s.view_count, 0) * v_view_weight)::NUMERIC
+    FROM scored AS s
+    WHERE s.sold > 0 OR COALESCE(s.view_count, 0) > 0
+    ORDER BY 3 DESC, s.sold DESC, s.created_at DESC
+    LIMIT LEAST(GREATEST(COALESCE(p_limit, 8), 1), 50);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+COMMENT ON FUNCTION get_popular_products(INTEGER, INTEGER) IS '인기상품 조회 (최근 7일 / 30일 판매수량 + 조회수 가중 점수 순위)';
+
+-- ==========================================
+-- 4. 인기상품 섹션 집계 기간
+-- ==========================================
+
+ALTER TABLE public.home_sections
+    ADD COLUMN IF NOT EXISTS popular_days INTEGER NOT NULL DEFAULT 30
+        CHECK (popular_days IN (7, 30));
+
+COMMENT ON COLUMN public.home_sections.popular_days IS '인기상품 집계 기간 (source_type = popular, 7일 / 30일)';
+
+-- ==========================================
+-- 5. 권한 부여
+-- ==========================================
+
+GRANT SELECT ON public.product_popularity TO anon, authenticated, service_role;
+
+-- ==========================================
+-- 마이그레이션 완료
+-- ==========================================
+--
+-- 적용된 변경사항:
+-- ✅ product_popularity 구체화 뷰 (최근 7일 / 30일 판매수량, 취소 / 반품 주문 제외)
+-- ✅ refresh_product_popularity 함수 (오래된 집계만 갱신)
+-- ✅ get_popular_products 함수 (판매수량 + 조회수 점수 순위)
+-- ✅ home_sections.popular_days 컬럼 추가
+--
+-- 다음 단계:
+-- 1. pg_cron 사용 시 refresh_product_popularity()를 주기적으로 실행해 요청 시 갱신 제거
+-- ==========================================
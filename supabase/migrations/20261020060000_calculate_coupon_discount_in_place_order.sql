@@ -0,0 +1,378 @@
+-- ==========================================
+-- 주문 생성 함수 쿠폰 할인 계산 마이그레이션
+-- 쿠폰 할인 금액을 인자로 받지 않고 place_order 안에서 계산
+-- ==========================================
+--
+-- 업데이트 내용:
+-- 1. place_order 함수 수정
+--    - p_discount_amount 인자 제거
+--    - 장바구니 항목 행 잠금
+--    - 잠근 쿠폰 행과 장바구니 항목으로 할인 금액 계산
+--      (적용 카테고리, 최소 주문 금액, 정액 / 정률 할인, 정률 최대 할인 금액)
+-- 2. 기존 place_order(TEXT, UUID[], JSONB, DECIMAL, DECIMAL, TEXT, UUID, DECIMAL) 삭제
+--
+-- 참고:
+-- - 기존에는 할인 금액이 0보다 크고 상품 금액 이하인지만 확인했기 때문에
+--   호출 측이 계산한 금액을 그대로 믿었습니다.
+-- - 할인 규칙은 lib/coupons.ts의 calculateCouponDiscount와 같습니다.
+--   (주문 페이지 미리보기는 lib/coupons.ts, 실제 주문 금액은 place_order 기준)
+-- ==========================================
+
+-- ==========================================
+-- 1. 주문 생성 함수 (쿠폰 할인 계산)
+-- ==========================================
+
+CREATE OR REPLACE FUNCTION place_order(
+    p_clerk_id TEXT,
+    p_cart_item_ids UUID[],
+    p_shipping_address JSONB,
+    p_shipping_fee DECIMAL,
+    p_expected_subtotal DECIMAL,
+    p_order_note TEXT DEFAULT NULL,
+    p_coupon_id UUID DEFAULT NULL
+)
+RETURNS UUID AS $$
+DECLARE
+    v_clerk_id TEXT;
+    v_cart_count INTEGER;
+    v_product RECORD;
+    v_variant RECORD;
+    v_subtotal DECIMAL(10,2);
+    v_coupon public.coupons%ROWTYPE;
+    v_coupon_usage INTEGER;
+    v_eligible_subtotal DECIMAL(10,2);
+    v_discount_amount DECIMAL(10,2) := 0;
+    v_order_id UUID;
+BEGIN
+    -- 1-1. 주문자 확인 (Server Action에서 Clerk 인증으로 확인한 User ID)
+    v_clerk_id := NULLIF(p_clerk_id, '');
+
+    IF v_clerk_id IS NULL THEN
+        RAISE EXCEPTION '로그인이 필요합니다.';
+    END IF;
+
+    -- 주문 접수 이력의 변경자를 주문자로 기록 (service role 호출이라 JWT에 sub가 없음)
+    PERFORM set_config('app.order_status_actor_type', 'customer', true);
+    PERFORM set_config('app.order_status_actor_id', v_clerk_id, true);
+
+    IF p_cart_item_ids IS NULL OR array_length(p_cart_item_ids, 1) IS NULL THEN
+        RAISE EXCEPTION '주문할 장바구니 항목을 선택해주세요.';
+    END IF;
+
+    IF p_shipping_fee IS NULL OR p_shipping_fee < 0 THEN
+        RAISE EXCEPTION '배송비가 올바르지 않습니다.';
+    END IF;
+
+    -- 1-2. 장바구니 항목 잠금 및 확인 (본인 항목만, 요청 항목 수와 일치해야 함)
+    --      (금액 / 할인 계산 중 수량이 바뀌지 않도록 행 잠금)
+    PERFORM 1
+    FROM public.cart_items
+    WHERE clerk_id = v_clerk_id
+      AND id = ANY(p_cart_item_ids)
+    ORDER BY id
+    FOR UPDATE;
+
+    SELECT COUNT(*)
+    INTO v_cart_count
+    FROM public.cart_items
+    WHERE clerk_id = v_clerk_id
+      AND id = ANY(p_cart_item_ids);
+
+    IF v_cart_count = 0 THEN
+        RAISE EXCEPTION '장바구니 항목을 찾을 수 없습니다.';
+    END IF;
+
+    IF v_cart_count <> (SELECT COUNT(DISTINCT id) FROM unnest(p_cart_item_ids) AS id) THEN
+        RAISE EXCEPTION '일부 장바구니 항목을 찾을 수 없습니다.';
+    END IF;
+
+    -- 1-3. 상품 행 잠금 및 판매 상태/재고 확인
+    --      (옵션 조합을 선택한 항목의 재고는 1-4에서 옵션 조합별로 확인)
+    FOR v_product IN
+        SELECT
+            p.id,
+            p.name,
+            p.stock_quantity,
+            p.is_active,
+            p.status,
+            requested.quantity,
+            requested.missing_variant_count,
+            EXISTS (
+                SELECT 1
+                FROM public.product_variants AS v
+                WHERE v.product_id = p.id
+            ) AS has_variants
+        FROM public.products AS p
+        JOIN (
+            SELECT
+                product_id,
+                COALESCE(SUM(quantity) FILTER (WHERE variant_id IS NULL), 0) AS quantity,
+                COUNT(*) FILTER (WHERE variant_id IS NULL) AS missing_variant_count
+            FROM public.cart_items
+            WHERE clerk_id = v_clerk_id
+              AND id = ANY(p_cart_item_ids)
+            GROUP BY product_id
+        ) AS requested ON requested.product_id = p.id
+        ORDER BY p.id
+        FOR UPDATE OF p
+    LOOP
+        IF NOT v_product.is_active OR v_product.status = 'hidden' THEN
+            RAISE EXCEPTION '현재 판매 중이 아닌 상품입니다: %', v_product.name;
+        END IF;
+
+        IF v_product.has_variants AND v_product.missing_variant_count > 0 THEN
+            RAISE EXCEPTION '옵션을 다시 선택해주세요: %', v_product.name;
+        END IF;
+
+        IF NOT v_product.has_variants AND v_product.quantity > v_product.stock_quantity THEN
+            RAISE EXCEPTION '재고가 부족합니다: % (최대 %개까지 가능)',
+                v_product.name, v_product.stock_quantity;
+        END IF;
+    END LOOP;
+
+    -- 1-4. 옵션 조합 행 잠금 및 판매 상태/재고 확인
+    FOR v_variant IN
+        SELECT
+            v.id,
+            v.product_id,
+            v.options,
+            v.stock_quantity,
+            v.is_active,
+            p.name AS product_name,
+            requested.quantity
+        FROM public.product_variants AS v
+        JOIN public.products AS p ON p.id = v.product_id
+        JOIN (
+            SELECT variant_id, product_id, SUM(quantity) AS quantity
+            FROM public.cart_items
+            WHERE clerk_id = v_clerk_id
+              AND id = ANY(p_cart_item_ids)
+              AND variant_id IS NOT NULL
+            GROUP BY variant_id, product_id
+        ) AS requested ON requested.variant_id = v.id
+        ORDER BY v.id
+        FOR UPDATE OF v
+    LOOP
+        IF NOT v_variant.is_active THEN
+            RAISE EXCEPTION '현재 판매 중이 아닌 옵션입니다: % %', v_variant.product_name, v_variant.options;
+        END IF;
+
+        IF v_variant.quantity > v_variant.stock_quantity THEN
+            RAISE EXCEPTION '재고가 부족합니다: % % (최대 %개까지 가능)',
+                v_variant.product_name, v_variant.options, v_variant.stock_quantity;
+        END IF;
+    END LOOP;
+
+    -- 1-5. 금액 계산 (잠금 이후의 판매 가격(프로모션 기간 반영) + 옵션 추가 금액 기준) 및 배송비 계산 기준 금액과 비교
+    SELECT COALESCE(SUM((product_effective_price(p) + COALESCE(v.price_delta, 0)) * c.quantity), 0)
+    INTO v_subtotal
+    FROM public.cart_items AS c
+    JOIN public.products AS p ON p.id = c.product_id
+    LEFT JOIN public.product_variants AS v ON v.id = c.variant_id
+    WHERE c.clerk_id = v_clerk_id
+      AND c.id = ANY(p_cart_item_ids);
+
+    IF v_subtotal <> p_expected_subtotal THEN
+        RAISE EXCEPTION '상품 가격이 변경되었습니다. 주문 내용을 다시 확인해주세요.';
+    END IF;
+
+    -- 1-6. 쿠폰 확인 및 할인 금액 계산 (쿠폰 행 잠금으로 동시 사용 방지)
+    --      할인 금액은 잠근 쿠폰 행과 장바구니 항목으로만 계산 (lib/coupons.ts와 같은 규칙)
+    IF p_coupon_id IS NOT NULL THEN
+        SELECT *
+        INTO v_coupon
+        FROM public.coupons
+        WHERE id = p_coupon_id
+        FOR UPDATE;
+
+        IF NOT FOUND OR NOT v_coupon.is_active THEN
+            RAISE EXCEPTION '사용할 수 없는 쿠폰입니다.';
+        END IF;
+
+        IF v_coupon.starts_at IS NOT NULL AND v_coupon.starts_at > now() THEN
+            RAISE EXCEPTION '아직 사용할 수 없는 쿠폰입니다.';
+        END IF;
+
+        IF v_coupon.expires_at IS NOT NULL AND v_coupon.expires_at <= now() THEN
+            RAISE EXCEPTION '만료된 쿠폰입니다.';
+        END IF;
+
+        IF v_coupon.usage_limit_per_user IS NOT NULL THEN
+            SELECT COUNT(*)
+            INTO v_coupon_usage
+            FROM public.coupon_redemptions AS r
+            JOIN public.orders AS o ON o.id = r.order_id
+            WHERE r.coupon_id = p_coupon_id
+              AND r.clerk_id = v_clerk_id
+              AND o.status <> 'cancelled';
+
+            IF v_coupon_usage >= v_coupon.usage_limit_per_user THEN
+                RAISE EXCEPTION '쿠폰 사용 가능 횟수를 초과했습니다.';
+            END IF;
+        END IF;
+
+        -- 할인 대상 상품 금액 (적용 카테고리가 있으면 해당 카테고리 상품만)
+        SELECT COALESCE(SUM((product_effective_price(p) + COALESCE(v.price_delta, 0)) * c.quantity), 0)
+        INTO v_eligible_subtotal
+        FROM public.cart_items AS c
+        JOIN public.products AS p ON p.id = c.product_id
+        LEFT JOIN public.product_variants AS v ON v.id = c.variant_id
+        WHERE c.clerk_id = v_clerk_id
+          AND c.id = ANY(p_cart_item_ids)
+          AND (
+              COALESCE(cardinality(v_coupon.categories), 0) = 0
+              OR p.category = ANY(v_coupon.categories)
+          );
+
+        IF v_eligible_subtotal = 0 THEN
+            RAISE EXCEPTION '쿠폰을 적용할 수 있는 상품이 없습니다.';
+        END IF;
+
+        -- 최소 주문 금액 (할인 대상 상품 금액 기준)
+        IF v_eligible_subtotal < v_coupon.min_order_amount THEN
+            RAISE EXCEPTION '%원 이상 주문 시 사용할 수 있는 쿠폰입니다.',
+                to_char(v_coupon.min_order_amount, 'FM999,999,999,999');
+        END IF;
+
+        -- 정액 / 정률 할인 (정률은 원 단위 미만 버림, 최대 할인 금액 적용)
+        IF v_coupon.discount_type = 'percentage' THEN
+            v_discount_amount := FLOOR(v_eligible_subtotal * v_coupon.discount_value / 100);
+
+            IF v_coupon.max_discount_amount IS NOT NULL THEN
+                v_discount_amount := LEAST(v_discount_amount, v_coupon.max_discount_amount);
+            END IF;
+        ELSE
+            v_discount_amount := v_coupon.discount_value;
+        END IF;
+
+        -- 할인 금액은 할인 대상 상품 금액을 넘지 않음 (배송비는 할인하지 않음)
+        v_discount_amount := LEAST(v_discount_amount, v_eligible_subtotal);
+    END IF;
+
+    IF v_subtotal + p_shipping_fee - v_discount_amount <= 0 THEN
+        RAISE EXCEPTION '주문 금액이 올바르지 않습니다.';
+    END IF;
+
+    -- 1-7. 주문 저장
+    INSERT INTO public.orders (
+        clerk_id,
+        subtotal,
+        shipping_fee,
+        discount_amount,
+        coupon_id,
+        coupon_code,
+        total_amount,
+        status,
+        shipping_address,
+        order_note
+    )
+    VALUES (
+        v_clerk_id,
+        v_subtotal,
+        p_shipping_fee,
+        v_discount_amount,
+        p_coupon_id,
+        v_coupon.code,
+        v_subtotal + p_shipping_fee - v_discount_amount,
+        'pending',
+        p_shipping_address,
+        p_order_note
+    )
+    RETURNING id INTO v_order_id;
+
+    -- 1-8. 쿠폰 사용 내역 저장
+    IF p_coupon_id IS NOT NULL THEN
+        INSERT INTO public.coupon_redemptions (coupon_id, order_id, clerk_id, discount_amount)
+        VALUES (p_coupon_id, v_order_id, v_clerk_id, v_discount_amount);
+    END IF;
+
+    -- 1-9. 주문 항목 저장 (주문 시점의 상품명/판매 가격/옵션 조합 스냅샷)
+    INSERT INTO public.order_items (
+        order_id,
+        product_id,
+        variant_id,
+        sku,
+        product_name,
+        quantity,
+        price,
+        options
+    )
+    SELECT
+        v_order_id,
+        p.id,
+        v.id,
+        v.sku,
+        p.name,
+        c.quantity,
+        product_effective_price(p) + COALESCE(v.price_delta, 0),
+        COALESCE(v.options, c.options)
+    FROM public.cart_items AS c
+    JOIN public.products AS p ON p.id = c.product_id
+    LEFT JOIN public.product_variants AS v ON v.id = c.variant_id
+    WHERE c.clerk_id = v_clerk_id
+      AND c.id = ANY(p_cart_item_ids)
+    ORDER BY c.created_at;
+
+    -- 1-10. 재고 차감 (옵션 조합이 없는 상품)
+    UPDATE public.products AS p
+    SET stock_quantity = p.stock_quantity - requested.quantity
+    FROM (
+        SELECT product_id, SUM(quantity) AS quantity
+        FROM public.cart_items
+        WHERE clerk_id = v_clerk_id
+          AND id = ANY(p_cart_item_ids)
+          AND variant_id IS NULL
+        GROUP BY product_id
+    ) AS requested
+    WHERE p.id = requested.product_id;
+
+    -- 1-11. 재고 차감 (옵션 조합, 상품 재고 합계는 트리거로 반영)
+    UPDATE public.product_variants AS v
+    SET stock_quantity = v.stock_quantity - requested.quantity
+    FROM (
+        SELECT variant_id, SUM(quantity) AS quantity
+        FROM public.cart_items
+        WHERE clerk_id = v_clerk_id
+          AND id = ANY(p_cart_item_ids)
+          AND variant_id IS NOT NULL
+        GROUP BY variant_id
+    ) AS requested
+    WHERE v.id = requested.variant_id;
+
+    -- 1-12. 장바구니 항목 제거
+    DELETE FROM public.cart_items
+    WHERE clerk_id = v_clerk_id
+      AND id = ANY(p_cart_item_ids);
+
+    RETURN v_order_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+COMMENT ON FUNCTION place_order(TEXT, UUID[], JSONB, DECIMAL, DECIMAL, TEXT, UUID) IS '주문 생성 (service role 전용, 배송비는 lib/shipping.ts로 계산해 전달, 쿠폰 할인은 잠근 쿠폰 행과 장바구니 항목으로 계산, 장바구니 검증, 판매 가격(프로모션 기간 반영)/옵션 조합 스냅샷, 상품/옵션 조합/쿠폰 행 잠금, 재고 차감, 쿠폰 사용 기록, 장바구니 제거를 하나의 트랜잭션으로 처리)';
+
+-- ==========================================
+-- 2. 기존 함수 삭제
+-- ==========================================
+
+DROP FUNCTION IF EXISTS place_order(TEXT, UUID[], JSONB, DECIMAL, DECIMAL, TEXT, UUID, DECIMAL);
+
+-- ==========================================
+-- 3. 실행 권한 (service role 전용)
+-- ==========================================
+
+-- createOrder Server Action(service role)에서만 호출
+REVOKE EXECUTE ON FUNCTION place_order(TEXT, UUID[], JSONB, DECIMAL, DECIMAL, TEXT, UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION place_order(TEXT, UUID[], JSONB, DECIMAL, DECIMAL, TEXT, UUID) TO service_role;
+
+-- ==========================================
+-- 마이그레이션 완료
+-- ==========================================
+--
+-- 적용된 변경사항:
+-- ✅ place_order 쿠폰 할인 금액 계산 (잠근 쿠폰 행 / 장바구니 항목 기준)
+-- ✅ place_order 장바구니 항목 행 잠금
+-- ✅ 할인 금액 인자를 받는 기존 place_order 삭제
+--
+-- 다음 단계:
+-- 1. 쿠폰 사용 내역에 할인 대상 상품 금액 기록
+-- ==========================================
@@ -0,0 +1,34 @@
+-- ==========================================
+-- 환불 멱등 키 변경 마이그레이션
+-- 결제 취소 멱등 키를 환불 1건당 하나로 고정
+-- ==========================================
+--
+-- 업데이트 내용:
+-- 1. order_refunds.attempts 설명 변경 (멱등 키에 사용하지 않음)
+-- 2. restart_order_refund 함수 설명 변경
+--
+-- 참고:
+-- - 기존에는 멱등 키가 "환불 ID-시도 횟수"여서 결제는 취소되었지만 결과 기록에 실패한 환불을
+--   재시도하면 같은 금액이 한 번 더 취소될 수 있었습니다.
+-- - 멱등 키는 환불 ID만 사용하고, 재시도 전에는 결제 제공자의 취소 내역을 조회해
+--   이미 취소된 환불이면 다시 요청하지 않고 완료로 기록합니다. (lib/payments/refunds.ts)
+-- ==========================================
+
+-- ==========================================
+-- 1. 컬럼 / 함수 설명
+-- ==========================================
+
+COMMENT ON COLUMN public.order_refunds.attempts IS '결제 취소 시도 횟수 (멱등 키는 환불 ID로 고정)';
+COMMENT ON FUNCTION restart_order_refund(UUID) IS '결제 취소에 실패한 환불 재시도 (요청 중으로 변경, 시도 횟수 증가, 결제 취소 전 취소 내역 확인)';
+
+-- ==========================================
+-- 마이그레이션 완료
+-- ==========================================
+--
+-- 적용된 변경사항:
+-- ✅ order_refunds.attempts 설명 변경
+-- ✅ restart_order_refund 함수 설명 변경
+--
+-- 다음 단계:
+-- 1. 요청 중(requested)으로 남은 환불을 결제 제공자 취소 내역과 주기적으로 대사
+-- ==========================================
@@ -0,0 +1,199 @@
+-- ==========================================
+-- 캠페인 적용 대상 / 해제 보완 마이그레이션
+-- 다른 캠페인 상품을 가져오지 않고, 해제 시 캠페인 적용 전 프로모션으로 복원
+-- ==========================================
+--
+-- 업데이트 내용:
+-- 1. products 테이블에 campaign_saved_promotion 컬럼 추가
+--    - 캠페인 적용 직전의 프로모션 필드 (가격, 정가, 할인율, 프로모션 여부 / 기간)
+-- 2. admin_apply_campaign 함수 수정
+--    - 대상 카테고리 상품 중 다른 캠페인이 적용된 상품은 제외
+--    - 선택한 상품이 다른 캠페인에 적용되어 있으면 에러
+--    - 처음 적용하는 상품은 기존 프로모션 필드를 campaign_saved_promotion에 저장
+-- 3. admin_detach_campaign_products 함수 수정
+--    - campaign_saved_promotion이 있으면 캠페인 적용 전 프로모션 필드로 복원
+--    - 없으면(이 마이그레이션 전에 적용된 상품) 기존처럼 정가로 복원
+--
+-- 참고:
+-- - 기존에는 대상 카테고리 조건만으로 다른 캠페인 상품을 이 캠페인으로 옮겼고,
+--   해제 시 항상 프로모션을 끄고 기간을 지워 상품별로 설정한 프로모션이 사라졌습니다.
+-- - admin_delete_campaign은 admin_detach_campaign_products를 호출하므로 같은 방식으로 복원됩니다.
+-- - 캠페인 적용 중인 상품의 가격 / 프로모션 여부는 캠페인이 관리하므로 상품 수정에서 바꿀 수 없습니다.
+--   (actions/admin/products.ts updateProduct, 저장한 프로모션 필드와 어긋나지 않도록)
+-- ==========================================
+
+-- ==========================================
+-- 1. products.campaign_saved_promotion
+-- ==========================================
+
+ALTER TABLE public.products
+    ADD COLUMN IF NOT EXISTS campaign_saved_promotion JSONB;
+
+COMMENT ON COLUMN public.products.campaign_saved_promotion IS '캠페인 적용 직전의 프로모션 필드 (캠페인 해제 시 복원, 캠페인 미적용이면 NULL)';
+
+-- ==========================================
+-- 2. 캠페인 적용 함수 (다른 캠페인 상품 제외, 기존 프로모션 저장)
+-- ==========================================
+
+CREATE OR REPLACE FUNCTION admin_apply_campaign(
+    p_campaign_id UUID,
+    p_product_ids UUID[] DEFAULT '{}'
+)
+RETURNS INTEGER AS $$
+DECLARE
+    v_campaign public.campaigns%ROWTYPE;
+    v_product RECORD;
+    v_conflict RECORD;
+    v_regular_price DECIMAL(10,2);
+    v_discount DECIMAL(10,2);
+    v_count INTEGER := 0;
+BEGIN
+    -- 2-1. 캠페인 조회 및 행 잠금 (동시 적용 방지)
+    SELECT *
+    INTO v_campaign
+    FROM public.campaigns
+    WHERE id = p_campaign_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION '캠페인을 찾을 수 없습니다.';
+    END IF;
+
+    -- 2-2. 선택한 상품이 다른 캠페인에 적용되어 있는지 확인
+    SELECT p.name, c.name AS campaign_name
+    INTO v_conflict
+    FROM public.products AS p
+    JOIN public.campaigns AS c ON c.id = p.campaign_id
+    WHERE p.id = ANY(COALESCE(p_product_ids, '{}'))
+      AND p.campaign_id <> p_campaign_id
+    LIMIT 1;
+
+    IF FOUND THEN
+        RAISE EXCEPTION '다른 캠페인에 적용된 상품입니다: % (%)',
+            v_conflict.name, v_conflict.campaign_name;
+    END IF;
+
+    -- 2-3. 대상 상품 행 잠금 (이미 적용된 상품 + 선택한 상품 + 대상 카테고리 상품,
+    --      다른 캠페인이 적용된 상품은 제외)
+    FOR v_product IN
+        SELECT p.id, p.name, p.price, p.original_price, p.is_promotional,
+               p.discount_percentage, p.promotion_start_date, p.promotion_end_date,
+               p.campaign_id
+        FROM public.products AS p
+        WHERE (p.campaign_id IS NULL OR p.campaign_id = p_campaign_id)
+          AND (
+              p.campaign_id = p_campaign_id
+              OR p.id = ANY(COALESCE(p_product_ids, '{}'))
+              OR (p.is_active AND p.category = ANY(v_campaign.target_categories))
+          )
+        ORDER BY p.id
+        FOR UPDATE
+    LOOP
+        -- 2-4. 정가 (이미 프로모션 중인 상품은 할인 전 가격)
+        v_regular_price := CASE
+            WHEN v_product.is_promotional
+                AND v_product.original_price IS NOT NULL
+                AND v_product.original_price > v_product.price
+            THEN v_product.original_price
+            ELSE v_product.price
+        END;
+
+        -- 2-5. 할인 금액 (정률 할인은 원 단위 미만 버림)
+        v_discount := CASE
+            WHEN v_campaign.discount_type = 'percentage'
+            THEN FLOOR(v_regular_price * v_campaign.discount_value / 100)
+            ELSE v_campaign.discount_value
+        END;
+
+        IF v_discount <= 0 OR v_discount >= v_regular_price THEN
+            RAISE EXCEPTION '할인 금액이 상품 가격 이상이거나 0원입니다: % (정가 %원)',
+                v_product.name, v_regular_price;
+        END IF;
+
+        -- 2-6. 상품 프로모션 필드에 반영 (할인율은 calculate_discount_percentage 트리거로 계산)
+        --      처음 적용하는 상품은 기존 프로모션 필드를 저장 (재적용 시에는 유지)
+        UPDATE public.products
+        SET campaign_saved_promotion = CASE
+                WHEN v_product.campaign_id IS NULL THEN jsonb_build_object(
+                    'price', v_product.price,
+                    'original_price', v_product.original_price,
+                    'is_promotional', v_product.is_promotional,
+                    'discount_percentage', v_product.discount_percentage,
+                    'promotion_start_date', v_product.promotion_start_date,
+                    'promotion_end_date', v_product.promotion_end_date
+                )
+                ELSE campaign_saved_promotion
+            END,
+            campaign_id = p_campaign_id,
+            is_promotional = true,
+            original_price = v_regular_price,
+            price = v_regular_price - v_discount,
+            promotion_start_date = v_campaign.starts_at,
+            promotion_end_date = v_campaign.ends_at
+        WHERE id = v_product.id;
+
+        v_count := v_count + 1;
+    END LOOP;
+
+    RETURN v_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+COMMENT ON FUNCTION admin_apply_campaign(UUID, UUID[]) IS '캠페인 할인 일괄 적용 / 재적용 (적용된 상품 + 선택 상품 + 대상 카테고리 상품의 프로모션 필드 갱신, 다른 캠페인 상품 제외, 적용 상품 수 반환)';
+
+-- ==========================================
+-- 3. 캠페인 적용 해제 함수 (캠페인 적용 전 프로모션으로 복원)
+-- ==========================================
+
+CREATE OR REPLACE FUNCTION admin_detach_campaign_products(
+    p_campaign_id UUID,
+    p_product_ids UUID[] DEFAULT NULL
+)
+RETURNS INTEGER AS $$
+DECLARE
+    v_count INTEGER;
+BEGIN
+    -- 3-1. 저장한 프로모션 필드로 복원 (p_product_ids가 NULL이면 모든 적용 상품)
+    --      저장한 값이 없으면 정가로 복원하고 프로모션 필드 초기화
+    UPDATE public.products
+    SET campaign_id = NULL,
+        is_promotional = COALESCE((campaign_saved_promotion->>'is_promotional')::BOOLEAN, false),
+        price = CASE
+            WHEN campaign_saved_promotion IS NOT NULL
+            THEN (campaign_saved_promotion->>'price')::DECIMAL(10,2)
+            ELSE COALESCE(original_price, price)
+        END,
+        original_price = (campaign_saved_promotion->>'original_price')::DECIMAL(10,2),
+        discount_percentage = (campaign_saved_promotion->>'discount_percentage')::DECIMAL(5,2),
+        promotion_start_date = (campaign_saved_promotion->>'promotion_start_date')::TIMESTAMP WITH TIME ZONE,
+        promotion_end_date = (campaign_saved_promotion->>'promotion_end_date')::TIMESTAMP WITH TIME ZONE,
+        campaign_saved_promotion = NULL
+    WHERE campaign_id = p_campaign_id
+      AND (p_product_ids IS NULL OR id = ANY(p_product_ids));
+
+    GET DIAGNOSTICS v_count = ROW_COUNT;
+
+    RETURN v_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+COMMENT ON FUNCTION admin_detach_campaign_products(UUID, UUID[]) IS '캠페인 적용 해제 (캠페인 적용 전 프로모션 필드로 복원, 저장한 값이 없으면 정가로 복원, 해제 상품 수 반환)';
+
+-- 관리자 Server Action(service role)에서만 호출
+REVOKE EXECUTE ON FUNCTION admin_apply_campaign(UUID, UUID[]) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION admin_apply_campaign(UUID, UUID[]) TO service_role;
+REVOKE EXECUTE ON FUNCTION admin_detach_campaign_products(UUID, UUID[]) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION admin_detach_campaign_products(UUID, UUID[]) TO service_role;
+
+-- ==========================================
+-- 마이그레이션 완료
+-- ==========================================
+--
+-- 적용된 변경사항:
+-- ✅ products.campaign_saved_promotion 추가
+-- ✅ admin_apply_campaign 다른 캠페인 상품 제외 / 선택 시 에러, 기존 프로모션 저장
+-- ✅ admin_detach_campaign_products 캠페인 적용 전 프로모션으로 복원
+--
+-- 다음 단계:
+-- 1. 캠페인 관리 화면에 적용 전 프로모션 가격 표시
+-- ==========================================
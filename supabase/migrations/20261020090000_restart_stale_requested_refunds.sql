@@ -0,0 +1,102 @@
+-- ==========================================
+-- 멈춘 환불 재시도 마이그레이션
+-- 결제 취소 요청 중(requested)으로 오래 남은 환불도 다시 시도할 수 있도록 변경
+-- ==========================================
+--
+-- 업데이트 내용:
+-- 1. restart_order_refund 함수 수정
+--    - 실패(failed)한 환불 + 요청 중(requested)으로 10분 이상 지난 환불 재시도
+--    - 남은 결제 금액 계산에서 재시도하는 환불 자신은 제외
+--
+-- 참고:
+-- - 결제 취소는 성공했지만 결과 기록(complete_order_refund)에 실패했거나,
+--   요청 기록 후 결과 기록 전에 서버 프로세스가 종료되면 환불이 requested로 남습니다.
+--   이 환불 금액은 남은 결제 금액 계산에 계속 포함되므로 다른 환불로 대신할 수 없습니다.
+-- - 재시도는 시도 횟수를 늘리므로 lib/payments/refunds.ts가 결제 제공자의 취소 내역을 먼저 조회해
+--   이미 취소된 환불이면 다시 요청하지 않고 완료로 기록합니다.
+-- - 10분은 lib/refunds.ts의 REFUND_REQUEST_TIMEOUT_MINUTES와 같은 값입니다.
+-- ==========================================
+
+-- ==========================================
+-- 1. 환불 재시도 함수 (실패 / 멈춘 요청)
+-- ==========================================
+
+CREATE OR REPLACE FUNCTION restart_order_refund(p_refund_id UUID)
+RETURNS public.order_refunds AS $$
+DECLARE
+    v_refund public.order_refunds%ROWTYPE;
+    v_order public.orders%ROWTYPE;
+    v_refunded_amount DECIMAL(10,2);
+BEGIN
+    -- 1-1. 주문 행 잠금 후 환불 조회 (요청 기록 함수와 같은 순서로 잠금)
+    SELECT *
+    INTO v_refund
+    FROM public.order_refunds
+    WHERE id = p_refund_id;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION '환불 내역을 찾을 수 없습니다.';
+    END IF;
+
+    SELECT *
+    INTO v_order
+    FROM public.orders
+    WHERE id = v_refund.order_id
+    FOR UPDATE;
+
+    SELECT *
+    INTO v_refund
+    FROM public.order_refunds
+    WHERE id = p_refund_id
+    FOR UPDATE;
+
+    -- 1-2. 실패한 환불 또는 10분 이상 결과가 기록되지 않은 요청 중 환불만 재시도
+    IF NOT (
+        v_refund.status = 'failed'
+        OR (v_refund.status = 'requested' AND v_refund.updated_at < NOW() - INTERVAL '10 minutes')
+    ) THEN
+        RAISE EXCEPTION '결제 취소에 실패했거나 요청 후 10분이 지난 환불만 다시 시도할 수 있습니다.';
+    END IF;
+
+    -- 1-3. 남은 결제 금액 확인 (재시도하는 환불 제외)
+    SELECT COALESCE(SUM(amount), 0)
+    INTO v_refunded_amount
+    FROM public.order_refunds
+    WHERE order_id = v_refund.order_id
+      AND id <> p_refund_id
+      AND status IN ('requested', 'completed');
+
+    IF v_refund.amount > v_order.total_amount - v_refunded_amount THEN
+        RAISE EXCEPTION '환불 금액이 남은 결제 금액(%원)을 초과합니다.',
+            GREATEST(v_order.total_amount - v_refunded_amount, 0);
+    END IF;
+
+    -- 1-4. 요청 중으로 변경
+    UPDATE public.order_refunds
+    SET status = 'requested',
+        attempts = attempts + 1,
+        failure_message = NULL
+    WHERE id = p_refund_id
+    RETURNING * INTO v_refund;
+
+    RETURN v_refund;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+COMMENT ON FUNCTION restart_order_refund(UUID) IS '결제 취소에 실패했거나 요청 중으로 10분 이상 멈춘 환불 재시도 (요청 중으로 변경, 시도 횟수 증가, 결제 취소 전 취소 내역 확인)';
+
+-- 관리자 Server Action(service role)에서만 호출
+REVOKE EXECUTE ON FUNCTION restart_order_refund(UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION restart_order_refund(UUID) TO service_role;
+
+-- ==========================================
+-- 마이그레이션 완료
+-- ==========================================
+--
+-- 적용된 변경사항:
+-- ✅ restart_order_refund 요청 중으로 멈춘 환불 재시도 허용
+-- ✅ restart_order_refund 남은 결제 금액 계산에서 자신 제외
+--
+-- 다음 단계:
+-- 1. 관리자 주문 목록에서 환불 처리가 필요한 주문 필터
+-- ==========================================
@@ -0,0 +1,123 @@
+-- ==========================================
+-- 환불 요청 실패 기록 마이그레이션
+-- 환불 요청을 기록하지 못한 경우에도 관리자가 재시도할 수 있도록 실패한 환불로 기록
+-- ==========================================
+--
+-- 업데이트 내용:
+-- 1. record_failed_order_refund 함수 (남은 결제 금액 확인 없이 실패(failed)한 환불 기록)
+--
+-- 참고:
+-- - 주문 취소 / 반품 승인은 환불 전에 이미 처리되므로, create_order_refund가 실패하면
+--   환불 내역이 남지 않아 관리자가 재시도할 수 없었습니다.
+-- - 실패한 환불은 남은 결제 금액 계산에 포함되지 않고, 재시도(restart_order_refund) 시 다시 확인합니다.
+-- - 반품 신청에 이미 환불 내역이 있으면 새로 기록하지 않고 기존 환불을 반환합니다.
+-- ==========================================
+
+-- ==========================================
+-- 1. 환불 요청 실패 기록 함수
+-- ==========================================
+
+CREATE OR REPLACE FUNCTION record_failed_order_refund(
+    p_order_id UUID,
+    p_claim_id UUID,
+    p_type TEXT,
+    p_reason TEXT,
+    p_product_amount DECIMAL,
+    p_discount_amount DECIMAL,
+    p_shipping_amount DECIMAL,
+    p_deduction_amount DECIMAL,
+    p_amount DECIMAL,
+    p_provider TEXT,
+    p_actor_type TEXT,
+    p_actor_id TEXT,
+    p_failure_message TEXT
+)
+RETURNS public.order_refunds AS $$
+DECLARE
+    v_order public.orders%ROWTYPE;
+    v_refund public.order_refunds%ROWTYPE;
+BEGIN
+    -- 1-1. 주문 조회 및 행 잠금 (요청 기록 함수와 같은 순서로 잠금)
+    SELECT *
+    INTO v_order
+    FROM public.orders
+    WHERE id = p_order_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION '주문을 찾을 수 없습니다.';
+    END IF;
+
+    IF v_order.payment_id IS NULL THEN
+        RAISE EXCEPTION '결제가 승인되지 않은 주문은 환불할 수 없습니다.';
+    END IF;
+
+    -- 1-2. 반품 신청 1건당 환불 1건 (이미 있으면 기존 환불 반환)
+    IF p_claim_id IS NOT NULL THEN
+        SELECT *
+        INTO v_refund
+        FROM public.order_refunds
+        WHERE claim_id = p_claim_id;
+
+        IF FOUND THEN
+            RETURN v_refund;
+        END IF;
+    END IF;
+
+    -- 1-3. 실패한 환불로 저장
+    INSERT INTO public.order_refunds (
+        order_id,
+        claim_id,
+        type,
+        reason,
+        product_amount,
+        discount_amount,
+        shipping_amount,
+        deduction_amount,
+        amount,
+        status,
+        provider,
+        payment_key,
+        failure_message,
+        actor_type,
+        actor_id
+    )
+    VALUES (
+        p_order_id,
+        p_claim_id,
+        p_type,
+        p_reason,
+        COALESCE(p_product_amount, 0),
+        COALESCE(p_discount_amount, 0),
+        COALESCE(p_shipping_amount, 0),
+        COALESCE(p_deduction_amount, 0),
+        p_amount,
+        'failed',
+        p_provider,
+        v_order.payment_id,
+        p_failure_message,
+        p_actor_type,
+        NULLIF(p_actor_id, '')
+    )
+    RETURNING * INTO v_refund;
+
+    RETURN v_refund;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+COMMENT ON FUNCTION record_failed_order_refund(UUID, UUID, TEXT, TEXT, DECIMAL, DECIMAL, DECIMAL, DECIMAL, DECIMAL, TEXT, TEXT, TEXT, TEXT) IS '환불 요청을 기록하지 못한 경우 실패한 환불로 기록 (관리자 재시도용, 반품 신청 1건당 1건)';
+
+-- 관리자 / 주문 취소 Server Action(service role)에서만 호출
+REVOKE EXECUTE ON FUNCTION record_failed_order_refund(UUID, UUID, TEXT, TEXT, DECIMAL, DECIMAL, DECIMAL, DECIMAL, DECIMAL, TEXT, TEXT, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION record_failed_order_refund(UUID, UUID, TEXT, TEXT, DECIMAL, DECIMAL, DECIMAL, DECIMAL, DECIMAL, TEXT, TEXT, TEXT, TEXT) TO service_role;
+
+-- ==========================================
+-- 마이그레이션 완료
+-- ==========================================
+--
+-- 적용된 변경사항:
+-- ✅ record_failed_order_refund 함수 (환불 요청 실패 기록)
+--
+-- 다음 단계:
+-- 1. 환불 실패 시 관리자 알림 발송
+-- ==========================================
@@ -0,0 +1,72 @@
+-- ==========================================
+-- 인기상품 집계 반품 수량 제외 마이그레이션
+-- 승인된 반품 수량을 판매수량에서 제외
+-- ==========================================
+--
+-- 업데이트 내용:
+-- 1. product_popularity 구체화 뷰 재생성
+--    - 주문 항목별 판매수량에서 승인된 반품(order_claims type = return, status = approved) 수량 차감
+--
+-- 참고:
+-- - 기존에는 반품 완료(returned) 주문만 제외했기 때문에 일부 상품만 반품된 주문의
+--   반품 수량이 판매수량에 그대로 포함되었습니다.
+-- - refresh_product_popularity / get_popular_products는 뷰 이름으로 조회하므로 수정하지 않습니다.
+-- ==========================================
+
+-- ==========================================
+-- 1. 상품별 최근 판매수량 구체화 뷰 (반품 수량 제외)
+-- ==========================================
+
+DROP MATERIALIZED VIEW IF EXISTS public.product_popularity;
+
+CREATE MATERIALIZED VIEW public.product_popularity AS
+SELECT
+    p.id AS product_id,
+    COALESCE(SUM(s.quantity) FILTER (WHERE s.ordered_at >= NOW() - INTERVAL '7 days'), 0)::INTEGER AS sold_7d,
+    COALESCE(SUM(s.quantity), 0)::INTEGER AS sold_30d,
+    NOW() AS refreshed_at
+FROM public.products AS p
+LEFT JOIN (
+    SELECT
+        oi.product_id,
+        GREATEST(oi.quantity - COALESCE(r.quantity, 0), 0) AS quantity,
+        o.created_at AS ordered_at
+    FROM public.order_items AS oi
+    JOIN public.orders AS o ON o.id = oi.order_id
+    LEFT JOIN (
+        SELECT order_item_id, SUM(quantity) AS quantity
+        FROM public.order_claims
+        WHERE type = 'return'
+          AND status = 'approved'
+        GROUP BY order_item_id
+    ) AS r ON r.order_item_id = oi.id
+    WHERE o.status NOT IN ('cancelled', 'returned')
+      AND o.created_at >= NOW() - INTERVAL '30 days'
+) AS s ON s.product_id = p.id
+GROUP BY p.id;
+
+COMMENT ON MATERIALIZED VIEW public.product_popularity IS '상품별 최근 판매수량 집계 (취소 / 반품 완료 주문과 승인된 반품 수량 제외, get_popular_products에서 주기적으로 갱신)';
+COMMENT ON COLUMN public.product_popularity.sold_7d IS '최근 7일 판매수량 (승인된 반품 수량 제외)';
+COMMENT ON COLUMN public.product_popularity.sold_30d IS '최근 30일 판매수량 (승인된 반품 수량 제외)';
+COMMENT ON COLUMN public.product_popularity.refreshed_at IS '집계 시각';
+
+-- REFRESH ... CONCURRENTLY에 필요한 유니크 인덱스
+CREATE UNIQUE INDEX IF NOT EXISTS idx_product_popularity_product_id
+    ON public.product_popularity(product_id);
+
+-- ==========================================
+-- 2. 권한 부여
+-- ==========================================
+
+GRANT SELECT ON public.product_popularity TO anon, authenticated, service_role;
+
+-- ==========================================
+-- 마이그레이션 완료
+-- ==========================================
+--
+-- 적용된 변경사항:
+-- ✅ product_popularity 판매수량에서 승인된 반품 수량 제외
+--
+-- 다음 단계:
+-- 1. pg_cron 사용 시 refresh_product_popularity()를 주기적으로 실행해 요청 시 갱신 제거
+-- ==========================================
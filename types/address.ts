@@ -0,0 +1,38 @@
+/**
+ * @file types/address.ts
+ * @description 배송지 주소록 관련 타입 정의
+ *
+ * Supabase user_addresses 테이블의 스키마를 기반으로 한 TypeScript 타입 정의
+ */
+
+/**
+ * 저장한 배송지 타입 (user_addresses)
+ */
+export interface UserAddress {
+  id: string; // UUID
+  clerk_id: string; // Clerk 사용자 ID
+  label: string; // 배송지 이름 (예: 집, 회사)
+  recipient_name: string; // 수령인 이름
+  phone: string; // 수령인 휴대폰 번호 (숫자만)
+  postal_code: string; // 우편번호
+  address: string; // 기본 주소
+  detail_address: string; // 상세 주소
+  delivery_request: string | null; // 배송 요청사항
+  is_default: boolean; // 기본 배송지 여부
+  created_at: string; // ISO 8601 timestamp
+  updated_at: string; // ISO 8601 timestamp
+}
+
+/**
+ * 배송지 저장(추가/수정)에 필요한 데이터 타입
+ */
+export interface UserAddressInput {
+  label: string;
+  recipientName: string;
+  phone: string;
+  postalCode: string;
+  address: string;
+  detailAddress: string;
+  deliveryRequest?: string;
+  isDefault?: boolean; // 기본 배송지로 지정
+}
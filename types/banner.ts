@@ -0,0 +1,33 @@
+/**
+ * @file types/banner.ts
+ * @description Banner 관련 타입 정의
+ *
+ * Supabase banners 테이블의 스키마를 기반으로 한 TypeScript 타입 정의
+ */
+
+/**
+ * 배너 노출 상태
+ * - hidden: 숨김 (노출 안 함으로 설정)
+ * - scheduled: 예정 (노출 시작 전)
+ * - running: 노출 중
+ * - ended: 종료 (노출 기간 지남)
+ */
+export type BannerState = "hidden" | "scheduled" | "running" | "ended";
+
+/**
+ * 배너 테이블 타입 (banners)
+ */
+export interface Banner {
+  id: string; // UUID
+  title: string; // 배너 제목 (브랜드명, 이미지 대체 텍스트)
+  description: string | null; // 서식 있는 설명 (허용 태그: br, p, strong, em, u, a)
+  image_url: string;
+  link_url: string | null; // 이미지 클릭 시 이동할 URL
+  product_ids: string[]; // 함께 표시할 상품 ID 목록 (표시 순서)
+  sort_order: number; // 노출 순서 (오름차순)
+  is_active: boolean;
+  starts_at: string | null; // 노출 시작일시 (ISO 8601 timestamp, NULL이면 바로 노출)
+  ends_at: string | null; // 노출 종료일시 (ISO 8601 timestamp, NULL이면 종료 없음)
+  created_at: string; // ISO 8601 timestamp
+  updated_at: string; // ISO 8601 timestamp
+}
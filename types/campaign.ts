@@ -0,0 +1,38 @@
+/**
+ * @file types/campaign.ts
+ * @description Campaign 관련 타입 정의
+ *
+ * Supabase campaigns 테이블의 스키마를 기반으로 한 TypeScript 타입 정의
+ */
+
+/**
+ * 캠페인 할인 방식
+ * - fixed: 정액 할인 (원)
+ * - percentage: 정률 할인 (%)
+ */
+export type CampaignDiscountType = "fixed" | "percentage";
+
+/**
+ * 캠페인 진행 상태 (기간 기준)
+ * - scheduled: 예정
+ * - running: 진행 중
+ * - ended: 종료
+ */
+export type CampaignState = "scheduled" | "running" | "ended";
+
+/**
+ * 캠페인 테이블 타입 (campaigns)
+ */
+export interface Campaign {
+  id: string; // UUID
+  name: string; // 캠페인 이름 (홈 배너 대체 텍스트로도 사용)
+  description: string | null;
+  discount_type: CampaignDiscountType;
+  discount_value: number; // DECIMAL(10,2) - 정액: 원, 정률: %
+  starts_at: string; // 시작일시 (ISO 8601 timestamp)
+  ends_at: string; // 종료일시 (ISO 8601 timestamp)
+  target_categories: string[]; // 대상 카테고리 (캠페인 적용 시 해당 카테고리 상품 포함)
+  banner_image_url: string | null; // 홈 배너 이미지 URL
+  created_at: string; // ISO 8601 timestamp
+  updated_at: string; // ISO 8601 timestamp
+}
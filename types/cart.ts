@@ -5,7 +5,7 @@
  * Supabase cart_items 테이블의 스키마를 기반으로 한 TypeScript 타입 정의
  */
 
-import type { Product } from "./product";
+import type { Product, ProductVariant } from "./product";
 
 /**
  * 장바구니 항목 기본 타입
@@ -14,6 +14,7 @@ export interface CartItem {
   id: string; // UUID
   clerk_id: string; // Clerk 사용자 ID
   product_id: string; // UUID (products 테이블 참조)
+  variant_id: string | null; // UUID (product_variants 테이블 참조, 옵션 조합이 없는 상품은 null)
   quantity: number; // 수량
   options: Record<string, unknown> | null; // 상품 옵션 (사이즈, 색상 등) - JSONB
   created_at: string; // ISO 8601 timestamp
@@ -25,6 +26,7 @@ export interface CartItem {
  */
 export interface CartItemWithProduct extends CartItem {
   product: Product;
+  variant: ProductVariant | null; // 선택한 옵션 조합
 }
 
 /**
@@ -33,6 +35,7 @@ export interface CartItemWithProduct extends CartItem {
 export interface AddToCartData {
   productId: string;
   quantity: number;
+  variantId?: string | null; // 옵션 조합이 있는 상품은 필수
   options?: Record<string, unknown> | null;
 }
 
@@ -45,3 +48,25 @@ export interface UpdateCartQuantityData {
 }
 
 
+
+/**
+ * 비회원 장바구니 항목 타입
+ * 로그인하지 않은 사용자의 장바구니는 쿠키에 저장하고, 로그인하면 cart_items로 병합합니다.
+ */
+export interface GuestCartItem {
+  id: string; // 비회원 장바구니 항목 ID (UUID, 쿠키 안에서만 사용)
+  productId: string;
+  variantId: string | null; // 옵션 조합이 없는 상품은 null
+  quantity: number;
+  options: Record<string, unknown> | null;
+  addedAt: string; // ISO 8601 timestamp
+}
+
+/**
+ * 비회원 장바구니 병합 결과 타입 (merge_guest_cart 함수 반환값)
+ */
+export interface MergeGuestCartResult {
+  merged: number; // 그대로 병합된 항목 수
+  adjusted: number; // 재고 한도 때문에 수량을 줄여 병합된 항목 수
+  skipped: number; // 판매 중이 아니거나 품절되어 병합하지 못한 항목 수
+}
@@ -0,0 +1,87 @@
+/**
+ * @file types/claim.ts
+ * @description 반품 / 교환 관련 타입 정의
+ *
+ * Supabase order_claims 테이블의 스키마와 반품/교환 신청, 처리 데이터 타입을 정의합니다.
+ */
+
+/**
+ * 반품 / 교환 유형
+ * - return: 반품 (승인 시 재고 복구, 환불 금액 기록)
+ * - exchange: 교환 (승인 시 같은 상품 재발송)
+ */
+export type OrderClaimType = "return" | "exchange";
+
+/**
+ * 반품 / 교환 사유 유형
+ * - change_of_mind: 단순 변심
+ * - defective: 상품 불량
+ * - wrong_item: 오배송
+ * - damaged: 배송 중 파손
+ * - other: 기타
+ */
+export type OrderClaimReasonType =
+  | "change_of_mind"
+  | "defective"
+  | "wrong_item"
+  | "damaged"
+  | "other";
+
+/**
+ * 반품 / 교환 처리 상태
+ * - requested: 신청 (관리자 처리 대기)
+ * - approved: 승인
+ * - rejected: 거절
+ */
+export type OrderClaimStatus = "requested" | "approved" | "rejected";
+
+/**
+ * 반품 / 교환 신청 테이블 타입 (order_claims)
+ */
+export interface OrderClaim {
+  id: string; // UUID
+  order_id: string; // UUID (orders 테이블 참조)
+  order_item_id: string; // UUID (order_items 테이블 참조)
+  clerk_id: string; // 신청자 Clerk User ID
+  type: OrderClaimType; // 유형
+  reason_type: OrderClaimReasonType; // 사유 유형
+  reason: string; // 상세 사유
+  quantity: number; // 신청 수량
+  photo_paths: string[]; // 첨부 사진 Storage 경로 ({clerk_id}/claims/...)
+  status: OrderClaimStatus; // 처리 상태
+  refund_amount: number | null; // 반품 상품 환불 금액 (반품 승인 시, 실제 환불 금액은 order_refunds)
+  admin_note: string | null; // 관리자 메모 (거절 사유 등)
+  processed_by: string | null; // 처리한 관리자 Clerk User ID
+  processed_at: string | null; // 처리 일시 (ISO 8601 timestamp)
+  created_at: string; // ISO 8601 timestamp
+  updated_at: string; // ISO 8601 timestamp
+}
+
+/**
+ * 화면 표시용 반품 / 교환 신청 타입 (첨부 사진 signed URL)
+ */
+export interface OrderClaimWithPhotos extends Omit<OrderClaim, "photo_paths"> {
+  photo_urls: string[];
+}
+
+/**
+ * 반품 / 교환 신청에 필요한 데이터 타입
+ */
+export interface CreateOrderClaimData {
+  orderId: string; // 배송 완료된 주문 ID
+  orderItemId: string; // 주문 상품 ID (주문에 포함된 상품)
+  type: OrderClaimType;
+  reasonType: OrderClaimReasonType;
+  reason: string; // 상세 사유 (5~1000자)
+  quantity: number; // 신청 수량 (신청 가능 수량 이하)
+  photoPaths: string[]; // 업로드한 사진 Storage 경로 (최대 5장)
+}
+
+/**
+ * 관리자 반품 / 교환 처리에 필요한 데이터 타입
+ */
+export interface ProcessOrderClaimData {
+  approve: boolean; // true: 승인, false: 거절
+  refundAmount?: number | null; // 반품 상품 환불 금액 (반품 승인 시, 없으면 주문 단가 × 신청 수량, 쿠폰 할인 안분 / 반품 배송비 차감 전)
+  note?: string | null; // 관리자 메모 (거절 시 필수)
+}
@@ -0,0 +1,44 @@
+/**
+ * @file types/coupon.ts
+ * @description Coupon 관련 타입 정의
+ *
+ * Supabase coupons 테이블의 스키마를 기반으로 한 TypeScript 타입 정의
+ */
+
+/**
+ * 쿠폰 할인 방식
+ * - fixed: 정액 할인 (원)
+ * - percentage: 정률 할인 (%)
+ */
+export type CouponDiscountType = "fixed" | "percentage";
+
+/**
+ * 쿠폰 테이블 타입 (coupons)
+ */
+export interface Coupon {
+  id: string; // UUID
+  code: string; // 쿠폰 코드 (대문자)
+  name: string; // 쿠폰 이름 (고객에게 표시)
+  description: string | null;
+  discount_type: CouponDiscountType;
+  discount_value: number; // DECIMAL(10,2) - 정액: 원, 정률: %
+  max_discount_amount: number | null; // 정률 할인 최대 금액 (null이면 제한 없음)
+  min_order_amount: number; // 최소 주문 금액 (적용 대상 상품 금액 기준)
+  starts_at: string | null; // 사용 시작일시 (ISO 8601 timestamp)
+  expires_at: string | null; // 만료일시 (ISO 8601 timestamp)
+  usage_limit_per_user: number | null; // 1인당 사용 횟수 (null이면 제한 없음)
+  categories: string[] | null; // 적용 카테고리 (null이면 전체 상품)
+  is_active: boolean;
+  created_at: string; // ISO 8601 timestamp
+  updated_at: string; // ISO 8601 timestamp
+}
+
+/**
+ * 주문에 적용된 쿠폰 정보 (주문 페이지 미리보기용)
+ */
+export interface AppliedCoupon {
+  couponId: string;
+  code: string;
+  name: string;
+  discountAmount: number; // 할인 금액
+}
@@ -0,0 +1,48 @@
+/**
+ * @file types/home-section.ts
+ * @description HomeSection 관련 타입 정의
+ *
+ * Supabase home_sections 테이블의 스키마를 기반으로 한 TypeScript 타입 정의
+ */
+
+/**
+ * 홈 섹션 데이터 소스
+ * - promotional: 기획 상품 (프로모션 기간 중인 특가 상품)
+ * - latest: 최신 상품
+ * - popular: 인기상품 (최근 판매수량 + 조회수, popular_days 기간)
+ * - collaboration: 디자인 콜라보 상품
+ * - category: 카테고리 상품 (category 필수)
+ * - products: 직접 선택한 상품 (product_ids 순서)
+ * - campaign: 캠페인 적용 상품 (campaign_id 필수, 진행 중일 때만 표시)
+ */
+export type HomeSectionSource =
+  | "promotional"
+  | "latest"
+  | "popular"
+  | "collaboration"
+  | "category"
+  | "products"
+  | "campaign";
+
+/**
+ * 인기상품 판매수량 집계 기간 (일)
+ */
+export type PopularWindowDays = 7 | 30;
+
+/**
+ * 홈 섹션 테이블 타입 (home_sections)
+ */
+export interface HomeSection {
+  id: string; // UUID
+  title: string; // 섹션 제목
+  source_type: HomeSectionSource;
+  category: string | null; // source_type = category
+  product_ids: string[]; // source_type = products (표시 순서)
+  campaign_id: string | null; // source_type = campaign
+  popular_days: PopularWindowDays; // source_type = popular
+  item_count: number; // 표시할 최대 상품 수 (1~24)
+  sort_order: number; // 표시 순서 (오름차순)
+  is_visible: boolean;
+  created_at: string; // ISO 8601 timestamp
+  updated_at: string; // ISO 8601 timestamp
+}
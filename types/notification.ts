@@ -0,0 +1,74 @@
+/**
+ * @file types/notification.ts
+ * @description 알림 발송 관련 타입 정의
+ *
+ * 알림 수단(콘솔, 파일, SMTP 이메일, 카카오 알림톡, 메모리)이 공통으로 구현하는
+ * Notifier 인터페이스와 알림 메시지 타입을 정의합니다.
+ */
+
+/**
+ * 알림 수단 이름
+ * - console: 서버 콘솔에 출력 (로컬 개발용, 기본값)
+ * - file: 파일에 한 줄씩 JSON으로 기록 (로컬 개발 및 테스트용)
+ * - smtp: SMTP 서버로 이메일 발송
+ * - alimtalk: 카카오 알림톡 발송 (발송 대행사 연동 전까지 요청 내용만 출력하는 스텁)
+ * - memory: 서버 메모리에 보관 (테스트용, 발송된 알림을 코드에서 확인)
+ */
+export type NotifierName = "console" | "file" | "smtp" | "alimtalk" | "memory";
+
+/**
+ * 알림 종류
+ * - restock: 재입고 알림
+ * - order_placed: 주문 접수
+ * - payment_confirmed: 결제 완료 (주문 확인)
+ * - order_shipped: 배송 시작 (송장 정보 포함)
+ * - order_delivered: 배송 완료
+ * - order_cancelled: 주문 취소
+ */
+export type NotificationType =
+  | "restock"
+  | "order_placed"
+  | "payment_confirmed"
+  | "order_shipped"
+  | "order_delivered"
+  | "order_cancelled";
+
+/**
+ * 주문 알림 종류 (주문 상태 변경 시 발송)
+ */
+export type OrderNotificationType = Exclude<NotificationType, "restock">;
+
+/**
+ * 알림 받는 사람
+ */
+export interface NotificationRecipient {
+  clerkId: string; // Clerk 사용자 ID
+  email: string | null; // 이메일 (Clerk 기본 이메일, 없으면 null)
+  phone: string | null; // 휴대폰 번호 (알림톡 발송용, 없으면 null)
+  name: string | null; // 이름
+}
+
+/**
+ * 알림 메시지
+ */
+export interface NotificationMessage {
+  type: NotificationType;
+  recipient: NotificationRecipient;
+  subject: string; // 제목
+  body: string; // 본문 (텍스트)
+  url?: string; // 관련 페이지 경로 (예: /products/{id})
+  templateCode?: string; // 알림톡 템플릿 코드 (카카오에 등록한 템플릿, 본문은 템플릿과 같아야 함)
+}
+
+/**
+ * 알림 수단 인터페이스
+ * 새 알림 수단을 추가하면 이 인터페이스를 구현하고 lib/notifications/index.ts에 등록합니다.
+ */
+export interface Notifier {
+  name: NotifierName;
+  /**
+   * 알림 메시지를 발송합니다.
+   * 발송에 실패하면 에러를 던집니다.
+   */
+  send(message: NotificationMessage): Promise<void>;
+}
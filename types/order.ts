@@ -5,6 +5,8 @@
  * Supabase orders 및 order_items 테이블의 스키마를 기반으로 한 TypeScript 타입 정의
  */
 
+import type { CourierCode } from "@/types/shipment";
+
 /**
  * 배송 정보 타입
  */
@@ -19,23 +21,53 @@ export interface ShippingAddress {
 
 /**
  * 주문 상태 타입
+ * - return_requested: 반품/교환 신청을 처리하고 있는 배송 완료 주문
+ * - returned: 주문 상품 전체가 반품된 주문
  */
 export type OrderStatus =
   | "pending"
   | "confirmed"
   | "shipped"
   | "delivered"
-  | "cancelled";
+  | "cancelled"
+  | "return_requested"
+  | "returned";
+
+/**
+ * 주문 상태 변경 주체 타입
+ * - customer: 주문자 본인 (주문 생성, 결제, 취소)
+ * - admin: 관리자
+ * - system: 시스템 (기존 데이터 이관 등)
+ */
+export type OrderStatusActorType = "customer" | "admin" | "system";
+
+/**
+ * 주문 상태 변경 이력 타입 (order_status_history)
+ */
+export interface OrderStatusHistory {
+  id: string; // UUID
+  order_id: string; // UUID (orders 테이블 참조)
+  from_status: OrderStatus | null; // 변경 전 상태 (주문 생성 시 null)
+  to_status: OrderStatus; // 변경 후 상태
+  actor_type: OrderStatusActorType; // 변경 주체
+  actor_id: string | null; // 변경자 Clerk User ID
+  reason: string | null; // 변경 사유
+  created_at: string; // ISO 8601 timestamp
+}
 
 /**
  * 결제 상태 타입
+ * - partially_refunded: 부분 환불 (반품 승인 등으로 결제 일부 취소)
+ * - refunded: 전액 환불
  */
 export type PaymentStatus =
   | "pending"
   | "processing"
   | "completed"
   | "failed"
-  | "cancelled";
+  | "cancelled"
+  | "partially_refunded"
+  | "refunded";
 
 /**
  * 주문 테이블 타입 (orders)
@@ -43,7 +75,12 @@ export type PaymentStatus =
 export interface Order {
   id: string; // UUID
   clerk_id: string; // Clerk 사용자 ID
-  total_amount: number; // DECIMAL(10,2) - 주문 총액 (상품 금액 + 배송비)
+  subtotal: number; // DECIMAL(10,2) - 상품 금액 합계
+  shipping_fee: number; // DECIMAL(10,2) - 배송비 (제주/도서산간 추가 배송비 포함)
+  discount_amount: number; // DECIMAL(10,2) - 쿠폰 할인 금액
+  coupon_id: string | null; // UUID (coupons 테이블 참조)
+  coupon_code: string | null; // 적용한 쿠폰 코드 (주문 시점 스냅샷)
+  total_amount: number; // DECIMAL(10,2) - 주문 총액 (상품 금액 + 배송비 - 쿠폰 할인)
   status: OrderStatus; // 주문 상태
   shipping_address: ShippingAddress | null; // 배송 정보 (JSONB)
   order_note: string | null; // 주문 메모
@@ -51,6 +88,10 @@ export interface Order {
   payment_method: string | null; // 결제 수단 (CARD, TRANSFER 등)
   payment_status: PaymentStatus | null; // 결제 상태
   payment_data: Record<string, unknown> | null; // 결제 관련 추가 데이터 (JSONB)
+  carrier: CourierCode | null; // 택배사 코드
+  tracking_number: string | null; // 송장 번호 (숫자만)
+  shipped_at: string | null; // 배송 시작 일시 (ISO 8601 timestamp)
+  delivered_at: string | null; // 배송 완료 일시 (ISO 8601 timestamp)
   created_at: string; // ISO 8601 timestamp
   updated_at: string; // ISO 8601 timestamp
 }
@@ -62,9 +103,12 @@ export interface OrderItem {
   id: string; // UUID
   order_id: string; // UUID (orders 테이블 참조)
   product_id: string; // UUID (products 테이블 참조)
+  variant_id: string | null; // UUID (product_variants 테이블 참조)
+  sku: string | null; // 주문 시점의 옵션 조합 SKU
   product_name: string; // 상품명 (주문 시점의 상품명 저장)
   quantity: number; // 수량
   price: number; // DECIMAL(10,2) - 주문 시점의 상품 가격
+  discount_amount: number; // DECIMAL(10,2) - 주문 항목에 안분된 쿠폰 할인 금액 (할인 대상 항목만)
   options: Record<string, unknown> | null; // 상품 옵션 (사이즈, 색상 등) - JSONB
   created_at: string; // ISO 8601 timestamp
 }
@@ -83,6 +127,7 @@ export interface CreateOrderData {
   cartItemIds: string[]; // 선택한 장바구니 항목 ID 배열
   shippingAddress: ShippingAddress; // 배송 정보
   orderNote?: string | null; // 주문 메모 (선택사항)
+  couponCode?: string | null; // 쿠폰 코드 (선택사항)
 }
 
 /**
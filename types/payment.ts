@@ -0,0 +1,86 @@
+/**
+ * @file types/payment.ts
+ * @description 결제 관련 타입 정의
+ *
+ * 결제 제공자(Toss Payments, 로컬 가짜 게이트웨이)가 공통으로 구현하는 인터페이스와
+ * 결제 승인 / 취소(환불) 요청/결과 타입을 정의합니다.
+ */
+
+/**
+ * 결제 제공자 이름
+ * - toss: Toss Payments (테스트/라이브 키 사용)
+ * - fake: 로컬 개발 및 테스트용 가짜 게이트웨이 (외부 호출 없음)
+ */
+export type PaymentProviderName = "toss" | "fake";
+
+/**
+ * 결제 승인 요청 데이터
+ * 결제창에서 successUrl로 전달되는 쿼리 파라미터와 동일합니다.
+ */
+export interface PaymentConfirmRequest {
+  paymentKey: string; // 결제 제공자가 발급한 결제 키
+  orderId: string; // 주문 ID (orders.id)
+  amount: number; // 결제 금액
+}
+
+/**
+ * 결제 승인 결과
+ */
+export interface PaymentConfirmResult {
+  paymentKey: string; // 결제 키 (orders.payment_id에 저장)
+  method: string; // 결제 수단 (카드, 간편결제 등)
+  totalAmount: number; // 승인된 결제 금액
+  approvedAt: string | null; // 승인 일시 (ISO 8601)
+  raw: Record<string, unknown>; // 결제 제공자 원본 응답 (orders.payment_data에 저장)
+}
+
+/**
+ * 결제 취소(환불) 요청 데이터
+ */
+export interface PaymentCancelRequest {
+  paymentKey: string; // 취소할 결제 키 (orders.payment_id)
+  cancelAmount: number; // 취소 금액 (부분 취소 가능)
+  cancelReason: string; // 취소 사유
+  idempotencyKey: string; // 멱등 키 (같은 키로 다시 요청하면 중복 취소하지 않음, 환불 1건당 1개)
+}
+
+/**
+ * 결제 취소(환불) 결과
+ */
+export interface PaymentCancelResult {
+  transactionKey: string | null; // 취소 거래 키 (정산 대사용)
+  cancelAmount: number; // 취소된 금액
+  canceledAt: string | null; // 취소 일시 (ISO 8601)
+  raw: Record<string, unknown>; // 결제 제공자 원본 응답 (order_refunds.provider_response에 저장)
+}
+
+/**
+ * 결제 제공자 인터페이스
+ */
+export interface PaymentProvider {
+  name: PaymentProviderName;
+  /**
+   * 결제를 승인합니다.
+   * 승인에 실패하면 결제 제공자의 에러 메시지로 에러를 던집니다.
+   */
+  confirmPayment(request: PaymentConfirmRequest): Promise<PaymentConfirmResult>;
+  /**
+   * 승인된 결제를 전액 또는 부분 취소(환불)합니다.
+   * 취소에 실패하면 결제 제공자의 에러 메시지로 에러를 던집니다.
+   */
+  cancelPayment(request: PaymentCancelRequest): Promise<PaymentCancelResult>;
+  /**
+   * 결제의 취소 거래 내역을 조회합니다. (환불 재시도 전 이미 취소되었는지 확인)
+   * 조회에 실패하면 결제 제공자의 에러 메시지로 에러를 던집니다.
+   */
+  getPaymentCancels(paymentKey: string): Promise<PaymentCancelResult[]>;
+}
+
+/**
+ * 클라이언트 결제창 설정
+ * 서버에서 선택한 결제 제공자와 공개 가능한 키만 전달합니다.
+ */
+export interface PaymentClientConfig {
+  provider: PaymentProviderName;
+  clientKey: string | null; // Toss Payments 클라이언트 키 (fake인 경우 null)
+}
@@ -0,0 +1,38 @@
+/**
+ * @file types/postcode.ts
+ * @description 우편번호 검색 관련 타입 정의
+ *
+ * 우편번호 검색 어댑터(카카오 주소 검색 API, 오프라인 샘플 데이터)가 공통으로 구현하는
+ * 인터페이스와 검색 결과 타입을 정의합니다.
+ */
+
+/**
+ * 우편번호 검색 어댑터 이름
+ * - kakao: 카카오 로컬 API 주소 검색 (REST API 키 사용)
+ * - fixture: 로컬 개발 및 테스트용 오프라인 샘플 주소 (외부 호출 없음)
+ */
+export type PostcodeAdapterName = "kakao" | "fixture";
+
+/**
+ * 우편번호 검색 결과 (주소 1건)
+ */
+export interface PostcodeAddress {
+  postalCode: string; // 우편번호 (5자리 국가기초구역번호)
+  roadAddress: string; // 도로명 주소 (배송 정보 폼의 기본 주소에 채움)
+  jibunAddress: string | null; // 지번 주소 (검색 결과 참고용)
+  buildingName: string | null; // 건물 이름
+}
+
+/**
+ * 우편번호 검색 어댑터 인터페이스
+ */
+export interface PostcodeAdapter {
+  name: PostcodeAdapterName;
+  /**
+   * 도로명, 지번, 건물 이름으로 주소를 검색합니다.
+   * 검색에 실패하면 에러를 던집니다.
+   *
+   * @returns 검색 결과 (최대 limit개)
+   */
+  search(query: string, limit: number): Promise<PostcodeAddress[]>;
+}
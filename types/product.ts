@@ -5,6 +5,14 @@
  * Supabase products 테이블의 스키마를 기반으로 한 TypeScript 타입 정의
  */
 
+/**
+ * 배송 유형
+ * - standard: 일반 배송 (묶음 배송, 무료 배송 기준 적용)
+ * - bulky: 대형 상품 (개별 배송, 무료 배송 기준 미적용)
+ * - free: 무료 배송 상품
+ */
+export type ShippingClass = "standard" | "bulky" | "free";
+
 /**
  * 상품 정보 타입
  */
@@ -14,7 +22,7 @@ export interface Product {
   description: string | null;
   price: number; // DECIMAL(10,2)
   category: string | null;
-  stock_quantity: number;
+  stock_quantity: number; // 옵션 조합이 있는 상품은 판매 중인 옵션 조합 재고 합계
   is_active: boolean;
   image_url: string | null; // 상품 이미지 URL (Supabase Storage 또는 외부 URL) - 단일 이미지 (호환성)
   image_urls: string[] | null; // 상품 이미지 URL 배열 (다중 이미지 지원)
@@ -24,8 +32,28 @@ export interface Product {
   discount_percentage: number | null; // 할인율 (0-100%, 원가 대비 할인 비율)
   promotion_start_date: string | null; // 프로모션 시작일시 (ISO 8601 timestamp)
   promotion_end_date: string | null; // 프로모션 종료일시 (ISO 8601 timestamp)
+  campaign_id: string | null; // 적용 중인 프로모션 캠페인 (캠페인 할인이 프로모션 필드에 반영됨)
+  campaign_saved_promotion?: Record<string, unknown> | null; // 캠페인 적용 직전의 프로모션 필드 (캠페인 해제 시 복원)
   options: Record<string, unknown> | null; // 상품 옵션 (사이즈, 색상 등) - JSONB
   status: "active" | "out_of_stock" | "hidden"; // 상품 상태
+  shipping_class: ShippingClass; // 배송 유형 (배송비 계산에 사용)
+  review_count: number; // 리뷰 수 (reviews 트리거로 자동 갱신)
+  rating_average: number; // DECIMAL(3,2) - 평균 별점 (리뷰가 없으면 0)
+  created_at: string; // ISO 8601 timestamp
+  updated_at: string; // ISO 8601 timestamp
+}
+
+/**
+ * 상품 옵션 조합 타입 (product_variants)
+ */
+export interface ProductVariant {
+  id: string; // UUID
+  product_id: string; // UUID (products 테이블 참조)
+  options: Record<string, string>; // 옵션 조합 (예: { 사이즈: "M", 색상: "검정" }) - JSONB
+  sku: string | null; // 재고 관리 코드
+  stock_quantity: number; // 옵션 조합 재고 수량
+  price_delta: number; // DECIMAL(10,2) - 상품 가격 대비 추가 금액
+  is_active: boolean; // 판매 여부
   created_at: string; // ISO 8601 timestamp
   updated_at: string; // ISO 8601 timestamp
 }
@@ -0,0 +1,78 @@
+/**
+ * @file types/refund.ts
+ * @description 환불 관련 타입 정의
+ *
+ * Supabase order_refunds 테이블의 스키마와 환불 금액 계산 결과 타입을 정의합니다.
+ */
+
+import type { PaymentProviderName } from "@/types/payment";
+
+/**
+ * 환불 유형
+ * - cancel: 주문 취소 (남은 결제 금액 전액 환불)
+ * - return: 반품 승인 (반품 상품 금액 기준 부분 환불)
+ */
+export type OrderRefundType = "cancel" | "return";
+
+/**
+ * 환불 처리 상태
+ * - requested: 결제 취소 요청 중
+ * - completed: 환불 완료
+ * - failed: 결제 취소 실패 (관리자 재시도 가능)
+ */
+export type OrderRefundStatus = "requested" | "completed" | "failed";
+
+/**
+ * 환불 요청 주체
+ */
+export type OrderRefundActorType = "customer" | "admin" | "system";
+
+/**
+ * 환불 금액 계산 결과
+ * 최종 환불 금액 = 상품 금액 - 쿠폰 할인 안분 + 배송비 환불 - 반품 배송비 차감
+ * (남은 결제 금액을 넘지 않음)
+ */
+export interface RefundBreakdown {
+  productAmount: number; // 환불 대상 상품 금액
+  discountAmount: number; // 쿠폰 할인 안분 금액 (차감)
+  shippingAmount: number; // 배송비 환불 금액
+  deductionAmount: number; // 반품 배송비 차감 금액
+  amount: number; // 최종 환불 금액
+}
+
+/**
+ * 환불 테이블 타입 (order_refunds)
+ */
+export interface OrderRefund {
+  id: string; // UUID
+  order_id: string; // UUID (orders 테이블 참조)
+  claim_id: string | null; // UUID (order_claims 테이블 참조, 반품 환불인 경우)
+  type: OrderRefundType; // 환불 유형
+  reason: string; // 환불 사유 (결제 취소 사유로 전달)
+  product_amount: number; // DECIMAL(10,2) - 환불 대상 상품 금액
+  discount_amount: number; // DECIMAL(10,2) - 쿠폰 할인 안분 금액
+  shipping_amount: number; // DECIMAL(10,2) - 배송비 환불 금액
+  deduction_amount: number; // DECIMAL(10,2) - 반품 배송비 차감 금액
+  amount: number; // DECIMAL(10,2) - 최종 환불 금액
+  status: OrderRefundStatus; // 처리 상태
+  provider: PaymentProviderName; // 결제 제공자
+  payment_key: string; // 취소한 결제 키
+  transaction_key: string | null; // 결제 제공자 취소 거래 키
+  provider_response: Record<string, unknown> | null; // 결제 제공자 원본 응답 (JSONB)
+  failure_message: string | null; // 마지막 실패 사유
+  attempts: number; // 결제 취소 시도 횟수
+  actor_type: OrderRefundActorType; // 요청 주체
+  actor_id: string | null; // 요청자 Clerk User ID
+  completed_at: string | null; // 환불 완료 일시 (ISO 8601 timestamp)
+  created_at: string; // ISO 8601 timestamp
+  updated_at: string; // ISO 8601 timestamp
+}
+
+/**
+ * 주문 취소 / 반품 승인 후 환불 요청 결과
+ * 주문 취소 / 반품 승인은 이미 처리되었으므로 환불 실패는 에러 대신 결과로 전달합니다.
+ */
+export interface RefundRequestResult {
+  refund: OrderRefund | null; // 환불 내역 (환불 대상이 아니면 null, 결제 취소 실패 시 status: failed)
+  refundError: string | null; // 환불 내역을 기록하지 못한 경우 에러 메시지 (관리자 확인 필요)
+}
@@ -0,0 +1,58 @@
+/**
+ * @file types/review.ts
+ * @description 상품 리뷰 관련 타입 정의
+ *
+ * Supabase reviews 테이블의 스키마와 리뷰 요약(평균 별점, 별점 분포) 타입을 정의합니다.
+ */
+
+/**
+ * 상품 리뷰 테이블 타입 (reviews)
+ */
+export interface Review {
+  id: string; // UUID
+  product_id: string; // UUID (products 테이블 참조)
+  order_id: string; // UUID (orders 테이블 참조, 주문 1건의 상품 1개당 리뷰 1개)
+  clerk_id: string; // 작성자 Clerk User ID
+  author_name: string; // 작성 시점의 작성자 이름
+  rating: number; // 별점 (1~5)
+  content: string; // 리뷰 내용
+  photo_paths: string[]; // 리뷰 사진 Storage 경로 ({clerk_id}/reviews/...)
+  created_at: string; // ISO 8601 timestamp
+  updated_at: string; // ISO 8601 timestamp
+}
+
+/**
+ * 화면 표시용 리뷰 타입 (작성자 이름 일부 가림, 사진 signed URL)
+ */
+export interface ReviewWithPhotos extends Omit<Review, "clerk_id" | "photo_paths"> {
+  photo_urls: string[];
+}
+
+/**
+ * 상품 리뷰 요약 (get_product_review_summary 함수 결과)
+ */
+export interface ReviewSummary {
+  count: number; // 리뷰 수
+  average: number; // 평균 별점 (리뷰가 없으면 0)
+  histogram: Record<1 | 2 | 3 | 4 | 5, number>; // 별점별 리뷰 수
+}
+
+/**
+ * 상품 리뷰 목록 조회 결과
+ */
+export interface ProductReviewsResult {
+  summary: ReviewSummary;
+  reviews: ReviewWithPhotos[];
+  totalCount: number;
+}
+
+/**
+ * 리뷰 작성에 필요한 데이터 타입
+ */
+export interface CreateReviewData {
+  orderId: string; // 배송 완료된 주문 ID
+  productId: string; // 주문에 포함된 상품 ID
+  rating: number; // 별점 (1~5)
+  content: string; // 리뷰 내용 (10~2000자)
+  photoPaths: string[]; // 업로드한 사진 Storage 경로 (최대 5장)
+}
@@ -0,0 +1,33 @@
+/**
+ * @file types/search.ts
+ * @description 상품 검색 관련 타입 정의
+ *
+ * search_products 함수(한글 n-gram 검색) 결과와 Navbar 자동완성 제안 타입을 정의합니다.
+ */
+
+import type { Product } from "./product";
+
+/**
+ * 상품 검색 결과 타입
+ */
+export interface ProductSearchResult {
+  query: string; // 정규화된 검색어
+  products: Product[]; // 검색 순위순 상품 목록
+  totalCount: number; // 전체 검색 결과 수
+}
+
+/**
+ * 검색 자동완성 제안 종류
+ * - product: 상품 (상품 상세로 이동)
+ * - category: 카테고리 (카테고리 상품 목록으로 이동)
+ */
+export type SearchSuggestionType = "product" | "category";
+
+/**
+ * 검색 자동완성 제안 타입
+ */
+export interface SearchSuggestion {
+  type: SearchSuggestionType;
+  label: string; // 표시 텍스트 (상품명 또는 카테고리 이름)
+  href: string; // 선택 시 이동할 경로
+}
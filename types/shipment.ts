@@ -0,0 +1,80 @@
+/**
+ * @file types/shipment.ts
+ * @description 배송 조회 관련 타입 정의
+ *
+ * 택배사 조회 어댑터(로컬 가짜 어댑터 등)가 공통으로 구현하는 인터페이스와
+ * 배송 조회 요청/결과 타입을 정의합니다.
+ */
+
+/**
+ * 택배사 코드
+ * - cj: CJ대한통운
+ * - hanjin: 한진택배
+ * - lotte: 롯데택배
+ * - epost: 우체국택배
+ */
+export type CourierCode = "cj" | "hanjin" | "lotte" | "epost";
+
+/**
+ * 택배사 조회 어댑터 이름
+ * - fake: 로컬 개발 및 테스트용 가짜 어댑터 (외부 호출 없음)
+ */
+export type CourierAdapterName = "fake";
+
+/**
+ * 배송 단계
+ * - picked_up: 집화 처리
+ * - in_transit: 간선 이동 중
+ * - out_for_delivery: 배송 출발
+ * - delivered: 배송 완료
+ */
+export type TrackingEventStatus =
+  | "picked_up"
+  | "in_transit"
+  | "out_for_delivery"
+  | "delivered";
+
+/**
+ * 배송 조회 이벤트
+ */
+export interface TrackingEvent {
+  status: TrackingEventStatus; // 배송 단계
+  description: string; // 택배사 처리 내용 (예: "간선상차")
+  location: string | null; // 처리 장소 (터미널, 대리점 등)
+  occurredAt: string; // 처리 일시 (ISO 8601)
+}
+
+/**
+ * 배송 조회 요청 데이터
+ */
+export interface TrackShipmentRequest {
+  carrier: CourierCode; // 택배사 코드
+  trackingNumber: string; // 송장 번호 (숫자만)
+  shippedAt: string | null; // 배송 시작 일시 (orders.shipped_at)
+}
+
+/**
+ * 배송 조회 결과 (주문 상세 페이지 표시용)
+ */
+export interface ShipmentTracking {
+  carrier: CourierCode; // 택배사 코드
+  carrierName: string; // 택배사 이름
+  trackingNumber: string; // 송장 번호
+  trackingUrl: string; // 택배사 배송 조회 페이지 URL
+  events: TrackingEvent[]; // 배송 조회 이벤트 (오래된 순 정렬)
+  isDelivered: boolean; // 배송 완료 여부
+}
+
+/**
+ * 택배사 조회 어댑터 인터페이스
+ */
+export interface CourierAdapter {
+  name: CourierAdapterName;
+  /**
+   * 송장 번호로 배송 조회 이벤트를 가져옵니다.
+   * 조회에 실패하면 택배사의 에러 메시지로 에러를 던집니다.
+   *
+   * @returns 배송 조회 이벤트 (오래된 순 정렬)
+   */
+  trackShipment(request: TrackShipmentRequest): Promise<TrackingEvent[]>;
+}
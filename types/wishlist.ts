@@ -0,0 +1,26 @@
+/**
+ * @file types/wishlist.ts
+ * @description Wishlist(찜하기) 관련 타입 정의
+ *
+ * Supabase wishlists 테이블의 스키마를 기반으로 한 TypeScript 타입 정의
+ */
+
+import type { Product } from "./product";
+
+/**
+ * 찜한 상품 기본 타입
+ */
+export interface WishlistItem {
+  id: string; // UUID
+  clerk_id: string; // Clerk 사용자 ID
+  product_id: string; // UUID (products 테이블 참조)
+  created_at: string; // ISO 8601 timestamp
+}
+
+/**
+ * 상품 정보를 포함한 찜한 상품 타입
+ */
+export interface WishlistItemWithProduct extends WishlistItem {
+  product: Product;
+  has_variants: boolean; // 옵션 조합이 있는 상품 (장바구니 이동 시 옵션 선택 필요)
+}
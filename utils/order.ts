@@ -2,10 +2,10 @@
  * @file utils/order.ts
  * @description 주문 관련 유틸리티 함수
  *
- * 주문 상태 변환, 배지 색상, 날짜 포맷팅 등의 공통 함수를 제공합니다.
+ * 주문 상태 변환, 상태 변경 규칙(반품/교환 포함), 배지 색상, 날짜 포맷팅 등의 공통 함수를 제공합니다.
  */
 
-import type { OrderStatus } from "@/types/order";
+import type { OrderStatus, OrderStatusActorType } from "@/types/order";
 
 /**
  * 주문 상태를 한글 레이블로 변환합니다.
@@ -20,10 +20,93 @@ export function getOrderStatusLabel(status: OrderStatus | string): string {
     shipped: "배송 중",
     delivered: "배송 완료",
     cancelled: "주문 취소",
+    return_requested: "반품/교환 접수",
+    returned: "반품 완료",
   };
   return statusMap[status] || status;
 }
 
+/**
+ * 주문 상태 변경 규칙
+ * pending → confirmed → shipped → delivered 순서로 진행하며,
+ * 배송 전(pending, confirmed)에만 취소할 수 있습니다.
+ * 배송 완료 후 반품/교환을 신청하면 return_requested가 되고, 신청을 모두 처리하면
+ * delivered(일부 반품, 교환, 거절) 또는 returned(전체 반품)가 됩니다.
+ *
+ * DB에서도 같은 규칙으로 상태 변경을 차단합니다.
+ * (is_valid_order_status_transition 함수, 규칙을 바꾸면 함께 수정해야 합니다)
+ */
+export const ORDER_STATUS_TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+  pending: ["confirmed", "cancelled"],
+  confirmed: ["shipped", "cancelled"],
+  shipped: ["delivered"],
+  delivered: ["return_requested"],
+  cancelled: [],
+  return_requested: ["delivered", "returned"],
+  returned: [],
+};
+
+/**
+ * 반품/교환 신청 처리로만 바뀌는 주문 상태
+ * (관리자 상태 변경 버튼에는 표시하지 않고 request_order_claim, admin_process_order_claim 함수에서 변경)
+ */
+export const CLAIM_ORDER_STATUSES: OrderStatus[] = ["return_requested", "returned"];
+
+/**
+ * 현재 주문 상태에서 변경할 수 있는 다음 상태 목록을 반환합니다.
+ *
+ * @param status - 현재 주문 상태
+ * @returns 변경 가능한 주문 상태 목록
+ */
+export function getNextOrderStatuses(status: OrderStatus | string): OrderStatus[] {
+  return ORDER_STATUS_TRANSITIONS[status as OrderStatus] ?? [];
+}
+
+/**
+ * 관리자가 상태 변경 버튼으로 변경할 수 있는 다음 상태 목록을 반환합니다.
+ * 반품/교환 상태로의 변경과 반품/교환 상태에서의 변경은 신청 처리로만 할 수 있습니다.
+ *
+ * @param status - 현재 주문 상태
+ * @returns 관리자가 변경할 수 있는 주문 상태 목록
+ */
+export function getAdminNextOrderStatuses(status: OrderStatus | string): OrderStatus[] {
+  if (CLAIM_ORDER_STATUSES.includes(status as OrderStatus)) {
+    return [];
+  }
+  return getNextOrderStatuses(status).filter(
+    (nextStatus) => !CLAIM_ORDER_STATUSES.includes(nextStatus)
+  );
+}
+
+/**
+ * 주문 상태를 변경할 수 있는지 확인합니다.
+ *
+ * @param from - 현재 주문 상태
+ * @param to - 변경할 주문 상태
+ * @returns 변경 가능 여부
+ */
+export function canTransitionOrderStatus(
+  from: OrderStatus | string,
+  to: OrderStatus
+): boolean {
+  return getNextOrderStatuses(from).includes(to);
+}
+
+/**
+ * 상태 이력의 변경 주체를 한글 레이블로 변환합니다.
+ *
+ * @param actorType - 변경 주체
+ * @returns 한글 레이블
+ */
+export function getOrderStatusActorLabel(actorType: OrderStatusActorType | string): string {
+  const actorMap: Record<string, string> = {
+    customer: "고객",
+    admin: "관리자",
+    system: "시스템",
+  };
+  return actorMap[actorType] || actorType;
+}
+
 /**
  * 주문 상태에 따른 배지 색상 클래스를 반환합니다.
  *
@@ -37,6 +120,8 @@ export function getOrderStatusColor(status: OrderStatus | string): string {
     shipped: "bg-purple-500 text-white",
     delivered: "bg-green-500 text-white",
     cancelled: "bg-red-500 text-white",
+    return_requested: "bg-orange-500 text-white",
+    returned: "bg-gray-500 text-white",
   };
   return colorMap[status] || "bg-gray-500 text-white";
 }